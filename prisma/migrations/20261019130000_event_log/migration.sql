@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "EventLog" ADD COLUMN "txIndex" INTEGER;
+ALTER TABLE "EventLog" ADD COLUMN "eventOrdinal" INTEGER;
+ALTER TABLE "EventLog" ADD COLUMN "asset" TEXT;
+ALTER TABLE "EventLog" ADD COLUMN "rawData" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventLog_signature_eventOrdinal_key" ON "EventLog"("signature", "eventOrdinal");
+
+-- CreateIndex
+CREATE INDEX "EventLog_slot_txIndex_eventOrdinal_idx" ON "EventLog"("slot", "txIndex", "eventOrdinal");
+
+-- CreateIndex
+CREATE INDEX "EventLog_asset_idx" ON "EventLog"("asset");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "HashChainRepair" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "agentId" TEXT NOT NULL,
+    "chainType" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "fromSlot" BIGINT,
+    "divergentCount" BIGINT,
+    "onChainCount" BIGINT NOT NULL,
+    "rowsUpdated" INTEGER NOT NULL DEFAULT 0,
+    "rowsInserted" INTEGER NOT NULL DEFAULT 0,
+    "rowsOrphaned" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "HashChainRepair_agentId_createdAt_idx" ON "HashChainRepair"("agentId", "createdAt");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ReputationSnapshot" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "agentId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "client" TEXT NOT NULL,
+    "feedbackIndex" BIGINT NOT NULL,
+    "slot" BIGINT NOT NULL,
+    "txSignature" TEXT NOT NULL,
+    "blockTime" DATETIME NOT NULL,
+    "trustTier" INTEGER NOT NULL,
+    "qualityScore" INTEGER NOT NULL,
+    "confidence" INTEGER NOT NULL,
+    "riskScore" INTEGER NOT NULL,
+    "diversityRatio" INTEGER NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReputationSnapshot_agentId_eventType_client_feedbackIndex_key" ON "ReputationSnapshot"("agentId", "eventType", "client", "feedbackIndex");
+
+-- CreateIndex
+CREATE INDEX "ReputationSnapshot_agentId_blockTime_idx" ON "ReputationSnapshot"("agentId", "blockTime");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "AgentAnomaly" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "agentId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "score" REAL NOT NULL,
+    "evidence" TEXT NOT NULL,
+    "detectedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentAnomaly_agentId_kind_key" ON "AgentAnomaly"("agentId", "kind");
+
+-- CreateIndex
+CREATE INDEX "AgentAnomaly_kind_idx" ON "AgentAnomaly"("kind");
+
+-- CreateIndex
+CREATE INDEX "AgentAnomaly_updatedAt_idx" ON "AgentAnomaly"("updatedAt");
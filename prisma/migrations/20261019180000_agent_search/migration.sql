@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "AgentMetadata" ADD COLUMN "updatedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "AgentSearchDocument" (
+    "agentId" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT,
+    "description" TEXT,
+    "tools" TEXT NOT NULL,
+    "skills" TEXT NOT NULL,
+    "domains" TEXT NOT NULL,
+    "metadataText" TEXT NOT NULL,
+    "sourceCount" INTEGER NOT NULL,
+    "sourceUpdatedAt" DATETIME,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- Full-text index over AgentSearchDocument (external content, kept in sync by triggers)
+CREATE VIRTUAL TABLE "agent_search_fts" USING fts5(
+    name, description, tools, skills, domains, metadataText,
+    content='AgentSearchDocument', content_rowid='rowid', tokenize='unicode61'
+);
+
+CREATE TRIGGER "AgentSearchDocument_fts_insert" AFTER INSERT ON "AgentSearchDocument" BEGIN
+    INSERT INTO "agent_search_fts"(rowid, name, description, tools, skills, domains, metadataText)
+    VALUES (new.rowid, new.name, new.description, new.tools, new.skills, new.domains, new.metadataText);
+END;
+
+CREATE TRIGGER "AgentSearchDocument_fts_delete" AFTER DELETE ON "AgentSearchDocument" BEGIN
+    INSERT INTO "agent_search_fts"("agent_search_fts", rowid, name, description, tools, skills, domains, metadataText)
+    VALUES ('delete', old.rowid, old.name, old.description, old.tools, old.skills, old.domains, old.metadataText);
+END;
+
+CREATE TRIGGER "AgentSearchDocument_fts_update" AFTER UPDATE ON "AgentSearchDocument" BEGIN
+    INSERT INTO "agent_search_fts"("agent_search_fts", rowid, name, description, tools, skills, domains, metadataText)
+    VALUES ('delete', old.rowid, old.name, old.description, old.tools, old.skills, old.domains, old.metadataText);
+    INSERT INTO "agent_search_fts"(rowid, name, description, tools, skills, domains, metadataText)
+    VALUES (new.rowid, new.name, new.description, new.tools, new.skills, new.domains, new.metadataText);
+END;
@@ -0,0 +1,99 @@
+/**
+ * Backfill an explicit slot or signature range into the existing DB
+ * Run: npx tsx scripts/backfill-range.ts --from-slot=N --to-slot=M [--reprocess] [--batch-size=100]
+ *      npx tsx scripts/backfill-range.ts --before=<sig> --until=<sig>
+ *
+ * Safe to run while the indexer is live: indexer_state is not touched and
+ * events already in the event log are skipped (unless --reprocess).
+ * Agent fields keep their current value only when the event log holds a later
+ * event setting them: later changes missing from the log (indexed before it
+ * existed, or with it disabled) are not seen and can be rolled back.
+ * Slot bounds are inclusive; --before/--until signatures are exclusive.
+ */
+import "dotenv/config";
+
+function arg(name: string): string | undefined {
+  return process.argv.find((a) => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+function intArg(name: string): number | undefined {
+  const value = arg(name);
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) {
+    console.error(`--${name} must be a non-negative integer`);
+    process.exit(1);
+  }
+  return Number.parseInt(value, 10);
+}
+
+const range = {
+  fromSlot: intArg("from-slot"),
+  toSlot: intArg("to-slot"),
+  before: arg("before"),
+  until: arg("until"),
+};
+const batchSize = intArg("batch-size");
+const reprocess = process.argv.includes("--reprocess");
+
+if (range.fromSlot === undefined && range.toSlot === undefined && !range.before && !range.until) {
+  console.error("Usage: backfill-range.ts --from-slot=N --to-slot=M | --before=<sig> --until=<sig> [--reprocess]");
+  process.exit(1);
+}
+
+async function main() {
+  const { PublicKey } = await import("@solana/web3.js");
+  const { PrismaClient } = await import("@prisma/client");
+  const { config } = await import("../src/config.js");
+  const { getPool } = await import("../src/db/supabase.js");
+  const { drainDerivedDigestQueues } = await import("../src/db/handlers.js");
+  const { RangeBackfill } = await import("../src/indexer/range-backfill.js");
+  const { getRpcPool } = await import("../src/indexer/rpc-pool.js");
+  const { metadataQueue } = await import("../src/indexer/metadata-queue.js");
+  const { collectionMetadataQueue } = await import("../src/indexer/collection-metadata-queue.js");
+
+  const connection = getRpcPool().connection;
+  const prisma = config.dbMode === "local" ? new PrismaClient() : null;
+  const pool = config.dbMode === "supabase" ? getPool() : null;
+  if (pool) metadataQueue.setPool(pool);
+
+  console.log(`Backfilling ${JSON.stringify(range)} (${config.dbMode}${reprocess ? ", reprocess" : ""})\n`);
+
+  try {
+    const result = await new RangeBackfill({
+      connection,
+      prisma,
+      pool,
+      programId: new PublicKey(config.programId),
+      batchSize,
+      reprocess,
+      onProgress: ({ processed, total, slot }) => {
+        console.log(`  ${processed}/${total} transactions - slot ${slot}`);
+      },
+    }).run(range);
+
+    console.log(
+      `\n${result.scanned} transactions in range: ${result.processed} processed, ` +
+      `${result.events} events applied, ${result.skipped} already indexed, ` +
+      `${result.failed.length} failed in ${(result.duration / 1000).toFixed(1)}s`
+    );
+
+    // Let queued metadata/digest fetches for the new rows finish before exiting
+    await Promise.all([metadataQueue.drain(), drainDerivedDigestQueues()]);
+
+    if (result.failed.length > 0) {
+      console.log("\nFailed signatures:");
+      for (const sig of result.failed) console.log(`  ${sig}`);
+      process.exitCode = 1;
+    }
+  } finally {
+    metadataQueue.shutdown();
+    collectionMetadataQueue.shutdown();
+    await prisma?.$disconnect();
+    await pool?.end();
+  }
+}
+
+main().catch((error) => {
+  console.error("Range backfill failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
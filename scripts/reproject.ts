@@ -0,0 +1,75 @@
+/**
+ * Rebuild derived tables from the stored event log (no RPC)
+ * Run: npx tsx scripts/reproject.ts [--dry-run] [--allow-incomplete] [--batch-size=1000]
+ *
+ * Stop the indexer first. The rebuild runs in a single transaction; --dry-run
+ * replays, prints a per-table diff and rolls back.
+ */
+import "dotenv/config";
+
+// URI and collection metadata are carried over by the reprojector; don't queue fetches while replaying
+process.env.INDEX_METADATA = "off";
+process.env.INDEX_COLLECTION_METADATA = "false";
+
+const dryRun = process.argv.includes("--dry-run");
+const allowIncomplete = process.argv.includes("--allow-incomplete");
+const batchSizeArg = process.argv.find((arg) => arg.startsWith("--batch-size="))?.slice("--batch-size=".length);
+const batchSize = batchSizeArg ? Number.parseInt(batchSizeArg, 10) : undefined;
+
+if (batchSize !== undefined && (!Number.isFinite(batchSize) || batchSize < 1)) {
+  console.error("--batch-size must be a positive integer");
+  process.exit(1);
+}
+
+async function main() {
+  // Imported after the env overrides above so config picks them up
+  const { config } = await import("../src/config.js");
+  const { PrismaClient } = await import("@prisma/client");
+  const { getPool } = await import("../src/db/supabase.js");
+  const { Reprojector } = await import("../src/services/reprojector.js");
+  const { metadataQueue } = await import("../src/indexer/metadata-queue.js");
+  const { collectionMetadataQueue } = await import("../src/indexer/collection-metadata-queue.js");
+
+  const prisma = config.dbMode === "local" ? new PrismaClient() : null;
+  const pool = config.dbMode === "supabase" ? getPool() : null;
+
+  console.log(`Reprojecting derived tables (${config.dbMode}${dryRun ? ", dry run" : ""})\n`);
+
+  try {
+    const result = await new Reprojector(prisma, pool).run({
+      dryRun,
+      allowIncomplete,
+      batchSize,
+      onProgress: ({ processed, total, slot }) => {
+        const pct = total > 0 ? ((processed / total) * 100).toFixed(1) : "100.0";
+        console.log(`  ${processed}/${total} events (${pct}%) - slot ${slot}`);
+      },
+    });
+
+    console.log(`\n${result.events} events replayed, ${result.skipped} skipped in ${(result.duration / 1000).toFixed(1)}s`);
+
+    if (result.diff) {
+      console.log("\nDry run diff (rolled back):");
+      for (const d of result.diff) {
+        console.log(`  ${d.table}: ${d.before} -> ${d.after} rows, +${d.added} -${d.removed} ~${d.changed}`);
+        for (const kind of ["added", "removed", "changed"] as const) {
+          if (d.samples[kind].length > 0) {
+            console.log(`    ${kind}: ${d.samples[kind].join(", ")}`);
+          }
+        }
+      }
+    } else {
+      console.log("Committed. Hash-chain digest cache was cleared and will be rebuilt by the verifier.");
+    }
+  } finally {
+    metadataQueue.shutdown();
+    collectionMetadataQueue.shutdown();
+    await prisma?.$disconnect();
+    await pool?.end();
+  }
+}
+
+main().catch((error) => {
+  console.error("Reprojection failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
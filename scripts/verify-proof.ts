@@ -0,0 +1,37 @@
+/**
+ * Verify a hash-chain proof bundle offline (no database, no RPC)
+ * Run: npx tsx scripts/verify-proof.ts <bundle.json>
+ *
+ * Bundles are exported by GET /rest/v1/verify/proof/:asset; the format is
+ * described in docs/proof-bundle.md. Exits non-zero when the bundle does not
+ * verify.
+ */
+import { readFileSync } from "fs";
+import { verifyProofBundle, PROOF_CHAIN_TYPES } from "../src/services/proof-verifier.js";
+
+const file = process.argv[2];
+if (!file) {
+  console.error("Usage: npx tsx scripts/verify-proof.ts <bundle.json>");
+  process.exit(1);
+}
+
+try {
+  const result = verifyProofBundle(JSON.parse(readFileSync(file, "utf8")));
+
+  console.log(`Asset ${result.asset} at slot ${result.anchorSlot}\n`);
+  for (const error of result.errors) {
+    console.log(`  ${error}`);
+  }
+  for (const chainType of PROOF_CHAIN_TYPES) {
+    const chain = result.chains[chainType];
+    console.log(`  ${chainType}: ${chain.valid ? "OK" : "FAILED"} (${chain.count} events, digest ${chain.digest})`);
+    for (const error of chain.errors) {
+      console.log(`    ${error}`);
+    }
+  }
+  console.log(`\n${result.valid ? "Bundle verified" : "Bundle does NOT verify"}`);
+  process.exit(result.valid ? 0 : 1);
+} catch (error: any) {
+  console.error(`Failed to verify ${file}: ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,239 @@
+/**
+ * REST Server-Sent Events stream (GET /rest/v1/events/stream)
+ *
+ * Pushes committed program events from the live event bus. Each message id is
+ * the event position (slot:tx_index:event_ordinal); reconnecting clients send
+ * it back as Last-Event-ID and receive retained events after it before live ones.
+ * A client too slow to keep up is disconnected, so it reconnects and resumes
+ * from its last id instead of silently missing events.
+ */
+
+import { Request, Response } from 'express';
+import { LRUCache } from 'lru-cache';
+import type { PrismaClient } from '@prisma/client';
+import { logger } from '../logger.js';
+import { config } from '../config.js';
+import { EVENT_DISCRIMINATORS } from '../parser/types.js';
+import {
+  liveEvents,
+  formatLiveEventId,
+  parseLiveEventId,
+  LiveEventOverflowError,
+  type LiveProgramEvent,
+} from '../indexer/live-events.js';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const RECONNECT_DELAY_MS = 5000;
+const MAX_FILTER_VALUES = 50;
+const AGENT_COLLECTION_CACHE_TTL_MS = 60 * 1000;
+const BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export interface EventStreamFilter {
+  types: string[];
+  assets: string[];
+  collection: string | null;
+}
+
+interface AgentCollections {
+  collection: string | null;
+  collectionPointer: string | null;
+}
+
+/**
+ * Accepts "a,b", PostgREST "eq.a" and "in.(a,b)"
+ */
+function parseListParam(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (typeof value !== 'string') return null;
+  let raw = value.trim();
+  if (raw.startsWith('eq.')) {
+    raw = raw.slice(3);
+  } else if (raw.startsWith('in.(') && raw.endsWith(')')) {
+    raw = raw.slice(4, -1);
+  }
+  const values = raw.split(',').map((v) => v.trim()).filter((v) => v.length > 0);
+  return values.length > MAX_FILTER_VALUES ? null : [...new Set(values)];
+}
+
+export function parseEventStreamFilter(query: Request['query']): { error: string } | { filter: EventStreamFilter } {
+  const types = parseListParam(query.type);
+  if (!types || types.some((t) => !(t in EVENT_DISCRIMINATORS))) {
+    return { error: `type must be a list of: ${Object.keys(EVENT_DISCRIMINATORS).join(', ')}` };
+  }
+
+  const assets = parseListParam(query.asset);
+  if (!assets || assets.some((a) => !BASE58_REGEX.test(a))) {
+    return { error: `asset must be a list of at most ${MAX_FILTER_VALUES} base58 public keys` };
+  }
+
+  const collection = parseListParam(query.collection);
+  if (!collection || collection.length > 1 || (collection[0] && collection[0].length > 256)) {
+    return { error: 'collection must be a single collection address or pointer (c1:<cid>)' };
+  }
+
+  return { filter: { types, assets, collection: collection[0] ?? null } };
+}
+
+function matchesBaseFilter(event: LiveProgramEvent, filter: EventStreamFilter): boolean {
+  if (filter.types.length > 0 && !filter.types.includes(event.type)) return false;
+  if (filter.assets.length > 0 && (!event.asset || !filter.assets.includes(event.asset))) return false;
+  return true;
+}
+
+/**
+ * Collection filter matches the agent's collection or collection pointer, and
+ * the events that establish them
+ */
+export function matchesCollection(
+  event: LiveProgramEvent,
+  collection: string,
+  agent: AgentCollections | null
+): boolean {
+  if (event.type === 'RegistryInitialized') return event.asset === collection;
+  if (event.type === 'AgentRegistered' && event.data.collection === collection) return true;
+  if (event.type === 'CollectionPointerSet' && event.data.col === collection) return true;
+  if (!agent) return false;
+  return agent.collection === collection || agent.collectionPointer === collection;
+}
+
+export function mapLiveEventToApi(event: LiveProgramEvent): Record<string, unknown> {
+  return {
+    id: formatLiveEventId(event),
+    type: event.type,
+    asset: event.asset,
+    client: event.client,
+    slot: event.slot.toString(),
+    tx_index: event.txIndex,
+    event_ordinal: event.eventOrdinal,
+    tx_signature: event.signature,
+    block_time: event.blockTime.toISOString(),
+    data: event.data,
+  };
+}
+
+export function createEventStreamHandler(prisma: PrismaClient) {
+  let activeClients = 0;
+  const agentCollections = new LRUCache<string, AgentCollections>({
+    max: 5000,
+    ttl: AGENT_COLLECTION_CACHE_TTL_MS,
+  });
+
+  async function loadAgentCollections(asset: string): Promise<AgentCollections | null> {
+    const cached = agentCollections.get(asset);
+    if (cached) return cached;
+    const agent = await prisma.agent.findUnique({
+      where: { id: asset },
+      select: { collection: true, collectionPointer: true },
+    });
+    if (!agent) return null;
+    const entry = { collection: agent.collection, collectionPointer: agent.collectionPointer || null };
+    agentCollections.set(asset, entry);
+    return entry;
+  }
+
+  async function matches(event: LiveProgramEvent, filter: EventStreamFilter): Promise<boolean> {
+    if (!matchesBaseFilter(event, filter)) return false;
+    if (!filter.collection) return true;
+    // Agent row may not exist yet for AgentRegistered; matchesCollection handles it from event data
+    const agent = event.asset && event.type !== 'RegistryInitialized'
+      ? await loadAgentCollections(event.asset)
+      : null;
+    return matchesCollection(event, filter.collection, agent);
+  }
+
+  return async (req: Request, res: Response) => {
+    const parsed = parseEventStreamFilter(req.query);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    const { filter } = parsed;
+
+    // EventSource sends Last-Event-ID on reconnect; the query param allows resuming a fresh connection
+    const lastEventIdRaw = req.get('Last-Event-ID') ?? (typeof req.query.last_event_id === 'string' ? req.query.last_event_id : undefined);
+    const resumeFrom = lastEventIdRaw ? parseLiveEventId(lastEventIdRaw) : null;
+    if (lastEventIdRaw && !resumeFrom) {
+      res.status(400).json({ error: 'Invalid Last-Event-ID. Expected <slot>:<tx_index>:<event_ordinal>.' });
+      return;
+    }
+
+    if (activeClients >= config.restSseMaxClients) {
+      res.status(503).json({ error: 'Too many event stream clients, try again later.' });
+      return;
+    }
+    activeClients++;
+
+    // Subscribe before reading history so nothing committed in between is lost
+    const iterator = liveEvents.iterate('event', (e) => matchesBaseFilter(e, filter));
+    let closed = false;
+    const heartbeat = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    res.on('close', () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      activeClients--;
+      void iterator.return?.();
+    });
+
+    const write = async (chunk: string): Promise<void> => {
+      if (closed || res.write(chunk)) return;
+      await new Promise<void>((resolve) => {
+        res.once('drain', resolve);
+        res.once('close', resolve);
+      });
+    };
+
+    const send = async (event: LiveProgramEvent): Promise<void> => {
+      const payload = mapLiveEventToApi(event);
+      await write(`id: ${payload.id}\ndata: ${JSON.stringify(payload)}\n\n`);
+    };
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    try {
+      await write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      const replayed = new Set<string>();
+      if (resumeFrom) {
+        const { events, complete } = liveEvents.eventsAfter(resumeFrom);
+        if (!complete) {
+          // History does not reach back to the client's position: re-sync via the REST collections
+          await write(`event: resync\ndata: ${JSON.stringify({ last_event_id: lastEventIdRaw })}\n\n`);
+        }
+        for (const event of events) {
+          if (closed) break;
+          replayed.add(formatLiveEventId(event));
+          if (await matches(event, filter)) {
+            await send(event);
+          }
+        }
+      }
+
+      for await (const event of iterator) {
+        if (closed) break;
+        if (replayed.size > 0 && replayed.has(formatLiveEventId(event))) continue;
+        if (await matches(event, filter)) {
+          await send(event);
+        }
+      }
+    } catch (error) {
+      if (error instanceof LiveEventOverflowError) {
+        logger.warn({ filter }, 'Event stream client fell behind, closing the stream');
+      } else {
+        logger.error({ error }, 'Error in event stream');
+      }
+    } finally {
+      if (!closed) {
+        res.end();
+      }
+    }
+  };
+}
@@ -112,6 +112,12 @@ export interface RegistrationRow {
   value: Buffer;
 }
 
+export interface UriRefreshRow {
+  asset: string;
+  last_fetched_at: string | null;
+  last_changed_at: string | null;
+}
+
 export interface AgentStatsRow {
   asset: string;
   feedback_count: string;
@@ -122,6 +128,30 @@ export interface AgentStatsRow {
   last_activity: string | null;
 }
 
+export interface AnomalyRow {
+  asset: string;
+  kind: string;
+  severity: string;
+  score: number;
+  evidence: unknown;
+  detected_at: string;
+  updated_at: string;
+}
+
+export interface DocumentRow {
+  id: string;
+  uri: string;
+  status: string;
+  error: string | null;
+  bytes: number | null;
+  content_hash: string | null;
+  hash_algorithm: string | null;
+  hash_verified: boolean | null;
+  cid_verified: boolean | null;
+  content: unknown;
+  fetched_at: string;
+}
+
 export interface FeedbackCountRow {
   asset: string;
   count: string;
@@ -642,6 +672,49 @@ function createAgentStatsByAgentLoader(pool: Pool) {
   });
 }
 
+function createAnomaliesByAgentLoader(pool: Pool) {
+  return new DataLoader<string, AnomalyRow[]>(async (keys) => {
+    const { rows } = await pool.query<AnomalyRow>(
+      `SELECT asset, kind, severity, score, evidence, detected_at::text, updated_at::text
+       FROM agent_anomalies WHERE asset = ANY($1::text[])
+       ORDER BY score DESC, kind ASC`,
+      [keys as string[]]
+    );
+    const map = new Map<string, AnomalyRow[]>();
+    for (const row of rows) {
+      const arr = map.get(row.asset) ?? [];
+      arr.push(row);
+      map.set(row.asset, arr);
+    }
+    return keys.map(k => map.get(k) ?? []);
+  });
+}
+
+function createDocumentByIdLoader(pool: Pool) {
+  return new DataLoader<string, DocumentRow | null>(async (keys) => {
+    const { rows } = await pool.query<DocumentRow>(
+      `SELECT id, uri, status, error, bytes, content_hash, hash_algorithm, hash_verified, cid_verified,
+              content, fetched_at::text
+       FROM feedback_documents WHERE id = ANY($1::text[])`,
+      [keys as string[]]
+    );
+    const map = new Map(rows.map(r => [r.id, r]));
+    return keys.map(k => map.get(k) ?? null);
+  });
+}
+
+function createUriRefreshByAgentLoader(pool: Pool) {
+  return new DataLoader<string, UriRefreshRow | null>(async (keys) => {
+    const { rows } = await pool.query<UriRefreshRow>(
+      `SELECT asset, last_fetched_at::text, last_changed_at::text
+       FROM agent_uri_refresh WHERE asset = ANY($1::text[])`,
+      [keys as string[]]
+    );
+    const map = new Map(rows.map(r => [r.asset, r]));
+    return keys.map(k => map.get(k) ?? null);
+  });
+}
+
 export interface DataLoaders {
   agentById: DataLoader<string, AgentRow | null>;
   feedbackByLookup: DataLoader<string, FeedbackRow | null>;
@@ -652,7 +725,10 @@ export interface DataLoaders {
   feedbackCountByAgent: DataLoader<string, number>;
   lastActivityByAgent: DataLoader<string, string | null>;
   registrationByAgent: DataLoader<string, RegistrationRow[]>;
+  uriRefreshByAgent: DataLoader<string, UriRefreshRow | null>;
   agentStatsByAgent: DataLoader<string, AgentStatsRow | null>;
+  anomaliesByAgent: DataLoader<string, AnomalyRow[]>;
+  documentById: DataLoader<string, DocumentRow | null>;
 }
 
 export function createDataLoaders(pool: Pool): DataLoaders {
@@ -666,6 +742,9 @@ export function createDataLoaders(pool: Pool): DataLoaders {
     feedbackCountByAgent: createFeedbackCountByAgentLoader(pool),
     lastActivityByAgent: createLastActivityByAgentLoader(pool),
     registrationByAgent: createRegistrationByAgentLoader(pool),
+    uriRefreshByAgent: createUriRefreshByAgentLoader(pool),
     agentStatsByAgent: createAgentStatsByAgentLoader(pool),
+    anomaliesByAgent: createAnomaliesByAgentLoader(pool),
+    documentById: createDocumentByIdLoader(pool),
   };
 }
@@ -35,6 +35,10 @@ const FIELD_COSTS: Record<string, number> = {
   feedback: 3,
   responses: 2,
   registrationFile: 3,
+  registrationHistory: 3,
+  changes: 3,
+  registrationFileDiff: 5,
+  reputationHistory: 5,
   globalStats: 5,
   protocol: 5,
   protocols: 5,
@@ -43,13 +47,23 @@ const FIELD_COSTS: Record<string, number> = {
   hashChainHeads: 5,
   hashChainLatestCheckpoints: 5,
   hashChainReplayData: 8,
+  hashChainDivergence: 20,
+  feedbackActivity: 10,
+  feedbackTags: 10,
+  feedbackEndpoints: 10,
+  topTags: 3,
+  client: 5,
+  anomalies: 2,
+  document: 2,
+  leaderboard: 10,
+  searchAgents: 10,
 };
 
 const LIST_FIELDS = new Set([
   'agents', 'feedbacks', 'feedbackResponses', 'validations',
   'agentMetadatas', 'protocols', 'agentSearch', 'agentRegistrationFiles',
   'feedback', 'responses', 'metadata',
-  'hashChainReplayData',
+  'hashChainReplayData', 'leaderboard', 'registrationHistory',
 ]);
 
 function getFirstArg(node: FieldNode): number {
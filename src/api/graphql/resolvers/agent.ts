@@ -2,6 +2,12 @@ import type { GraphQLContext } from '../context.js';
 import type { AgentRow } from '../dataloaders.js';
 import { encodeAgentId, numericAgentId } from '../utils/ids.js';
 import { clampFirst, clampSkip, encodeCursor } from '../utils/pagination.js';
+import { createBadUserInputError } from '../utils/errors.js';
+import { ReputationHistory, resolveHistoryWindow, MAX_HISTORY_BUCKETS } from '../../../services/reputation-history.js';
+import { FeedbackTaxonomy } from '../../../services/feedback-taxonomy.js';
+import { RegistrationHistory } from '../../../services/registration-history.js';
+import { mapTaxonomyEntry } from './analytics.js';
+import { mapRegistrationVersion } from './registration.js';
 
 const FEEDBACK_ORDER_MAP: Record<string, 'created_at' | 'value' | 'feedback_index'> = {
   createdAt: 'created_at',
@@ -139,6 +145,53 @@ export const agentResolvers = {
       if (!stats) return null;
       return { ...stats, _asset: parent.asset };
     },
+    async reputationHistory(
+      parent: AgentRow,
+      args: { from?: bigint | null; to?: bigint | null; bucket?: 'HOUR' | 'DAY' },
+      ctx: GraphQLContext
+    ) {
+      const bucket = args.bucket === 'HOUR' ? 'hour' : 'day';
+      const window = resolveHistoryWindow(
+        bucket,
+        args.from != null ? Number(args.from) : undefined,
+        args.to != null ? Number(args.to) : undefined
+      );
+      if (!window) {
+        throw createBadUserInputError(`from must be before to and span at most ${MAX_HISTORY_BUCKETS} buckets`);
+      }
+
+      const points = await new ReputationHistory(null, ctx.pool).query(parent.asset, window);
+      return points.map((p) => ({
+        timestamp: String(Math.floor(p.bucketStart.getTime() / 1000)),
+        trustTier: p.trustTier,
+        qualityScore: p.qualityScore,
+        confidence: p.confidence,
+        riskScore: p.riskScore,
+        diversityRatio: p.diversityRatio,
+        events: p.events,
+        slot: p.slot.toString(),
+        feedbackIndex: p.feedbackIndex.toString(),
+      }));
+    },
+    async topTags(parent: AgentRow, args: { first?: number | null }, ctx: GraphQLContext) {
+      const entries = await new FeedbackTaxonomy(null, ctx.pool).tags({
+        agentId: parent.asset,
+        limit: args.first ?? 5,
+      });
+      return entries.map((e) => mapTaxonomyEntry('tag', e));
+    },
+    async registrationHistory(
+      parent: AgentRow,
+      args: { first?: number | null; skip?: number | null },
+      ctx: GraphQLContext
+    ) {
+      const versions = await new RegistrationHistory(ctx.pool).list(
+        parent.asset,
+        clampFirst(args.first),
+        clampSkip(args.skip)
+      );
+      return versions.map(mapRegistrationVersion);
+    },
     solana(parent: AgentRow) {
       return parent;
     },
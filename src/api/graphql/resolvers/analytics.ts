@@ -0,0 +1,216 @@
+import type { GraphQLContext } from '../context.js';
+import { decodeAgentId } from '../utils/ids.js';
+import { createBadUserInputError } from '../utils/errors.js';
+import { clampFirst, clampSkip } from '../utils/pagination.js';
+import {
+  LeaderboardService,
+  type LeaderboardEntry,
+  type LeaderboardStrategy,
+  type LeaderboardWindow,
+} from '../../../services/leaderboard.js';
+import { ClientProfiles } from '../../../services/client-profile.js';
+import { FeedbackTaxonomy, type TaxonomyEntry, type TaxonomyFilter } from '../../../services/feedback-taxonomy.js';
+
+type ActivityBucket = 'HOUR' | 'DAY' | 'WEEK';
+
+const BUCKETS: Record<ActivityBucket, { trunc: string; seconds: number; defaultCount: number }> = {
+  HOUR: { trunc: 'hour', seconds: 3600, defaultCount: 168 },
+  DAY: { trunc: 'day', seconds: 86400, defaultCount: 30 },
+  WEEK: { trunc: 'week', seconds: 604800, defaultCount: 26 },
+};
+
+const MAX_ACTIVITY_BUCKETS = 2000;
+
+interface FeedbackActivityArgs {
+  agent?: string | null;
+  collection?: string | null;
+  tag1?: string | null;
+  bucket?: ActivityBucket | null;
+  from?: bigint | null;
+  to?: bigint | null;
+}
+
+interface FeedbackActivityRow {
+  timestamp: string;
+  feedback_count: string;
+  unique_clients: string;
+  average_value: string | null;
+  revocation_count: string;
+  response_count: string;
+}
+
+interface TaxonomyArgs {
+  agent?: string | null;
+  collection?: string | null;
+  first?: number | null;
+}
+
+function taxonomyFilter(args: TaxonomyArgs): TaxonomyFilter {
+  const filter: TaxonomyFilter = { limit: args.first ?? undefined };
+  if (args.agent) {
+    const asset = decodeAgentId(args.agent);
+    if (!asset) {
+      throw createBadUserInputError('Invalid agent id. Expected sol:<assetPubkey>.');
+    }
+    filter.agentId = asset;
+  }
+  if (args.collection) filter.collection = args.collection;
+  return filter;
+}
+
+export function mapTaxonomyEntry(key: 'tag' | 'endpoint', entry: TaxonomyEntry) {
+  return {
+    [key]: entry.name,
+    feedbackCount: String(entry.feedbackCount),
+    agentCount: String(entry.agentCount),
+    averageValue: entry.averageValue,
+    firstSeen: String(Math.floor(entry.firstSeen.getTime() / 1000)),
+    lastSeen: String(Math.floor(entry.lastSeen.getTime() / 1000)),
+  };
+}
+
+const LEADERBOARD_WINDOWS: Record<string, LeaderboardWindow> = {
+  LAST_7_DAYS: '7d',
+  LAST_30_DAYS: '30d',
+  ALL_TIME: 'all',
+};
+
+interface LeaderboardArgs {
+  strategy?: string | null;
+  window?: string | null;
+  tag?: string | null;
+  collection?: string | null;
+  first?: number | null;
+  skip?: number | null;
+}
+
+export const analyticsResolvers = {
+  Query: {
+    async feedbackActivity(_: unknown, args: FeedbackActivityArgs, ctx: GraphQLContext) {
+      const bucket = BUCKETS[args.bucket ?? 'DAY'];
+      if (!bucket) {
+        throw createBadUserInputError('Invalid bucket. Expected HOUR, DAY, or WEEK.');
+      }
+
+      const to = args.to != null ? Number(args.to) : Math.floor(Date.now() / 1000);
+      const from = args.from != null ? Number(args.from) : to - bucket.defaultCount * bucket.seconds;
+      if (from >= to) {
+        throw createBadUserInputError('from must be before to');
+      }
+      if ((to - from) / bucket.seconds > MAX_ACTIVITY_BUCKETS) {
+        throw createBadUserInputError(`Window spans more than ${MAX_ACTIVITY_BUCKETS} buckets`);
+      }
+
+      const params: unknown[] = [bucket.trunc, new Date(from * 1000).toISOString(), new Date(to * 1000).toISOString()];
+      const conditions = ['bucket_start >= $2', 'bucket_start < $3'];
+      if (args.agent) {
+        const asset = decodeAgentId(args.agent);
+        if (!asset) {
+          throw createBadUserInputError('Invalid agent id. Expected sol:<assetPubkey>.');
+        }
+        params.push(asset);
+        conditions.push(`asset = $${params.length}`);
+      }
+      if (args.collection) {
+        params.push(args.collection);
+        conditions.push(`collection = $${params.length}`);
+      }
+      if (args.tag1 != null) {
+        params.push(args.tag1);
+        conditions.push(`tag1 = $${params.length}`);
+      }
+      const where = conditions.join(' AND ');
+
+      // Rollups are hourly; distinct clients are counted over the whole bucket
+      const { rows } = await ctx.pool.query<FeedbackActivityRow>(
+        `WITH activity AS (
+           SELECT date_trunc($1, bucket_start AT TIME ZONE 'UTC') AS b,
+                  SUM(feedback_count)::bigint AS feedback_count,
+                  SUM(value_sum) AS value_sum,
+                  SUM(revocation_count)::bigint AS revocation_count,
+                  SUM(response_count)::bigint AS response_count
+           FROM feedback_activity
+           WHERE ${where}
+           GROUP BY b
+         ), clients AS (
+           SELECT date_trunc($1, bucket_start AT TIME ZONE 'UTC') AS b,
+                  COUNT(DISTINCT client_address)::bigint AS unique_clients
+           FROM feedback_activity_clients
+           WHERE ${where}
+           GROUP BY b
+         )
+         SELECT FLOOR(EXTRACT(EPOCH FROM a.b))::bigint::text AS timestamp,
+                a.feedback_count::text AS feedback_count,
+                COALESCE(c.unique_clients, 0)::text AS unique_clients,
+                CASE WHEN a.feedback_count > 0 THEN trim_scale(a.value_sum / a.feedback_count)::text END AS average_value,
+                a.revocation_count::text AS revocation_count,
+                a.response_count::text AS response_count
+         FROM activity a
+         LEFT JOIN clients c ON c.b = a.b
+         ORDER BY a.b ASC`,
+        params,
+      );
+
+      return rows.map((row) => ({
+        timestamp: row.timestamp,
+        feedbackCount: row.feedback_count,
+        uniqueClients: row.unique_clients,
+        averageValue: row.average_value,
+        revocationCount: row.revocation_count,
+        responseCount: row.response_count,
+      }));
+    },
+
+    async feedbackTags(_: unknown, args: TaxonomyArgs, ctx: GraphQLContext) {
+      const entries = await new FeedbackTaxonomy(null, ctx.pool).tags(taxonomyFilter(args));
+      return entries.map((e) => mapTaxonomyEntry('tag', e));
+    },
+
+    async feedbackEndpoints(_: unknown, args: TaxonomyArgs, ctx: GraphQLContext) {
+      const entries = await new FeedbackTaxonomy(null, ctx.pool).endpoints(taxonomyFilter(args));
+      return entries.map((e) => mapTaxonomyEntry('endpoint', e));
+    },
+
+    async client(_: unknown, args: { address: string }, ctx: GraphQLContext) {
+      const profile = await new ClientProfiles(null, ctx.pool).get(args.address);
+      if (!profile) return null;
+      return {
+        address: profile.address,
+        feedbackCount: String(profile.feedbackCount),
+        agentsRated: String(profile.agentsRated),
+        revocationCount: String(profile.revocationCount),
+        averageValue: profile.averageValue,
+        firstActivity: String(Math.floor(profile.firstActivity.getTime() / 1000)),
+        lastActivity: String(Math.floor(profile.lastActivity.getTime() / 1000)),
+        uniqueClientEvents: String(profile.uniqueClientEvents),
+        uniqueClientShare: profile.uniqueClientShare,
+      };
+    },
+
+    async leaderboard(_: unknown, args: LeaderboardArgs, ctx: GraphQLContext) {
+      const { entries } = await new LeaderboardService(null, ctx.pool).page(
+        {
+          strategy: (args.strategy ?? 'ATOM').toLowerCase() as LeaderboardStrategy,
+          window: LEADERBOARD_WINDOWS[args.window ?? 'ALL_TIME'] ?? 'all',
+          tag: args.tag ?? undefined,
+          collection: args.collection ?? undefined,
+        },
+        clampFirst(args.first ?? 25),
+        clampSkip(args.skip)
+      );
+      return entries;
+    },
+  },
+
+  LeaderboardEntry: {
+    agent(parent: LeaderboardEntry, _args: unknown, ctx: GraphQLContext) {
+      return ctx.loaders.agentById.load(parent.asset);
+    },
+    feedbackCount(parent: LeaderboardEntry) {
+      return String(parent.feedbackCount);
+    },
+    averageValue(parent: LeaderboardEntry) {
+      return parent.averageValue === null ? null : String(parent.averageValue);
+    },
+  },
+};
@@ -0,0 +1,112 @@
+import type { GraphQLContext } from '../context.js';
+import { decodeAgentId } from '../utils/ids.js';
+import { createBadUserInputError } from '../utils/errors.js';
+import { clampFirst, clampSkip } from '../utils/pagination.js';
+
+const MAX_EVENT_TYPES = 50;
+
+interface EventLogFilter {
+  txSignature?: string | null;
+  eventType?: string | null;
+  eventType_in?: string[] | null;
+  agent?: string | null;
+  slot_gte?: string | null;
+  slot_lte?: string | null;
+}
+
+interface EventLogRow {
+  id: string;
+  tx_signature: string;
+  event_ordinal: number;
+  event_type: string;
+  asset: string | null;
+  slot: string;
+  tx_index: number | null;
+  block_time: string;
+  data: unknown;
+  raw_data: string | null;
+}
+
+function parseSlot(name: string, value: string | null | undefined): string | null {
+  if (value === undefined || value === null) return null;
+  if (!/^\d+$/.test(String(value))) {
+    throw createBadUserInputError(`${name} must be a non-negative integer`);
+  }
+  return String(value);
+}
+
+export const eventLogResolvers = {
+  Query: {
+    async eventLog(
+      _: unknown,
+      args: { first?: number; skip?: number; where?: EventLogFilter | null; orderDirection?: string | null },
+      ctx: GraphQLContext,
+    ) {
+      const where = args.where ?? {};
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (where.txSignature) {
+        params.push(where.txSignature);
+        conditions.push(`tx_signature = $${params.length}`);
+      }
+      if (where.eventType_in) {
+        if (where.eventType_in.length > MAX_EVENT_TYPES) {
+          throw createBadUserInputError(`eventType_in accepts at most ${MAX_EVENT_TYPES} values`);
+        }
+        params.push(where.eventType_in);
+        conditions.push(`event_type = ANY($${params.length}::text[])`);
+      } else if (where.eventType) {
+        params.push(where.eventType);
+        conditions.push(`event_type = $${params.length}`);
+      }
+      if (where.agent) {
+        const asset = decodeAgentId(where.agent);
+        if (!asset) {
+          throw createBadUserInputError('Invalid agent id. Expected sol:<assetPubkey>.');
+        }
+        params.push(asset);
+        conditions.push(`asset = $${params.length}`);
+      }
+      const slotGte = parseSlot('slot_gte', where.slot_gte);
+      if (slotGte !== null) {
+        params.push(slotGte);
+        conditions.push(`block_slot >= $${params.length}::bigint`);
+      }
+      const slotLte = parseSlot('slot_lte', where.slot_lte);
+      if (slotLte !== null) {
+        params.push(slotLte);
+        conditions.push(`block_slot <= $${params.length}::bigint`);
+      }
+
+      const dir = args.orderDirection === 'desc' ? 'DESC' : 'ASC';
+      params.push(clampFirst(args.first), clampSkip(args.skip));
+      const whereSql = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const { rows } = await ctx.pool.query<EventLogRow>(
+        `SELECT id::text AS id, tx_signature, event_ordinal, event_type, asset,
+                block_slot::text AS slot, tx_index,
+                FLOOR(EXTRACT(EPOCH FROM block_time))::bigint::text AS block_time,
+                data, raw_data
+         FROM event_log
+         ${whereSql}
+         ORDER BY block_slot ${dir}, tx_index ${dir} NULLS LAST, event_ordinal ${dir}
+         LIMIT $${params.length - 1}::int OFFSET $${params.length}::int`,
+        params
+      );
+
+      return rows.map((r) => ({
+        id: r.id,
+        txSignature: r.tx_signature,
+        eventOrdinal: r.event_ordinal,
+        eventType: r.event_type,
+        asset: r.asset,
+        slot: r.slot,
+        txIndex: r.tx_index,
+        blockTime: r.block_time,
+        data: typeof r.data === 'string' ? r.data : JSON.stringify(r.data),
+        rawData: r.raw_data,
+      }));
+    },
+  },
+};
@@ -1,5 +1,5 @@
 import type { GraphQLContext } from '../context.js';
-import type { FeedbackRow } from '../dataloaders.js';
+import type { DocumentRow, FeedbackRow } from '../dataloaders.js';
 import { encodeFeedbackId } from '../utils/ids.js';
 import { clampFirst, clampSkip } from '../utils/pagination.js';
 
@@ -93,8 +93,36 @@ export const feedbackResolvers = {
         skip,
       });
     },
+    async document(parent: FeedbackRow, _args: unknown, ctx: GraphQLContext) {
+      return ctx.loaders.documentById.load(parent.id);
+    },
     solana(parent: FeedbackRow) {
       return parent;
     },
   },
+
+  // Feedback.document / FeedbackResponse.document (feedback_documents row)
+  OffchainDocument: {
+    status(parent: DocumentRow) {
+      return parent.status.toUpperCase();
+    },
+    contentHash(parent: DocumentRow) {
+      return parent.content_hash;
+    },
+    hashAlgorithm(parent: DocumentRow) {
+      return parent.hash_algorithm;
+    },
+    hashVerified(parent: DocumentRow) {
+      return parent.hash_verified;
+    },
+    cidVerified(parent: DocumentRow) {
+      return parent.cid_verified;
+    },
+    content(parent: DocumentRow) {
+      return parent.content === null ? null : JSON.stringify(parent.content);
+    },
+    fetchedAt(parent: DocumentRow) {
+      return toUnixTimestamp(parent.fetched_at);
+    },
+  },
 };
@@ -1,6 +1,7 @@
 import type { GraphQLContext } from '../context.js';
 import { decodeAgentId } from '../utils/ids.js';
 import { createBadUserInputError } from '../utils/errors.js';
+import { DivergenceLocator } from '../../../services/divergence-locator.js';
 
 const MAX_REPLAY_FIRST = 1000;
 
@@ -240,6 +241,17 @@ export const hashChainResolvers = {
       return { feedback, response, revoke };
     },
 
+    async hashChainDivergence(_: unknown, args: { agent: string; chainType: unknown }, ctx: GraphQLContext) {
+      const asset = decodeAgentId(args.agent);
+      if (!asset) {
+        throw createBadUserInputError('Invalid agent id. Expected sol:<assetPubkey>.');
+      }
+
+      const chainType = resolveChainType(args.chainType);
+      const locator = new DivergenceLocator(null, ctx.pool);
+      return locator.locate(asset, chainType === 'FEEDBACK' ? 'feedback' : chainType === 'RESPONSE' ? 'response' : 'revoke');
+    },
+
     async hashChainReplayData(
       _: unknown,
       args: {
@@ -9,6 +9,10 @@ import { statsResolvers } from './stats.js';
 import { registrationResolvers } from './registration.js';
 import { solanaResolvers } from './solana.js';
 import { hashChainResolvers } from './hashchain.js';
+import { eventLogResolvers } from './eventlog.js';
+import { analyticsResolvers } from './analytics.js';
+import { searchResolvers } from './search.js';
+import { subscriptionResolvers } from './subscription.js';
 
 export const resolvers = {
   ...scalarResolvers,
@@ -17,6 +21,10 @@ export const resolvers = {
   Query: {
     ...queryResolvers.Query,
     ...hashChainResolvers.Query,
+    ...eventLogResolvers.Query,
+    ...analyticsResolvers.Query,
+    ...searchResolvers.Query,
+    ...registrationResolvers.Query,
   },
 
   ...agentResolvers,
@@ -25,6 +33,10 @@ export const resolvers = {
   ...validationResolvers,
   ...metadataResolvers,
   ...statsResolvers,
-  ...registrationResolvers,
+  AgentRegistrationFile: registrationResolvers.AgentRegistrationFile,
+  RegistrationFileVersion: registrationResolvers.RegistrationFileVersion,
   ...solanaResolvers,
+  LeaderboardEntry: analyticsResolvers.LeaderboardEntry,
+  AgentSearchHit: searchResolvers.AgentSearchHit,
+  ...subscriptionResolvers,
 };
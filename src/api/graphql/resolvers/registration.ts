@@ -2,6 +2,12 @@ import type { GraphQLContext } from '../context.js';
 import type { RegistrationRow } from '../dataloaders.js';
 import { decompressFromStorage } from '../../../utils/compression.js';
 import { createChildLogger } from '../../../logger.js';
+import {
+  RegistrationHistory,
+  type RegistrationFieldChange,
+  type RegistrationVersion,
+} from '../../../services/registration-history.js';
+import { createBadUserInputError } from '../utils/errors.js';
 
 const logger = createChildLogger('graphql-registration');
 
@@ -103,6 +109,12 @@ function parseStringArray(raw: string | undefined): string[] | null {
   }
 }
 
+function toUnixTimestamp(dateStr: string | null | undefined): string | null {
+  if (!dateStr) return null;
+  const ms = new Date(dateStr).getTime();
+  return isNaN(ms) ? null : String(Math.floor(ms / 1000));
+}
+
 function gatherServiceSkills(services: ServiceEntry[]): string[] {
   const allSkills: string[] = [];
   for (const s of services) {
@@ -115,7 +127,57 @@ function gatherServiceSkills(services: ServiceEntry[]): string[] {
   return allSkills;
 }
 
+export interface RegistrationVersionParent {
+  id: string;
+  uri: string;
+  contentHash: string;
+  bytes: number | null;
+  fetchedAt: string;
+  slot: string | null;
+  txSignature: string | null;
+}
+
+export function mapRegistrationVersion(version: RegistrationVersion): RegistrationVersionParent {
+  return {
+    id: version.id,
+    uri: version.uri,
+    contentHash: version.contentHash,
+    bytes: version.bytes,
+    fetchedAt: String(Math.floor(version.fetchedAt.getTime() / 1000)),
+    slot: version.slot?.toString() ?? null,
+    txSignature: version.txSignature,
+  };
+}
+
+function mapFieldChange(change: RegistrationFieldChange) {
+  return { ...change, change: change.change.toUpperCase() };
+}
+
+function parseVersionId(name: string, value: string): string {
+  if (!/^\d+$/.test(value)) {
+    throw createBadUserInputError(`${name} must be a registration file version id`);
+  }
+  return value;
+}
+
 export const registrationResolvers = {
+  Query: {
+    async registrationFileDiff(_: unknown, args: { from: string; to: string }, ctx: GraphQLContext) {
+      const from = parseVersionId('from', args.from);
+      const to = parseVersionId('to', args.to);
+      const changes = await new RegistrationHistory(ctx.pool).diff(from, to);
+      if (!changes) {
+        throw createBadUserInputError('from and to must be versions of the same agent');
+      }
+      return changes.map(mapFieldChange);
+    },
+  },
+  RegistrationFileVersion: {
+    async changes(parent: RegistrationVersionParent, _args: unknown, ctx: GraphQLContext) {
+      const changes = await new RegistrationHistory(ctx.pool).changes(parent.id);
+      return (changes ?? []).map(mapFieldChange);
+    },
+  },
   AgentRegistrationFile: {
     async name(parent: RegistrationParent, _args: unknown, ctx: GraphQLContext) {
       const parsed = await getParsedRegistration(parent._asset, ctx);
@@ -174,5 +236,13 @@ export const registrationResolvers = {
     supportedTrusts() {
       return null;
     },
+    async lastFetchedAt(parent: RegistrationParent, _args: unknown, ctx: GraphQLContext) {
+      const refresh = await ctx.loaders.uriRefreshByAgent.load(parent._asset);
+      return toUnixTimestamp(refresh?.last_fetched_at);
+    },
+    async lastChangedAt(parent: RegistrationParent, _args: unknown, ctx: GraphQLContext) {
+      const refresh = await ctx.loaders.uriRefreshByAgent.load(parent._asset);
+      return toUnixTimestamp(refresh?.last_changed_at);
+    },
   },
 };
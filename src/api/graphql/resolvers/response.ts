@@ -41,6 +41,9 @@ export const responseResolvers = {
     createdAt(parent: ResponseRow) {
       return toUnixTimestamp(parent.created_at);
     },
+    async document(parent: ResponseRow, _args: unknown, ctx: GraphQLContext) {
+      return ctx.loaders.documentById.load(parent.id);
+    },
     solana(parent: ResponseRow) {
       return parent;
     },
@@ -0,0 +1,49 @@
+import type { GraphQLContext } from '../context.js';
+import { createBadUserInputError } from '../utils/errors.js';
+import { clampSkip } from '../utils/pagination.js';
+import {
+  AgentSearch,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  MAX_SEARCH_QUERY_LENGTH,
+  searchTerms,
+  type AgentSearchHit,
+} from '../../../services/agent-search.js';
+
+interface SearchAgentsArgs {
+  query: string;
+  skill?: string | null;
+  domain?: string | null;
+  collection?: string | null;
+  first?: number | null;
+  skip?: number | null;
+}
+
+export const searchResolvers = {
+  Query: {
+    async searchAgents(_: unknown, args: SearchAgentsArgs, ctx: GraphQLContext) {
+      if (args.query.length > MAX_SEARCH_QUERY_LENGTH) {
+        throw createBadUserInputError(`query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`);
+      }
+      if (searchTerms(args.query).length === 0) {
+        throw createBadUserInputError('query must not be empty');
+      }
+
+      const first = args.first == null || args.first < 1 ? DEFAULT_SEARCH_LIMIT : Math.min(args.first, MAX_SEARCH_LIMIT);
+      return new AgentSearch(null, ctx.pool).search({
+        query: args.query,
+        skill: args.skill ?? undefined,
+        domain: args.domain ?? undefined,
+        collection: args.collection ?? undefined,
+        limit: first,
+        offset: clampSkip(args.skip),
+      });
+    },
+  },
+
+  AgentSearchHit: {
+    agent(parent: AgentSearchHit, _args: unknown, ctx: GraphQLContext) {
+      return ctx.loaders.agentById.load(parent.asset);
+    },
+  },
+};
@@ -1,4 +1,9 @@
-import type { AgentRow, FeedbackRow, ResponseRow } from '../dataloaders.js';
+import type { GraphQLContext } from '../context.js';
+import type { AgentRow, AnomalyRow, FeedbackRow, ResponseRow } from '../dataloaders.js';
+
+function toUnixSeconds(timestamp: string): string {
+  return String(Math.floor(new Date(timestamp).getTime() / 1000));
+}
 
 export const solanaResolvers = {
   SolanaAgentExtension: {
@@ -14,6 +19,18 @@ export const solanaResolvers = {
     feedbackDigest(parent: AgentRow) { return parent.feedback_digest; },
     responseDigest(parent: AgentRow) { return parent.response_digest; },
     revokeDigest(parent: AgentRow) { return parent.revoke_digest; },
+    anomalies(parent: AgentRow, _args: unknown, ctx: GraphQLContext) {
+      return ctx.loaders.anomaliesByAgent.load(parent.asset);
+    },
+  },
+
+  AgentAnomaly: {
+    kind(parent: AnomalyRow) { return parent.kind.toUpperCase(); },
+    severity(parent: AnomalyRow) { return parent.severity.toUpperCase(); },
+    score(parent: AnomalyRow) { return parent.score; },
+    evidence(parent: AnomalyRow) { return JSON.stringify(parent.evidence); },
+    detectedAt(parent: AnomalyRow) { return toUnixSeconds(parent.detected_at); },
+    updatedAt(parent: AnomalyRow) { return toUnixSeconds(parent.updated_at); },
   },
 
   SolanaFeedbackExtension: {
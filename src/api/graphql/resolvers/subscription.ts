@@ -0,0 +1,209 @@
+import { GraphQLError } from 'graphql';
+import type { GraphQLContext } from '../context.js';
+import { createDataLoaders } from '../dataloaders.js';
+import { decodeAgentId, decodeFeedbackId, encodeFeedbackId, encodeResponseId } from '../utils/ids.js';
+import { createBadUserInputError } from '../utils/errors.js';
+import { queryResolvers } from './query.js';
+import { config } from '../../../config.js';
+import {
+  liveEvents,
+  type LiveProgramEvent,
+  type LiveVerificationEvent,
+  type VerifiedEntity,
+} from '../../../indexer/live-events.js';
+
+let activeSubscriptions = 0;
+
+export function getActiveSubscriptionCount(): number {
+  return activeSubscriptions;
+}
+
+/**
+ * Enforce GRAPHQL_MAX_SUBSCRIPTIONS and release the slot when the client disconnects
+ */
+function tracked<T>(open: () => AsyncIterableIterator<T>): AsyncIterableIterator<T> {
+  if (activeSubscriptions >= config.graphqlMaxSubscriptions) {
+    throw new GraphQLError('Too many active subscriptions, try again later.', {
+      extensions: { code: 'SUBSCRIPTION_LIMIT' },
+    });
+  }
+
+  const iterator = open();
+  activeSubscriptions++;
+  let released = false;
+  const release = () => {
+    if (!released) {
+      released = true;
+      activeSubscriptions--;
+    }
+  };
+
+  return {
+    next: () => iterator.next().then((result) => {
+      if (result.done) release();
+      return result;
+    }, (error: unknown) => {
+      release();
+      throw error;
+    }),
+    return: (value?: unknown) => {
+      release();
+      return iterator.return ? iterator.return(value) : Promise.resolve({ value: undefined, done: true });
+    },
+    throw: (error?: unknown) => {
+      release();
+      return iterator.throw ? iterator.throw(error) : Promise.reject(error);
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * DataLoader caches live for the whole request; a subscription is one long request,
+ * so each pushed event starts from fresh loaders to avoid serving stale rows.
+ */
+function refreshLoaders(ctx: GraphQLContext): void {
+  ctx.loaders = createDataLoaders(ctx.pool);
+}
+
+/**
+ * Load the row behind each event and skip events whose row is gone (orphaned or
+ * not committed), so non-null subscription fields never resolve to null
+ */
+function loaded<T, R>(
+  iterator: AsyncIterableIterator<T>,
+  ctx: GraphQLContext,
+  load: (payload: T) => Promise<R | null>
+): AsyncIterableIterator<R> {
+  return {
+    async next(): Promise<IteratorResult<R>> {
+      for (;;) {
+        const result = await iterator.next();
+        if (result.done) return { value: undefined, done: true };
+        refreshLoaders(ctx);
+        const row = await load(result.value);
+        if (row) return { value: row, done: false };
+      }
+    },
+    async return(value?: unknown): Promise<IteratorResult<R>> {
+      await iterator.return?.(value);
+      return { value: undefined, done: true };
+    },
+    async throw(error?: unknown): Promise<IteratorResult<R>> {
+      await iterator.return?.();
+      throw error;
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+function passThrough<T>(row: T): T {
+  return row;
+}
+
+function requireAgentAsset(id: string): string {
+  const asset = decodeAgentId(id);
+  if (!asset) {
+    throw createBadUserInputError('Invalid agent id. Expected sol:<asset>.');
+  }
+  return asset;
+}
+
+const ENTITY_TO_ENUM: Record<VerifiedEntity, string> = {
+  agent: 'AGENT',
+  feedback: 'FEEDBACK',
+  response: 'RESPONSE',
+  revocation: 'REVOCATION',
+  validation: 'VALIDATION',
+  metadata: 'METADATA',
+  registry: 'REGISTRY',
+};
+
+export const subscriptionResolvers = {
+  Subscription: {
+    feedbackAdded: {
+      subscribe(_: unknown, args: { agent?: string | null; clientAddress?: string | null }, ctx: GraphQLContext) {
+        const asset = args.agent ? requireAgentAsset(args.agent) : null;
+        const client = args.clientAddress ?? null;
+        return tracked(() => loaded(liveEvents.iterate('event', (e) =>
+          e.type === 'NewFeedback'
+          && (!asset || e.asset === asset)
+          && (!client || e.client === client)
+        ), ctx, (event: LiveProgramEvent) => {
+          const id = encodeFeedbackId(event.asset ?? '', event.client ?? '', String(event.data.feedbackIndex));
+          return queryResolvers.Query.feedback(null, { id }, ctx);
+        }));
+      },
+      resolve: passThrough,
+    },
+
+    agentUpdated: {
+      subscribe(_: unknown, args: { id: string }, ctx: GraphQLContext) {
+        const asset = requireAgentAsset(args.id);
+        return tracked(() => loaded(liveEvents.iterate('event', (e) =>
+          e.asset === asset && e.type !== 'RegistryInitialized'
+        ), ctx, () => ctx.loaders.agentById.load(asset)));
+      },
+      resolve: passThrough,
+    },
+
+    responseAppended: {
+      subscribe(_: unknown, args: { feedback: string }, ctx: GraphQLContext) {
+        const feedback = decodeFeedbackId(args.feedback);
+        if (!feedback) {
+          throw createBadUserInputError('Invalid feedback id. Expected sol:<asset>:<client>:<index>.');
+        }
+        return tracked(() => loaded(liveEvents.iterate('event', (e) =>
+          e.type === 'ResponseAppended'
+          && e.asset === feedback.asset
+          && e.client === feedback.client
+          && String(e.data.feedbackIndex) === feedback.index
+        ), ctx, (event: LiveProgramEvent) => {
+          const id = encodeResponseId(
+            event.asset ?? '',
+            event.client ?? '',
+            String(event.data.feedbackIndex),
+            String(event.data.responder),
+            event.signature
+          );
+          return queryResolvers.Query.feedbackResponse(null, { id }, ctx);
+        }));
+      },
+      resolve: passThrough,
+    },
+
+    verificationStatusChanged: {
+      subscribe(_: unknown, args: { agent?: string | null; entity?: string | null; status?: string | null }) {
+        const asset = args.agent ? requireAgentAsset(args.agent) : null;
+        return tracked(() => liveEvents.iterate('verification', (e) =>
+          (!asset || e.asset === asset)
+          && (!args.entity || ENTITY_TO_ENUM[e.entity] === args.entity)
+          && (!args.status || e.status === args.status)
+        ));
+      },
+      resolve(event: LiveVerificationEvent, _args: unknown, ctx: GraphQLContext) {
+        refreshLoaders(ctx);
+        return event;
+      },
+    },
+  },
+
+  VerificationStatusChange: {
+    entity(parent: LiveVerificationEvent) {
+      return ENTITY_TO_ENUM[parent.entity];
+    },
+    entityId(parent: LiveVerificationEvent) {
+      return parent.id;
+    },
+    async agent(parent: LiveVerificationEvent, _args: unknown, ctx: GraphQLContext) {
+      return parent.asset ? ctx.loaders.agentById.load(parent.asset) : null;
+    },
+    changedAt(parent: LiveVerificationEvent) {
+      return String(Math.floor(parent.at.getTime() / 1000));
+    },
+  },
+};
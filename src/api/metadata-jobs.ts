@@ -0,0 +1,141 @@
+/**
+ * Metadata jobs admin API (/admin/metadata-jobs)
+ *
+ * Bearer-token protected view of the durable metadata job table: failed
+ * fetches with their last DigestStatus, per-queue counts, and manual retry.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { logger } from '../logger.js';
+import {
+  MetadataJob,
+  MetadataJobStore,
+  MetadataJobQueue,
+  MetadataJobState,
+  METADATA_JOB_QUEUES,
+  METADATA_JOB_STATES,
+} from '../indexer/metadata-jobs.js';
+import { tokenMatches } from './webhooks.js';
+
+const MAX_JOBS_LIMIT = 200;
+
+function mapJobToApi(job: MetadataJob): Record<string, unknown> {
+  return {
+    id: job.id,
+    queue: job.queue,
+    key: job.key,
+    payload: job.payload,
+    state: job.state,
+    attempts: job.attempts,
+    last_status: job.lastStatus,
+    last_error: job.lastError,
+    run_after: job.runAfter.toISOString(),
+    lease_owner: job.leaseOwner,
+    lease_expires_at: job.leaseExpiresAt?.toISOString() ?? null,
+    created_at: job.createdAt.toISOString(),
+    updated_at: job.updatedAt.toISOString(),
+  };
+}
+
+export function createMetadataJobsAdminRouter(store: MetadataJobStore, adminToken: string): Router {
+  const router = Router();
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!tokenMatches(req.headers.authorization, adminToken)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  });
+
+  // GET /admin/metadata-jobs - List jobs (failed by default)
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const state = typeof req.query.state === 'string' ? req.query.state : 'failed';
+      if (!METADATA_JOB_STATES.includes(state as MetadataJobState)) {
+        res.status(400).json({ error: `Invalid state value. Allowed: ${METADATA_JOB_STATES.join(', ')}` });
+        return;
+      }
+      const queue = typeof req.query.queue === 'string' ? req.query.queue : undefined;
+      if (queue && !METADATA_JOB_QUEUES.includes(queue as MetadataJobQueue)) {
+        res.status(400).json({ error: `Invalid queue value. Allowed: ${METADATA_JOB_QUEUES.join(', ')}` });
+        return;
+      }
+      const limitRaw = parseInt(String(req.query.limit ?? '50'), 10);
+      const offsetRaw = parseInt(String(req.query.offset ?? '0'), 10);
+      const limit = Number.isNaN(limitRaw) || limitRaw < 1 ? 50 : Math.min(limitRaw, MAX_JOBS_LIMIT);
+      const offset = Number.isNaN(offsetRaw) || offsetRaw < 0 ? 0 : offsetRaw;
+
+      const jobs = await store.list({
+        state: state as MetadataJobState,
+        queue: queue as MetadataJobQueue | undefined,
+        limit,
+        offset,
+      });
+      res.json(jobs.map(mapJobToApi));
+    } catch (error) {
+      logger.error({ error }, 'Error listing metadata jobs');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /admin/metadata-jobs/stats - Job counts per queue and state
+  router.get('/stats', async (_req: Request, res: Response) => {
+    try {
+      const counts = await store.countByState();
+      const stats: Record<string, Record<string, number>> = {};
+      for (const queue of METADATA_JOB_QUEUES) {
+        stats[queue] = Object.fromEntries(METADATA_JOB_STATES.map((state) => [state, 0]));
+      }
+      for (const { queue, state, count } of counts) {
+        if (stats[queue]) stats[queue][state] = count;
+      }
+      res.json(stats);
+    } catch (error) {
+      logger.error({ error }, 'Error counting metadata jobs');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /admin/metadata-jobs/:id - Job details
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      if (!/^\d+$/.test(id)) {
+        res.status(400).json({ error: 'Invalid job id' });
+        return;
+      }
+      const job = await store.get(id);
+      if (!job) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+      res.json(mapJobToApi(job));
+    } catch (error) {
+      logger.error({ error }, 'Error fetching metadata job');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // POST /admin/metadata-jobs/:id/retry - Re-queue a failed job
+  router.post('/:id/retry', async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      if (!/^\d+$/.test(id)) {
+        res.status(400).json({ error: 'Invalid job id' });
+        return;
+      }
+      const retried = await store.retry(id);
+      if (!retried) {
+        res.status(409).json({ error: 'Job not found or not in failed state' });
+        return;
+      }
+      res.json({ id, state: 'queued' });
+    } catch (error) {
+      logger.error({ error }, 'Error retrying metadata job');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
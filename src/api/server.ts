@@ -7,13 +7,36 @@ import express, { Express, Request, Response } from 'express';
 import rateLimit from 'express-rate-limit';
 import { LRUCache } from 'lru-cache';
 import { Server } from 'http';
+import type { Connection } from '@solana/web3.js';
 import { PrismaClient, Prisma, Agent as PrismaAgent, Collection as PrismaCollection } from '@prisma/client';
 import { logger } from '../logger.js';
 import { decompressFromStorage } from '../utils/compression.js';
 import { ReplayVerifier } from '../services/replay-verifier.js';
+import { DivergenceLocator } from '../services/divergence-locator.js';
+import { ProofBundleExporter } from '../services/proof-bundle.js';
+import { ReputationHistory, resolveHistoryWindow, MAX_HISTORY_BUCKETS } from '../services/reputation-history.js';
+import { ClientProfiles } from '../services/client-profile.js';
+import { AgentSearch, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, MAX_SEARCH_QUERY_LENGTH, searchTerms } from '../services/agent-search.js';
+import {
+  LeaderboardService,
+  LEADERBOARD_STRATEGIES,
+  LEADERBOARD_WINDOWS,
+  type LeaderboardStrategy,
+  type LeaderboardWindow,
+} from '../services/leaderboard.js';
+import { ANOMALY_KINDS, type AnomalyKind } from '../indexer/anomaly-analyzer.js';
+import { FeedbackTaxonomy, DEFAULT_TAXONOMY_LIMIT, type TaxonomyEntry, type TaxonomyFilter } from '../services/feedback-taxonomy.js';
 import cors from 'cors';
 import type { Pool } from 'pg';
 import { config } from '../config.js';
+import { metrics, METRICS_CONTENT_TYPE } from '../metrics.js';
+import type { Processor } from '../indexer/processor.js';
+import { WebhookStore } from '../webhooks/store.js';
+import { createWebhookAdminRouter } from './webhooks.js';
+import { MetadataJobStore } from '../indexer/metadata-jobs.js';
+import { createMetadataJobsAdminRouter } from './metadata-jobs.js';
+import { createEventStreamHandler } from './event-stream.js';
+import { liveEvents } from '../indexer/live-events.js';
 
 // GraphQL rate limiting constants
 const GRAPHQL_RATE_LIMIT_WINDOW_MS = 60 * 1000;
@@ -41,11 +64,14 @@ const REPLAY_RATE_LIMIT_WINDOW_MS = 30 * 1000; // 30 seconds
 const REPLAY_RATE_LIMIT_MAX_REQUESTS = 1; // 1 request per 30s per IP
 const REPLAY_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minute cache for replay results
 const REPLAY_CACHE_MAX_SIZE = 50;
+const HEALTH_CHECK_TIMEOUT_MS = 3000; // Per-dependency timeout for readiness probes
 
 export interface ApiServerOptions {
   prisma?: PrismaClient | null;
   pool?: Pool | null;
   port?: number;
+  processor?: Processor | null; // enables indexing lag in readiness checks
+  connection?: Connection | null; // enables proof bundle export
 }
 
 // LRU cache for leaderboard (prevents unbounded memory growth + repeated queries)
@@ -320,6 +346,26 @@ function isInvalidStatus(filter: ReturnType<typeof buildStatusFilter>): filter i
   return filter !== undefined && '_invalid' in filter;
 }
 
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+async function pingDatabase(prisma?: PrismaClient | null, pool?: Pool | null): Promise<void> {
+  if (prisma) {
+    await prisma.$queryRaw`SELECT 1`;
+  } else if (pool) {
+    await pool.query('SELECT 1');
+  } else {
+    throw new Error('No database client configured');
+  }
+}
+
 export function createApiServer(options: ApiServerOptions): Express {
   const wantsRest = config.apiMode !== 'graphql';
   const wantsGraphql = config.apiMode !== 'rest' && config.enableGraphql;
@@ -381,6 +427,83 @@ export function createApiServer(options: ApiServerOptions): Express {
     res.json({ status: 'ok' });
   });
 
+  // Liveness: the process is up and serving requests (no dependency checks)
+  app.get('/health/live', (_req: Request, res: Response) => {
+    res.json({ status: 'ok', uptimeSeconds: Math.floor(process.uptime()) });
+  });
+
+  // Readiness: DB reachable and indexer cursor within HEALTH_MAX_SLOT_LAG of the cluster tip
+  app.get('/health/ready', async (_req: Request, res: Response) => {
+    let ready = true;
+
+    const dbStart = Date.now();
+    let database: Record<string, unknown>;
+    try {
+      await withTimeout(pingDatabase(options.prisma, options.pool), HEALTH_CHECK_TIMEOUT_MS, 'Database ping');
+      database = { status: 'ok', backend: options.prisma ? 'prisma' : 'postgres', latencyMs: Date.now() - dbStart };
+    } catch (error) {
+      ready = false;
+      database = { status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    let indexer: Record<string, unknown> | undefined;
+    let verifier: Record<string, unknown> | undefined;
+    if (options.processor) {
+      try {
+        const health = await withTimeout(
+          options.processor.getIndexingHealth(),
+          HEALTH_CHECK_TIMEOUT_MS,
+          'Indexing health'
+        );
+        const lagging = health.slotLag !== null && health.slotLag > config.healthMaxSlotLag;
+        const status = !health.running ? 'stopped' : lagging ? 'lagging' : 'ok';
+        if (status !== 'ok') ready = false;
+
+        indexer = {
+          status,
+          mode: health.activeMode,
+          indexedSlot: health.indexedSlot,
+          observedSlot: health.observedSlot,
+          clusterSlot: health.clusterSlot,
+          slotLag: health.slotLag,
+          maxSlotLag: config.healthMaxSlotLag,
+          ...(health.rpcError && { rpcError: health.rpcError }),
+        };
+        verifier = {
+          enabled: config.verificationEnabled,
+          lastRunAt: health.verifierLastRunAt?.toISOString() ?? null,
+          lastRunDurationMs: health.verifierLastRunDurationMs,
+        };
+      } catch (error) {
+        ready = false;
+        indexer = { status: 'error', error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    res.status(ready ? 200 : 503).json({
+      status: ready ? 'ready' : 'not_ready',
+      checks: {
+        database,
+        ...(indexer && { indexer }),
+        ...(verifier && { verifier }),
+      },
+    });
+  });
+
+  // Prometheus metrics (before rate limiter - scraped every few seconds)
+  if (config.metricsEnabled) {
+    app.get('/metrics', async (_req: Request, res: Response) => {
+      try {
+        const body = await metrics.render();
+        res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+        res.send(body);
+      } catch (error) {
+        logger.error({ error }, 'Error rendering metrics');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+  }
+
   // Global rate limiting
   const limiter = rateLimit({
     windowMs: RATE_LIMIT_WINDOW_MS,
@@ -400,12 +523,34 @@ export function createApiServer(options: ApiServerOptions): Express {
     legacyHeaders: false,
   });
 
+  // Webhook admin API (requires WEBHOOKS_ENABLED and WEBHOOK_ADMIN_TOKEN)
+  if (config.webhooksEnabled && config.webhookAdminToken) {
+    const webhookStore = new WebhookStore(options.prisma ?? null, options.pool ?? null);
+    app.use('/admin/webhooks', createWebhookAdminRouter(webhookStore, config.webhookAdminToken));
+  } else if (config.webhooksEnabled) {
+    logger.warn('WEBHOOK_ADMIN_TOKEN not set, webhook admin API disabled');
+  }
+
+  // Metadata jobs admin API (Supabase mode, requires METADATA_JOBS_ADMIN_TOKEN)
+  if (options.pool && config.metadataJobsAdminToken) {
+    app.use('/admin/metadata-jobs', createMetadataJobsAdminRouter(
+      new MetadataJobStore(options.pool),
+      config.metadataJobsAdminToken
+    ));
+  }
+
   if (!restEnabled) {
     app.use('/rest/v1', (_req: Request, res: Response) => {
       res.status(410).json({ error: 'REST API disabled. Use GraphQL endpoint at /v2/graphql.' });
     });
   }
 
+  // GET /rest/v1/events/stream - Server-Sent Events feed of committed program events
+  if (restEnabled) {
+    liveEvents.setHistorySize(config.restSseHistorySize);
+    app.get('/rest/v1/events/stream', createEventStreamHandler(prisma));
+  }
+
   // GET /rest/v1/agents - List agents with filters (PostgREST format)
   app.get('/rest/v1/agents', async (req: Request, res: Response) => {
     try {
@@ -620,6 +765,48 @@ export function createApiServer(options: ApiServerOptions): Express {
     }
   });
 
+  // GET /rest/v1/agents/:asset/history?bucket=day&from=&to= - ATOM reputation time series (unix-second bounds)
+  app.get('/rest/v1/agents/:asset/history', async (req: Request, res: Response) => {
+    try {
+      const asset = safeQueryString(req.params.asset);
+      if (!asset) { res.status(400).json({ error: 'asset parameter required' }); return; }
+      if (!BASE58_REGEX.test(asset)) { res.status(400).json({ error: 'Invalid asset: must be a base58-encoded public key (32-44 chars)' }); return; }
+
+      const bucket = safeQueryString(req.query.bucket) ?? 'day';
+      if (bucket !== 'hour' && bucket !== 'day') {
+        res.status(400).json({ error: 'bucket must be one of: hour, day' });
+        return;
+      }
+      const fromStr = safeQueryString(req.query.from);
+      const toStr = safeQueryString(req.query.to);
+      if ((fromStr && !/^\d+$/.test(fromStr)) || (toStr && !/^\d+$/.test(toStr))) {
+        res.status(400).json({ error: 'from and to must be unix timestamps in seconds' });
+        return;
+      }
+      const window = resolveHistoryWindow(bucket, fromStr ? Number(fromStr) : undefined, toStr ? Number(toStr) : undefined);
+      if (!window) {
+        res.status(400).json({ error: `from must be before to and span at most ${MAX_HISTORY_BUCKETS} buckets` });
+        return;
+      }
+
+      const points = await new ReputationHistory(prisma, null).query(asset, window);
+      res.json(points.map(p => ({
+        bucket_start: p.bucketStart.toISOString(),
+        trust_tier: p.trustTier,
+        quality_score: p.qualityScore,
+        confidence: p.confidence,
+        risk_score: p.riskScore,
+        diversity_ratio: p.diversityRatio,
+        events: p.events,
+        slot: p.slot.toString(),
+        feedback_index: p.feedbackIndex.toString(),
+      })));
+    } catch (error) {
+      logger.error({ error }, 'Error fetching reputation history');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // GET /rest/v1/feedbacks - List feedbacks with filters (PostgREST format)
   app.get('/rest/v1/feedbacks', async (req: Request, res: Response) => {
     try {
@@ -920,6 +1107,154 @@ export function createApiServer(options: ApiServerOptions): Express {
     }
   });
 
+  // GET /rest/v1/feedback_tags, /rest/v1/feedback_endpoints - usage of feedback tags (tag1 + tag2) and endpoints
+  const taxonomyHandler = (kind: 'tag' | 'endpoint') => async (req: Request, res: Response) => {
+    try {
+      const asset = parsePostgRESTValue(req.query.asset);
+      if (asset && !BASE58_REGEX.test(asset)) {
+        res.status(400).json({ error: 'Invalid asset: must be a base58-encoded public key (32-44 chars)' });
+        return;
+      }
+      const filter: TaxonomyFilter = {
+        agentId: asset,
+        collection: parsePostgRESTValue(req.query.collection),
+        limit: safePaginationLimit(req.query.limit, DEFAULT_TAXONOMY_LIMIT),
+      };
+
+      const taxonomy = new FeedbackTaxonomy(prisma, null);
+      const entries = kind === 'tag' ? await taxonomy.tags(filter) : await taxonomy.endpoints(filter);
+      res.json(entries.map((e: TaxonomyEntry) => ({
+        [kind]: e.name,
+        feedback_count: e.feedbackCount,
+        agent_count: e.agentCount,
+        average_value: e.averageValue,
+        first_seen: e.firstSeen.toISOString(),
+        last_seen: e.lastSeen.toISOString(),
+      })));
+    } catch (error) {
+      logger.error({ error, kind }, 'Error fetching feedback taxonomy');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+  app.get('/rest/v1/feedback_tags', taxonomyHandler('tag'));
+  app.get('/rest/v1/feedback_endpoints', taxonomyHandler('endpoint'));
+
+  // GET /rest/v1/search?q=&skill=&domain=&collection= - full-text agent search with facets
+  app.get('/rest/v1/search', async (req: Request, res: Response) => {
+    try {
+      const q = safeQueryString(req.query.q) ?? '';
+      if (q.length > MAX_SEARCH_QUERY_LENGTH) {
+        res.status(400).json({ error: `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` });
+        return;
+      }
+      if (searchTerms(q).length === 0) {
+        res.status(400).json({ error: 'q is required' });
+        return;
+      }
+
+      const result = await new AgentSearch(prisma, null).search({
+        query: q,
+        skill: parsePostgRESTValue(req.query.skill),
+        domain: parsePostgRESTValue(req.query.domain),
+        collection: parsePostgRESTValue(req.query.collection),
+        limit: Math.min(safePaginationLimit(req.query.limit, DEFAULT_SEARCH_LIMIT), MAX_SEARCH_LIMIT),
+        offset: safePaginationOffset(req.query.offset),
+      });
+      res.json({
+        hits: result.hits.map(h => ({
+          asset: h.asset,
+          owner: h.owner,
+          collection: h.collection,
+          name: h.name,
+          score: h.score,
+          name_highlight: h.nameHighlight,
+          description_snippet: h.descriptionSnippet,
+        })),
+        total: result.total,
+        facets: result.facets,
+      });
+    } catch (error) {
+      logger.error({ error }, 'Error searching agents');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /rest/v1/clients/:address - profile of a feedback-giving wallet
+  app.get('/rest/v1/clients/:address', async (req: Request, res: Response) => {
+    try {
+      const address = safeQueryString(req.params.address);
+      if (!address || !BASE58_REGEX.test(address)) {
+        res.status(400).json({ error: 'Invalid address: must be a base58-encoded public key (32-44 chars)' });
+        return;
+      }
+
+      const profile = await new ClientProfiles(prisma, null).get(address);
+      if (!profile) {
+        res.status(404).json({ error: 'Client not found' });
+        return;
+      }
+      res.json({
+        address: profile.address,
+        feedback_count: profile.feedbackCount,
+        agents_rated: profile.agentsRated,
+        revocation_count: profile.revocationCount,
+        average_value: profile.averageValue,
+        first_activity: profile.firstActivity.toISOString(),
+        last_activity: profile.lastActivity.toISOString(),
+        unique_client_events: profile.uniqueClientEvents,
+        unique_client_share: profile.uniqueClientShare,
+      });
+    } catch (error) {
+      logger.error({ error }, 'Error fetching client profile');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /rest/v1/anomalies - agents currently flagged by the anomaly analyzer
+  app.get('/rest/v1/anomalies', async (req: Request, res: Response) => {
+    try {
+      const asset = parsePostgRESTValue(req.query.asset);
+      const kind = parsePostgRESTValue(req.query.kind);
+      const severity = parsePostgRESTValue(req.query.severity);
+      const limit = safePaginationLimit(req.query.limit);
+      const offset = safePaginationOffset(req.query.offset);
+
+      if (kind && !ANOMALY_KINDS.includes(kind as AnomalyKind)) {
+        res.status(400).json({ error: `kind must be one of: ${ANOMALY_KINDS.join(', ')}` });
+        return;
+      }
+      if (severity && !['low', 'medium', 'high'].includes(severity)) {
+        res.status(400).json({ error: 'severity must be one of: low, medium, high' });
+        return;
+      }
+
+      const where: Prisma.AgentAnomalyWhereInput = {};
+      if (asset) where.agentId = asset;
+      if (kind) where.kind = kind;
+      if (severity) where.severity = severity;
+
+      const anomalies = await prisma.agentAnomaly.findMany({
+        where,
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        skip: offset,
+      });
+
+      res.json(anomalies.map(a => ({
+        asset: a.agentId,
+        kind: a.kind,
+        severity: a.severity,
+        score: a.score,
+        evidence: JSON.parse(a.evidence),
+        detected_at: a.detectedAt.toISOString(),
+        updated_at: a.updatedAt.toISOString(),
+      })));
+    } catch (error) {
+      logger.error({ error }, 'Error fetching anomalies');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // GET /rest/v1/validations - disabled (validation module archived on-chain in v0.5.0+)
   app.get('/rest/v1/validations', async (_req: Request, res: Response) => {
     res.status(410).json({
@@ -1338,10 +1673,46 @@ export function createApiServer(options: ApiServerOptions): Express {
   // GET /rest/v1/leaderboard - Top agents (PostgREST format)
   // Uses DB-level aggregation to prevent loading 100k+ rows into memory
   // LRU cached with TTL to prevent repeated heavy queries
+  // ?strategy=atom|bayesian|recent|confidence&window=7d|30d|all&tag= ranks through the leaderboard service
   app.get('/rest/v1/leaderboard', async (req: Request, res: Response) => {
     try {
       const limit = safePaginationLimit(req.query.limit);
       const collection = parsePostgRESTValue(req.query.collection);
+
+      const strategy = safeQueryString(req.query.strategy);
+      if (strategy) {
+        const window = safeQueryString(req.query.window) ?? 'all';
+        if (!LEADERBOARD_STRATEGIES.includes(strategy as LeaderboardStrategy)) {
+          res.status(400).json({ error: `strategy must be one of: ${LEADERBOARD_STRATEGIES.join(', ')}` });
+          return;
+        }
+        if (!LEADERBOARD_WINDOWS.includes(window as LeaderboardWindow)) {
+          res.status(400).json({ error: `window must be one of: ${LEADERBOARD_WINDOWS.join(', ')}` });
+          return;
+        }
+        const offset = safePaginationOffset(req.query.offset);
+        const { entries, total } = await new LeaderboardService(prisma, null).page(
+          {
+            strategy: strategy as LeaderboardStrategy,
+            window: window as LeaderboardWindow,
+            tag: parsePostgRESTValue(req.query.tag),
+            collection,
+          },
+          limit,
+          offset
+        );
+        setContentRange(res, offset, entries.length, total);
+        res.json(entries.map(e => ({
+          rank: e.rank,
+          asset: e.asset,
+          owner: e.owner,
+          collection: e.collection,
+          score: e.score,
+          feedback_count: e.feedbackCount,
+          average_value: e.averageValue,
+        })));
+        return;
+      }
       const includeOrphaned = safeQueryString(req.query.includeOrphaned) === 'true';
       const cacheScope = includeOrphaned ? 'all' : 'active';
       const cacheKey = collection ? `${cacheScope}:c:${collection}` : `${cacheScope}:__global__`;
@@ -1543,6 +1914,115 @@ export function createApiServer(options: ApiServerOptions): Express {
     }
   });
 
+  // GET /rest/v1/verify/divergence/:asset?chain=feedback - Locate the first event whose stored digest diverges
+  app.get('/rest/v1/verify/divergence/:asset', replayLimiter, async (req: Request, res: Response) => {
+    try {
+      const asset = safeQueryString(req.params.asset);
+      if (!asset) { res.status(400).json({ error: 'asset parameter required' }); return; }
+      if (!BASE58_REGEX.test(asset)) { res.status(400).json({ error: 'Invalid asset: must be a base58-encoded public key (32-44 chars)' }); return; }
+
+      const chain = safeQueryString(req.query.chain) ?? 'feedback';
+      if (chain !== 'feedback' && chain !== 'response' && chain !== 'revoke') {
+        res.status(400).json({ error: 'chain must be one of: feedback, response, revoke' });
+        return;
+      }
+
+      const locator = new DivergenceLocator(prisma, null);
+      res.json(await locator.locate(asset, chain));
+    } catch (error) {
+      logger.error({ error }, 'Error locating hash-chain divergence');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /rest/v1/verify/proof/:asset - Self-contained hash-chain proof bundle (docs/proof-bundle.md)
+  app.get('/rest/v1/verify/proof/:asset', replayLimiter, async (req: Request, res: Response) => {
+    try {
+      const asset = safeQueryString(req.params.asset);
+      if (!asset) { res.status(400).json({ error: 'asset parameter required' }); return; }
+      if (!BASE58_REGEX.test(asset)) { res.status(400).json({ error: 'Invalid asset: must be a base58-encoded public key (32-44 chars)' }); return; }
+      if (!options.connection) { res.status(503).json({ error: 'Proof export requires an RPC connection' }); return; }
+
+      const bundle = await new ProofBundleExporter(prisma, options.connection).export(asset);
+      if (!bundle) { res.status(404).json({ error: 'Agent account not found on-chain' }); return; }
+      res.json(bundle);
+    } catch (error) {
+      logger.error({ error }, 'Error exporting hash-chain proof bundle');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /rest/v1/event_log - Append-only log of decoded program events (PostgREST format)
+  app.get('/rest/v1/event_log', async (req: Request, res: Response) => {
+    try {
+      const txSignature = parsePostgRESTValue(req.query.tx_signature);
+      const eventTypes = parsePostgRESTIn(req.query.event_type);
+      const eventType = eventTypes ? undefined : parsePostgRESTValue(req.query.event_type);
+      const asset = parsePostgRESTValue(req.query.asset);
+      const fromSlotStr = safeQueryString(req.query.fromSlot);
+      const toSlotStr = safeQueryString(req.query.toSlot);
+      if ((fromSlotStr && !/^\d+$/.test(fromSlotStr)) || (toSlotStr && !/^\d+$/.test(toSlotStr))) {
+        res.status(400).json({ error: 'fromSlot and toSlot must be non-negative integers' });
+        return;
+      }
+      const limit = safePaginationLimit(req.query.limit);
+      const offset = safePaginationOffset(req.query.offset);
+      const direction = safeQueryString(req.query.order) === 'slot.desc' ? 'desc' : 'asc';
+
+      const where: Prisma.EventLogWhereInput = {};
+      if (txSignature) where.signature = txSignature;
+      if (eventTypes) where.eventType = { in: eventTypes };
+      else if (eventType) where.eventType = eventType;
+      if (asset) where.asset = asset;
+      if (fromSlotStr || toSlotStr) {
+        where.slot = {
+          ...(fromSlotStr && { gte: BigInt(fromSlotStr) }),
+          ...(toSlotStr && { lte: BigInt(toSlotStr) }),
+        };
+      }
+
+      const needsCount = wantsCount(req);
+      const [entries, totalCount] = await Promise.all([
+        prisma.eventLog.findMany({
+          where,
+          // Chain order: slot, tx_index (NULLS LAST), event ordinal
+          orderBy: [
+            { slot: direction },
+            { txIndex: { sort: direction, nulls: 'last' } },
+            { eventOrdinal: direction },
+            { createdAt: direction },
+          ],
+          take: limit,
+          skip: offset,
+        }),
+        needsCount ? prisma.eventLog.count({ where }) : Promise.resolve(0),
+      ]);
+
+      if (needsCount) {
+        setContentRange(res, offset, entries.length, totalCount);
+      }
+
+      res.json(entries.map(e => ({
+        id: e.id,
+        tx_signature: e.signature,
+        event_ordinal: e.eventOrdinal,
+        event_type: e.eventType,
+        asset: e.asset,
+        slot: e.slot.toString(),
+        tx_index: e.txIndex,
+        block_time: e.blockTime.toISOString(),
+        data: e.data,
+        raw_data: e.rawData,
+        processed: e.processed,
+        error: e.error,
+        created_at: e.createdAt.toISOString(),
+      })));
+    } catch (error) {
+      logger.error({ error }, 'Error fetching event log');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // GET /rest/v1/events/:asset/replay-data - Events ordered for client-side replay
   app.get('/rest/v1/events/:asset/replay-data', async (req: Request, res: Response) => {
     try {
@@ -0,0 +1,291 @@
+/**
+ * Webhook admin API (/admin/webhooks)
+ *
+ * Bearer-token protected management of webhook subscriptions and inspection
+ * of the delivery log. Works in both DB modes via WebhookStore.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { logger } from '../logger.js';
+import { EVENT_DISCRIMINATORS } from '../parser/types.js';
+import {
+  WebhookStore,
+  WebhookSubscriptionInput,
+  WEBHOOK_MIN_STATUSES,
+  WEBHOOK_DELIVERY_STATUSES,
+  WebhookSubscription,
+  WebhookMinStatus,
+  WebhookDeliveryStatus,
+} from '../webhooks/index.js';
+
+const MAX_DELIVERIES_LIMIT = 200;
+const MAX_URL_LENGTH = 2048;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MIN_SECRET_LENGTH = 16;
+const BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export function tokenMatches(header: string | undefined, token: string): boolean {
+  if (!header?.startsWith('Bearer ')) return false;
+  const provided = Buffer.from(header.slice(7));
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Subscription as returned by the API - the signing secret is only shown on creation
+ */
+function mapSubscriptionToApi(sub: WebhookSubscription, includeSecret = false): Record<string, unknown> {
+  return {
+    id: sub.id,
+    url: sub.url,
+    event_types: sub.eventTypes,
+    asset: sub.asset,
+    collection: sub.collection,
+    client: sub.client,
+    min_status: sub.minStatus,
+    active: sub.active,
+    description: sub.description,
+    created_at: sub.createdAt.toISOString(),
+    updated_at: sub.updatedAt.toISOString(),
+    ...(includeSecret && { secret: sub.secret }),
+  };
+}
+
+function validateWebhookUrl(value: unknown): string | null {
+  if (typeof value !== 'string' || value.length > MAX_URL_LENGTH) return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol === 'https:') return url.toString();
+    if (url.protocol === 'http:' && process.env.ALLOW_INSECURE_URI === 'true') return url.toString();
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function optionalPubkey(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string' || !BASE58_REGEX.test(value)) return undefined;
+  return value;
+}
+
+/**
+ * Validate a create request body. Returns an error message or the parsed input.
+ */
+export function parseSubscriptionInput(body: any): { error: string } | { input: WebhookSubscriptionInput } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const url = validateWebhookUrl(body.url);
+  if (!url) {
+    return { error: 'url must be a valid https URL (http requires ALLOW_INSECURE_URI=true)' };
+  }
+
+  const eventTypes = body.event_types ?? [];
+  if (!Array.isArray(eventTypes) || eventTypes.some((t: unknown) => typeof t !== 'string' || !(t in EVENT_DISCRIMINATORS))) {
+    return { error: `event_types must be an array of: ${Object.keys(EVENT_DISCRIMINATORS).join(', ')}` };
+  }
+
+  const asset = optionalPubkey(body.asset);
+  const client = optionalPubkey(body.client);
+  if (asset === undefined || client === undefined) {
+    return { error: 'asset and client must be base58 public keys' };
+  }
+
+  const collection = body.collection ?? null;
+  if (collection !== null && (typeof collection !== 'string' || collection.length === 0 || collection.length > 256)) {
+    return { error: 'collection must be a non-empty string' };
+  }
+
+  const minStatus = body.min_status ?? 'PENDING';
+  if (!WEBHOOK_MIN_STATUSES.includes(minStatus)) {
+    return { error: `min_status must be one of: ${WEBHOOK_MIN_STATUSES.join(', ')}` };
+  }
+
+  const secret = body.secret;
+  if (secret !== undefined && (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH)) {
+    return { error: `secret must be a string of at least ${MIN_SECRET_LENGTH} characters` };
+  }
+
+  const description = body.description ?? null;
+  if (description !== null && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    return { error: `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` };
+  }
+
+  return {
+    input: {
+      url,
+      secret,
+      eventTypes: [...new Set<string>(eventTypes)],
+      asset,
+      collection,
+      client,
+      minStatus: minStatus as WebhookMinStatus,
+      description,
+    },
+  };
+}
+
+export function createWebhookAdminRouter(store: WebhookStore, adminToken: string): Router {
+  const router = Router();
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!tokenMatches(req.headers.authorization, adminToken)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  });
+
+  // POST /admin/webhooks - Create subscription (response includes the signing secret)
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const parsed = parseSubscriptionInput(req.body);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      const subscription = await store.createSubscription(parsed.input);
+      await store.refreshCache();
+      res.status(201).json(mapSubscriptionToApi(subscription, true));
+    } catch (error) {
+      logger.error({ error }, 'Error creating webhook subscription');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /admin/webhooks - List subscriptions
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      const subscriptions = await store.listSubscriptions();
+      res.json(subscriptions.map((s) => mapSubscriptionToApi(s)));
+    } catch (error) {
+      logger.error({ error }, 'Error listing webhook subscriptions');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /admin/webhooks/:id - Subscription details
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const subscription = await store.getSubscription(String(req.params.id));
+      if (!subscription) {
+        res.status(404).json({ error: 'Subscription not found' });
+        return;
+      }
+      res.json(mapSubscriptionToApi(subscription));
+    } catch (error) {
+      logger.error({ error }, 'Error fetching webhook subscription');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // POST /admin/webhooks/:id/pause | /resume - Toggle delivery without losing the outbox
+  for (const [action, active] of [['pause', false], ['resume', true]] as const) {
+    router.post(`/:id/${action}`, async (req: Request, res: Response) => {
+      try {
+        const updated = await store.setSubscriptionActive(String(req.params.id), active);
+        if (!updated) {
+          res.status(404).json({ error: 'Subscription not found' });
+          return;
+        }
+        await store.refreshCache();
+        res.json({ id: req.params.id, active });
+      } catch (error) {
+        logger.error({ error }, `Error on webhook subscription ${action}`);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+  }
+
+  // DELETE /admin/webhooks/:id - Delete subscription and its delivery log
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await store.deleteSubscription(String(req.params.id));
+      if (!deleted) {
+        res.status(404).json({ error: 'Subscription not found' });
+        return;
+      }
+      await store.refreshCache();
+      res.status(204).end();
+    } catch (error) {
+      logger.error({ error }, 'Error deleting webhook subscription');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /admin/webhooks/:id/deliveries - Outbox rows for a subscription
+  router.get('/:id/deliveries', async (req: Request, res: Response) => {
+    try {
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+        res.status(400).json({ error: `Invalid status value. Allowed: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}` });
+        return;
+      }
+      const limitRaw = parseInt(String(req.query.limit ?? '50'), 10);
+      const offsetRaw = parseInt(String(req.query.offset ?? '0'), 10);
+      const limit = Number.isNaN(limitRaw) || limitRaw < 1 ? 50 : Math.min(limitRaw, MAX_DELIVERIES_LIMIT);
+      const offset = Number.isNaN(offsetRaw) || offsetRaw < 0 ? 0 : offsetRaw;
+
+      const deliveries = await store.listDeliveries(String(req.params.id), {
+        status: status as WebhookDeliveryStatus | undefined,
+        limit,
+        offset,
+      });
+      res.json(deliveries.map((d) => ({
+        id: d.id,
+        event_id: d.eventId,
+        event_type: d.eventType,
+        asset: d.asset,
+        tx_signature: d.txSignature,
+        slot: d.slot,
+        status: d.status,
+        attempts: d.attempts,
+        next_attempt_at: d.nextAttemptAt.toISOString(),
+        last_status_code: d.lastStatusCode,
+        last_error: d.lastError,
+        created_at: d.createdAt.toISOString(),
+        delivered_at: d.deliveredAt?.toISOString() ?? null,
+      })));
+    } catch (error) {
+      logger.error({ error }, 'Error listing webhook deliveries');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /admin/webhooks/deliveries/:deliveryId/attempts - HTTP attempt log
+  router.get('/deliveries/:deliveryId/attempts', async (req: Request, res: Response) => {
+    try {
+      const attempts = await store.listAttempts(String(req.params.deliveryId));
+      res.json(attempts.map((a) => ({
+        attempt: a.attempt,
+        status_code: a.statusCode,
+        error: a.error,
+        duration_ms: a.durationMs,
+        created_at: a.createdAt.toISOString(),
+      })));
+    } catch (error) {
+      logger.error({ error }, 'Error listing webhook delivery attempts');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // POST /admin/webhooks/deliveries/:deliveryId/retry - Re-queue a FAILED/SKIPPED delivery
+  router.post('/deliveries/:deliveryId/retry', async (req: Request, res: Response) => {
+    try {
+      const retried = await store.retryDelivery(String(req.params.deliveryId));
+      if (!retried) {
+        res.status(409).json({ error: 'Delivery not found or not in FAILED/SKIPPED state' });
+        return;
+      }
+      res.json({ id: req.params.deliveryId, status: 'PENDING' });
+    } catch (error) {
+      logger.error({ error }, 'Error retrying webhook delivery');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
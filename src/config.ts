@@ -6,6 +6,19 @@ export type ApiMode = "graphql" | "rest" | "both";
 export type MetadataIndexMode = "off" | "normal" | "full";
 export type ChainStatus = "PENDING" | "FINALIZED" | "ORPHANED";
 
+export interface RpcEndpointConfig {
+  name: string;
+  url: string;
+  wsUrl?: string; // Derived from url by web3.js when unset
+  weight: number;
+}
+
+export interface GatewayConfig {
+  name: string;
+  url: string; // Base URL, no trailing slash
+  timeoutMs?: number; // Defaults to metadataTimeoutMs
+}
+
 const DEFAULT_PROGRAM_ID = "8oo4J9tBB3Hna1jRQ3rWvJjojqM5DYTDJo5cejUuJy3C";
 const resolvedProgramId = (process.env.PROGRAM_ID || DEFAULT_PROGRAM_ID).trim();
 
@@ -78,6 +91,103 @@ function parsePositiveInt(value: string | undefined, fallback: number): number {
   return parsed;
 }
 
+function splitList(value: string | undefined): string[] {
+  return (value || "").split(",").map((entry) => entry.trim()).filter((entry) => entry !== "");
+}
+
+const NAMED_ENTRY = /^([A-Za-z][\w-]*)=(.+)$/;
+
+/**
+ * RPC_ENDPOINTS: comma-separated `[name=]https://host[|weight]`
+ * WS_ENDPOINTS: comma-separated `[name=]wss://host`, paired by name or position
+ * Without RPC_ENDPOINTS the pool has a single endpoint built from RPC_URL/WS_URL
+ */
+function parseRpcEndpoints(
+  httpValue: string | undefined,
+  wsValue: string | undefined,
+  fallbackUrl: string,
+  fallbackWsUrl: string
+): RpcEndpointConfig[] {
+  const httpEntries = splitList(httpValue);
+  if (httpEntries.length === 0) {
+    return [{ name: "default", url: fallbackUrl, wsUrl: fallbackWsUrl, weight: 1 }];
+  }
+
+  const endpoints = httpEntries.map((entry, i): RpcEndpointConfig => {
+    const named = entry.match(NAMED_ENTRY);
+    const [url, weightRaw] = (named ? named[2] : entry).split("|");
+    const weight = weightRaw === undefined ? 1 : Number(weightRaw);
+    if (!/^https?:\/\//.test(url) || !Number.isFinite(weight) || weight <= 0) {
+      throw new Error(`Invalid RPC_ENDPOINTS entry '${entry}'. Expected [name=]https://host[|weight]`);
+    }
+    return { name: named ? named[1] : `rpc${i + 1}`, url, weight };
+  });
+
+  const names = new Set(endpoints.map((e) => e.name));
+  if (names.size !== endpoints.length) {
+    throw new Error("RPC_ENDPOINTS names must be unique");
+  }
+
+  splitList(wsValue).forEach((entry, i) => {
+    const named = entry.match(NAMED_ENTRY);
+    const wsUrl = named ? named[2] : entry;
+    const endpoint = named ? endpoints.find((e) => e.name === named[1]) : endpoints[i];
+    if (!endpoint || !/^wss?:\/\//.test(wsUrl)) {
+      throw new Error(`Invalid WS_ENDPOINTS entry '${entry}'. Expected [name=]wss://host matching an RPC_ENDPOINTS entry`);
+    }
+    endpoint.wsUrl = wsUrl;
+  });
+
+  return endpoints;
+}
+
+/**
+ * RPC_ROUTES: comma-separated `method=name[+name]` (e.g. getSignaturesForAddress=archive)
+ */
+function parseRpcRoutes(value: string | undefined): Record<string, string[]> {
+  const routes: Record<string, string[]> = {};
+  for (const entry of splitList(value)) {
+    const match = entry.match(/^(\w+)=([\w-]+(?:\+[\w-]+)*)$/);
+    if (!match) {
+      throw new Error(`Invalid RPC_ROUTES entry '${entry}'. Expected method=endpoint[+endpoint]`);
+    }
+    routes[match[1]] = match[2].split("+");
+  }
+  return routes;
+}
+
+/**
+ * IPFS_GATEWAYS / ARWEAVE_GATEWAYS: comma-separated `[name=]https://host[|timeoutMs]`,
+ * in failover order. Names default to the gateway host.
+ */
+function parseGateways(envName: string, value: string | undefined, fallbackUrl: string): GatewayConfig[] {
+  const entries = splitList(value);
+  if (entries.length === 0) {
+    return [{ name: new URL(fallbackUrl).host, url: fallbackUrl }];
+  }
+
+  const gateways = entries.map((entry): GatewayConfig => {
+    const named = entry.match(NAMED_ENTRY);
+    const [rawUrl, timeoutRaw] = (named ? named[2] : entry).split("|");
+    const timeoutMs = timeoutRaw === undefined ? undefined : Number(timeoutRaw);
+    let host: string | null = null;
+    try {
+      host = /^https?:\/\//.test(rawUrl) ? new URL(rawUrl).host : null;
+    } catch {
+      host = null;
+    }
+    if (!host || (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs < 100 || timeoutMs > 60000))) {
+      throw new Error(`Invalid ${envName} entry '${entry}'. Expected [name=]https://host[|timeoutMs] (timeout 100-60000)`);
+    }
+    return { name: named ? named[1] : host, url: rawUrl.replace(/\/+$/, ""), timeoutMs };
+  });
+
+  if (new Set(gateways.map((g) => g.name)).size !== gateways.length) {
+    throw new Error(`${envName} names must be unique`);
+  }
+  return gateways;
+}
+
 /**
  * Runtime configuration (populated at startup from on-chain data via SDK)
  */
@@ -105,6 +215,17 @@ export const config = {
   // Solana RPC (works with any provider)
   rpcUrl: process.env.RPC_URL || "https://api.devnet.solana.com",
   wsUrl: process.env.WS_URL || "wss://api.devnet.solana.com",
+  // RPC pool (failover + health scoring); defaults to the single RPC_URL/WS_URL endpoint
+  rpcEndpoints: parseRpcEndpoints(
+    process.env.RPC_ENDPOINTS,
+    process.env.WS_ENDPOINTS,
+    process.env.RPC_URL || "https://api.devnet.solana.com",
+    process.env.WS_URL || "wss://api.devnet.solana.com"
+  ),
+  // Pin RPC methods to named endpoints; unrouted methods use the whole pool
+  rpcRoutes: parseRpcRoutes(process.env.RPC_ROUTES),
+  // Background getSlot probe of every endpoint (scores idle endpoints, closes open circuits)
+  rpcHealthCheckIntervalMs: parsePositiveInt(process.env.RPC_HEALTH_CHECK_INTERVAL_MS, 30000),
 
   // Program ID from SDK (source of truth)
   programId: resolvedProgramId,
@@ -115,6 +236,12 @@ export const config = {
   enableGraphql: parseBoolean(process.env.ENABLE_GRAPHQL, true),
   // Cache TTL for expensive GraphQL aggregated stats queries
   graphqlStatsCacheTtlMs: parsePositiveInt(process.env.GRAPHQL_STATS_CACHE_TTL_MS, 60000),
+  // Max concurrent GraphQL subscriptions (SSE streams) per process
+  graphqlMaxSubscriptions: parsePositiveInt(process.env.GRAPHQL_MAX_SUBSCRIPTIONS, 1000),
+  // Max concurrent REST SSE clients on /rest/v1/events/stream
+  restSseMaxClients: parsePositiveInt(process.env.REST_SSE_MAX_CLIENTS, 500),
+  // Recent events retained in memory for Last-Event-ID resume
+  restSseHistorySize: parsePositiveInt(process.env.REST_SSE_HISTORY_SIZE, 1000),
 
   // Indexer mode: "auto" | "polling" | "websocket"
   // auto = tries WebSocket first, falls back to polling if unavailable
@@ -123,6 +250,8 @@ export const config = {
   // Polling config
   pollingInterval: parseInt(process.env.POLLING_INTERVAL || "5000", 10),
   batchSize: parseInt(process.env.BATCH_SIZE || "100", 10),
+  // Initial backfill: slot segments fetched/decoded ahead of the (sequential) commit
+  backfillConcurrency: parsePositiveInt(process.env.BACKFILL_CONCURRENCY, 4),
 
   // WebSocket config
   wsReconnectInterval: parseInt(
@@ -134,6 +263,11 @@ export const config = {
   // Logging
   logLevel: process.env.LOG_LEVEL || "info",
 
+  // Prometheus metrics endpoint (GET /metrics on the API server)
+  metricsEnabled: parseBoolean(process.env.METRICS_ENABLED, true),
+  // Readiness (GET /health/ready) fails when the cursor trails the cluster by more slots
+  healthMaxSlotLag: parsePositiveInt(process.env.HEALTH_MAX_SLOT_LAG, 150), // ~60s
+
   // URI Metadata indexing (fetch and extract fields from agent_uri)
   // off = don't fetch URIs, normal = extract standard fields, full = store entire JSON
   metadataIndexMode: parseMetadataMode(process.env.INDEX_METADATA),
@@ -146,6 +280,24 @@ export const config = {
   metadataMaxValueBytes: parseInt(process.env.METADATA_MAX_VALUE_BYTES || "10000", 10), // 10KB
   // Fixed timeout for URI fetch (security: no user-configurable timeout)
   metadataTimeoutMs: 5000,
+  // IPFS gateways for ipfs:// URIs and c1:<cid> pointers, tried in order (e.g. a local Kubo node first)
+  ipfsGateways: parseGateways("IPFS_GATEWAYS", process.env.IPFS_GATEWAYS, "https://ipfs.io"),
+  // Arweave gateways for ar:// URIs, tried in order
+  arweaveGateways: parseGateways("ARWEAVE_GATEWAYS", process.env.ARWEAVE_GATEWAYS, "https://arweave.net"),
+  // Fetch IPFS content as raw blocks and check them against the CID before storing fields
+  ipfsVerifyCid: parseBoolean(process.env.IPFS_VERIFY_CID, true),
+  // Fetch feedback/response files (feedbackUri, responseUri) and check them against their on-chain hashes
+  feedbackDocumentsEnabled: parseBoolean(process.env.INDEX_FEEDBACK_DOCUMENTS, false),
+  // Bearer token for /admin/metadata-jobs (durable metadata job inspection, Supabase mode)
+  metadataJobsAdminToken: process.env.METADATA_JOBS_ADMIN_TOKEN || "",
+  // Re-fetch HTTP(S) registration files on a schedule (conditional GET, Supabase mode)
+  metadataRefreshEnabled: parseBoolean(process.env.METADATA_REFRESH_ENABLED, false),
+  // Minimum age of the last check before a registration file is fetched again (ms)
+  metadataRefreshIntervalMs: parsePositiveInt(process.env.METADATA_REFRESH_INTERVAL_MS, 86400000), // 24h
+  // Interval between scheduler cycles (ms)
+  metadataRefreshCheckIntervalMs: parsePositiveInt(process.env.METADATA_REFRESH_CHECK_INTERVAL_MS, 300000), // 5m
+  // Max refreshes queued per cycle
+  metadataRefreshBatchSize: parsePositiveInt(process.env.METADATA_REFRESH_BATCH_SIZE, 100),
 
   // Verification config (reorg resilience)
   // Enable/disable background verification worker
@@ -162,6 +314,42 @@ export const config = {
   verifyRecoveryCycles: parseInt(process.env.VERIFY_RECOVERY_CYCLES || "10", 10),
   // Max ORPHANED records to re-check per recovery run
   verifyRecoveryBatchSize: parseInt(process.env.VERIFY_RECOVERY_BATCH_SIZE || "50", 10),
+  // Re-fetch and rewrite an agent's hash-chain rows when the verifier flags a mismatch
+  verifyRepairEnabled: parseBoolean(process.env.VERIFY_REPAIR_ENABLED, true),
+  // Max flagged agents repaired per verification cycle
+  verifyRepairBatchSize: parsePositiveInt(process.env.VERIFY_REPAIR_BATCH_SIZE, 10),
+
+  // Append every decoded event to the event log (EventLog / event_log)
+  eventLogEnabled: parseBoolean(process.env.EVENT_LOG_ENABLED, true),
+
+  // Outbound webhooks (transactional outbox + background dispatcher)
+  webhooksEnabled: parseBoolean(process.env.WEBHOOKS_ENABLED, false),
+  // Bearer token for /admin/webhooks (admin routes are not mounted without it)
+  webhookAdminToken: process.env.WEBHOOK_ADMIN_TOKEN || "",
+  // Interval between dispatcher cycles (ms)
+  webhookDispatchIntervalMs: parsePositiveInt(process.env.WEBHOOK_DISPATCH_INTERVAL_MS, 2000),
+  // Max deliveries claimed per dispatcher cycle
+  webhookBatchSize: parsePositiveInt(process.env.WEBHOOK_BATCH_SIZE, 50),
+  // HTTP attempts before a delivery is marked FAILED
+  webhookMaxAttempts: parsePositiveInt(process.env.WEBHOOK_MAX_ATTEMPTS, 8),
+  // Per-request timeout for webhook POSTs
+  webhookTimeoutMs: parsePositiveInt(process.env.WEBHOOK_TIMEOUT_MS, 10000),
+  // FINALIZED subscriptions: skip deliveries whose record is still unverified after this long
+  webhookFinalityTimeoutMs: parsePositiveInt(process.env.WEBHOOK_FINALITY_TIMEOUT_MS, 3600000), // 1h
+
+  // Background anomaly analyzer (sybil-like feedback patterns, see /rest/v1/anomalies)
+  anomalyDetectionEnabled: parseBoolean(process.env.ANOMALY_DETECTION_ENABLED, false),
+  // Interval between analyzer cycles (ms)
+  anomalyIntervalMs: parsePositiveInt(process.env.ANOMALY_INTERVAL_MS, 600000), // 10m
+  // Feedback window each cycle analyzes (ms)
+  anomalyWindowMs: parsePositiveInt(process.env.ANOMALY_WINDOW_MS, 604800000), // 7d
+
+  // Background search indexer (agent_search documents behind searchAgents and /rest/v1/search)
+  searchIndexEnabled: parseBoolean(process.env.SEARCH_INDEX_ENABLED, true),
+  // Interval between indexer cycles (ms)
+  searchIndexIntervalMs: parsePositiveInt(process.env.SEARCH_INDEX_INTERVAL_MS, 60000), // 1m
+  // Max agents re-indexed per cycle
+  searchIndexBatchSize: parsePositiveInt(process.env.SEARCH_INDEX_BATCH_SIZE, 200),
 } as const;
 
 export function validateConfig(): void {
@@ -179,6 +367,15 @@ export function validateConfig(): void {
     }
   }
 
+  // Validate RPC routes
+  const rpcEndpointNames = new Set(config.rpcEndpoints.map((e) => e.name));
+  for (const [method, names] of Object.entries(config.rpcRoutes)) {
+    const unknown = names.filter((name) => !rpcEndpointNames.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`RPC_ROUTES ${method} references unknown endpoint(s): ${unknown.join(", ")}`);
+    }
+  }
+
   // Validate verification config
   if (config.verifyIntervalMs < 5000) {
     throw new Error("VERIFY_INTERVAL_MS must be at least 5000ms");
@@ -200,7 +397,52 @@ export function validateConfig(): void {
     throw new Error("VERIFY_RECOVERY_BATCH_SIZE must be between 1 and 1000");
   }
 
+  if (config.verifyRepairBatchSize > 100) {
+    throw new Error("VERIFY_REPAIR_BATCH_SIZE must be between 1 and 100");
+  }
+
   if (config.graphqlStatsCacheTtlMs < 1000 || config.graphqlStatsCacheTtlMs > 3600000) {
     throw new Error("GRAPHQL_STATS_CACHE_TTL_MS must be between 1000 and 3600000");
   }
+
+  // Validate webhook config
+  if (config.webhookDispatchIntervalMs < 500) {
+    throw new Error("WEBHOOK_DISPATCH_INTERVAL_MS must be at least 500ms");
+  }
+
+  if (config.webhookBatchSize > 1000) {
+    throw new Error("WEBHOOK_BATCH_SIZE must be between 1 and 1000");
+  }
+
+  if (config.webhookMaxAttempts > 50) {
+    throw new Error("WEBHOOK_MAX_ATTEMPTS must be between 1 and 50");
+  }
+
+  if (config.webhookTimeoutMs < 1000 || config.webhookTimeoutMs > 60000) {
+    throw new Error("WEBHOOK_TIMEOUT_MS must be between 1000 and 60000");
+  }
+
+  if (config.anomalyIntervalMs < 10000) {
+    throw new Error("ANOMALY_INTERVAL_MS must be at least 10000ms");
+  }
+
+  if (config.searchIndexIntervalMs < 5000) {
+    throw new Error("SEARCH_INDEX_INTERVAL_MS must be at least 5000ms");
+  }
+
+  if (config.searchIndexBatchSize > 5000) {
+    throw new Error("SEARCH_INDEX_BATCH_SIZE must be between 1 and 5000");
+  }
+
+  if (config.metadataRefreshIntervalMs < 60000) {
+    throw new Error("METADATA_REFRESH_INTERVAL_MS must be at least 60000ms");
+  }
+
+  if (config.metadataRefreshCheckIntervalMs < 5000) {
+    throw new Error("METADATA_REFRESH_CHECK_INTERVAL_MS must be at least 5000ms");
+  }
+
+  if (config.metadataRefreshBatchSize > 5000) {
+    throw new Error("METADATA_REFRESH_BATCH_SIZE must be between 1 and 5000");
+  }
 }
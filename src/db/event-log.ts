@@ -0,0 +1,190 @@
+/**
+ * Append-only event log
+ *
+ * Every decoded program event is written in the same transaction as its
+ * projection, keyed by (signature, event ordinal) so re-processing a
+ * transaction is idempotent. `data` is a JSON-safe view for querying;
+ * `raw_data` is the Anchor payload, decodable with decodeRawEvent() to rebuild
+ * derived tables without RPC.
+ */
+
+import type { Pool, PoolClient } from "pg";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { config } from "../config.js";
+import { toJsonSafe } from "../webhooks/outbox.js";
+
+export interface EventLogInput {
+  type: string;
+  data: object;
+}
+
+export interface EventLogContext {
+  signature: string;
+  slot: bigint;
+  blockTime: Date;
+  txIndex?: number;
+  eventOrdinal?: number;
+  rawEvent?: string | null;
+}
+
+function toEventLogRow(event: EventLogInput, ctx: EventLogContext) {
+  const data = toJsonSafe(event.data) as Record<string, unknown>;
+  const asset = (data.asset ?? (event.type === "RegistryInitialized" ? data.collection : null)) as string | null;
+  return {
+    eventType: event.type,
+    signature: ctx.signature,
+    slot: ctx.slot,
+    txIndex: ctx.txIndex ?? null,
+    eventOrdinal: ctx.eventOrdinal ?? 0,
+    asset: asset ?? null,
+    blockTime: ctx.blockTime,
+    data,
+    rawData: ctx.rawEvent ?? null,
+  };
+}
+
+/**
+ * Append inside a Prisma transaction (local mode)
+ */
+export async function appendEventLogPrisma(
+  tx: Prisma.TransactionClient,
+  event: EventLogInput,
+  ctx: EventLogContext
+): Promise<void> {
+  if (!config.eventLogEnabled) return;
+
+  const row = toEventLogRow(event, ctx);
+  await tx.eventLog.upsert({
+    where: { signature_eventOrdinal: { signature: row.signature, eventOrdinal: row.eventOrdinal } },
+    create: { ...row, data: row.data as Prisma.InputJsonObject, processed: true },
+    update: {},
+  });
+}
+
+/**
+ * Append inside a pg transaction (supabase mode)
+ */
+export async function appendEventLogPg(
+  client: PoolClient,
+  event: EventLogInput,
+  ctx: EventLogContext
+): Promise<void> {
+  if (!config.eventLogEnabled) return;
+
+  const row = toEventLogRow(event, ctx);
+  await client.query(
+    `INSERT INTO event_log (tx_signature, event_ordinal, event_type, asset, block_slot, tx_index, block_time, data, raw_data)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (tx_signature, event_ordinal) DO NOTHING`,
+    [
+      row.signature,
+      row.eventOrdinal,
+      row.eventType,
+      row.asset,
+      row.slot.toString(),
+      row.txIndex,
+      row.blockTime.toISOString(),
+      JSON.stringify(row.data),
+      row.rawData,
+    ]
+  );
+}
+
+/**
+ * Keys (`signature:eventOrdinal`) of events already in the log for `signatures`
+ */
+export async function findLoggedEvents(
+  prisma: PrismaClient | null,
+  pool: Pool | null,
+  signatures: string[]
+): Promise<Set<string>> {
+  if (signatures.length === 0) return new Set();
+
+  if (prisma) {
+    const rows = await prisma.eventLog.findMany({
+      where: { signature: { in: signatures }, processed: true, NOT: { eventType: "PROCESSING_FAILED" } },
+      select: { signature: true, eventOrdinal: true },
+    });
+    return new Set(rows.map((r) => `${r.signature}:${r.eventOrdinal}`));
+  }
+
+  if (pool) {
+    const { rows } = await pool.query<{ tx_signature: string; event_ordinal: number }>(
+      `SELECT tx_signature, event_ordinal FROM event_log WHERE tx_signature = ANY($1::text[])`,
+      [signatures]
+    );
+    return new Set(rows.map((r) => `${r.tx_signature}:${r.event_ordinal}`));
+  }
+
+  return new Set();
+}
+
+/**
+ * Event types that set each group of agent fields. Range backfills and chain
+ * repairs apply history beside the live indexer: an event's agent fields are
+ * left alone when the log already holds a later event of the same group.
+ */
+export const AGENT_FIELD_EVENTS = {
+  uri: ["UriUpdated"],
+  owner: ["AgentOwnerSynced", "WalletResetOnOwnerSync"],
+  wallet: ["WalletUpdated", "WalletResetOnOwnerSync"],
+  atomEnabled: ["AtomEnabled"],
+  collectionPointer: ["CollectionPointerSet"],
+  parent: ["ParentAssetSet"],
+  atom: ["NewFeedback", "FeedbackRevoked"],
+} as const;
+
+export type AgentFieldGroup = keyof typeof AGENT_FIELD_EVENTS;
+
+// Position sentinel for a NULL tx_index, which sorts last within a slot
+const TX_INDEX_LAST = 2147483647;
+
+/**
+ * Whether the log holds an event of `group` for `asset` after the position of
+ * `ctx` (slot, tx index, event ordinal) - local mode
+ */
+export async function hasLaterAgentEventPrisma(
+  tx: Pick<Prisma.TransactionClient, "eventLog">,
+  asset: string,
+  group: AgentFieldGroup,
+  ctx: EventLogContext
+): Promise<boolean> {
+  const txIndex = ctx.txIndex ?? null;
+  const sameTx = { slot: ctx.slot, txIndex, eventOrdinal: { gt: ctx.eventOrdinal ?? 0 } };
+  const later = await tx.eventLog.findFirst({
+    where: {
+      asset,
+      eventType: { in: [...AGENT_FIELD_EVENTS[group]] },
+      processed: true,
+      OR: txIndex === null
+        ? [{ slot: { gt: ctx.slot } }, sameTx]
+        : [
+            { slot: { gt: ctx.slot } },
+            { slot: ctx.slot, OR: [{ txIndex: { gt: txIndex } }, { txIndex: null }] },
+            sameTx,
+          ],
+    },
+    select: { id: true },
+  });
+  return later !== null;
+}
+
+/**
+ * Whether the log holds an event of `group` for `asset` after the position of
+ * `ctx` (slot, tx index, event ordinal) - supabase mode
+ */
+export async function hasLaterAgentEventPg(
+  client: PoolClient,
+  asset: string,
+  group: AgentFieldGroup,
+  ctx: EventLogContext
+): Promise<boolean> {
+  const { rows } = await client.query(
+    `SELECT 1 FROM event_log
+     WHERE asset = $1 AND event_type = ANY($2::text[])
+       AND (block_slot, COALESCE(tx_index, $6), event_ordinal) > ($3::bigint, COALESCE($4::int, $6), $5::int)
+     LIMIT 1`,
+    [asset, AGENT_FIELD_EVENTS[group], ctx.slot.toString(), ctx.txIndex ?? null, ctx.eventOrdinal ?? 0, TX_INDEX_LAST]
+  );
+  return rows.length > 0;
+}
@@ -0,0 +1,123 @@
+/**
+ * Feedback activity rollups (supabase mode)
+ *
+ * Hourly per-(agent, tag1) counters behind the GraphQL feedbackActivity
+ * query, bumped by the handlers as feedbacks, revocations and responses are
+ * first inserted: feedback count, sum of normalized values (value scaled by
+ * value_decimals), revocation count and response count. Distinct clients
+ * cannot be summed across hours, so feedback_activity_clients keeps one row
+ * per client and hour and the query counts them at read time.
+ *
+ * Revocations and responses are attributed to the tag1 of their feedback and
+ * to the hour they happened in. Rows later orphaned by the verifier are not
+ * subtracted.
+ */
+
+import type { Pool, PoolClient } from "pg";
+
+type Queryable = Pool | PoolClient;
+
+const HOUR_MS = 3600 * 1000;
+
+interface ActivityDelta {
+  feedbacks?: number;
+  valueSum?: string; // Decimal string: value / 10^value_decimals
+  revocations?: number;
+  responses?: number;
+}
+
+export function activityHour(blockTime: Date): string {
+  return new Date(Math.floor(blockTime.getTime() / HOUR_MS) * HOUR_MS).toISOString();
+}
+
+/**
+ * value / 10^decimals as an exact decimal string (value is the raw i128 metric)
+ */
+export function normalizeFeedbackValue(value: bigint, decimals: number): string {
+  if (decimals <= 0) return value.toString();
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals);
+  return `${negative ? "-" : ""}${whole}.${fraction}`;
+}
+
+async function bumpActivity(
+  db: Queryable,
+  hour: string,
+  assetId: string,
+  tag1: string,
+  delta: ActivityDelta
+): Promise<void> {
+  await db.query(
+    `INSERT INTO feedback_activity (bucket_start, asset, collection, tag1, feedback_count, value_sum, revocation_count, response_count)
+     VALUES ($1, $2, (SELECT collection FROM agents WHERE asset = $2), $3, $4, $5::numeric, $6, $7)
+     ON CONFLICT (bucket_start, asset, tag1) DO UPDATE SET
+       feedback_count = feedback_activity.feedback_count + EXCLUDED.feedback_count,
+       value_sum = feedback_activity.value_sum + EXCLUDED.value_sum,
+       revocation_count = feedback_activity.revocation_count + EXCLUDED.revocation_count,
+       response_count = feedback_activity.response_count + EXCLUDED.response_count`,
+    [hour, assetId, tag1, delta.feedbacks ?? 0, delta.valueSum ?? "0", delta.revocations ?? 0, delta.responses ?? 0]
+  );
+}
+
+async function feedbackTag1(db: Queryable, assetId: string, client: string, feedbackIndex: bigint): Promise<string> {
+  const result = await db.query(
+    `SELECT tag1 FROM feedbacks WHERE asset = $1 AND client_address = $2 AND feedback_index = $3 LIMIT 1`,
+    [assetId, client, feedbackIndex.toString()]
+  );
+  return result.rows?.[0]?.tag1 ?? "";
+}
+
+/**
+ * Count a newly inserted feedback
+ */
+export async function recordFeedbackActivity(
+  db: Queryable,
+  assetId: string,
+  client: string,
+  tag1: string | null,
+  value: bigint,
+  valueDecimals: number,
+  blockTime: Date
+): Promise<void> {
+  const hour = activityHour(blockTime);
+  await bumpActivity(db, hour, assetId, tag1 ?? "", {
+    feedbacks: 1,
+    valueSum: normalizeFeedbackValue(value, valueDecimals),
+  });
+  await db.query(
+    `INSERT INTO feedback_activity_clients (bucket_start, asset, collection, tag1, client_address)
+     VALUES ($1, $2, (SELECT collection FROM agents WHERE asset = $2), $3, $4)
+     ON CONFLICT (bucket_start, asset, tag1, client_address) DO NOTHING`,
+    [hour, assetId, tag1 ?? "", client]
+  );
+}
+
+/**
+ * Count a newly inserted revocation
+ */
+export async function recordRevocationActivity(
+  db: Queryable,
+  assetId: string,
+  client: string,
+  feedbackIndex: bigint,
+  blockTime: Date
+): Promise<void> {
+  const tag1 = await feedbackTag1(db, assetId, client, feedbackIndex);
+  await bumpActivity(db, activityHour(blockTime), assetId, tag1, { revocations: 1 });
+}
+
+/**
+ * Count a newly inserted response
+ */
+export async function recordResponseActivity(
+  db: Queryable,
+  assetId: string,
+  client: string,
+  feedbackIndex: bigint,
+  blockTime: Date
+): Promise<void> {
+  const tag1 = await feedbackTag1(db, assetId, client, feedbackIndex);
+  await bumpActivity(db, activityHour(blockTime), assetId, tag1, { responses: 1 });
+}
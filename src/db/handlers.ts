@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, Prisma } from "@prisma/client";
 import PQueue from "p-queue";
 import {
   ProgramEvent,
@@ -27,6 +27,10 @@ import { digestCollectionPointerDoc } from "../indexer/collectionDigest.js";
 import { compressForStorage } from "../utils/compression.js";
 import { stripNullBytes } from "../utils/sanitize.js";
 import { DEFAULT_PUBKEY, STANDARD_URI_FIELDS } from "../constants.js";
+import { eventsProcessedTotal } from "../metrics.js";
+import { enqueueWebhookDeliveriesPrisma } from "../webhooks/outbox.js";
+import { appendEventLogPrisma, hasLaterAgentEventPrisma, type AgentFieldGroup } from "./event-log.js";
+import { liveEvents } from "../indexer/live-events.js";
 
 const logger = createChildLogger("db-handlers");
 
@@ -94,16 +98,18 @@ interface AgentAtomPatch {
   diversityRatio?: number;
 }
 
-async function syncAgentFeedbackStatsTx(
+// blockTime null leaves updatedAt alone (event older than the agent's state, or a chain repair)
+export async function syncAgentFeedbackStatsTx(
   tx: PrismaTransactionClient,
   assetId: string,
-  blockTime: Date,
+  blockTime: Date | null,
   atomPatch?: AgentAtomPatch
 ): Promise<void> {
   const aggregate = await tx.feedback.aggregate({
     where: {
       agentId: assetId,
       revoked: false,
+      status: { not: "ORPHANED" },
     },
     _count: { _all: true },
     _avg: { score: true },
@@ -114,7 +120,7 @@ async function syncAgentFeedbackStatsTx(
   const baseData = {
     feedbackCount,
     rawAvgScore: toRoundedScore(avgScore),
-    updatedAt: blockTime,
+    ...(blockTime ? { updatedAt: blockTime } : {}),
   };
 
   await tx.agent.updateMany({
@@ -133,6 +139,7 @@ async function syncAgentFeedbackStats(
     where: {
       agentId: assetId,
       revoked: false,
+      status: { not: "ORPHANED" },
     },
     _count: { _all: true },
     _avg: { score: true },
@@ -157,7 +164,80 @@ export interface EventContext {
   slot: bigint;
   blockTime: Date;
   txIndex?: number; // Transaction index within the block (for deterministic ordering)
-  source?: "poller" | "websocket"; // Event source for cursor tracking
+  eventOrdinal?: number; // Event position within the transaction logs
+  rawEvent?: string | null; // base64 Anchor event payload, kept in the event log for replay
+  source?: "poller" | "websocket" | "backfill"; // Event source for cursor tracking (range backfills never move it)
+}
+
+type ReputationEventType = "feedback" | "revoke";
+
+const REPUTATION_SELECT = {
+  trustTier: true,
+  qualityScore: true,
+  confidence: true,
+  riskScore: true,
+  diversityRatio: true,
+} as const;
+
+/**
+ * Record the agent's ATOM metrics as they stand after a feedback / revoke event
+ * (idempotent per event, so replays and re-deliveries keep one point). Metrics
+ * carried by the event win over the agent row, which is newer for backfills.
+ */
+async function recordReputationSnapshotTx(
+  tx: PrismaTransactionClient,
+  assetId: string,
+  eventType: ReputationEventType,
+  client: string,
+  feedbackIndex: bigint,
+  ctx: EventContext,
+  metrics: AgentAtomPatch
+): Promise<void> {
+  const current = await tx.agent.findUnique({ where: { id: assetId }, select: REPUTATION_SELECT });
+  if (!current) return;
+  const agent = { ...current, ...metrics };
+
+  await tx.reputationSnapshot.upsert({
+    where: { agentId_eventType_client_feedbackIndex: { agentId: assetId, eventType, client, feedbackIndex } },
+    create: {
+      agentId: assetId,
+      eventType,
+      client,
+      feedbackIndex,
+      slot: ctx.slot,
+      txSignature: ctx.signature,
+      blockTime: ctx.blockTime,
+      ...agent,
+    },
+    update: {},
+  });
+}
+
+async function recordReputationSnapshot(
+  prisma: PrismaClient,
+  assetId: string,
+  eventType: ReputationEventType,
+  client: string,
+  feedbackIndex: bigint,
+  ctx: EventContext
+): Promise<void> {
+  const agent = await prisma.agent.findUnique({ where: { id: assetId }, select: REPUTATION_SELECT });
+  if (!agent) return;
+
+  await prisma.reputationSnapshot.upsert({
+    where: { agentId_eventType_client_feedbackIndex: { agentId: assetId, eventType, client, feedbackIndex } },
+    create: {
+      agentId: assetId,
+      eventType,
+      client,
+      feedbackIndex,
+      slot: ctx.slot,
+      txSignature: ctx.signature,
+      blockTime: ctx.blockTime,
+      ...agent,
+    },
+    update: {},
+  });
 }
 
 /**
@@ -171,7 +251,9 @@ export async function handleEventAtomic(
 ): Promise<void> {
   // Route to Supabase handlers if in supabase mode
   if (config.dbMode === "supabase") {
-    return supabaseHandlers.handleEventAtomic(event, ctx);
+    await supabaseHandlers.handleEventAtomic(event, ctx);
+    eventsProcessedTotal.inc({ type: event.type });
+    return;
   }
 
   // Local mode - use Prisma transaction (prisma must be non-null in local mode)
@@ -185,13 +267,56 @@ export async function handleEventAtomic(
 
     // 2. Update cursor atomically with monotonic guard
     await updateCursorAtomic(tx, ctx);
+
+    // 3. Outbox: webhook deliveries commit (or roll back) with the event
+    await enqueueWebhookDeliveriesPrisma(tx, event, ctx);
+
+    // 4. Append to the event log
+    await appendEventLogPrisma(tx, event, ctx);
   });
+  eventsProcessedTotal.inc({ type: event.type });
+  liveEvents.publishEvent(event, ctx);
 
-  // 3. Trigger derived metadata extraction AFTER transaction (fire-and-forget)
+  // 5. Trigger derived metadata extraction AFTER transaction (fire-and-forget)
   // This is outside the transaction to avoid blocking event processing
   await triggerDerivedDigestsIfNeeded(prisma, event);
 }
 
+/**
+ * Re-apply a stored event to the derived tables only (reprojection).
+ * Cursor, outbox, event log and live bus are left alone: the event was
+ * already delivered when it was first indexed.
+ */
+export async function reprojectEventTx(
+  tx: Prisma.TransactionClient,
+  event: ProgramEvent,
+  ctx: EventContext
+): Promise<void> {
+  await handleEventInner(tx, event, ctx);
+}
+
+/**
+ * Whether a backfilled or repaired event is older than agent fields of `group`
+ * (the event log holds a later event that sets them). Live events never are.
+ */
+async function isSupersededTx(
+  client: PrismaClientOrTx,
+  assetId: string,
+  group: AgentFieldGroup,
+  ctx: EventContext
+): Promise<boolean> {
+  if (ctx.source !== "backfill") return false;
+  return hasLaterAgentEventPrisma(client, assetId, group, ctx);
+}
+
+/**
+ * Wait for queued URI/collection digests (local mode) to finish
+ * One-shot commands call this before disconnecting
+ */
+export async function drainDerivedDigestQueues(): Promise<void> {
+  await Promise.all([uriDigestQueue.onIdle(), collectionDigestQueue.onIdle()]);
+}
+
 /**
  * Update indexer cursor with monotonic guard
  * Only advances if the new slot is greater than the current slot
@@ -200,6 +325,8 @@ async function updateCursorAtomic(
   tx: PrismaTransactionClient,
   ctx: EventContext
 ): Promise<void> {
+  if (ctx.source === "backfill") return;
+
   const current = await tx.indexerState.findUnique({
     where: { id: "main" },
     select: { lastSlot: true },
@@ -446,6 +573,8 @@ async function handleAgentRegisteredCore(
   const assetId = data.asset.toBase58();
   const agentUri = data.agentUri || "";
   const collectionId = data.collection.toBase58();
+  const uriSuperseded = await isSupersededTx(client, assetId, "uri", ctx);
+  const atomSuperseded = await isSupersededTx(client, assetId, "atomEnabled", ctx);
 
   await client.agent.upsert({
     where: { id: assetId },
@@ -468,8 +597,8 @@ async function handleAgentRegisteredCore(
     update: {
       collection: collectionId,
       registry: collectionId, // v0.6.0: registry = collection
-      atomEnabled: data.atomEnabled,
-      uri: agentUri,
+      ...(atomSuperseded ? {} : { atomEnabled: data.atomEnabled }),
+      ...(uriSuperseded ? {} : { uri: agentUri }),
       creator: data.owner.toBase58(),
     },
   });
@@ -513,6 +642,10 @@ async function handleAgentOwnerSyncedTx(
   ctx: EventContext
 ): Promise<void> {
   const assetId = data.asset.toBase58();
+  if (await isSupersededTx(tx, assetId, "owner", ctx)) {
+    logger.debug({ assetId }, "Owner sync superseded by a later event, agent left unchanged");
+    return;
+  }
   const result = await tx.agent.updateMany({
     where: { id: assetId },
     data: { owner: data.newOwner.toBase58(), updatedAt: ctx.blockTime },
@@ -603,6 +736,10 @@ async function handleUriUpdatedTx(
 ): Promise<void> {
   const assetId = data.asset.toBase58();
   const newUri = data.newUri || "";
+  if (await isSupersededTx(tx, assetId, "uri", ctx)) {
+    logger.debug({ assetId, newUri }, "URI update superseded by a later event, agent left unchanged");
+    return;
+  }
   const result = await tx.agent.updateMany({
     where: { id: assetId },
     data: { uri: newUri, updatedAt: ctx.blockTime },
@@ -666,6 +803,10 @@ async function handleWalletUpdatedTx(
   const assetId = data.asset.toBase58();
   const newWalletRaw = data.newWallet.toBase58();
   const newWallet = newWalletRaw === DEFAULT_PUBKEY ? null : newWalletRaw;
+  if (await isSupersededTx(tx, assetId, "wallet", ctx)) {
+    logger.debug({ assetId }, "Wallet update superseded by a later event, agent left unchanged");
+    return;
+  }
   const result = await tx.agent.updateMany({
     where: { id: assetId },
     data: { wallet: newWallet, updatedAt: ctx.blockTime },
@@ -716,12 +857,18 @@ async function handleWalletResetOnOwnerSyncTx(
   const newWalletRaw = data.newWallet.toBase58();
   const newWallet = newWalletRaw === DEFAULT_PUBKEY ? null : newWalletRaw;
   const ownerAfterSync = data.ownerAfterSync.toBase58();
+  const ownerSuperseded = await isSupersededTx(tx, assetId, "owner", ctx);
+  const walletSuperseded = await isSupersededTx(tx, assetId, "wallet", ctx);
+  if (ownerSuperseded && walletSuperseded) {
+    logger.debug({ assetId }, "Wallet reset superseded by later events, agent left unchanged");
+    return;
+  }
 
   const result = await tx.agent.updateMany({
     where: { id: assetId },
     data: {
-      owner: ownerAfterSync,
-      wallet: newWallet,
+      ...(ownerSuperseded ? {} : { owner: ownerAfterSync }),
+      ...(walletSuperseded ? {} : { wallet: newWallet }),
       updatedAt: ctx.blockTime,
     },
   });
@@ -774,6 +921,7 @@ async function handleCollectionPointerSetTx(
     select: { collectionPointer: true, creator: true },
   });
   const creator = existing?.creator ?? setBy;
+  const superseded = await isSupersededTx(tx, assetId, "collectionPointer", ctx);
 
   await tx.collection.upsert({
     where: { col_creator: { col: pointer, creator } },
@@ -789,12 +937,16 @@ async function handleCollectionPointerSetTx(
       lastSeenTxSignature: ctx.signature,
       assetCount: 0n,
     },
-    update: {
+    update: superseded ? {} : {
       lastSeenAt: ctx.blockTime,
       lastSeenSlot: ctx.slot,
       lastSeenTxSignature: ctx.signature,
     },
   });
+  if (superseded) {
+    logger.debug({ assetId, col: pointer }, "Collection pointer superseded by a later event, agent left unchanged");
+    return;
+  }
 
   const result = await tx.agent.updateMany({
     where: { id: assetId },
@@ -938,6 +1090,10 @@ async function handleParentAssetSetTx(
   ctx: EventContext
 ): Promise<void> {
   const assetId = data.asset.toBase58();
+  if (await isSupersededTx(tx, assetId, "parent", ctx)) {
+    logger.debug({ assetId }, "Parent asset set superseded by a later event, agent left unchanged");
+    return;
+  }
   const result = await tx.agent.updateMany({
     where: { id: assetId },
     data: {
@@ -1179,6 +1335,7 @@ async function handleNewFeedbackTx(
       value: data.value.toString(),
       valueDecimals: data.valueDecimals,
       score: data.score,
+      isUniqueClient: data.atomEnabled ? data.isUniqueClient : null,
       tag1: data.tag1,
       tag2: data.tag2,
       endpoint: data.endpoint,
@@ -1223,20 +1380,23 @@ async function handleNewFeedbackTx(
     logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), count: orphans.length }, "Reconciled orphan responses");
   }
 
+  const metrics: AgentAtomPatch = {
+    trustTier: data.newTrustTier,
+    qualityScore: data.newQualityScore,
+    confidence: data.newConfidence,
+    riskScore: data.newRiskScore,
+    diversityRatio: data.newDiversityRatio,
+  };
+  const superseded = await isSupersededTx(tx, assetId, "atom", ctx);
   await syncAgentFeedbackStatsTx(
     tx,
     assetId,
-    ctx.blockTime,
-    data.atomEnabled
-      ? {
-          trustTier: data.newTrustTier,
-          qualityScore: data.newQualityScore,
-          confidence: data.newConfidence,
-          riskScore: data.newRiskScore,
-          diversityRatio: data.newDiversityRatio,
-        }
-      : undefined
+    superseded ? null : ctx.blockTime,
+    data.atomEnabled && !superseded ? metrics : undefined
   );
+  if (data.atomEnabled) {
+    await recordReputationSnapshotTx(tx, assetId, "feedback", clientAddress, data.feedbackIndex, ctx, metrics);
+  }
 
   logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), score: data.score }, "New feedback");
 }
@@ -1264,6 +1424,7 @@ async function handleNewFeedback(
       value: data.value.toString(),
       valueDecimals: data.valueDecimals,
       score: data.score,
+      isUniqueClient: data.atomEnabled ? data.isUniqueClient : null,
       tag1: data.tag1,
       tag2: data.tag2,
       endpoint: data.endpoint,
@@ -1325,6 +1486,9 @@ async function handleNewFeedback(
         }
       : undefined
   );
+  if (data.atomEnabled) {
+    await recordReputationSnapshot(prisma, assetId, "feedback", clientAddress, data.feedbackIndex, ctx);
+  }
 
   logger.info(
     {
@@ -1407,18 +1571,21 @@ async function handleFeedbackRevokedTx(
     },
   });
 
+  const metrics: AgentAtomPatch = {
+    trustTier: data.newTrustTier,
+    qualityScore: data.newQualityScore,
+    confidence: data.newConfidence,
+  };
+  const superseded = await isSupersededTx(tx, assetId, "atom", ctx);
   await syncAgentFeedbackStatsTx(
     tx,
     assetId,
-    ctx.blockTime,
-    data.atomEnabled && data.hadImpact
-      ? {
-          trustTier: data.newTrustTier,
-          qualityScore: data.newQualityScore,
-          confidence: data.newConfidence,
-        }
-      : undefined
+    superseded ? null : ctx.blockTime,
+    data.atomEnabled && data.hadImpact && !superseded ? metrics : undefined
   );
+  if (data.atomEnabled && data.hadImpact) {
+    await recordReputationSnapshotTx(tx, assetId, "revoke", clientAddress, data.feedbackIndex, ctx, metrics);
+  }
 
   logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), orphan: !feedback, sealMismatch }, "Feedback revoked");
 }
@@ -1506,6 +1673,9 @@ async function handleFeedbackRevoked(
         }
       : undefined
   );
+  if (data.atomEnabled && data.hadImpact) {
+    await recordReputationSnapshot(prisma, assetId, "revoke", clientAddress, data.feedbackIndex, ctx);
+  }
 
   logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), orphan: !feedback, sealMismatch }, "Feedback revoked");
 }
@@ -1968,6 +2138,7 @@ async function digestAndStoreUriMetadataLocal(
     hash: result.hash,
     fieldCount: Object.keys(result.fields).length,
     truncatedKeys: result.truncatedKeys || false,
+    cidVerified: result.cidVerified,
   }));
 
   // Sync nftName from _uri:name if not already set
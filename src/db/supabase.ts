@@ -28,6 +28,10 @@ import { createChildLogger } from "../logger.js";
 import { config, ChainStatus } from "../config.js";
 import { DEFAULT_PUBKEY } from "../constants.js";
 import type { PoolClient } from "pg";
+import { enqueueWebhookDeliveriesPg } from "../webhooks/outbox.js";
+import { appendEventLogPg, hasLaterAgentEventPg, type AgentFieldGroup } from "./event-log.js";
+import { recordFeedbackActivity, recordRevocationActivity, recordResponseActivity } from "./feedback-activity.js";
+import { liveEvents } from "../indexer/live-events.js";
 
 const logger = createChildLogger("supabase-handlers");
 
@@ -39,6 +43,9 @@ export interface EventContext {
   slot: bigint;
   blockTime: Date;
   txIndex?: number; // Transaction index within the block (for deterministic ordering)
+  eventOrdinal?: number; // Event position within the transaction logs
+  rawEvent?: string | null; // base64 Anchor event payload, kept in the event log for replay
+  source?: "poller" | "websocket" | "backfill"; // Event source for cursor tracking (range backfills never move it)
 }
 
 let pool: Pool | null = null;
@@ -139,6 +146,10 @@ export function getPool(): Pool {
     // Initialize metadata queue with same pool
     metadataQueue.setPool(pool);
     collectionMetadataQueue.setPool(pool);
+    feedbackDocumentQueue.setPool(pool);
+    metadataQueue.start();
+    collectionMetadataQueue.start();
+    feedbackDocumentQueue.start();
     logger.info({ metadataMode: config.metadataIndexMode }, "Metadata extraction queue initialized");
   }
   return pool;
@@ -250,7 +261,7 @@ export async function handleEvent(
  */
 export async function handleEventAtomic(
   event: ProgramEvent,
-  ctx: EventContext & { source?: "poller" | "websocket" }
+  ctx: EventContext & { source?: "poller" | "websocket" | "backfill" }
 ): Promise<void> {
   const db = getPool();
   const client = await db.connect();
@@ -264,7 +275,13 @@ export async function handleEventAtomic(
     // Update cursor atomically with monotonic guard
     await updateCursorAtomic(client, ctx);
 
+    // Outbox: webhook deliveries commit (or roll back) with the event
+    await enqueueWebhookDeliveriesPg(client, event, ctx);
+
+    await appendEventLogPg(client, event, ctx);
+
     await client.query("COMMIT");
+    liveEvents.publishEvent(event, ctx);
   } catch (error: any) {
     await client.query("ROLLBACK");
     eventStats.errors++;
@@ -280,6 +297,55 @@ export async function handleEventAtomic(
   }
 }
 
+/**
+ * Re-apply a stored event to the derived tables only (reprojection), inside
+ * the caller's transaction. Cursor, outbox, event log and live bus are left alone.
+ */
+export async function reprojectEventTx(
+  client: PoolClient,
+  event: ProgramEvent,
+  ctx: EventContext
+): Promise<void> {
+  await handleEventInTx(client, event, ctx);
+}
+
+/**
+ * Whether a backfilled or repaired event is older than agent fields of `group`
+ * (the event log holds a later event that sets them). Live events never are.
+ */
+async function isSupersededTx(
+  client: PoolClient,
+  assetId: string,
+  group: AgentFieldGroup,
+  ctx: EventContext
+): Promise<boolean> {
+  if (ctx.source !== "backfill") return false;
+  return hasLaterAgentEventPg(client, assetId, group, ctx);
+}
+
+// Agent feedback aggregates over live, unrevoked feedbacks (assetParam: placeholder of the asset)
+function feedbackStatsSet(assetParam: string): string {
+  return `
+    feedback_count = COALESCE((
+      SELECT COUNT(*)::int
+      FROM feedbacks
+      WHERE asset = ${assetParam} AND NOT is_revoked AND status != 'ORPHANED'
+    ), 0),
+    raw_avg_score = COALESCE((
+      SELECT ROUND(AVG(score))::smallint
+      FROM feedbacks
+      WHERE asset = ${assetParam} AND NOT is_revoked AND status != 'ORPHANED'
+    ), 0)`;
+}
+
+/**
+ * Recompute an agent's feedback aggregates after its rows changed outside the
+ * event handlers (hash-chain repair)
+ */
+export async function syncAgentFeedbackStatsTx(client: PoolClient, assetId: string): Promise<void> {
+  await client.query(`UPDATE agents SET ${feedbackStatsSet("$1")} WHERE asset = $1`, [assetId]);
+}
+
 /**
  * Update indexer cursor with monotonic guard
  * Only advances if the new slot is greater than the current slot
@@ -288,6 +354,9 @@ async function updateCursorAtomic(
   client: PoolClient,
   ctx: EventContext & { source?: string }
 ): Promise<void> {
+  // Range backfills run beside the live indexer and must not move its cursor
+  if (ctx.source === "backfill") return;
+
   await client.query(
     `INSERT INTO indexer_state (id, last_signature, last_slot, source, updated_at)
      VALUES ('main', $1, $2, $3, NOW())
@@ -417,18 +486,23 @@ async function handleAgentRegisteredTx(
   const assetId = data.asset.toBase58();
   const collection = data.collection.toBase58();
   const agentUri = data.agentUri || null;
+  // Re-registering an existing agent from a backfill must not roll back later changes
+  const uriSuperseded = await isSupersededTx(client, assetId, "uri", ctx);
+  const ownerSuperseded = await isSupersededTx(client, assetId, "owner", ctx);
+  const atomSuperseded = await isSupersededTx(client, assetId, "atomEnabled", ctx);
+  const superseded = uriSuperseded || ownerSuperseded || atomSuperseded;
   await ensureCollectionTx(client, collection);
   await client.query(
     `INSERT INTO agents (asset, owner, creator, agent_uri, collection, canonical_col, col_locked, parent_asset, parent_creator, parent_locked, atom_enabled, block_slot, tx_index, tx_signature, created_at, status)
      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
      ON CONFLICT (asset) DO UPDATE SET
-       owner = EXCLUDED.owner,
+       owner = CASE WHEN $18::boolean THEN agents.owner ELSE EXCLUDED.owner END,
        creator = COALESCE(agents.creator, EXCLUDED.creator),
-       agent_uri = EXCLUDED.agent_uri,
-       atom_enabled = EXCLUDED.atom_enabled,
-       block_slot = EXCLUDED.block_slot,
-       tx_index = EXCLUDED.tx_index,
-       updated_at = EXCLUDED.created_at`,
+       agent_uri = CASE WHEN $17::boolean THEN agents.agent_uri ELSE EXCLUDED.agent_uri END,
+       atom_enabled = CASE WHEN $19::boolean THEN agents.atom_enabled ELSE EXCLUDED.atom_enabled END,
+       block_slot = CASE WHEN $20::boolean THEN agents.block_slot ELSE EXCLUDED.block_slot END,
+       tx_index = CASE WHEN $20::boolean THEN agents.tx_index ELSE EXCLUDED.tx_index END,
+       updated_at = CASE WHEN $20::boolean THEN agents.updated_at ELSE EXCLUDED.created_at END`,
     [
       assetId,
       data.owner.toBase58(),
@@ -446,13 +520,17 @@ async function handleAgentRegisteredTx(
       ctx.signature,
       ctx.blockTime.toISOString(),
       DEFAULT_STATUS,
+      uriSuperseded,
+      ownerSuperseded,
+      atomSuperseded,
+      superseded,
     ]
   );
   logger.info({ assetId, owner: data.owner.toBase58(), uri: agentUri }, "Agent registered");
 
   // Queue URI metadata extraction (fire-and-forget, runs after transaction commits)
-  if (agentUri && config.metadataIndexMode !== "off") {
-    metadataQueue.add(assetId, agentUri);
+  if (agentUri && !uriSuperseded && config.metadataIndexMode !== "off") {
+    metadataQueue.add(assetId, agentUri, { slot: ctx.slot, signature: ctx.signature });
   }
 }
 
@@ -462,6 +540,10 @@ async function handleAgentOwnerSyncedTx(
   ctx: EventContext
 ): Promise<void> {
   const assetId = data.asset.toBase58();
+  if (await isSupersededTx(client, assetId, "owner", ctx)) {
+    logger.debug({ assetId }, "Owner sync superseded by a later event, agent left unchanged");
+    return;
+  }
   await client.query(
     `UPDATE agents SET owner = $1, block_slot = $2, updated_at = $3 WHERE asset = $4`,
     [data.newOwner.toBase58(), ctx.slot.toString(), ctx.blockTime.toISOString(), assetId]
@@ -489,6 +571,10 @@ async function handleUriUpdatedTx(
 ): Promise<void> {
   const assetId = data.asset.toBase58();
   const newUri = data.newUri || null;
+  if (await isSupersededTx(client, assetId, "uri", ctx)) {
+    logger.debug({ assetId, newUri }, "URI update superseded by a later event, agent left unchanged");
+    return;
+  }
   await client.query(
     `UPDATE agents SET agent_uri = $1, block_slot = $2, updated_at = $3 WHERE asset = $4`,
     [newUri, ctx.slot.toString(), ctx.blockTime.toISOString(), assetId]
@@ -497,7 +583,7 @@ async function handleUriUpdatedTx(
 
   // Queue URI metadata extraction (fire-and-forget, runs after transaction commits)
   if (newUri && config.metadataIndexMode !== "off") {
-    metadataQueue.add(assetId, newUri);
+    metadataQueue.add(assetId, newUri, { slot: ctx.slot, signature: ctx.signature });
   }
 }
 
@@ -509,6 +595,10 @@ async function handleWalletUpdatedTx(
   const assetId = data.asset.toBase58();
   const newWalletRaw = data.newWallet.toBase58();
   const newWallet = newWalletRaw === DEFAULT_PUBKEY ? null : newWalletRaw;
+  if (await isSupersededTx(client, assetId, "wallet", ctx)) {
+    logger.debug({ assetId }, "Wallet update superseded by a later event, agent left unchanged");
+    return;
+  }
   await client.query(
     `UPDATE agents SET agent_wallet = $1, block_slot = $2, updated_at = $3 WHERE asset = $4`,
     [newWallet, ctx.slot.toString(), ctx.blockTime.toISOString(), assetId]
@@ -524,9 +614,23 @@ async function handleWalletResetOnOwnerSyncTx(
   const assetId = data.asset.toBase58();
   const newWalletRaw = data.newWallet.toBase58();
   const newWallet = newWalletRaw === DEFAULT_PUBKEY ? null : newWalletRaw;
+  const ownerSuperseded = await isSupersededTx(client, assetId, "owner", ctx);
+  const walletSuperseded = await isSupersededTx(client, assetId, "wallet", ctx);
+  if (ownerSuperseded && walletSuperseded) {
+    logger.debug({ assetId }, "Wallet reset superseded by later events, agent left unchanged");
+    return;
+  }
   await client.query(
-    `UPDATE agents SET owner = $1, agent_wallet = $2, block_slot = $3, updated_at = $4 WHERE asset = $5`,
-    [data.ownerAfterSync.toBase58(), newWallet, ctx.slot.toString(), ctx.blockTime.toISOString(), assetId]
+    `UPDATE agents SET
+       owner = CASE WHEN $6::boolean THEN owner ELSE $1 END,
+       agent_wallet = CASE WHEN $7::boolean THEN agent_wallet ELSE $2 END,
+       block_slot = $3,
+       updated_at = $4
+     WHERE asset = $5`,
+    [
+      data.ownerAfterSync.toBase58(), newWallet, ctx.slot.toString(), ctx.blockTime.toISOString(), assetId,
+      ownerSuperseded, walletSuperseded,
+    ]
   );
   logger.info({ assetId, ownerAfterSync: data.ownerAfterSync.toBase58(), newWallet: newWallet ?? "(reset)" }, "Wallet reset on owner sync");
 }
@@ -539,6 +643,19 @@ async function handleCollectionPointerSetTx(
   const assetId = data.asset.toBase58();
   const pointer = data.col;
   const setBy = data.setBy.toBase58();
+  if (await isSupersededTx(client, assetId, "collectionPointer", ctx)) {
+    await client.query(
+      `INSERT INTO collection_pointers (
+         col, creator, first_seen_asset, first_seen_at, first_seen_slot, first_seen_tx_signature,
+         last_seen_at, last_seen_slot, last_seen_tx_signature, asset_count
+       )
+       VALUES ($2, $3, $1, $5, $4, $6, $5, $4, $6, 0)
+       ON CONFLICT (col, creator) DO NOTHING`,
+      [assetId, pointer, setBy, ctx.slot.toString(), ctx.blockTime.toISOString(), ctx.signature]
+    );
+    logger.debug({ assetId, col: pointer }, "Collection pointer superseded by a later event, agent left unchanged");
+    return;
+  }
   await client.query(
     `WITH previous AS (
        SELECT canonical_col AS prev_col, COALESCE(creator, owner) AS prev_creator
@@ -600,6 +717,10 @@ async function handleParentAssetSetTx(
   ctx: EventContext
 ): Promise<void> {
   const assetId = data.asset.toBase58();
+  if (await isSupersededTx(client, assetId, "parent", ctx)) {
+    logger.debug({ assetId }, "Parent asset set superseded by a later event, agent left unchanged");
+    return;
+  }
   await client.query(
     `UPDATE agents
      SET parent_asset = $1,
@@ -678,6 +799,37 @@ async function handleRegistryInitializedTx(
   logger.info({ collection }, "Registry initialized");
 }
 
+// Metrics carried by the event win over the agent row, which is newer for backfills
+const REPUTATION_SNAPSHOT_SQL = `INSERT INTO reputation_snapshots (asset, event_type, client_address, feedback_index, block_slot, tx_signature, block_time,
+     trust_tier, quality_score, confidence, risk_score, diversity_ratio)
+   SELECT asset, $2, $3, $4, $5, $6, $7,
+     COALESCE($8::smallint, trust_tier), COALESCE($9::int, quality_score), COALESCE($10::int, confidence),
+     COALESCE($11::smallint, risk_score), COALESCE($12::smallint, diversity_ratio)
+   FROM agents WHERE asset = $1
+   ON CONFLICT (asset, event_type, client_address, feedback_index) DO NOTHING`;
+
+interface ReputationMetrics {
+  trustTier: number;
+  qualityScore: number;
+  confidence: number;
+  riskScore?: number;
+  diversityRatio?: number;
+}
+
+function reputationSnapshotParams(
+  assetId: string,
+  eventType: "feedback" | "revoke",
+  clientAddress: string,
+  feedbackIndex: bigint,
+  ctx: EventContext,
+  metrics: ReputationMetrics
+): unknown[] {
+  return [
+    assetId, eventType, clientAddress, feedbackIndex.toString(), ctx.slot.toString(), ctx.signature, ctx.blockTime.toISOString(),
+    metrics.trustTier, metrics.qualityScore, metrics.confidence, metrics.riskScore ?? null, metrics.diversityRatio ?? null,
+  ];
+}
+
 async function handleNewFeedbackTx(
   client: PoolClient,
   data: NewFeedback,
@@ -694,13 +846,13 @@ async function handleNewFeedbackTx(
     ? Buffer.from(data.newFeedbackDigest)
     : null;
   const insertResult = await client.query(
-    `INSERT INTO feedbacks (id, asset, client_address, feedback_index, value, value_decimals, score, tag1, tag2, endpoint, feedback_uri, feedback_hash,
+    `INSERT INTO feedbacks (id, asset, client_address, feedback_index, value, value_decimals, score, is_unique_client, tag1, tag2, endpoint, feedback_uri, feedback_hash,
        running_digest, is_revoked, block_slot, tx_index, tx_signature, created_at, status)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
      ON CONFLICT (id) DO NOTHING`,
     [
       id, assetId, clientAddress, data.feedbackIndex.toString(),
-      data.value.toString(), data.valueDecimals, data.score,
+      data.value.toString(), data.valueDecimals, data.score, data.atomEnabled ? data.isUniqueClient : null,
       data.tag1 || null, data.tag2 || null, data.endpoint || null, data.feedbackUri || null,
       feedbackHash, runningDigest,
       false, ctx.slot.toString(), ctx.txIndex ?? null, ctx.signature, ctx.blockTime.toISOString(), DEFAULT_STATUS
@@ -710,20 +862,13 @@ async function handleNewFeedbackTx(
     logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString() }, "Duplicate feedback ignored");
     return;
   }
+  await recordFeedbackActivity(client, assetId, clientAddress, data.tag1 || null, data.value, data.valueDecimals, ctx.blockTime);
+  const superseded = await isSupersededTx(client, assetId, "atom", ctx);
   const baseUpdate = `
-    feedback_count = COALESCE((
-      SELECT COUNT(*)::int
-      FROM feedbacks
-      WHERE asset = $2 AND NOT is_revoked
-    ), 0),
-    raw_avg_score = COALESCE((
-      SELECT ROUND(AVG(score))::smallint
-      FROM feedbacks
-      WHERE asset = $2 AND NOT is_revoked
-    ), 0),
-    updated_at = $1
+    ${feedbackStatsSet("$2")},
+    updated_at = COALESCE($1, updated_at)
   `;
-  if (data.atomEnabled) {
+  if (data.atomEnabled && !superseded) {
     await client.query(
       `UPDATE agents SET
          trust_tier = $3,
@@ -748,9 +893,22 @@ async function handleNewFeedbackTx(
       `UPDATE agents SET
          ${baseUpdate}
        WHERE asset = $2`,
-      [ctx.blockTime.toISOString(), assetId]
+      [superseded ? null : ctx.blockTime.toISOString(), assetId]
     );
   }
+  if (data.atomEnabled) {
+    await client.query(REPUTATION_SNAPSHOT_SQL, reputationSnapshotParams(assetId, "feedback", clientAddress, data.feedbackIndex, ctx, {
+      trustTier: data.newTrustTier,
+      qualityScore: data.newQualityScore,
+      confidence: data.newConfidence,
+      riskScore: data.newRiskScore,
+      diversityRatio: data.newDiversityRatio,
+    }));
+  }
+  // Queue feedback file fetch (fire-and-forget, runs after transaction commits)
+  feedbackDocumentQueue.add({
+    id, kind: "feedback", asset: assetId, uri: data.feedbackUri, expectedHash: fileHashHex(data.feedbackFileHash),
+  });
   logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), score: data.score, trustTier: data.newTrustTier }, "New feedback");
 }
 
@@ -802,7 +960,7 @@ async function handleFeedbackRevokedTx(
     ? Buffer.from(data.sealHash).toString("hex")
     : null;
   const revokeId = `${assetId}:${clientAddress}:${data.feedbackIndex}`;
-  await client.query(
+  const revokeInsert = await client.query(
     `INSERT INTO revocations (id, asset, client_address, feedback_index, feedback_hash, slot, original_score, atom_enabled, had_impact, running_digest, revoke_count, tx_signature, created_at, status)
      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
      ON CONFLICT (asset, client_address, feedback_index) DO UPDATE SET
@@ -814,33 +972,29 @@ async function handleFeedbackRevokedTx(
        running_digest = EXCLUDED.running_digest,
        revoke_count = EXCLUDED.revoke_count,
        tx_signature = EXCLUDED.tx_signature,
-       status = EXCLUDED.status`,
+       status = EXCLUDED.status
+       RETURNING (xmax = 0) AS inserted`,
     [revokeId, assetId, clientAddress, data.feedbackIndex.toString(), revokeSealHash,
      data.slot.toString(), data.originalScore, data.atomEnabled, data.hadImpact,
      revokeDigest, data.newRevokeCount.toString(), ctx.signature, ctx.blockTime.toISOString(),
      isOrphan ? "ORPHANED" : DEFAULT_STATUS]
   );
+  if (!isOrphan && revokeInsert.rows?.[0]?.inserted) {
+    await recordRevocationActivity(client, assetId, clientAddress, data.feedbackIndex, ctx.blockTime);
+  }
 
   const baseUpdate = `
-    feedback_count = COALESCE((
-      SELECT COUNT(*)::int
-      FROM feedbacks
-      WHERE asset = $2 AND NOT is_revoked
-    ), 0),
-    raw_avg_score = COALESCE((
-      SELECT ROUND(AVG(score))::smallint
-      FROM feedbacks
-      WHERE asset = $2 AND NOT is_revoked
-    ), 0),
-    updated_at = $1
+    ${feedbackStatsSet("$2")},
+    updated_at = COALESCE($1, updated_at)
   `;
+  const superseded = await isSupersededTx(client, assetId, "atom", ctx);
   await client.query(
     `UPDATE agents SET
        ${baseUpdate}
      WHERE asset = $2`,
-    [ctx.blockTime.toISOString(), assetId]
+    [superseded ? null : ctx.blockTime.toISOString(), assetId]
   );
-  if (data.atomEnabled && data.hadImpact) {
+  if (data.atomEnabled && data.hadImpact && !superseded) {
     await client.query(
       `UPDATE agents SET
          trust_tier = $3,
@@ -851,6 +1005,13 @@ async function handleFeedbackRevokedTx(
       [ctx.blockTime.toISOString(), assetId, data.newTrustTier, data.newQualityScore, data.newConfidence]
     );
   }
+  if (data.atomEnabled && data.hadImpact) {
+    await client.query(REPUTATION_SNAPSHOT_SQL, reputationSnapshotParams(assetId, "revoke", clientAddress, data.feedbackIndex, ctx, {
+      trustTier: data.newTrustTier,
+      qualityScore: data.newQualityScore,
+      confidence: data.newConfidence,
+    }));
+  }
   logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), hadImpact: data.hadImpact, orphan: isOrphan }, "Feedback revoked");
 }
 
@@ -904,7 +1065,7 @@ async function handleResponseAppendedTx(
   }
   const responseStatus = sealMismatch ? "ORPHANED" : DEFAULT_STATUS;
 
-  await client.query(
+  const responseInsert = await client.query(
     `INSERT INTO feedback_responses (id, asset, client_address, feedback_index, responder, response_uri, response_hash, running_digest, response_count, block_slot, tx_index, tx_signature, created_at, status)
      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
      ON CONFLICT (id) DO NOTHING`,
@@ -912,6 +1073,12 @@ async function handleResponseAppendedTx(
      responseHash, responseRunningDigest, data.newResponseCount.toString(),
      ctx.slot.toString(), ctx.txIndex ?? null, ctx.signature, ctx.blockTime.toISOString(), responseStatus]
   );
+  if (!sealMismatch && responseInsert.rowCount) {
+    await recordResponseActivity(client, assetId, clientAddress, data.feedbackIndex, ctx.blockTime);
+    feedbackDocumentQueue.add({
+      id, kind: "response", asset: assetId, uri: data.responseUri, expectedHash: fileHashHex(data.responseHash),
+    });
+  }
   logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), responder }, "Response appended");
 }
 
@@ -1316,13 +1483,13 @@ async function handleNewFeedback(
       ? Buffer.from(data.newFeedbackDigest)
       : null;
     const insertResult = await db.query(
-      `INSERT INTO feedbacks (id, asset, client_address, feedback_index, value, value_decimals, score, tag1, tag2, endpoint, feedback_uri, feedback_hash,
+      `INSERT INTO feedbacks (id, asset, client_address, feedback_index, value, value_decimals, score, is_unique_client, tag1, tag2, endpoint, feedback_uri, feedback_hash,
          running_digest, is_revoked, block_slot, tx_index, tx_signature, created_at, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
        ON CONFLICT (id) DO NOTHING`,
       [
         id, assetId, clientAddress, data.feedbackIndex.toString(),
-        data.value.toString(), data.valueDecimals, data.score,
+        data.value.toString(), data.valueDecimals, data.score, data.atomEnabled ? data.isUniqueClient : null,
         data.tag1 || null, data.tag2 || null, data.endpoint || null, data.feedbackUri || null,
         feedbackHash, runningDigest,
         false, ctx.slot.toString(), ctx.txIndex ?? null, ctx.signature, ctx.blockTime.toISOString(), DEFAULT_STATUS
@@ -1333,18 +1500,10 @@ async function handleNewFeedback(
       logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString() }, "Duplicate feedback ignored");
       return;
     }
+    await recordFeedbackActivity(db, assetId, clientAddress, data.tag1 || null, data.value, data.valueDecimals, ctx.blockTime);
 
     const baseUpdate = `
-      feedback_count = COALESCE((
-        SELECT COUNT(*)::int
-        FROM feedbacks
-        WHERE asset = $2 AND NOT is_revoked
-      ), 0),
-      raw_avg_score = COALESCE((
-        SELECT ROUND(AVG(score))::smallint
-        FROM feedbacks
-        WHERE asset = $2 AND NOT is_revoked
-      ), 0),
+      ${feedbackStatsSet("$2")},
       updated_at = $1
     `;
 
@@ -1377,6 +1536,19 @@ async function handleNewFeedback(
       );
     }
 
+    if (data.atomEnabled) {
+      await db.query(REPUTATION_SNAPSHOT_SQL, reputationSnapshotParams(assetId, "feedback", clientAddress, data.feedbackIndex, ctx, {
+        trustTier: data.newTrustTier,
+        qualityScore: data.newQualityScore,
+        confidence: data.newConfidence,
+        riskScore: data.newRiskScore,
+        diversityRatio: data.newDiversityRatio,
+      }));
+    }
+
+    feedbackDocumentQueue.add({
+      id, kind: "feedback", asset: assetId, uri: data.feedbackUri, expectedHash: fileHashHex(data.feedbackFileHash),
+    });
     logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), score: data.score, trustTier: data.newTrustTier }, "New feedback");
   } catch (error: any) {
     logger.error({ error: error.message, assetId, feedbackIndex: data.feedbackIndex }, "Failed to save feedback");
@@ -1431,7 +1603,7 @@ async function handleFeedbackRevoked(
     const revokeSealHash = data.sealHash
       ? Buffer.from(data.sealHash).toString("hex")
       : null;
-    await db.query(
+    const revokeInsert = await db.query(
       `INSERT INTO revocations (id, asset, client_address, feedback_index, feedback_hash, slot, original_score, atom_enabled, had_impact, running_digest, revoke_count, tx_signature, created_at, status)
        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
        ON CONFLICT (asset, client_address, feedback_index) DO UPDATE SET
@@ -1443,24 +1615,19 @@ async function handleFeedbackRevoked(
          running_digest = EXCLUDED.running_digest,
          revoke_count = EXCLUDED.revoke_count,
          tx_signature = EXCLUDED.tx_signature,
-         status = EXCLUDED.status`,
+         status = EXCLUDED.status
+         RETURNING (xmax = 0) AS inserted`,
       [id, assetId, clientAddress, data.feedbackIndex.toString(), revokeSealHash,
        data.slot.toString(), data.originalScore, data.atomEnabled, data.hadImpact,
        revokeDigest, data.newRevokeCount.toString(), ctx.signature, ctx.blockTime.toISOString(),
        isOrphan ? "ORPHANED" : DEFAULT_STATUS]
     );
+    if (!isOrphan && revokeInsert.rows?.[0]?.inserted) {
+      await recordRevocationActivity(db, assetId, clientAddress, data.feedbackIndex, ctx.blockTime);
+    }
 
     const baseUpdate = `
-      feedback_count = COALESCE((
-        SELECT COUNT(*)::int
-        FROM feedbacks
-        WHERE asset = $2 AND NOT is_revoked
-      ), 0),
-      raw_avg_score = COALESCE((
-        SELECT ROUND(AVG(score))::smallint
-        FROM feedbacks
-        WHERE asset = $2 AND NOT is_revoked
-      ), 0),
+      ${feedbackStatsSet("$2")},
       updated_at = $1
     `;
 
@@ -1481,6 +1648,11 @@ async function handleFeedbackRevoked(
          WHERE asset = $2`,
         [ctx.blockTime.toISOString(), assetId, data.newTrustTier, data.newQualityScore, data.newConfidence]
       );
+      await db.query(REPUTATION_SNAPSHOT_SQL, reputationSnapshotParams(assetId, "revoke", clientAddress, data.feedbackIndex, ctx, {
+        trustTier: data.newTrustTier,
+        qualityScore: data.newQualityScore,
+        confidence: data.newConfidence,
+      }));
     }
 
     logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), hadImpact: data.hadImpact, orphan: isOrphan }, "Feedback revoked");
@@ -1541,7 +1713,7 @@ async function handleResponseAppended(
     }
     const responseStatus = sealMismatch ? "ORPHANED" : DEFAULT_STATUS;
 
-    await db.query(
+    const responseInsert = await db.query(
       `INSERT INTO feedback_responses (id, asset, client_address, feedback_index, responder, response_uri, response_hash, running_digest, response_count, block_slot, tx_index, tx_signature, created_at, status)
        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
        ON CONFLICT (id) DO NOTHING`,
@@ -1549,6 +1721,12 @@ async function handleResponseAppended(
        responseHash, responseRunningDigest, data.newResponseCount.toString(),
        ctx.slot.toString(), ctx.txIndex ?? null, ctx.signature, ctx.blockTime.toISOString(), responseStatus]
     );
+    if (!sealMismatch && responseInsert.rowCount) {
+      await recordResponseActivity(db, assetId, clientAddress, data.feedbackIndex, ctx.blockTime);
+      feedbackDocumentQueue.add({
+        id, kind: "response", asset: assetId, uri: data.responseUri, expectedHash: fileHashHex(data.responseHash),
+      });
+    }
     logger.info({ assetId, feedbackIndex: data.feedbackIndex.toString(), responder }, "Response appended");
   } catch (error: any) {
     logger.error({ error: error.message, assetId, feedbackIndex: data.feedbackIndex }, "Failed to append response");
@@ -1690,6 +1868,7 @@ import { compressForStorage } from "../utils/compression.js";
 import { stripNullBytes } from "../utils/sanitize.js";
 import { metadataQueue } from "../indexer/metadata-queue.js";
 import { collectionMetadataQueue } from "../indexer/collection-metadata-queue.js";
+import { feedbackDocumentQueue, fileHashHex } from "../indexer/feedback-document-queue.js";
 
 /**
  * Fetch, digest, and store URI metadata for an agent
@@ -1780,6 +1959,7 @@ async function digestAndStoreUriMetadata(assetId: string, uri: string): Promise<
     hash: result.hash,
     fieldCount: Object.keys(result.fields).length,
     truncatedKeys: result.truncatedKeys || false,
+    cidVerified: result.cidVerified,
   }));
 
   // Sync nft_name from _uri:name if not already set
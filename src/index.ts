@@ -1,16 +1,18 @@
 import { PrismaClient } from "@prisma/client";
-import { Connection } from "@solana/web3.js";
 import { Server } from "http";
 import { getBaseCollection } from "8004-solana";
 import { config, validateConfig, runtimeConfig } from "./config.js";
 import { logger } from "./logger.js";
 import { Processor } from "./indexer/processor.js";
+import { getRpcPool } from "./indexer/rpc-pool.js";
 import { startApiServer } from "./api/server.js";
 import { cleanupOrphanResponses } from "./db/handlers.js";
 import { getPool } from "./db/supabase.js";
+import { ensureLocalSearchIndex } from "./services/agent-search.js";
 import { IDL_VERSION, IDL_PROGRAM_ID } from "./parser/decoder.js";
 import { metadataQueue } from "./indexer/metadata-queue.js";
 import { collectionMetadataQueue } from "./indexer/collection-metadata-queue.js";
+import { feedbackDocumentQueue } from "./indexer/feedback-document-queue.js";
 
 async function main() {
   try {
@@ -31,7 +33,7 @@ async function main() {
     {
       programId: config.programId,
       idlVersion: IDL_VERSION,
-      rpcUrl: config.rpcUrl,
+      rpcEndpoints: config.rpcEndpoints.map((e) => e.name),
       indexerMode: config.indexerMode,
       dbMode: config.dbMode,
     },
@@ -39,7 +41,7 @@ async function main() {
   );
 
   // Fetch base collection from on-chain using SDK
-  const connection = new Connection(config.rpcUrl, "confirmed");
+  const connection = getRpcPool().connection;
   try {
     const baseCollection = await getBaseCollection(connection);
 
@@ -67,6 +69,9 @@ async function main() {
       logger.info("Database connected (SQLite via Prisma)");
       // Cleanup old orphan responses at startup (> 30 min)
       await cleanupOrphanResponses(prisma);
+      if (await ensureLocalSearchIndex(prisma)) {
+        logger.info("Created agent_search_fts full-text index");
+      }
     } catch (error) {
       logger.fatal({ error }, "Failed to connect to database");
       process.exit(1);
@@ -120,7 +125,7 @@ async function main() {
   let apiServer: Server | null = null;
   if (canServeRest || canServeGraphql) {
     const apiPort = parseInt(process.env.API_PORT || "3001");
-    apiServer = await startApiServer({ prisma, pool, port: apiPort });
+    apiServer = await startApiServer({ prisma, pool, port: apiPort, processor, connection });
     logger.info(
       {
         apiPort,
@@ -141,8 +146,11 @@ async function main() {
     logger.info({ signal }, "Shutdown signal received");
 
     try {
-      metadataQueue.shutdown();
-      collectionMetadataQueue.shutdown();
+      await Promise.all([
+        metadataQueue.shutdown(),
+        collectionMetadataQueue.shutdown(),
+        feedbackDocumentQueue.shutdown(),
+      ]);
       await processor.stop();
       if (apiServer) {
         await new Promise<void>((resolve, reject) => {
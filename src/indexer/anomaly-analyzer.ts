@@ -0,0 +1,471 @@
+/**
+ * Anomaly analyzer - background detection of sybil-like feedback patterns
+ *
+ * Each cycle looks at the feedbacks and revocations of the last
+ * ANOMALY_WINDOW_MS for every agent active in that window and keeps one
+ * AgentAnomaly / agent_anomalies row per (agent, kind) while a pattern holds:
+ *
+ * - client_concentration: many feedbacks from few client wallets
+ * - client_cohort: a burst of first-time clients within a narrow slot range.
+ *   A client's first feedback slot stands in for its creation slot.
+ * - revoke_churn: a high share of revocations
+ * - value_outlier: values far from the agent's median (MAD test)
+ *
+ * Flags are recomputed from scratch: a row whose pattern no longer holds is
+ * deleted. Evidence is the JSON the rule decided on.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { Pool } from "pg";
+import { config } from "../config.js";
+import { createChildLogger } from "../logger.js";
+
+const logger = createChildLogger("anomaly-analyzer");
+
+export type AnomalyKind = "client_concentration" | "client_cohort" | "revoke_churn" | "value_outlier";
+export type AnomalySeverity = "low" | "medium" | "high";
+
+export const ANOMALY_KINDS: readonly AnomalyKind[] = [
+  "client_concentration",
+  "client_cohort",
+  "revoke_churn",
+  "value_outlier",
+];
+
+// Rule thresholds
+const CONCENTRATION_MIN_FEEDBACKS = 10;
+const CONCENTRATION_MAX_CLIENT_RATIO = 0.25;
+const CONCENTRATION_HIGH_CLIENT_RATIO = 0.1;
+const COHORT_SLOT_SPAN = 150n; // ~1 minute
+const COHORT_MIN_CLIENTS = 5;
+const COHORT_HIGH_CLIENTS = 15;
+const CHURN_MIN_REVOCATIONS = 5;
+const CHURN_MIN_RATIO = 0.3;
+const CHURN_HIGH_RATIO = 0.6;
+const OUTLIER_MIN_FEEDBACKS = 10;
+const OUTLIER_MAD_FACTOR = 5;
+const OUTLIER_MIN_COUNT = 3;
+const OUTLIER_MIN_SHARE = 0.1;
+const OUTLIER_HIGH_SHARE = 0.3;
+const MAX_EVIDENCE_ITEMS = 10;
+
+export interface AnomalyFeedback {
+  client: string;
+  feedbackIndex: bigint;
+  value: string;
+  valueDecimals: number;
+  slot: bigint | null;
+  isUniqueClient: boolean | null;
+}
+
+export interface AnomalyInput {
+  feedbacks: AnomalyFeedback[];
+  revocations: { client: string; feedbackIndex: bigint }[];
+  // First feedback slot of each client across all agents
+  clientFirstSlots: Map<string, bigint>;
+  riskScore: number | null;
+  diversityRatio: number | null;
+}
+
+export interface AnomalyFlag {
+  kind: AnomalyKind;
+  severity: AnomalySeverity;
+  score: number;
+  evidence: Record<string, unknown>;
+}
+
+interface AnalyzerStats {
+  agentsAnalyzed: number;
+  flagsRaised: number;
+  lastRunAt: Date | null;
+}
+
+function topCounts(clients: string[]): { client: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const client of clients) counts.set(client, (counts.get(client) ?? 0) + 1);
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_EVIDENCE_ITEMS)
+    .map(([client, count]) => ({ client, count }));
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function detectConcentration(input: AnomalyInput): AnomalyFlag | null {
+  const total = input.feedbacks.length;
+  if (total < CONCENTRATION_MIN_FEEDBACKS) return null;
+  const clients = input.feedbacks.map((f) => f.client);
+  const clientRatio = new Set(clients).size / total;
+  if (clientRatio > CONCENTRATION_MAX_CLIENT_RATIO) return null;
+
+  const flagged = input.feedbacks.filter((f) => f.isUniqueClient !== null);
+  return {
+    kind: "client_concentration",
+    severity: clientRatio <= CONCENTRATION_HIGH_CLIENT_RATIO ? "high" : "medium",
+    score: round(1 - clientRatio),
+    evidence: {
+      feedbacks: total,
+      clients: new Set(clients).size,
+      clientRatio: round(clientRatio),
+      topClients: topCounts(clients),
+      uniqueClientShare: flagged.length > 0
+        ? round(flagged.filter((f) => f.isUniqueClient).length / flagged.length)
+        : null,
+      diversityRatio: input.diversityRatio,
+      riskScore: input.riskScore,
+    },
+  };
+}
+
+function detectCohort(input: AnomalyInput): AnomalyFlag | null {
+  // Clients whose first feedback anywhere is a feedback to this agent in the window
+  const fresh: { client: string; slot: bigint }[] = [];
+  const seen = new Set<string>();
+  for (const f of input.feedbacks) {
+    if (f.slot === null || seen.has(f.client)) continue;
+    if (input.clientFirstSlots.get(f.client) === f.slot) {
+      fresh.push({ client: f.client, slot: f.slot });
+      seen.add(f.client);
+    }
+  }
+  fresh.sort((a, b) => (a.slot < b.slot ? -1 : a.slot > b.slot ? 1 : 0));
+
+  let best = { start: 0, end: 0 };
+  for (let start = 0, end = 0; end < fresh.length; end++) {
+    while (fresh[end].slot - fresh[start].slot > COHORT_SLOT_SPAN) start++;
+    if (end - start > best.end - best.start) best = { start, end };
+  }
+  const cohort = fresh.slice(best.start, best.end + 1);
+  if (cohort.length < COHORT_MIN_CLIENTS) return null;
+
+  const clients = new Set(input.feedbacks.map((f) => f.client)).size;
+  return {
+    kind: "client_cohort",
+    severity: cohort.length >= COHORT_HIGH_CLIENTS ? "high" : "medium",
+    score: round(cohort.length / clients),
+    evidence: {
+      cohortSize: cohort.length,
+      clients,
+      slotStart: cohort[0].slot.toString(),
+      slotEnd: cohort[cohort.length - 1].slot.toString(),
+      sampleClients: cohort.slice(0, MAX_EVIDENCE_ITEMS).map((c) => c.client),
+    },
+  };
+}
+
+function detectChurn(input: AnomalyInput): AnomalyFlag | null {
+  const revocations = input.revocations.length;
+  if (revocations < CHURN_MIN_REVOCATIONS) return null;
+  const revokeRatio = revocations / Math.max(input.feedbacks.length, revocations);
+  if (revokeRatio < CHURN_MIN_RATIO) return null;
+
+  return {
+    kind: "revoke_churn",
+    severity: revokeRatio >= CHURN_HIGH_RATIO ? "high" : "medium",
+    score: round(revokeRatio),
+    evidence: {
+      feedbacks: input.feedbacks.length,
+      revocations,
+      revokeRatio: round(revokeRatio),
+      topRevokers: topCounts(input.revocations.map((r) => r.client)),
+    },
+  };
+}
+
+function detectValueOutliers(input: AnomalyInput): AnomalyFlag | null {
+  if (input.feedbacks.length < OUTLIER_MIN_FEEDBACKS) return null;
+  const values = input.feedbacks.map((f) => Number(f.value) / 10 ** f.valueDecimals);
+  const med = median([...values].sort((a, b) => a - b));
+  const mad = median(values.map((v) => Math.abs(v - med)).sort((a, b) => a - b));
+  // Mostly identical values: the test is meaningless
+  if (mad === 0) return null;
+
+  const outliers = input.feedbacks
+    .map((f, i) => ({ f, value: values[i] }))
+    .filter(({ value }) => Math.abs(value - med) > OUTLIER_MAD_FACTOR * mad);
+  const share = outliers.length / input.feedbacks.length;
+  if (outliers.length < OUTLIER_MIN_COUNT || share < OUTLIER_MIN_SHARE) return null;
+
+  return {
+    kind: "value_outlier",
+    severity: share >= OUTLIER_HIGH_SHARE ? "high" : share >= 2 * OUTLIER_MIN_SHARE ? "medium" : "low",
+    score: round(share),
+    evidence: {
+      feedbacks: input.feedbacks.length,
+      median: med,
+      mad,
+      outlierCount: outliers.length,
+      outliers: outliers.slice(0, MAX_EVIDENCE_ITEMS).map(({ f, value }) => ({
+        client: f.client,
+        feedbackIndex: f.feedbackIndex.toString(),
+        value,
+      })),
+    },
+  };
+}
+
+/**
+ * Run every rule over one agent's window
+ */
+export function detectAnomalies(input: AnomalyInput): AnomalyFlag[] {
+  return [
+    detectConcentration(input),
+    detectCohort(input),
+    detectChurn(input),
+    detectValueOutliers(input),
+  ].filter((flag): flag is AnomalyFlag => flag !== null);
+}
+
+export class AnomalyAnalyzer {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private cycleInProgress = false; // Reentrancy guard for async cycles
+  private stats: AnalyzerStats = {
+    agentsAnalyzed: 0,
+    flagsRaised: 0,
+    lastRunAt: null,
+  };
+
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null,
+    private intervalMs = config.anomalyIntervalMs,
+    private windowMs = config.anomalyWindowMs
+  ) {}
+
+  async start(): Promise<void> {
+    this.isRunning = true;
+    logger.info({ intervalMs: this.intervalMs, windowMs: this.windowMs }, "Starting anomaly analyzer");
+
+    this.interval = setInterval(() => {
+      this.analyze().catch((err) => {
+        logger.error({ error: err.message }, "Anomaly analysis cycle failed");
+      });
+    }, this.intervalMs);
+  }
+
+  async stop(): Promise<void> {
+    logger.info("Stopping anomaly analyzer");
+    this.isRunning = false;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  getStats(): AnalyzerStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Run one cycle. Returns the number of agents analyzed.
+   */
+  async analyze(now = new Date()): Promise<number> {
+    if (!this.isRunning || this.cycleInProgress) return 0;
+
+    this.cycleInProgress = true;
+    try {
+      const since = new Date(now.getTime() - this.windowMs);
+      const agents = await this.listCandidates(since);
+      let flags = 0;
+
+      for (const agentId of agents) {
+        if (!this.isRunning) break;
+        try {
+          const detected = detectAnomalies(await this.loadInput(agentId, since));
+          await this.saveFlags(agentId, detected);
+          flags += detected.length;
+        } catch (error: any) {
+          logger.error({ agentId, error: error.message }, "Failed to analyze agent");
+        }
+      }
+
+      this.stats.agentsAnalyzed += agents.length;
+      this.stats.flagsRaised += flags;
+      this.stats.lastRunAt = new Date();
+      logger.info({ agents: agents.length, flags }, "Anomaly analysis cycle complete");
+      return agents.length;
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+
+  /**
+   * Agents with activity in the window, plus currently flagged agents so
+   * stale flags get cleared
+   */
+  private async listCandidates(since: Date): Promise<string[]> {
+    if (this.prisma) {
+      const [feedbacks, revocations, flagged] = await Promise.all([
+        this.prisma.feedback.findMany({
+          where: { createdAt: { gte: since }, status: { not: "ORPHANED" } },
+          distinct: ["agentId"],
+          select: { agentId: true },
+        }),
+        this.prisma.revocation.findMany({
+          where: { createdAt: { gte: since }, status: { not: "ORPHANED" } },
+          distinct: ["agentId"],
+          select: { agentId: true },
+        }),
+        this.prisma.agentAnomaly.findMany({
+          distinct: ["agentId"],
+          select: { agentId: true },
+        }),
+      ]);
+      return [...new Set([...feedbacks, ...revocations, ...flagged].map((r) => r.agentId))];
+    } else if (this.pool) {
+      const result = await this.pool.query(
+        `SELECT asset FROM feedbacks WHERE created_at >= $1 AND status != 'ORPHANED'
+         UNION
+         SELECT asset FROM revocations WHERE created_at >= $1 AND status != 'ORPHANED'
+         UNION
+         SELECT asset FROM agent_anomalies`,
+        [since.toISOString()]
+      );
+      return result.rows.map((row) => row.asset);
+    }
+    return [];
+  }
+
+  private async loadInput(agentId: string, since: Date): Promise<AnomalyInput> {
+    if (this.prisma) {
+      const [feedbacks, revocations, agent] = await Promise.all([
+        this.prisma.feedback.findMany({
+          where: { agentId, createdAt: { gte: since }, status: { not: "ORPHANED" } },
+          select: { client: true, feedbackIndex: true, value: true, valueDecimals: true, createdSlot: true, isUniqueClient: true },
+        }),
+        this.prisma.revocation.findMany({
+          where: { agentId, createdAt: { gte: since }, status: { not: "ORPHANED" } },
+          select: { client: true, feedbackIndex: true },
+        }),
+        this.prisma.agent.findUnique({
+          where: { id: agentId },
+          select: { riskScore: true, diversityRatio: true },
+        }),
+      ]);
+      const firstSlots = feedbacks.length > 0
+        ? await this.prisma.feedback.groupBy({
+            by: ["client"],
+            where: { client: { in: [...new Set(feedbacks.map((f) => f.client))] }, status: { not: "ORPHANED" } },
+            _min: { createdSlot: true },
+          })
+        : [];
+      return {
+        feedbacks: feedbacks.map((f) => ({
+          client: f.client,
+          feedbackIndex: f.feedbackIndex,
+          value: f.value,
+          valueDecimals: f.valueDecimals,
+          slot: f.createdSlot,
+          isUniqueClient: f.isUniqueClient,
+        })),
+        revocations,
+        clientFirstSlots: new Map(
+          firstSlots
+            .filter((r) => r._min.createdSlot !== null)
+            .map((r) => [r.client, r._min.createdSlot as bigint])
+        ),
+        riskScore: agent?.riskScore ?? null,
+        diversityRatio: agent?.diversityRatio ?? null,
+      };
+    } else if (this.pool) {
+      const params = [agentId, since.toISOString()];
+      const [feedbacks, revocations, agent] = await Promise.all([
+        this.pool.query(
+          `SELECT client_address, feedback_index, value::text AS value, value_decimals, block_slot, is_unique_client
+           FROM feedbacks
+           WHERE asset = $1 AND created_at >= $2 AND status != 'ORPHANED'`,
+          params
+        ),
+        this.pool.query(
+          `SELECT client_address, feedback_index
+           FROM revocations
+           WHERE asset = $1 AND created_at >= $2 AND status != 'ORPHANED'`,
+          params
+        ),
+        this.pool.query(`SELECT risk_score, diversity_ratio FROM agents WHERE asset = $1`, [agentId]),
+      ]);
+      const clients = [...new Set(feedbacks.rows.map((row) => row.client_address as string))];
+      const firstSlots = clients.length > 0
+        ? await this.pool.query(
+            `SELECT client_address, MIN(block_slot) AS first_slot
+             FROM feedbacks
+             WHERE client_address = ANY($1::text[]) AND status != 'ORPHANED'
+             GROUP BY client_address`,
+            [clients]
+          )
+        : { rows: [] };
+      return {
+        feedbacks: feedbacks.rows.map((row) => ({
+          client: row.client_address,
+          feedbackIndex: BigInt(row.feedback_index),
+          value: row.value ?? "0",
+          valueDecimals: Number(row.value_decimals ?? 0),
+          slot: row.block_slot != null ? BigInt(row.block_slot) : null,
+          isUniqueClient: row.is_unique_client ?? null,
+        })),
+        revocations: revocations.rows.map((row) => ({
+          client: row.client_address,
+          feedbackIndex: BigInt(row.feedback_index),
+        })),
+        clientFirstSlots: new Map(firstSlots.rows.map((row) => [row.client_address, BigInt(row.first_slot)])),
+        riskScore: agent.rows[0]?.risk_score ?? null,
+        diversityRatio: agent.rows[0]?.diversity_ratio ?? null,
+      };
+    }
+    return { feedbacks: [], revocations: [], clientFirstSlots: new Map(), riskScore: null, diversityRatio: null };
+  }
+
+  private async saveFlags(agentId: string, flags: AnomalyFlag[]): Promise<void> {
+    const kinds = flags.map((f) => f.kind);
+
+    if (this.prisma) {
+      const prisma = this.prisma;
+      await prisma.$transaction(async (tx) => {
+        for (const flag of flags) {
+          const data = { severity: flag.severity, score: flag.score, evidence: JSON.stringify(flag.evidence) };
+          await tx.agentAnomaly.upsert({
+            where: { agentId_kind: { agentId, kind: flag.kind } },
+            create: { agentId, kind: flag.kind, ...data },
+            update: data,
+          });
+        }
+        await tx.agentAnomaly.deleteMany({ where: { agentId, kind: { notIn: kinds } } });
+      });
+    } else if (this.pool) {
+      const client = await this.pool.connect();
+      try {
+        await client.query("BEGIN");
+        for (const flag of flags) {
+          await client.query(
+            `INSERT INTO agent_anomalies (asset, kind, severity, score, evidence)
+             VALUES ($1, $2, $3, $4, $5::jsonb)
+             ON CONFLICT (asset, kind) DO UPDATE SET
+               severity = EXCLUDED.severity,
+               score = EXCLUDED.score,
+               evidence = EXCLUDED.evidence,
+               updated_at = NOW()`,
+            [agentId, flag.kind, flag.severity, flag.score, JSON.stringify(flag.evidence)]
+          );
+        }
+        await client.query(
+          `DELETE FROM agent_anomalies WHERE asset = $1 AND NOT (kind = ANY($2::text[]))`,
+          [agentId, kinds]
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+  }
+}
@@ -15,9 +15,14 @@ import { createChildLogger } from "../logger.js";
 import { config } from "../config.js";
 import { metadataQueue } from "./metadata-queue.js";
 import { collectionMetadataQueue } from "./collection-metadata-queue.js";
+import { feedbackDocumentQueue, fileHashHex, type FeedbackDocumentTaskInput } from "./feedback-document-queue.js";
 import { compressForStorage } from "../utils/compression.js";
 import { stripNullBytes } from "../utils/sanitize.js";
 import { DEFAULT_PUBKEY } from "../constants.js";
+import { eventsProcessedTotal, flushDurationSeconds, deadLetteredEventsTotal } from "../metrics.js";
+import { enqueueWebhookDeliveriesPg } from "../webhooks/outbox.js";
+import { appendEventLogPg } from "../db/event-log.js";
+import { liveEvents } from "./live-events.js";
 
 const logger = createChildLogger("batch-processor");
 
@@ -58,6 +63,8 @@ export interface BatchEvent {
     slot: bigint;
     blockTime: Date;
     txIndex?: number;
+    eventOrdinal?: number;
+    rawEvent?: string | null;
   };
 }
 
@@ -73,6 +80,9 @@ export interface BatchStats {
   avgFlushTime: number;
   rpcBatchCount: number;
   avgRpcBatchTime: number;
+  bufferSize: number;
+  deadLettered: number;
+  deadLetterSize: number;
 }
 
 /**
@@ -291,6 +301,10 @@ export class EventBuffer {
       this.stats.eventsFlushed += eventsToFlush.length;
       this.stats.flushCount++;
       this.stats.totalFlushTime += Date.now() - startTime;
+      flushDurationSeconds.observe((Date.now() - startTime) / 1000, { outcome: "ok" });
+      for (const event of eventsToFlush) {
+        eventsProcessedTotal.inc({ type: event.type });
+      }
 
       logger.debug({
         events: eventsToFlush.length,
@@ -299,6 +313,7 @@ export class EventBuffer {
       }, "Batch flush complete");
 
     } catch (error) {
+      flushDurationSeconds.observe((Date.now() - startTime) / 1000, { outcome: "error" });
       this.retryCount++;
       logger.error({ error, eventCount: eventsToFlush.length, retryCount: this.retryCount }, "Batch flush failed");
 
@@ -330,6 +345,7 @@ export class EventBuffer {
           this.deadLetterQueue.push(...eventsToFlush.map(e => ({ event: e, addedAt: now })));
         }
         this.stats.deadLettered += eventsToFlush.length;
+        deadLetteredEventsTotal.inc({}, eventsToFlush.length);
         this.retryCount = 0;
       } else {
         // Re-add events to buffer for retry (limited retries)
@@ -365,8 +381,9 @@ export class EventBuffer {
     if (!this.pool) return;
 
     // Collect URIs for post-commit metadata extraction
-    const uriTasks: Array<{ assetId: string; uri: string }> = [];
+    const uriTasks: Array<{ assetId: string; uri: string; slot: bigint; signature: string }> = [];
     const collectionTasks: Array<{ assetId: string; col: string }> = [];
+    const documentTasks: FeedbackDocumentTaskInput[] = [];
 
     const client = await this.pool.connect();
     try {
@@ -374,17 +391,34 @@ export class EventBuffer {
 
       for (const event of events) {
         await this.insertEventSupabase(client, event);
+        await enqueueWebhookDeliveriesPg(client, event, event.ctx);
+        await appendEventLogPg(client, event, event.ctx);
 
         // Collect URIs from agent registration and URI update events
         if (event.type === "AgentRegistered" && event.data.agentUri) {
           const asset = event.data.asset?.toBase58?.() || event.data.asset;
-          uriTasks.push({ assetId: asset, uri: event.data.agentUri });
+          uriTasks.push({ assetId: asset, uri: event.data.agentUri, slot: event.ctx.slot, signature: event.ctx.signature });
         } else if (event.type === "UriUpdated" && event.data.newUri) {
           const asset = event.data.asset?.toBase58?.() || event.data.asset;
-          uriTasks.push({ assetId: asset, uri: event.data.newUri });
+          uriTasks.push({ assetId: asset, uri: event.data.newUri, slot: event.ctx.slot, signature: event.ctx.signature });
         } else if (event.type === "CollectionPointerSet" && event.data.col) {
           const asset = event.data.asset?.toBase58?.() || event.data.asset;
           collectionTasks.push({ assetId: asset, col: event.data.col });
+        } else if (event.type === "NewFeedback" && event.data.feedbackUri) {
+          const asset = event.data.asset?.toBase58?.() || event.data.asset;
+          const client_addr = event.data.clientAddress?.toBase58?.() || event.data.clientAddress;
+          documentTasks.push({
+            id: `${asset}:${client_addr}:${event.data.feedbackIndex}`, kind: "feedback", asset,
+            uri: event.data.feedbackUri, expectedHash: fileHashHex(event.data.feedbackFileHash),
+          });
+        } else if (event.type === "ResponseAppended" && event.data.responseUri) {
+          const asset = event.data.asset?.toBase58?.() || event.data.asset;
+          const client_addr = event.data.client?.toBase58?.() || event.data.client;
+          const responder = event.data.responder?.toBase58?.() || event.data.responder;
+          documentTasks.push({
+            id: `${asset}:${client_addr}:${event.data.feedbackIndex}:${responder}:${event.ctx.signature}`, kind: "response", asset,
+            uri: event.data.responseUri, expectedHash: fileHashHex(event.data.responseHash),
+          });
         }
       }
 
@@ -404,6 +438,10 @@ export class EventBuffer {
 
       await client.query("COMMIT");
 
+      for (const event of events) {
+        liveEvents.publishEvent(event, event.ctx);
+      }
+
       // After successful commit, queue URI metadata extraction (fire-and-forget)
       if (uriTasks.length > 0 && config.metadataIndexMode !== "off") {
         metadataQueue.addBatch(uriTasks);
@@ -411,6 +449,9 @@ export class EventBuffer {
       if (collectionTasks.length > 0 && config.collectionMetadataIndexEnabled) {
         collectionMetadataQueue.addBatch(collectionTasks);
       }
+      if (documentTasks.length > 0 && config.feedbackDocumentsEnabled) {
+        feedbackDocumentQueue.addBatch(documentTasks);
+      }
     } catch (error) {
       await client.query("ROLLBACK");
       throw error;
@@ -916,7 +957,10 @@ export class EventBuffer {
         ? Math.round(this.stats.totalFlushTime / this.stats.flushCount)
         : 0,
       rpcBatchCount: 0,
-      avgRpcBatchTime: 0
+      avgRpcBatchTime: 0,
+      bufferSize: this.buffer.length,
+      deadLettered: this.stats.deadLettered,
+      deadLetterSize: this.deadLetterQueue.length
     };
   }
 
@@ -0,0 +1,746 @@
+/**
+ * Hash-chain repair (gap fill)
+ *
+ * The verifier flags agents whose feedback/response/revoke chain disagrees
+ * with the on-chain digests (agent_digest_cache.needs_gap_fill), starting at
+ * the last slot known to be good (gap_fill_from_slot). Repairing an agent
+ * re-fetches its transactions from that slot by scanning the AgentAccount
+ * PDA. Every chain event carries the running digest after it, so comparing
+ * those against the stored running_digest at each chain position pinpoints
+ * the first divergent event. From there on, rows are rewritten to match the
+ * chain in one transaction: existing rows are updated in place, missing
+ * events go through the regular handlers (and the event log), and rows the
+ * finalized chain does not contain are ORPHANED. Missing events are replayed
+ * as backfill, so they leave agent fields (ATOM metrics) alone when the event
+ * log already holds a later event that set them. The agent's feedback
+ * aggregates (count, raw average score) are recomputed in the same transaction;
+ * feedbacks whose revocation is orphaned count as unrevoked again.
+ *
+ * Each attempt is recorded in hash_chain_repairs.
+ */
+
+import { Connection, ConfirmedSignatureInfo, ParsedTransactionWithMeta } from "@solana/web3.js";
+import { PrismaClient } from "@prisma/client";
+import type { Pool, PoolClient } from "pg";
+import { createChildLogger } from "../logger.js";
+import { parseTransaction, toTypedEvent } from "../parser/decoder.js";
+import type { ProgramEvent } from "../parser/types.js";
+import {
+  reprojectEventTx as reprojectEventLocal,
+  syncAgentFeedbackStatsTx as syncAgentStatsLocal,
+  type EventContext,
+} from "../db/handlers.js";
+import {
+  reprojectEventTx as reprojectEventSupabase,
+  syncAgentFeedbackStatsTx as syncAgentStatsSupabase,
+} from "../db/supabase.js";
+import { appendEventLogPrisma, appendEventLogPg } from "../db/event-log.js";
+import { getAgentPda, parseAssetPubkey } from "../utils/pda.js";
+import { BatchRpcFetcher } from "./batch-processor.js";
+import { liveEvents, type VerifiedEntity } from "./live-events.js";
+import { fetchTxIndexMap, scanSignatureRange } from "./signature-scan.js";
+
+const logger = createChildLogger("chain-repair");
+
+const SCAN_PAGE_SIZE = 1000;
+
+export type ChainType = "feedback" | "response" | "revoke";
+
+export const CHAIN_TYPES: ChainType[] = ["feedback", "response", "revoke"];
+
+type ChainEventType = "NewFeedback" | "ResponseAppended" | "FeedbackRevoked";
+type ChainProgramEvent = Extract<ProgramEvent, { type: ChainEventType }>;
+
+const CHAIN_BY_EVENT: Record<ChainEventType, ChainType> = {
+  NewFeedback: "feedback",
+  ResponseAppended: "response",
+  FeedbackRevoked: "revoke",
+};
+
+interface ChainTable {
+  table: string;
+  count: string; // SQL expression for the 1-based chain position
+  slot: string;
+  entity: VerifiedEntity;
+}
+
+// feedback_index is the agent-wide feedback counter, so position = index + 1
+const PG_CHAINS: Record<ChainType, ChainTable> = {
+  feedback: { table: "feedbacks", count: "feedback_index + 1", slot: "block_slot", entity: "feedback" },
+  response: { table: "feedback_responses", count: "response_count", slot: "block_slot", entity: "response" },
+  revoke: { table: "revocations", count: "revoke_count", slot: "slot", entity: "revocation" },
+};
+
+/**
+ * Last on-chain (digest, count) of a chain
+ */
+export interface ChainHead {
+  digest: Buffer;
+  count: bigint;
+}
+
+export interface ChainEvent {
+  count: bigint;
+  key: string;
+  digest: Buffer;
+  event: ChainProgramEvent;
+  ctx: EventContext;
+}
+
+export type ChainEvents = Record<ChainType, ChainEvent[]>;
+
+interface ChainRow {
+  id: string;
+  key: string;
+  count: bigint;
+  digest: Buffer | null;
+  slot: bigint;
+  status: string;
+}
+
+export interface ChainRepairResult {
+  chain: ChainType;
+  divergentCount: bigint | null; // First chain position that differed (null = chain already consistent)
+  updated: number;
+  inserted: number;
+  orphaned: number;
+}
+
+export type ChainRepairStatus = "REPAIRED" | "UNRESOLVED" | "FAILED";
+
+export interface ChainRepairRecord {
+  agentId: string;
+  chain: ChainType;
+  status: ChainRepairStatus;
+  fromSlot: bigint | null;
+  onChainCount: bigint;
+  divergentCount: bigint | null;
+  updated: number;
+  inserted: number;
+  orphaned: number;
+  error?: string;
+}
+
+function toBuffer(value: unknown): Buffer | null {
+  if (!value) return null;
+  if (Buffer.isBuffer(value)) return value;
+  if (value instanceof Uint8Array) return Buffer.from(value);
+  if (typeof value === "string") {
+    return Buffer.from(value.startsWith("\\x") ? value.slice(2) : value, "hex");
+  }
+  return null;
+}
+
+function hex(hash: Uint8Array | null | undefined): string | null {
+  return hash ? Buffer.from(hash).toString("hex") : null;
+}
+
+function chainKey(client: string, feedbackIndex: bigint | string, response?: { responder: string; signature: string | null }): string {
+  const base = `${client}:${feedbackIndex}`;
+  return response ? `${base}:${response.responder}:${response.signature ?? ""}` : base;
+}
+
+function toChainEvent(event: ChainProgramEvent, ctx: EventContext): ChainEvent {
+  switch (event.type) {
+    case "NewFeedback":
+      return {
+        count: event.data.newFeedbackCount,
+        key: chainKey(event.data.clientAddress.toBase58(), event.data.feedbackIndex),
+        digest: Buffer.from(event.data.newFeedbackDigest),
+        event,
+        ctx,
+      };
+    case "ResponseAppended":
+      return {
+        count: event.data.newResponseCount,
+        key: chainKey(event.data.client.toBase58(), event.data.feedbackIndex, {
+          responder: event.data.responder.toBase58(),
+          signature: ctx.signature,
+        }),
+        digest: Buffer.from(event.data.newResponseDigest),
+        event,
+        ctx,
+      };
+    case "FeedbackRevoked":
+      return {
+        count: event.data.newRevokeCount,
+        key: chainKey(event.data.clientAddress.toBase58(), event.data.feedbackIndex),
+        digest: Buffer.from(event.data.newRevokeDigest),
+        event,
+        ctx,
+      };
+  }
+}
+
+export class ChainRepairer {
+  private batchFetcher: BatchRpcFetcher;
+
+  constructor(
+    private connection: Connection,
+    private prisma: PrismaClient | null,
+    private pool: Pool | null
+  ) {
+    this.batchFetcher = new BatchRpcFetcher(connection);
+  }
+
+  // =========================================================================
+  // Gap-fill queue (agent_digest_cache)
+  // =========================================================================
+
+  /**
+   * Slot to re-fetch from: the row at the on-chain head position if it still
+   * carries the on-chain digest (only later rows diverged), else the newest
+   * row the verifier already finalized. Null means the full agent history.
+   */
+  async findGapFillSlot(agentId: string, chain: ChainType, head: ChainHead): Promise<bigint | null> {
+    if (head.count > 0n) {
+      const atHead = (await this.loadRows(agentId, chain, head.count))
+        .find((r) => r.count === head.count && r.status !== "ORPHANED");
+      if (atHead?.digest?.equals(head.digest)) {
+        return atHead.slot;
+      }
+    }
+    return this.lastFinalizedSlot(agentId, chain);
+  }
+
+  /**
+   * Queue an agent for repair. An agent already queued keeps the lowest
+   * start slot (null = full history wins).
+   */
+  async markGapFill(agentId: string, fromSlot: bigint | null): Promise<void> {
+    if (this.prisma) {
+      // SQLite's scalar MIN() is NULL when either side is NULL
+      await this.prisma.$executeRaw`
+        INSERT INTO "AgentDigestCache" ("agentId", "needsGapFill", "gapFillFromSlot")
+        VALUES (${agentId}, true, ${fromSlot})
+        ON CONFLICT ("agentId") DO UPDATE SET
+          "gapFillFromSlot" = CASE WHEN "needsGapFill" THEN MIN("gapFillFromSlot", excluded."gapFillFromSlot") ELSE excluded."gapFillFromSlot" END,
+          "needsGapFill" = true`;
+    } else if (this.pool) {
+      await this.pool.query(
+        `INSERT INTO agent_digest_cache (agent_id, needs_gap_fill, gap_fill_from_slot)
+         VALUES ($1, TRUE, $2)
+         ON CONFLICT (agent_id) DO UPDATE SET
+           gap_fill_from_slot = CASE
+             WHEN NOT agent_digest_cache.needs_gap_fill THEN EXCLUDED.gap_fill_from_slot
+             WHEN agent_digest_cache.gap_fill_from_slot IS NULL OR EXCLUDED.gap_fill_from_slot IS NULL THEN NULL
+             ELSE LEAST(agent_digest_cache.gap_fill_from_slot, EXCLUDED.gap_fill_from_slot)
+           END,
+           needs_gap_fill = TRUE`,
+        [agentId, fromSlot?.toString() ?? null]
+      );
+    }
+  }
+
+  async listGapFills(limit: number): Promise<Array<{ agentId: string; fromSlot: bigint | null }>> {
+    if (this.prisma) {
+      const rows = await this.prisma.agentDigestCache.findMany({
+        where: { needsGapFill: true },
+        orderBy: { agentId: "asc" },
+        take: limit,
+        select: { agentId: true, gapFillFromSlot: true },
+      });
+      return rows.map((r) => ({ agentId: r.agentId, fromSlot: r.gapFillFromSlot }));
+    } else if (this.pool) {
+      const result = await this.pool.query(
+        `SELECT agent_id, gap_fill_from_slot FROM agent_digest_cache WHERE needs_gap_fill = TRUE ORDER BY agent_id LIMIT $1`,
+        [limit]
+      );
+      return result.rows.map((r: any) => ({
+        agentId: r.agent_id,
+        fromSlot: r.gap_fill_from_slot === null ? null : BigInt(r.gap_fill_from_slot),
+      }));
+    }
+    return [];
+  }
+
+  async clearGapFill(agentId: string): Promise<void> {
+    if (this.prisma) {
+      await this.prisma.agentDigestCache.updateMany({
+        where: { agentId },
+        data: { needsGapFill: false, gapFillFromSlot: null },
+      });
+    } else if (this.pool) {
+      await this.pool.query(
+        `UPDATE agent_digest_cache SET needs_gap_fill = FALSE, gap_fill_from_slot = NULL WHERE agent_id = $1`,
+        [agentId]
+      );
+    }
+  }
+
+  async recordRepair(record: ChainRepairRecord): Promise<void> {
+    if (this.prisma) {
+      await this.prisma.hashChainRepair.create({
+        data: {
+          agentId: record.agentId,
+          chainType: record.chain,
+          status: record.status,
+          fromSlot: record.fromSlot,
+          divergentCount: record.divergentCount,
+          onChainCount: record.onChainCount,
+          rowsUpdated: record.updated,
+          rowsInserted: record.inserted,
+          rowsOrphaned: record.orphaned,
+          error: record.error ?? null,
+        },
+      });
+    } else if (this.pool) {
+      await this.pool.query(
+        `INSERT INTO hash_chain_repairs (agent_id, chain_type, status, from_slot, divergent_count, onchain_count, rows_updated, rows_inserted, rows_orphaned, error)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          record.agentId, record.chain, record.status,
+          record.fromSlot?.toString() ?? null, record.divergentCount?.toString() ?? null, record.onChainCount.toString(),
+          record.updated, record.inserted, record.orphaned, record.error ?? null,
+        ]
+      );
+    }
+  }
+
+  // =========================================================================
+  // On-chain history
+  // =========================================================================
+
+  /**
+   * Feedback/response/revoke events of one agent from `fromSlot` (inclusive),
+   * ordered by chain position. Throws if any transaction cannot be fetched:
+   * rewriting from a partial history would create the gap it should fill.
+   */
+  async fetchChainEvents(agentId: string, fromSlot: bigint | null): Promise<ChainEvents> {
+    const [agentPda] = getAgentPda(parseAssetPubkey(agentId));
+    const signatures = await scanSignatureRange(
+      this.connection,
+      agentPda,
+      { fromSlot: fromSlot === null ? 0 : Number(fromSlot) },
+      SCAN_PAGE_SIZE
+    );
+
+    const txCache = await this.batchFetcher.fetchTransactions(signatures.map((s) => s.signature));
+    const bySlot = new Map<number, ConfirmedSignatureInfo[]>();
+    for (const sig of signatures) {
+      if (!bySlot.has(sig.slot)) {
+        bySlot.set(sig.slot, []);
+      }
+      bySlot.get(sig.slot)!.push(sig);
+    }
+
+    const events: ChainEvents = { feedback: [], response: [], revoke: [] };
+    for (const [slot, sigs] of bySlot) {
+      let txIndexMap: Map<string, number | null>;
+      try {
+        txIndexMap = await fetchTxIndexMap(this.connection, slot, sigs);
+      } catch {
+        txIndexMap = new Map();
+      }
+
+      for (const sig of sigs) {
+        const tx = txCache.get(sig.signature) ?? await this.fetchTransaction(sig.signature);
+        this.collectEvents(agentId, sig, txIndexMap.get(sig.signature) ?? undefined, tx, events);
+      }
+    }
+
+    for (const chain of CHAIN_TYPES) {
+      events[chain].sort((a, b) => (a.count < b.count ? -1 : a.count > b.count ? 1 : 0));
+    }
+    logger.debug({
+      agentId,
+      fromSlot: fromSlot?.toString() ?? null,
+      signatures: signatures.length,
+      feedback: events.feedback.length,
+      response: events.response.length,
+      revoke: events.revoke.length,
+    }, "Fetched agent chain history");
+    return events;
+  }
+
+  private async fetchTransaction(signature: string): Promise<ParsedTransactionWithMeta> {
+    const tx = await this.connection.getParsedTransaction(signature, {
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx) {
+      throw new Error(`Transaction ${signature} not found`);
+    }
+    return tx;
+  }
+
+  private collectEvents(
+    agentId: string,
+    sig: ConfirmedSignatureInfo,
+    txIndex: number | undefined,
+    tx: ParsedTransactionWithMeta,
+    events: ChainEvents
+  ): void {
+    const parsed = parseTransaction(tx);
+    if (!parsed) return;
+
+    let eventOrdinal = -1;
+    for (const raw of parsed.events) {
+      eventOrdinal++;
+      const event = toTypedEvent(raw);
+      if (!event || !(event.type in CHAIN_BY_EVENT)) continue;
+
+      const chainEvent = event as ChainProgramEvent;
+      if (chainEvent.data.asset.toBase58() !== agentId) continue;
+
+      events[CHAIN_BY_EVENT[chainEvent.type]].push(toChainEvent(chainEvent, {
+        signature: sig.signature,
+        slot: BigInt(sig.slot),
+        blockTime: sig.blockTime ? new Date(sig.blockTime * 1000) : new Date(),
+        txIndex,
+        eventOrdinal,
+        rawEvent: raw.raw,
+        source: "backfill",
+      }));
+    }
+  }
+
+  // =========================================================================
+  // Repair
+  // =========================================================================
+
+  /**
+   * Rewrite one chain of an agent to match its finalized on-chain history.
+   *
+   * `events` must cover every event after the last good row (or the whole
+   * chain when `fullHistory`). Rows past the on-chain head are only orphaned
+   * when they sit at or below `finalizedSlot`; newer ones may simply not be
+   * finalized yet.
+   */
+  async repairChain(
+    agentId: string,
+    chain: ChainType,
+    allEvents: ChainEvent[],
+    head: ChainHead,
+    finalizedSlot: bigint,
+    fullHistory: boolean
+  ): Promise<ChainRepairResult> {
+    const events = allEvents.filter((e) => e.count <= head.count);
+    const startCount = events.length > 0 ? events[0].count : head.count + 1n;
+    events.forEach((e, i) => {
+      if (e.count !== startCount + BigInt(i)) {
+        throw new Error(`On-chain ${chain} history is missing event #${startCount + BigInt(i)}`);
+      }
+    });
+    if (fullHistory && startCount !== 1n) {
+      throw new Error(`On-chain ${chain} history starts at #${startCount}, expected #1`);
+    }
+    if (events.length > 0 && events[events.length - 1].count !== head.count) {
+      throw new Error(`On-chain ${chain} history ends at #${events[events.length - 1].count}, head is #${head.count}`);
+    }
+
+    const rows = await this.loadRows(agentId, chain, startCount);
+    const eventByCount = new Map(events.map((e) => [e.count, e]));
+    const isStale = (r: ChainRow): boolean => {
+      if (r.status === "ORPHANED") return false;
+      if (r.count > head.count) return r.slot <= finalizedSlot;
+      const expected = eventByCount.get(r.count);
+      return !expected || expected.key !== r.key || !r.digest?.equals(expected.digest);
+    };
+    const isMissing = (e: ChainEvent): boolean =>
+      !rows.some((r) => r.status !== "ORPHANED" && r.key === e.key && r.count === e.count && r.digest?.equals(e.digest));
+
+    const candidates = [
+      ...rows.filter(isStale).map((r) => r.count),
+      ...events.filter(isMissing).map((e) => e.count),
+    ];
+    const result: ChainRepairResult = { chain, divergentCount: null, updated: 0, inserted: 0, orphaned: 0 };
+    if (candidates.length === 0) {
+      return result;
+    }
+    const divergentCount = candidates.reduce((min, c) => (c < min ? c : min));
+    result.divergentCount = divergentCount;
+
+    const rowByKey = new Map(rows.map((r) => [r.key, r]));
+    const rewrite = events.filter((e) => e.count >= divergentCount && isMissing(e));
+    const rewriteKeys = new Set(rewrite.map((e) => e.key));
+    const orphanIds = rows
+      .filter((r) => r.count >= divergentCount && isStale(r) && !rewriteKeys.has(r.key))
+      .map((r) => r.id);
+    const now = new Date();
+
+    logger.info({
+      agentId,
+      chain,
+      divergentCount: divergentCount.toString(),
+      onChainCount: head.count.toString(),
+      rewrite: rewrite.length,
+      orphan: orphanIds.length,
+    }, "Repairing hash-chain from first divergent event");
+
+    if (this.prisma) {
+      await this.prisma.$transaction(async (tx) => {
+        for (const e of rewrite) {
+          const existing = rowByKey.get(e.key);
+          if (existing && chain !== "revoke") {
+            await this.updateRowLocal(tx, existing.id, e);
+            result.updated++;
+          } else {
+            // Revocation handlers upsert, so they rewrite existing rows too
+            await reprojectEventLocal(tx, e.event, { ...e.ctx, source: "backfill" });
+            if (existing) result.updated++; else result.inserted++;
+          }
+          await appendEventLogPrisma(tx, e.event, e.ctx);
+        }
+        if (orphanIds.length > 0) {
+          const data = { status: "ORPHANED", verifiedAt: now };
+          const where = { id: { in: orphanIds } };
+          if (chain === "feedback") await tx.feedback.updateMany({ where, data });
+          else if (chain === "response") await tx.feedbackResponse.updateMany({ where, data });
+          else {
+            await tx.revocation.updateMany({ where, data });
+            const revoked = await tx.revocation.findMany({ where, select: { client: true, feedbackIndex: true } });
+            for (const r of revoked) {
+              await tx.feedback.updateMany({
+                where: { agentId, client: r.client, feedbackIndex: r.feedbackIndex },
+                data: { revoked: false, revokedTxSignature: null, revokedSlot: null },
+              });
+            }
+          }
+        }
+        await syncAgentStatsLocal(tx, agentId, null);
+      });
+    } else if (this.pool) {
+      const client = await this.pool.connect();
+      try {
+        await client.query("BEGIN");
+        for (const e of rewrite) {
+          const existing = rowByKey.get(e.key);
+          if (existing && chain !== "revoke") {
+            await this.updateRowPg(client, existing.id, e);
+            result.updated++;
+          } else {
+            await reprojectEventSupabase(client, e.event, { ...e.ctx, source: "backfill" });
+            if (existing) result.updated++; else result.inserted++;
+          }
+          await appendEventLogPg(client, e.event, e.ctx);
+        }
+        if (orphanIds.length > 0) {
+          await client.query(
+            `UPDATE ${PG_CHAINS[chain].table} SET status = 'ORPHANED', verified_at = $2 WHERE id = ANY($1::text[])`,
+            [orphanIds, now.toISOString()]
+          );
+          if (chain === "revoke") {
+            await client.query(
+              `UPDATE feedbacks f SET is_revoked = false, revoked_at = NULL
+               FROM revocations r
+               WHERE r.id = ANY($1::text[]) AND f.asset = r.asset
+                 AND f.client_address = r.client_address AND f.feedback_index = r.feedback_index`,
+              [orphanIds]
+            );
+          }
+        }
+        await syncAgentStatsSupabase(client, agentId);
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+
+    result.orphaned = orphanIds.length;
+    if (orphanIds.length > 0) {
+      liveEvents.publishVerification(PG_CHAINS[chain].entity, orphanIds, agentId, "ORPHANED", now);
+    }
+    return result;
+  }
+
+  /**
+   * Point an existing feedback/response row at the on-chain event
+   * (same key, different digest/position/transaction). Status restarts at PENDING.
+   */
+  private async updateRowLocal(tx: Parameters<Parameters<PrismaClient["$transaction"]>[0]>[0], id: string, e: ChainEvent): Promise<void> {
+    const provenance = { txIndex: e.ctx.txIndex ?? null, status: "PENDING", verifiedAt: null };
+    if (e.event.type === "NewFeedback") {
+      const data = e.event.data;
+      await tx.feedback.update({
+        where: { id },
+        data: {
+          ...provenance,
+          value: data.value.toString(),
+          valueDecimals: data.valueDecimals,
+          score: data.score,
+          tag1: data.tag1,
+          tag2: data.tag2,
+          endpoint: data.endpoint,
+          feedbackUri: data.feedbackUri,
+          feedbackHash: Uint8Array.from(data.sealHash) as Uint8Array<ArrayBuffer>,
+          runningDigest: Uint8Array.from(data.newFeedbackDigest) as Uint8Array<ArrayBuffer>,
+          createdTxSignature: e.ctx.signature,
+          createdSlot: e.ctx.slot,
+        },
+      });
+    } else if (e.event.type === "ResponseAppended") {
+      await tx.feedbackResponse.update({
+        where: { id },
+        data: {
+          ...provenance,
+          runningDigest: Uint8Array.from(e.event.data.newResponseDigest) as Uint8Array<ArrayBuffer>,
+          responseCount: e.event.data.newResponseCount,
+          slot: e.ctx.slot,
+        },
+      });
+    }
+  }
+
+  private async updateRowPg(client: PoolClient, id: string, e: ChainEvent): Promise<void> {
+    if (e.event.type === "NewFeedback") {
+      const data = e.event.data;
+      await client.query(
+        `UPDATE feedbacks SET
+           value = $2, value_decimals = $3, score = $4, tag1 = $5, tag2 = $6, endpoint = $7, feedback_uri = $8,
+           feedback_hash = $9, running_digest = $10, tx_signature = $11, block_slot = $12, tx_index = $13,
+           status = 'PENDING', verified_at = NULL
+         WHERE id = $1`,
+        [
+          id, data.value.toString(), data.valueDecimals, data.score,
+          data.tag1 || null, data.tag2 || null, data.endpoint || null, data.feedbackUri || null,
+          hex(data.sealHash), Buffer.from(data.newFeedbackDigest),
+          e.ctx.signature, e.ctx.slot.toString(), e.ctx.txIndex ?? null,
+        ]
+      );
+    } else if (e.event.type === "ResponseAppended") {
+      await client.query(
+        `UPDATE feedback_responses SET
+           running_digest = $2, response_count = $3, block_slot = $4, tx_index = $5,
+           status = 'PENDING', verified_at = NULL
+         WHERE id = $1`,
+        [
+          id, Buffer.from(e.event.data.newResponseDigest), e.event.data.newResponseCount.toString(),
+          e.ctx.slot.toString(), e.ctx.txIndex ?? null,
+        ]
+      );
+    }
+  }
+
+  /**
+   * True when the stored chain agrees with the on-chain head: one live row per
+   * position up to the head, the head row carries the on-chain digest, and no
+   * live row past the head is old enough to have been finalized.
+   */
+  async verifyChain(agentId: string, chain: ChainType, head: ChainHead, finalizedSlot: bigint): Promise<boolean> {
+    const live = (await this.loadRows(agentId, chain, 1n)).filter((r) => r.status !== "ORPHANED");
+    if (live.some((r) => r.count > head.count && r.slot <= finalizedSlot)) return false;
+
+    const upToHead = live.filter((r) => r.count >= 1n && r.count <= head.count);
+    if (upToHead.length !== Number(head.count) || new Set(upToHead.map((r) => r.count)).size !== upToHead.length) {
+      return false;
+    }
+    return head.count === 0n || upToHead.some((r) => r.count === head.count && r.digest?.equals(head.digest));
+  }
+
+  // =========================================================================
+  // Stored chain rows
+  // =========================================================================
+
+  /**
+   * Rows of one chain (any status) at position >= fromCount
+   */
+  private async loadRows(agentId: string, chain: ChainType, fromCount: bigint): Promise<ChainRow[]> {
+    if (this.prisma) {
+      if (chain === "feedback") {
+        const rows = await this.prisma.feedback.findMany({
+          where: { agentId, feedbackIndex: { gte: fromCount - 1n } },
+          select: { id: true, client: true, feedbackIndex: true, runningDigest: true, createdSlot: true, status: true },
+        });
+        return rows.map((r) => ({
+          id: r.id,
+          key: chainKey(r.client, r.feedbackIndex),
+          count: r.feedbackIndex + 1n,
+          digest: toBuffer(r.runningDigest),
+          slot: r.createdSlot ?? 0n,
+          status: r.status,
+        }));
+      }
+      if (chain === "response") {
+        const rows = await this.prisma.feedbackResponse.findMany({
+          where: { feedback: { agentId }, responseCount: { gte: fromCount } },
+          select: {
+            id: true, responder: true, txSignature: true, runningDigest: true, responseCount: true, slot: true, status: true,
+            feedback: { select: { client: true, feedbackIndex: true } },
+          },
+        });
+        return rows.map((r) => ({
+          id: r.id,
+          key: chainKey(r.feedback.client, r.feedback.feedbackIndex, { responder: r.responder, signature: r.txSignature }),
+          count: r.responseCount ?? 0n,
+          digest: toBuffer(r.runningDigest),
+          slot: r.slot ?? 0n,
+          status: r.status,
+        }));
+      }
+      const rows = await this.prisma.revocation.findMany({
+        where: { agentId, revokeCount: { gte: fromCount } },
+        select: { id: true, client: true, feedbackIndex: true, runningDigest: true, revokeCount: true, slot: true, status: true },
+      });
+      return rows.map((r) => ({
+        id: r.id,
+        key: chainKey(r.client, r.feedbackIndex),
+        count: r.revokeCount,
+        digest: toBuffer(r.runningDigest),
+        slot: r.slot,
+        status: r.status,
+      }));
+    } else if (this.pool) {
+      const { table, count, slot } = PG_CHAINS[chain];
+      const responseColumns = chain === "response" ? "responder, tx_signature," : "";
+      const result = await this.pool.query(
+        `SELECT id, client_address, feedback_index, ${responseColumns} running_digest,
+                ${count} AS chain_count, ${slot} AS chain_slot, status
+         FROM ${table}
+         WHERE asset = $1 AND ${count} >= $2`,
+        [agentId, fromCount.toString()]
+      );
+      return result.rows.map((r: any) => ({
+        id: r.id,
+        key: chainKey(
+          r.client_address,
+          String(r.feedback_index),
+          chain === "response" ? { responder: r.responder, signature: r.tx_signature } : undefined
+        ),
+        count: BigInt(r.chain_count),
+        digest: toBuffer(r.running_digest),
+        slot: BigInt(r.chain_slot ?? 0),
+        status: r.status,
+      }));
+    }
+    return [];
+  }
+
+  private async lastFinalizedSlot(agentId: string, chain: ChainType): Promise<bigint | null> {
+    if (this.prisma) {
+      if (chain === "feedback") {
+        const row = await this.prisma.feedback.findFirst({
+          where: { agentId, status: "FINALIZED" },
+          orderBy: { feedbackIndex: "desc" },
+          select: { createdSlot: true },
+        });
+        return row?.createdSlot ?? null;
+      }
+      if (chain === "response") {
+        const row = await this.prisma.feedbackResponse.findFirst({
+          where: { feedback: { agentId }, status: "FINALIZED" },
+          orderBy: { responseCount: "desc" },
+          select: { slot: true },
+        });
+        return row?.slot ?? null;
+      }
+      const row = await this.prisma.revocation.findFirst({
+        where: { agentId, status: "FINALIZED" },
+        orderBy: { revokeCount: "desc" },
+        select: { slot: true },
+      });
+      return row?.slot ?? null;
+    } else if (this.pool) {
+      const { table, count, slot } = PG_CHAINS[chain];
+      const result = await this.pool.query(
+        `SELECT ${slot} AS chain_slot FROM ${table} WHERE asset = $1 AND status = 'FINALIZED' ORDER BY ${count} DESC LIMIT 1`,
+        [agentId]
+      );
+      const value = result.rows[0]?.chain_slot;
+      return value === undefined || value === null ? null : BigInt(value);
+    }
+    return null;
+  }
+}
@@ -3,6 +3,8 @@ import { Pool } from "pg";
 import { config } from "../config.js";
 import { createChildLogger } from "../logger.js";
 import { digestCollectionPointerDoc } from "./collectionDigest.js";
+import { HeldJobs, MetadataJob, MetadataJobClaimer, MetadataJobOutcome, MetadataJobStore, WORKER_ID } from "./metadata-jobs.js";
+import { metrics, metadataDigestsTotal, metadataQueueSize, metadataQueuePending } from "../metrics.js";
 
 const logger = createChildLogger("collection-metadata-queue");
 
@@ -10,16 +12,22 @@ const CONCURRENCY = 5;
 const INTERVAL = 100;
 const TIMEOUT_MS = 30000;
 const MAX_QUEUE_SIZE = 5000;
+const MAX_CLAIMED = CONCURRENCY * 2;
 
 export interface CollectionMetadataTask {
   assetId: string;
   col: string;
   addedAt: number;
+  attempts: number;
+  persisted?: Promise<void>;
 }
 
 class CollectionMetadataQueue {
   private queue: PQueue;
   private pool: Pool | null = null;
+  private jobs: MetadataJobStore | null = null;
+  private claimer: MetadataJobClaimer | null = null;
+  private held = new HeldJobs(); // job keys leased to this worker while in memory
   private pending = new Map<string, CollectionMetadataTask>();
   private statsInterval: NodeJS.Timeout | null = null;
   private stats = {
@@ -27,6 +35,9 @@ class CollectionMetadataQueue {
     processed: 0,
     skippedStale: 0,
     skippedDuplicate: 0,
+    deferred: 0,
+    retried: 0,
+    failed: 0,
     errors: 0,
   };
 
@@ -39,10 +50,28 @@ class CollectionMetadataQueue {
     });
 
     this.statsInterval = setInterval(() => this.logStats(), 60000);
+
+    metrics.registerCollector("collection-metadata-queue", () => {
+      metadataQueueSize.set({ queue: "collection" }, this.queue.size);
+      metadataQueuePending.set({ queue: "collection" }, this.pending.size);
+    });
   }
 
   setPool(pool: Pool): void {
     this.pool = pool;
+    this.jobs = pool ? new MetadataJobStore(pool) : null;
+  }
+
+  start(): void {
+    if (!this.jobs || this.claimer) return;
+    this.claimer = new MetadataJobClaimer(
+      "collection",
+      this.jobs,
+      () => MAX_CLAIMED - (this.queue.size + this.queue.pending),
+      (job) => this.dispatchJob(job),
+      this.held
+    );
+    this.claimer.start();
   }
 
   add(assetId: string, col: string): void {
@@ -57,34 +86,76 @@ class CollectionMetadataQueue {
     }
 
     if (this.queue.size + this.queue.pending >= MAX_QUEUE_SIZE) {
-      logger.warn({ assetId, queueSize: this.queue.size }, "Collection metadata queue full, rejecting task");
+      if (this.jobs) {
+        this.stats.deferred++;
+        this.jobs.enqueue("collection", assetId, { col }, null).catch((err) => {
+          logger.error({ assetId, col, error: err.message }, "Failed to persist collection metadata job");
+        });
+      } else {
+        logger.warn({ assetId, queueSize: this.queue.size }, "Collection metadata queue full, rejecting task");
+      }
       return;
     }
 
-    const task: CollectionMetadataTask = {
+    this.dispatch({
       assetId,
       col,
       addedAt: Date.now(),
-    };
+      attempts: 1,
+      persisted: this.jobs?.enqueue("collection", assetId, { col }, WORKER_ID).catch((err) => {
+        logger.error({ assetId, col, error: err.message }, "Failed to persist collection metadata job");
+      }),
+    });
+  }
 
-    this.pending.set(assetId, task);
+  private dispatchJob(job: MetadataJob): void {
+    const col = typeof job.payload.col === "string" ? job.payload.col : "";
+    const existing = this.pending.get(job.key);
+    if (existing && existing.col === col) {
+      this.stats.skippedDuplicate++;
+      return;
+    }
+    this.dispatch({ assetId: job.key, col, addedAt: job.createdAt.getTime(), attempts: job.attempts });
+  }
+
+  private dispatch(task: CollectionMetadataTask): void {
+    this.pending.set(task.assetId, task);
+    this.held.add(task.assetId);
     this.stats.queued++;
 
-    this.queue.add(() => this.processTask(task)).catch((err) => {
+    this.queue.add(() => this.runTask(task)).catch((err) => {
       this.stats.errors++;
-      logger.error({ assetId, col, error: err.message }, "Collection metadata queue task failed");
+      logger.error({ assetId: task.assetId, col: task.col, error: err.message }, "Collection metadata queue task failed");
     });
   }
 
+  private async runTask(task: CollectionMetadataTask): Promise<void> {
+    try {
+      const outcome = await this.processTask(task);
+      if (!this.jobs) return;
+
+      try {
+        await task.persisted;
+        const state = await this.jobs.finish("collection", task.assetId, { col: task.col }, WORKER_ID, task.attempts, outcome);
+        if (state === "queued") this.stats.retried++;
+        if (state === "failed") this.stats.failed++;
+      } catch (error: any) {
+        logger.warn({ assetId: task.assetId, error: error.message }, "Failed to record collection metadata job outcome");
+      }
+    } finally {
+      this.held.delete(task.assetId);
+    }
+  }
+
   addBatch(tasks: Array<{ assetId: string; col: string }>): void {
     for (const task of tasks) {
       this.add(task.assetId, task.col);
     }
   }
 
-  private async processTask(task: CollectionMetadataTask): Promise<void> {
+  private async processTask(task: CollectionMetadataTask): Promise<MetadataJobOutcome> {
     const { assetId, col } = task;
-    if (!this.pool) return;
+    if (!this.pool) return { status: "stale" };
 
     try {
       const currentPending = this.pending.get(assetId);
@@ -103,17 +174,18 @@ class CollectionMetadataQueue {
 
       if (currentAgent.rows.length === 0) {
         this.stats.skippedStale++;
-        return;
+        return { status: "stale" };
       }
 
       const row = currentAgent.rows[0];
       if (row.canonical_col !== col) {
         this.stats.skippedStale++;
-        return;
+        return { status: "stale" };
       }
 
       const creator = row.creator || row.owner;
       const result = await digestCollectionPointerDoc(col);
+      metadataDigestsTotal.inc({ queue: "collection", status: result.status });
 
       if (result.status !== "ok" || !result.fields) {
         await this.pool.query(
@@ -127,7 +199,7 @@ class CollectionMetadataQueue {
           [result.status, result.hash || null, result.bytes ?? null, col, creator]
         );
         this.stats.processed++;
-        return;
+        return { status: result.status, error: result.error };
       }
 
       await this.pool.query(
@@ -167,9 +239,11 @@ class CollectionMetadataQueue {
 
       this.stats.processed++;
       logger.info({ assetId, col, creator }, "Collection metadata extracted");
+      return { status: "ok" };
     } catch (error: any) {
       this.stats.errors++;
       logger.error({ assetId, col, error: error.message }, "Collection metadata extraction failed");
+      return { status: "error", error: error.message };
     }
   }
 
@@ -181,11 +255,17 @@ class CollectionMetadataQueue {
     };
   }
 
-  shutdown(): void {
+  async shutdown(): Promise<void> {
     if (this.statsInterval) {
       clearInterval(this.statsInterval);
       this.statsInterval = null;
     }
+    this.claimer?.stop();
+    this.claimer = null;
+    if (this.jobs) {
+      const released = await this.jobs.release("collection", WORKER_ID);
+      if (released > 0) logger.info({ released }, "Released collection metadata jobs");
+    }
   }
 
   private logStats(): void {
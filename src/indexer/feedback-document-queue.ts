@@ -0,0 +1,404 @@
+/**
+ * Feedback Document Queue - Background fetching of off-chain feedback and response files
+ *
+ * NewFeedback commits feedbackUri (+ optional feedbackFileHash) and ResponseAppended
+ * commits responseUri/responseHash. Each file is fetched through the same SSRF-safe
+ * path as registration files, its bytes are checked against the on-chain hash, and a
+ * sanitized copy is stored in feedback_documents keyed by the feedback/response id.
+ */
+
+import PQueue from "p-queue";
+import { createHash } from "crypto";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { Pool } from "pg";
+import { fetchUriContent, sanitizeText, type DigestStatus, type UriFetchResult } from "./uriDigest.js";
+import { HeldJobs, MetadataJob, MetadataJobClaimer, MetadataJobOutcome, MetadataJobStore, WORKER_ID } from "./metadata-jobs.js";
+import { config } from "../config.js";
+import { createChildLogger } from "../logger.js";
+import { metrics, metadataDigestsTotal, metadataQueueSize, metadataQueuePending } from "../metrics.js";
+
+const logger = createChildLogger("feedback-document-queue");
+
+const CONCURRENCY = 5;
+const INTERVAL = 100;
+const TIMEOUT_MS = 30000;
+const MAX_QUEUE_SIZE = 5000;
+const MAX_CLAIMED = CONCURRENCY * 2;
+
+// Bounds on the stored copy (DoS protection against deeply nested / wide documents)
+const MAX_DEPTH = 8;
+const MAX_KEYS = 100;
+const MAX_ITEMS = 100;
+
+export type FeedbackDocumentKind = "feedback" | "response";
+export type FileHashAlgorithm = "keccak256" | "sha256";
+
+export interface FeedbackDocumentTask {
+  id: string; // feedbacks.id or feedback_responses.id
+  kind: FeedbackDocumentKind;
+  asset: string;
+  uri: string;
+  expectedHash: string | null; // on-chain file hash (hex), null when none was committed
+  addedAt: number;
+  attempts: number;
+  persisted?: Promise<void>;
+}
+
+export type FeedbackDocumentTaskInput = Omit<FeedbackDocumentTask, "addedAt" | "attempts" | "persisted">;
+
+export interface FeedbackDocument {
+  status: DigestStatus;
+  error?: string;
+  bytes?: number;
+  contentHash?: string; // sha-256 of the fetched bytes
+  hashAlgorithm?: FileHashAlgorithm; // algorithm that matched the on-chain hash
+  hashVerified: boolean | null; // null when there was no on-chain hash or nothing was fetched
+  cidVerified?: boolean;
+  content?: unknown;
+}
+
+/**
+ * On-chain file hash as hex; all-zero hashes mean "no file hash committed"
+ */
+export function fileHashHex(hash: Uint8Array | null | undefined): string | null {
+  if (!hash || hash.every((byte) => byte === 0)) return null;
+  return Buffer.from(hash).toString("hex");
+}
+
+/**
+ * Which hash of the bytes equals the committed file hash: keccak-256 (ERC-8004) or sha-256
+ */
+export function matchFileHash(body: Buffer, expectedHash: string): FileHashAlgorithm | null {
+  const expected = expectedHash.toLowerCase();
+  if (Buffer.from(keccak_256(body)).toString("hex") === expected) return "keccak256";
+  if (createHash("sha256").update(body).digest("hex") === expected) return "sha256";
+  return null;
+}
+
+/**
+ * Sanitized copy of a parsed document: strings go through sanitizeText, nesting and sizes are bounded
+ */
+export function sanitizeDocument(value: unknown, depth: number = 0): unknown {
+  if (typeof value === "string") return sanitizeText(value);
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean" || value === null) return value;
+  if (depth >= MAX_DEPTH) return null;
+
+  if (Array.isArray(value)) {
+    return value.slice(0, MAX_ITEMS).map((item) => sanitizeDocument(item, depth + 1));
+  }
+  if (typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    let count = 0;
+    for (const [key, item] of Object.entries(value)) {
+      if (count++ >= MAX_KEYS) break;
+      const cleanKey = sanitizeText(key);
+      if (!cleanKey || cleanKey === "__proto__") continue;
+      out[cleanKey] = sanitizeDocument(item, depth + 1);
+    }
+    return out;
+  }
+  return null;
+}
+
+/**
+ * Turn a fetch result into the stored document: hash check first (over the raw bytes), then parse
+ */
+export function digestFeedbackDocument(fetched: UriFetchResult, expectedHash: string | null): FeedbackDocument {
+  if (fetched.status !== "ok" || !fetched.body) {
+    return { status: fetched.status, error: fetched.error, bytes: fetched.bytes, hashVerified: null };
+  }
+
+  const body = fetched.body;
+  const algorithm = expectedHash ? matchFileHash(body, expectedHash) : null;
+  const document: FeedbackDocument = {
+    status: "ok",
+    bytes: body.length,
+    contentHash: createHash("sha256").update(body).digest("hex"),
+    hashAlgorithm: algorithm ?? undefined,
+    hashVerified: expectedHash ? algorithm !== null : null,
+    cidVerified: fetched.cidVerified,
+  };
+
+  try {
+    document.content = sanitizeDocument(JSON.parse(body.toString("utf-8")));
+  } catch {
+    document.status = "invalid_json";
+  }
+  return document;
+}
+
+function jobPayload(task: FeedbackDocumentTaskInput): Record<string, unknown> {
+  return { kind: task.kind, asset: task.asset, uri: task.uri, expectedHash: task.expectedHash };
+}
+
+/**
+ * Singleton feedback/response document queue (Supabase mode)
+ */
+class FeedbackDocumentQueue {
+  private queue: PQueue;
+  private pool: Pool | null = null;
+  private jobs: MetadataJobStore | null = null;
+  private claimer: MetadataJobClaimer | null = null;
+  private held = new HeldJobs(); // job keys leased to this worker while in memory
+  private pending = new Map<string, FeedbackDocumentTask>(); // document id -> latest task
+  private statsInterval: NodeJS.Timeout | null = null;
+  private stats = {
+    queued: 0,
+    processed: 0,
+    verified: 0,
+    mismatched: 0,
+    skippedDuplicate: 0,
+    deferred: 0,
+    retried: 0,
+    failed: 0,
+    errors: 0,
+  };
+
+  constructor() {
+    this.queue = new PQueue({
+      concurrency: CONCURRENCY,
+      interval: INTERVAL,
+      intervalCap: CONCURRENCY,
+      timeout: TIMEOUT_MS,
+    });
+
+    this.statsInterval = setInterval(() => this.logStats(), 60000);
+
+    metrics.registerCollector("feedback-document-queue", () => {
+      metadataQueueSize.set({ queue: "feedback_document" }, this.queue.size);
+      metadataQueuePending.set({ queue: "feedback_document" }, this.pending.size);
+    });
+  }
+
+  /**
+   * Set the database pool (called at startup)
+   */
+  setPool(pool: Pool): void {
+    this.pool = pool;
+    this.jobs = pool ? new MetadataJobStore(pool) : null;
+  }
+
+  /**
+   * Start claiming persisted jobs (restarts, overflow, retries, other replicas)
+   */
+  start(): void {
+    if (!this.jobs || this.claimer) return;
+    this.claimer = new MetadataJobClaimer(
+      "feedback_document",
+      this.jobs,
+      () => MAX_CLAIMED - (this.queue.size + this.queue.pending),
+      (job) => this.dispatchJob(job),
+      this.held
+    );
+    this.claimer.start();
+  }
+
+  /**
+   * Add a document fetch task to the queue
+   */
+  add(task: FeedbackDocumentTaskInput): void {
+    if (!config.feedbackDocumentsEnabled || !task.id || !task.uri) {
+      return;
+    }
+
+    const existing = this.pending.get(task.id);
+    if (existing && existing.uri === task.uri) {
+      this.stats.skippedDuplicate++;
+      return;
+    }
+
+    if (this.queue.size + this.queue.pending >= MAX_QUEUE_SIZE) {
+      if (this.jobs) {
+        this.stats.deferred++;
+        this.jobs.enqueue("feedback_document", task.id, jobPayload(task), null).catch((err) => {
+          logger.error({ id: task.id, uri: task.uri, error: err.message }, "Failed to persist feedback document job");
+        });
+      } else {
+        logger.warn({ id: task.id, queueSize: this.queue.size }, "Feedback document queue full, rejecting task");
+      }
+      return;
+    }
+
+    this.dispatch({
+      ...task,
+      addedAt: Date.now(),
+      attempts: 1,
+      persisted: this.jobs?.enqueue("feedback_document", task.id, jobPayload(task), WORKER_ID).catch((err) => {
+        logger.error({ id: task.id, uri: task.uri, error: err.message }, "Failed to persist feedback document job");
+      }),
+    });
+  }
+
+  /**
+   * Add multiple tasks at once (used after batch commit)
+   */
+  addBatch(tasks: FeedbackDocumentTaskInput[]): void {
+    for (const task of tasks) {
+      this.add(task);
+    }
+    logger.info({ count: tasks.length, queueSize: this.queue.size }, "Added batch to feedback document queue");
+  }
+
+  /**
+   * Run a job claimed from the table
+   */
+  private dispatchJob(job: MetadataJob): void {
+    const { kind, asset, uri, expectedHash } = job.payload as Record<string, string | null>;
+    const existing = this.pending.get(job.key);
+    if (existing && existing.uri === uri) {
+      this.stats.skippedDuplicate++;
+      return;
+    }
+    this.dispatch({
+      id: job.key,
+      kind: kind as FeedbackDocumentKind,
+      asset: asset ?? "",
+      uri: uri ?? "",
+      expectedHash: expectedHash ?? null,
+      addedAt: job.createdAt.getTime(),
+      attempts: job.attempts,
+    });
+  }
+
+  private dispatch(task: FeedbackDocumentTask): void {
+    this.pending.set(task.id, task);
+    this.held.add(task.id);
+    this.stats.queued++;
+
+    this.queue.add(() => this.runTask(task)).catch((err) => {
+      logger.error({ id: task.id, uri: task.uri, error: err.message }, "Queue task failed");
+      this.stats.errors++;
+    });
+  }
+
+  /**
+   * Process a task and record the outcome on its job
+   */
+  private async runTask(task: FeedbackDocumentTask): Promise<void> {
+    try {
+      const outcome = await this.processTask(task);
+      if (!this.jobs) return;
+
+      try {
+        await task.persisted;
+        const state = await this.jobs.finish(
+          "feedback_document", task.id, jobPayload(task), WORKER_ID, task.attempts, outcome
+        );
+        if (state === "queued") this.stats.retried++;
+        if (state === "failed") this.stats.failed++;
+      } catch (error: any) {
+        logger.warn({ id: task.id, error: error.message }, "Failed to record feedback document job outcome");
+      }
+    } finally {
+      this.held.delete(task.id);
+    }
+  }
+
+  /**
+   * Fetch, verify and store a single document
+   */
+  private async processTask(task: FeedbackDocumentTask): Promise<MetadataJobOutcome> {
+    const { id, uri } = task;
+
+    try {
+      if (this.pending.get(id) === task) {
+        this.pending.delete(id);
+      }
+      if (!this.pool) return { status: "stale" };
+
+      // Replayed events re-enqueue documents that are already stored
+      const stored = await this.pool.query(
+        `SELECT uri, status FROM feedback_documents WHERE id = $1`,
+        [id]
+      );
+      if (stored.rows[0]?.uri === uri && stored.rows[0].status === "ok") {
+        this.stats.skippedDuplicate++;
+        return { status: "stale" };
+      }
+
+      const document = digestFeedbackDocument(await fetchUriContent(uri), task.expectedHash);
+      metadataDigestsTotal.inc({ queue: "feedback_document", status: document.status });
+
+      await this.pool.query(
+        `INSERT INTO feedback_documents (id, kind, asset, uri, status, error, bytes, expected_hash, content_hash,
+           hash_algorithm, hash_verified, cid_verified, content, fetched_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13::jsonb, NOW())
+         ON CONFLICT (id) DO UPDATE SET
+           uri = EXCLUDED.uri,
+           status = EXCLUDED.status,
+           error = EXCLUDED.error,
+           bytes = EXCLUDED.bytes,
+           expected_hash = EXCLUDED.expected_hash,
+           content_hash = EXCLUDED.content_hash,
+           hash_algorithm = EXCLUDED.hash_algorithm,
+           hash_verified = EXCLUDED.hash_verified,
+           cid_verified = EXCLUDED.cid_verified,
+           content = EXCLUDED.content,
+           fetched_at = NOW()`,
+        [
+          id, task.kind, task.asset, uri, document.status, document.error ?? null, document.bytes ?? null,
+          task.expectedHash, document.contentHash ?? null, document.hashAlgorithm ?? null,
+          document.hashVerified, document.cidVerified ?? null,
+          document.content === undefined ? null : JSON.stringify(document.content),
+        ]
+      );
+
+      this.stats.processed++;
+      if (document.hashVerified === true) this.stats.verified++;
+      if (document.hashVerified === false) {
+        this.stats.mismatched++;
+        logger.warn({ id, uri, expectedHash: task.expectedHash }, "Feedback document does not match its on-chain hash");
+      }
+      logger.debug({ id, uri, status: document.status, hashVerified: document.hashVerified }, "Feedback document stored");
+      return { status: document.status, error: document.error };
+    } catch (error: any) {
+      this.stats.errors++;
+      logger.error({ id, uri, error: error.message }, "Feedback document fetch failed");
+      return { status: "error", error: error.message };
+    }
+  }
+
+  /**
+   * Get queue statistics
+   */
+  getStats() {
+    return {
+      ...this.stats,
+      queueSize: this.queue.size,
+      pendingCount: this.pending.size,
+    };
+  }
+
+  /**
+   * Wait for queue to drain (useful for graceful shutdown)
+   */
+  async drain(): Promise<void> {
+    await this.queue.onIdle();
+  }
+
+  /**
+   * Clean up resources for graceful shutdown
+   * Jobs still leased to this worker go back to queued for the next start
+   */
+  async shutdown(): Promise<void> {
+    if (this.statsInterval) {
+      clearInterval(this.statsInterval);
+      this.statsInterval = null;
+    }
+    this.claimer?.stop();
+    this.claimer = null;
+    if (this.jobs) {
+      const released = await this.jobs.release("feedback_document", WORKER_ID);
+      if (released > 0) logger.info({ released }, "Released feedback document jobs");
+    }
+  }
+
+  private logStats(): void {
+    if (this.stats.queued === 0) return;
+    logger.info(this.getStats(), "Feedback document queue stats (60s)");
+  }
+}
+
+// Export singleton instance
+export const feedbackDocumentQueue = new FeedbackDocumentQueue();
@@ -0,0 +1,445 @@
+/**
+ * IPFS / Arweave gateway pools
+ *
+ * Content URIs (ipfs://, /ipfs/, ar://, c1:<cid> pointers) are fetched from
+ * the ordered gateway lists in IPFS_GATEWAYS / ARWEAVE_GATEWAYS. Gateways are
+ * tried in configured order, each with its own timeout, and a failed attempt
+ * hands over to the next one. A gateway failing 3 times in a row is put in
+ * cooldown and only tried after the healthy ones until it answers again.
+ * Gateways are operator-configured, so unlike agent URIs they are not subject
+ * to SSRF checks (a local Kubo node can sit first in the list).
+ *
+ * With IPFS_VERIFY_CID (default) IPFS content is read as raw blocks
+ * (?format=raw, trustless gateway) and every block is hashed against its CID;
+ * UnixFS files and directory paths are reassembled from the verified blocks.
+ * CIDs that cannot be verified (unparseable, non-sha2-256 hash, sharded
+ * directories, unknown codecs) are fetched as plain paths and reported with
+ * cidVerified: false. Arweave content is not verified.
+ */
+
+import { config, GatewayConfig } from "../config.js";
+import { createChildLogger } from "../logger.js";
+import { metrics, gatewayRequestsTotal, gatewayRequestDurationSeconds, gatewayUp } from "../metrics.js";
+import {
+  Cid,
+  CODEC_DAG_JSON,
+  CODEC_DAG_PB,
+  CODEC_JSON,
+  CODEC_RAW,
+  HASH_IDENTITY,
+  HASH_SHA2_256,
+  decodeDagPb,
+  decodeUnixFs,
+  formatCid,
+  parseCid,
+  verifyBlock,
+} from "../utils/cid.js";
+
+const logger = createChildLogger("gateways");
+
+const LATENCY_ALPHA = 0.2; // EWMA smoothing for latency
+const CIRCUIT_FAILURES = 3; // Consecutive failures before cooldown
+const BASE_COOLDOWN_MS = 30000;
+const MAX_COOLDOWN_MS = 600000;
+const MAX_BLOCKS = 64; // Blocks per verified read (path directories + file chunks)
+const MAX_BLOCK_BYTES = 1048576; // 1 MiB, the usual IPFS block size limit
+const RAW_BLOCK_TYPE = "application/vnd.ipld.raw";
+
+export type GatewayNetwork = "ipfs" | "arweave";
+
+export type GatewayFetchStatus = "ok" | "timeout" | "error" | "oversize" | "cid_mismatch";
+
+export interface GatewayFetchResult {
+  status: GatewayFetchStatus;
+  error?: string;
+  body?: Buffer;
+  bytes?: number;
+  gateway?: string;
+  cidVerified?: boolean; // IPFS only
+}
+
+export interface GatewayStats {
+  name: string;
+  url: string;
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  healthy: boolean;
+}
+
+interface GatewayState {
+  config: GatewayConfig;
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+}
+
+interface AttemptErrorOptions {
+  fault: boolean; // Counts against the gateway's health
+  final?: boolean; // Every gateway would answer the same, stop failing over
+  bytes?: number;
+}
+
+/**
+ * Failed attempt on one gateway; `outcome` is the metrics label
+ */
+class GatewayAttemptError extends Error {
+  constructor(
+    message: string,
+    readonly status: GatewayFetchStatus,
+    readonly outcome: string,
+    readonly options: AttemptErrorOptions
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The CID cannot be checked; the caller falls back to an unverified fetch
+ */
+class UnverifiableCidError extends Error {}
+
+function toAttemptError(error: unknown): GatewayAttemptError {
+  if (error instanceof GatewayAttemptError) return error;
+  if (error instanceof Error && error.name === "AbortError") {
+    return new GatewayAttemptError("Gateway timed out", "timeout", "timeout", { fault: true });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new GatewayAttemptError(message, "error", "error", { fault: true });
+}
+
+async function httpGet(url: string, accept: string, signal: AbortSignal): Promise<Response> {
+  const response = await fetch(url, {
+    signal,
+    redirect: "follow",
+    headers: {
+      Accept: accept,
+      "User-Agent": "8004-Indexer/1.0",
+    },
+  });
+  if (!response.ok) {
+    const notFound = response.status === 404 || response.status === 410;
+    throw new GatewayAttemptError(`HTTP ${response.status}`, "error", notFound ? "not_found" : "error", {
+      fault: response.status >= 500 || response.status === 429,
+    });
+  }
+  return response;
+}
+
+async function readBody(response: Response, maxBytes: number): Promise<Buffer> {
+  const contentLength = response.headers.get("content-length");
+  if (contentLength && parseInt(contentLength, 10) > maxBytes) {
+    const bytes = parseInt(contentLength, 10);
+    throw new GatewayAttemptError("Content too large", "oversize", "oversize", { fault: false, final: true, bytes });
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new GatewayAttemptError("No response body", "error", "error", { fault: true });
+  }
+
+  const chunks: Uint8Array[] = [];
+  let totalBytes = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    totalBytes += value.length;
+    if (totalBytes > maxBytes) {
+      reader.cancel();
+      throw new GatewayAttemptError("Content too large", "oversize", "oversize", { fault: false, final: true, bytes: totalBytes });
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function contentError(message: string, outcome = "error"): GatewayAttemptError {
+  return new GatewayAttemptError(message, "error", outcome, { fault: false, final: true });
+}
+
+/**
+ * Reads a UnixFS file (optionally below a directory path) from one gateway,
+ * hashing every block against the CID it was requested for
+ */
+class VerifiedReader {
+  private blocks = 0;
+  private contentBytes = 0;
+
+  constructor(
+    private gateway: GatewayConfig,
+    private signal: AbortSignal
+  ) {}
+
+  async read(root: Cid, path: string[]): Promise<Buffer> {
+    let cid = root;
+    for (const segment of path) {
+      if (cid.codec !== CODEC_DAG_PB) {
+        throw new UnverifiableCidError(`Cannot resolve a path below codec 0x${cid.codec.toString(16)}`);
+      }
+      const node = this.decode(await this.block(cid));
+      if (node.type === "hamt-sharded-directory") {
+        throw new UnverifiableCidError("Sharded directories are not supported");
+      }
+      if (node.type !== "directory") {
+        throw contentError(`'${segment}' is not below a directory`);
+      }
+      const link = node.links.find((l) => l.name === segment);
+      if (!link) {
+        throw contentError(`No entry '${segment}' in directory`, "not_found");
+      }
+      cid = link.cid;
+    }
+    return this.readFile(cid);
+  }
+
+  private async readFile(cid: Cid): Promise<Buffer> {
+    if (cid.codec === CODEC_RAW || cid.codec === CODEC_JSON || cid.codec === CODEC_DAG_JSON) {
+      return this.count(await this.block(cid));
+    }
+    if (cid.codec !== CODEC_DAG_PB) {
+      throw new UnverifiableCidError(`Unsupported codec 0x${cid.codec.toString(16)}`);
+    }
+
+    const node = this.decode(await this.block(cid));
+    if (node.type !== "file" && node.type !== "raw") {
+      throw contentError(`CID is a ${node.type}, not a file`);
+    }
+    const parts = [this.count(Buffer.from(node.data ?? []))];
+    for (const link of node.links) {
+      parts.push(await this.readFile(link.cid));
+    }
+    return Buffer.concat(parts);
+  }
+
+  private decode(block: Buffer) {
+    try {
+      const node = decodeDagPb(block);
+      if (!node.data) throw new Error("dag-pb node without UnixFS data");
+      const unixfs = decodeUnixFs(node.data);
+      return { links: node.links, type: unixfs.type, data: unixfs.data };
+    } catch (error) {
+      throw contentError(`Invalid UnixFS block: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private count(content: Buffer): Buffer {
+    this.contentBytes += content.length;
+    if (this.contentBytes > config.metadataMaxBytes) {
+      throw new GatewayAttemptError("Content too large", "oversize", "oversize", { fault: false, final: true, bytes: this.contentBytes });
+    }
+    return content;
+  }
+
+  private async block(cid: Cid): Promise<Buffer> {
+    // Identity multihash: the block is inlined in the CID
+    if (cid.hashCode === HASH_IDENTITY) return Buffer.from(cid.digest);
+    if (cid.hashCode !== HASH_SHA2_256) {
+      throw new UnverifiableCidError(`Unsupported multihash 0x${cid.hashCode.toString(16)}`);
+    }
+    if (++this.blocks > MAX_BLOCKS) {
+      throw contentError(`Content spans more than ${MAX_BLOCKS} blocks`);
+    }
+
+    const cidText = formatCid(cid);
+    const response = await httpGet(`${this.gateway.url}/ipfs/${cidText}?format=raw`, RAW_BLOCK_TYPE, this.signal);
+    const contentType = response.headers.get("content-type");
+    if (contentType && !contentType.includes(RAW_BLOCK_TYPE)) {
+      throw new GatewayAttemptError(`Gateway returned ${contentType} instead of a raw block`, "error", "error", { fault: true });
+    }
+    const block = await readBody(response, MAX_BLOCK_BYTES);
+    if (!verifyBlock(cid, block)) {
+      throw new GatewayAttemptError(`Block ${cidText} does not match its CID`, "cid_mismatch", "cid_mismatch", { fault: true });
+    }
+    return block;
+  }
+}
+
+export class GatewayPool {
+  private gateways: GatewayState[];
+
+  constructor(
+    readonly network: GatewayNetwork,
+    gateways: GatewayConfig[]
+  ) {
+    if (gateways.length === 0) {
+      throw new Error(`${network} gateway pool needs at least one gateway`);
+    }
+    this.gateways = gateways.map((gateway) => ({
+      config: gateway,
+      latencyMs: null,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    }));
+  }
+
+  /**
+   * Run an attempt on each candidate gateway until one succeeds or a
+   * failure is final. Returns the last failure when every gateway failed.
+   */
+  async fetch(
+    attempt: (gateway: GatewayConfig, signal: AbortSignal) => Promise<GatewayFetchResult>
+  ): Promise<GatewayFetchResult> {
+    let last: GatewayFetchResult = { status: "error", error: "No gateway available" };
+
+    for (const gateway of this.rank()) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), gateway.config.timeoutMs ?? config.metadataTimeoutMs);
+      const startTime = Date.now();
+      try {
+        const result = await attempt(gateway.config, controller.signal);
+        this.recordSuccess(gateway, Date.now() - startTime);
+        return { ...result, gateway: gateway.config.name };
+      } catch (error) {
+        const failure = toAttemptError(error);
+        this.recordFailure(gateway, failure);
+        last = {
+          status: failure.status,
+          error: failure.message,
+          bytes: failure.options.bytes,
+          gateway: gateway.config.name,
+        };
+        if (failure.options.final) break;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+
+    return last;
+  }
+
+  getStats(): GatewayStats[] {
+    const now = Date.now();
+    return this.gateways.map((g) => ({
+      name: g.config.name,
+      url: g.config.url,
+      latencyMs: g.latencyMs === null ? null : Math.round(g.latencyMs),
+      consecutiveFailures: g.consecutiveFailures,
+      healthy: g.cooldownUntil <= now,
+    }));
+  }
+
+  collectMetrics(): void {
+    const now = Date.now();
+    for (const gateway of this.gateways) {
+      gatewayUp.set({ network: this.network, gateway: gateway.config.name }, gateway.cooldownUntil <= now ? 1 : 0);
+    }
+  }
+
+  /**
+   * Healthy gateways in configured order, then gateways in cooldown
+   * (soonest to reopen first) as last resort
+   */
+  private rank(): GatewayState[] {
+    const now = Date.now();
+    const healthy = this.gateways.filter((g) => g.cooldownUntil <= now);
+    const cooling = this.gateways
+      .filter((g) => g.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    return healthy.concat(cooling);
+  }
+
+  private recordSuccess(gateway: GatewayState, latencyMs: number): void {
+    gateway.latencyMs = gateway.latencyMs === null
+      ? latencyMs
+      : gateway.latencyMs + LATENCY_ALPHA * (latencyMs - gateway.latencyMs);
+    gateway.consecutiveFailures = 0;
+    if (gateway.cooldownUntil > 0) {
+      gateway.cooldownUntil = 0;
+      logger.info({ network: this.network, gateway: gateway.config.name }, "Gateway recovered");
+    }
+    gatewayRequestsTotal.inc({ network: this.network, gateway: gateway.config.name, outcome: "ok" });
+    gatewayRequestDurationSeconds.observe(latencyMs / 1000, { gateway: gateway.config.name });
+  }
+
+  private recordFailure(gateway: GatewayState, failure: GatewayAttemptError): void {
+    gatewayRequestsTotal.inc({ network: this.network, gateway: gateway.config.name, outcome: failure.outcome });
+    if (!failure.options.fault) {
+      logger.debug({ network: this.network, gateway: gateway.config.name, error: failure.message }, "Gateway fetch failed");
+      return;
+    }
+
+    gateway.consecutiveFailures++;
+    logger.warn({
+      network: this.network,
+      gateway: gateway.config.name,
+      consecutiveFailures: gateway.consecutiveFailures,
+      error: failure.message,
+    }, "Gateway fetch failed");
+
+    if (gateway.consecutiveFailures >= CIRCUIT_FAILURES) {
+      const cooldown = Math.min(
+        BASE_COOLDOWN_MS * 2 ** (gateway.consecutiveFailures - CIRCUIT_FAILURES),
+        MAX_COOLDOWN_MS
+      );
+      const wasHealthy = gateway.cooldownUntil <= Date.now();
+      gateway.cooldownUntil = Date.now() + cooldown;
+      if (wasHealthy) {
+        logger.warn({ network: this.network, gateway: gateway.config.name, cooldownMs: cooldown }, "Gateway unhealthy, failing over");
+      }
+    }
+  }
+}
+
+const pools = new Map<GatewayNetwork, GatewayPool>();
+
+/**
+ * Process-wide pool built from IPFS_GATEWAYS / ARWEAVE_GATEWAYS
+ */
+export function getGatewayPool(network: GatewayNetwork): GatewayPool {
+  let pool = pools.get(network);
+  if (!pool) {
+    const created = new GatewayPool(network, network === "ipfs" ? config.ipfsGateways : config.arweaveGateways);
+    metrics.registerCollector(`gateways-${network}`, () => created.collectMetrics());
+    pools.set(network, created);
+    pool = created;
+  }
+  return pool;
+}
+
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Fetch `<cid>[/path]` from the IPFS gateways, verifying blocks when possible
+ */
+export async function fetchIpfsContent(cidPath: string): Promise<GatewayFetchResult> {
+  const [cidText, ...segments] = cidPath.split(/[?#]/)[0].split("/");
+  if (!cidText) {
+    return { status: "error", error: "Missing CID" };
+  }
+  const cid = config.ipfsVerifyCid ? parseCid(cidText) : null;
+  const path = segments.filter((s) => s !== "").map(decodePathSegment);
+
+  return getGatewayPool("ipfs").fetch(async (gateway, signal) => {
+    if (cid) {
+      try {
+        const body = await new VerifiedReader(gateway, signal).read(cid, path);
+        return { status: "ok", body, bytes: body.length, cidVerified: true };
+      } catch (error) {
+        if (!(error instanceof UnverifiableCidError)) throw error;
+        logger.debug({ cidPath, reason: error.message }, "CID cannot be verified, fetching unverified");
+      }
+    }
+    const response = await httpGet(`${gateway.url}/ipfs/${cidPath}`, "application/json", signal);
+    const body = await readBody(response, config.metadataMaxBytes);
+    return { status: "ok", body, bytes: body.length, cidVerified: false };
+  });
+}
+
+/**
+ * Fetch `<txid>[/path]` from the Arweave gateways
+ */
+export async function fetchArweaveContent(path: string): Promise<GatewayFetchResult> {
+  if (!path) {
+    return { status: "error", error: "Missing transaction id" };
+  }
+  return getGatewayPool("arweave").fetch(async (gateway, signal) => {
+    const response = await httpGet(`${gateway.url}/${path}`, "application/json", signal);
+    const body = await readBody(response, config.metadataMaxBytes);
+    return { status: "ok", body, bytes: body.length };
+  });
+}
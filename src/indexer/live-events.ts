@@ -0,0 +1,269 @@
+/**
+ * In-process live event bus
+ *
+ * Program events are published after their DB transaction commits, and verifier
+ * status transitions after the status update, so push consumers (GraphQL
+ * subscriptions, REST SSE stream) only ever observe committed state. Publishing
+ * is a no-op without listeners or retained history and never throws into the
+ * indexing path.
+ */
+
+import { EventEmitter } from "events";
+import { createChildLogger } from "../logger.js";
+import { toJsonSafe } from "../webhooks/outbox.js";
+
+const logger = createChildLogger("live-events");
+
+// Per-iterator buffer; a consumer that falls further behind is cut off
+const MAX_BUFFERED_EVENTS = 100;
+
+/**
+ * Thrown by an iterator once its consumer fell more than MAX_BUFFERED_EVENTS
+ * behind, after the buffered events were read. Nothing is dropped silently:
+ * the consumer has to reconnect (SSE clients resume from history).
+ */
+export class LiveEventOverflowError extends Error {
+  constructor() {
+    super(`Consumer fell more than ${MAX_BUFFERED_EVENTS} events behind`);
+    this.name = "LiveEventOverflowError";
+  }
+}
+
+export type VerifiedEntity =
+  | "agent"
+  | "feedback"
+  | "response"
+  | "revocation"
+  | "validation"
+  | "metadata"
+  | "registry";
+
+export interface LiveProgramEvent {
+  type: string;
+  asset: string | null;
+  client: string | null;
+  data: Record<string, unknown>; // JSON-safe (see toJsonSafe)
+  signature: string;
+  slot: bigint;
+  blockTime: Date;
+  txIndex: number | null;
+  eventOrdinal: number;
+}
+
+export interface LiveVerificationEvent {
+  entity: VerifiedEntity;
+  id: string; // DB row id (asset for agents, collection for registries)
+  asset: string | null;
+  status: "PENDING" | "FINALIZED" | "ORPHANED";
+  at: Date;
+}
+
+interface LiveEventMap {
+  event: [LiveProgramEvent];
+  verification: [LiveVerificationEvent];
+}
+
+type Channel = keyof LiveEventMap;
+type Payload<K extends Channel> = LiveEventMap[K][0];
+
+export interface LiveEventPosition {
+  slot: bigint;
+  txIndex: number | null;
+  eventOrdinal: number;
+}
+
+/**
+ * Stable stream id "<slot>:<txIndex>:<eventOrdinal>" (txIndex empty when unknown)
+ */
+export function formatLiveEventId(position: LiveEventPosition): string {
+  return `${position.slot}:${position.txIndex ?? ""}:${position.eventOrdinal}`;
+}
+
+export function parseLiveEventId(id: string): LiveEventPosition | null {
+  const match = /^(\d{1,20}):(\d{0,10}):(\d{1,6})$/.exec(id.trim());
+  if (!match) return null;
+  return {
+    slot: BigInt(match[1]),
+    txIndex: match[2] === "" ? null : Number(match[2]),
+    eventOrdinal: Number(match[3]),
+  };
+}
+
+/**
+ * Chain order: slot, then tx_index (unknown sorts last), then event ordinal
+ */
+export function compareLiveEventPosition(a: LiveEventPosition, b: LiveEventPosition): number {
+  if (a.slot !== b.slot) return a.slot < b.slot ? -1 : 1;
+  const ta = a.txIndex ?? Number.MAX_SAFE_INTEGER;
+  const tb = b.txIndex ?? Number.MAX_SAFE_INTEGER;
+  if (ta !== tb) return ta - tb;
+  return a.eventOrdinal - b.eventOrdinal;
+}
+
+class LiveEventBus {
+  private emitter = new EventEmitter<LiveEventMap>();
+  private history: LiveProgramEvent[] = [];
+  private historySize = 0;
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publishEvent(
+    event: { type: string; data: object },
+    ctx: { signature: string; slot: bigint; blockTime: Date; txIndex?: number; eventOrdinal?: number }
+  ): void {
+    if (this.emitter.listenerCount("event") === 0 && this.historySize === 0) return;
+
+    const data = toJsonSafe(event.data) as Record<string, unknown>;
+    const asset = (data.asset ?? (event.type === "RegistryInitialized" ? data.collection : null)) as string | null;
+    const live: LiveProgramEvent = {
+      type: event.type,
+      asset,
+      client: (data.clientAddress ?? data.client ?? null) as string | null,
+      data,
+      signature: ctx.signature,
+      slot: ctx.slot,
+      blockTime: ctx.blockTime,
+      txIndex: ctx.txIndex ?? null,
+      eventOrdinal: ctx.eventOrdinal ?? 0,
+    };
+
+    if (this.historySize > 0) {
+      this.history.push(live);
+      if (this.history.length > this.historySize) {
+        this.history.shift();
+      }
+    }
+    this.emit("event", live);
+  }
+
+  /**
+   * Retain the last `size` program events for resume (0 disables and clears)
+   */
+  setHistorySize(size: number): void {
+    this.historySize = Math.max(0, size);
+    if (this.history.length > this.historySize) {
+      this.history.splice(0, this.history.length - this.historySize);
+    }
+  }
+
+  /**
+   * Retained events after `position`, in chain order. `complete` is false when
+   * the history no longer reaches back to `position` and events may be missing.
+   */
+  eventsAfter(position: LiveEventPosition): { events: LiveProgramEvent[]; complete: boolean } {
+    const events = this.history
+      .filter((e) => compareLiveEventPosition(e, position) > 0)
+      .sort(compareLiveEventPosition);
+    const covered = this.history.some((e) => compareLiveEventPosition(e, position) <= 0);
+    return { events, complete: covered };
+  }
+
+  publishVerification(
+    entity: VerifiedEntity,
+    ids: string[],
+    asset: string | null,
+    status: LiveVerificationEvent["status"],
+    at: Date
+  ): void {
+    if (this.emitter.listenerCount("verification") === 0) return;
+    for (const id of ids) {
+      this.emit("verification", { entity, id, asset, status, at });
+    }
+  }
+
+  /**
+   * Register a listener; returns the unsubscribe function
+   */
+  on<K extends Channel>(channel: K, listener: (payload: Payload<K>) => void): () => void {
+    const fn = listener as (...args: LiveEventMap[K]) => void;
+    this.emitter.on(channel, fn as any);
+    return () => {
+      this.emitter.off(channel, fn as any);
+    };
+  }
+
+  listenerCount(channel: Channel): number {
+    return this.emitter.listenerCount(channel);
+  }
+
+  /**
+   * Async iterator over matching payloads. Ending the iteration (return())
+   * removes the listener. On buffer overflow the listener is removed and
+   * next() rejects with LiveEventOverflowError once the buffer is drained.
+   */
+  iterate<K extends Channel>(
+    channel: K,
+    predicate: (payload: Payload<K>) => boolean = () => true
+  ): AsyncIterableIterator<Payload<K>> {
+    const buffer: Payload<K>[] = [];
+    let waiting: ((result: IteratorResult<Payload<K>>) => void) | null = null;
+    let done = false;
+    let overflowed = false;
+
+    const off = this.on(channel, (payload) => {
+      if (done || overflowed || !predicate(payload)) return;
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value: payload, done: false });
+        return;
+      }
+      if (buffer.length >= MAX_BUFFERED_EVENTS) {
+        overflowed = true;
+        off();
+        logger.warn({ channel, buffered: buffer.length }, "Live event consumer fell behind, closing it");
+        return;
+      }
+      buffer.push(payload);
+    });
+
+    const finish = (): Promise<IteratorResult<Payload<K>>> => {
+      if (!done) {
+        done = true;
+        off();
+        buffer.length = 0;
+        if (waiting) {
+          waiting({ value: undefined, done: true });
+          waiting = null;
+        }
+      }
+      return Promise.resolve({ value: undefined, done: true });
+    };
+
+    return {
+      next(): Promise<IteratorResult<Payload<K>>> {
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift()!, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        if (overflowed) {
+          void finish();
+          return Promise.reject(new LiveEventOverflowError());
+        }
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: finish,
+      throw: finish,
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  private emit<K extends Channel>(channel: K, payload: Payload<K>): void {
+    try {
+      (this.emitter.emit as (event: K, payload: Payload<K>) => boolean)(channel, payload);
+    } catch (error) {
+      logger.warn({ channel, error: error instanceof Error ? error.message : String(error) },
+        "Live event listener failed");
+    }
+  }
+}
+
+export const liveEvents = new LiveEventBus();
@@ -0,0 +1,390 @@
+/**
+ * Durable metadata jobs - the metadata_jobs table behind the URI / collection /
+ * feedback document queues (Supabase mode)
+ *
+ * Every task is persisted before it runs, so work survives restarts and full
+ * in-memory queues. Jobs move queued -> running -> done | failed; a running job
+ * is leased to one worker, which renews the lease while the task waits in its
+ * in-memory queue and runs. An expired lease (the worker died) makes the job
+ * claimable again, which lets several indexer replicas share the table. Failed digests are retried
+ * with a backoff that depends on the DigestStatus.
+ */
+
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { Pool } from "pg";
+import { createChildLogger } from "../logger.js";
+import type { DigestStatus } from "./uriDigest.js";
+
+const logger = createChildLogger("metadata-jobs");
+
+export const METADATA_JOB_QUEUES = ["agent", "collection", "feedback_document"] as const;
+export const METADATA_JOB_STATES = ["queued", "running", "done", "failed"] as const;
+
+export type MetadataJobQueue = (typeof METADATA_JOB_QUEUES)[number];
+export type MetadataJobState = (typeof METADATA_JOB_STATES)[number];
+export type MetadataJobPayload = Record<string, unknown>;
+
+// Identifies this process as a lease owner
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// Covers the per-task timeout of every queue with room to spare
+const LEASE_MS = 120_000;
+const RENEW_INTERVAL_MS = LEASE_MS / 4;
+const CLAIM_INTERVAL_MS = 5_000;
+const PRUNE_INTERVAL_MS = 3_600_000;
+const DONE_RETENTION_HOURS = 24;
+const BACKOFF_MAX_MS = 6 * 3_600_000;
+const MAX_ERROR_LENGTH = 500;
+
+interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+}
+
+/**
+ * Retries per DigestStatus. Statuses without a policy are final: oversize,
+ * invalid_json and blocked would come back the same on every fetch.
+ */
+const RETRY_POLICIES: Partial<Record<DigestStatus, RetryPolicy>> = {
+  timeout: { maxAttempts: 5, baseDelayMs: 30_000 },
+  error: { maxAttempts: 5, baseDelayMs: 60_000 },
+  cid_mismatch: { maxAttempts: 3, baseDelayMs: 600_000 },
+};
+
+/**
+ * Result of running one task: a DigestStatus, or "stale" when the
+ * agent / pointer changed before the task ran and there is nothing to do
+ */
+export interface MetadataJobOutcome {
+  status: DigestStatus | "stale";
+  error?: string;
+}
+
+export interface MetadataJob {
+  id: string;
+  queue: MetadataJobQueue;
+  key: string;
+  payload: MetadataJobPayload;
+  state: MetadataJobState;
+  attempts: number;
+  lastStatus: string | null;
+  lastError: string | null;
+  runAfter: Date;
+  leaseOwner: string | null;
+  leaseExpiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MetadataJobFilter {
+  state?: MetadataJobState;
+  queue?: MetadataJobQueue;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * State after an attempt, and the delay before the next one when it is retried
+ */
+export function nextJobState(
+  outcome: MetadataJobOutcome,
+  attempts: number
+): { state: MetadataJobState; delayMs: number } {
+  if (outcome.status === "ok" || outcome.status === "stale") {
+    return { state: "done", delayMs: 0 };
+  }
+  const policy = RETRY_POLICIES[outcome.status];
+  if (!policy || attempts >= policy.maxAttempts) {
+    return { state: "failed", delayMs: 0 };
+  }
+  const delayMs = Math.min(BACKOFF_MAX_MS, policy.baseDelayMs * 2 ** Math.max(0, attempts - 1));
+  return { state: "queued", delayMs };
+}
+
+function mapJobRow(row: any): MetadataJob {
+  return {
+    id: String(row.id),
+    queue: row.queue,
+    key: row.job_key,
+    payload: row.payload,
+    state: row.state,
+    attempts: row.attempts,
+    lastStatus: row.last_status ?? null,
+    lastError: row.last_error ?? null,
+    runAfter: new Date(row.run_after),
+    leaseOwner: row.lease_owner ?? null,
+    leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export class MetadataJobStore {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Persist the latest task for a key. With an owner the job is written as
+   * running and leased to it (the caller runs it right away); without one it
+   * waits in the table for any worker to claim.
+   */
+  async enqueue(
+    queue: MetadataJobQueue,
+    key: string,
+    payload: MetadataJobPayload,
+    owner: string | null
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO metadata_jobs (queue, job_key, payload, state, attempts, lease_owner, lease_expires_at, run_after, created_at, updated_at)
+       VALUES ($1, $2, $3::jsonb, $4, $5, $6::text,
+               CASE WHEN $6::text IS NULL THEN NULL ELSE NOW() + ($7::int * INTERVAL '1 millisecond') END,
+               NOW(), NOW(), NOW())
+       ON CONFLICT (queue, job_key) DO UPDATE SET
+         payload = EXCLUDED.payload,
+         state = EXCLUDED.state,
+         attempts = EXCLUDED.attempts,
+         last_status = NULL,
+         last_error = NULL,
+         lease_owner = EXCLUDED.lease_owner,
+         lease_expires_at = EXCLUDED.lease_expires_at,
+         run_after = NOW(),
+         updated_at = NOW()`,
+      [queue, key, JSON.stringify(payload), owner ? "running" : "queued", owner ? 1 : 0, owner, LEASE_MS]
+    );
+  }
+
+  /**
+   * Lease due queued jobs, and running jobs whose owner let the lease expire
+   */
+  async claim(queue: MetadataJobQueue, owner: string, limit: number): Promise<MetadataJob[]> {
+    const result = await this.pool.query(
+      `UPDATE metadata_jobs
+       SET state = 'running',
+           attempts = attempts + 1,
+           lease_owner = $2,
+           lease_expires_at = NOW() + ($4::int * INTERVAL '1 millisecond'),
+           updated_at = NOW()
+       WHERE id IN (
+         SELECT id FROM metadata_jobs
+         WHERE queue = $1
+           AND ((state = 'queued' AND run_after <= NOW()) OR (state = 'running' AND lease_expires_at < NOW()))
+         ORDER BY run_after ASC
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [queue, owner, limit, LEASE_MS]
+    );
+    return result.rows.map(mapJobRow);
+  }
+
+  /**
+   * Extend the leases an owner holds on the given keys
+   */
+  async renew(queue: MetadataJobQueue, owner: string, keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    const result = await this.pool.query(
+      `UPDATE metadata_jobs
+       SET lease_expires_at = NOW() + ($4::int * INTERVAL '1 millisecond'), updated_at = NOW()
+       WHERE queue = $1 AND lease_owner = $2 AND state = 'running' AND job_key = ANY($3::text[])`,
+      [queue, owner, keys, LEASE_MS]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Record the outcome of a leased job. Matching on owner and payload leaves the
+   * row alone when it was re-enqueued with a newer payload in the meantime.
+   */
+  async finish(
+    queue: MetadataJobQueue,
+    key: string,
+    payload: MetadataJobPayload,
+    owner: string,
+    attempts: number,
+    outcome: MetadataJobOutcome
+  ): Promise<MetadataJobState> {
+    const next = nextJobState(outcome, attempts);
+    await this.pool.query(
+      `UPDATE metadata_jobs
+       SET state = $5,
+           last_status = $6,
+           last_error = $7,
+           run_after = NOW() + ($8::int * INTERVAL '1 millisecond'),
+           lease_owner = NULL,
+           lease_expires_at = NULL,
+           updated_at = NOW()
+       WHERE queue = $1 AND job_key = $2 AND payload = $3::jsonb AND lease_owner = $4 AND state = 'running'`,
+      [
+        queue, key, JSON.stringify(payload), owner,
+        next.state, outcome.status, outcome.error?.slice(0, MAX_ERROR_LENGTH) ?? null, next.delayMs,
+      ]
+    );
+    return next.state;
+  }
+
+  /**
+   * Hand back the jobs of a queue leased to an owner (graceful shutdown)
+   */
+  async release(queue: MetadataJobQueue, owner: string): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE metadata_jobs
+       SET state = 'queued', lease_owner = NULL, lease_expires_at = NULL, run_after = NOW(), updated_at = NOW()
+       WHERE queue = $1 AND lease_owner = $2 AND state = 'running'`,
+      [queue, owner]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async prune(queue: MetadataJobQueue): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM metadata_jobs
+       WHERE queue = $1 AND state = 'done' AND updated_at < NOW() - ($2::int * INTERVAL '1 hour')`,
+      [queue, DONE_RETENTION_HOURS]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  // ============================================
+  // Admin
+  // ============================================
+
+  async list(filter: MetadataJobFilter): Promise<MetadataJob[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM metadata_jobs
+       WHERE ($1::text IS NULL OR state = $1) AND ($2::text IS NULL OR queue = $2)
+       ORDER BY updated_at DESC, id DESC
+       LIMIT $3 OFFSET $4`,
+      [filter.state ?? null, filter.queue ?? null, filter.limit, filter.offset]
+    );
+    return result.rows.map(mapJobRow);
+  }
+
+  async get(id: string): Promise<MetadataJob | null> {
+    const result = await this.pool.query(`SELECT * FROM metadata_jobs WHERE id = $1`, [id]);
+    return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+  }
+
+  async countByState(): Promise<Array<{ queue: MetadataJobQueue; state: MetadataJobState; count: number }>> {
+    const result = await this.pool.query(
+      `SELECT queue, state, COUNT(*)::int AS count FROM metadata_jobs GROUP BY queue, state ORDER BY queue, state`
+    );
+    return result.rows.map((row: any) => ({ queue: row.queue, state: row.state, count: row.count }));
+  }
+
+  /**
+   * Re-queue a failed job with a fresh attempt budget
+   */
+  async retry(id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE metadata_jobs
+       SET state = 'queued', attempts = 0, run_after = NOW(), updated_at = NOW()
+       WHERE id = $1 AND state = 'failed'`,
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+/**
+ * Keys of the jobs a queue holds in memory (waiting or running). A key can be
+ * held twice when a newer task for it is dispatched before the older one ends.
+ */
+export class HeldJobs {
+  private counts = new Map<string, number>();
+
+  add(key: string): void {
+    this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+  }
+
+  delete(key: string): void {
+    const count = this.counts.get(key) ?? 0;
+    if (count <= 1) {
+      this.counts.delete(key);
+    } else {
+      this.counts.set(key, count - 1);
+    }
+  }
+
+  keys(): string[] {
+    return Array.from(this.counts.keys());
+  }
+}
+
+/**
+ * Periodically claims jobs of one queue for this worker: tasks persisted while
+ * the in-memory queue was full, retries that came due, work enqueued by other
+ * replicas and jobs whose owner died. Also renews the leases of the jobs the
+ * queue holds, so a long in-memory backlog is not claimed by another replica.
+ */
+export class MetadataJobClaimer {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private claimInProgress = false;
+  private lastPruneAt = 0;
+  private lastRenewAt = 0;
+
+  constructor(
+    private queue: MetadataJobQueue,
+    private store: MetadataJobStore,
+    private capacity: () => number,
+    private dispatch: (job: MetadataJob) => void,
+    private held: HeldJobs
+  ) {}
+
+  start(): void {
+    if (this.interval) return;
+    this.lastRenewAt = Date.now();
+    this.interval = setInterval(() => {
+      if (Date.now() - this.lastRenewAt >= RENEW_INTERVAL_MS) {
+        this.lastRenewAt = Date.now();
+        void this.renewOnce();
+      }
+      void this.claimOnce();
+    }, CLAIM_INTERVAL_MS);
+    this.interval.unref?.();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async renewOnce(): Promise<number> {
+    try {
+      return await this.store.renew(this.queue, WORKER_ID, this.held.keys());
+    } catch (error: any) {
+      logger.warn({ queue: this.queue, error: error.message }, "Metadata job lease renewal failed");
+      return 0;
+    }
+  }
+
+  async claimOnce(): Promise<number> {
+    if (this.claimInProgress) return 0;
+    this.claimInProgress = true;
+    try {
+      const limit = this.capacity();
+      const jobs = limit > 0 ? await this.store.claim(this.queue, WORKER_ID, limit) : [];
+      for (const job of jobs) {
+        this.dispatch(job);
+      }
+      if (jobs.length > 0) {
+        logger.debug({ queue: this.queue, count: jobs.length }, "Claimed metadata jobs");
+      }
+
+      if (Date.now() - this.lastPruneAt >= PRUNE_INTERVAL_MS) {
+        this.lastPruneAt = Date.now();
+        const pruned = await this.store.prune(this.queue);
+        if (pruned > 0) logger.info({ queue: this.queue, pruned }, "Pruned finished metadata jobs");
+      }
+      return jobs.length;
+    } catch (error: any) {
+      // Claimed rows keep their lease and are picked up again once it expires
+      logger.warn({ queue: this.queue, error: error.message }, "Metadata job claim failed");
+      return 0;
+    } finally {
+      this.claimInProgress = false;
+    }
+  }
+}
@@ -5,15 +5,19 @@
  * - Concurrency limit to avoid overwhelming IPFS gateways
  * - Deduplication to skip redundant fetches
  * - Freshness check before writes to prevent stale overwrites
+ * - Durable jobs (metadata_jobs) so tasks survive restarts and full queues
+ * - Refresh tasks: conditional re-fetch that only rewrites _uri:* when the file hash changed
  */
 
 import PQueue from "p-queue";
 import { createHash } from "crypto";
 import { Pool } from "pg";
-import { digestUri, serializeValue } from "./uriDigest.js";
+import { digestUri, serializeValue, type HttpValidators, type UriDigestResult } from "./uriDigest.js";
+import { HeldJobs, MetadataJob, MetadataJobClaimer, MetadataJobOutcome, MetadataJobStore, WORKER_ID } from "./metadata-jobs.js";
 import { compressForStorage } from "../utils/compression.js";
 import { config } from "../config.js";
 import { createChildLogger } from "../logger.js";
+import { metrics, metadataDigestsTotal, metadataQueueSize, metadataQueuePending } from "../metrics.js";
 
 const logger = createChildLogger("metadata-queue");
 
@@ -22,6 +26,7 @@ const CONCURRENCY = 10;        // Max parallel URI fetches
 const INTERVAL = 100;          // Min 100ms between operations (rate limiting)
 const TIMEOUT_MS = 30000;      // 30s timeout per operation
 const MAX_QUEUE_SIZE = 5000;   // Max pending tasks in queue (memory protection)
+const MAX_CLAIMED = CONCURRENCY * 2; // Persisted jobs claimed into memory at a time
 
 import { STANDARD_URI_FIELDS } from "../constants.js";
 
@@ -29,6 +34,32 @@ export interface MetadataTask {
   assetId: string;
   uri: string;
   addedAt: number;
+  attempts: number;
+  refresh?: boolean; // scheduled re-fetch of an already digested URI
+  slot?: string; // slot / signature of the event that set the URI
+  signature?: string;
+  persisted?: Promise<void>; // job row written (resolves on failure too)
+}
+
+interface UriRefreshState {
+  uri: string;
+  etag: string | null;
+  last_modified: string | null;
+  content_hash: string | null;
+}
+
+export interface MetadataTaskOptions {
+  refresh?: boolean;
+  slot?: bigint;
+  signature?: string;
+}
+
+function jobPayload(task: Pick<MetadataTask, "uri" | "refresh" | "slot" | "signature">): Record<string, unknown> {
+  const payload: Record<string, unknown> = { uri: task.uri };
+  if (task.refresh) payload.refresh = true;
+  if (task.slot !== undefined) payload.slot = task.slot;
+  if (task.signature !== undefined) payload.signature = task.signature;
+  return payload;
 }
 
 /**
@@ -38,6 +69,9 @@ export interface MetadataTask {
 class MetadataQueue {
   private queue: PQueue;
   private pool: Pool | null = null;
+  private jobs: MetadataJobStore | null = null;
+  private claimer: MetadataJobClaimer | null = null;
+  private held = new HeldJobs(); // job keys leased to this worker while in memory
   private pending = new Map<string, MetadataTask>(); // assetId -> latest task
   private statsInterval: NodeJS.Timeout | null = null;
   private stats = {
@@ -45,6 +79,10 @@ class MetadataQueue {
     processed: 0,
     skippedStale: 0,
     skippedDuplicate: 0,
+    unchanged: 0,
+    deferred: 0,
+    retried: 0,
+    failed: 0,
     errors: 0,
   };
 
@@ -57,6 +95,11 @@ class MetadataQueue {
     });
 
     this.statsInterval = setInterval(() => this.logStats(), 60000);
+
+    metrics.registerCollector("agent-metadata-queue", () => {
+      metadataQueueSize.set({ queue: "agent" }, this.queue.size);
+      metadataQueuePending.set({ queue: "agent" }, this.pending.size);
+    });
   }
 
   /**
@@ -64,13 +107,29 @@ class MetadataQueue {
    */
   setPool(pool: Pool): void {
     this.pool = pool;
+    this.jobs = pool ? new MetadataJobStore(pool) : null;
+  }
+
+  /**
+   * Start claiming persisted jobs (restarts, overflow, retries, other replicas)
+   */
+  start(): void {
+    if (!this.jobs || this.claimer) return;
+    this.claimer = new MetadataJobClaimer(
+      "agent",
+      this.jobs,
+      () => MAX_CLAIMED - (this.queue.size + this.queue.pending),
+      (job) => this.dispatchJob(job),
+      this.held
+    );
+    this.claimer.start();
   }
 
   /**
    * Add a URI extraction task to the queue
    * Deduplicates by keeping only the latest URI per asset
    */
-  add(assetId: string, uri: string): void {
+  add(assetId: string, uri: string, options: MetadataTaskOptions = {}): void {
     if (!uri || config.metadataIndexMode === "off") {
       return;
     }
@@ -83,9 +142,22 @@ class MetadataQueue {
       return;
     }
 
-    // Reject if queue is at capacity
+    const trigger = {
+      refresh: options.refresh,
+      slot: options.slot?.toString(),
+      signature: options.signature,
+    };
+
+    // At capacity: leave the job in the table for the claimer
     if (this.queue.size + this.queue.pending >= MAX_QUEUE_SIZE) {
-      logger.warn({ assetId, queueSize: this.queue.size }, "Metadata queue full, rejecting task");
+      if (this.jobs) {
+        this.stats.deferred++;
+        this.jobs.enqueue("agent", assetId, jobPayload({ uri, ...trigger }), null).catch((err) => {
+          logger.error({ assetId, uri, error: err.message }, "Failed to persist metadata job");
+        });
+      } else {
+        logger.warn({ assetId, queueSize: this.queue.size }, "Metadata queue full, rejecting task");
+      }
       return;
     }
 
@@ -94,23 +166,75 @@ class MetadataQueue {
       assetId,
       uri,
       addedAt: Date.now(),
+      attempts: 1,
+      ...trigger,
+      persisted: this.jobs?.enqueue("agent", assetId, jobPayload({ uri, ...trigger }), WORKER_ID).catch((err) => {
+        logger.error({ assetId, uri, error: err.message }, "Failed to persist metadata job");
+      }),
     };
-    this.pending.set(assetId, task);
+    this.dispatch(task);
+  }
+
+  /**
+   * Run a job claimed from the table
+   */
+  private dispatchJob(job: MetadataJob): void {
+    const uri = typeof job.payload.uri === "string" ? job.payload.uri : "";
+    const existing = this.pending.get(job.key);
+    if (existing && existing.uri === uri) {
+      this.stats.skippedDuplicate++;
+      return;
+    }
+    this.dispatch({
+      assetId: job.key,
+      uri,
+      addedAt: job.createdAt.getTime(),
+      attempts: job.attempts,
+      refresh: job.payload.refresh === true,
+      slot: typeof job.payload.slot === "string" ? job.payload.slot : undefined,
+      signature: typeof job.payload.signature === "string" ? job.payload.signature : undefined,
+    });
+  }
+
+  private dispatch(task: MetadataTask): void {
+    this.pending.set(task.assetId, task);
+    this.held.add(task.assetId);
     this.stats.queued++;
 
     // Fire and forget - don't await
-    this.queue.add(() => this.processTask(task)).catch((err) => {
-      logger.error({ assetId, uri, error: err.message }, "Queue task failed");
+    this.queue.add(() => this.runTask(task)).catch((err) => {
+      logger.error({ assetId: task.assetId, uri: task.uri, error: err.message }, "Queue task failed");
       this.stats.errors++;
     });
   }
 
+  /**
+   * Process a task and record the outcome on its job
+   */
+  private async runTask(task: MetadataTask): Promise<void> {
+    try {
+      const outcome = await this.processTask(task);
+      if (!this.jobs) return;
+
+      try {
+        await task.persisted;
+        const state = await this.jobs.finish("agent", task.assetId, jobPayload(task), WORKER_ID, task.attempts, outcome);
+        if (state === "queued") this.stats.retried++;
+        if (state === "failed") this.stats.failed++;
+      } catch (error: any) {
+        logger.warn({ assetId: task.assetId, error: error.message }, "Failed to record metadata job outcome");
+      }
+    } finally {
+      this.held.delete(task.assetId);
+    }
+  }
+
   /**
    * Add multiple tasks at once (used after batch commit)
    */
-  addBatch(tasks: Array<{ assetId: string; uri: string }>): void {
+  addBatch(tasks: Array<{ assetId: string; uri: string; slot?: bigint; signature?: string }>): void {
     for (const task of tasks) {
-      this.add(task.assetId, task.uri);
+      this.add(task.assetId, task.uri, { slot: task.slot, signature: task.signature });
     }
     logger.info({ count: tasks.length, queueSize: this.queue.size }, "Added batch to metadata queue");
   }
@@ -118,7 +242,7 @@ class MetadataQueue {
   /**
    * Process a single metadata extraction task
    */
-  private async processTask(task: MetadataTask): Promise<void> {
+  private async processTask(task: MetadataTask): Promise<MetadataJobOutcome> {
     const { assetId, uri } = task;
 
     try {
@@ -138,82 +262,202 @@ class MetadataQueue {
         if (freshCheck.rows.length === 0) {
           logger.debug({ assetId }, "Agent no longer exists, skipping");
           this.stats.skippedStale++;
-          return;
+          return { status: "stale" };
         }
 
         if (freshCheck.rows[0].agent_uri !== uri) {
           logger.debug({ assetId, expected: uri, current: freshCheck.rows[0].agent_uri },
             "URI changed, skipping stale fetch");
           this.stats.skippedStale++;
-          return;
+          return { status: "stale" };
         }
       }
 
-      // Purge old URI metadata before writing new
-      if (this.pool) {
-        await this.pool.query(
-          `DELETE FROM metadata WHERE asset = $1 AND key LIKE '\\_uri:%' ESCAPE '\\'`,
-          [assetId]
-        );
+      // Refresh: conditional fetch, existing metadata stays unless the file changed
+      if (task.refresh) {
+        const previous = await this.loadRefreshState(assetId, uri);
+        const validators: HttpValidators | undefined = previous
+          ? { etag: previous.etag, lastModified: previous.last_modified }
+          : undefined;
+        const refreshed = await digestUri(uri, validators);
+        metadataDigestsTotal.inc({ queue: "agent", status: refreshed.status });
+
+        if (refreshed.status !== "ok" || refreshed.notModified || refreshed.hash === previous?.content_hash) {
+          await this.recordFetch(assetId, uri, refreshed, previous);
+          if (refreshed.status === "ok") this.stats.unchanged++;
+          this.stats.processed++;
+          logger.debug({ assetId, uri, status: refreshed.status, notModified: refreshed.notModified },
+            "Registration file unchanged");
+          return { status: refreshed.status, error: refreshed.error };
+        }
+        await this.purgeUriMetadata(assetId);
+        return await this.storeDigest(task, refreshed);
       }
 
+      // Purge old URI metadata before writing new
+      await this.purgeUriMetadata(assetId);
+
       // Fetch and digest URI
       const result = await digestUri(uri);
+      metadataDigestsTotal.inc({ queue: "agent", status: result.status });
+      return await this.storeDigest(task, result);
 
-      if (result.status !== "ok" || !result.fields) {
-        // Store error status
-        await this.storeMetadata(assetId, "_uri:_status", JSON.stringify({
-          status: result.status,
-          error: result.error,
-          bytes: result.bytes,
-          hash: result.hash,
-        }));
-        logger.debug({ assetId, uri, status: result.status }, "URI digest failed");
-        this.stats.processed++;
-        return;
-      }
+    } catch (error: any) {
+      this.stats.errors++;
+      logger.error({ assetId, uri, error: error.message }, "Metadata extraction failed");
+      return { status: "error", error: error.message };
+    }
+  }
 
-      // Store each extracted field
-      const maxValueBytes = config.metadataMaxValueBytes;
-      for (const [key, value] of Object.entries(result.fields)) {
-        const serialized = serializeValue(value, maxValueBytes);
-
-        if (serialized.oversize) {
-          await this.storeMetadata(assetId, `${key}_meta`, JSON.stringify({
-            status: "oversize",
-            bytes: serialized.bytes,
-            sha256: result.hash,
-          }));
-        } else {
-          await this.storeMetadata(assetId, key, serialized.value);
-        }
-      }
+  /**
+   * Write the digest of a freshly fetched file (fields or error status)
+   */
+  private async storeDigest(task: MetadataTask, result: UriDigestResult): Promise<MetadataJobOutcome> {
+    const { assetId, uri } = task;
 
-      // Store success status
+    if (result.status !== "ok" || !result.fields) {
+      // Store error status
       await this.storeMetadata(assetId, "_uri:_status", JSON.stringify({
-        status: "ok",
+        status: result.status,
+        error: result.error,
         bytes: result.bytes,
         hash: result.hash,
-        fieldCount: Object.keys(result.fields).length,
-        truncatedKeys: result.truncatedKeys || false,
       }));
+      await this.recordFetch(assetId, uri, result, null);
+      logger.debug({ assetId, uri, status: result.status }, "URI digest failed");
+      this.stats.processed++;
+      return { status: result.status, error: result.error };
+    }
 
-      // Sync nft_name from _uri:name if present
-      const uriName = result.fields["_uri:name"];
-      if (uriName && typeof uriName === "string" && this.pool) {
-        await this.pool.query(
-          `UPDATE agents SET nft_name = $1 WHERE asset = $2 AND (nft_name IS NULL OR nft_name = '')`,
-          [uriName, assetId]
-        );
-      }
+    // Store each extracted field
+    const maxValueBytes = config.metadataMaxValueBytes;
+    for (const [key, value] of Object.entries(result.fields)) {
+      const serialized = serializeValue(value, maxValueBytes);
 
-      this.stats.processed++;
-      logger.info({ assetId, uri, fieldCount: Object.keys(result.fields).length }, "Metadata extracted");
+      if (serialized.oversize) {
+        await this.storeMetadata(assetId, `${key}_meta`, JSON.stringify({
+          status: "oversize",
+          bytes: serialized.bytes,
+          sha256: result.hash,
+        }));
+      } else {
+        await this.storeMetadata(assetId, key, serialized.value);
+      }
+    }
 
-    } catch (error: any) {
-      this.stats.errors++;
-      logger.error({ assetId, uri, error: error.message }, "Metadata extraction failed");
+    // Store success status
+    await this.storeMetadata(assetId, "_uri:_status", JSON.stringify({
+      status: "ok",
+      bytes: result.bytes,
+      hash: result.hash,
+      fieldCount: Object.keys(result.fields).length,
+      truncatedKeys: result.truncatedKeys || false,
+      cidVerified: result.cidVerified,
+    }));
+
+    // Sync nft_name from _uri:name if present
+    const uriName = result.fields["_uri:name"];
+    if (uriName && typeof uriName === "string" && this.pool) {
+      await this.pool.query(
+        `UPDATE agents SET nft_name = $1 WHERE asset = $2 AND (nft_name IS NULL OR nft_name = '')`,
+        [uriName, assetId]
+      );
     }
+
+    await this.recordFetch(assetId, uri, result, null);
+    await this.recordVersion(task, result);
+    this.stats.processed++;
+    logger.info({ assetId, uri, fieldCount: Object.keys(result.fields).length }, "Metadata extracted");
+    return { status: "ok" };
+  }
+
+  private async purgeUriMetadata(assetId: string): Promise<void> {
+    if (!this.pool) return;
+    await this.pool.query(
+      `DELETE FROM metadata WHERE asset = $1 AND key LIKE '\\_uri:%' ESCAPE '\\'`,
+      [assetId]
+    );
+  }
+
+  /**
+   * Validators and content hash of the last fetch of this URI (null after a URI change)
+   */
+  private async loadRefreshState(assetId: string, uri: string): Promise<UriRefreshState | null> {
+    if (!this.pool) return null;
+    const result = await this.pool.query(
+      `SELECT uri, etag, last_modified, content_hash FROM agent_uri_refresh WHERE asset = $1`,
+      [assetId]
+    );
+    const row: UriRefreshState | undefined = result.rows[0];
+    return row && row.uri === uri ? row : null;
+  }
+
+  /**
+   * Record a fetch in agent_uri_refresh. Failures only bump last_checked_at / last_status;
+   * last_changed_at moves when the content hash (or the URI) differs from the previous fetch.
+   */
+  private async recordFetch(
+    assetId: string,
+    uri: string,
+    result: UriDigestResult,
+    previous: UriRefreshState | null
+  ): Promise<void> {
+    if (!this.pool) return;
+    const contentHash = result.notModified ? previous?.content_hash : result.hash;
+    const etag = result.etag ?? (result.notModified ? previous?.etag : null);
+    const lastModified = result.lastModified ?? (result.notModified ? previous?.last_modified : null);
+
+    await this.pool.query(
+      `INSERT INTO agent_uri_refresh
+         (asset, uri, etag, last_modified, content_hash, last_status, last_checked_at, last_fetched_at, last_changed_at)
+       VALUES ($1, $2, $3, $4, $5, $6::text, NOW(),
+               CASE WHEN $6::text = 'ok' THEN NOW() END, CASE WHEN $6::text = 'ok' THEN NOW() END)
+       ON CONFLICT (asset) DO UPDATE SET
+         uri = EXCLUDED.uri,
+         last_status = EXCLUDED.last_status,
+         last_checked_at = NOW(),
+         etag = CASE WHEN EXCLUDED.last_status = 'ok' THEN EXCLUDED.etag
+                     WHEN agent_uri_refresh.uri = EXCLUDED.uri THEN agent_uri_refresh.etag END,
+         last_modified = CASE WHEN EXCLUDED.last_status = 'ok' THEN EXCLUDED.last_modified
+                              WHEN agent_uri_refresh.uri = EXCLUDED.uri THEN agent_uri_refresh.last_modified END,
+         content_hash = CASE WHEN EXCLUDED.last_status = 'ok' THEN EXCLUDED.content_hash
+                             WHEN agent_uri_refresh.uri = EXCLUDED.uri THEN agent_uri_refresh.content_hash END,
+         last_fetched_at = CASE WHEN EXCLUDED.last_status = 'ok' THEN NOW()
+                                WHEN agent_uri_refresh.uri = EXCLUDED.uri THEN agent_uri_refresh.last_fetched_at END,
+         last_changed_at = CASE
+           WHEN agent_uri_refresh.uri = EXCLUDED.uri
+                AND (EXCLUDED.last_status != 'ok' OR agent_uri_refresh.content_hash = EXCLUDED.content_hash)
+             THEN agent_uri_refresh.last_changed_at
+           WHEN EXCLUDED.last_status = 'ok' THEN NOW()
+         END`,
+      [assetId, uri, etag ?? null, lastModified ?? null, contentHash ?? null, result.status]
+    );
+  }
+
+  /**
+   * Append a registration_file_versions row unless the agent's latest version
+   * already has this URI and content hash (e.g. a refresh after a 200 with the same body).
+   * The row keeps the fetched body as served; the digested fields are only for diffs.
+   */
+  private async recordVersion(task: MetadataTask, result: UriDigestResult): Promise<void> {
+    if (!this.pool || !result.fields || !result.hash || !result.body) return;
+    const body = await compressForStorage(result.body);
+    const fields = await compressForStorage(Buffer.from(JSON.stringify(result.fields)));
+
+    await this.pool.query(
+      `INSERT INTO registration_file_versions (asset, uri, content_hash, bytes, body, fields, block_slot, tx_signature, fetched_at)
+       SELECT $1, $2, $3, $4, $5, $6, $7::bigint, $8, NOW()
+       WHERE NOT EXISTS (
+         SELECT 1 FROM (
+           SELECT uri, content_hash FROM registration_file_versions
+           WHERE asset = $1
+           ORDER BY id DESC
+           LIMIT 1
+         ) latest
+         WHERE latest.uri = $2 AND latest.content_hash = $3
+       )`,
+      [task.assetId, task.uri, result.hash, result.bytes ?? null, body, fields, task.slot ?? null, task.signature ?? null]
+    );
   }
 
   /**
@@ -261,12 +505,19 @@ class MetadataQueue {
 
   /**
    * Clean up resources for graceful shutdown
+   * Jobs still leased to this worker go back to queued for the next start
    */
-  shutdown(): void {
+  async shutdown(): Promise<void> {
     if (this.statsInterval) {
       clearInterval(this.statsInterval);
       this.statsInterval = null;
     }
+    this.claimer?.stop();
+    this.claimer = null;
+    if (this.jobs) {
+      const released = await this.jobs.release("agent", WORKER_ID);
+      if (released > 0) logger.info({ released }, "Released metadata jobs");
+    }
   }
 
   private logStats(): void {
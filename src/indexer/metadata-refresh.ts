@@ -0,0 +1,114 @@
+/**
+ * Metadata refresh scheduler - periodic re-fetch of mutable registration files
+ *
+ * Registration files are digested when AgentRegistered / UriUpdated fires, but
+ * a file served over HTTP(S) can change at any time afterwards. Each cycle picks
+ * agents whose URI was last checked more than METADATA_REFRESH_INTERVAL_MS ago
+ * (oldest first, never-checked agents included) and hands them to the metadata
+ * queue as refresh tasks: a conditional GET with the stored ETag /
+ * Last-Modified, and `_uri:*` rows are only rewritten when the file hash
+ * changed. Content-addressed URIs (ipfs://, ar://, gateway /ipfs/ paths) cannot
+ * change and are never refreshed.
+ *
+ * Supabase mode only, like the metadata queue. Fetch bookkeeping lives in
+ * agent_uri_refresh (lastFetchedAt / lastChangedAt on AgentRegistrationFile).
+ */
+
+import { Pool } from "pg";
+import { config } from "../config.js";
+import { createChildLogger } from "../logger.js";
+import { metadataQueue } from "./metadata-queue.js";
+
+const logger = createChildLogger("metadata-refresh");
+
+interface RefreshStats {
+  refreshesQueued: number;
+  lastRunAt: Date | null;
+}
+
+export class MetadataRefreshScheduler {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private cycleInProgress = false; // Reentrancy guard for async cycles
+  private stats: RefreshStats = {
+    refreshesQueued: 0,
+    lastRunAt: null,
+  };
+
+  constructor(
+    private pool: Pool,
+    private intervalMs = config.metadataRefreshCheckIntervalMs,
+    private refreshAfterMs = config.metadataRefreshIntervalMs,
+    private batchSize = config.metadataRefreshBatchSize
+  ) {}
+
+  async start(): Promise<void> {
+    this.isRunning = true;
+    logger.info(
+      { intervalMs: this.intervalMs, refreshAfterMs: this.refreshAfterMs, batchSize: this.batchSize },
+      "Starting metadata refresh scheduler"
+    );
+
+    this.interval = setInterval(() => {
+      this.refresh().catch((err) => {
+        logger.error({ error: err.message }, "Metadata refresh cycle failed");
+      });
+    }, this.intervalMs);
+  }
+
+  async stop(): Promise<void> {
+    logger.info("Stopping metadata refresh scheduler");
+    this.isRunning = false;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  getStats(): RefreshStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Run one cycle. Returns the number of refresh tasks queued.
+   */
+  async refresh(): Promise<number> {
+    if (!this.isRunning || this.cycleInProgress) return 0;
+
+    this.cycleInProgress = true;
+    try {
+      const due = await this.listDue();
+      for (const { asset, uri } of due) {
+        metadataQueue.add(asset, uri, { refresh: true });
+      }
+
+      this.stats.refreshesQueued += due.length;
+      this.stats.lastRunAt = new Date();
+      if (due.length > 0) {
+        logger.info({ queued: due.length }, "Queued registration file refreshes");
+      }
+      return due.length;
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+
+  /**
+   * Agents with a mutable HTTP(S) URI that was not checked within refreshAfterMs
+   */
+  private async listDue(): Promise<Array<{ asset: string; uri: string }>> {
+    const result = await this.pool.query(
+      `SELECT a.asset, a.agent_uri
+       FROM agents a
+       LEFT JOIN agent_uri_refresh r ON r.asset = a.asset
+       WHERE a.status != 'ORPHANED'
+         AND (a.agent_uri LIKE 'https://%' OR ($3::boolean AND a.agent_uri LIKE 'http://%'))
+         AND a.agent_uri NOT LIKE '%/ipfs/%'
+         AND (r.last_checked_at IS NULL OR r.last_checked_at < NOW() - ($1::float8 * INTERVAL '1 millisecond'))
+       ORDER BY r.last_checked_at ASC NULLS FIRST
+       LIMIT $2::int`,
+      [this.refreshAfterMs, this.batchSize, process.env.ALLOW_INSECURE_URI === "true"]
+    );
+    return result.rows.map((row) => ({ asset: row.asset, uri: row.agent_uri }));
+  }
+}
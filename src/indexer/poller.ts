@@ -6,12 +6,14 @@ import {
 } from "@solana/web3.js";
 import { PrismaClient } from "@prisma/client";
 import { config } from "../config.js";
-import { parseTransaction, toTypedEvent } from "../parser/decoder.js";
+import { parseTransaction, toTypedEvent, ParsedEvent } from "../parser/decoder.js";
 import { handleEventAtomic, EventContext } from "../db/handlers.js";
 import { loadIndexerState, saveIndexerState, getPool } from "../db/supabase.js";
 import { createChildLogger } from "../logger.js";
-import { BatchRpcFetcher, EventBuffer } from "./batch-processor.js";
+import { BatchRpcFetcher, EventBuffer, BatchStats } from "./batch-processor.js";
 import { metadataQueue } from "./metadata-queue.js";
+import { feedbackDocumentQueue } from "./feedback-document-queue.js";
+import { fetchTxIndexMap, scanSignatureRange, SignatureRange } from "./signature-scan.js";
 
 const logger = createChildLogger("poller");
 
@@ -27,6 +29,38 @@ export interface PollerOptions {
   programId: PublicKey;
   pollingInterval?: number;
   batchSize?: number;
+  backfillConcurrency?: number;
+}
+
+// Decoded transaction waiting for its turn in the ordered commit stage
+interface PreparedTransaction {
+  sig: ConfirmedSignatureInfo;
+  txIndex?: number;
+  events: ParsedEvent[] | null; // null = transaction not found
+  error?: unknown;
+}
+
+/**
+ * Turn page-boundary slots (newest first) into slot segments (oldest first)
+ * Each segment pages back from a signature in its upper boundary slot, so
+ * a slot is always read whole by exactly one segment
+ */
+export function buildSlotSegments(boundaries: Array<{ signature: string; slot: number }>): SignatureRange[] {
+  // Keep the oldest signature seen for each boundary slot
+  const bySlot = new Map<number, string>();
+  for (const b of boundaries) bySlot.set(b.slot, b.signature);
+  const slots = Array.from(bySlot.keys()).sort((a, b) => b - a);
+
+  const segments: SignatureRange[] = [];
+  for (let i = 0; i <= slots.length; i++) {
+    const upper = i > 0 ? slots[i - 1] : undefined;
+    segments.push({
+      fromSlot: i < slots.length ? slots[i] : undefined,
+      toSlot: upper !== undefined ? upper - 1 : undefined,
+      before: upper !== undefined ? bySlot.get(upper) : undefined,
+    });
+  }
+  return segments.reverse();
 }
 
 export class Poller {
@@ -35,6 +69,7 @@ export class Poller {
   private programId: PublicKey;
   private pollingInterval: number;
   private batchSize: number;
+  private backfillConcurrency: number;
   private isRunning = false;
   private lastSignature: string | null = null;
   private processedCount = 0;
@@ -45,6 +80,9 @@ export class Poller {
   // pendingStopSignature: where to STOP (original lastSignature when we hit the limit)
   private pendingContinuation: string | null = null;
   private pendingStopSignature: string | null = null;
+  // Heartbeat: cluster slot read before the last complete listing that found nothing new
+  private lastObservedSlot: number | null = null;
+  private listingFailed = false;
 
   // Batch processing components (Supabase mode only)
   private batchFetcher: BatchRpcFetcher | null = null;
@@ -56,6 +94,7 @@ export class Poller {
     this.programId = options.programId;
     this.pollingInterval = options.pollingInterval || config.pollingInterval;
     this.batchSize = options.batchSize || config.batchSize;
+    this.backfillConcurrency = options.backfillConcurrency || config.backfillConcurrency;
 
     // Initialize batch RPC fetcher (always enabled, has built-in fallback)
     if (USE_BATCH_RPC) {
@@ -69,6 +108,7 @@ export class Poller {
       this.eventBuffer = new EventBuffer(pool, this.prisma);
       // Initialize metadata queue with same pool
       metadataQueue.setPool(pool);
+      feedbackDocumentQueue.setPool(pool);
       logger.info("Batch DB writes enabled (PostgreSQL)");
       logger.info({ metadataMode: config.metadataIndexMode }, "Metadata extraction queue initialized");
     }
@@ -108,21 +148,21 @@ export class Poller {
 
   /**
    * Backfill all historical transactions from the program
-   * Uses streaming approach to avoid OOM - fetches and processes in batches
-   * Processes oldest-to-newest within each batch for correct ordering
+   * Uses streaming approach to avoid OOM - history is split into slot segments
+   * (one per scanned page, never splitting a slot) that are fetched and decoded
+   * up to `backfillConcurrency` at a time, then committed strictly
+   * oldest-to-newest so hash chains and global ids match a serial backfill
    */
   private async backfill(): Promise<void> {
-    logger.info("Starting historical backfill with streaming batches...");
+    logger.info("Starting historical backfill with slot segments...");
 
-    // First, find the oldest signature by paginating to the end
-    // We need to process oldest-first, so we collect checkpoints
-    const checkpoints: string[] = [];
+    // Phase 1: Collect page boundaries (one per page) to avoid loading all signatures in memory
+    const boundaries: Array<{ signature: string; slot: number }> = [];
     let beforeSignature: string | undefined = undefined;
     let totalEstimate = 0;
     let scanErrors = 0;
 
-    // Phase 1: Collect checkpoint signatures (one per ~1000 txs) to avoid loading all in memory
-    logger.info("Phase 1: Scanning for oldest transactions...");
+    logger.info("Phase 1: Scanning for segment boundaries...");
     while (this.isRunning) {
       try {
         const signatures = await this.connection.getSignaturesForAddress(
@@ -132,22 +172,17 @@ export class Poller {
 
         if (signatures.length === 0) break;
 
-        const validSigs = signatures.filter((sig) => sig.err === null);
-        totalEstimate += validSigs.length;
-
-        // Save checkpoint every batch
-        if (validSigs.length > 0) {
-          checkpoints.push(validSigs[validSigs.length - 1].signature);
-        }
-
-        beforeSignature = signatures[signatures.length - 1].signature;
+        totalEstimate += signatures.filter((sig) => sig.err === null).length;
+        const last = signatures[signatures.length - 1];
+        beforeSignature = last.signature;
 
         if (signatures.length < this.batchSize) break;
+        boundaries.push({ signature: last.signature, slot: last.slot });
 
         await new Promise((resolve) => setTimeout(resolve, 100));
 
-        if (totalEstimate % 5000 === 0) {
-          logger.info({ scanned: totalEstimate, checkpoints: checkpoints.length }, "Scanning progress...");
+        if (boundaries.length % 50 === 0) {
+          logger.info({ scanned: totalEstimate, boundaries: boundaries.length }, "Scanning progress...");
         }
       } catch (error) {
         scanErrors++;
@@ -162,103 +197,67 @@ export class Poller {
       }
     }
 
-    logger.info({ totalEstimate, checkpoints: checkpoints.length }, "Phase 1 complete, starting Phase 2: processing oldest-first");
-
-    // Phase 2: Process from oldest to newest using checkpoints in reverse
-    // Process checkpoint windows from oldest (last checkpoint) to newest (first checkpoint)
-    let processed = 0;
-
-    for (let i = checkpoints.length - 1; i >= 0 && this.isRunning; i--) {
-      const afterSig = checkpoints[i];
-      const untilSig = i > 0 ? checkpoints[i - 1] : undefined;
-
-      // Fetch signatures in this window (afterSig to untilSig)
-      const windowSigs = await this.fetchSignatureWindow(afterSig, untilSig);
+    const segments = buildSlotSegments(boundaries);
+    logger.info(
+      { totalEstimate, segments: segments.length, concurrency: this.backfillConcurrency },
+      "Phase 1 complete, starting Phase 2: processing segments oldest-first"
+    );
 
-      if (windowSigs.length === 0) continue;
+    // Phase 2: Prepare segments concurrently, commit them in order
+    const inFlight: Promise<PreparedTransaction[]>[] = [];
+    let nextSegment = 0;
+    const fillWindow = () => {
+      while (inFlight.length < this.backfillConcurrency && nextSegment < segments.length && this.isRunning) {
+        const prepared = this.prepareSegment(segments[nextSegment++]);
+        // Rejections are handled when the segment reaches the head of the window
+        prepared.catch(() => {});
+        inFlight.push(prepared);
+      }
+    };
 
-      // Process this batch (already in chronological order)
-      processed += await this.processSignatureBatch(windowSigs, processed, totalEstimate);
+    let processed = 0;
+    let segmentIndex = 0;
+    fillWindow();
+    while (inFlight.length > 0 && this.isRunning) {
+      let prepared: PreparedTransaction[];
+      try {
+        prepared = await inFlight.shift()!;
+      } catch (error) {
+        // Later segments must not be committed past a gap; live polling resumes from the cursor
+        logger.error(
+          { error: error instanceof Error ? error.message : String(error), segment: segments[segmentIndex] },
+          "Failed to fetch backfill segment, aborting backfill"
+        );
+        return;
+      }
+      fillWindow();
 
-      logger.info({ processed, total: totalEstimate, checkpoint: i }, "Backfill checkpoint processed");
-    }
+      processed += await this.commitPreparedBatch(prepared, processed, totalEstimate);
+      segmentIndex++;
 
-    // Phase 3: Process any remaining newest transactions (before first checkpoint)
-    if (checkpoints.length > 0 && this.isRunning) {
-      const newestSigs = await this.fetchSignatureWindow(undefined, checkpoints[0]);
-      if (newestSigs.length > 0) {
-        processed += await this.processSignatureBatch(newestSigs, processed, totalEstimate);
-      }
+      logger.info({ processed, total: totalEstimate, segment: segmentIndex, segments: segments.length }, "Backfill segment processed");
     }
 
     logger.info({ processed }, "Backfill finished, switching to live polling");
   }
 
   /**
-   * Fetch signatures in a window (from afterSig to untilSig)
-   * Returns signatures in chronological order (oldest first)
+   * Scan, fetch and decode one segment (no DB writes)
    */
-  private async fetchSignatureWindow(
-    afterSig: string | undefined,
-    untilSig: string | undefined
-  ): Promise<ConfirmedSignatureInfo[]> {
-    const windowSigs: ConfirmedSignatureInfo[] = [];
-    let beforeSig: string | undefined = untilSig;
-    let retryCount = 0;
-
-    while (this.isRunning) {
-      try {
-        const options: { limit: number; before?: string; until?: string } = {
-          limit: this.batchSize,
-        };
-        if (beforeSig) options.before = beforeSig;
-        if (afterSig) options.until = afterSig;
-
-        const batch = await this.connection.getSignaturesForAddress(
-          this.programId,
-          options
-        );
-
-        if (batch.length === 0) break;
-
-        const validBatch = batch.filter((sig) => sig.err === null);
-        windowSigs.push(...validBatch);
-
-        beforeSig = batch[batch.length - 1].signature;
-
-        if (batch.length < this.batchSize) break;
-
-        await new Promise((resolve) => setTimeout(resolve, 50));
-        retryCount = 0; // Reset on success
-      } catch (error) {
-        retryCount++;
-        logger.warn({ error, retryCount, windowSize: windowSigs.length }, "Error fetching signature window");
-
-        if (retryCount >= 3) {
-          logger.error("Too many errors fetching signature window, returning partial results");
-          break;
-        }
-        await new Promise((resolve) => setTimeout(resolve, 500 * retryCount));
-      }
-    }
-
-    // Reverse to get chronological order (oldest first)
-    return windowSigs.reverse();
+  private async prepareSegment(segment: SignatureRange): Promise<PreparedTransaction[]> {
+    const signatures = await scanSignatureRange(this.connection, this.programId, segment, this.batchSize);
+    return this.prepareSignatureBatch(signatures);
   }
 
   /**
-   * Process a batch of signatures with slot grouping and tx_index resolution
-   * Returns number of successfully processed transactions
+   * Fetch and decode a batch of signatures with slot grouping and tx_index resolution
+   * Returned in (slot, tx_index) order, nothing is written yet
    *
-   * OPTIMIZATION: Uses batch RPC fetching (getParsedTransactions) in Supabase mode
+   * OPTIMIZATION: Uses batch RPC fetching (getParsedTransactions)
    */
-  private async processSignatureBatch(
-    signatures: ConfirmedSignatureInfo[],
-    previousCount: number,
-    totalEstimate: number
-  ): Promise<number> {
-    const startTime = Date.now();
-
+  private async prepareSignatureBatch(
+    signatures: ConfirmedSignatureInfo[]
+  ): Promise<PreparedTransaction[]> {
     // BATCH RPC: Fetch all transactions in batch first (with fallback)
     let txCache: Map<string, ParsedTransactionWithMeta> | null = null;
     if (USE_BATCH_RPC && this.batchFetcher) {
@@ -276,7 +275,7 @@ export class Poller {
       bySlot.get(sig.slot)!.push(sig);
     }
 
-    let processed = 0;
+    const prepared: PreparedTransaction[] = [];
     const sortedSlots = Array.from(bySlot.keys()).sort((a, b) => a - b);
 
     for (const slot of sortedSlots) {
@@ -306,92 +305,85 @@ export class Poller {
 
         try {
           // Use cached transaction from batch RPC if available
-          if (USE_BATCH_RPC && txCache) {
-            await this.processTransactionBatch(sig, txIndex, txCache.get(sig.signature));
-          } else {
-            await this.processTransaction(sig, txIndex);
-          }
-          this.lastSignature = sig.signature;
-          // Skip individual cursor saves when using batch DB - handled by EventBuffer flush
-          if (!USE_BATCH_DB) {
-            await this.saveState(sig.signature, BigInt(sig.slot));
-          }
-          processed++;
-          this.processedCount++;
-
-          if ((previousCount + processed) % 100 === 0) {
-            const elapsed = (Date.now() - startTime) / 1000;
-            logger.info({
-              processed: previousCount + processed,
-              total: totalEstimate,
-              rate: `${Math.round(processed / elapsed)} tx/s`,
-              batchRpc: USE_BATCH_RPC,
-              batchDb: USE_BATCH_DB
-            }, "Backfill progress");
+          let tx = txCache?.get(sig.signature);
+          if (!tx) {
+            tx = await this.connection.getParsedTransaction(sig.signature, {
+              maxSupportedTransactionVersion: 0,
+            }) ?? undefined;
           }
+          prepared.push({ sig, txIndex, events: tx ? parseTransaction(tx)?.events ?? [] : null });
         } catch (error) {
-          this.errorCount++;
-          logger.error({
-            error: error instanceof Error ? error.message : String(error),
-            signature: sig.signature,
-            slot: sig.slot
-          }, "Error processing backfill transaction");
+          prepared.push({ sig, txIndex, events: null, error });
         }
       }
     }
 
-    // BATCH DB: Flush remaining events at end of batch
-    if (USE_BATCH_DB && this.eventBuffer && this.eventBuffer.size > 0) {
-      await this.eventBuffer.flush();
-    }
-
-    return processed;
+    return prepared;
   }
 
   /**
-   * Get transaction index within a block for multiple signatures
-   * Fetches block once and maps signature -> index
-   * Only called when multiple txs exist in the same slot (rare case)
+   * Apply prepared transactions in order and advance the cursor
+   * Returns number of successfully processed transactions
    */
-  private async getTxIndexMap(slot: number, sigs: ConfirmedSignatureInfo[]): Promise<Map<string, number | null>> {
-    const txIndexMap = new Map<string, number | null>();
+  private async commitPreparedBatch(
+    prepared: PreparedTransaction[],
+    previousCount: number,
+    totalEstimate: number
+  ): Promise<number> {
+    const startTime = Date.now();
+    let processed = 0;
 
-    // If only one transaction in slot, index is 0 - no need to fetch block
-    if (sigs.length === 1) {
-      txIndexMap.set(sigs[0].signature, 0);
-      return txIndexMap;
-    }
+    for (const { sig, txIndex, events, error } of prepared) {
+      if (!this.isRunning) break;
 
-    const MAX_RETRIES = 3;
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
       try {
-        const block = await this.connection.getBlock(slot, {
-          maxSupportedTransactionVersion: 0,
-          transactionDetails: "full",
-        });
-
-        if (block?.transactions) {
-          const sigSet = new Set(sigs.map(s => s.signature));
-          block.transactions.forEach((tx, idx) => {
-            const sig = tx.transaction.signatures[0];
-            if (sigSet.has(sig)) {
-              txIndexMap.set(sig, idx);
-            }
-          });
-        }
-        return txIndexMap;
-      } catch (error) {
-        if (attempt < MAX_RETRIES) {
-          logger.warn({ slot, attempt, error: error instanceof Error ? error.message : String(error) }, "getBlock failed, retrying");
-          await new Promise(r => setTimeout(r, 500 * attempt));
+        if (error) throw error;
+        if (events === null) {
+          logger.warn({ signature: sig.signature }, "Transaction not found");
         } else {
-          logger.warn({ slot, sigCount: sigs.length }, "getBlock failed after retries, tx_index will be NULL (unordered)");
-          sigs.forEach(sig => txIndexMap.set(sig.signature, null));
+          await this.applyParsedEvents(sig, txIndex, events);
         }
+        this.lastSignature = sig.signature;
+        // Skip individual cursor saves when using batch DB - handled by EventBuffer flush
+        if (!USE_BATCH_DB) {
+          await this.saveState(sig.signature, BigInt(sig.slot));
+        }
+        processed++;
+        this.processedCount++;
+
+        if ((previousCount + processed) % 100 === 0) {
+          const elapsed = (Date.now() - startTime) / 1000;
+          logger.info({
+            processed: previousCount + processed,
+            total: totalEstimate,
+            rate: `${Math.round(processed / elapsed)} tx/s`,
+            batchRpc: USE_BATCH_RPC,
+            batchDb: USE_BATCH_DB
+          }, "Backfill progress");
+        }
+      } catch (error) {
+        this.errorCount++;
+        logger.error({
+          error: error instanceof Error ? error.message : String(error),
+          signature: sig.signature,
+          slot: sig.slot
+        }, "Error processing backfill transaction");
       }
     }
 
-    return txIndexMap;
+    // BATCH DB: Flush remaining events at end of batch
+    if (USE_BATCH_DB && this.eventBuffer && this.eventBuffer.size > 0) {
+      await this.eventBuffer.flush();
+    }
+
+    return processed;
+  }
+
+  /**
+   * Get transaction index within a block for multiple signatures
+   */
+  private async getTxIndexMap(slot: number, sigs: ConfirmedSignatureInfo[]): Promise<Map<string, number | null>> {
+    return fetchTxIndexMap(this.connection, slot, sigs);
   }
 
   async stop(): Promise<void> {
@@ -426,6 +418,21 @@ export class Poller {
     };
   }
 
+  /**
+   * Last slot up to which an empty poll proved the program idle (null before the first one).
+   * The cursor only moves with program activity; this keeps readiness lag honest when idle.
+   */
+  getLastObservedSlot(): number | null {
+    return this.lastObservedSlot;
+  }
+
+  /**
+   * Event buffer stats (null when batch DB writes are disabled)
+   */
+  getBatchStats(): BatchStats | null {
+    return this.eventBuffer?.getStats() ?? null;
+  }
+
   private async loadState(): Promise<void> {
     // Supabase mode - load from Supabase
     if (!this.prisma) {
@@ -489,9 +496,14 @@ export class Poller {
   }
 
   private async processNewTransactions(): Promise<void> {
+    // Read the tip before listing: an empty listing proves nothing is missing up to it
+    const tipSlot = await this.fetchTipSlot();
     const signatures = await this.fetchSignatures();
 
     if (signatures.length === 0) {
+      if (tipSlot !== null && !this.listingFailed) {
+        this.lastObservedSlot = tipSlot;
+      }
       logger.debug("No new transactions");
       return;
     }
@@ -592,6 +604,7 @@ export class Poller {
    * Returns signatures in newest-first order (caller should reverse for processing)
    */
   private async fetchSignatures(): Promise<ConfirmedSignatureInfo[]> {
+    this.listingFailed = false;
     try {
       if (!this.lastSignature) {
         // No last signature - just get the latest batch
@@ -693,6 +706,7 @@ export class Poller {
 
           if (retryCount >= 3) {
             logger.error("Too many pagination errors, returning partial results");
+            this.listingFailed = true;
             break;
           }
           await new Promise((resolve) => setTimeout(resolve, 500 * retryCount));
@@ -702,10 +716,20 @@ export class Poller {
       return allSignatures;
     } catch (error) {
       logger.error({ error }, "Error fetching signatures");
+      this.listingFailed = true;
       return [];
     }
   }
 
+  private async fetchTipSlot(): Promise<number | null> {
+    try {
+      return await this.connection.getSlot();
+    } catch (error) {
+      logger.debug({ error: error instanceof Error ? error.message : String(error) }, "Failed to read cluster slot");
+      return null;
+    }
+  }
+
   private async processTransaction(sig: ConfirmedSignatureInfo, txIndex?: number): Promise<void> {
     const tx = await this.connection.getParsedTransaction(sig.signature, {
       maxSupportedTransactionVersion: 0,
@@ -726,7 +750,9 @@ export class Poller {
       "Parsed transaction"
     );
 
+    let eventOrdinal = -1;
     for (const event of parsed.events) {
+      eventOrdinal++;
       const typedEvent = toTypedEvent(event);
       if (!typedEvent) continue;
 
@@ -737,23 +763,12 @@ export class Poller {
           ? new Date(sig.blockTime * 1000)
           : new Date(),
         txIndex,
+        eventOrdinal,
+        rawEvent: event.raw,
       };
 
+      // Event log entry is written inside the handler transaction
       await handleEventAtomic(this.prisma, typedEvent, ctx);
-
-      // Only log to Prisma in local mode
-      if (this.prisma) {
-        await this.prisma.eventLog.create({
-          data: {
-            eventType: typedEvent.type,
-            signature: sig.signature,
-            slot: BigInt(sig.slot),
-            blockTime: ctx.blockTime,
-            data: event.data as object,
-            processed: true,
-          },
-        });
-      }
     }
   }
 
@@ -784,12 +799,27 @@ export class Poller {
       return;
     }
 
+    await this.applyParsedEvents(sig, txIndex, parsed.events);
+  }
+
+  /**
+   * Write decoded events of one transaction - to the event buffer when batching DB writes
+   */
+  private async applyParsedEvents(
+    sig: ConfirmedSignatureInfo,
+    txIndex: number | undefined,
+    events: ParsedEvent[]
+  ): Promise<void> {
+    if (events.length === 0) return;
+
     logger.debug(
-      { signature: sig.signature, eventCount: parsed.events.length, txIndex },
+      { signature: sig.signature, eventCount: events.length, txIndex },
       "Parsed transaction (batch mode)"
     );
 
-    for (const event of parsed.events) {
+    let eventOrdinal = -1;
+    for (const event of events) {
+      eventOrdinal++;
       const typedEvent = toTypedEvent(event);
       if (!typedEvent) continue;
 
@@ -800,6 +830,8 @@ export class Poller {
           ? new Date(sig.blockTime * 1000)
           : new Date(),
         txIndex,
+        eventOrdinal,
+        rawEvent: event.raw,
       };
 
       // Add to event buffer instead of direct DB write
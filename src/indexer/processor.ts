@@ -5,7 +5,31 @@ import { config, IndexerMode } from "../config.js";
 import { Poller } from "./poller.js";
 import { WebSocketIndexer, testWebSocketConnection } from "./websocket.js";
 import { DataVerifier } from "./verifier.js";
+import { RpcPool, getRpcPool } from "./rpc-pool.js";
+import { WebhookDispatcher } from "../webhooks/dispatcher.js";
+import { AnomalyAnalyzer } from "./anomaly-analyzer.js";
+import { SearchIndexer } from "./search-indexer.js";
+import { MetadataRefreshScheduler } from "./metadata-refresh.js";
 import { createChildLogger } from "../logger.js";
+import {
+  metrics,
+  transactionsProcessedTotal,
+  transactionErrorsTotal,
+  websocketDroppedLogsTotal,
+  websocketQueueSize,
+  lastIndexedSlot,
+  clusterSlot,
+  slotLag,
+  eventBufferSize,
+  deadLetterQueueSize,
+  verifierTransitionsTotal,
+  verifierHashChainMismatchesTotal,
+  verifierHashChainRepairsTotal,
+  verifierOrphansRecoveredTotal,
+  verifierSkippedRpcErrorsTotal,
+  verifierLastRunTimestamp,
+  verifierLastRunDurationSeconds,
+} from "../metrics.js";
 
 const logger = createChildLogger("processor");
 
@@ -13,7 +37,22 @@ export interface ProcessorOptions {
   mode?: IndexerMode;
 }
 
+export interface IndexingHealth {
+  running: boolean;
+  // Source currently delivering events: websocket, or polling (configured or WS fallback)
+  activeMode: "websocket" | "polling" | null;
+  indexedSlot: number | null;
+  // Newest of the cursor slot and the poller/WebSocket idle heartbeats; lag is measured from it
+  observedSlot: number | null;
+  clusterSlot: number | null;
+  slotLag: number | null;
+  rpcError: string | null;
+  verifierLastRunAt: Date | null;
+  verifierLastRunDurationMs: number | null;
+}
+
 export class Processor {
+  private rpcPool: RpcPool;
   private connection: Connection;
   private prisma: PrismaClient | null;
   private pool: Pool | null;
@@ -22,6 +61,10 @@ export class Processor {
   private poller: Poller | null = null;
   private wsIndexer: WebSocketIndexer | null = null;
   private verifier: DataVerifier | null = null;
+  private webhookDispatcher: WebhookDispatcher | null = null;
+  private anomalyAnalyzer: AnomalyAnalyzer | null = null;
+  private searchIndexer: SearchIndexer | null = null;
+  private metadataRefresh: MetadataRefreshScheduler | null = null;
   private isRunning = false;
   private wsMonitorInterval: ReturnType<typeof setInterval> | null = null;
   private wsMonitorInProgress = false; // Reentrancy guard for async interval
@@ -31,10 +74,8 @@ export class Processor {
     this.pool = pool;
     this.mode = options?.mode || config.indexerMode;
     this.programId = new PublicKey(config.programId);
-    this.connection = new Connection(config.rpcUrl, {
-      wsEndpoint: config.wsUrl,
-      commitment: "confirmed",
-    });
+    this.rpcPool = getRpcPool();
+    this.connection = this.rpcPool.connection;
   }
 
   async start(): Promise<void> {
@@ -45,6 +86,8 @@ export class Processor {
 
     this.isRunning = true;
     logger.info({ mode: this.mode }, "Starting processor");
+    metrics.registerCollector("processor", () => this.collectMetrics());
+    this.rpcPool.start();
 
     switch (this.mode) {
       case "websocket":
@@ -63,6 +106,14 @@ export class Processor {
 
     // Start background verifier for reorg resilience
     await this.startVerifier();
+
+    await this.startWebhookDispatcher();
+
+    await this.startAnomalyAnalyzer();
+
+    await this.startSearchIndexer();
+
+    await this.startMetadataRefresh();
   }
 
   private async startVerifier(): Promise<void> {
@@ -82,9 +133,52 @@ export class Processor {
     logger.info({ intervalMs: config.verifyIntervalMs }, "Background verifier started");
   }
 
+  private async startWebhookDispatcher(): Promise<void> {
+    if (!config.webhooksEnabled) {
+      return;
+    }
+
+    this.webhookDispatcher = new WebhookDispatcher(this.prisma, this.pool);
+    await this.webhookDispatcher.start();
+    logger.info({ intervalMs: config.webhookDispatchIntervalMs }, "Webhook dispatcher started");
+  }
+
+  private async startAnomalyAnalyzer(): Promise<void> {
+    if (!config.anomalyDetectionEnabled) {
+      return;
+    }
+
+    this.anomalyAnalyzer = new AnomalyAnalyzer(this.prisma, this.pool);
+    await this.anomalyAnalyzer.start();
+    logger.info({ intervalMs: config.anomalyIntervalMs }, "Anomaly analyzer started");
+  }
+
+  private async startSearchIndexer(): Promise<void> {
+    if (!config.searchIndexEnabled) {
+      return;
+    }
+
+    this.searchIndexer = new SearchIndexer(this.prisma, this.pool);
+    await this.searchIndexer.start();
+    logger.info({ intervalMs: config.searchIndexIntervalMs }, "Search indexer started");
+  }
+
+  private async startMetadataRefresh(): Promise<void> {
+    // Refresh tasks run on the metadata queue, which only writes in Supabase mode
+    if (!config.metadataRefreshEnabled || !this.pool || config.metadataIndexMode === "off") {
+      return;
+    }
+
+    this.metadataRefresh = new MetadataRefreshScheduler(this.pool);
+    await this.metadataRefresh.start();
+    logger.info({ intervalMs: config.metadataRefreshCheckIntervalMs }, "Metadata refresh scheduler started");
+  }
+
   async stop(): Promise<void> {
     logger.info("Stopping processor");
     this.isRunning = false;
+    metrics.unregisterCollector("processor");
+    this.rpcPool.stop();
 
     // Clean up WebSocket monitor timeout
     if (this.wsMonitorInterval) {
@@ -97,6 +191,26 @@ export class Processor {
       this.verifier = null;
     }
 
+    if (this.webhookDispatcher) {
+      await this.webhookDispatcher.stop();
+      this.webhookDispatcher = null;
+    }
+
+    if (this.anomalyAnalyzer) {
+      await this.anomalyAnalyzer.stop();
+      this.anomalyAnalyzer = null;
+    }
+
+    if (this.searchIndexer) {
+      await this.searchIndexer.stop();
+      this.searchIndexer = null;
+    }
+
+    if (this.metadataRefresh) {
+      await this.metadataRefresh.stop();
+      this.metadataRefresh = null;
+    }
+
     if (this.poller) {
       await this.poller.stop();
       this.poller = null;
@@ -130,7 +244,8 @@ export class Processor {
 
   private async startAuto(): Promise<void> {
     logger.info("Testing WebSocket connection...");
-    const wsAvailable = await testWebSocketConnection(config.rpcUrl, config.wsUrl);
+    const wsEndpoint = this.rpcPool.subscriptionEndpoint();
+    const wsAvailable = await testWebSocketConnection(wsEndpoint.url, wsEndpoint.wsUrl);
 
     if (wsAvailable) {
       logger.info("WebSocket available, using WebSocket mode");
@@ -229,4 +344,130 @@ export class Processor {
       verifierStats: this.verifier?.getStats(),
     };
   }
+
+  /**
+   * Cursor position vs cluster tip, active ingestion source and verifier progress.
+   * DB errors propagate; RPC errors are reported in rpcError with clusterSlot = null.
+   */
+  async getIndexingHealth(): Promise<IndexingHealth> {
+    const wsActive = this.wsIndexer?.isActive() ?? false;
+    const activeMode = wsActive ? "websocket" : this.poller ? "polling" : null;
+
+    const indexed = await this.fetchIndexedSlot();
+    const indexedSlot = indexed !== null ? Number(indexed) : null;
+    const heartbeats = [
+      indexedSlot,
+      this.poller?.getLastObservedSlot() ?? null,
+      this.wsIndexer?.getLastObservedSlot() ?? null,
+    ].filter((slot): slot is number => slot !== null);
+    const observedSlot = heartbeats.length > 0 ? Math.max(...heartbeats) : null;
+
+    let currentSlot: number | null = null;
+    let rpcError: string | null = null;
+    try {
+      currentSlot = await this.connection.getSlot("confirmed");
+    } catch (error) {
+      rpcError = error instanceof Error ? error.message : String(error);
+    }
+
+    const verifierStats = this.verifier?.getStats();
+
+    return {
+      running: this.isRunning,
+      activeMode,
+      indexedSlot,
+      observedSlot,
+      clusterSlot: currentSlot,
+      slotLag: observedSlot !== null && currentSlot !== null
+        ? Math.max(0, currentSlot - observedSlot)
+        : null,
+      rpcError,
+      verifierLastRunAt: verifierStats?.lastRunAt ?? null,
+      verifierLastRunDurationMs: verifierStats?.lastRunAt ? verifierStats.lastRunDurationMs : null,
+    };
+  }
+
+  /**
+   * Read the indexer cursor slot from indexer_state
+   */
+  private async fetchIndexedSlot(): Promise<bigint | null> {
+    if (this.prisma) {
+      const state = await this.prisma.indexerState.findUnique({
+        where: { id: "main" },
+        select: { lastSlot: true },
+      });
+      return state?.lastSlot ?? null;
+    }
+    if (this.pool) {
+      const result = await this.pool.query(
+        `SELECT last_slot FROM indexer_state WHERE id = 'main'`
+      );
+      const raw = result.rows[0]?.last_slot;
+      return raw !== null && raw !== undefined ? BigInt(raw) : null;
+    }
+    return null;
+  }
+
+  /**
+   * Scrape-time collector: samples component stats into the metrics registry
+   */
+  private async collectMetrics(): Promise<void> {
+    if (this.poller) {
+      const stats = this.poller.getStats();
+      transactionsProcessedTotal.set({ source: "poller" }, stats.processedCount);
+      transactionErrorsTotal.set({ source: "poller" }, stats.errorCount);
+
+      const batchStats = this.poller.getBatchStats();
+      if (batchStats) {
+        eventBufferSize.set({}, batchStats.bufferSize);
+        deadLetterQueueSize.set({}, batchStats.deadLetterSize);
+      }
+    }
+
+    if (this.wsIndexer) {
+      const stats = this.wsIndexer.getStats();
+      transactionsProcessedTotal.set({ source: "websocket" }, stats.processedCount);
+      transactionErrorsTotal.set({ source: "websocket" }, stats.errorCount);
+      websocketDroppedLogsTotal.set({}, stats.droppedLogs);
+      websocketQueueSize.set({}, stats.queueSize);
+    }
+
+    if (this.verifier) {
+      const stats = this.verifier.getStats();
+      const transitions: Array<[string, number, number]> = [
+        ["agent", stats.agentsVerified, stats.agentsOrphaned],
+        ["feedback", stats.feedbacksVerified, stats.feedbacksOrphaned],
+        ["response", stats.responsesVerified, stats.responsesOrphaned],
+        ["revocation", stats.revocationsVerified, stats.revocationsOrphaned],
+        ["validation", stats.validationsVerified, stats.validationsOrphaned],
+        ["metadata", stats.metadataVerified, stats.metadataOrphaned],
+        ["registry", stats.registriesVerified, stats.registriesOrphaned],
+      ];
+      for (const [entity, finalized, orphaned] of transitions) {
+        verifierTransitionsTotal.set({ entity, status: "FINALIZED" }, finalized);
+        verifierTransitionsTotal.set({ entity, status: "ORPHANED" }, orphaned);
+      }
+      verifierHashChainMismatchesTotal.set({}, stats.hashChainMismatches);
+      verifierHashChainRepairsTotal.set({ outcome: "REPAIRED" }, stats.hashChainRepaired);
+      verifierHashChainRepairsTotal.set({ outcome: "UNRESOLVED" }, stats.hashChainRepairUnresolved);
+      verifierHashChainRepairsTotal.set({ outcome: "FAILED" }, stats.hashChainRepairFailed);
+      verifierOrphansRecoveredTotal.set({}, stats.orphansRecovered);
+      verifierSkippedRpcErrorsTotal.set({}, stats.skippedRpcErrors);
+      if (stats.lastRunAt) {
+        verifierLastRunTimestamp.set({}, Math.floor(stats.lastRunAt.getTime() / 1000));
+        verifierLastRunDurationSeconds.set({}, stats.lastRunDurationMs / 1000);
+      }
+    }
+
+    const health = await this.getIndexingHealth();
+    if (health.clusterSlot !== null) {
+      clusterSlot.set({}, health.clusterSlot);
+    }
+    if (health.indexedSlot !== null) {
+      lastIndexedSlot.set({}, health.indexedSlot);
+    }
+    if (health.slotLag !== null) {
+      slotLag.set({}, health.slotLag);
+    }
+  }
 }
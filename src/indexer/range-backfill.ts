@@ -0,0 +1,220 @@
+/**
+ * Bounded historical backfill
+ *
+ * Re-indexes an explicit slot or signature range into the existing database
+ * while the live indexer keeps running. Events go through the normal atomic
+ * handlers with source "backfill", so projections, outbox and event log are
+ * written as usual but indexer_state is never moved. Events already present
+ * in the event log are skipped, which makes re-running a range a no-op.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  ConfirmedSignatureInfo,
+  ParsedTransactionWithMeta,
+} from "@solana/web3.js";
+import { PrismaClient } from "@prisma/client";
+import type { Pool } from "pg";
+import { config } from "../config.js";
+import { parseTransaction, toTypedEvent } from "../parser/decoder.js";
+import { handleEventAtomic, EventContext } from "../db/handlers.js";
+import { findLoggedEvents } from "../db/event-log.js";
+import { createChildLogger } from "../logger.js";
+import { BatchRpcFetcher } from "./batch-processor.js";
+import { fetchTxIndexMap, scanSignatureRange, SignatureRange } from "./signature-scan.js";
+
+const logger = createChildLogger("range-backfill");
+
+export type BackfillRange = SignatureRange;
+
+export interface RangeBackfillOptions {
+  connection: Connection;
+  prisma: PrismaClient | null;
+  pool: Pool | null;
+  programId: PublicKey;
+  batchSize?: number;
+  reprocess?: boolean; // Re-apply events that are already in the event log
+  onProgress?: (progress: { processed: number; total: number; slot: number }) => void;
+}
+
+export interface RangeBackfillResult {
+  scanned: number; // Successful program transactions found in the range
+  processed: number; // Transactions handled without error
+  events: number; // Events applied
+  skipped: number; // Events already in the event log
+  failed: string[]; // Signatures that could not be fetched or handled
+  duration: number;
+}
+
+export class RangeBackfill {
+  private connection: Connection;
+  private prisma: PrismaClient | null;
+  private pool: Pool | null;
+  private programId: PublicKey;
+  private batchSize: number;
+  private reprocess: boolean;
+  private onProgress?: RangeBackfillOptions["onProgress"];
+  private batchFetcher: BatchRpcFetcher;
+
+  constructor(options: RangeBackfillOptions) {
+    this.connection = options.connection;
+    this.prisma = options.prisma;
+    this.pool = options.pool;
+    this.programId = options.programId;
+    this.batchSize = options.batchSize || config.batchSize;
+    this.reprocess = options.reprocess ?? false;
+    this.onProgress = options.onProgress;
+    this.batchFetcher = new BatchRpcFetcher(this.connection);
+  }
+
+  async run(range: BackfillRange): Promise<RangeBackfillResult> {
+    validateRange(range);
+    const startTime = Date.now();
+
+    const signatures = await scanSignatureRange(this.connection, this.programId, range, this.batchSize);
+    logger.info({ range, signatures: signatures.length }, "Range scan complete");
+
+    const result: RangeBackfillResult = {
+      scanned: signatures.length,
+      processed: 0,
+      events: 0,
+      skipped: 0,
+      failed: [],
+      duration: 0,
+    };
+
+    for (let i = 0; i < signatures.length; i += this.batchSize) {
+      const chunk = signatures.slice(i, i + this.batchSize);
+      await this.processChunk(chunk, result);
+      this.onProgress?.({
+        processed: Math.min(i + chunk.length, signatures.length),
+        total: signatures.length,
+        slot: chunk[chunk.length - 1].slot,
+      });
+    }
+
+    result.duration = Date.now() - startTime;
+    logger.info({ ...result, failed: result.failed.length }, "Range backfill finished");
+    return result;
+  }
+
+  private async processChunk(
+    signatures: ConfirmedSignatureInfo[],
+    result: RangeBackfillResult
+  ): Promise<void> {
+    const sigList = signatures.map((s) => s.signature);
+    const logged = this.reprocess
+      ? new Set<string>()
+      : await findLoggedEvents(this.prisma, this.pool, sigList);
+    const txCache = await this.batchFetcher.fetchTransactions(sigList);
+
+    const bySlot = new Map<number, ConfirmedSignatureInfo[]>();
+    for (const sig of signatures) {
+      if (!bySlot.has(sig.slot)) {
+        bySlot.set(sig.slot, []);
+      }
+      bySlot.get(sig.slot)!.push(sig);
+    }
+
+    const sortedSlots = Array.from(bySlot.keys()).sort((a, b) => a - b);
+    for (const slot of sortedSlots) {
+      const sigs = bySlot.get(slot)!;
+      let txIndexMap: Map<string, number | null>;
+      try {
+        txIndexMap = await fetchTxIndexMap(this.connection, slot, sigs);
+      } catch (error) {
+        logger.warn({ slot, error: error instanceof Error ? error.message : String(error) }, "Failed to get tx index map, tx_index will be NULL");
+        txIndexMap = new Map(sigs.map((s) => [s.signature, null]));
+      }
+
+      const sigsWithIndex = sigs.map((sig) => ({
+        sig,
+        txIndex: txIndexMap.get(sig.signature) ?? undefined,
+      })).sort((a, b) => {
+        const txA = a.txIndex ?? Number.MAX_SAFE_INTEGER;
+        const txB = b.txIndex ?? Number.MAX_SAFE_INTEGER;
+        if (txA !== txB) return txA - txB;
+        return a.sig.signature.localeCompare(b.sig.signature);
+      });
+
+      for (const { sig, txIndex } of sigsWithIndex) {
+        try {
+          await this.processTransaction(sig, txIndex, txCache.get(sig.signature), logged, result);
+          result.processed++;
+        } catch (error) {
+          result.failed.push(sig.signature);
+          logger.error({
+            error: error instanceof Error ? error.message : String(error),
+            signature: sig.signature,
+            slot: sig.slot,
+          }, "Error processing range backfill transaction");
+        }
+      }
+    }
+  }
+
+  private async processTransaction(
+    sig: ConfirmedSignatureInfo,
+    txIndex: number | undefined,
+    tx: ParsedTransactionWithMeta | undefined,
+    logged: Set<string>,
+    result: RangeBackfillResult
+  ): Promise<void> {
+    if (!tx) {
+      tx = await this.connection.getParsedTransaction(sig.signature, {
+        maxSupportedTransactionVersion: 0,
+      }) ?? undefined;
+    }
+    if (!tx) {
+      throw new Error("Transaction not found");
+    }
+
+    const parsed = parseTransaction(tx);
+    if (!parsed || parsed.events.length === 0) {
+      return;
+    }
+
+    let eventOrdinal = -1;
+    for (const event of parsed.events) {
+      eventOrdinal++;
+      const typedEvent = toTypedEvent(event);
+      if (!typedEvent) continue;
+
+      if (logged.has(`${sig.signature}:${eventOrdinal}`)) {
+        result.skipped++;
+        continue;
+      }
+
+      const ctx: EventContext = {
+        signature: sig.signature,
+        slot: BigInt(sig.slot),
+        blockTime: sig.blockTime
+          ? new Date(sig.blockTime * 1000)
+          : new Date(),
+        txIndex,
+        eventOrdinal,
+        rawEvent: event.raw,
+        source: "backfill",
+      };
+
+      await handleEventAtomic(this.prisma, typedEvent, ctx);
+      result.events++;
+    }
+  }
+}
+
+function validateRange(range: BackfillRange): void {
+  const { fromSlot, toSlot, before, until } = range;
+  if (fromSlot === undefined && toSlot === undefined && !before && !until) {
+    throw new Error("Backfill range needs at least one of fromSlot, toSlot, before or until");
+  }
+  for (const [name, value] of [["fromSlot", fromSlot], ["toSlot", toSlot]] as const) {
+    if (value !== undefined && (!Number.isSafeInteger(value) || value < 0)) {
+      throw new Error(`${name} must be a non-negative integer`);
+    }
+  }
+  if (fromSlot !== undefined && toSlot !== undefined && fromSlot > toSlot) {
+    throw new Error("fromSlot must not be greater than toSlot");
+  }
+}
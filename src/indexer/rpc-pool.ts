@@ -0,0 +1,374 @@
+/**
+ * Shared Solana RPC pool
+ *
+ * Exposes a single `Connection` whose RPC calls are spread over several
+ * endpoints. Each endpoint is scored on latency and error rate (EWMA);
+ * calls go to a weighted-random healthy endpoint and fail over to the next
+ * one on error. Endpoints that keep failing are put in cooldown (circuit
+ * open) and probed in the background until they answer again. JSON-RPC
+ * application errors (bad params, skipped slot, ...) are the answer, not an
+ * endpoint fault: they are rethrown as-is without failover.
+ *
+ * Subscriptions (onLogs, ...) are pinned to one endpoint and moved to a
+ * healthy one when their endpoint's circuit opens; callers keep the id
+ * they were given.
+ */
+
+import { Commitment, Connection, SolanaJSONRPCError } from "@solana/web3.js";
+import { config, RpcEndpointConfig } from "../config.js";
+import { createChildLogger } from "../logger.js";
+import { metrics, rpcRequestsTotal, rpcRequestDurationSeconds, rpcEndpointUp } from "../metrics.js";
+
+const logger = createChildLogger("rpc-pool");
+
+const LATENCY_ALPHA = 0.2; // EWMA smoothing for latency
+const ERROR_ALPHA = 0.1; // EWMA smoothing for error rate
+const LATENCY_REFERENCE_MS = 250; // Latency at which an endpoint's share is halved
+const MIN_RELIABILITY = 0.05;
+const CIRCUIT_FAILURES = 3; // Consecutive failures before cooldown
+const BASE_COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 300000;
+const PROBE_TIMEOUT_MS = 5000;
+
+// JSON-RPC error codes every endpoint would answer the same way
+const APPLICATION_ERROR_CODES = new Set([
+  -32602, // Invalid params
+  -32007, // Slot skipped (or ledger jump)
+  -32009, // Slot skipped or missing in long-term storage
+  -32015, // Transaction version not supported by the request
+]);
+
+// Subscribe method -> matching remove method (web3.js names are not uniform)
+const SUBSCRIPTION_METHODS: Record<string, string> = {
+  onLogs: "removeOnLogsListener",
+  onAccountChange: "removeAccountChangeListener",
+  onProgramAccountChange: "removeProgramAccountChangeListener",
+  onSignature: "removeSignatureListener",
+  onSlotChange: "removeSlotChangeListener",
+  onSlotUpdate: "removeSlotUpdateListener",
+  onRootChange: "removeRootChangeListener",
+};
+const REMOVE_METHODS = new Set(Object.values(SUBSCRIPTION_METHODS));
+
+interface EndpointState {
+  config: RpcEndpointConfig;
+  connection: Connection;
+  latencyMs: number | null;
+  errorRate: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+}
+
+interface Subscription {
+  method: string;
+  args: unknown[];
+  endpoint: EndpointState;
+  id: number;
+}
+
+export interface RpcPoolOptions {
+  routes?: Record<string, string[]>;
+  commitment?: Commitment;
+  healthCheckIntervalMs?: number;
+  random?: () => number;
+}
+
+export interface RpcEndpointStats {
+  name: string;
+  weight: number;
+  latencyMs: number | null;
+  errorRate: number;
+  healthy: boolean;
+  subscriptions: number;
+}
+
+type ConnectionMethod = (...args: unknown[]) => unknown;
+
+function invoke(connection: Connection, method: string, args: unknown[]): unknown {
+  return (connection as unknown as Record<string, ConnectionMethod>)[method](...args);
+}
+
+function isApplicationError(error: unknown): boolean {
+  return error instanceof SolanaJSONRPCError && APPLICATION_ERROR_CODES.has(error.code as number);
+}
+
+export class RpcPool {
+  readonly connection: Connection;
+  private endpoints: EndpointState[];
+  private routes = new Map<string, EndpointState[]>();
+  private subscriptions = new Map<number, Subscription>();
+  private nextSubscriptionId = 0;
+  private healthCheckIntervalMs: number;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private random: () => number;
+
+  constructor(endpoints: RpcEndpointConfig[], options: RpcPoolOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error("RPC pool needs at least one endpoint");
+    }
+
+    const commitment = options.commitment ?? "confirmed";
+    this.endpoints = endpoints.map((endpoint) => ({
+      config: endpoint,
+      connection: new Connection(endpoint.url, { wsEndpoint: endpoint.wsUrl, commitment }),
+      latencyMs: null,
+      errorRate: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    }));
+
+    for (const [method, names] of Object.entries(options.routes ?? {})) {
+      const routed = this.endpoints.filter((e) => names.includes(e.config.name));
+      if (routed.length !== names.length) {
+        throw new Error(`RPC route for ${method} references unknown endpoint(s): ${names.join(", ")}`);
+      }
+      this.routes.set(method, routed);
+    }
+
+    this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? config.rpcHealthCheckIntervalMs;
+    this.random = options.random ?? Math.random;
+
+    // Property reads (rpcEndpoint, commitment) come from the first endpoint
+    this.connection = new Proxy(this.endpoints[0].connection, {
+      get: (target, prop) => {
+        const value = Reflect.get(target, prop);
+        if (typeof prop !== "string" || typeof value !== "function") {
+          return value;
+        }
+        if (prop in SUBSCRIPTION_METHODS) {
+          return (...args: unknown[]) => this.subscribe(prop, args);
+        }
+        if (REMOVE_METHODS.has(prop)) {
+          return (id: number) => this.unsubscribe(prop, id);
+        }
+        return (...args: unknown[]) => this.call(prop, args);
+      },
+    });
+  }
+
+  /**
+   * Start background health probes
+   */
+  start(): void {
+    metrics.registerCollector("rpc-pool", () => this.collectMetrics());
+    // Nothing to fail over to with a single endpoint
+    if (this.healthTimer || this.endpoints.length < 2) return;
+    this.healthTimer = setInterval(() => {
+      this.probe().catch((error) => logger.debug({ error }, "RPC health probe failed"));
+    }, this.healthCheckIntervalMs);
+    this.healthTimer.unref?.();
+  }
+
+  stop(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    metrics.unregisterCollector("rpc-pool");
+  }
+
+  /**
+   * Call an RPC method, failing over across candidates in score order
+   */
+  async call(method: string, args: unknown[]): Promise<unknown> {
+    const candidates = this.rank(method);
+    let lastError: unknown;
+
+    for (const endpoint of candidates) {
+      const startTime = Date.now();
+      try {
+        const result = await invoke(endpoint.connection, method, args);
+        this.recordSuccess(endpoint, method, Date.now() - startTime);
+        return result;
+      } catch (error) {
+        if (isApplicationError(error)) {
+          this.recordSuccess(endpoint, method, Date.now() - startTime, "rejected");
+          throw error;
+        }
+        lastError = error;
+        this.recordFailure(endpoint, method, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Endpoint currently preferred for subscriptions
+   */
+  subscriptionEndpoint(method = "onLogs"): RpcEndpointConfig {
+    return this.rank(method)[0].config;
+  }
+
+  getStats(): RpcEndpointStats[] {
+    const now = Date.now();
+    return this.endpoints.map((e) => ({
+      name: e.config.name,
+      weight: e.config.weight,
+      latencyMs: e.latencyMs === null ? null : Math.round(e.latencyMs),
+      errorRate: Math.round(e.errorRate * 1000) / 1000,
+      healthy: e.cooldownUntil <= now,
+      subscriptions: Array.from(this.subscriptions.values()).filter((s) => s.endpoint === e).length,
+    }));
+  }
+
+  /**
+   * Candidates for a method: healthy ones by weighted random draw on their
+   * score, then endpoints in cooldown (soonest to reopen first) as last resort
+   */
+  private rank(method: string): EndpointState[] {
+    const candidates = this.routes.get(method) ?? this.endpoints;
+    const now = Date.now();
+    const healthy = candidates.filter((e) => e.cooldownUntil <= now);
+    const cooling = candidates
+      .filter((e) => e.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+
+    const ordered: EndpointState[] = [];
+    const pool = healthy.map((e) => ({ endpoint: e, score: this.score(e) }));
+    while (pool.length > 0) {
+      const total = pool.reduce((sum, p) => sum + p.score, 0);
+      let draw = this.random() * total;
+      let index = pool.findIndex((p) => (draw -= p.score) < 0);
+      if (index === -1) index = pool.length - 1;
+      ordered.push(pool[index].endpoint);
+      pool.splice(index, 1);
+    }
+
+    return ordered.concat(cooling);
+  }
+
+  private score(endpoint: EndpointState): number {
+    const latencyFactor = endpoint.latencyMs === null
+      ? 1
+      : LATENCY_REFERENCE_MS / (LATENCY_REFERENCE_MS + endpoint.latencyMs);
+    const reliability = Math.max(MIN_RELIABILITY, 1 - endpoint.errorRate);
+    return endpoint.config.weight * latencyFactor * reliability;
+  }
+
+  private recordSuccess(endpoint: EndpointState, method: string, latencyMs: number, outcome = "ok"): void {
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs + LATENCY_ALPHA * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - ERROR_ALPHA;
+    endpoint.consecutiveFailures = 0;
+    if (endpoint.cooldownUntil > 0) {
+      endpoint.cooldownUntil = 0;
+      logger.info({ endpoint: endpoint.config.name }, "RPC endpoint recovered");
+    }
+    rpcRequestsTotal.inc({ endpoint: endpoint.config.name, method, outcome });
+    rpcRequestDurationSeconds.observe(latencyMs / 1000, { endpoint: endpoint.config.name });
+  }
+
+  private recordFailure(endpoint: EndpointState, method: string, error: unknown): void {
+    endpoint.errorRate += ERROR_ALPHA * (1 - endpoint.errorRate);
+    endpoint.consecutiveFailures++;
+    rpcRequestsTotal.inc({ endpoint: endpoint.config.name, method, outcome: "error" });
+
+    logger.warn({
+      endpoint: endpoint.config.name,
+      method,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      error: error instanceof Error ? error.message : String(error),
+    }, "RPC call failed");
+
+    if (endpoint.consecutiveFailures >= CIRCUIT_FAILURES) {
+      const cooldown = Math.min(
+        BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - CIRCUIT_FAILURES),
+        MAX_COOLDOWN_MS
+      );
+      const wasHealthy = endpoint.cooldownUntil <= Date.now();
+      endpoint.cooldownUntil = Date.now() + cooldown;
+      if (wasHealthy) {
+        logger.warn({ endpoint: endpoint.config.name, cooldownMs: cooldown }, "RPC endpoint unhealthy, failing over");
+        this.migrateSubscriptions(endpoint);
+      }
+    }
+  }
+
+  private subscribe(method: string, args: unknown[]): number {
+    const endpoint = this.rank(method)[0];
+    const id = invoke(endpoint.connection, method, args) as number;
+    const virtualId = this.nextSubscriptionId++;
+    this.subscriptions.set(virtualId, { method, args, endpoint, id });
+    return virtualId;
+  }
+
+  private async unsubscribe(removeMethod: string, virtualId: number): Promise<void> {
+    const subscription = this.subscriptions.get(virtualId);
+    if (!subscription) return;
+    this.subscriptions.delete(virtualId);
+    await invoke(subscription.endpoint.connection, removeMethod, [subscription.id]);
+  }
+
+  /**
+   * Re-create subscriptions of a failed endpoint on the best healthy one
+   */
+  private migrateSubscriptions(failed: EndpointState): void {
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.endpoint !== failed) continue;
+
+      const target = this.rank(subscription.method).find((e) => e !== failed && e.cooldownUntil <= Date.now());
+      if (!target) {
+        logger.warn({ endpoint: failed.config.name, method: subscription.method }, "No healthy endpoint to move subscription to");
+        continue;
+      }
+
+      const oldId = subscription.id;
+      try {
+        subscription.id = invoke(target.connection, subscription.method, subscription.args) as number;
+        subscription.endpoint = target;
+      } catch (error) {
+        logger.error({ endpoint: target.config.name, error }, "Failed to move subscription");
+        continue;
+      }
+
+      logger.info({ from: failed.config.name, to: target.config.name, method: subscription.method }, "Subscription moved");
+      Promise.resolve(invoke(failed.connection, SUBSCRIPTION_METHODS[subscription.method], [oldId])).catch((error) => {
+        logger.debug({ endpoint: failed.config.name, error }, "Failed to remove subscription from unhealthy endpoint");
+      });
+    }
+  }
+
+  private async probe(): Promise<void> {
+    await Promise.all(this.endpoints.map(async (endpoint) => {
+      const startTime = Date.now();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        await Promise.race([
+          endpoint.connection.getSlot(),
+          new Promise((_, reject) => {
+            timer = setTimeout(() => reject(new Error("Health probe timed out")), PROBE_TIMEOUT_MS);
+          }),
+        ]);
+        this.recordSuccess(endpoint, "healthProbe", Date.now() - startTime);
+      } catch (error) {
+        this.recordFailure(endpoint, "healthProbe", error);
+      } finally {
+        clearTimeout(timer);
+      }
+    }));
+  }
+
+  private collectMetrics(): void {
+    const now = Date.now();
+    for (const endpoint of this.endpoints) {
+      rpcEndpointUp.set({ endpoint: endpoint.config.name }, endpoint.cooldownUntil <= now ? 1 : 0);
+    }
+  }
+}
+
+let rpcPool: RpcPool | null = null;
+
+/**
+ * Process-wide pool built from RPC_ENDPOINTS / RPC_ROUTES
+ */
+export function getRpcPool(): RpcPool {
+  if (!rpcPool) {
+    rpcPool = new RpcPool(config.rpcEndpoints, {
+      routes: config.rpcRoutes,
+      healthCheckIntervalMs: config.rpcHealthCheckIntervalMs,
+    });
+  }
+  return rpcPool;
+}
@@ -0,0 +1,325 @@
+/**
+ * Search indexer - background maintenance of agent full-text search documents
+ *
+ * Each cycle finds agents whose non-orphaned metadata rows changed since
+ * their document was built (row count or latest updated_at differ) and
+ * rebuilds up to SEARCH_INDEX_BATCH_SIZE of them. A document holds the
+ * digested registration file fields (name, description, MCP tools, OASF and
+ * A2A skills, OASF domains) and on-chain metadata values as "key value"
+ * lines. Agents left without metadata lose their document.
+ *
+ * Supabase mode writes agent_search with a weighted tsvector; local mode
+ * writes AgentSearchDocument, mirrored into the agent_search_fts FTS5 table
+ * by triggers. Queries live in services/agent-search.ts.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { Pool } from "pg";
+import { config } from "../config.js";
+import { createChildLogger } from "../logger.js";
+import { decompressFromStorage } from "../utils/compression.js";
+
+const logger = createChildLogger("search-indexer");
+
+const MAX_LIST_ITEMS = 100;
+
+export interface SearchDocument {
+  name: string | null;
+  description: string | null;
+  tools: string[];
+  skills: string[];
+  domains: string[];
+  metadataText: string;
+}
+
+export interface SearchSourceEntry {
+  key: string;
+  value: string;
+}
+
+interface StaleAgent {
+  agentId: string;
+  sourceCount: number;
+  sourceUpdatedAt: Date | string | null; // string on the pg path to keep microseconds
+}
+
+interface IndexerStats {
+  documentsIndexed: number;
+  documentsRemoved: number;
+  lastRunAt: Date | null;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.length > 0) : [];
+}
+
+function parseJson(raw: string | undefined): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+function dedupe(values: string[]): string[] {
+  return [...new Set(values)].slice(0, MAX_LIST_ITEMS);
+}
+
+/**
+ * Build a search document from decoded metadata entries (URI-derived `_uri:*`
+ * keys and on-chain keys)
+ */
+export function buildSearchDocument(entries: SearchSourceEntry[]): SearchDocument {
+  const fields = new Map(entries.map((e) => [e.key, e.value]));
+  const tools: string[] = [];
+  const skills: string[] = [];
+  const domains: string[] = [];
+
+  const services = parseJson(fields.get("_uri:services"));
+  if (Array.isArray(services)) {
+    for (const service of services) {
+      if (typeof service !== "object" || service === null) continue;
+      tools.push(...stringList(service.mcpTools));
+      skills.push(...stringList(service.skills), ...stringList(service.a2aSkills));
+      domains.push(...stringList(service.domains));
+    }
+  }
+  skills.push(...stringList(parseJson(fields.get("_uri:skills"))));
+  domains.push(...stringList(parseJson(fields.get("_uri:domains"))));
+
+  const metadataLines = entries
+    .filter((e) => !e.key.startsWith("_uri:") && !e.value.includes("\uFFFD"))
+    .map((e) => `${e.key} ${e.value.replace(/[\u0000-\u001f]+/g, " ").trim()}`);
+
+  return {
+    name: fields.get("_uri:name") || null,
+    description: fields.get("_uri:description") || null,
+    tools: dedupe(tools),
+    skills: dedupe(skills),
+    domains: dedupe(domains),
+    metadataText: metadataLines.join("\n"),
+  };
+}
+
+async function decodeEntries(rows: Array<{ key: string; value: Buffer | Uint8Array }>): Promise<SearchSourceEntry[]> {
+  const entries: SearchSourceEntry[] = [];
+  for (const row of rows) {
+    try {
+      const value = await decompressFromStorage(Buffer.from(row.value));
+      entries.push({ key: row.key, value: value.toString("utf-8") });
+    } catch (error: any) {
+      logger.debug({ key: row.key, error: error.message }, "Skipping undecodable metadata value");
+    }
+  }
+  return entries;
+}
+
+export class SearchIndexer {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private cycleInProgress = false; // Reentrancy guard for async cycles
+  private stats: IndexerStats = {
+    documentsIndexed: 0,
+    documentsRemoved: 0,
+    lastRunAt: null,
+  };
+
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null,
+    private intervalMs = config.searchIndexIntervalMs,
+    private batchSize = config.searchIndexBatchSize
+  ) {}
+
+  async start(): Promise<void> {
+    this.isRunning = true;
+    logger.info({ intervalMs: this.intervalMs, batchSize: this.batchSize }, "Starting search indexer");
+
+    this.interval = setInterval(() => {
+      this.index().catch((err) => {
+        logger.error({ error: err.message }, "Search index cycle failed");
+      });
+    }, this.intervalMs);
+  }
+
+  async stop(): Promise<void> {
+    logger.info("Stopping search indexer");
+    this.isRunning = false;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  getStats(): IndexerStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Run one cycle. Returns the number of agents whose document was rebuilt or removed.
+   */
+  async index(): Promise<number> {
+    if (!this.isRunning || this.cycleInProgress) return 0;
+
+    this.cycleInProgress = true;
+    try {
+      const stale = await this.listStale();
+      let indexed = 0;
+      let removed = 0;
+
+      for (const agent of stale) {
+        if (!this.isRunning) break;
+        try {
+          if (await this.rebuild(agent)) {
+            indexed++;
+          } else {
+            removed++;
+          }
+        } catch (error: any) {
+          logger.error({ agentId: agent.agentId, error: error.message }, "Failed to index agent");
+        }
+      }
+
+      this.stats.documentsIndexed += indexed;
+      this.stats.documentsRemoved += removed;
+      this.stats.lastRunAt = new Date();
+      if (stale.length > 0) {
+        logger.info({ indexed, removed }, "Search index cycle complete");
+      }
+      return indexed + removed;
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+
+  /**
+   * Agents whose metadata fingerprint (row count, latest updated_at) differs
+   * from the one their document was built from
+   */
+  private async listStale(): Promise<StaleAgent[]> {
+    if (this.prisma) {
+      const [sources, documents] = await Promise.all([
+        this.prisma.agentMetadata.groupBy({
+          by: ["agentId"],
+          where: { status: { not: "ORPHANED" } },
+          _count: { _all: true },
+          _max: { updatedAt: true },
+        }),
+        this.prisma.agentSearchDocument.findMany({
+          select: { agentId: true, sourceCount: true, sourceUpdatedAt: true },
+        }),
+      ]);
+      const indexed = new Map(documents.map((d) => [d.agentId, d]));
+      const stale: StaleAgent[] = [];
+
+      for (const source of sources) {
+        const doc = indexed.get(source.agentId);
+        indexed.delete(source.agentId);
+        const updatedAt = source._max.updatedAt ?? null;
+        if (
+          !doc ||
+          doc.sourceCount !== source._count._all ||
+          (doc.sourceUpdatedAt?.getTime() ?? null) !== (updatedAt?.getTime() ?? null)
+        ) {
+          stale.push({ agentId: source.agentId, sourceCount: source._count._all, sourceUpdatedAt: updatedAt });
+        }
+      }
+      // Documents of agents that no longer have metadata
+      for (const agentId of indexed.keys()) {
+        stale.push({ agentId, sourceCount: 0, sourceUpdatedAt: null });
+      }
+      return stale.slice(0, this.batchSize);
+    } else if (this.pool) {
+      const result = await this.pool.query(
+        `SELECT a.asset, COALESCE(m.source_count, 0) AS source_count, m.source_updated_at::text AS source_updated_at
+         FROM agents a
+         LEFT JOIN agent_search s ON s.asset = a.asset
+         LEFT JOIN LATERAL (
+           SELECT COUNT(*)::int AS source_count, MAX(updated_at) AS source_updated_at
+           FROM metadata
+           WHERE asset = a.asset AND status != 'ORPHANED'
+         ) m ON true
+         WHERE (s.asset IS NULL AND m.source_count > 0)
+            OR s.source_count != m.source_count
+            OR s.source_updated_at IS DISTINCT FROM m.source_updated_at
+         LIMIT $1::int`,
+        [this.batchSize]
+      );
+      return result.rows.map((row) => ({
+        agentId: row.asset,
+        sourceCount: Number(row.source_count),
+        sourceUpdatedAt: row.source_updated_at ?? null,
+      }));
+    }
+    return [];
+  }
+
+  /**
+   * Rebuild one agent's document. Returns false when it was removed instead.
+   */
+  private async rebuild(agent: StaleAgent): Promise<boolean> {
+    const { agentId } = agent;
+
+    if (this.prisma) {
+      const rows = await this.prisma.agentMetadata.findMany({
+        where: { agentId, status: { not: "ORPHANED" } },
+        select: { key: true, value: true },
+      });
+      if (rows.length === 0) {
+        await this.prisma.agentSearchDocument.deleteMany({ where: { agentId } });
+        return false;
+      }
+      const doc = buildSearchDocument(await decodeEntries(rows));
+      const data = {
+        name: doc.name,
+        description: doc.description,
+        tools: JSON.stringify(doc.tools),
+        skills: JSON.stringify(doc.skills),
+        domains: JSON.stringify(doc.domains),
+        metadataText: doc.metadataText,
+        sourceCount: agent.sourceCount,
+        sourceUpdatedAt: agent.sourceUpdatedAt as Date | null,
+      };
+      await this.prisma.agentSearchDocument.upsert({
+        where: { agentId },
+        create: { agentId, ...data },
+        update: data,
+      });
+      return true;
+    } else if (this.pool) {
+      const { rows } = await this.pool.query(
+        `SELECT key, value FROM metadata WHERE asset = $1 AND status != 'ORPHANED'`,
+        [agentId]
+      );
+      if (rows.length === 0) {
+        await this.pool.query(`DELETE FROM agent_search WHERE asset = $1`, [agentId]);
+        return false;
+      }
+      const doc = buildSearchDocument(await decodeEntries(rows));
+      await this.pool.query(
+        `INSERT INTO agent_search (asset, name, description, tools, skills, domains, metadata_text, document, source_count, source_updated_at, indexed_at)
+         VALUES ($1, $2::text, $3::text, $4::text[], $5::text[], $6::text[], $7::text,
+                 setweight(to_tsvector('simple', COALESCE($2::text, '')), 'A') ||
+                 setweight(to_tsvector('simple', COALESCE($3::text, '')), 'B') ||
+                 setweight(to_tsvector('simple', array_to_string($4::text[] || $5::text[] || $6::text[], ' ')), 'C') ||
+                 setweight(to_tsvector('simple', $7::text), 'D'),
+                 $8, $9::timestamptz, NOW())
+         ON CONFLICT (asset) DO UPDATE SET
+           name = EXCLUDED.name,
+           description = EXCLUDED.description,
+           tools = EXCLUDED.tools,
+           skills = EXCLUDED.skills,
+           domains = EXCLUDED.domains,
+           metadata_text = EXCLUDED.metadata_text,
+           document = EXCLUDED.document,
+           source_count = EXCLUDED.source_count,
+           source_updated_at = EXCLUDED.source_updated_at,
+           indexed_at = NOW()`,
+        [agentId, doc.name, doc.description, doc.tools, doc.skills, doc.domains, doc.metadataText, agent.sourceCount, agent.sourceUpdatedAt]
+      );
+      return true;
+    }
+    return false;
+  }
+}
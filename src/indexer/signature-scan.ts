@@ -0,0 +1,123 @@
+/**
+ * Signature scanning helpers shared by the poller backfill and range backfills
+ */
+
+import { Connection, PublicKey, ConfirmedSignatureInfo } from "@solana/web3.js";
+import { createChildLogger } from "../logger.js";
+
+const logger = createChildLogger("signature-scan");
+
+const MAX_SCAN_RETRIES = 3;
+
+/**
+ * Inclusive slot bounds and/or exclusive signature bounds
+ * (`before`/`until` follow getSignaturesForAddress semantics)
+ */
+export interface SignatureRange {
+  fromSlot?: number;
+  toSlot?: number;
+  before?: string;
+  until?: string;
+}
+
+/**
+ * Get transaction index within a block for multiple signatures
+ * Fetches block once and maps signature -> index
+ * Only called when multiple txs exist in the same slot (rare case)
+ */
+export async function fetchTxIndexMap(
+  connection: Connection,
+  slot: number,
+  sigs: ConfirmedSignatureInfo[]
+): Promise<Map<string, number | null>> {
+  const txIndexMap = new Map<string, number | null>();
+
+  // If only one transaction in slot, index is 0 - no need to fetch block
+  if (sigs.length === 1) {
+    txIndexMap.set(sigs[0].signature, 0);
+    return txIndexMap;
+  }
+
+  const MAX_RETRIES = 3;
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      const block = await connection.getBlock(slot, {
+        maxSupportedTransactionVersion: 0,
+        transactionDetails: "full",
+      });
+
+      if (block?.transactions) {
+        const sigSet = new Set(sigs.map(s => s.signature));
+        block.transactions.forEach((tx, idx) => {
+          const sig = tx.transaction.signatures[0];
+          if (sigSet.has(sig)) {
+            txIndexMap.set(sig, idx);
+          }
+        });
+      }
+      return txIndexMap;
+    } catch (error) {
+      if (attempt < MAX_RETRIES) {
+        logger.warn({ slot, attempt, error: error instanceof Error ? error.message : String(error) }, "getBlock failed, retrying");
+        await new Promise(r => setTimeout(r, 500 * attempt));
+      } else {
+        logger.warn({ slot, sigCount: sigs.length }, "getBlock failed after retries, tx_index will be NULL (unordered)");
+        sigs.forEach(sig => txIndexMap.set(sig.signature, null));
+      }
+    }
+  }
+
+  return txIndexMap;
+}
+
+/**
+ * Collect successful signatures of `address` (program or account) inside the range, oldest first
+ * Throws after repeated RPC errors: a partial scan would silently leave a gap
+ */
+export async function scanSignatureRange(
+  connection: Connection,
+  address: PublicKey,
+  range: SignatureRange,
+  pageSize: number
+): Promise<ConfirmedSignatureInfo[]> {
+  const found: ConfirmedSignatureInfo[] = [];
+  let before = range.before;
+  let retryCount = 0;
+
+  for (;;) {
+    let page: ConfirmedSignatureInfo[];
+    try {
+      page = await connection.getSignaturesForAddress(address, {
+        limit: pageSize,
+        before,
+        until: range.until,
+      });
+      retryCount = 0;
+    } catch (error) {
+      retryCount++;
+      if (retryCount >= MAX_SCAN_RETRIES) {
+        throw error;
+      }
+      logger.warn({ error: error instanceof Error ? error.message : String(error), retryCount, before }, "Signature scan failed, retrying");
+      await new Promise((resolve) => setTimeout(resolve, 500 * retryCount));
+      continue;
+    }
+
+    if (page.length === 0) break;
+
+    for (const sig of page) {
+      if (sig.err !== null) continue;
+      if (range.toSlot !== undefined && sig.slot > range.toSlot) continue;
+      if (range.fromSlot !== undefined && sig.slot < range.fromSlot) continue;
+      found.push(sig);
+    }
+
+    const last = page[page.length - 1];
+    if (page.length < pageSize) break;
+    if (range.fromSlot !== undefined && last.slot < range.fromSlot) break;
+    before = last.signature;
+    logger.debug({ found: found.length, slot: last.slot }, "Signature scan progress");
+  }
+
+  return found.reverse();
+}
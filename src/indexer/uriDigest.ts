@@ -8,6 +8,7 @@ import { lookup } from "dns/promises";
 import DOMPurify from "isomorphic-dompurify";
 import { config } from "../config.js";
 import { createChildLogger } from "../logger.js";
+import { fetchArweaveContent, fetchIpfsContent } from "./gateways.js";
 
 const logger = createChildLogger("uri-digest");
 
@@ -564,7 +565,7 @@ async function validateHostResolution(hostname: string): Promise<{ ip: string; f
   }
 }
 
-export type DigestStatus = "ok" | "timeout" | "error" | "oversize" | "invalid_json" | "blocked";
+export type DigestStatus = "ok" | "timeout" | "error" | "oversize" | "invalid_json" | "blocked" | "cid_mismatch";
 
 export interface UriDigestResult {
   status: DigestStatus;
@@ -573,6 +574,30 @@ export interface UriDigestResult {
   hash?: string;
   fields?: Record<string, unknown>;
   truncatedKeys?: boolean;
+  cidVerified?: boolean; // IPFS URIs only: content hashed to its CID
+  etag?: string;
+  lastModified?: string;
+  notModified?: boolean; // 304 to a conditional request: no body, fields unchanged
+  body?: Buffer; // fetched bytes (set whenever a body was fetched)
+}
+
+export interface UriFetchResult {
+  status: DigestStatus;
+  error?: string;
+  bytes?: number;
+  body?: Buffer;
+  cidVerified?: boolean;
+  etag?: string;
+  lastModified?: string;
+  notModified?: boolean;
+}
+
+/**
+ * Validators from a previous HTTP(S) fetch, sent as If-None-Match / If-Modified-Since
+ */
+export interface HttpValidators {
+  etag?: string | null;
+  lastModified?: string | null;
 }
 
 /**
@@ -601,14 +626,42 @@ const STANDARD_FIELDS: Record<string, string> = {
 
 // Maximum redirect depth to prevent infinite loops and SSRF via redirect chains
 const MAX_REDIRECT_DEPTH = 3;
+// Longest ETag / Last-Modified value kept for conditional requests
+const MAX_VALIDATOR_LENGTH = 256;
 
 /**
  * Fetch and digest URI metadata
  * @param uri - The URI to fetch (IPFS, HTTPS, etc.)
- * @param redirectDepth - Current redirect depth (internal use)
+ * @param validators - Make HTTP(S) fetches conditional (refresh of an already digested file)
  * @returns Digest result with status, fields, and metadata
  */
-export async function digestUri(uri: string, redirectDepth: number = 0): Promise<UriDigestResult> {
+export async function digestUri(uri: string, validators?: HttpValidators): Promise<UriDigestResult> {
+  const fetched = await fetchUriContent(uri, 0, validators);
+  const cacheHeaders = {
+    ...(fetched.etag && { etag: fetched.etag }),
+    ...(fetched.lastModified && { lastModified: fetched.lastModified }),
+  };
+  if (fetched.notModified) {
+    return { status: "ok", notModified: true, ...cacheHeaders };
+  }
+  if (fetched.status !== "ok" || !fetched.body) {
+    return { status: fetched.status, error: fetched.error, bytes: fetched.bytes };
+  }
+  const result = { ...digestJson(uri, fetched.body), ...cacheHeaders, body: fetched.body };
+  return fetched.cidVerified === undefined ? result : { ...result, cidVerified: fetched.cidVerified };
+}
+
+/**
+ * Fetch the raw bytes behind a URI with the SSRF, size and timeout limits used for registration files
+ * @param uri - The URI to fetch (IPFS, HTTPS, etc.)
+ * @param redirectDepth - Current redirect depth (internal use)
+ * @param validators - ETag / Last-Modified of a previous fetch (HTTP(S) only)
+ */
+export async function fetchUriContent(
+  uri: string,
+  redirectDepth: number = 0,
+  validators?: HttpValidators
+): Promise<UriFetchResult> {
   if (!uri) {
     return { status: "error", error: "Empty URI" };
   }
@@ -618,7 +671,17 @@ export async function digestUri(uri: string, redirectDepth: number = 0): Promise
     return { status: "error", error: "Too many redirects" };
   }
 
-  // Convert IPFS URI to gateway URL
+  // IPFS / Arweave content goes through the gateway pools
+  if (uri.startsWith("ipfs://")) {
+    return fetchIpfsContent(uri.slice(7));
+  }
+  if (uri.startsWith("/ipfs/")) {
+    return fetchIpfsContent(uri.slice(6));
+  }
+  if (uri.startsWith("ar://")) {
+    return fetchArweaveContent(uri.slice(5));
+  }
+
   const fetchUrl = convertToFetchUrl(uri);
   if (!fetchUrl) {
     return { status: "error", error: "Unsupported URI scheme" };
@@ -667,6 +730,8 @@ export async function digestUri(uri: string, redirectDepth: number = 0): Promise
         Accept: "application/json",
         "User-Agent": "8004-Indexer/1.0",
         ...(usingPinnedIp && { Host: originalHost }),
+        ...(validators?.etag && { "If-None-Match": validators.etag }),
+        ...(validators?.lastModified && { "If-Modified-Since": validators.lastModified }),
       },
     });
 
@@ -679,6 +744,13 @@ export async function digestUri(uri: string, redirectDepth: number = 0): Promise
       }
     }
 
+    const etag = response.headers.get("etag")?.slice(0, MAX_VALIDATOR_LENGTH) || undefined;
+    const lastModified = response.headers.get("last-modified")?.slice(0, MAX_VALIDATOR_LENGTH) || undefined;
+
+    if (response.status === 304 && (validators?.etag || validators?.lastModified)) {
+      return { status: "ok", notModified: true, etag, lastModified };
+    }
+
     // Handle redirects manually with validation
     if (response.status >= 300 && response.status < 400) {
       const location = response.headers.get("location");
@@ -697,7 +769,7 @@ export async function digestUri(uri: string, redirectDepth: number = 0): Promise
           return { status: "blocked", error: "Redirect DNS resolved to private IP" };
         }
         // Follow the redirect with same safety checks (increment depth)
-        return digestUri(redirectUrl.toString(), redirectDepth + 1);
+        return fetchUriContent(redirectUrl.toString(), redirectDepth + 1, validators);
       } catch {
         return { status: "error", error: "Invalid redirect URL" };
       }
@@ -737,62 +809,12 @@ export async function digestUri(uri: string, redirectDepth: number = 0): Promise
       chunks.push(value);
     }
 
-    // Combine chunks and parse JSON
-    const buffer = Buffer.concat(chunks);
-    const text = buffer.toString("utf-8");
-    const hash = createHash("sha256").update(buffer).digest("hex");
-
-    let json: Record<string, unknown>;
-    try {
-      json = JSON.parse(text);
-    } catch {
-      return { status: "invalid_json", bytes: totalBytes, hash };
-    }
-
-    // Extract and sanitize standard fields
-    const fields: Record<string, unknown> = {};
-    const standardKeys = new Set(Object.keys(STANDARD_FIELDS));
-
-    for (const [jsonKey, metaKey] of Object.entries(STANDARD_FIELDS)) {
-      if (json[jsonKey] !== undefined) {
-        // Apply sanitization based on field type
-        const sanitized = sanitizeField(metaKey, json[jsonKey]);
-        if (sanitized !== null && sanitized !== "" && !(Array.isArray(sanitized) && sanitized.length === 0)) {
-          fields[metaKey] = sanitized;
-        }
-      }
-    }
-
-    // In "full" mode, store unknown keys individually (with DoS protection)
-    let truncatedKeys = false;
-    if (config.metadataIndexMode === "full") {
-      const MAX_EXTRA_KEYS = 50; // Protection against malicious JSON with many keys
-      let extraKeyCount = 0;
-
-      for (const [key, value] of Object.entries(json)) {
-        if (!standardKeys.has(key)) {
-          if (extraKeyCount >= MAX_EXTRA_KEYS) {
-            logger.warn({ uri }, `Exceeded ${MAX_EXTRA_KEYS} extra keys, truncating`);
-            truncatedKeys = true;
-            break;
-          }
-          // Store with _uri: prefix (internal) and sanitize
-          const metaKey = `_uri:${key}`;
-          const sanitized = sanitizeField(metaKey, value);
-          if (sanitized !== null && sanitized !== "") {
-            fields[metaKey] = sanitized;
-          }
-          extraKeyCount++;
-        }
-      }
-    }
-
     return {
       status: "ok",
       bytes: totalBytes,
-      hash,
-      fields,
-      truncatedKeys,
+      body: Buffer.concat(chunks),
+      ...(etag && { etag }),
+      ...(lastModified && { lastModified }),
     };
   } catch (error: unknown) {
     if (error instanceof Error) {
@@ -809,26 +831,71 @@ export async function digestUri(uri: string, redirectDepth: number = 0): Promise
 }
 
 /**
- * Convert various URI formats to fetchable URLs
+ * Parse a fetched registration file and extract its sanitized fields
  */
-function convertToFetchUrl(uri: string): string | null {
-  // IPFS URI
-  if (uri.startsWith("ipfs://")) {
-    const cid = uri.slice(7);
-    return `https://ipfs.io/ipfs/${cid}`;
+function digestJson(uri: string, buffer: Buffer): UriDigestResult {
+  const totalBytes = buffer.length;
+  const text = buffer.toString("utf-8");
+  const hash = createHash("sha256").update(buffer).digest("hex");
+
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { status: "invalid_json", bytes: totalBytes, hash };
   }
 
-  // IPFS path
-  if (uri.startsWith("/ipfs/")) {
-    return `https://ipfs.io${uri}`;
+  // Extract and sanitize standard fields
+  const fields: Record<string, unknown> = {};
+  const standardKeys = new Set(Object.keys(STANDARD_FIELDS));
+
+  for (const [jsonKey, metaKey] of Object.entries(STANDARD_FIELDS)) {
+    if (json[jsonKey] !== undefined) {
+      // Apply sanitization based on field type
+      const sanitized = sanitizeField(metaKey, json[jsonKey]);
+      if (sanitized !== null && sanitized !== "" && !(Array.isArray(sanitized) && sanitized.length === 0)) {
+        fields[metaKey] = sanitized;
+      }
+    }
   }
 
-  // Arweave
-  if (uri.startsWith("ar://")) {
-    const id = uri.slice(5);
-    return `https://arweave.net/${id}`;
+  // In "full" mode, store unknown keys individually (with DoS protection)
+  let truncatedKeys = false;
+  if (config.metadataIndexMode === "full") {
+    const MAX_EXTRA_KEYS = 50; // Protection against malicious JSON with many keys
+    let extraKeyCount = 0;
+
+    for (const [key, value] of Object.entries(json)) {
+      if (!standardKeys.has(key)) {
+        if (extraKeyCount >= MAX_EXTRA_KEYS) {
+          logger.warn({ uri }, `Exceeded ${MAX_EXTRA_KEYS} extra keys, truncating`);
+          truncatedKeys = true;
+          break;
+        }
+        // Store with _uri: prefix (internal) and sanitize
+        const metaKey = `_uri:${key}`;
+        const sanitized = sanitizeField(metaKey, value);
+        if (sanitized !== null && sanitized !== "") {
+          fields[metaKey] = sanitized;
+        }
+        extraKeyCount++;
+      }
+    }
   }
 
+  return {
+    status: "ok",
+    bytes: totalBytes,
+    hash,
+    fields,
+    truncatedKeys,
+  };
+}
+
+/**
+ * Convert web URIs to fetchable URLs (content URIs go through the gateway pools)
+ */
+function convertToFetchUrl(uri: string): string | null {
   // HTTPS
   if (uri.startsWith("https://")) {
     return uri;
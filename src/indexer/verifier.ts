@@ -14,6 +14,15 @@ import { PrismaClient } from "@prisma/client";
 import { Pool } from "pg";
 import { config } from "../config.js";
 import { createChildLogger } from "../logger.js";
+import { liveEvents } from "./live-events.js";
+import {
+  ChainRepairer,
+  CHAIN_TYPES,
+  type ChainEvents,
+  type ChainHead,
+  type ChainRepairRecord,
+  type ChainType,
+} from "./chain-repair.js";
 import {
   getAgentPda,
   getValidationRequestPda,
@@ -27,7 +36,7 @@ const logger = createChildLogger("verifier");
 
 // Borsh deserialization for AgentAccount (simplified - extract digest triplets)
 
-interface OnChainDigests {
+export interface OnChainDigests {
   feedbackDigest: Uint8Array;
   feedbackCount: bigint;
   responseDigest: Uint8Array;
@@ -36,6 +45,54 @@ interface OnChainDigests {
   revokeCount: bigint;
 }
 
+/**
+ * Read the feedback/response/revoke (digest, count) triplets from raw
+ * AgentAccount data. Null when the layout is not recognized.
+ */
+export function parseAgentDigests(data: Buffer): OnChainDigests | null {
+  // Support both v0.6.x (includes creator pubkey) and legacy layouts.
+  const baseOffsets = [
+    8 + 32 + 32 + 32 + 32 + 1 + 1, // discriminator + collection + creator + owner + asset + bump + atom_enabled
+    8 + 32 + 32 + 32 + 1 + 1,      // legacy: discriminator + collection + owner + asset + bump + atom_enabled
+  ];
+
+  let offset = -1;
+  for (const baseOffset of baseOffsets) {
+    if (data.length < baseOffset + 1) continue;
+    const optionTag = data[baseOffset];
+    if (optionTag !== 0 && optionTag !== 1) continue;
+    const candidate = baseOffset + (optionTag === 1 ? 33 : 1);
+    if (data.length >= candidate + 120) {
+      offset = candidate;
+      break;
+    }
+  }
+
+  if (offset < 0) return null;
+
+  // Read digest+count triplets (feedback, response, revoke)
+  const feedbackDigest = data.slice(offset, offset + 32);
+  offset += 32;
+  const feedbackCount = data.readBigUInt64LE(offset);
+  offset += 8;
+  const responseDigest = data.slice(offset, offset + 32);
+  offset += 32;
+  const responseCount = data.readBigUInt64LE(offset);
+  offset += 8;
+  const revokeDigest = data.slice(offset, offset + 32);
+  offset += 32;
+  const revokeCount = data.readBigUInt64LE(offset);
+
+  return {
+    feedbackDigest: new Uint8Array(feedbackDigest),
+    feedbackCount,
+    responseDigest: new Uint8Array(responseDigest),
+    responseCount,
+    revokeDigest: new Uint8Array(revokeDigest),
+    revokeCount,
+  };
+}
+
 interface DbDigestState {
   feedbackDigest: Buffer | null;
   feedbackCount: bigint;
@@ -45,8 +102,6 @@ interface DbDigestState {
   revokeCount: bigint;
 }
 
-type ChainType = 'feedback' | 'response' | 'revoke';
-
 interface VerificationStats {
   agentsVerified: number;
   agentsOrphaned: number;
@@ -63,6 +118,9 @@ interface VerificationStats {
   registriesVerified: number;
   registriesOrphaned: number;
   hashChainMismatches: number;
+  hashChainRepaired: number;
+  hashChainRepairUnresolved: number;
+  hashChainRepairFailed: number;
   skippedRpcErrors: number;
   orphansRecovered: number;
   lastRunAt: Date | null;
@@ -89,6 +147,9 @@ export class DataVerifier {
     registriesVerified: 0,
     registriesOrphaned: 0,
     hashChainMismatches: 0,
+    hashChainRepaired: 0,
+    hashChainRepairUnresolved: 0,
+    hashChainRepairFailed: 0,
     skippedRpcErrors: 0,
     orphansRecovered: 0,
     lastRunAt: null,
@@ -97,13 +158,18 @@ export class DataVerifier {
   private cycleCount = 0;
   // Per-cycle cache for on-chain digests (cleared each cycle)
   private digestCache = new Map<string, OnChainDigests | null>();
+  // Per-cycle set of agent:chain pairs already flagged for gap-fill repair
+  private gapFillQueued = new Set<string>();
+  private repairer: ChainRepairer;
 
   constructor(
     private connection: Connection,
     private prisma: PrismaClient | null,
     private pool: Pool | null,
     private verifyIntervalMs = config.verifyIntervalMs
-  ) {}
+  ) {
+    this.repairer = new ChainRepairer(connection, prisma, pool);
+  }
 
   async start(): Promise<void> {
     if (!config.verificationEnabled) {
@@ -156,6 +222,7 @@ export class DataVerifier {
     try {
       // Clear per-cycle digest cache
       this.digestCache.clear();
+      this.gapFillQueued.clear();
 
       // Get current finalized slot for cutoff calculation
       const currentSlot = await this.connection.getSlot("finalized");
@@ -175,6 +242,11 @@ export class DataVerifier {
         this.verifyRevocations(cutoffSlot),
       ]);
 
+      // Rewrite chains flagged by checkDigestMatch (this cycle or earlier)
+      if (config.verifyRepairEnabled) {
+        await this.repairGapFills();
+      }
+
       // Periodically attempt to recover incorrectly orphaned records
       this.cycleCount++;
       if (config.verifyRecoveryCycles > 0 && this.cycleCount % config.verifyRecoveryCycles === 0) {
@@ -192,6 +264,7 @@ export class DataVerifier {
         validations: this.stats.validationsVerified,
         skippedRpcErrors: this.stats.skippedRpcErrors,
         orphansRecovered: this.stats.orphansRecovered,
+        hashChainRepaired: this.stats.hashChainRepaired,
       }, "Verification cycle complete");
     } catch (error: any) {
       logger.error({ error: error.message }, "Verification cycle failed");
@@ -278,6 +351,7 @@ export class DataVerifier {
           }
         }
 
+        liveEvents.publishVerification("agent", [agent.id], agent.id, exists ? "FINALIZED" : "ORPHANED", now);
         if (exists) {
           this.stats.agentsVerified++;
         } else {
@@ -362,6 +436,7 @@ export class DataVerifier {
           );
         }
 
+        liveEvents.publishVerification("validation", [v.id], v.agentId, newStatus, now);
         if (exists) {
           this.stats.validationsVerified++;
         } else {
@@ -439,6 +514,7 @@ export class DataVerifier {
           );
         }
         this.stats.metadataVerified++;
+        liveEvents.publishVerification("metadata", [m.id], m.agentId, "FINALIZED", now);
       } catch (error: any) {
         logger.error({ metadataId: m.id, error: error.message }, "URI metadata finalization failed");
       }
@@ -474,6 +550,7 @@ export class DataVerifier {
             );
           }
 
+          liveEvents.publishVerification("metadata", [m.id], m.agentId, newStatus, now);
           if (exists) {
             this.stats.metadataVerified++;
           } else {
@@ -555,6 +632,7 @@ export class DataVerifier {
           );
         }
 
+        liveEvents.publishVerification("registry", [r.collection], null, newStatus, now);
         if (exists) {
           this.stats.registriesVerified++;
         } else {
@@ -613,6 +691,7 @@ export class DataVerifier {
             );
           }
           this.stats.orphansRecovered++;
+          liveEvents.publishVerification("agent", [agent.id], agent.id, "PENDING", now);
           logger.info({ agentId: agent.id }, "Recovered orphaned agent → PENDING");
         }
       }
@@ -644,6 +723,7 @@ export class DataVerifier {
         if (exists === true) {
           await this.batchUpdateStatus('feedbacks', 'id', [fb.id], 'PENDING', now);
           this.stats.orphansRecovered++;
+          liveEvents.publishVerification("feedback", [fb.id], fb.agentId, "PENDING", now);
           logger.info({ feedbackId: fb.id, agentId: fb.agentId }, "Recovered orphaned feedback → PENDING");
         }
       }
@@ -675,6 +755,7 @@ export class DataVerifier {
         if (exists === true) {
           await this.batchUpdateStatus('revocations', 'id', [rev.id], 'PENDING', now);
           this.stats.orphansRecovered++;
+          liveEvents.publishVerification("revocation", [rev.id], rev.agentId, "PENDING", now);
           logger.info({ revocationId: rev.id, agentId: rev.agentId }, "Recovered orphaned revocation → PENDING");
         }
       }
@@ -707,6 +788,7 @@ export class DataVerifier {
         if (exists === true) {
           await this.batchUpdateStatus('feedback_responses', 'id', [resp.id], 'PENDING', now);
           this.stats.orphansRecovered++;
+          liveEvents.publishVerification("response", [resp.id], resp.agentId, "PENDING", now);
           logger.info({ responseId: resp.id, agentId: resp.agentId }, "Recovered orphaned response → PENDING");
         }
       }
@@ -779,6 +861,7 @@ export class DataVerifier {
       if (!agentExists) {
         await this.batchUpdateStatus('feedbacks', 'id', feedbacks.map(f => f.id), 'ORPHANED', now);
         this.stats.feedbacksOrphaned += feedbacks.length;
+        liveEvents.publishVerification("feedback", feedbacks.map(f => f.id), agentId, "ORPHANED", now);
         logger.warn({ agentId, count: feedbacks.length }, "Feedbacks orphaned - agent not found");
         continue;
       }
@@ -789,6 +872,7 @@ export class DataVerifier {
       if (digestOk) {
         await this.batchUpdateStatus('feedbacks', 'id', feedbacks.map(f => f.id), 'FINALIZED', now);
         this.stats.feedbacksVerified += feedbacks.length;
+        liveEvents.publishVerification("feedback", feedbacks.map(f => f.id), agentId, "FINALIZED", now);
       } else {
         // Mismatch → leave as PENDING for re-verification next cycle
         logger.warn({ agentId, count: feedbacks.length }, "Feedbacks left PENDING due to hash-chain mismatch");
@@ -844,6 +928,9 @@ export class DataVerifier {
     if (orphaned.length > 0) {
       await this.batchUpdateStatus('feedback_responses', 'id', orphaned.map(r => r.id), 'ORPHANED', now);
       this.stats.responsesOrphaned += orphaned.length;
+      for (const r of orphaned) {
+        liveEvents.publishVerification("response", [r.id], r.agentId, "ORPHANED", now);
+      }
     }
 
     if (valid.length > 0) {
@@ -871,6 +958,7 @@ export class DataVerifier {
         if (!agentExists) {
           await this.batchUpdateStatus('feedback_responses', 'id', ids, 'ORPHANED', now);
           this.stats.responsesOrphaned += ids.length;
+          liveEvents.publishVerification("response", ids, agentId, "ORPHANED", now);
           continue;
         }
 
@@ -880,6 +968,7 @@ export class DataVerifier {
         if (digestOk) {
           await this.batchUpdateStatus('feedback_responses', 'id', ids, 'FINALIZED', now);
           this.stats.responsesVerified += ids.length;
+          liveEvents.publishVerification("response", ids, agentId, "FINALIZED", now);
         } else {
           logger.warn({ agentId, count: ids.length }, "Responses left PENDING due to hash-chain mismatch");
         }
@@ -939,6 +1028,7 @@ export class DataVerifier {
       if (!agentExists) {
         await this.batchUpdateStatus('revocations', 'id', ids, 'ORPHANED', now);
         this.stats.revocationsOrphaned += ids.length;
+        liveEvents.publishVerification("revocation", ids, agentId, "ORPHANED", now);
         logger.warn({ agentId, count: ids.length }, "Revocations orphaned - agent not found");
         continue;
       }
@@ -949,6 +1039,7 @@ export class DataVerifier {
       if (digestOk) {
         await this.batchUpdateStatus('revocations', 'id', ids, 'FINALIZED', now);
         this.stats.revocationsVerified += ids.length;
+        liveEvents.publishVerification("revocation", ids, agentId, "FINALIZED", now);
       } else {
         logger.warn({ agentId, count: ids.length }, "Revocations left PENDING due to hash-chain mismatch");
       }
@@ -1115,6 +1206,7 @@ export class DataVerifier {
         this.stats.hashChainMismatches++;
         logger.warn({ agentId, chain, dbCount: Number(dbCount), onChainCount: Number(onChainCount) },
           "Hash-chain count EXCEEDS on-chain (possible reorg)");
+        await this.queueGapFill(agentId, chain, { digest: Buffer.from(onChainDigest), count: onChainCount });
         return false;
       }
 
@@ -1135,6 +1227,7 @@ export class DataVerifier {
           dbLen: dbDigest.length,
           onChainLen: onChainBuf.length,
         }, "Hash-chain MISMATCH - digests differ at same count");
+        await this.queueGapFill(agentId, chain, { digest: onChainBuf, count: onChainCount });
         return false;
       }
     } catch (error: any) {
@@ -1144,6 +1237,146 @@ export class DataVerifier {
     }
   }
 
+  /**
+   * Flag an agent for gap-fill repair, starting from the last slot its chain
+   * is known to be good at. Failures only cost a later retry.
+   */
+  private async queueGapFill(agentId: string, chain: ChainType, head: ChainHead): Promise<void> {
+    if (!config.verifyRepairEnabled) return;
+    const key = `${agentId}:${chain}`;
+    if (this.gapFillQueued.has(key)) return;
+    this.gapFillQueued.add(key);
+
+    try {
+      const fromSlot = await this.repairer.findGapFillSlot(agentId, chain, head);
+      await this.repairer.markGapFill(agentId, fromSlot);
+      logger.info({ agentId, chain, fromSlot: fromSlot?.toString() ?? null }, "Queued hash-chain repair");
+    } catch (error: any) {
+      logger.warn({ agentId, chain, error: error.message }, "Failed to queue hash-chain repair");
+    }
+  }
+
+  // =========================================================================
+  // Hash-Chain Repair (gap fill)
+  // =========================================================================
+
+  private async repairGapFills(): Promise<void> {
+    const flagged = await this.repairer.listGapFills(config.verifyRepairBatchSize);
+
+    for (const { agentId, fromSlot } of flagged) {
+      if (!this.isRunning) break;
+
+      // Claim the flag; failed or unresolved repairs set it again
+      await this.repairer.clearGapFill(agentId);
+      try {
+        await this.repairAgent(agentId, fromSlot);
+      } catch (error: any) {
+        logger.error({ agentId, error: error.message }, "Hash-chain repair failed");
+        await this.repairer.markGapFill(agentId, fromSlot);
+      }
+    }
+  }
+
+  /**
+   * Re-fetch an agent's history from `fromSlot`, rewrite every chain that no
+   * longer agrees with the on-chain head, re-verify and audit each of them.
+   */
+  private async repairAgent(agentId: string, fromSlot: bigint | null): Promise<void> {
+    // Read the slot before the account so rows finalized in between are never orphaned
+    const finalizedSlot = BigInt(await this.connection.getSlot("finalized"));
+    const onChain = await this.fetchOnChainDigests(agentId);
+    if (!onChain) {
+      this.stats.skippedRpcErrors++;
+      await this.repairer.markGapFill(agentId, fromSlot);
+      return;
+    }
+
+    const broken: Array<{ chain: ChainType; head: ChainHead }> = [];
+    for (const chain of CHAIN_TYPES) {
+      const head = this.chainHead(onChain, chain);
+      if (!(await this.repairer.verifyChain(agentId, chain, head, finalizedSlot))) {
+        broken.push({ chain, head });
+      }
+    }
+    if (broken.length === 0) {
+      logger.debug({ agentId }, "Hash-chains consistent, nothing to repair");
+      return;
+    }
+
+    let events: ChainEvents | null = null;
+    let fetchError: string | undefined;
+    try {
+      events = await this.repairer.fetchChainEvents(agentId, fromSlot);
+    } catch (error: any) {
+      fetchError = `History fetch failed: ${error.message}`;
+    }
+
+    let refetchFrom: bigint | null | undefined;
+    for (const { chain, head } of broken) {
+      const record: ChainRepairRecord = {
+        agentId,
+        chain,
+        status: "FAILED",
+        fromSlot,
+        onChainCount: head.count,
+        divergentCount: null,
+        updated: 0,
+        inserted: 0,
+        orphaned: 0,
+        error: fetchError,
+      };
+
+      if (events) {
+        try {
+          const result = await this.repairer.repairChain(agentId, chain, events[chain], head, finalizedSlot, fromSlot === null);
+          record.divergentCount = result.divergentCount;
+          record.updated = result.updated;
+          record.inserted = result.inserted;
+          record.orphaned = result.orphaned;
+          record.status = await this.repairer.verifyChain(agentId, chain, head, finalizedSlot) ? "REPAIRED" : "UNRESOLVED";
+        } catch (error: any) {
+          record.error = error.message;
+        }
+      }
+
+      if (record.status === "REPAIRED") {
+        this.stats.hashChainRepaired++;
+        logger.info({
+          agentId, chain,
+          divergentCount: record.divergentCount?.toString() ?? null,
+          updated: record.updated,
+          inserted: record.inserted,
+          orphaned: record.orphaned,
+        }, "Hash-chain repaired");
+      } else if (record.status === "UNRESOLVED") {
+        // History after fromSlot was not enough; retry with the full history
+        this.stats.hashChainRepairUnresolved++;
+        refetchFrom = null;
+        logger.warn({ agentId, chain, fromSlot: fromSlot?.toString() ?? null }, "Hash-chain still mismatched after repair");
+      } else {
+        this.stats.hashChainRepairFailed++;
+        if (refetchFrom === undefined) refetchFrom = fromSlot;
+        logger.warn({ agentId, chain, error: record.error }, "Hash-chain repair failed");
+      }
+      await this.repairer.recordRepair(record);
+    }
+
+    if (refetchFrom !== undefined) {
+      await this.repairer.markGapFill(agentId, refetchFrom);
+    }
+  }
+
+  private chainHead(onChain: OnChainDigests, chain: ChainType): ChainHead {
+    switch (chain) {
+      case 'feedback':
+        return { digest: Buffer.from(onChain.feedbackDigest), count: onChain.feedbackCount };
+      case 'response':
+        return { digest: Buffer.from(onChain.responseDigest), count: onChain.responseCount };
+      case 'revoke':
+        return { digest: Buffer.from(onChain.revokeDigest), count: onChain.revokeCount };
+    }
+  }
+
   /**
    * Get the last running_digest and event count from DB for each chain type.
    */
@@ -1292,48 +1525,7 @@ export class DataVerifier {
 
       if (!accountInfo) return null;
 
-      const data = accountInfo.data;
-      // Support both v0.6.x (includes creator pubkey) and legacy layouts.
-      const baseOffsets = [
-        8 + 32 + 32 + 32 + 32 + 1 + 1, // discriminator + collection + creator + owner + asset + bump + atom_enabled
-        8 + 32 + 32 + 32 + 1 + 1,      // legacy: discriminator + collection + owner + asset + bump + atom_enabled
-      ];
-
-      let offset = -1;
-      for (const baseOffset of baseOffsets) {
-        if (data.length < baseOffset + 1) continue;
-        const optionTag = data[baseOffset];
-        if (optionTag !== 0 && optionTag !== 1) continue;
-        const candidate = baseOffset + (optionTag === 1 ? 33 : 1);
-        if (data.length >= candidate + 120) {
-          offset = candidate;
-          break;
-        }
-      }
-
-      if (offset < 0) return null;
-
-      // Read digest+count triplets (feedback, response, revoke)
-      const feedbackDigest = data.slice(offset, offset + 32);
-      offset += 32;
-      const feedbackCount = data.readBigUInt64LE(offset);
-      offset += 8;
-      const responseDigest = data.slice(offset, offset + 32);
-      offset += 32;
-      const responseCount = data.readBigUInt64LE(offset);
-      offset += 8;
-      const revokeDigest = data.slice(offset, offset + 32);
-      offset += 32;
-      const revokeCount = data.readBigUInt64LE(offset);
-
-      return {
-        feedbackDigest: new Uint8Array(feedbackDigest),
-        feedbackCount,
-        responseDigest: new Uint8Array(responseDigest),
-        responseCount,
-        revokeDigest: new Uint8Array(revokeDigest),
-        revokeCount,
-      };
+      return parseAgentDigests(accountInfo.data);
     } catch (error: any) {
       logger.warn({ agentId, error: error.message }, "Failed to fetch on-chain digests");
       return null;
@@ -49,6 +49,8 @@ export class WebSocketIndexer {
   // Bounded concurrency queue to prevent OOM during high traffic
   private logQueue: PQueue;
   private droppedLogs = 0;
+  // Heartbeat: cluster slot seen by the last health check with the subscription up and the queue drained
+  private lastObservedSlot: number | null = null;
 
   constructor(options: WebSocketIndexerOptions) {
     // Initialize bounded queue for log processing
@@ -153,6 +155,7 @@ export class WebSocketIndexer {
         // Ping RPC before reconnecting - connection may be healthy with no program activity
         try {
           const slot = await this.connection.getSlot();
+          this.recordObservedSlot(slot);
           logger.info({
             timeSinceActivity,
             slot
@@ -175,6 +178,7 @@ export class WebSocketIndexer {
       // Regular connectivity check (not stale, just verify RPC is up)
       try {
         const slot = await this.connection.getSlot();
+        this.recordObservedSlot(slot);
         logger.debug({ slot }, "HTTP connectivity OK");
       } catch (error) {
         logger.error({ error }, "Health check failed - connection error");
@@ -185,6 +189,12 @@ export class WebSocketIndexer {
     }
   }
 
+  private recordObservedSlot(slot: number): void {
+    if (this.subscriptionId !== null && this.logQueue.size === 0 && this.logQueue.pending === 0) {
+      this.lastObservedSlot = slot;
+    }
+  }
+
   private async forceReconnect(): Promise<void> {
     // Concurrency guard - prevent overlapping reconnects
     if (this.isReconnecting) {
@@ -316,7 +326,9 @@ export class WebSocketIndexer {
 
       let allEventsProcessed = true;
 
+      let eventOrdinal = -1;
       for (const event of events) {
+        eventOrdinal++;
         const typedEvent = toTypedEvent(event);
         if (!typedEvent) continue;
 
@@ -325,6 +337,8 @@ export class WebSocketIndexer {
           slot: BigInt(ctx.slot),
           blockTime,
           txIndex,
+          eventOrdinal,
+          rawEvent: event.raw,
         };
 
         let eventProcessed = true;
@@ -343,17 +357,19 @@ export class WebSocketIndexer {
           }, "Error handling event — cursor will NOT advance past this tx");
         }
 
-        // Only log to Prisma if in local mode
-        if (this.prisma) {
+        // Processed events are logged by the handler transaction; record failures (local mode)
+        if (this.prisma && !eventProcessed) {
           try {
             await this.prisma.eventLog.create({
               data: {
-                eventType: eventProcessed ? typedEvent.type : "PROCESSING_FAILED",
+                eventType: "PROCESSING_FAILED",
                 signature: logs.signature,
                 slot: BigInt(ctx.slot),
+                txIndex,
                 blockTime,
                 data: event.data as object,
-                processed: eventProcessed,
+                rawData: event.raw ?? null,
+                processed: false,
                 error: eventErrorMessage,
               },
             });
@@ -495,6 +511,14 @@ export class WebSocketIndexer {
     return this.isRunning && (this.isReconnecting || this.isCheckingHealth);
   }
 
+  /**
+   * Last slot the live subscription is known to have caught up to (null before the first health check).
+   * The cursor only moves with program activity; this keeps readiness lag honest when idle.
+   */
+  getLastObservedSlot(): number | null {
+    return this.lastObservedSlot;
+  }
+
   getStats(): {
     processedCount: number;
     errorCount: number;
@@ -515,9 +539,9 @@ export class WebSocketIndexer {
 /**
  * Test if WebSocket endpoint is available
  * @param rpcUrl - HTTP RPC endpoint for connection test
- * @param wsUrl - WebSocket endpoint to configure
+ * @param wsUrl - WebSocket endpoint to configure (derived from rpcUrl when unset)
  */
-export async function testWebSocketConnection(rpcUrl: string, wsUrl: string): Promise<boolean> {
+export async function testWebSocketConnection(rpcUrl: string, wsUrl?: string): Promise<boolean> {
   try {
     logger.debug({ rpcUrl, wsUrl }, "Testing WebSocket connection");
 
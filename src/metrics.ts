@@ -0,0 +1,380 @@
+/**
+ * Prometheus metrics registry
+ *
+ * Minimal text-format (v0.0.4) exposition without external dependencies.
+ * Hot-path counters are incremented directly; state owned by long-lived
+ * components (queues, verifier, cursor) is sampled by collectors at scrape time.
+ */
+
+import { createChildLogger } from "./logger.js";
+
+const logger = createChildLogger("metrics");
+
+const COLLECT_TIMEOUT_MS = 5000;
+
+export type MetricLabels = Record<string, string>;
+type MetricType = "counter" | "gauge" | "histogram";
+type Collector = () => void | Promise<void>;
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}=${labels[k]}`)
+    .join(",");
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const keys = Object.keys(labels).sort();
+  if (keys.length === 0) return "";
+  return `{${keys.map((k) => `${k}="${escapeLabelValue(labels[k])}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType
+  ) {}
+
+  abstract samples(): string[];
+  abstract reset(): void;
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join("\n");
+  }
+}
+
+class LabeledValues extends Metric {
+  protected values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  protected update(labels: MetricLabels, fn: (current: number) => number): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value = fn(entry.value);
+    } else {
+      this.values.set(key, { labels: { ...labels }, value: fn(0) });
+    }
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Counter extends LabeledValues {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    if (value < 0) return;
+    this.update(labels, (current) => current + value);
+  }
+
+  /**
+   * Mirror a cumulative total tracked elsewhere (e.g. a component's getStats()).
+   * A lower value than before is exported as-is and read by Prometheus as a reset.
+   */
+  set(labels: MetricLabels, value: number): void {
+    this.update(labels, () => value);
+  }
+}
+
+export class Gauge extends LabeledValues {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.update(labels, () => value);
+  }
+
+  remove(labels: MetricLabels = {}): void {
+    this.values.delete(labelKey(labels));
+  }
+}
+
+export class Histogram extends Metric {
+  private series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, readonly buckets: number[]) {
+    super(name, help, "histogram");
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) entry.counts[i]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((le, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(le) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+  private collectors = new Map<string, Collector>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Register a scrape-time collector. Re-registering a name replaces the
+   * previous collector, so restarted components don't accumulate callbacks.
+   */
+  registerCollector(name: string, collector: Collector): void {
+    this.collectors.set(name, collector);
+  }
+
+  unregisterCollector(name: string): void {
+    this.collectors.delete(name);
+  }
+
+  async collect(): Promise<void> {
+    await Promise.all(
+      [...this.collectors.entries()].map(async ([name, collector]) => {
+        let timer: NodeJS.Timeout | undefined;
+        try {
+          await Promise.race([
+            collector(),
+            new Promise<void>((_, reject) => {
+              timer = setTimeout(() => reject(new Error("Collector timed out")), COLLECT_TIMEOUT_MS);
+            }),
+          ]);
+        } catch (error) {
+          logger.warn({ collector: name, error: error instanceof Error ? error.message : String(error) },
+            "Metrics collector failed");
+        } finally {
+          if (timer) clearTimeout(timer);
+        }
+      })
+    );
+  }
+
+  /**
+   * Run collectors and render all metrics in Prometheus text format
+   */
+  async render(): Promise<string> {
+    await this.collect();
+    return [...this.metrics.values()].map((m) => m.render()).join("\n") + "\n";
+  }
+
+  /**
+   * Clear all recorded values (tests)
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export const metrics = new MetricsRegistry();
+
+// Ingestion
+export const eventsProcessedTotal = metrics.counter(
+  "indexer_events_processed_total",
+  "Decoded program events committed to the database, by event type"
+);
+export const transactionsProcessedTotal = metrics.counter(
+  "indexer_transactions_processed_total",
+  "Transactions processed, by source (poller | websocket)"
+);
+export const transactionErrorsTotal = metrics.counter(
+  "indexer_transaction_errors_total",
+  "Transactions that failed processing, by source (poller | websocket)"
+);
+export const websocketDroppedLogsTotal = metrics.counter(
+  "indexer_websocket_dropped_logs_total",
+  "WebSocket log notifications dropped because the handler queue was full"
+);
+export const websocketQueueSize = metrics.gauge(
+  "indexer_websocket_queue_size",
+  "WebSocket log notifications waiting to be handled"
+);
+
+// RPC pool
+export const rpcRequestsTotal = metrics.counter(
+  "indexer_rpc_requests_total",
+  "RPC calls made through the pool, by endpoint, method and outcome (ok | rejected | error)"
+);
+export const rpcRequestDurationSeconds = metrics.histogram(
+  "indexer_rpc_request_duration_seconds",
+  "Duration of successful RPC calls, by endpoint",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+export const rpcEndpointUp = metrics.gauge(
+  "indexer_rpc_endpoint_up",
+  "1 while the endpoint is in rotation, 0 during failure cooldown"
+);
+
+// Content gateways (IPFS / Arweave)
+export const gatewayRequestsTotal = metrics.counter(
+  "indexer_gateway_requests_total",
+  "Content fetches per gateway, by network and outcome (ok | error | timeout | not_found | oversize | cid_mismatch)"
+);
+export const gatewayRequestDurationSeconds = metrics.histogram(
+  "indexer_gateway_request_duration_seconds",
+  "Duration of successful gateway fetches, by gateway",
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+export const gatewayUp = metrics.gauge(
+  "indexer_gateway_up",
+  "1 while the gateway is in rotation, 0 during failure cooldown"
+);
+
+// Cursor / lag
+export const lastIndexedSlot = metrics.gauge(
+  "indexer_last_indexed_slot",
+  "Slot of the indexer cursor (indexer_state)"
+);
+export const clusterSlot = metrics.gauge(
+  "indexer_cluster_slot",
+  "Current cluster slot at confirmed commitment"
+);
+export const slotLag = metrics.gauge(
+  "indexer_slot_lag",
+  "Cluster slot minus last indexed slot"
+);
+
+// Batch writer (EventBuffer)
+export const flushDurationSeconds = metrics.histogram(
+  "indexer_event_buffer_flush_duration_seconds",
+  "Duration of EventBuffer flushes, by outcome (ok | error)",
+  [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+export const eventBufferSize = metrics.gauge(
+  "indexer_event_buffer_size",
+  "Events buffered and not yet flushed"
+);
+export const deadLetterQueueSize = metrics.gauge(
+  "indexer_dead_letter_queue_size",
+  "Events currently held in the EventBuffer dead letter queue"
+);
+export const deadLetteredEventsTotal = metrics.counter(
+  "indexer_dead_lettered_events_total",
+  "Events moved to the dead letter queue after exhausting flush retries"
+);
+
+// Metadata queues
+export const metadataQueueSize = metrics.gauge(
+  "indexer_metadata_queue_size",
+  "Tasks waiting in a metadata queue, by queue (agent | collection | feedback_document)"
+);
+export const metadataQueuePending = metrics.gauge(
+  "indexer_metadata_queue_pending",
+  "Distinct assets/pointers/documents with a pending task, by queue (agent | collection | feedback_document)"
+);
+export const metadataDigestsTotal = metrics.counter(
+  "indexer_metadata_digests_total",
+  "URI digest outcomes, by queue and DigestStatus"
+);
+
+// Verifier
+export const verifierTransitionsTotal = metrics.counter(
+  "indexer_verifier_transitions_total",
+  "Records moved out of PENDING by the verifier, by entity and status (FINALIZED | ORPHANED)"
+);
+export const verifierHashChainMismatchesTotal = metrics.counter(
+  "indexer_verifier_hash_chain_mismatches_total",
+  "Hash-chain digest mismatches detected between DB and on-chain"
+);
+export const verifierHashChainRepairsTotal = metrics.counter(
+  "indexer_verifier_hash_chain_repairs_total",
+  "Hash-chain gap-fill repairs, by outcome (REPAIRED | UNRESOLVED | FAILED)"
+);
+export const verifierOrphansRecoveredTotal = metrics.counter(
+  "indexer_verifier_orphans_recovered_total",
+  "ORPHANED records restored after a recovery re-check"
+);
+export const verifierSkippedRpcErrorsTotal = metrics.counter(
+  "indexer_verifier_skipped_rpc_errors_total",
+  "Verification checks skipped because of RPC errors"
+);
+export const verifierLastRunTimestamp = metrics.gauge(
+  "indexer_verifier_last_run_timestamp_seconds",
+  "Unix time of the last completed verification cycle"
+);
+export const verifierLastRunDurationSeconds = metrics.gauge(
+  "indexer_verifier_last_run_duration_seconds",
+  "Duration of the last verification cycle"
+);
+
+// Webhooks
+export const webhookDeliveriesTotal = metrics.counter(
+  "indexer_webhook_deliveries_total",
+  "Webhook delivery outcomes, by status (DELIVERED | RETRY | FAILED | SKIPPED)"
+);
+export const webhookDeliveryDurationSeconds = metrics.histogram(
+  "indexer_webhook_delivery_duration_seconds",
+  "Duration of webhook HTTP attempts",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
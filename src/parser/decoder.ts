@@ -59,7 +59,18 @@ const __dirname = dirname(__filename);
 const idlPath = join(__dirname, "../../idl/agent_registry_8004.json");
 const idl: Idl = JSON.parse(readFileSync(idlPath, "utf-8"));
 const coder = new BorshCoder(idl);
-const eventParser = new EventParser(new PublicKey(config.programId), coder);
+
+// The parser decodes one "Program data" line per yielded event; remember the
+// line so parseTransactionLogs stores the logged bytes instead of a re-encoding
+let lastDecodedPayload: string | null = null;
+const logCoder = new BorshCoder(idl);
+const decodeLoggedEvent = logCoder.events.decode.bind(logCoder.events);
+logCoder.events.decode = ((log: string) => {
+  const event = decodeLoggedEvent(log);
+  lastDecodedPayload = event ? log : null;
+  return event;
+}) as typeof logCoder.events.decode;
+const eventParser = new EventParser(new PublicKey(config.programId), logCoder);
 
 // IDL version info for startup validation
 export const IDL_VERSION = (idl as any).metadata?.version || "unknown";
@@ -70,6 +81,7 @@ logger.info({ version: IDL_VERSION, programId: IDL_PROGRAM_ID }, "IDL loaded");
 export interface ParsedEvent {
   name: string;
   data: Record<string, unknown>;
+  raw?: string | null; // base64 Anchor event payload (discriminator + borsh), as logged on-chain
 }
 
 export interface TransactionEvents {
@@ -79,6 +91,21 @@ export interface TransactionEvents {
   events: ParsedEvent[];
 }
 
+/**
+ * Decode a raw event payload (the base64 of a "Program data" log line) back to a typed event
+ */
+export function decodeRawEvent(raw: string): ProgramEvent | null {
+  let decoded: ReturnType<typeof coder.events.decode>;
+  try {
+    decoded = coder.events.decode(raw);
+  } catch (error) {
+    logger.debug({ error }, "Failed to decode raw event");
+    return null;
+  }
+  if (!decoded) return null;
+  return toTypedEvent({ name: decoded.name, data: decoded.data as Record<string, unknown>, raw });
+}
+
 /**
  * Parse events from a transaction's logs
  */
@@ -91,6 +118,7 @@ export function parseTransactionLogs(logs: string[]): ParsedEvent[] {
       events.push({
         name: event.name,
         data: event.data as Record<string, unknown>,
+        raw: lastDecodedPayload,
       });
     }
   } catch (error) {
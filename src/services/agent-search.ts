@@ -0,0 +1,314 @@
+/**
+ * Agent search - full-text queries over the documents kept by the search indexer
+ *
+ * Query text is split on whitespace and every term must match (AND), in
+ * any of: registration file name (highest weight), description, MCP tools,
+ * skills, domains, on-chain metadata (lowest weight). Supabase mode matches
+ * agent_search.document with plainto_tsquery('simple') and ranks with
+ * ts_rank_cd; local mode matches agent_search_fts (FTS5) and ranks with
+ * bm25. Highlights wrap matched terms in <mark></mark>.
+ *
+ * Facets count skills, domains and collections over every match (not just
+ * the page), after the skill/domain/collection filters. Both backends group
+ * and count in SQL; local mode expands the JSON skill/domain lists with
+ * json_each.
+ */
+
+import { PrismaClient, Prisma } from "@prisma/client";
+import type { Pool } from "pg";
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+const MAX_SEARCH_TERMS = 16;
+const MAX_FACET_VALUES = 20;
+
+const HIGHLIGHT_START = "<mark>";
+const HIGHLIGHT_STOP = "</mark>";
+const SNIPPET_WORDS = 24;
+const NAME_HEADLINE_OPTIONS = `HighlightAll=true, StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`;
+const SNIPPET_HEADLINE_OPTIONS = `MaxWords=${SNIPPET_WORDS}, MinWords=8, MaxFragments=2, StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`;
+
+export interface AgentSearchFilter {
+  query: string;
+  skill?: string;
+  domain?: string;
+  collection?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface AgentSearchHit {
+  asset: string;
+  owner: string;
+  collection: string;
+  name: string | null;
+  score: number;
+  nameHighlight: string | null;
+  descriptionSnippet: string | null;
+}
+
+export interface SearchFacet {
+  value: string;
+  count: number;
+}
+
+export interface AgentSearchFacets {
+  skills: SearchFacet[];
+  domains: SearchFacet[];
+  collections: SearchFacet[];
+}
+
+export interface AgentSearchResult {
+  hits: AgentSearchHit[];
+  total: number;
+  facets: AgentSearchFacets;
+}
+
+/**
+ * Whitespace-separated search terms (capped)
+ */
+export function searchTerms(query: string): string[] {
+  return query
+    .slice(0, MAX_SEARCH_QUERY_LENGTH)
+    .split(/\s+/)
+    .filter((term) => term.length > 0)
+    .slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * FTS5 MATCH expression: every term as a quoted string, implicitly ANDed
+ */
+export function ftsMatchExpression(terms: string[]): string {
+  return terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(" ");
+}
+
+function topFacets(counts: Map<string, number>): SearchFacet[] {
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || (a.value < b.value ? -1 : a.value > b.value ? 1 : 0))
+    .slice(0, MAX_FACET_VALUES);
+}
+
+interface FacetCountRow {
+  facet: string;
+  value: string | null;
+  count: number | bigint | string;
+}
+
+/**
+ * Total and top facets from the grouped facet rows (one 'total' row)
+ */
+function facetCounts(rows: FacetCountRow[]): { total: number; facets: AgentSearchFacets } {
+  const counts = {
+    skill: new Map<string, number>(),
+    domain: new Map<string, number>(),
+    collection: new Map<string, number>(),
+  };
+  let total = 0;
+  for (const row of rows) {
+    if (row.facet === "total") {
+      total = Number(row.count);
+    } else if (row.facet in counts && row.value !== null) {
+      counts[row.facet as keyof typeof counts].set(row.value, Number(row.count));
+    }
+  }
+  return {
+    total,
+    facets: {
+      skills: topFacets(counts.skill),
+      domains: topFacets(counts.domain),
+      collections: topFacets(counts.collection),
+    },
+  };
+}
+
+// Only well-formed JSON arrays are expanded; json_each throws on malformed text
+function jsonList(column: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`CASE WHEN json_valid(${column}) THEN CASE WHEN json_type(${column}) = 'array' THEN ${column} END END`;
+}
+
+// Same DDL as the agent_search Prisma migration; `prisma db push` does not run migration SQL
+const LOCAL_FTS_DDL = [
+  `CREATE VIRTUAL TABLE IF NOT EXISTS "agent_search_fts" USING fts5(
+    name, description, tools, skills, domains, metadataText,
+    content='AgentSearchDocument', content_rowid='rowid', tokenize='unicode61'
+  )`,
+  `CREATE TRIGGER IF NOT EXISTS "AgentSearchDocument_fts_insert" AFTER INSERT ON "AgentSearchDocument" BEGIN
+    INSERT INTO "agent_search_fts"(rowid, name, description, tools, skills, domains, metadataText)
+    VALUES (new.rowid, new.name, new.description, new.tools, new.skills, new.domains, new.metadataText);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS "AgentSearchDocument_fts_delete" AFTER DELETE ON "AgentSearchDocument" BEGIN
+    INSERT INTO "agent_search_fts"("agent_search_fts", rowid, name, description, tools, skills, domains, metadataText)
+    VALUES ('delete', old.rowid, old.name, old.description, old.tools, old.skills, old.domains, old.metadataText);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS "AgentSearchDocument_fts_update" AFTER UPDATE ON "AgentSearchDocument" BEGIN
+    INSERT INTO "agent_search_fts"("agent_search_fts", rowid, name, description, tools, skills, domains, metadataText)
+    VALUES ('delete', old.rowid, old.name, old.description, old.tools, old.skills, old.domains, old.metadataText);
+    INSERT INTO "agent_search_fts"(rowid, name, description, tools, skills, domains, metadataText)
+    VALUES (new.rowid, new.name, new.description, new.tools, new.skills, new.domains, new.metadataText);
+  END`,
+];
+
+/**
+ * Create the local FTS5 index and its sync triggers if missing (local mode startup).
+ * A freshly created index is rebuilt from the existing AgentSearchDocument rows.
+ */
+export async function ensureLocalSearchIndex(prisma: PrismaClient): Promise<boolean> {
+  const existing = await prisma.$queryRaw<Array<{ name: string }>>`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'agent_search_fts'`;
+  for (const statement of LOCAL_FTS_DDL) {
+    await prisma.$executeRawUnsafe(statement);
+  }
+  if (existing.length > 0) return false;
+  await prisma.$executeRawUnsafe(`INSERT INTO "agent_search_fts"("agent_search_fts") VALUES ('rebuild')`);
+  return true;
+}
+
+const EMPTY_RESULT: AgentSearchResult = {
+  hits: [],
+  total: 0,
+  facets: { skills: [], domains: [], collections: [] },
+};
+
+export class AgentSearch {
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null
+  ) {}
+
+  async search(filter: AgentSearchFilter): Promise<AgentSearchResult> {
+    const terms = searchTerms(filter.query);
+    if (terms.length === 0) return EMPTY_RESULT;
+
+    if (this.prisma) {
+      const conditions: Prisma.Sql[] = [
+        Prisma.sql`agent_search_fts MATCH ${ftsMatchExpression(terms)}`,
+        Prisma.sql`a."status" != 'ORPHANED'`,
+      ];
+      if (filter.skill) {
+        conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM json_each(d."skills") WHERE value = ${filter.skill})`);
+      }
+      if (filter.domain) {
+        conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM json_each(d."domains") WHERE value = ${filter.domain})`);
+      }
+      if (filter.collection) {
+        conditions.push(Prisma.sql`a."collection" = ${filter.collection}`);
+      }
+      const from = Prisma.sql`FROM agent_search_fts
+        JOIN "AgentSearchDocument" d ON d.rowid = agent_search_fts.rowid
+        JOIN "Agent" a ON a."id" = d."agentId"
+        WHERE ${Prisma.join(conditions, " AND ")}`;
+
+      const [hits, facetRows] = await Promise.all([
+        this.prisma.$queryRaw<Array<{
+          asset: string;
+          owner: string;
+          collection: string;
+          name: string | null;
+          score: number;
+          name_highlight: string | null;
+          description_snippet: string | null;
+        }>>`
+          SELECT d."agentId" AS asset, a."owner" AS owner, a."collection" AS collection, d."name" AS name,
+                 -bm25(agent_search_fts, 10.0, 4.0, 2.0, 2.0, 2.0, 1.0) AS score,
+                 highlight(agent_search_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_STOP}) AS name_highlight,
+                 snippet(agent_search_fts, 1, ${HIGHLIGHT_START}, ${HIGHLIGHT_STOP}, '…', ${SNIPPET_WORDS}) AS description_snippet
+          ${from}
+          ORDER BY score DESC, d."agentId" ASC
+          LIMIT ${filter.limit} OFFSET ${filter.offset}
+        `,
+        this.prisma.$queryRaw<FacetCountRow[]>`
+          WITH matches AS (
+            SELECT d."skills" AS skills, d."domains" AS domains, a."collection" AS collection
+            ${from}
+          )
+          SELECT 'skill' AS facet, j.value AS value, COUNT(*) AS count
+          FROM matches, json_each(${jsonList(Prisma.sql`matches.skills`)}) j WHERE j.type = 'text' GROUP BY j.value
+          UNION ALL
+          SELECT 'domain', j.value, COUNT(*)
+          FROM matches, json_each(${jsonList(Prisma.sql`matches.domains`)}) j WHERE j.type = 'text' GROUP BY j.value
+          UNION ALL
+          SELECT 'collection', collection, COUNT(*) FROM matches GROUP BY collection
+          UNION ALL
+          SELECT 'total', NULL, COUNT(*) FROM matches
+        `,
+      ]);
+
+      return {
+        hits: hits.map((row) => ({
+          asset: row.asset,
+          owner: row.owner,
+          collection: row.collection,
+          name: row.name,
+          score: Number(row.score),
+          nameHighlight: row.name_highlight,
+          descriptionSnippet: row.description_snippet || null,
+        })),
+        ...facetCounts(facetRows),
+      };
+    } else if (this.pool) {
+      const params: unknown[] = [terms.join(" ")];
+      const conditions = ["s.document @@ plainto_tsquery('simple', $1)", "a.status != 'ORPHANED'"];
+      if (filter.skill) {
+        params.push(filter.skill);
+        conditions.push(`$${params.length} = ANY(s.skills)`);
+      }
+      if (filter.domain) {
+        params.push(filter.domain);
+        conditions.push(`$${params.length} = ANY(s.domains)`);
+      }
+      if (filter.collection) {
+        params.push(filter.collection);
+        conditions.push(`a.collection = $${params.length}`);
+      }
+      const matches = `WITH matches AS (
+           SELECT s.asset, a.owner, a.collection, s.name, s.description, s.skills, s.domains,
+                  ts_rank_cd(s.document, plainto_tsquery('simple', $1)) AS score
+           FROM agent_search s
+           JOIN agents a ON a.asset = s.asset
+           WHERE ${conditions.join(" AND ")}
+         )`;
+
+      const [hits, facets] = await Promise.all([
+        this.pool.query(
+          `${matches}
+           SELECT page.asset, page.owner, page.collection, page.name, page.score,
+                  ts_headline('simple', COALESCE(page.name, ''), plainto_tsquery('simple', $1), '${NAME_HEADLINE_OPTIONS}') AS name_highlight,
+                  ts_headline('simple', COALESCE(page.description, ''), plainto_tsquery('simple', $1), '${SNIPPET_HEADLINE_OPTIONS}') AS description_snippet
+           FROM (
+             SELECT * FROM matches ORDER BY score DESC, asset ASC
+             LIMIT $${params.length + 1}::int OFFSET $${params.length + 2}::int
+           ) page
+           ORDER BY page.score DESC, page.asset ASC`,
+          [...params, filter.limit, filter.offset]
+        ),
+        this.pool.query(
+          `${matches}
+           SELECT 'skill' AS facet, v AS value, COUNT(*) AS count FROM matches, unnest(skills) v GROUP BY v
+           UNION ALL
+           SELECT 'domain', v, COUNT(*) FROM matches, unnest(domains) v GROUP BY v
+           UNION ALL
+           SELECT 'collection', collection, COUNT(*) FROM matches GROUP BY collection
+           UNION ALL
+           SELECT 'total', NULL, COUNT(*) FROM matches`,
+          params
+        ),
+      ]);
+
+      return {
+        hits: hits.rows.map((row) => ({
+          asset: row.asset,
+          owner: row.owner,
+          collection: row.collection,
+          name: row.name ?? null,
+          score: Number(row.score),
+          nameHighlight: row.name !== null ? row.name_highlight : null,
+          descriptionSnippet: row.description_snippet || null,
+        })),
+        ...facetCounts(facets.rows),
+      };
+    }
+    return EMPTY_RESULT;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Stored hash-chain rows in replay order
+ *
+ * Shared by the divergence locator and the proof bundle exporter. Rows are
+ * the live (non-ORPHANED) feedbacks, responses or revocations of one agent,
+ * ordered as ReplayVerifier replays them, with the fields their leaf
+ * commits to.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import type { Pool } from "pg";
+import type { ChainLeafFields, ReplayChainType } from "./replay-verifier.js";
+
+export interface StoredChainRow extends ChainLeafFields {
+  id: string;
+  txSignature: string | null;
+  runningDigest: Buffer | null;
+  status: string;
+}
+
+export interface ChainCheckpoint {
+  eventCount: number;
+  digest: Buffer;
+}
+
+function hexToBytes(value: string | null | undefined): Buffer | null {
+  return value ? Buffer.from(value, "hex") : null;
+}
+
+function toBuffer(value: Uint8Array | null | undefined): Buffer | null {
+  return value ? Buffer.from(value) : null;
+}
+
+export class ChainRowReader {
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null
+  ) {}
+
+  /**
+   * Stored checkpoints of a chain, oldest first (Prisma only: Supabase has no checkpoint table)
+   */
+  async loadCheckpoints(agentId: string, chainType: ReplayChainType): Promise<ChainCheckpoint[]> {
+    if (!this.prisma) return [];
+
+    const checkpoints = await this.prisma.hashChainCheckpoint.findMany({
+      where: { agentId, chainType },
+      orderBy: { eventCount: "asc" },
+    });
+    return checkpoints.map((cp) => ({ eventCount: Number(cp.eventCount), digest: Buffer.from(cp.digest, "hex") }));
+  }
+
+  /**
+   * Number of live (non-ORPHANED) rows of a chain
+   */
+  async countRows(agentId: string, chainType: ReplayChainType): Promise<number> {
+    const notOrphaned = { not: "ORPHANED" };
+    if (this.prisma) {
+      if (chainType === "feedback") {
+        return this.prisma.feedback.count({ where: { agentId, status: notOrphaned } });
+      }
+      if (chainType === "response") {
+        return this.prisma.feedbackResponse.count({ where: { feedback: { agentId }, status: notOrphaned } });
+      }
+      return this.prisma.revocation.count({ where: { agentId, status: notOrphaned } });
+    } else if (this.pool) {
+      const table = chainType === "feedback" ? "feedbacks" : chainType === "response" ? "feedback_responses" : "revocations";
+      const result = await this.pool.query(
+        `SELECT COUNT(*)::bigint AS cnt FROM ${table} WHERE asset = $1 AND status != 'ORPHANED'`,
+        [agentId]
+      );
+      return Number(result.rows[0]?.cnt ?? 0);
+    }
+    return 0;
+  }
+
+  /**
+   * Live (non-ORPHANED) rows of a chain in replay order, skipping `offset` events
+   */
+  async loadRows(agentId: string, chainType: ReplayChainType, offset: number, limit: number): Promise<StoredChainRow[]> {
+    const notOrphaned = { not: "ORPHANED" };
+    if (this.prisma) {
+      if (chainType === "feedback") {
+        const rows = await this.prisma.feedback.findMany({
+          where: { agentId, status: notOrphaned },
+          orderBy: { feedbackIndex: "asc" },
+          skip: offset,
+          take: limit,
+        });
+        return rows.map((f) => ({
+          id: f.id,
+          asset: f.agentId,
+          client: f.client,
+          feedbackIndex: f.feedbackIndex,
+          slot: f.createdSlot ?? 0n,
+          feedbackHash: f.feedbackHash,
+          txSignature: f.createdTxSignature,
+          runningDigest: toBuffer(f.runningDigest),
+          status: f.status,
+        }));
+      }
+      if (chainType === "response") {
+        const rows = await this.prisma.feedbackResponse.findMany({
+          where: { feedback: { agentId }, status: notOrphaned },
+          orderBy: { responseCount: "asc" },
+          skip: offset,
+          take: limit,
+          include: {
+            feedback: {
+              select: { agentId: true, client: true, feedbackIndex: true, feedbackHash: true },
+            },
+          },
+        });
+        return rows.map((r) => ({
+          id: r.id,
+          asset: r.feedback.agentId,
+          client: r.feedback.client,
+          feedbackIndex: r.feedback.feedbackIndex,
+          slot: r.slot ?? 0n,
+          feedbackHash: r.feedback.feedbackHash,
+          responder: r.responder,
+          responseHash: r.responseHash,
+          txSignature: r.txSignature,
+          runningDigest: toBuffer(r.runningDigest),
+          status: r.status,
+        }));
+      }
+      const rows = await this.prisma.revocation.findMany({
+        where: { agentId, status: notOrphaned },
+        orderBy: { revokeCount: "asc" },
+        skip: offset,
+        take: limit,
+      });
+      return rows.map((r) => ({
+        id: r.id,
+        asset: r.agentId,
+        client: r.client,
+        feedbackIndex: r.feedbackIndex,
+        slot: r.slot,
+        feedbackHash: r.feedbackHash,
+        txSignature: r.txSignature,
+        runningDigest: toBuffer(r.runningDigest),
+        status: r.status,
+      }));
+    } else if (this.pool) {
+      let sql: string;
+      if (chainType === "feedback") {
+        sql = `SELECT id, client_address, feedback_index::text AS feedback_index, feedback_hash,
+                      block_slot::text AS slot, tx_signature, running_digest, status
+               FROM feedbacks
+               WHERE asset = $1 AND status != 'ORPHANED'
+               ORDER BY feedback_index ASC`;
+      } else if (chainType === "response") {
+        sql = `SELECT fr.id, fr.client_address, fr.feedback_index::text AS feedback_index, fr.responder, fr.response_hash,
+                      f.feedback_hash, fr.block_slot::text AS slot, fr.tx_signature, fr.running_digest, fr.status
+               FROM feedback_responses fr
+               LEFT JOIN feedbacks f
+                 ON f.asset = fr.asset AND f.client_address = fr.client_address AND f.feedback_index = fr.feedback_index
+               WHERE fr.asset = $1 AND fr.status != 'ORPHANED'
+               ORDER BY fr.response_count ASC, fr.block_slot ASC, fr.tx_index ASC NULLS LAST, fr.tx_signature ASC`;
+      } else {
+        sql = `SELECT id, client_address, feedback_index::text AS feedback_index, feedback_hash,
+                      slot::text AS slot, tx_signature, running_digest, status
+               FROM revocations
+               WHERE asset = $1 AND status != 'ORPHANED'
+               ORDER BY revoke_count ASC`;
+      }
+      const result = await this.pool.query(`${sql} OFFSET $2 LIMIT $3`, [agentId, offset, limit]);
+      return result.rows.map((r: any) => ({
+        id: r.id,
+        asset: agentId,
+        client: r.client_address,
+        feedbackIndex: BigInt(r.feedback_index),
+        slot: BigInt(r.slot),
+        feedbackHash: hexToBytes(r.feedback_hash),
+        responder: r.responder ?? undefined,
+        responseHash: hexToBytes(r.response_hash),
+        txSignature: r.tx_signature,
+        runningDigest: r.running_digest ? Buffer.from(r.running_digest) : null,
+        status: r.status,
+      }));
+    }
+    return [];
+  }
+}
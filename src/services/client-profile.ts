@@ -0,0 +1,150 @@
+/**
+ * Client profiles - what a feedback-giving wallet has done across agents
+ *
+ * Aggregated on demand from active feedbacks (not orphaned) and revocations
+ * of one client address. `uniqueClientShare` is the share of its feedbacks
+ * that ATOM flagged as coming from a first-time client of the agent, over
+ * the feedbacks where the flag is known: a wallet rating many agents with
+ * few unique-client hits is worth a closer look.
+ *
+ * Both backends aggregate in SQL. Local mode sums the i128 value strings in
+ * BigInt from per-value counts, as the feedback taxonomy does.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import type { Pool } from "pg";
+import { averageFeedbackValue, scaleFeedbackValue, sqliteDate } from "./feedback-taxonomy.js";
+
+export interface ClientProfile {
+  address: string;
+  feedbackCount: number;
+  agentsRated: number;
+  revocationCount: number;
+  averageValue: string | null;
+  firstActivity: Date;
+  lastActivity: Date;
+  uniqueClientEvents: number;
+  uniqueClientShare: number | null; // null when no feedback carries the ATOM flag
+}
+
+type SqliteDateValue = number | bigint | string | Date;
+
+interface LocalStatsRow {
+  feedback_count: number | bigint;
+  agents_rated: number | bigint;
+  unique_events: number | bigint;
+  flagged: number | bigint;
+  first_at: SqliteDateValue | null;
+  last_at: SqliteDateValue | null;
+  revocation_count: number | bigint;
+  revoked_first_at: SqliteDateValue | null;
+  revoked_last_at: SqliteDateValue | null;
+}
+
+interface LocalValueRow {
+  value: string;
+  value_decimals: number | bigint;
+  feedback_count: number | bigint;
+}
+
+export class ClientProfiles {
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null
+  ) {}
+
+  /**
+   * Null when the address has no active feedback
+   */
+  async get(address: string): Promise<ClientProfile | null> {
+    if (this.prisma) {
+      const [row] = await this.prisma.$queryRaw<LocalStatsRow[]>`
+        WITH f AS (
+          SELECT COUNT(*) AS feedback_count,
+                 COUNT(DISTINCT "agentId") AS agents_rated,
+                 COALESCE(SUM(CASE WHEN "isUniqueClient" = 1 THEN 1 ELSE 0 END), 0) AS unique_events,
+                 COUNT("isUniqueClient") AS flagged,
+                 MIN("createdAt") AS first_at,
+                 MAX("createdAt") AS last_at
+          FROM "Feedback"
+          WHERE "client" = ${address} AND "status" != 'ORPHANED'
+        ), r AS (
+          SELECT COUNT(*) AS revocation_count, MIN("createdAt") AS first_at, MAX("createdAt") AS last_at
+          FROM "Revocation"
+          WHERE "client" = ${address} AND "status" != 'ORPHANED'
+        )
+        SELECT f.feedback_count, f.agents_rated, f.unique_events, f.flagged, f.first_at, f.last_at,
+               r.revocation_count, r.first_at AS revoked_first_at, r.last_at AS revoked_last_at
+        FROM f, r`;
+      const feedbackCount = Number(row?.feedback_count ?? 0);
+      if (feedbackCount === 0) return null;
+
+      // Values are i128 strings: SQLite cannot sum them exactly, so count each distinct value
+      const values = await this.prisma.$queryRaw<LocalValueRow[]>`
+        SELECT "value" AS value, "valueDecimals" AS value_decimals, COUNT(*) AS feedback_count
+        FROM "Feedback"
+        WHERE "client" = ${address} AND "status" != 'ORPHANED'
+        GROUP BY "value", "valueDecimals"`;
+      let scaledSum = 0n;
+      for (const v of values) {
+        scaledSum += scaleFeedbackValue(v.value, Number(v.value_decimals)) * BigInt(v.feedback_count);
+      }
+
+      const times = [row.first_at, row.last_at, row.revoked_first_at, row.revoked_last_at]
+        .filter((t): t is SqliteDateValue => t !== null)
+        .map((t) => sqliteDate(t).getTime());
+      const flagged = Number(row.flagged);
+      const unique = Number(row.unique_events);
+      return {
+        address,
+        feedbackCount,
+        agentsRated: Number(row.agents_rated),
+        revocationCount: Number(row.revocation_count),
+        averageValue: averageFeedbackValue(scaledSum, feedbackCount),
+        firstActivity: new Date(Math.min(...times)),
+        lastActivity: new Date(Math.max(...times)),
+        uniqueClientEvents: unique,
+        uniqueClientShare: flagged > 0 ? unique / flagged : null,
+      };
+    } else if (this.pool) {
+      const result = await this.pool.query(
+        `WITH f AS (
+           SELECT COUNT(*) AS feedback_count,
+                  COUNT(DISTINCT asset) AS agents_rated,
+                  trim_scale(AVG(value / power(10::numeric, value_decimals)))::text AS average_value,
+                  MIN(created_at) AS first_at,
+                  MAX(created_at) AS last_at,
+                  COUNT(*) FILTER (WHERE is_unique_client) AS unique_events,
+                  COUNT(is_unique_client) AS flagged
+           FROM feedbacks
+           WHERE client_address = $1 AND status != 'ORPHANED'
+         ), r AS (
+           SELECT COUNT(*) AS revocation_count, MIN(created_at) AS first_at, MAX(created_at) AS last_at
+           FROM revocations
+           WHERE client_address = $1 AND status != 'ORPHANED'
+         )
+         SELECT f.feedback_count, f.agents_rated, f.average_value, f.unique_events, f.flagged, r.revocation_count,
+                LEAST(f.first_at, r.first_at) AS first_activity,
+                GREATEST(f.last_at, r.last_at) AS last_activity
+         FROM f, r`,
+        [address]
+      );
+      const row = result.rows[0];
+      if (!row || Number(row.feedback_count) === 0) return null;
+      const flagged = Number(row.flagged);
+      const unique = Number(row.unique_events);
+      return {
+        address,
+        feedbackCount: Number(row.feedback_count),
+        agentsRated: Number(row.agents_rated),
+        revocationCount: Number(row.revocation_count),
+        averageValue: row.average_value ?? null,
+        firstActivity: new Date(row.first_activity),
+        lastActivity: new Date(row.last_activity),
+        uniqueClientEvents: unique,
+        uniqueClientShare: flagged > 0 ? unique / flagged : null,
+      };
+    }
+    return null;
+  }
+}
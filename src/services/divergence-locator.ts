@@ -0,0 +1,134 @@
+/**
+ * Hash-chain divergence locator
+ *
+ * Finds the first event of an agent's feedback/response/revoke chain whose
+ * stored running_digest differs from the digest recomputed from the rows.
+ * Checkpoints (hash_chain_checkpoints, written by the replay verifier every
+ * 1000 events) hold recomputed digests, so comparing one with the stored
+ * digest at its position says whether the chain was still intact there.
+ * A binary search over checkpoints narrows the break to one checkpoint
+ * interval, which is then replayed row by row.
+ *
+ * Supabase has no checkpoint table: there the replay starts at the genesis.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import type { Pool } from "pg";
+import { createChildLogger } from "../logger.js";
+import { nextChainDigest, type ReplayChainType } from "./replay-verifier.js";
+import { ChainRowReader, type ChainCheckpoint } from "./chain-rows.js";
+
+const logger = createChildLogger("divergence-locator");
+
+const BATCH_SIZE = 1000;
+const ZERO_DIGEST = Buffer.alloc(32);
+
+export interface DivergentRow {
+  id: string;
+  client: string;
+  feedbackIndex: string;
+  responder: string | null;
+  slot: string;
+  status: string;
+}
+
+export interface ChainDivergence {
+  eventIndex: number; // 1-based position in the chain, as ReplayVerifier's mismatchAt
+  txSignature: string | null;
+  expectedDigest: string; // Recomputed from the rows
+  actualDigest: string; // Stored running_digest
+  row: DivergentRow;
+}
+
+export interface DivergenceResult {
+  agentId: string;
+  chainType: ReplayChainType;
+  count: number;
+  valid: boolean;
+  searchedFrom: number; // Event count of the checkpoint the replay started from
+  checkpointsProbed: number;
+  divergence: ChainDivergence | null;
+}
+
+export class DivergenceLocator {
+  private rows: ChainRowReader;
+
+  constructor(prisma: PrismaClient | null, pool: Pool | null) {
+    this.rows = new ChainRowReader(prisma, pool);
+  }
+
+  async locate(agentId: string, chainType: ReplayChainType): Promise<DivergenceResult> {
+    const [count, checkpoints] = await Promise.all([
+      this.rows.countRows(agentId, chainType),
+      this.rows.loadCheckpoints(agentId, chainType),
+    ]);
+    const usable = checkpoints.filter((cp) => cp.eventCount <= count);
+
+    // Last checkpoint still agreeing with the stored digest at its position
+    let lo = 0;
+    let hi = usable.length - 1;
+    let intact = -1;
+    let probed = 0;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const [row] = await this.rows.loadRows(agentId, chainType, usable[mid].eventCount - 1, 1);
+      probed++;
+      // Rows without a stored digest cannot disprove the checkpoint
+      if (row && (!row.runningDigest || row.runningDigest.equals(usable[mid].digest))) {
+        intact = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+
+    const start = intact >= 0 ? usable[intact] : { eventCount: 0, digest: ZERO_DIGEST };
+    const divergence = await this.replayFrom(agentId, chainType, start);
+
+    if (divergence) {
+      logger.info({ agentId, chainType, eventIndex: divergence.eventIndex, searchedFrom: start.eventCount, probed },
+        "Located hash-chain divergence");
+    }
+
+    return {
+      agentId,
+      chainType,
+      count,
+      valid: divergence === null,
+      searchedFrom: start.eventCount,
+      checkpointsProbed: probed,
+      divergence,
+    };
+  }
+
+  private async replayFrom(agentId: string, chainType: ReplayChainType, start: ChainCheckpoint): Promise<ChainDivergence | null> {
+    let digest = Buffer.from(start.digest);
+    let position = start.eventCount;
+
+    while (true) {
+      const rows = await this.rows.loadRows(agentId, chainType, position, BATCH_SIZE);
+      for (const row of rows) {
+        digest = nextChainDigest(chainType, digest, row);
+        position++;
+
+        if (row.runningDigest && !row.runningDigest.equals(digest)) {
+          return {
+            eventIndex: position,
+            txSignature: row.txSignature,
+            expectedDigest: digest.toString("hex"),
+            actualDigest: row.runningDigest.toString("hex"),
+            row: {
+              id: row.id,
+              client: row.client,
+              feedbackIndex: row.feedbackIndex.toString(),
+              responder: row.responder ?? null,
+              slot: row.slot.toString(),
+              status: row.status,
+            },
+          };
+        }
+      }
+      if (rows.length < BATCH_SIZE) return null;
+    }
+  }
+}
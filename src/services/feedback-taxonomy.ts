@@ -0,0 +1,195 @@
+/**
+ * Feedback taxonomy - which tags and endpoints clients rate agents for
+ *
+ * Aggregates tag1/tag2 (as one tag namespace) or endpoint over active
+ * feedbacks: not orphaned, not revoked, non-empty. A feedback carrying the
+ * same tag in tag1 and tag2 counts once. The average value is normalized by
+ * value_decimals.
+ *
+ * Both backends group in SQL. Local mode sums the i128 value strings in
+ * BigInt from per-value counts, since SQLite integers are 64-bit.
+ */
+
+import { PrismaClient, Prisma } from "@prisma/client";
+import type { Pool } from "pg";
+import { normalizeFeedbackValue } from "../db/feedback-activity.js";
+
+export type TaxonomyKind = "tag" | "endpoint";
+
+export const DEFAULT_TAXONOMY_LIMIT = 50;
+export const MAX_TAXONOMY_LIMIT = 200;
+
+const AVERAGE_DECIMALS = 18; // value_decimals is at most 18
+
+export interface TaxonomyFilter {
+  agentId?: string;
+  collection?: string;
+  limit?: number;
+}
+
+export interface TaxonomyEntry {
+  name: string;
+  feedbackCount: number;
+  agentCount: number;
+  averageValue: string | null;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+interface NameRow {
+  name: string;
+  feedback_count: number | bigint;
+  agent_count: number | bigint;
+  first_seen: number | bigint | string | Date;
+  last_seen: number | bigint | string | Date;
+}
+
+interface ValueRow {
+  name: string;
+  value: string;
+  value_decimals: number | bigint;
+  feedback_count: number | bigint;
+}
+
+// Raw aggregates over a SQLite DateTime column come back as epoch milliseconds
+export function sqliteDate(raw: number | bigint | string | Date): Date {
+  if (raw instanceof Date) return raw;
+  return typeof raw === "string" && !/^\d+$/.test(raw) ? new Date(raw) : new Date(Number(raw));
+}
+
+/**
+ * Exact average of raw feedback values normalized by value_decimals
+ */
+export function averageFeedbackValue(scaledSum: bigint, count: number): string {
+  const average = normalizeFeedbackValue(scaledSum / BigInt(count), AVERAGE_DECIMALS);
+  return average.includes(".") ? average.replace(/\.?0+$/, "") : average;
+}
+
+/**
+ * A raw value scaled to AVERAGE_DECIMALS, so values of any precision can be summed
+ */
+export function scaleFeedbackValue(value: string, valueDecimals: number): bigint {
+  return BigInt(value) * 10n ** BigInt(AVERAGE_DECIMALS - valueDecimals);
+}
+
+export function clampTaxonomyLimit(limit?: number): number {
+  if (limit === undefined || !Number.isFinite(limit) || limit <= 0) return DEFAULT_TAXONOMY_LIMIT;
+  return Math.min(Math.floor(limit), MAX_TAXONOMY_LIMIT);
+}
+
+export class FeedbackTaxonomy {
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null
+  ) {}
+
+  async tags(filter: TaxonomyFilter = {}): Promise<TaxonomyEntry[]> {
+    return this.query("tag", filter);
+  }
+
+  async endpoints(filter: TaxonomyFilter = {}): Promise<TaxonomyEntry[]> {
+    return this.query("endpoint", filter);
+  }
+
+  private async query(kind: TaxonomyKind, filter: TaxonomyFilter): Promise<TaxonomyEntry[]> {
+    const limit = clampTaxonomyLimit(filter.limit);
+
+    if (this.prisma) {
+      const conditions: Prisma.Sql[] = [Prisma.sql`f."status" != 'ORPHANED'`, Prisma.sql`f."revoked" = 0`];
+      if (filter.agentId) conditions.push(Prisma.sql`f."agentId" = ${filter.agentId}`);
+      if (filter.collection) conditions.push(Prisma.sql`a."collection" = ${filter.collection}`);
+      const from = filter.collection
+        ? Prisma.sql`"Feedback" f JOIN "Agent" a ON a."id" = f."agentId"`
+        : Prisma.sql`"Feedback" f`;
+      const where = Prisma.join(conditions, " AND ");
+      const usage = (column: string) => Prisma.sql`
+        SELECT f."id" AS id, f."agentId" AS agent_id, f."value" AS value, f."valueDecimals" AS value_decimals,
+               f."createdAt" AS created_at, f.${Prisma.raw(`"${column}"`)} AS name
+        FROM ${from}
+        WHERE ${where} AND f.${Prisma.raw(`"${column}"`)} != ''`;
+      const used = kind === "tag" ? Prisma.sql`${usage("tag1")} UNION ${usage("tag2")}` : usage("endpoint");
+
+      const names = await this.prisma.$queryRaw<NameRow[]>`
+        WITH used AS (${used})
+        SELECT name,
+               COUNT(*) AS feedback_count,
+               COUNT(DISTINCT agent_id) AS agent_count,
+               MIN(created_at) AS first_seen,
+               MAX(created_at) AS last_seen
+        FROM used
+        GROUP BY name
+        ORDER BY feedback_count DESC, name ASC
+        LIMIT ${limit}`;
+      if (names.length === 0) return [];
+
+      // Values are i128 strings: SQLite cannot sum them exactly, so count each distinct value
+      const values = await this.prisma.$queryRaw<ValueRow[]>`
+        WITH used AS (${used})
+        SELECT name, value, value_decimals, COUNT(*) AS feedback_count
+        FROM used
+        WHERE name IN (${Prisma.join(names.map((n) => n.name))})
+        GROUP BY name, value, value_decimals`;
+      const scaledSums = new Map<string, bigint>();
+      for (const v of values) {
+        const scaled = scaleFeedbackValue(v.value, Number(v.value_decimals)) * BigInt(v.feedback_count);
+        scaledSums.set(v.name, (scaledSums.get(v.name) ?? 0n) + scaled);
+      }
+
+      return names.map((row) => {
+        const feedbackCount = Number(row.feedback_count);
+        return {
+          name: row.name,
+          feedbackCount,
+          agentCount: Number(row.agent_count),
+          averageValue: averageFeedbackValue(scaledSums.get(row.name) ?? 0n, feedbackCount),
+          firstSeen: sqliteDate(row.first_seen),
+          lastSeen: sqliteDate(row.last_seen),
+        };
+      });
+    } else if (this.pool) {
+      const params: unknown[] = [];
+      const conditions = ["f.status != 'ORPHANED'", "NOT f.is_revoked"];
+      if (filter.agentId) {
+        params.push(filter.agentId);
+        conditions.push(`f.asset = $${params.length}`);
+      }
+      if (filter.collection) {
+        params.push(filter.collection);
+        conditions.push(`a.collection = $${params.length}`);
+      }
+      const from = filter.collection ? "feedbacks f JOIN agents a ON a.asset = f.asset" : "feedbacks f";
+      const where = conditions.join(" AND ");
+      const usage = (column: string) =>
+        `SELECT f.id, f.asset, f.value, f.value_decimals, f.created_at, f.${column} AS name
+         FROM ${from}
+         WHERE ${where} AND f.${column} IS NOT NULL AND f.${column} != ''`;
+      params.push(limit);
+
+      const result = await this.pool.query(
+        `WITH used AS (
+           ${kind === "tag" ? `${usage("tag1")} UNION ${usage("tag2")}` : usage("endpoint")}
+         )
+         SELECT name,
+                COUNT(*) AS feedback_count,
+                COUNT(DISTINCT asset) AS agent_count,
+                trim_scale(AVG(value / power(10::numeric, value_decimals)))::text AS average_value,
+                MIN(created_at) AS first_seen,
+                MAX(created_at) AS last_seen
+         FROM used
+         GROUP BY name
+         ORDER BY feedback_count DESC, name ASC
+         LIMIT $${params.length}`,
+        params
+      );
+      return result.rows.map((row) => ({
+        name: row.name,
+        feedbackCount: Number(row.feedback_count),
+        agentCount: Number(row.agent_count),
+        averageValue: row.average_value ?? null,
+        firstSeen: new Date(row.first_seen),
+        lastSeen: new Date(row.last_seen),
+      }));
+    }
+    return [];
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Leaderboard - agents ranked by a named strategy over a feedback scope
+ *
+ * The scope (time window, tag, collection) selects active, non-revoked
+ * feedbacks; every non-orphaned agent with at least one of them is ranked.
+ * Strategies:
+ *
+ * - atom: ATOM sort key (trust tier, then quality score, then confidence)
+ * - bayesian: average normalized value shrunk toward the scope mean with a
+ *   prior of BAYESIAN_PRIOR_WEIGHT feedbacks
+ * - recent: like bayesian, with each feedback weighted by
+ *   0.5^(age / RECENT_HALF_LIFE_MS)
+ * - confidence: ATOM quality score scaled by ATOM confidence
+ *
+ * Feedbacks are aggregated in SQL. SQLite has no guaranteed exp()/power(),
+ * so local mode groups each agent's feedbacks by age in days and weights a
+ * day by its mean age (within 0.2% of per-feedback weights).
+ *
+ * Rankings are cached per scope for LEADERBOARD_CACHE_TTL_MS and capped at
+ * LEADERBOARD_MAX_ENTRIES.
+ */
+
+import { PrismaClient, Prisma } from "@prisma/client";
+import type { Pool } from "pg";
+import { LRUCache } from "lru-cache";
+
+export type LeaderboardStrategy = "atom" | "bayesian" | "recent" | "confidence";
+export type LeaderboardWindow = "7d" | "30d" | "all";
+
+export const LEADERBOARD_STRATEGIES: readonly LeaderboardStrategy[] = ["atom", "bayesian", "recent", "confidence"];
+export const LEADERBOARD_WINDOWS: readonly LeaderboardWindow[] = ["7d", "30d", "all"];
+export const LEADERBOARD_MAX_ENTRIES = 1000;
+
+const DAY_MS = 86_400_000;
+const WINDOW_MS: Record<LeaderboardWindow, number | null> = {
+  "7d": 7 * DAY_MS,
+  "30d": 30 * DAY_MS,
+  all: null,
+};
+const BAYESIAN_PRIOR_WEIGHT = 10;
+const RECENT_HALF_LIFE_MS = 7 * DAY_MS;
+const LEADERBOARD_CACHE_TTL_MS = 60_000;
+
+// Prisma stores SQLite DateTime as epoch milliseconds; older rows may hold ISO text
+function createdAtMsSql(): Prisma.Sql {
+  return Prisma.sql`CASE WHEN typeof(f."createdAt") = 'integer' THEN f."createdAt"
+  ELSE CAST((julianday(f."createdAt") - 2440587.5) * ${DAY_MS} AS INTEGER) END`;
+}
+
+export interface LeaderboardScope {
+  strategy: LeaderboardStrategy;
+  window: LeaderboardWindow;
+  tag?: string;
+  collection?: string;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  asset: string;
+  owner: string;
+  collection: string;
+  score: number;
+  feedbackCount: number;
+  averageValue: number | null;
+}
+
+export interface AgentAggregate {
+  asset: string;
+  owner: string;
+  collection: string;
+  trustTier: number;
+  qualityScore: number;
+  confidence: number;
+  sortKey: number;
+  feedbackCount: number;
+  valueSum: number; // Σ value / 10^value_decimals
+  weightSum: number; // Σ recency weights
+  weightedValueSum: number; // Σ weight × normalized value
+}
+
+const rankingCache = new LRUCache<string, LeaderboardEntry[]>({
+  max: 100,
+  ttl: LEADERBOARD_CACHE_TTL_MS,
+});
+
+export function resetLeaderboardCacheForTests(): void {
+  rankingCache.clear();
+}
+
+/**
+ * ATOM sort key without the tie-breaker (same radices as agents.sort_key)
+ */
+export function atomSortKey(trustTier: number, qualityScore: number, confidence: number): number {
+  return trustTier * 1000200010000000 + qualityScore * 100010000000 + confidence * 10000000;
+}
+
+export function recencyWeight(ageMs: number): number {
+  return Math.pow(0.5, ageMs / RECENT_HALF_LIFE_MS);
+}
+
+/**
+ * Score and order aggregates: score desc, then feedback count desc, then asset
+ */
+export function rankAgents(aggregates: AgentAggregate[], strategy: LeaderboardStrategy): LeaderboardEntry[] {
+  const totalCount = aggregates.reduce((sum, a) => sum + a.feedbackCount, 0);
+  const mean = totalCount > 0 ? aggregates.reduce((sum, a) => sum + a.valueSum, 0) / totalCount : 0;
+
+  const score = (a: AgentAggregate): number => {
+    switch (strategy) {
+      case "atom":
+        return a.sortKey;
+      case "bayesian":
+        return (BAYESIAN_PRIOR_WEIGHT * mean + a.valueSum) / (BAYESIAN_PRIOR_WEIGHT + a.feedbackCount);
+      case "recent":
+        return (BAYESIAN_PRIOR_WEIGHT * mean + a.weightedValueSum) / (BAYESIAN_PRIOR_WEIGHT + a.weightSum);
+      case "confidence":
+        return (a.qualityScore * a.confidence) / 10000;
+    }
+  };
+
+  return aggregates
+    .map((a) => ({ a, score: score(a) }))
+    .sort((x, y) =>
+      y.score - x.score ||
+      y.a.feedbackCount - x.a.feedbackCount ||
+      (x.a.asset < y.a.asset ? -1 : x.a.asset > y.a.asset ? 1 : 0))
+    .slice(0, LEADERBOARD_MAX_ENTRIES)
+    .map(({ a, score }, i) => ({
+      rank: i + 1,
+      asset: a.asset,
+      owner: a.owner,
+      collection: a.collection,
+      score,
+      feedbackCount: a.feedbackCount,
+      averageValue: a.feedbackCount > 0 ? a.valueSum / a.feedbackCount : null,
+    }));
+}
+
+export class LeaderboardService {
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null
+  ) {}
+
+  /**
+   * One page of the ranking plus the number of ranked agents
+   */
+  async page(scope: LeaderboardScope, first: number, skip = 0): Promise<{ entries: LeaderboardEntry[]; total: number }> {
+    const ranking = await this.ranking(scope);
+    return { entries: ranking.slice(skip, skip + first), total: ranking.length };
+  }
+
+  async ranking(scope: LeaderboardScope): Promise<LeaderboardEntry[]> {
+    const key = [this.prisma ? "prisma" : "pg", scope.strategy, scope.window, scope.tag ?? "", scope.collection ?? ""].join("|");
+    const cached = rankingCache.get(key);
+    if (cached) return cached;
+
+    const ranking = rankAgents(await this.aggregate(scope, new Date()), scope.strategy);
+    rankingCache.set(key, ranking);
+    return ranking;
+  }
+
+  private async aggregate(scope: LeaderboardScope, now: Date): Promise<AgentAggregate[]> {
+    const windowMs = WINDOW_MS[scope.window];
+    const since = windowMs !== null ? new Date(now.getTime() - windowMs) : null;
+
+    if (this.prisma) {
+      const createdAtMs = createdAtMsSql();
+      const conditions: Prisma.Sql[] = [
+        Prisma.sql`f."status" != 'ORPHANED'`,
+        Prisma.sql`f."revoked" = 0`,
+        Prisma.sql`a."status" != 'ORPHANED'`,
+      ];
+      if (since) conditions.push(Prisma.sql`${createdAtMs} >= ${since.getTime()}`);
+      if (scope.tag) conditions.push(Prisma.sql`(f."tag1" = ${scope.tag} OR f."tag2" = ${scope.tag})`);
+      if (scope.collection) conditions.push(Prisma.sql`a."collection" = ${scope.collection}`);
+
+      const buckets = await this.prisma.$queryRaw<Array<{
+        asset: string;
+        owner: string;
+        collection: string;
+        trust_tier: number | bigint;
+        quality_score: number | bigint;
+        confidence: number | bigint;
+        value_decimals: number | bigint;
+        feedback_count: number | bigint;
+        value_sum: number | null;
+        mean_age_ms: number | null;
+      }>>`
+        SELECT asset, owner, collection, trust_tier, quality_score, confidence, value_decimals,
+               COUNT(*) AS feedback_count,
+               SUM(value) AS value_sum,
+               AVG(age_ms) AS mean_age_ms
+        FROM (
+          SELECT a."id" AS asset, a."owner" AS owner, a."collection" AS collection,
+                 a."trustTier" AS trust_tier, a."qualityScore" AS quality_score, a."confidence" AS confidence,
+                 f."valueDecimals" AS value_decimals,
+                 CAST(f."value" AS REAL) AS value,
+                 ${now.getTime()} - ${createdAtMs} AS age_ms
+          FROM "Feedback" f
+          JOIN "Agent" a ON a."id" = f."agentId"
+          WHERE ${Prisma.join(conditions, " AND ")}
+        ) scoped
+        GROUP BY asset, owner, collection, trust_tier, quality_score, confidence, value_decimals,
+                 CAST(age_ms / ${DAY_MS} AS INTEGER)`;
+
+      const byAgent = new Map<string, AgentAggregate>();
+      for (const b of buckets) {
+        let agg = byAgent.get(b.asset);
+        if (!agg) {
+          const trustTier = Number(b.trust_tier);
+          const qualityScore = Number(b.quality_score);
+          const confidence = Number(b.confidence);
+          agg = {
+            asset: b.asset,
+            owner: b.owner,
+            collection: b.collection,
+            trustTier,
+            qualityScore,
+            confidence,
+            sortKey: atomSortKey(trustTier, qualityScore, confidence),
+            feedbackCount: 0,
+            valueSum: 0,
+            weightSum: 0,
+            weightedValueSum: 0,
+          };
+          byAgent.set(b.asset, agg);
+        }
+        const count = Number(b.feedback_count);
+        const valueSum = Number(b.value_sum ?? 0) / 10 ** Number(b.value_decimals);
+        const weight = recencyWeight(Number(b.mean_age_ms ?? 0));
+        agg.feedbackCount += count;
+        agg.valueSum += valueSum;
+        agg.weightSum += weight * count;
+        agg.weightedValueSum += weight * valueSum;
+      }
+      return [...byAgent.values()];
+    } else if (this.pool) {
+      const params: unknown[] = [now.toISOString(), RECENT_HALF_LIFE_MS / 1000];
+      const conditions = ["f.status != 'ORPHANED'", "NOT f.is_revoked", "a.status != 'ORPHANED'"];
+      if (since) {
+        params.push(since.toISOString());
+        conditions.push(`f.created_at >= $${params.length}`);
+      }
+      if (scope.tag) {
+        params.push(scope.tag);
+        conditions.push(`(f.tag1 = $${params.length} OR f.tag2 = $${params.length})`);
+      }
+      if (scope.collection) {
+        params.push(scope.collection);
+        conditions.push(`a.collection = $${params.length}`);
+      }
+
+      const result = await this.pool.query(
+        `SELECT asset, owner, collection, trust_tier, quality_score, confidence, sort_key,
+                COUNT(*) AS feedback_count,
+                SUM(v) AS value_sum,
+                SUM(w) AS weight_sum,
+                SUM(w * v) AS weighted_value_sum
+         FROM (
+           SELECT a.asset, a.owner, a.collection, a.trust_tier, a.quality_score, a.confidence, a.sort_key,
+                  (COALESCE(f.value, 0) / power(10::numeric, COALESCE(f.value_decimals, 0)))::float8 AS v,
+                  power(0.5::float8, EXTRACT(EPOCH FROM ($1::timestamptz - f.created_at))::float8 / $2) AS w
+           FROM feedbacks f
+           JOIN agents a ON a.asset = f.asset
+           WHERE ${conditions.join(" AND ")}
+         ) scoped
+         GROUP BY asset, owner, collection, trust_tier, quality_score, confidence, sort_key`,
+        params
+      );
+      return result.rows.map((row) => ({
+        asset: row.asset,
+        owner: row.owner,
+        collection: row.collection,
+        trustTier: Number(row.trust_tier ?? 0),
+        qualityScore: Number(row.quality_score ?? 0),
+        confidence: Number(row.confidence ?? 0),
+        sortKey: Number(row.sort_key ?? 0),
+        feedbackCount: Number(row.feedback_count),
+        valueSum: Number(row.value_sum),
+        weightSum: Number(row.weight_sum),
+        weightedValueSum: Number(row.weighted_value_sum),
+      }));
+    }
+    return [];
+  }
+}
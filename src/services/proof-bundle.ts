@@ -0,0 +1,128 @@
+/**
+ * Hash-chain proof bundle exporter
+ *
+ * Builds the self-contained bundle served by GET /rest/v1/verify/proof/:asset:
+ * the AgentAccount digest/count of each chain read at a finalized slot, and
+ * the indexed rows up to that count as ordered leaves, with their running
+ * digests and the stored checkpoints. verifyProofBundle() checks it offline.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import type { Connection } from "@solana/web3.js";
+import { createChildLogger } from "../logger.js";
+import { parseAgentDigests } from "../indexer/verifier.js";
+import { AGENT_REGISTRY_PROGRAM_ID, getAgentPda, parseAssetPubkey } from "../utils/pda.js";
+import { appendChainLeaf, computeChainLeaf, type ReplayChainType } from "./replay-verifier.js";
+import { ChainRowReader } from "./chain-rows.js";
+import {
+  PROOF_BUNDLE_FORMAT,
+  PROOF_BUNDLE_VERSION,
+  PROOF_CHAIN_TYPES,
+  type ProofBundle,
+  type ProofChain,
+  type ProofLeaf,
+} from "./proof-verifier.js";
+
+const logger = createChildLogger("proof-bundle");
+
+const BATCH_SIZE = 1000;
+const ZERO_DIGEST = Buffer.alloc(32);
+
+export class ProofBundleExporter {
+  private rows: ChainRowReader;
+
+  constructor(
+    prisma: PrismaClient | null,
+    private connection: Connection
+  ) {
+    this.rows = new ChainRowReader(prisma, null);
+  }
+
+  /**
+   * Export the proof bundle of an agent, or null when its AgentAccount is
+   * not found (or not parseable) at the finalized commitment.
+   */
+  async export(agentId: string): Promise<ProofBundle | null> {
+    const [agentPda] = getAgentPda(parseAssetPubkey(agentId));
+    const { context, value } = await this.connection.getAccountInfoAndContext(agentPda, {
+      commitment: "finalized",
+    });
+    if (!value) return null;
+
+    const onChain = parseAgentDigests(value.data);
+    if (!onChain) {
+      logger.warn({ agentId }, "Unrecognized AgentAccount layout");
+      return null;
+    }
+
+    const heads: Record<ReplayChainType, { digest: Uint8Array; count: bigint }> = {
+      feedback: { digest: onChain.feedbackDigest, count: onChain.feedbackCount },
+      response: { digest: onChain.responseDigest, count: onChain.responseCount },
+      revoke: { digest: onChain.revokeDigest, count: onChain.revokeCount },
+    };
+
+    const chains = {} as Record<ReplayChainType, ProofChain>;
+    for (const chainType of PROOF_CHAIN_TYPES) {
+      chains[chainType] = await this.exportChain(agentId, chainType, heads[chainType]);
+    }
+
+    return {
+      format: PROOF_BUNDLE_FORMAT,
+      version: PROOF_BUNDLE_VERSION,
+      asset: agentId,
+      programId: AGENT_REGISTRY_PROGRAM_ID.toBase58(),
+      agentAccount: agentPda.toBase58(),
+      anchor: { slot: context.slot.toString(), commitment: "finalized" },
+      generatedAt: new Date().toISOString(),
+      chains,
+    };
+  }
+
+  private async exportChain(
+    agentId: string,
+    chainType: ReplayChainType,
+    head: { digest: Uint8Array; count: bigint }
+  ): Promise<ProofChain> {
+    // Rows past the on-chain count are not finalized yet and left out
+    const count = Number(head.count);
+    const leaves: ProofLeaf[] = [];
+    let digest: Buffer = ZERO_DIGEST;
+
+    while (leaves.length < count) {
+      const limit = Math.min(BATCH_SIZE, count - leaves.length);
+      const rows = await this.rows.loadRows(agentId, chainType, leaves.length, limit);
+      for (const row of rows) {
+        const leaf = computeChainLeaf(chainType, row);
+        digest = appendChainLeaf(chainType, digest, leaf);
+        leaves.push({
+          position: leaves.length + 1,
+          client: row.client,
+          feedbackIndex: row.feedbackIndex.toString(),
+          sealHash: Buffer.from(row.feedbackHash ?? ZERO_DIGEST).toString("hex"),
+          slot: row.slot.toString(),
+          txSignature: row.txSignature,
+          ...(chainType === "response" && {
+            responder: row.responder ?? undefined,
+            responseHash: Buffer.from(row.responseHash ?? ZERO_DIGEST).toString("hex"),
+          }),
+          leaf: leaf.toString("hex"),
+          runningDigest: digest.toString("hex"),
+        });
+      }
+      if (rows.length < limit) break;
+    }
+
+    if (leaves.length < count) {
+      logger.warn({ agentId, chainType, indexed: leaves.length, onChain: count }, "Proof bundle chain is behind the on-chain count");
+    }
+
+    const checkpoints = await this.rows.loadCheckpoints(agentId, chainType);
+    return {
+      onChain: { digest: Buffer.from(head.digest).toString("hex"), count: head.count.toString() },
+      checkpoints: checkpoints
+        .filter((cp) => cp.eventCount <= leaves.length)
+        .map((cp) => ({ eventCount: cp.eventCount, digest: cp.digest.toString("hex") })),
+      leaves,
+    };
+  }
+}
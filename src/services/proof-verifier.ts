@@ -0,0 +1,210 @@
+/**
+ * Offline hash-chain proof verifier
+ *
+ * Checks a proof bundle exported by GET /rest/v1/verify/proof/:asset without
+ * a database or the indexer: every leaf is recomputed from its fields, the
+ * chain is rebuilt from the zero digest, and the result must land on the
+ * AgentAccount digest/count the bundle recorded at its anchor slot. The
+ * format is documented in docs/proof-bundle.md.
+ *
+ * The anchor digest is only as trustworthy as its source: a partner who does
+ * not trust the exporter should re-read the AgentAccount at (or after, with
+ * no newer events) the anchor slot from their own RPC.
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import {
+  appendChainLeaf,
+  computeFeedbackLeafV1,
+  computeResponseLeaf,
+  computeRevokeLeaf,
+  type ReplayChainType,
+} from "./replay-verifier.js";
+import { getAgentPda } from "../utils/pda.js";
+
+export const PROOF_BUNDLE_FORMAT = "8004-hash-chain-proof";
+export const PROOF_BUNDLE_VERSION = 1;
+
+export const PROOF_CHAIN_TYPES: ReplayChainType[] = ["feedback", "response", "revoke"];
+
+export interface ProofLeaf {
+  position: number; // 1-based position in the chain
+  client: string;
+  feedbackIndex: string;
+  sealHash: string; // SEAL hash of the feedback (the responded-to / revoked one for response and revoke)
+  slot: string;
+  txSignature: string | null;
+  responder?: string;
+  responseHash?: string;
+  leaf: string;
+  runningDigest: string; // Digest after appending this leaf
+}
+
+export interface ProofCheckpoint {
+  eventCount: number;
+  digest: string;
+}
+
+export interface ProofChain {
+  onChain: { digest: string; count: string };
+  checkpoints: ProofCheckpoint[];
+  leaves: ProofLeaf[];
+}
+
+export interface ProofBundle {
+  format: typeof PROOF_BUNDLE_FORMAT;
+  version: typeof PROOF_BUNDLE_VERSION;
+  asset: string;
+  programId: string;
+  agentAccount: string;
+  anchor: { slot: string; commitment: "finalized" };
+  generatedAt: string;
+  chains: Record<ReplayChainType, ProofChain>;
+}
+
+export interface ProofChainResult {
+  valid: boolean;
+  count: number;
+  digest: string; // Recomputed final digest
+  errors: string[];
+}
+
+export interface ProofVerificationResult {
+  asset: string;
+  anchorSlot: string;
+  valid: boolean;
+  errors: string[]; // Bundle-level errors (account derivation)
+  chains: Record<ReplayChainType, ProofChainResult>;
+}
+
+const ZERO_DIGEST = Buffer.alloc(32);
+
+function hexToBuffer(value: string | undefined, field: string): Buffer {
+  if (!value || !/^[0-9a-f]{64}$/i.test(value)) {
+    throw new Error(`${field} must be 32 bytes of hex`);
+  }
+  return Buffer.from(value, "hex");
+}
+
+function pubkeyToBuffer(value: string | undefined, field: string): Buffer {
+  try {
+    return new PublicKey(value ?? "").toBuffer();
+  } catch {
+    throw new Error(`${field} is not a valid public key`);
+  }
+}
+
+function recomputeLeaf(chainType: ReplayChainType, asset: Buffer, leaf: ProofLeaf): Buffer {
+  const client = pubkeyToBuffer(leaf.client, "client");
+  const feedbackIndex = BigInt(leaf.feedbackIndex);
+  const sealHash = hexToBuffer(leaf.sealHash, "sealHash");
+  const slot = BigInt(leaf.slot);
+
+  if (chainType === "feedback") {
+    return computeFeedbackLeafV1(asset, client, feedbackIndex, sealHash, slot);
+  }
+  if (chainType === "response") {
+    return computeResponseLeaf(
+      asset,
+      client,
+      feedbackIndex,
+      pubkeyToBuffer(leaf.responder, "responder"),
+      hexToBuffer(leaf.responseHash, "responseHash"),
+      sealHash,
+      slot
+    );
+  }
+  return computeRevokeLeaf(asset, client, feedbackIndex, sealHash, slot);
+}
+
+function verifyChain(chainType: ReplayChainType, asset: Buffer, chain: ProofChain): ProofChainResult {
+  const errors: string[] = [];
+  const checkpoints = new Map(chain.checkpoints.map((cp) => [cp.eventCount, cp.digest.toLowerCase()]));
+  let digest: Buffer = ZERO_DIGEST;
+  let count = 0;
+
+  for (const leaf of chain.leaves) {
+    count++;
+    if (leaf.position !== count) {
+      errors.push(`leaf ${count}: position ${leaf.position} out of order`);
+      break;
+    }
+
+    let recomputed: Buffer;
+    try {
+      recomputed = recomputeLeaf(chainType, asset, leaf);
+    } catch (error: any) {
+      errors.push(`leaf ${count}: ${error.message}`);
+      break;
+    }
+    if (recomputed.toString("hex") !== leaf.leaf.toLowerCase()) {
+      errors.push(`leaf ${count}: leaf hash does not match its fields`);
+    }
+
+    digest = appendChainLeaf(chainType, digest, recomputed);
+    const hex = digest.toString("hex");
+    if (hex !== leaf.runningDigest.toLowerCase()) {
+      errors.push(`leaf ${count}: running digest mismatch`);
+    }
+    const checkpoint = checkpoints.get(count);
+    if (checkpoint !== undefined && checkpoint !== hex) {
+      errors.push(`checkpoint ${count}: digest mismatch`);
+    }
+  }
+
+  for (const eventCount of checkpoints.keys()) {
+    if (eventCount > chain.leaves.length) {
+      errors.push(`checkpoint ${eventCount}: beyond the last leaf`);
+    }
+  }
+
+  const finalDigest = digest.toString("hex");
+  if (BigInt(chain.onChain.count) !== BigInt(chain.leaves.length)) {
+    errors.push(`leaf count ${chain.leaves.length} does not match on-chain count ${chain.onChain.count}`);
+  }
+  if (finalDigest !== chain.onChain.digest.toLowerCase()) {
+    errors.push("final digest does not match the on-chain digest");
+  }
+
+  return { valid: errors.length === 0, count, digest: finalDigest, errors };
+}
+
+/**
+ * Verify a proof bundle. Throws on an unknown format or version; every
+ * other problem is reported in the result.
+ */
+export function verifyProofBundle(bundle: ProofBundle): ProofVerificationResult {
+  if (bundle?.format !== PROOF_BUNDLE_FORMAT) {
+    throw new Error(`Not a ${PROOF_BUNDLE_FORMAT} bundle`);
+  }
+  if (bundle.version !== PROOF_BUNDLE_VERSION) {
+    throw new Error(`Unsupported proof bundle version: ${bundle.version}`);
+  }
+
+  const errors: string[] = [];
+  const asset = pubkeyToBuffer(bundle.asset, "asset");
+  try {
+    const [agentPda] = getAgentPda(new PublicKey(asset), new PublicKey(bundle.programId));
+    if (agentPda.toBase58() !== bundle.agentAccount) {
+      errors.push("agentAccount is not the agent PDA of asset under programId");
+    }
+  } catch {
+    errors.push("programId is not a valid public key");
+  }
+
+  const chains = {} as Record<ReplayChainType, ProofChainResult>;
+  for (const chainType of PROOF_CHAIN_TYPES) {
+    const chain = bundle.chains?.[chainType];
+    chains[chainType] = chain
+      ? verifyChain(chainType, asset, chain)
+      : { valid: false, count: 0, digest: ZERO_DIGEST.toString("hex"), errors: ["chain missing from bundle"] };
+  }
+
+  return {
+    asset: bundle.asset,
+    anchorSlot: bundle.anchor?.slot,
+    valid: errors.length === 0 && PROOF_CHAIN_TYPES.every((chainType) => chains[chainType].valid),
+    errors,
+    chains,
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Registration history - digested versions of an agent's registration file
+ *
+ * The metadata queue appends a registration_file_versions row whenever a
+ * digest yields a different file than the agent's latest version (new URI or
+ * new content hash), with the slot / signature of the AgentRegistered /
+ * UriUpdated event that triggered it (NULL for scheduled refreshes). The row
+ * keeps the fetched body as served and, for diffs, the sanitized `_uri:*`
+ * fields as compressed JSON.
+ *
+ * Diffs compare flattened fields: `_uri:` is dropped from keys and services
+ * are keyed by name, so a new MCP endpoint shows up as `services.mcp.endpoint`
+ * rather than as a change of the whole services array.
+ */
+
+import type { Pool } from "pg";
+import { decompressFromStorage } from "../utils/compression.js";
+
+export type RegistrationFieldChangeKind = "added" | "removed" | "changed";
+
+export interface RegistrationFieldChange {
+  field: string;
+  change: RegistrationFieldChangeKind;
+  before: string | null;
+  after: string | null;
+}
+
+export interface RegistrationVersion {
+  id: string;
+  asset: string;
+  uri: string;
+  contentHash: string;
+  bytes: number | null;
+  fetchedAt: Date;
+  slot: bigint | null;
+  txSignature: string | null;
+}
+
+function stringifyValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Flatten digested `_uri:*` fields into comparable "path -> value" pairs
+ */
+export function flattenRegistrationFields(fields: Record<string, unknown>): Map<string, string> {
+  const flat = new Map<string, string>();
+
+  for (const [key, value] of Object.entries(fields)) {
+    const field = key.startsWith("_uri:") ? key.slice(5) : key;
+
+    if (field === "services" && Array.isArray(value)) {
+      const seen = new Map<string, number>();
+      for (const service of value) {
+        if (typeof service !== "object" || service === null) continue;
+        const name = typeof service.name === "string" ? service.name : "unknown";
+        const count = (seen.get(name) ?? 0) + 1;
+        seen.set(name, count);
+        const prefix = `services.${count > 1 ? `${name}#${count}` : name}`;
+        for (const [prop, propValue] of Object.entries(service)) {
+          if (prop === "name") continue;
+          flat.set(`${prefix}.${prop}`, stringifyValue(propValue));
+        }
+        if (Object.keys(service).length === 1) flat.set(prefix, "{}");
+      }
+      continue;
+    }
+
+    flat.set(field, stringifyValue(value));
+  }
+  return flat;
+}
+
+/**
+ * Field-level changes from one set of digested fields to another, sorted by field
+ */
+export function diffRegistrationFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): RegistrationFieldChange[] {
+  const from = flattenRegistrationFields(before);
+  const to = flattenRegistrationFields(after);
+  const changes: RegistrationFieldChange[] = [];
+
+  for (const [field, value] of from) {
+    if (!to.has(field)) {
+      changes.push({ field, change: "removed", before: value, after: null });
+    } else if (to.get(field) !== value) {
+      changes.push({ field, change: "changed", before: value, after: to.get(field)! });
+    }
+  }
+  for (const [field, value] of to) {
+    if (!from.has(field)) {
+      changes.push({ field, change: "added", before: null, after: value });
+    }
+  }
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+function mapVersionRow(row: any): RegistrationVersion {
+  return {
+    id: String(row.id),
+    asset: row.asset,
+    uri: row.uri,
+    contentHash: row.content_hash,
+    bytes: row.bytes ?? null,
+    fetchedAt: new Date(row.fetched_at),
+    slot: row.block_slot != null ? BigInt(row.block_slot) : null,
+    txSignature: row.tx_signature ?? null,
+  };
+}
+
+async function decodeFields(stored: Buffer | null): Promise<Record<string, unknown>> {
+  if (!stored) return {};
+  const json = await decompressFromStorage(Buffer.from(stored));
+  const parsed = JSON.parse(json.toString("utf-8"));
+  return typeof parsed === "object" && parsed !== null ? parsed : {};
+}
+
+export class RegistrationHistory {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Versions of an agent's registration file, newest first
+   */
+  async list(asset: string, first: number, skip: number): Promise<RegistrationVersion[]> {
+    const result = await this.pool.query(
+      `SELECT id, asset, uri, content_hash, bytes, fetched_at, block_slot, tx_signature
+       FROM registration_file_versions
+       WHERE asset = $1
+       ORDER BY id DESC
+       LIMIT $2 OFFSET $3`,
+      [asset, first, skip]
+    );
+    return result.rows.map(mapVersionRow);
+  }
+
+  /**
+   * Changes introduced by a version, against the agent's previous version
+   * (every field is "added" for the first version). Null for an unknown id.
+   */
+  async changes(versionId: string): Promise<RegistrationFieldChange[] | null> {
+    const result = await this.pool.query(
+      `SELECT v.fields, p.fields AS previous_fields
+       FROM registration_file_versions v
+       LEFT JOIN LATERAL (
+         SELECT fields FROM registration_file_versions
+         WHERE asset = v.asset AND id < v.id
+         ORDER BY id DESC
+         LIMIT 1
+       ) p ON true
+       WHERE v.id = $1`,
+      [versionId]
+    );
+    if (result.rows.length === 0) return null;
+    const row = result.rows[0];
+    return diffRegistrationFields(await decodeFields(row.previous_fields), await decodeFields(row.fields));
+  }
+
+  /**
+   * Changes from one version to another of the same agent. Null when either id
+   * is unknown or they belong to different agents.
+   */
+  async diff(fromId: string, toId: string): Promise<RegistrationFieldChange[] | null> {
+    const result = await this.pool.query(
+      `SELECT id, asset, fields FROM registration_file_versions WHERE id = ANY($1::bigint[])`,
+      [[fromId, toId]]
+    );
+    const from = result.rows.find((row) => String(row.id) === fromId);
+    const to = result.rows.find((row) => String(row.id) === toId);
+    if (!from || !to || from.asset !== to.asset) return null;
+    return diffRegistrationFields(await decodeFields(from.fields), await decodeFields(to.fields));
+  }
+}
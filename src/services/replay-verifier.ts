@@ -43,7 +43,7 @@ function chainHash(prevDigest: Buffer, domain: Buffer, leaf: Buffer): Buffer<Arr
   return Buffer.from(keccak_256(data)) as Buffer<ArrayBuffer>;
 }
 
-function computeFeedbackLeafV1(
+export function computeFeedbackLeafV1(
   asset: Buffer,
   client: Buffer,
   feedbackIndex: bigint,
@@ -61,7 +61,7 @@ function computeFeedbackLeafV1(
   return Buffer.from(keccak_256(data));
 }
 
-function computeResponseLeaf(
+export function computeResponseLeaf(
   asset: Buffer,
   client: Buffer,
   feedbackIndex: bigint,
@@ -83,7 +83,7 @@ function computeResponseLeaf(
   return Buffer.from(keccak_256(data));
 }
 
-function computeRevokeLeaf(
+export function computeRevokeLeaf(
   asset: Buffer,
   client: Buffer,
   feedbackIndex: bigint,
@@ -110,6 +110,57 @@ function hashBytesToBuffer(hash: Uint8Array | null): Buffer {
   return Buffer.from(hash);
 }
 
+export type ReplayChainType = "feedback" | "response" | "revoke";
+
+/**
+ * Stored row fields a chain leaf commits to. `feedbackHash` is the SEAL hash
+ * of the feedback (the responded-to / revoked one for response and revoke).
+ */
+export interface ChainLeafFields {
+  asset: string;
+  client: string;
+  feedbackIndex: bigint;
+  slot: bigint;
+  feedbackHash: Uint8Array | null;
+  responder?: string;
+  responseHash?: Uint8Array | null;
+}
+
+/**
+ * Leaf of one stored row (the value the on-chain program hashes into the chain)
+ */
+export function computeChainLeaf(chainType: ReplayChainType, row: ChainLeafFields): Buffer {
+  const assetBuf = pubkeyToBuffer(row.asset);
+  const clientBuf = pubkeyToBuffer(row.client);
+  const feedbackHash = hashBytesToBuffer(row.feedbackHash);
+
+  if (chainType === "feedback") {
+    return computeFeedbackLeafV1(assetBuf, clientBuf, row.feedbackIndex, feedbackHash, row.slot);
+  }
+  if (chainType === "response") {
+    return computeResponseLeaf(
+      assetBuf, clientBuf, row.feedbackIndex, pubkeyToBuffer(row.responder ?? ""),
+      hashBytesToBuffer(row.responseHash ?? null), feedbackHash, row.slot,
+    );
+  }
+  return computeRevokeLeaf(assetBuf, clientBuf, row.feedbackIndex, feedbackHash, row.slot);
+}
+
+/**
+ * Running digest after appending a leaf to a chain
+ */
+export function appendChainLeaf(chainType: ReplayChainType, prevDigest: Buffer, leaf: Buffer): Buffer<ArrayBuffer> {
+  const domain = chainType === "feedback" ? DOMAIN_FEEDBACK : chainType === "response" ? DOMAIN_RESPONSE : DOMAIN_REVOKE;
+  return chainHash(prevDigest, domain, leaf);
+}
+
+/**
+ * Running digest after appending one row to a chain
+ */
+export function nextChainDigest(chainType: ReplayChainType, prevDigest: Buffer, row: ChainLeafFields): Buffer<ArrayBuffer> {
+  return appendChainLeaf(chainType, prevDigest, computeChainLeaf(chainType, row));
+}
+
 export class ReplayVerifier {
   CHECKPOINT_INTERVAL = 1000;
 
@@ -188,7 +239,7 @@ export class ReplayVerifier {
 
   private async replayChainFromDB(
     agentId: string,
-    chainType: "feedback" | "response" | "revoke",
+    chainType: ReplayChainType,
     startDigest: Buffer,
     startCount: number,
   ): Promise<ChainReplayResult> {
@@ -209,13 +260,13 @@ export class ReplayVerifier {
         if (feedbacks.length === 0) break;
 
         for (const f of feedbacks) {
-          const assetBuf = pubkeyToBuffer(f.agentId);
-          const clientBuf = pubkeyToBuffer(f.client);
-          const sealHash = hashBytesToBuffer(f.feedbackHash);
-          const slot = f.createdSlot ?? 0n;
-
-          const leaf = computeFeedbackLeafV1(assetBuf, clientBuf, f.feedbackIndex, sealHash, slot);
-          digest = chainHash(digest, DOMAIN_FEEDBACK, leaf);
+          digest = nextChainDigest("feedback", digest, {
+            asset: f.agentId,
+            client: f.client,
+            feedbackIndex: f.feedbackIndex,
+            slot: f.createdSlot ?? 0n,
+            feedbackHash: f.feedbackHash,
+          });
           count++;
 
           if (f.runningDigest && valid) {
@@ -255,15 +306,15 @@ export class ReplayVerifier {
         if (responses.length === 0) break;
 
         for (const r of responses) {
-          const assetBuf = pubkeyToBuffer(r.feedback.agentId);
-          const clientBuf = pubkeyToBuffer(r.feedback.client);
-          const responderBuf = pubkeyToBuffer(r.responder);
-          const responseHash = hashBytesToBuffer(r.responseHash);
-          const feedbackHash = hashBytesToBuffer(r.feedback.feedbackHash);
-          const slot = r.slot ?? 0n;
-
-          const leaf = computeResponseLeaf(assetBuf, clientBuf, r.feedback.feedbackIndex, responderBuf, responseHash, feedbackHash, slot);
-          digest = chainHash(digest, DOMAIN_RESPONSE, leaf);
+          digest = nextChainDigest("response", digest, {
+            asset: r.feedback.agentId,
+            client: r.feedback.client,
+            feedbackIndex: r.feedback.feedbackIndex,
+            slot: r.slot ?? 0n,
+            feedbackHash: r.feedback.feedbackHash,
+            responder: r.responder,
+            responseHash: r.responseHash,
+          });
           count++;
 
           if (r.runningDigest && valid) {
@@ -294,13 +345,13 @@ export class ReplayVerifier {
         if (revocations.length === 0) break;
 
         for (const r of revocations) {
-          const assetBuf = pubkeyToBuffer(r.agentId);
-          const clientBuf = pubkeyToBuffer(r.client);
-          const feedbackHash = hashBytesToBuffer(r.feedbackHash);
-          const slot = r.slot;
-
-          const leaf = computeRevokeLeaf(assetBuf, clientBuf, r.feedbackIndex, feedbackHash, slot);
-          digest = chainHash(digest, DOMAIN_REVOKE, leaf);
+          digest = nextChainDigest("revoke", digest, {
+            asset: r.agentId,
+            client: r.client,
+            feedbackIndex: r.feedbackIndex,
+            slot: r.slot,
+            feedbackHash: r.feedbackHash,
+          });
           count++;
 
           if (r.runningDigest && valid) {
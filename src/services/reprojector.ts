@@ -0,0 +1,512 @@
+/**
+ * Reprojector - rebuild derived tables from the stored event log
+ *
+ * Clears the projections (agents, feedbacks, responses, revocations, metadata,
+ * collections, agent_digest_cache, ...) and replays every logged event in
+ * (slot, tx_index, event_ordinal) order through the handlers' transactional
+ * path, decoding the raw Anchor payload kept in the event log. No RPC is used.
+ *
+ * The rebuild runs in a single transaction and clears tables with DELETE, so
+ * readers keep seeing the old projection until it commits. URI-derived state
+ * (`_uri:*` keys, registration file fetch state and fetched collection fields)
+ * is carried over instead of being re-fetched. Tables the event log cannot
+ * rebuild (registration_file_versions, feedback_documents, ...) are left alone.
+ *
+ * Dry-run mode performs the same replay, diffs every table against its
+ * previous contents, then rolls back.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import type { Pool, PoolClient } from "pg";
+import { createHash } from "crypto";
+import { createChildLogger } from "../logger.js";
+import { decodeRawEvent } from "../parser/decoder.js";
+import type { ProgramEvent } from "../parser/types.js";
+import { reprojectEventTx as reprojectEventLocal, type EventContext } from "../db/handlers.js";
+import { reprojectEventTx as reprojectEventSupabase } from "../db/supabase.js";
+
+const logger = createChildLogger("reprojector");
+
+const DEFAULT_BATCH_SIZE = 1000;
+const SNAPSHOT_PAGE_SIZE = 5000;
+const MAX_DIFF_SAMPLES = 5;
+const LOCAL_TX_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+const URI_METADATA_TEMP = "_reproject_uri_metadata";
+const COLLECTION_METADATA_TEMP = "_reproject_collection_metadata";
+
+interface ProjectionTable {
+  name: string;
+  key: string[];
+  // Columns excluded from the dry-run diff (generated ids, verifier state, wall-clock timestamps)
+  ignore: string[];
+}
+
+// Delete order: children first
+const LOCAL_TABLES: ProjectionTable[] = [
+  { name: "FeedbackResponse", key: ["responder", "txSignature"], ignore: ["id", "feedbackId", "status", "verifiedAt"] },
+  { name: "OrphanResponse", key: ["agentId", "client", "feedbackIndex", "responder", "txSignature"], ignore: ["id", "createdAt"] },
+  { name: "Revocation", key: ["agentId", "client", "feedbackIndex"], ignore: ["id", "status", "verifiedAt"] },
+  { name: "Feedback", key: ["agentId", "client", "feedbackIndex"], ignore: ["id", "status", "verifiedAt"] },
+  { name: "Validation", key: ["agentId", "validator", "nonce"], ignore: ["id", "chainStatus", "chainVerifiedAt"] },
+  { name: "AgentMetadata", key: ["agentId", "key"], ignore: ["id", "status", "verifiedAt"] },
+  { name: "Agent", key: ["id"], ignore: ["updatedAt", "status", "verifiedAt", "verifiedSlot"] },
+  { name: "Registry", key: ["id"], ignore: ["status", "verifiedAt"] },
+  { name: "CollectionPointer", key: ["col", "creator"], ignore: [] },
+  { name: "ReputationSnapshot", key: ["agentId", "eventType", "client", "feedbackIndex"], ignore: ["id"] },
+];
+
+const SUPABASE_TABLES: ProjectionTable[] = [
+  { name: "feedback_responses", key: ["asset", "client_address", "feedback_index", "responder", "tx_signature"], ignore: ["status", "verified_at"] },
+  { name: "revocations", key: ["asset", "client_address", "feedback_index"], ignore: ["status", "verified_at"] },
+  { name: "feedbacks", key: ["asset", "client_address", "feedback_index"], ignore: ["status", "verified_at"] },
+  { name: "validations", key: ["asset", "validator_address", "nonce"], ignore: ["updated_at", "chain_status", "chain_verified_at"] },
+  { name: "metadata", key: ["asset", "key"], ignore: ["updated_at", "status", "verified_at"] },
+  { name: "agents", key: ["asset"], ignore: ["updated_at", "status", "verified_at", "verified_slot"] },
+  { name: "collection_pointers", key: ["col", "creator"], ignore: [] },
+  { name: "collections", key: ["collection"], ignore: ["created_at", "status", "verified_at"] },
+  { name: "reputation_snapshots", key: ["asset", "event_type", "client_address", "feedback_index"], ignore: ["id"] },
+  { name: "feedback_activity", key: ["bucket_start", "asset", "tag1"], ignore: [] },
+  { name: "feedback_activity_clients", key: ["bucket_start", "asset", "tag1", "client_address"], ignore: [] },
+];
+
+// Caches cleared and repopulated in the background (hash-chain verifier, search indexer)
+const LOCAL_CACHE_TABLES = ["AgentDigestCache"];
+const SUPABASE_CACHE_TABLES = ["agent_digest_cache", "agent_search"];
+
+// Fetch state keyed by agent: copied aside and restored for agents that still exist
+const SUPABASE_CARRIED_TABLES = ["agent_uri_refresh"];
+
+/**
+ * Every Supabase table reprojection clears. Clearing agents requires each table
+ * referencing agents(asset) to be in this list.
+ */
+export const SUPABASE_CLEARED_TABLES = [
+  ...SUPABASE_CACHE_TABLES,
+  ...SUPABASE_CARRIED_TABLES,
+  ...SUPABASE_TABLES.map((t) => t.name),
+];
+
+// Collection fields filled by the collection metadata fetcher, not by events
+const LOCAL_COLLECTION_METADATA_COLUMNS = [
+  "version", "name", "symbol", "description", "image", "bannerImage", "socialWebsite",
+  "socialX", "socialDiscord", "metadataStatus", "metadataHash", "metadataBytes", "metadataUpdatedAt",
+];
+const SUPABASE_COLLECTION_METADATA_COLUMNS = [
+  "version", "name", "symbol", "description", "image", "banner_image", "social_website",
+  "social_x", "social_discord", "metadata_status", "metadata_hash", "metadata_bytes", "metadata_updated_at",
+];
+
+export interface ReprojectProgress {
+  processed: number;
+  total: number;
+  slot: bigint | null;
+}
+
+export interface ReprojectOptions {
+  dryRun?: boolean;
+  // Replay even if some logged events have no decodable raw payload (they are skipped)
+  allowIncomplete?: boolean;
+  batchSize?: number;
+  onProgress?: (progress: ReprojectProgress) => void;
+}
+
+export interface TableDiff {
+  table: string;
+  before: number;
+  after: number;
+  added: number;
+  removed: number;
+  changed: number;
+  samples: { added: string[]; removed: string[]; changed: string[] };
+}
+
+export interface ReprojectResult {
+  dryRun: boolean;
+  events: number;
+  skipped: number;
+  duration: number;
+  diff: TableDiff[] | null;
+}
+
+interface StoredEvent {
+  signature: string;
+  slot: bigint;
+  txIndex: number | null;
+  eventOrdinal: number;
+  blockTime: Date;
+  rawData: string | null;
+}
+
+// table -> row key -> row hash
+type TableSnapshot = Map<string, string>;
+
+class DryRunRollback extends Error {
+  constructor(readonly result: ReprojectResult) {
+    super("Dry run rollback");
+  }
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString("hex");
+  return value;
+}
+
+function rowKey(row: Record<string, unknown>, table: ProjectionTable): string {
+  return table.key.map((column) => String(normalizeValue(row[column]))).join(":");
+}
+
+function rowHash(row: Record<string, unknown>, table: ProjectionTable): string {
+  const columns = Object.keys(row).filter((c) => !table.ignore.includes(c)).sort();
+  const normalized = columns.map((c) => [c, normalizeValue(row[c])]);
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+export function diffSnapshots(table: string, before: TableSnapshot, after: TableSnapshot): TableDiff {
+  const diff: TableDiff = {
+    table,
+    before: before.size,
+    after: after.size,
+    added: 0,
+    removed: 0,
+    changed: 0,
+    samples: { added: [], removed: [], changed: [] },
+  };
+
+  const record = (kind: "added" | "removed" | "changed", key: string) => {
+    diff[kind]++;
+    if (diff.samples[kind].length < MAX_DIFF_SAMPLES) {
+      diff.samples[kind].push(key);
+    }
+  };
+
+  for (const [key, hash] of before) {
+    const next = after.get(key);
+    if (next === undefined) record("removed", key);
+    else if (next !== hash) record("changed", key);
+  }
+  for (const key of after.keys()) {
+    if (!before.has(key)) record("added", key);
+  }
+  return diff;
+}
+
+function quoted(identifier: string): string {
+  return `"${identifier}"`;
+}
+
+export class Reprojector {
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null
+  ) {}
+
+  async run(options: ReprojectOptions = {}): Promise<ReprojectResult> {
+    if (this.prisma) {
+      return this.runLocal(this.prisma, options);
+    } else if (this.pool) {
+      return this.runSupabase(this.pool, options);
+    }
+    throw new Error("Reprojector requires a Prisma client or a Supabase pool");
+  }
+
+  // ============================================================
+  // Local mode (Prisma / SQLite)
+  // ============================================================
+
+  private async runLocal(prisma: PrismaClient, options: ReprojectOptions): Promise<ReprojectResult> {
+    const replayable = { processed: true, NOT: { eventType: "PROCESSING_FAILED" } };
+    const [total, missingRaw] = await Promise.all([
+      prisma.eventLog.count({ where: { ...replayable, rawData: { not: null } } }),
+      prisma.eventLog.count({ where: { ...replayable, rawData: null } }),
+    ]);
+    this.assertComplete(missingRaw, options);
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const query = (sql: string) => tx.$queryRawUnsafe<Record<string, unknown>[]>(sql);
+        const exec = async (sql: string) => {
+          await tx.$executeRawUnsafe(sql);
+        };
+        const start = Date.now();
+
+        const before = options.dryRun ? await this.snapshotTables(query, LOCAL_TABLES) : null;
+
+        await exec(`CREATE TEMP TABLE ${quoted(URI_METADATA_TEMP)} AS SELECT * FROM "AgentMetadata" WHERE substr("key", 1, 5) = '_uri:'`);
+        await exec(`CREATE TEMP TABLE ${quoted(COLLECTION_METADATA_TEMP)} AS SELECT "col", "creator", ${LOCAL_COLLECTION_METADATA_COLUMNS.map(quoted).join(", ")} FROM "CollectionPointer"`);
+
+        for (const table of [...LOCAL_TABLES.map((t) => t.name), ...LOCAL_CACHE_TABLES]) {
+          await exec(`DELETE FROM ${quoted(table)}`);
+        }
+
+        const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+        const { events, skipped } = await this.replay(total, options, async (offset) => {
+          const rows = await tx.eventLog.findMany({
+            where: { ...replayable, rawData: { not: null } },
+            orderBy: [
+              { slot: "asc" },
+              { txIndex: { sort: "asc", nulls: "last" } },
+              { eventOrdinal: "asc" },
+              { id: "asc" },
+            ],
+            skip: offset,
+            take: batchSize,
+            select: { signature: true, slot: true, txIndex: true, eventOrdinal: true, blockTime: true, rawData: true },
+          });
+          return rows.map((r) => ({ ...r, eventOrdinal: r.eventOrdinal ?? 0 }));
+        }, (event, ctx) => reprojectEventLocal(tx, event, ctx));
+
+        await exec(`INSERT INTO "AgentMetadata" SELECT * FROM ${quoted(URI_METADATA_TEMP)} WHERE "agentId" IN (SELECT "id" FROM "Agent") ON CONFLICT DO NOTHING`);
+        await exec(`UPDATE "CollectionPointer" SET ${LOCAL_COLLECTION_METADATA_COLUMNS.map((c) => `${quoted(c)} = s.${quoted(c)}`).join(", ")}
+           FROM ${quoted(COLLECTION_METADATA_TEMP)} AS s
+           WHERE "CollectionPointer"."col" = s."col" AND "CollectionPointer"."creator" = s."creator"`);
+        await exec(`DROP TABLE ${quoted(URI_METADATA_TEMP)}`);
+        await exec(`DROP TABLE ${quoted(COLLECTION_METADATA_TEMP)}`);
+
+        const result: ReprojectResult = {
+          dryRun: !!options.dryRun,
+          events,
+          skipped,
+          duration: Date.now() - start,
+          diff: null,
+        };
+
+        if (before) {
+          const after = await this.snapshotTables(query, LOCAL_TABLES);
+          result.diff = LOCAL_TABLES.map((t) => diffSnapshots(t.name, before.get(t.name)!, after.get(t.name)!));
+          throw new DryRunRollback(result);
+        }
+        return result;
+      }, { timeout: LOCAL_TX_TIMEOUT_MS, maxWait: 10000 });
+    } catch (error) {
+      if (error instanceof DryRunRollback) {
+        return error.result;
+      }
+      throw error;
+    }
+  }
+
+  // ============================================================
+  // Supabase mode (PostgreSQL)
+  // ============================================================
+
+  private async runSupabase(pool: Pool, options: ReprojectOptions): Promise<ReprojectResult> {
+    const counts = await pool.query<{ total: string; missing_raw: string }>(
+      `SELECT COUNT(*) FILTER (WHERE raw_data IS NOT NULL)::text AS total,
+              COUNT(*) FILTER (WHERE raw_data IS NULL)::text AS missing_raw
+       FROM event_log`
+    );
+    const total = Number(counts.rows[0]?.total ?? 0);
+    this.assertComplete(Number(counts.rows[0]?.missing_raw ?? 0), options);
+
+    const client = await pool.connect();
+    let globalIdSeq: { last_value: string; is_called: boolean } | null = null;
+    try {
+      const query = async (sql: string) => (await client.query<Record<string, unknown>>(sql)).rows;
+      const start = Date.now();
+
+      await client.query("BEGIN");
+
+      const before = options.dryRun ? await this.snapshotTables(query, SUPABASE_TABLES) : null;
+
+      await client.query(`CREATE TEMP TABLE ${URI_METADATA_TEMP} ON COMMIT DROP AS SELECT * FROM metadata WHERE substr(key, 1, 5) = '_uri:'`);
+      await client.query(`CREATE TEMP TABLE ${COLLECTION_METADATA_TEMP} ON COMMIT DROP AS SELECT col, creator, ${SUPABASE_COLLECTION_METADATA_COLUMNS.join(", ")} FROM collection_pointers`);
+      for (const table of SUPABASE_CARRIED_TABLES) {
+        await client.query(`CREATE TEMP TABLE _reproject_${table} ON COMMIT DROP AS SELECT * FROM ${table}`);
+      }
+
+      // DELETE rather than TRUNCATE: no ACCESS EXCLUSIVE lock, readers are not blocked during the replay
+      for (const table of SUPABASE_CLEARED_TABLES) {
+        await client.query(`DELETE FROM ${table}`);
+      }
+
+      // Replaying in chain order re-assigns the same sequential global ids
+      const seqExists = await client.query<{ exists: boolean }>(
+        `SELECT to_regclass('agent_global_id_seq') IS NOT NULL AS exists`
+      );
+      if (seqExists.rows[0]?.exists) {
+        const seq = await client.query<{ last_value: string; is_called: boolean }>(
+          `SELECT last_value::text AS last_value, is_called FROM agent_global_id_seq`
+        );
+        globalIdSeq = seq.rows[0] ?? null;
+        await client.query(`SELECT setval('agent_global_id_seq', 1, false)`);
+      }
+
+      const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+      await client.query(
+        `DECLARE reproject_events NO SCROLL CURSOR FOR
+         SELECT tx_signature, block_slot::text AS slot, tx_index, event_ordinal, block_time, raw_data
+         FROM event_log
+         WHERE raw_data IS NOT NULL
+         ORDER BY block_slot ASC, tx_index ASC NULLS LAST, event_ordinal ASC, id ASC`
+      );
+      const { events, skipped } = await this.replay(total, options, async () => {
+        const { rows } = await client.query<{
+          tx_signature: string;
+          slot: string;
+          tx_index: number | null;
+          event_ordinal: number;
+          block_time: Date;
+          raw_data: string | null;
+        }>(`FETCH ${batchSize} FROM reproject_events`);
+        return rows.map((r) => ({
+          signature: r.tx_signature,
+          slot: BigInt(r.slot),
+          txIndex: r.tx_index,
+          eventOrdinal: r.event_ordinal,
+          blockTime: new Date(r.block_time),
+          rawData: r.raw_data,
+        }));
+      }, (event, ctx) => reprojectEventSupabase(client, event, ctx));
+      await client.query("CLOSE reproject_events");
+
+      await client.query(
+        `INSERT INTO metadata SELECT * FROM ${URI_METADATA_TEMP}
+         WHERE asset IN (SELECT asset FROM agents)
+         ON CONFLICT DO NOTHING`
+      );
+      await client.query(
+        `UPDATE collection_pointers SET ${SUPABASE_COLLECTION_METADATA_COLUMNS.map((c) => `${c} = s.${c}`).join(", ")}
+         FROM ${COLLECTION_METADATA_TEMP} AS s
+         WHERE collection_pointers.col = s.col AND collection_pointers.creator = s.creator`
+      );
+      for (const table of SUPABASE_CARRIED_TABLES) {
+        await client.query(
+          `INSERT INTO ${table} SELECT * FROM _reproject_${table}
+           WHERE asset IN (SELECT asset FROM agents)
+           ON CONFLICT DO NOTHING`
+        );
+      }
+
+      const result: ReprojectResult = {
+        dryRun: !!options.dryRun,
+        events,
+        skipped,
+        duration: Date.now() - start,
+        diff: null,
+      };
+
+      if (before) {
+        const after = await this.snapshotTables(query, SUPABASE_TABLES);
+        result.diff = SUPABASE_TABLES.map((t) => diffSnapshots(t.name, before.get(t.name)!, after.get(t.name)!));
+        await this.rollbackSupabase(client, globalIdSeq);
+        return result;
+      }
+
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await this.rollbackSupabase(client, globalIdSeq).catch((rollbackError) => {
+        logger.error({ error: rollbackError }, "Failed to roll back reprojection");
+      });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Sequences are not transactional: put agent_global_id_seq back after a rollback
+   */
+  private async rollbackSupabase(
+    client: PoolClient,
+    globalIdSeq: { last_value: string; is_called: boolean } | null
+  ): Promise<void> {
+    await client.query("ROLLBACK");
+    if (globalIdSeq) {
+      await client.query(`SELECT setval('agent_global_id_seq', $1::bigint, $2)`, [
+        globalIdSeq.last_value,
+        globalIdSeq.is_called,
+      ]);
+    }
+  }
+
+  // ============================================================
+  // Shared
+  // ============================================================
+
+  private assertComplete(missingRaw: number, options: ReprojectOptions): void {
+    if (missingRaw === 0) return;
+    if (!options.allowIncomplete) {
+      throw new Error(
+        `${missingRaw} event log entries have no raw payload (indexed before raw_data was recorded); ` +
+        "re-index from RPC or pass allowIncomplete to skip them"
+      );
+    }
+    logger.warn({ missingRaw }, "Skipping event log entries without raw payload");
+  }
+
+  /**
+   * Decode and apply events batch by batch, in the order the loader returns them
+   */
+  private async replay(
+    total: number,
+    options: ReprojectOptions,
+    loadBatch: (offset: number) => Promise<StoredEvent[]>,
+    apply: (event: ProgramEvent, ctx: EventContext) => Promise<void>
+  ): Promise<{ events: number; skipped: number }> {
+    let processed = 0;
+    let events = 0;
+    let skipped = 0;
+
+    for (;;) {
+      const batch = await loadBatch(processed);
+      if (batch.length === 0) break;
+
+      for (const stored of batch) {
+        processed++;
+        const event = stored.rawData ? decodeRawEvent(stored.rawData) : null;
+        if (!event) {
+          if (!options.allowIncomplete) {
+            throw new Error(
+              `Undecodable event log entry ${stored.signature}#${stored.eventOrdinal} at slot ${stored.slot}`
+            );
+          }
+          skipped++;
+          logger.warn({ signature: stored.signature, eventOrdinal: stored.eventOrdinal }, "Skipping undecodable event");
+          continue;
+        }
+
+        await apply(event, {
+          signature: stored.signature,
+          slot: stored.slot,
+          blockTime: stored.blockTime,
+          txIndex: stored.txIndex ?? undefined,
+          eventOrdinal: stored.eventOrdinal,
+          rawEvent: stored.rawData,
+        });
+        events++;
+      }
+
+      const slot = batch[batch.length - 1]!.slot;
+      logger.debug({ processed, total, slot: slot.toString() }, "Reprojection progress");
+      options.onProgress?.({ processed, total, slot });
+    }
+
+    return { events, skipped };
+  }
+
+  private async snapshotTables(
+    query: (sql: string) => Promise<Record<string, unknown>[]>,
+    tables: ProjectionTable[]
+  ): Promise<Map<string, TableSnapshot>> {
+    const snapshots = new Map<string, TableSnapshot>();
+    for (const table of tables) {
+      const snapshot: TableSnapshot = new Map();
+      const orderBy = table.key.map(quoted).join(", ");
+      for (let offset = 0; ; offset += SNAPSHOT_PAGE_SIZE) {
+        const rows = await query(
+          `SELECT * FROM ${quoted(table.name)} ORDER BY ${orderBy} LIMIT ${SNAPSHOT_PAGE_SIZE} OFFSET ${offset}`
+        );
+        for (const row of rows) {
+          snapshot.set(rowKey(row, table), rowHash(row, table));
+        }
+        if (rows.length < SNAPSHOT_PAGE_SIZE) break;
+      }
+      snapshots.set(table.name, snapshot);
+    }
+    return snapshots;
+  }
+}
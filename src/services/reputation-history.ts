@@ -0,0 +1,121 @@
+/**
+ * Reputation history - bucketed time series of an agent's ATOM metrics
+ *
+ * The feedback handlers store a snapshot of trust tier, quality score,
+ * confidence, risk score and diversity ratio after every NewFeedback /
+ * FeedbackRevoked that changed them. A history point is the last snapshot
+ * of its hour or day (UTC), with the number of events in that bucket.
+ * Buckets without events are omitted: the previous point still holds.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import type { Pool } from "pg";
+
+export type HistoryBucket = "hour" | "day";
+
+export const HISTORY_BUCKET_SECONDS: Record<HistoryBucket, number> = {
+  hour: 3600,
+  day: 86400,
+};
+
+const DEFAULT_BUCKETS: Record<HistoryBucket, number> = {
+  hour: 168, // 7 days
+  day: 30,
+};
+
+export const MAX_HISTORY_BUCKETS = 2000;
+
+export interface HistoryWindow {
+  from: Date; // Inclusive
+  to: Date; // Exclusive
+  bucket: HistoryBucket;
+}
+
+export interface ReputationPoint {
+  bucketStart: Date;
+  trustTier: number;
+  qualityScore: number;
+  confidence: number;
+  riskScore: number;
+  diversityRatio: number;
+  events: number;
+  slot: bigint; // Slot of the bucket's last event
+  feedbackIndex: bigint;
+}
+
+/**
+ * Resolve optional unix-second bounds into a query window. Defaults to the
+ * last 7 days (hourly) or 30 days (daily). Null when `from` is not before
+ * `to` or the window spans more than MAX_HISTORY_BUCKETS buckets.
+ */
+export function resolveHistoryWindow(bucket: HistoryBucket, from?: number, to?: number): HistoryWindow | null {
+  const bucketSeconds = HISTORY_BUCKET_SECONDS[bucket];
+  const toSec = to ?? Math.floor(Date.now() / 1000);
+  const fromSec = from ?? toSec - DEFAULT_BUCKETS[bucket] * bucketSeconds;
+  if (fromSec >= toSec || (toSec - fromSec) / bucketSeconds > MAX_HISTORY_BUCKETS) return null;
+  return { from: new Date(fromSec * 1000), to: new Date(toSec * 1000), bucket };
+}
+
+export class ReputationHistory {
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null
+  ) {}
+
+  async query(agentId: string, window: HistoryWindow): Promise<ReputationPoint[]> {
+    const bucketMs = HISTORY_BUCKET_SECONDS[window.bucket] * 1000;
+
+    if (this.prisma) {
+      const snapshots = await this.prisma.reputationSnapshot.findMany({
+        where: { agentId, blockTime: { gte: window.from, lt: window.to } },
+        orderBy: [{ slot: "asc" }, { id: "asc" }],
+      });
+
+      const points: ReputationPoint[] = [];
+      for (const s of snapshots) {
+        const bucketStart = new Date(Math.floor(s.blockTime.getTime() / bucketMs) * bucketMs);
+        const last = points[points.length - 1];
+        const events = last && last.bucketStart.getTime() === bucketStart.getTime() ? last.events + 1 : 1;
+        const point: ReputationPoint = {
+          bucketStart,
+          trustTier: s.trustTier,
+          qualityScore: s.qualityScore,
+          confidence: s.confidence,
+          riskScore: s.riskScore,
+          diversityRatio: s.diversityRatio,
+          events,
+          slot: s.slot,
+          feedbackIndex: s.feedbackIndex,
+        };
+        if (events > 1) points[points.length - 1] = point;
+        else points.push(point);
+      }
+      return points;
+    } else if (this.pool) {
+      const bucketSeconds = HISTORY_BUCKET_SECONDS[window.bucket];
+      const result = await this.pool.query(
+        `SELECT DISTINCT ON (bucket) bucket, trust_tier, quality_score, confidence, risk_score, diversity_ratio,
+                block_slot, feedback_index, COUNT(*) OVER (PARTITION BY bucket) AS events
+         FROM (
+           SELECT *, FLOOR(EXTRACT(EPOCH FROM block_time) / $4)::bigint * $4 AS bucket
+           FROM reputation_snapshots
+           WHERE asset = $1 AND block_time >= $2 AND block_time < $3
+         ) s
+         ORDER BY bucket ASC, block_slot DESC, id DESC`,
+        [agentId, window.from.toISOString(), window.to.toISOString(), bucketSeconds]
+      );
+      return result.rows.map((row) => ({
+        bucketStart: new Date(Number(row.bucket) * 1000),
+        trustTier: Number(row.trust_tier),
+        qualityScore: Number(row.quality_score),
+        confidence: Number(row.confidence),
+        riskScore: Number(row.risk_score),
+        diversityRatio: Number(row.diversity_ratio),
+        events: Number(row.events),
+        slot: BigInt(row.block_slot),
+        feedbackIndex: BigInt(row.feedback_index),
+      }));
+    }
+    return [];
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Content identifiers (CIDv0 / CIDv1) and the dag-pb + UnixFS decoding needed
+ * to check that bytes served by an IPFS gateway really belong to a CID
+ *
+ * Only sha2-256 and identity multihashes can be verified; CIDs using other
+ * hash functions still parse, but verifyBlock() returns null for them.
+ */
+
+import { createHash } from "crypto";
+import bs58 from "bs58";
+
+export const CODEC_RAW = 0x55;
+export const CODEC_DAG_PB = 0x70;
+export const CODEC_DAG_JSON = 0x0129;
+export const CODEC_JSON = 0x0200;
+export const HASH_IDENTITY = 0x00;
+export const HASH_SHA2_256 = 0x12;
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+const CIDV0_REGEX = /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/;
+
+export interface Cid {
+  version: 0 | 1;
+  codec: number;
+  hashCode: number;
+  digest: Uint8Array;
+}
+
+export type UnixFsType = "raw" | "directory" | "file" | "metadata" | "symlink" | "hamt-sharded-directory";
+
+const UNIXFS_TYPES: UnixFsType[] = ["raw", "directory", "file", "metadata", "symlink", "hamt-sharded-directory"];
+
+export interface DagPbLink {
+  cid: Cid;
+  name: string | null;
+}
+
+export interface DagPbNode {
+  links: DagPbLink[];
+  data: Uint8Array | null;
+}
+
+export interface UnixFsData {
+  type: UnixFsType;
+  data: Uint8Array | null;
+}
+
+/**
+ * Unsigned LEB128 varint (multiformats and protobuf)
+ */
+function readVarint(bytes: Uint8Array, offset: number): { value: number; offset: number } {
+  let value = 0;
+  let shift = 0;
+  while (offset < bytes.length) {
+    const byte = bytes[offset++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) {
+      if (!Number.isSafeInteger(value)) break;
+      return { value, offset };
+    }
+    shift += 7;
+    if (shift > 49) break;
+  }
+  throw new Error("Invalid varint");
+}
+
+function writeVarint(value: number): number[] {
+  const out: number[] = [];
+  while (value >= 0x80) {
+    out.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+  return out;
+}
+
+function base32Decode(text: string): Uint8Array {
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    buffer = ((buffer << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      out.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let out = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      out += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+    }
+  }
+  if (bits > 0) {
+    out += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+  return out;
+}
+
+function parseMultihash(bytes: Uint8Array, offset: number): { hashCode: number; digest: Uint8Array; offset: number } {
+  const code = readVarint(bytes, offset);
+  const length = readVarint(bytes, code.offset);
+  const end = length.offset + length.value;
+  if (end > bytes.length) throw new Error("Truncated multihash");
+  return { hashCode: code.value, digest: bytes.slice(length.offset, end), offset: end };
+}
+
+/**
+ * Decode a binary CID (as found in dag-pb links)
+ */
+export function decodeCidBytes(bytes: Uint8Array): Cid {
+  // CIDv0 is a bare sha2-256 multihash
+  if (bytes.length === 34 && bytes[0] === HASH_SHA2_256 && bytes[1] === 32) {
+    return { version: 0, codec: CODEC_DAG_PB, hashCode: HASH_SHA2_256, digest: bytes.slice(2) };
+  }
+
+  const version = readVarint(bytes, 0);
+  if (version.value !== 1) throw new Error(`Unsupported CID version ${version.value}`);
+  const codec = readVarint(bytes, version.offset);
+  const multihash = parseMultihash(bytes, codec.offset);
+  if (multihash.offset !== bytes.length) throw new Error("Trailing bytes after CID");
+  return { version: 1, codec: codec.value, hashCode: multihash.hashCode, digest: multihash.digest };
+}
+
+/**
+ * Parse a textual CID: CIDv0 (Qm...) or CIDv1 in base32 (b...), base58btc
+ * (z...) or base16 (f...). Returns null for anything else.
+ */
+export function parseCid(text: string): Cid | null {
+  try {
+    if (CIDV0_REGEX.test(text)) {
+      return decodeCidBytes(bs58.decode(text));
+    }
+    const body = text.slice(1);
+    switch (text[0]) {
+      case "b":
+        return decodeCidBytes(base32Decode(body));
+      case "B":
+        return decodeCidBytes(base32Decode(body.toLowerCase()));
+      case "z":
+        return decodeCidBytes(bs58.decode(body));
+      case "f":
+      case "F":
+        if (!/^(?:[0-9a-fA-F]{2})+$/.test(body)) return null;
+        return decodeCidBytes(Uint8Array.from(Buffer.from(body, "hex")));
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Canonical text form: base58btc for CIDv0, base32 for CIDv1
+ */
+export function formatCid(cid: Cid): string {
+  const multihash = [...writeVarint(cid.hashCode), ...writeVarint(cid.digest.length), ...cid.digest];
+  if (cid.version === 0) {
+    return bs58.encode(Uint8Array.from(multihash));
+  }
+  return `b${base32Encode(Uint8Array.from([...writeVarint(1), ...writeVarint(cid.codec), ...multihash]))}`;
+}
+
+/**
+ * Whether a block hashes to its CID; null when the hash function is not supported
+ */
+export function verifyBlock(cid: Cid, block: Uint8Array): boolean | null {
+  let digest: Uint8Array;
+  if (cid.hashCode === HASH_SHA2_256) {
+    digest = createHash("sha256").update(block).digest();
+  } else if (cid.hashCode === HASH_IDENTITY) {
+    digest = block;
+  } else {
+    return null;
+  }
+  return Buffer.from(digest).equals(Buffer.from(cid.digest));
+}
+
+/**
+ * Iterate protobuf fields; only varint (0) and length-delimited (2) wire types occur in dag-pb/UnixFS
+ */
+function* protobufFields(bytes: Uint8Array): Generator<{ field: number; value: number | Uint8Array }> {
+  let offset = 0;
+  while (offset < bytes.length) {
+    const key = readVarint(bytes, offset);
+    const field = Math.floor(key.value / 8);
+    const wireType = key.value % 8;
+    if (wireType === 0) {
+      const value = readVarint(bytes, key.offset);
+      offset = value.offset;
+      yield { field, value: value.value };
+    } else if (wireType === 2) {
+      const length = readVarint(bytes, key.offset);
+      const end = length.offset + length.value;
+      if (end > bytes.length) throw new Error("Truncated protobuf field");
+      offset = end;
+      yield { field, value: bytes.subarray(length.offset, end) };
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+/**
+ * Decode a dag-pb block (PBNode: Links = 2, Data = 1; PBLink: Hash = 1, Name = 2)
+ */
+export function decodeDagPb(block: Uint8Array): DagPbNode {
+  const node: DagPbNode = { links: [], data: null };
+  for (const { field, value } of protobufFields(block)) {
+    if (field === 1 && value instanceof Uint8Array) {
+      node.data = value;
+    } else if (field === 2 && value instanceof Uint8Array) {
+      let hash: Uint8Array | null = null;
+      let name: string | null = null;
+      for (const link of protobufFields(value)) {
+        if (link.field === 1 && link.value instanceof Uint8Array) hash = link.value;
+        if (link.field === 2 && link.value instanceof Uint8Array) name = Buffer.from(link.value).toString("utf-8");
+      }
+      if (!hash) throw new Error("dag-pb link without hash");
+      node.links.push({ cid: decodeCidBytes(hash), name });
+    }
+  }
+  return node;
+}
+
+/**
+ * Decode the UnixFS Data message carried in a dag-pb node (Type = 1, Data = 2)
+ */
+export function decodeUnixFs(data: Uint8Array): UnixFsData {
+  let type: UnixFsType | null = null;
+  let content: Uint8Array | null = null;
+  for (const { field, value } of protobufFields(data)) {
+    if (field === 1 && typeof value === "number") type = UNIXFS_TYPES[value] ?? null;
+    if (field === 2 && value instanceof Uint8Array) content = value;
+  }
+  if (!type) throw new Error("UnixFS data without a known type");
+  return { type, data: content };
+}
@@ -0,0 +1,226 @@
+/**
+ * Webhook dispatcher - background delivery of outbox rows
+ *
+ * Each cycle refreshes the subscription cache, claims due deliveries and POSTs
+ * them with an HMAC signature. Failures are retried with exponential backoff
+ * until WEBHOOK_MAX_ATTEMPTS, then marked FAILED. Delivery is at-least-once and
+ * unordered; receivers should dedupe on X-Webhook-Id and order by slot/txIndex.
+ *
+ * Commitment: FINALIZED subscriptions wait until the verifier has finalized the
+ * record the event produced. Events whose record was ORPHANED are SKIPPED.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { Pool } from "pg";
+import PQueue from "p-queue";
+import { config } from "../config.js";
+import { createChildLogger } from "../logger.js";
+import { webhookDeliveriesTotal, webhookDeliveryDurationSeconds } from "../metrics.js";
+import { signWebhookPayload, WebhookPayload } from "./outbox.js";
+import { WebhookStore, DueWebhookDelivery } from "./store.js";
+
+const logger = createChildLogger("webhook-dispatcher");
+
+const CONCURRENCY = 5;
+const BACKOFF_BASE_MS = 10_000;
+const BACKOFF_MAX_MS = 3_600_000;
+// Re-check interval for deliveries waiting on FINALIZED
+const FINALITY_RECHECK_MS = 15_000;
+const MAX_ERROR_LENGTH = 500;
+
+interface DispatcherStats {
+  delivered: number;
+  retried: number;
+  failed: number;
+  skipped: number;
+  lastRunAt: Date | null;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export function computeBackoffMs(attempts: number): number {
+  const exp = Math.max(0, attempts - 1);
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** exp);
+}
+
+export class WebhookDispatcher {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private dispatchInProgress = false; // Reentrancy guard for async dispatch cycles
+  private store: WebhookStore;
+  private stats: DispatcherStats = {
+    delivered: 0,
+    retried: 0,
+    failed: 0,
+    skipped: 0,
+    lastRunAt: null,
+  };
+
+  constructor(
+    prisma: PrismaClient | null,
+    pool: Pool | null,
+    private intervalMs = config.webhookDispatchIntervalMs,
+    store?: WebhookStore
+  ) {
+    this.store = store ?? new WebhookStore(prisma, pool);
+  }
+
+  async start(): Promise<void> {
+    this.isRunning = true;
+    logger.info({ intervalMs: this.intervalMs }, "Starting webhook dispatcher");
+
+    // Load subscriptions before the first event can be committed
+    await this.store.refreshCache().catch((err) => {
+      logger.error({ error: err.message }, "Failed to load webhook subscriptions");
+    });
+
+    this.interval = setInterval(() => {
+      this.dispatch().catch((err) => {
+        logger.error({ error: err.message }, "Webhook dispatch cycle failed");
+      });
+    }, this.intervalMs);
+  }
+
+  async stop(): Promise<void> {
+    logger.info("Stopping webhook dispatcher");
+    this.isRunning = false;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  getStats(): DispatcherStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Run one dispatch cycle. Returns the number of deliveries handled.
+   */
+  async dispatch(): Promise<number> {
+    if (!this.isRunning || this.dispatchInProgress) return 0;
+
+    this.dispatchInProgress = true;
+    try {
+      await this.store.refreshCache();
+
+      // Lease covers the worst case of every claimed request timing out
+      const leaseMs = Math.ceil(config.webhookBatchSize / CONCURRENCY) * config.webhookTimeoutMs + 30_000;
+      const due = await this.store.claimDue(config.webhookBatchSize, leaseMs);
+      if (due.length === 0) return 0;
+
+      const queue = new PQueue({ concurrency: CONCURRENCY });
+      await Promise.all(due.map((delivery) => queue.add(() => this.handle(delivery))));
+
+      this.stats.lastRunAt = new Date();
+      logger.debug({ count: due.length }, "Webhook dispatch cycle complete");
+      return due.length;
+    } finally {
+      this.dispatchInProgress = false;
+    }
+  }
+
+  private async handle(delivery: DueWebhookDelivery): Promise<void> {
+    try {
+      if (!(await this.checkCommitment(delivery))) return;
+      await this.send(delivery);
+    } catch (error: any) {
+      // DB error: the lease expires and the delivery is picked up again
+      logger.error({ deliveryId: delivery.id, error: error.message }, "Failed to process webhook delivery");
+    }
+  }
+
+  /**
+   * Returns true when the delivery may be sent now
+   */
+  private async checkCommitment(delivery: DueWebhookDelivery): Promise<boolean> {
+    const payload = JSON.parse(delivery.payload) as WebhookPayload;
+    const status = await this.store.getEntityStatus(payload);
+
+    if (status === "ORPHANED") {
+      await this.store.markSkipped(delivery.id, "Event orphaned by chain reorganization");
+      this.recordOutcome("SKIPPED");
+      return false;
+    }
+
+    if (delivery.minStatus === "FINALIZED" && status !== "FINALIZED") {
+      if (Date.now() - delivery.createdAt.getTime() > config.webhookFinalityTimeoutMs) {
+        await this.store.markSkipped(delivery.id, `Not finalized within ${config.webhookFinalityTimeoutMs}ms`);
+        this.recordOutcome("SKIPPED");
+      } else {
+        await this.store.defer(delivery.id, new Date(Date.now() + FINALITY_RECHECK_MS));
+      }
+      return false;
+    }
+
+    return true;
+  }
+
+  private async send(delivery: DueWebhookDelivery): Promise<void> {
+    const attempt = delivery.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), config.webhookTimeoutMs);
+    const startTime = Date.now();
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "8004-solana-indexer-webhooks",
+          "X-Webhook-Id": delivery.eventId,
+          "X-Webhook-Delivery": delivery.id,
+          "X-Webhook-Event": delivery.eventType,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": signWebhookPayload(delivery.secret, timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        signal: controller.signal,
+        redirect: "manual",
+      });
+      statusCode = response.status;
+      await response.body?.cancel().catch(() => {});
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (err: any) {
+      error = err.name === "AbortError"
+        ? `Timeout after ${config.webhookTimeoutMs}ms`
+        : String(err.message ?? err).slice(0, MAX_ERROR_LENGTH);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const durationMs = Date.now() - startTime;
+    webhookDeliveryDurationSeconds.observe(durationMs / 1000);
+    await this.store.recordAttempt(delivery.id, attempt, statusCode, error, durationMs);
+
+    const outcome = { attempts: attempt, statusCode, error };
+    if (!error) {
+      await this.store.markDelivered(delivery.id, outcome);
+      this.recordOutcome("DELIVERED");
+    } else if (attempt >= config.webhookMaxAttempts) {
+      await this.store.markFailed(delivery.id, outcome);
+      this.recordOutcome("FAILED");
+      logger.warn({ deliveryId: delivery.id, url: delivery.url, attempts: attempt, error }, "Webhook delivery failed");
+    } else {
+      await this.store.markRetry(delivery.id, outcome, new Date(Date.now() + computeBackoffMs(attempt)));
+      this.recordOutcome("RETRY");
+      logger.debug({ deliveryId: delivery.id, attempts: attempt, error }, "Webhook delivery will be retried");
+    }
+  }
+
+  private recordOutcome(status: "DELIVERED" | "RETRY" | "FAILED" | "SKIPPED"): void {
+    webhookDeliveriesTotal.inc({ status });
+    switch (status) {
+      case "DELIVERED": this.stats.delivered++; break;
+      case "RETRY": this.stats.retried++; break;
+      case "FAILED": this.stats.failed++; break;
+      case "SKIPPED": this.stats.skipped++; break;
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./outbox.js";
+export * from "./store.js";
+export * from "./dispatcher.js";
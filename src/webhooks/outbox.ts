@@ -0,0 +1,252 @@
+/**
+ * Webhook outbox - transactional enqueue of webhook deliveries
+ *
+ * Committed events are matched against active subscriptions and one delivery
+ * row per (subscription, event) is written inside the same DB transaction as
+ * the event itself, so a delivery exists iff the event was committed.
+ * Delivery (HTTP, retries, commitment gating) is done by WebhookDispatcher.
+ */
+
+import { createHash, createHmac, randomUUID } from "crypto";
+import { PublicKey } from "@solana/web3.js";
+import type { PoolClient } from "pg";
+import type { Prisma } from "@prisma/client";
+import { createChildLogger } from "../logger.js";
+
+const logger = createChildLogger("webhook-outbox");
+
+export type WebhookMinStatus = "PENDING" | "FINALIZED";
+export type WebhookDeliveryStatus = "PENDING" | "DELIVERED" | "FAILED" | "SKIPPED";
+
+export const WEBHOOK_MIN_STATUSES: WebhookMinStatus[] = ["PENDING", "FINALIZED"];
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ["PENDING", "DELIVERED", "FAILED", "SKIPPED"];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  eventTypes: string[]; // empty = all event types
+  asset: string | null;
+  collection: string | null;
+  client: string | null;
+  minStatus: WebhookMinStatus;
+  active: boolean;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookEventInput {
+  type: string;
+  data: object;
+}
+
+export interface WebhookEventContext {
+  signature: string;
+  slot: bigint;
+  blockTime: Date;
+  txIndex?: number;
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: string;
+  asset: string | null;
+  client: string | null;
+  slot: string;
+  txSignature: string;
+  txIndex: number | null;
+  blockTime: string;
+  data: Record<string, unknown>;
+}
+
+interface AgentCollections {
+  collection: string | null;
+  collectionPointer: string | null;
+}
+
+/**
+ * Convert decoded event data to JSON-safe values
+ * PublicKey -> base58, bigint -> decimal string, bytes -> hex
+ */
+export function toJsonSafe(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof PublicKey) return value.toBase58();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString("hex");
+  if (Array.isArray(value)) return value.map(toJsonSafe);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      out[key] = toJsonSafe(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+export function buildWebhookPayload(event: WebhookEventInput, ctx: WebhookEventContext): WebhookPayload {
+  const data = toJsonSafe(event.data) as Record<string, unknown>;
+  const asset = (data.asset ?? (event.type === "RegistryInitialized" ? data.collection : null)) as string | null;
+  const client = (data.clientAddress ?? data.client ?? null) as string | null;
+
+  // Deterministic id: re-indexing the same transaction yields the same event id
+  const id = createHash("sha256")
+    .update(`${ctx.signature}:${event.type}:${JSON.stringify(data)}`)
+    .digest("hex")
+    .slice(0, 32);
+
+  return {
+    id,
+    type: event.type,
+    asset,
+    client,
+    slot: ctx.slot.toString(),
+    txSignature: ctx.signature,
+    txIndex: ctx.txIndex ?? null,
+    blockTime: ctx.blockTime.toISOString(),
+    data,
+  };
+}
+
+/**
+ * Signature header value: HMAC-SHA256 over "<timestamp>.<body>"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * In-memory view of active subscriptions, refreshed by the dispatcher and after
+ * admin API changes. Empty by default, which keeps enqueue a no-op when unused.
+ */
+class WebhookSubscriptionCache {
+  private subscriptions: WebhookSubscription[] = [];
+
+  set(subscriptions: WebhookSubscription[]): void {
+    this.subscriptions = subscriptions.filter((s) => s.active);
+  }
+
+  list(): WebhookSubscription[] {
+    return this.subscriptions;
+  }
+
+  get size(): number {
+    return this.subscriptions.length;
+  }
+}
+
+export const webhookSubscriptions = new WebhookSubscriptionCache();
+
+function matchesBaseFilters(sub: WebhookSubscription, payload: WebhookPayload): boolean {
+  if (sub.eventTypes.length > 0 && !sub.eventTypes.includes(payload.type)) return false;
+  if (sub.asset && sub.asset !== payload.asset) return false;
+  if (sub.client && sub.client !== payload.client) return false;
+  return true;
+}
+
+function matchesCollection(sub: WebhookSubscription, payload: WebhookPayload, agent: AgentCollections | null): boolean {
+  if (!sub.collection) return true;
+  if (payload.type === "AgentRegistered" && payload.data.collection === sub.collection) return true;
+  if (payload.type === "CollectionPointerSet" && payload.data.col === sub.collection) return true;
+  if (!agent) return false;
+  return agent.collection === sub.collection || agent.collectionPointer === sub.collection;
+}
+
+/**
+ * Subscriptions matching an event. Collection lookup is only performed when a
+ * candidate subscription filters on collection.
+ */
+export async function matchSubscriptions(
+  payload: WebhookPayload,
+  loadAgent: (asset: string) => Promise<AgentCollections | null>
+): Promise<WebhookSubscription[]> {
+  const candidates = webhookSubscriptions.list().filter((s) => matchesBaseFilters(s, payload));
+  if (candidates.length === 0) return [];
+
+  let agent: AgentCollections | null = null;
+  if (payload.asset && candidates.some((s) => s.collection)) {
+    agent = await loadAgent(payload.asset);
+  }
+  return candidates.filter((s) => matchesCollection(s, payload, agent));
+}
+
+/**
+ * Enqueue deliveries inside a Prisma transaction (local mode)
+ */
+export async function enqueueWebhookDeliveriesPrisma(
+  tx: Prisma.TransactionClient,
+  event: WebhookEventInput,
+  ctx: WebhookEventContext
+): Promise<number> {
+  if (webhookSubscriptions.size === 0) return 0;
+
+  const payload = buildWebhookPayload(event, ctx);
+  const matched = await matchSubscriptions(payload, async (asset) => {
+    const agent = await tx.agent.findUnique({
+      where: { id: asset },
+      select: { collection: true, collectionPointer: true },
+    });
+    return agent ? { collection: agent.collection, collectionPointer: agent.collectionPointer || null } : null;
+  });
+
+  const body = JSON.stringify(payload);
+  for (const sub of matched) {
+    await tx.webhookDelivery.upsert({
+      where: { subscriptionId_eventId: { subscriptionId: sub.id, eventId: payload.id } },
+      create: {
+        id: randomUUID(),
+        subscriptionId: sub.id,
+        eventId: payload.id,
+        eventType: payload.type,
+        asset: payload.asset,
+        txSignature: payload.txSignature,
+        slot: ctx.slot,
+        payload: body,
+      },
+      update: {},
+    });
+  }
+
+  if (matched.length > 0) {
+    logger.debug({ eventType: payload.type, eventId: payload.id, count: matched.length }, "Webhook deliveries enqueued");
+  }
+  return matched.length;
+}
+
+/**
+ * Enqueue deliveries inside a pg transaction (supabase mode)
+ */
+export async function enqueueWebhookDeliveriesPg(
+  client: PoolClient,
+  event: WebhookEventInput,
+  ctx: WebhookEventContext
+): Promise<number> {
+  if (webhookSubscriptions.size === 0) return 0;
+
+  const payload = buildWebhookPayload(event, ctx);
+  const matched = await matchSubscriptions(payload, async (asset) => {
+    const result = await client.query(
+      `SELECT collection, canonical_col FROM agents WHERE asset = $1`,
+      [asset]
+    );
+    const row = result.rows[0];
+    return row ? { collection: row.collection ?? null, collectionPointer: row.canonical_col || null } : null;
+  });
+
+  const body = JSON.stringify(payload);
+  for (const sub of matched) {
+    await client.query(
+      `INSERT INTO webhook_deliveries (id, subscription_id, event_id, event_type, asset, tx_signature, slot, payload)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (subscription_id, event_id) DO NOTHING`,
+      [randomUUID(), sub.id, payload.id, payload.type, payload.asset, payload.txSignature, ctx.slot.toString(), body]
+    );
+  }
+
+  if (matched.length > 0) {
+    logger.debug({ eventType: payload.type, eventId: payload.id, count: matched.length }, "Webhook deliveries enqueued");
+  }
+  return matched.length;
+}
@@ -0,0 +1,626 @@
+/**
+ * Webhook persistence - subscriptions, outbox rows and delivery log
+ *
+ * Dual backend like the rest of the indexer: Prisma (local SQLite) or pg Pool (Supabase).
+ */
+
+import { randomBytes, randomUUID } from "crypto";
+import { PrismaClient } from "@prisma/client";
+import { Pool } from "pg";
+import {
+  webhookSubscriptions,
+  WebhookSubscription,
+  WebhookMinStatus,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+} from "./outbox.js";
+
+export type EntityStatus = "PENDING" | "FINALIZED" | "ORPHANED";
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  secret?: string;
+  eventTypes?: string[];
+  asset?: string | null;
+  collection?: string | null;
+  client?: string | null;
+  minStatus?: WebhookMinStatus;
+  description?: string | null;
+}
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  asset: string | null;
+  txSignature: string;
+  slot: string;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+}
+
+/**
+ * Claimed delivery joined with the target subscription
+ */
+export interface DueWebhookDelivery extends WebhookDeliveryRecord {
+  url: string;
+  secret: string;
+  minStatus: WebhookMinStatus;
+}
+
+export interface WebhookDeliveryAttemptRecord {
+  id: number;
+  deliveryId: string;
+  attempt: number;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+  createdAt: Date;
+}
+
+export interface DeliveryOutcome {
+  attempts: number;
+  statusCode: number | null;
+  error: string | null;
+}
+
+export function generateWebhookSecret(): string {
+  return "whsec_" + randomBytes(24).toString("hex");
+}
+
+function mapSubscriptionRow(row: any): WebhookSubscription {
+  return {
+    id: row.id,
+    url: row.url,
+    secret: row.secret,
+    eventTypes: row.event_types ?? [],
+    asset: row.asset ?? null,
+    collection: row.collection ?? null,
+    client: row.client_address ?? null,
+    minStatus: row.min_status,
+    active: row.active,
+    description: row.description ?? null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function mapSubscriptionModel(row: {
+  id: string;
+  url: string;
+  secret: string;
+  eventTypes: string;
+  asset: string | null;
+  collection: string | null;
+  client: string | null;
+  minStatus: string;
+  active: boolean;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}): WebhookSubscription {
+  return {
+    ...row,
+    eventTypes: row.eventTypes ? row.eventTypes.split(",") : [],
+    minStatus: row.minStatus as WebhookMinStatus,
+  };
+}
+
+function mapDeliveryRow(row: any): WebhookDeliveryRecord {
+  return {
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    asset: row.asset ?? null,
+    txSignature: row.tx_signature,
+    slot: String(row.slot),
+    payload: typeof row.payload === "string" ? row.payload : JSON.stringify(row.payload),
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: new Date(row.next_attempt_at),
+    lastStatusCode: row.last_status_code ?? null,
+    lastError: row.last_error ?? null,
+    createdAt: new Date(row.created_at),
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at) : null,
+  };
+}
+
+function mapDeliveryModel(row: {
+  slot: bigint;
+  status: string;
+  [key: string]: any;
+}): WebhookDeliveryRecord {
+  return {
+    id: row.id,
+    subscriptionId: row.subscriptionId,
+    eventId: row.eventId,
+    eventType: row.eventType,
+    asset: row.asset,
+    txSignature: row.txSignature,
+    slot: row.slot.toString(),
+    payload: row.payload,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.nextAttemptAt,
+    lastStatusCode: row.lastStatusCode,
+    lastError: row.lastError,
+    createdAt: row.createdAt,
+    deliveredAt: row.deliveredAt,
+  };
+}
+
+export class WebhookStore {
+  constructor(
+    private prisma: PrismaClient | null,
+    private pool: Pool | null
+  ) {}
+
+  // ============================================
+  // Subscriptions
+  // ============================================
+
+  async createSubscription(input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const id = randomUUID();
+    const secret = input.secret || generateWebhookSecret();
+    const eventTypes = input.eventTypes ?? [];
+    const minStatus = input.minStatus ?? "PENDING";
+
+    if (this.prisma) {
+      const row = await this.prisma.webhookSubscription.create({
+        data: {
+          id,
+          url: input.url,
+          secret,
+          eventTypes: eventTypes.join(","),
+          asset: input.asset ?? null,
+          collection: input.collection ?? null,
+          client: input.client ?? null,
+          minStatus,
+          description: input.description ?? null,
+        },
+      });
+      return mapSubscriptionModel(row);
+    }
+    if (this.pool) {
+      const result = await this.pool.query(
+        `INSERT INTO webhook_subscriptions (id, url, secret, event_types, asset, collection, client_address, min_status, description)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [id, input.url, secret, eventTypes, input.asset ?? null, input.collection ?? null,
+          input.client ?? null, minStatus, input.description ?? null]
+      );
+      return mapSubscriptionRow(result.rows[0]);
+    }
+    throw new Error("No database configured");
+  }
+
+  async listSubscriptions(activeOnly = false): Promise<WebhookSubscription[]> {
+    if (this.prisma) {
+      const rows = await this.prisma.webhookSubscription.findMany({
+        where: activeOnly ? { active: true } : undefined,
+        orderBy: { createdAt: "asc" },
+      });
+      return rows.map(mapSubscriptionModel);
+    }
+    if (this.pool) {
+      const result = await this.pool.query(
+        `SELECT * FROM webhook_subscriptions ${activeOnly ? "WHERE active = TRUE" : ""} ORDER BY created_at ASC`
+      );
+      return result.rows.map(mapSubscriptionRow);
+    }
+    return [];
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscription | null> {
+    if (this.prisma) {
+      const row = await this.prisma.webhookSubscription.findUnique({ where: { id } });
+      return row ? mapSubscriptionModel(row) : null;
+    }
+    if (this.pool) {
+      const result = await this.pool.query(`SELECT * FROM webhook_subscriptions WHERE id = $1`, [id]);
+      return result.rows[0] ? mapSubscriptionRow(result.rows[0]) : null;
+    }
+    return null;
+  }
+
+  async setSubscriptionActive(id: string, active: boolean): Promise<boolean> {
+    if (this.prisma) {
+      const result = await this.prisma.webhookSubscription.updateMany({ where: { id }, data: { active } });
+      return result.count > 0;
+    }
+    if (this.pool) {
+      const result = await this.pool.query(
+        `UPDATE webhook_subscriptions SET active = $2, updated_at = NOW() WHERE id = $1`,
+        [id, active]
+      );
+      return (result.rowCount ?? 0) > 0;
+    }
+    return false;
+  }
+
+  /**
+   * Delete a subscription with its outbox rows and delivery log (cascade)
+   */
+  async deleteSubscription(id: string): Promise<boolean> {
+    if (this.prisma) {
+      const result = await this.prisma.webhookSubscription.deleteMany({ where: { id } });
+      return result.count > 0;
+    }
+    if (this.pool) {
+      const result = await this.pool.query(`DELETE FROM webhook_subscriptions WHERE id = $1`, [id]);
+      return (result.rowCount ?? 0) > 0;
+    }
+    return false;
+  }
+
+  /**
+   * Reload active subscriptions into the in-process cache used by enqueue
+   */
+  async refreshCache(): Promise<number> {
+    const subscriptions = await this.listSubscriptions(true);
+    webhookSubscriptions.set(subscriptions);
+    return subscriptions.length;
+  }
+
+  // ============================================
+  // Deliveries
+  // ============================================
+
+  /**
+   * Claim due PENDING deliveries by pushing next_attempt_at forward by leaseMs,
+   * so a crashed or concurrent dispatcher does not send the same row twice
+   * before the lease expires.
+   */
+  async claimDue(limit: number, leaseMs: number): Promise<DueWebhookDelivery[]> {
+    if (this.prisma) {
+      const now = new Date();
+      const rows = await this.prisma.webhookDelivery.findMany({
+        where: { status: "PENDING", nextAttemptAt: { lte: now }, subscription: { active: true } },
+        include: { subscription: { select: { url: true, secret: true, minStatus: true } } },
+        orderBy: [{ nextAttemptAt: "asc" }, { createdAt: "asc" }],
+        take: limit,
+      });
+      if (rows.length === 0) return [];
+
+      await this.prisma.webhookDelivery.updateMany({
+        where: { id: { in: rows.map((r) => r.id) }, status: "PENDING" },
+        data: { nextAttemptAt: new Date(now.getTime() + leaseMs) },
+      });
+      return rows.map((row) => ({
+        ...mapDeliveryModel(row),
+        url: row.subscription.url,
+        secret: row.subscription.secret,
+        minStatus: row.subscription.minStatus as WebhookMinStatus,
+      }));
+    }
+    if (this.pool) {
+      const result = await this.pool.query(
+        `UPDATE webhook_deliveries d
+         SET next_attempt_at = NOW() + ($2::int * INTERVAL '1 millisecond')
+         FROM webhook_subscriptions s
+         WHERE s.id = d.subscription_id
+           AND d.id IN (
+             SELECT d2.id FROM webhook_deliveries d2
+             JOIN webhook_subscriptions s2 ON s2.id = d2.subscription_id
+             WHERE d2.status = 'PENDING' AND d2.next_attempt_at <= NOW() AND s2.active = TRUE
+             ORDER BY d2.next_attempt_at ASC, d2.created_at ASC
+             LIMIT $1
+             FOR UPDATE OF d2 SKIP LOCKED
+           )
+         RETURNING d.*, s.url, s.secret, s.min_status`,
+        [limit, leaseMs]
+      );
+      return result.rows.map((row: any) => ({
+        ...mapDeliveryRow(row),
+        url: row.url,
+        secret: row.secret,
+        minStatus: row.min_status,
+      }));
+    }
+    return [];
+  }
+
+  async recordAttempt(
+    deliveryId: string,
+    attempt: number,
+    statusCode: number | null,
+    error: string | null,
+    durationMs: number
+  ): Promise<void> {
+    if (this.prisma) {
+      await this.prisma.webhookDeliveryAttempt.create({
+        data: { deliveryId, attempt, statusCode, error, durationMs },
+      });
+    } else if (this.pool) {
+      await this.pool.query(
+        `INSERT INTO webhook_delivery_attempts (delivery_id, attempt, status_code, error, duration_ms)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [deliveryId, attempt, statusCode, error, durationMs]
+      );
+    }
+  }
+
+  async markDelivered(id: string, outcome: DeliveryOutcome): Promise<void> {
+    await this.updateDelivery(id, "DELIVERED", outcome, new Date(), new Date());
+  }
+
+  async markRetry(id: string, outcome: DeliveryOutcome, nextAttemptAt: Date): Promise<void> {
+    await this.updateDelivery(id, "PENDING", outcome, nextAttemptAt, null);
+  }
+
+  async markFailed(id: string, outcome: DeliveryOutcome): Promise<void> {
+    await this.updateDelivery(id, "FAILED", outcome, new Date(), null);
+  }
+
+  async markSkipped(id: string, reason: string): Promise<void> {
+    if (this.prisma) {
+      await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: { status: "SKIPPED", lastError: reason },
+      });
+    } else if (this.pool) {
+      await this.pool.query(
+        `UPDATE webhook_deliveries SET status = 'SKIPPED', last_error = $2 WHERE id = $1`,
+        [id, reason]
+      );
+    }
+  }
+
+  /**
+   * Reschedule without counting an attempt (waiting for commitment)
+   */
+  async defer(id: string, nextAttemptAt: Date): Promise<void> {
+    if (this.prisma) {
+      await this.prisma.webhookDelivery.update({ where: { id }, data: { nextAttemptAt } });
+    } else if (this.pool) {
+      await this.pool.query(
+        `UPDATE webhook_deliveries SET next_attempt_at = $2 WHERE id = $1`,
+        [id, nextAttemptAt.toISOString()]
+      );
+    }
+  }
+
+  /**
+   * Re-queue a FAILED or SKIPPED delivery for immediate dispatch with a fresh attempt budget
+   */
+  async retryDelivery(id: string): Promise<boolean> {
+    if (this.prisma) {
+      const result = await this.prisma.webhookDelivery.updateMany({
+        where: { id, status: { in: ["FAILED", "SKIPPED"] } },
+        data: { status: "PENDING", attempts: 0, nextAttemptAt: new Date() },
+      });
+      return result.count > 0;
+    }
+    if (this.pool) {
+      const result = await this.pool.query(
+        `UPDATE webhook_deliveries SET status = 'PENDING', attempts = 0, next_attempt_at = NOW()
+         WHERE id = $1 AND status IN ('FAILED', 'SKIPPED')`,
+        [id]
+      );
+      return (result.rowCount ?? 0) > 0;
+    }
+    return false;
+  }
+
+  async getDelivery(id: string): Promise<WebhookDeliveryRecord | null> {
+    if (this.prisma) {
+      const row = await this.prisma.webhookDelivery.findUnique({ where: { id } });
+      return row ? mapDeliveryModel(row) : null;
+    }
+    if (this.pool) {
+      const result = await this.pool.query(`SELECT * FROM webhook_deliveries WHERE id = $1`, [id]);
+      return result.rows[0] ? mapDeliveryRow(result.rows[0]) : null;
+    }
+    return null;
+  }
+
+  async listDeliveries(
+    subscriptionId: string,
+    options: { status?: WebhookDeliveryStatus; limit: number; offset: number }
+  ): Promise<WebhookDeliveryRecord[]> {
+    if (this.prisma) {
+      const rows = await this.prisma.webhookDelivery.findMany({
+        where: { subscriptionId, ...(options.status ? { status: options.status } : {}) },
+        orderBy: { createdAt: "desc" },
+        take: options.limit,
+        skip: options.offset,
+      });
+      return rows.map(mapDeliveryModel);
+    }
+    if (this.pool) {
+      const params: unknown[] = [subscriptionId, options.limit, options.offset];
+      let statusClause = "";
+      if (options.status) {
+        params.push(options.status);
+        statusClause = `AND status = $4`;
+      }
+      const result = await this.pool.query(
+        `SELECT * FROM webhook_deliveries WHERE subscription_id = $1 ${statusClause}
+         ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+        params
+      );
+      return result.rows.map(mapDeliveryRow);
+    }
+    return [];
+  }
+
+  async listAttempts(deliveryId: string): Promise<WebhookDeliveryAttemptRecord[]> {
+    if (this.prisma) {
+      return this.prisma.webhookDeliveryAttempt.findMany({
+        where: { deliveryId },
+        orderBy: { id: "asc" },
+      });
+    }
+    if (this.pool) {
+      const result = await this.pool.query(
+        `SELECT * FROM webhook_delivery_attempts WHERE delivery_id = $1 ORDER BY id ASC`,
+        [deliveryId]
+      );
+      return result.rows.map((row: any) => ({
+        id: Number(row.id),
+        deliveryId: row.delivery_id,
+        attempt: row.attempt,
+        statusCode: row.status_code ?? null,
+        error: row.error ?? null,
+        durationMs: row.duration_ms,
+        createdAt: new Date(row.created_at),
+      }));
+    }
+    return [];
+  }
+
+  // ============================================
+  // Commitment lookup
+  // ============================================
+
+  /**
+   * Verification status of the record an event produced, or null if it is not
+   * (or no longer) indexed. Event types without a status-tracked record resolve
+   * to the agent's status.
+   */
+  async getEntityStatus(payload: WebhookPayload): Promise<EntityStatus | null> {
+    const d = payload.data;
+    const asset = payload.asset;
+    if (!asset) return null;
+
+    if (this.prisma) {
+      switch (payload.type) {
+        case "NewFeedback": {
+          const row = await this.prisma.feedback.findUnique({
+            where: { agentId_client_feedbackIndex: {
+              agentId: asset, client: String(d.clientAddress), feedbackIndex: BigInt(String(d.feedbackIndex)),
+            } },
+            select: { status: true },
+          });
+          return (row?.status as EntityStatus) ?? null;
+        }
+        case "FeedbackRevoked": {
+          const row = await this.prisma.revocation.findUnique({
+            where: { agentId_client_feedbackIndex: {
+              agentId: asset, client: String(d.clientAddress), feedbackIndex: BigInt(String(d.feedbackIndex)),
+            } },
+            select: { status: true },
+          });
+          return (row?.status as EntityStatus) ?? null;
+        }
+        case "ResponseAppended": {
+          const row = await this.prisma.feedbackResponse.findFirst({
+            where: {
+              txSignature: payload.txSignature,
+              responder: String(d.responder),
+              feedback: { agentId: asset, client: String(d.client), feedbackIndex: BigInt(String(d.feedbackIndex)) },
+            },
+            select: { status: true },
+          });
+          return (row?.status as EntityStatus) ?? null;
+        }
+        case "ValidationRequested":
+        case "ValidationResponded": {
+          const row = await this.prisma.validation.findUnique({
+            where: { agentId_validator_nonce: {
+              agentId: asset, validator: String(d.validatorAddress), nonce: BigInt(String(d.nonce)),
+            } },
+            select: { chainStatus: true },
+          });
+          return (row?.chainStatus as EntityStatus) ?? null;
+        }
+        case "MetadataSet": {
+          const row = await this.prisma.agentMetadata.findUnique({
+            where: { agentId_key: { agentId: asset, key: String(d.key) } },
+            select: { status: true },
+          });
+          return (row?.status as EntityStatus) ?? null;
+        }
+        case "RegistryInitialized": {
+          const row = await this.prisma.registry.findUnique({
+            where: { collection: asset },
+            select: { status: true },
+          });
+          return (row?.status as EntityStatus) ?? null;
+        }
+        default: {
+          const row = await this.prisma.agent.findUnique({ where: { id: asset }, select: { status: true } });
+          return (row?.status as EntityStatus) ?? null;
+        }
+      }
+    }
+
+    if (this.pool) {
+      let sql: string;
+      let params: unknown[];
+      switch (payload.type) {
+        case "NewFeedback":
+          sql = `SELECT status FROM feedbacks WHERE asset = $1 AND client_address = $2 AND feedback_index = $3`;
+          params = [asset, d.clientAddress, d.feedbackIndex];
+          break;
+        case "FeedbackRevoked":
+          sql = `SELECT status FROM revocations WHERE asset = $1 AND client_address = $2 AND feedback_index = $3`;
+          params = [asset, d.clientAddress, d.feedbackIndex];
+          break;
+        case "ResponseAppended":
+          sql = `SELECT status FROM feedback_responses
+                 WHERE asset = $1 AND client_address = $2 AND feedback_index = $3 AND responder = $4 AND tx_signature = $5`;
+          params = [asset, d.client, d.feedbackIndex, d.responder, payload.txSignature];
+          break;
+        case "ValidationRequested":
+        case "ValidationResponded":
+          sql = `SELECT chain_status AS status FROM validations WHERE asset = $1 AND validator_address = $2 AND nonce = $3`;
+          params = [asset, d.validatorAddress, d.nonce];
+          break;
+        case "MetadataSet":
+          sql = `SELECT status FROM metadata WHERE asset = $1 AND key = $2`;
+          params = [asset, d.key];
+          break;
+        case "RegistryInitialized":
+          sql = `SELECT status FROM collections WHERE collection = $1`;
+          params = [asset];
+          break;
+        default:
+          sql = `SELECT status FROM agents WHERE asset = $1`;
+          params = [asset];
+      }
+      const result = await this.pool.query(sql, params);
+      return (result.rows[0]?.status as EntityStatus) ?? null;
+    }
+
+    return null;
+  }
+
+  private async updateDelivery(
+    id: string,
+    status: WebhookDeliveryStatus,
+    outcome: DeliveryOutcome,
+    nextAttemptAt: Date,
+    deliveredAt: Date | null
+  ): Promise<void> {
+    if (this.prisma) {
+      await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: {
+          status,
+          attempts: outcome.attempts,
+          lastStatusCode: outcome.statusCode,
+          lastError: outcome.error,
+          nextAttemptAt,
+          deliveredAt,
+        },
+      });
+    } else if (this.pool) {
+      await this.pool.query(
+        `UPDATE webhook_deliveries
+         SET status = $2, attempts = $3, last_status_code = $4, last_error = $5, next_attempt_at = $6, delivered_at = $7
+         WHERE id = $1`,
+        [id, status, outcome.attempts, outcome.statusCode, outcome.error, nextAttemptAt.toISOString(),
+          deliveredAt ? deliveredAt.toISOString() : null]
+      );
+    }
+  }
+}
@@ -0,0 +1,30 @@
+-- =============================================
+-- 8004 Agent Registry - Anomaly flags
+-- Migration: 2026-10-19
+-- =============================================
+-- Suspicious feedback patterns per agent, maintained by the background
+-- anomaly analyzer (ANOMALY_DETECTION_ENABLED=true). A row exists while the
+-- pattern holds in the analysis window. Backs /rest/v1/anomalies and
+-- Agent.solana.anomalies.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS agent_anomalies (
+  asset TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('client_concentration', 'client_cohort', 'revoke_churn', 'value_outlier')),
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  score DOUBLE PRECISION NOT NULL,
+  evidence JSONB NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (asset, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_anomalies_kind ON agent_anomalies(kind, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_anomalies_updated ON agent_anomalies(updated_at DESC);
+
+-- Analyzer window scans
+CREATE INDEX IF NOT EXISTS idx_revocations_created ON revocations(created_at);
+
+ALTER TABLE agent_anomalies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read agent_anomalies" ON agent_anomalies FOR SELECT USING (true);
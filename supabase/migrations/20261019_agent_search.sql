@@ -0,0 +1,31 @@
+-- =============================================
+-- 8004 Agent Registry - Agent full-text search
+-- Migration: 2026-10-19
+-- =============================================
+-- One search document per agent with metadata, rebuilt by the background
+-- search indexer (SEARCH_INDEX_ENABLED) whenever the agent's metadata rows
+-- change: registration file name, description, MCP tools, OASF/A2A skills,
+-- OASF domains and on-chain metadata values. Backs GraphQL searchAgents.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS agent_search (
+  asset TEXT PRIMARY KEY REFERENCES agents(asset) ON DELETE CASCADE,
+  name TEXT,
+  description TEXT,
+  tools TEXT[] NOT NULL DEFAULT '{}',
+  skills TEXT[] NOT NULL DEFAULT '{}',
+  domains TEXT[] NOT NULL DEFAULT '{}',
+  metadata_text TEXT NOT NULL DEFAULT '',
+  document TSVECTOR NOT NULL,
+  source_count INTEGER NOT NULL,
+  source_updated_at TIMESTAMPTZ,
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_search_document ON agent_search USING GIN (document);
+CREATE INDEX IF NOT EXISTS idx_agent_search_skills ON agent_search USING GIN (skills);
+CREATE INDEX IF NOT EXISTS idx_agent_search_domains ON agent_search USING GIN (domains);
+
+ALTER TABLE agent_search ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read agent_search" ON agent_search FOR SELECT USING (true);
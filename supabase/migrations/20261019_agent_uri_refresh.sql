@@ -0,0 +1,30 @@
+-- =============================================
+-- 8004 Agent Registry - Registration file refresh
+-- Migration: 2026-10-19
+-- =============================================
+-- One row per agent describing the last fetch of its registration file:
+-- HTTP validators (ETag / Last-Modified) for conditional re-fetches, the
+-- sha-256 of the last good body, and when it was checked, fetched and last
+-- changed. Written by the metadata queue; the refresh scheduler
+-- (METADATA_REFRESH_ENABLED) re-fetches HTTP(S) URIs whose last_checked_at is
+-- older than METADATA_REFRESH_INTERVAL_MS. Backs
+-- AgentRegistrationFile.lastFetchedAt / lastChangedAt in GraphQL.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS agent_uri_refresh (
+  asset TEXT PRIMARY KEY REFERENCES agents(asset) ON DELETE CASCADE,
+  uri TEXT NOT NULL,  -- agent_uri the row describes
+  etag TEXT,
+  last_modified TEXT,  -- Last-Modified header, sent back verbatim as If-Modified-Since
+  content_hash TEXT,  -- sha-256 of the last good body
+  last_status TEXT NOT NULL,  -- DigestStatus of the last check
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_fetched_at TIMESTAMPTZ,  -- last check answered with the file (200 or 304)
+  last_changed_at TIMESTAMPTZ  -- first fetch of the current content_hash
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_uri_refresh_checked ON agent_uri_refresh(last_checked_at);
+
+ALTER TABLE agent_uri_refresh ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read agent_uri_refresh" ON agent_uri_refresh FOR SELECT USING (true);
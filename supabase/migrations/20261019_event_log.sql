@@ -0,0 +1,35 @@
+-- =============================================
+-- 8004 Agent Registry - Event log
+-- Migration: 2026-10-19
+-- =============================================
+-- Append-only log of every decoded program event, written in the same
+-- transaction as its projection. (tx_signature, event_ordinal) makes
+-- re-processing idempotent; raw_data holds the base64 Anchor payload so
+-- derived tables can be rebuilt without RPC.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS event_log (
+  id BIGSERIAL PRIMARY KEY,
+  tx_signature TEXT NOT NULL,
+  event_ordinal INTEGER NOT NULL,
+  event_type TEXT NOT NULL,
+  asset TEXT,
+  block_slot BIGINT NOT NULL,
+  tx_index INTEGER,
+  block_time TIMESTAMPTZ NOT NULL,
+  data JSONB NOT NULL,
+  raw_data TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(tx_signature, event_ordinal)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_log_order
+  ON event_log(block_slot, tx_index NULLS LAST, event_ordinal);
+CREATE INDEX IF NOT EXISTS idx_event_log_type
+  ON event_log(event_type, block_slot);
+CREATE INDEX IF NOT EXISTS idx_event_log_asset
+  ON event_log(asset, block_slot) WHERE asset IS NOT NULL;
+
+ALTER TABLE event_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read event_log" ON event_log FOR SELECT USING (true);
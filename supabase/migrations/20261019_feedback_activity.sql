@@ -0,0 +1,76 @@
+-- =============================================
+-- 8004 Agent Registry - Feedback activity rollups
+-- Migration: 2026-10-19
+-- =============================================
+-- Hourly per-(agent, tag1) counters maintained by the indexer as feedbacks,
+-- revocations and responses are inserted; backs the GraphQL
+-- feedbackActivity query. feedback_activity_clients keeps one row per
+-- client and hour so distinct clients can be counted over any bucket.
+-- tag1 is '' for feedbacks without a tag.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS feedback_activity (
+  bucket_start TIMESTAMPTZ NOT NULL,
+  asset TEXT NOT NULL,
+  collection TEXT,
+  tag1 TEXT NOT NULL DEFAULT '',
+  feedback_count INTEGER NOT NULL DEFAULT 0,
+  value_sum NUMERIC NOT NULL DEFAULT 0,  -- sum of value / 10^value_decimals
+  revocation_count INTEGER NOT NULL DEFAULT 0,
+  response_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket_start, asset, tag1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_activity_asset ON feedback_activity(asset, bucket_start);
+CREATE INDEX IF NOT EXISTS idx_feedback_activity_collection ON feedback_activity(collection, bucket_start);
+CREATE INDEX IF NOT EXISTS idx_feedback_activity_tag1 ON feedback_activity(tag1, bucket_start);
+
+CREATE TABLE IF NOT EXISTS feedback_activity_clients (
+  bucket_start TIMESTAMPTZ NOT NULL,
+  asset TEXT NOT NULL,
+  collection TEXT,
+  tag1 TEXT NOT NULL DEFAULT '',
+  client_address TEXT NOT NULL,
+  PRIMARY KEY (bucket_start, asset, tag1, client_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_activity_clients_asset ON feedback_activity_clients(asset, bucket_start);
+CREATE INDEX IF NOT EXISTS idx_feedback_activity_clients_collection ON feedback_activity_clients(collection, bucket_start);
+CREATE INDEX IF NOT EXISTS idx_feedback_activity_clients_tag1 ON feedback_activity_clients(tag1, bucket_start);
+
+-- Backfill from existing rows
+INSERT INTO feedback_activity (bucket_start, asset, collection, tag1, feedback_count, value_sum, revocation_count, response_count)
+SELECT bucket_start, asset, MAX(collection), tag1,
+       SUM(feedback_count), SUM(value_sum), SUM(revocation_count), SUM(response_count)
+FROM (
+  SELECT date_trunc('hour', f.created_at) AS bucket_start, f.asset, a.collection, COALESCE(f.tag1, '') AS tag1,
+         1 AS feedback_count, f.value / power(10::numeric, f.value_decimals) AS value_sum, 0 AS revocation_count, 0 AS response_count
+  FROM feedbacks f LEFT JOIN agents a ON a.asset = f.asset
+  WHERE f.status != 'ORPHANED'
+  UNION ALL
+  SELECT date_trunc('hour', r.created_at), r.asset, a.collection, COALESCE(f.tag1, ''), 0, 0, 1, 0
+  FROM revocations r
+  LEFT JOIN feedbacks f ON f.asset = r.asset AND f.client_address = r.client_address AND f.feedback_index = r.feedback_index
+  LEFT JOIN agents a ON a.asset = r.asset
+  WHERE r.status != 'ORPHANED'
+  UNION ALL
+  SELECT date_trunc('hour', fr.created_at), fr.asset, a.collection, COALESCE(f.tag1, ''), 0, 0, 0, 1
+  FROM feedback_responses fr
+  LEFT JOIN feedbacks f ON f.asset = fr.asset AND f.client_address = fr.client_address AND f.feedback_index = fr.feedback_index
+  LEFT JOIN agents a ON a.asset = fr.asset
+  WHERE fr.status != 'ORPHANED'
+) events
+GROUP BY bucket_start, asset, tag1
+ON CONFLICT (bucket_start, asset, tag1) DO NOTHING;
+
+INSERT INTO feedback_activity_clients (bucket_start, asset, collection, tag1, client_address)
+SELECT DISTINCT date_trunc('hour', f.created_at), f.asset, a.collection, COALESCE(f.tag1, ''), f.client_address
+FROM feedbacks f LEFT JOIN agents a ON a.asset = f.asset
+WHERE f.status != 'ORPHANED'
+ON CONFLICT (bucket_start, asset, tag1, client_address) DO NOTHING;
+
+ALTER TABLE feedback_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feedback_activity_clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read feedback_activity" ON feedback_activity FOR SELECT USING (true);
+CREATE POLICY "Public read feedback_activity_clients" ON feedback_activity_clients FOR SELECT USING (true);
@@ -0,0 +1,34 @@
+-- =============================================
+-- 8004 Agent Registry - Feedback documents
+-- Migration: 2026-10-19
+-- =============================================
+-- Off-chain files behind NewFeedback.feedbackUri and ResponseAppended.responseUri,
+-- fetched by the feedback document queue (INDEX_FEEDBACK_DOCUMENTS). Each row keeps
+-- a sanitized copy of the JSON and whether its bytes match the on-chain file hash
+-- (feedbackFileHash / responseHash). Backs Feedback.document and
+-- FeedbackResponse.document in GraphQL.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS feedback_documents (
+  id TEXT PRIMARY KEY,  -- feedbacks.id or feedback_responses.id
+  kind TEXT NOT NULL CHECK (kind IN ('feedback', 'response')),
+  asset TEXT NOT NULL,
+  uri TEXT NOT NULL,
+  status TEXT NOT NULL,  -- ok | timeout | error | oversize | invalid_json | blocked | cid_mismatch
+  error TEXT,
+  bytes INTEGER,
+  expected_hash TEXT,  -- feedbackFileHash / responseHash (hex), NULL when none was committed
+  content_hash TEXT,  -- sha-256 of the fetched bytes
+  hash_algorithm TEXT,  -- keccak256 | sha256 when expected_hash matched
+  hash_verified BOOLEAN,  -- NULL when there was no expected hash or nothing was fetched
+  cid_verified BOOLEAN,
+  content JSONB,  -- sanitized copy of the document
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_documents_asset ON feedback_documents(asset);
+CREATE INDEX IF NOT EXISTS idx_feedback_documents_unverified ON feedback_documents(asset) WHERE hash_verified = false;
+
+ALTER TABLE feedback_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read feedback_documents" ON feedback_documents FOR SELECT USING (true);
@@ -0,0 +1,12 @@
+-- =============================================
+-- 8004 Agent Registry - Client profiles
+-- Migration: 2026-10-19
+-- =============================================
+-- Keep the ATOM is_unique_client flag of NewFeedback. NULL for feedbacks
+-- indexed before this migration and for feedbacks without ATOM.
+-- Backs /rest/v1/clients/:address and the GraphQL client query.
+-- =============================================
+
+ALTER TABLE feedbacks ADD COLUMN IF NOT EXISTS is_unique_client BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_revocations_client ON revocations(client_address);
@@ -0,0 +1,30 @@
+-- =============================================
+-- 8004 Agent Registry - Hash-chain repair audit
+-- Migration: 2026-10-19
+-- =============================================
+-- One row per chain the verifier's repair worker rewrote (or failed to)
+-- after a hash-chain mismatch. agent_digest_cache.needs_gap_fill /
+-- gap_fill_from_slot queue the agents to repair.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS hash_chain_repairs (
+  id BIGSERIAL PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  chain_type TEXT NOT NULL CHECK (chain_type IN ('feedback', 'response', 'revoke')),
+  status TEXT NOT NULL CHECK (status IN ('REPAIRED', 'UNRESOLVED', 'FAILED')),
+  from_slot BIGINT,
+  divergent_count BIGINT,
+  onchain_count BIGINT NOT NULL,
+  rows_updated INTEGER NOT NULL DEFAULT 0,
+  rows_inserted INTEGER NOT NULL DEFAULT 0,
+  rows_orphaned INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hash_chain_repairs_agent
+  ON hash_chain_repairs(agent_id, created_at DESC);
+
+ALTER TABLE hash_chain_repairs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read hash_chain_repairs" ON hash_chain_repairs FOR SELECT USING (true);
@@ -0,0 +1,36 @@
+-- =============================================
+-- 8004 Agent Registry - Metadata jobs
+-- Migration: 2026-10-19
+-- =============================================
+-- Durable backing store for the metadata, collection metadata and feedback
+-- document queues. One row per (queue, job_key) holding the latest task;
+-- rows move queued -> running -> done | failed. Running rows are leased to a
+-- worker (lease_owner / lease_expires_at) so several indexer replicas can
+-- share the work, and retries wait until run_after.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS metadata_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  queue TEXT NOT NULL CHECK (queue IN ('agent', 'collection', 'feedback_document')),
+  job_key TEXT NOT NULL,  -- agent asset, collection pointer or feedback/response id
+  payload JSONB NOT NULL,
+  state TEXT NOT NULL CHECK (state IN ('queued', 'running', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status TEXT,  -- DigestStatus of the last attempt, or stale
+  last_error TEXT,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (queue, job_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metadata_jobs_due
+  ON metadata_jobs(queue, run_after) WHERE state = 'queued';
+CREATE INDEX IF NOT EXISTS idx_metadata_jobs_leased
+  ON metadata_jobs(queue, lease_expires_at) WHERE state = 'running';
+CREATE INDEX IF NOT EXISTS idx_metadata_jobs_state
+  ON metadata_jobs(state, updated_at DESC);
+
+ALTER TABLE metadata_jobs ENABLE ROW LEVEL SECURITY;
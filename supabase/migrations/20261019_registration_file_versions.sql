@@ -0,0 +1,33 @@
+-- =============================================
+-- 8004 Agent Registry - Registration file versions
+-- Migration: 2026-10-19
+-- =============================================
+-- Append-only history of digested registration files. The metadata queue adds
+-- a row whenever a digest differs from the agent's latest version (new URI or
+-- new sha-256), with the slot / signature of the AgentRegistered / UriUpdated
+-- event that triggered it (NULL for scheduled refreshes). body holds the
+-- fetched file as served and fields the sanitized `_uri:*` fields used for
+-- diffs, both compressed. The event log cannot rebuild
+-- fetched files, so asset has no foreign key to agents: reprojection (which
+-- clears agents) and agent deletes leave the history in place. Backs
+-- Agent.registrationHistory and Query.registrationFileDiff in GraphQL.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS registration_file_versions (
+  id BIGSERIAL PRIMARY KEY,
+  asset TEXT NOT NULL,  -- no FK to agents: history outlives reprojection and agent deletes
+  uri TEXT NOT NULL,
+  content_hash TEXT NOT NULL,  -- sha-256 of the fetched body
+  bytes INTEGER,
+  body BYTEA NOT NULL,  -- compressForStorage(fetched body, as served)
+  fields BYTEA NOT NULL,  -- compressForStorage(JSON of the digested fields), for diffs
+  block_slot BIGINT,  -- triggering event, NULL for refreshes
+  tx_signature TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_registration_file_versions_asset ON registration_file_versions(asset, id DESC);
+
+ALTER TABLE registration_file_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read registration_file_versions" ON registration_file_versions FOR SELECT USING (true);
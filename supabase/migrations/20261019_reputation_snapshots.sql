@@ -0,0 +1,32 @@
+-- =============================================
+-- 8004 Agent Registry - Reputation history
+-- Migration: 2026-10-19
+-- =============================================
+-- ATOM metrics of an agent as they stood after each NewFeedback /
+-- FeedbackRevoked that updated them. Backs Agent.reputationHistory and
+-- /rest/v1/agents/:asset/history.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS reputation_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  asset TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('feedback', 'revoke')),
+  client_address TEXT NOT NULL,
+  feedback_index BIGINT NOT NULL,
+  block_slot BIGINT NOT NULL,
+  tx_signature TEXT NOT NULL,
+  block_time TIMESTAMPTZ NOT NULL,
+  trust_tier SMALLINT NOT NULL,
+  quality_score INTEGER NOT NULL,
+  confidence INTEGER NOT NULL,
+  risk_score SMALLINT NOT NULL,
+  diversity_ratio SMALLINT NOT NULL,
+  UNIQUE (asset, event_type, client_address, feedback_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reputation_snapshots_asset_time
+  ON reputation_snapshots(asset, block_time);
+
+ALTER TABLE reputation_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read reputation_snapshots" ON reputation_snapshots FOR SELECT USING (true);
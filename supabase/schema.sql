@@ -11,6 +11,20 @@ DROP VIEW IF EXISTS global_stats CASCADE;
 DROP VIEW IF EXISTS collection_stats CASCADE;
 DROP VIEW IF EXISTS leaderboard CASCADE;
 DROP FUNCTION IF EXISTS get_leaderboard CASCADE;
+DROP TABLE IF EXISTS registration_file_versions CASCADE;
+DROP TABLE IF EXISTS agent_uri_refresh CASCADE;
+DROP TABLE IF EXISTS metadata_jobs CASCADE;
+DROP TABLE IF EXISTS feedback_documents CASCADE;
+DROP TABLE IF EXISTS agent_search CASCADE;
+DROP TABLE IF EXISTS agent_anomalies CASCADE;
+DROP TABLE IF EXISTS feedback_activity_clients CASCADE;
+DROP TABLE IF EXISTS feedback_activity CASCADE;
+DROP TABLE IF EXISTS reputation_snapshots CASCADE;
+DROP TABLE IF EXISTS hash_chain_repairs CASCADE;
+DROP TABLE IF EXISTS event_log CASCADE;
+DROP TABLE IF EXISTS webhook_delivery_attempts CASCADE;
+DROP TABLE IF EXISTS webhook_deliveries CASCADE;
+DROP TABLE IF EXISTS webhook_subscriptions CASCADE;
 DROP TABLE IF EXISTS atom_config CASCADE;
 DROP TABLE IF EXISTS validations CASCADE;
 DROP TABLE IF EXISTS feedback_responses CASCADE;
@@ -218,6 +232,7 @@ CREATE TABLE feedbacks (
   value NUMERIC(39,0) DEFAULT 0,  -- v0.6.0: i128 raw metric value
   value_decimals SMALLINT DEFAULT 0 CHECK (value_decimals >= 0 AND value_decimals <= 18),  -- v0.6.0: decimal precision
   score SMALLINT CHECK (score >= 0 AND score <= 100),  -- v0.5.0: nullable (NULL = ATOM skipped)
+  is_unique_client BOOLEAN,  -- ATOM first-time client flag (NULL = ATOM skipped)
   tag1 TEXT,
   tag2 TEXT,
   endpoint TEXT,
@@ -352,6 +367,280 @@ CREATE TABLE agent_digest_cache (
 
 CREATE INDEX idx_agent_digest_cache_gap_fill ON agent_digest_cache(needs_gap_fill) WHERE needs_gap_fill = TRUE;
 
+-- =============================================
+-- HASH_CHAIN_REPAIRS (audit of verifier gap-fill repairs, one row per chain)
+-- =============================================
+CREATE TABLE hash_chain_repairs (
+  id BIGSERIAL PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  chain_type TEXT NOT NULL CHECK (chain_type IN ('feedback', 'response', 'revoke')),
+  status TEXT NOT NULL CHECK (status IN ('REPAIRED', 'UNRESOLVED', 'FAILED')),
+  from_slot BIGINT,
+  divergent_count BIGINT,
+  onchain_count BIGINT NOT NULL,
+  rows_updated INTEGER NOT NULL DEFAULT 0,
+  rows_inserted INTEGER NOT NULL DEFAULT 0,
+  rows_orphaned INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_hash_chain_repairs_agent ON hash_chain_repairs(agent_id, created_at DESC);
+
+-- =============================================
+-- REPUTATION_SNAPSHOTS (ATOM metrics after each feedback / revoke)
+-- =============================================
+CREATE TABLE reputation_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  asset TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('feedback', 'revoke')),
+  client_address TEXT NOT NULL,
+  feedback_index BIGINT NOT NULL,
+  block_slot BIGINT NOT NULL,
+  tx_signature TEXT NOT NULL,
+  block_time TIMESTAMPTZ NOT NULL,
+  trust_tier SMALLINT NOT NULL,
+  quality_score INTEGER NOT NULL,
+  confidence INTEGER NOT NULL,
+  risk_score SMALLINT NOT NULL,
+  diversity_ratio SMALLINT NOT NULL,
+  UNIQUE (asset, event_type, client_address, feedback_index)
+);
+
+CREATE INDEX idx_reputation_snapshots_asset_time ON reputation_snapshots(asset, block_time);
+
+-- =============================================
+-- FEEDBACK_ACTIVITY (hourly rollups behind GraphQL feedbackActivity)
+-- =============================================
+CREATE TABLE feedback_activity (
+  bucket_start TIMESTAMPTZ NOT NULL,
+  asset TEXT NOT NULL,
+  collection TEXT,
+  tag1 TEXT NOT NULL DEFAULT '',  -- '' = untagged
+  feedback_count INTEGER NOT NULL DEFAULT 0,
+  value_sum NUMERIC NOT NULL DEFAULT 0,  -- sum of value / 10^value_decimals
+  revocation_count INTEGER NOT NULL DEFAULT 0,
+  response_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket_start, asset, tag1)
+);
+
+CREATE INDEX idx_feedback_activity_asset ON feedback_activity(asset, bucket_start);
+CREATE INDEX idx_feedback_activity_collection ON feedback_activity(collection, bucket_start);
+CREATE INDEX idx_feedback_activity_tag1 ON feedback_activity(tag1, bucket_start);
+
+-- One row per client and hour: distinct clients are counted at read time
+CREATE TABLE feedback_activity_clients (
+  bucket_start TIMESTAMPTZ NOT NULL,
+  asset TEXT NOT NULL,
+  collection TEXT,
+  tag1 TEXT NOT NULL DEFAULT '',
+  client_address TEXT NOT NULL,
+  PRIMARY KEY (bucket_start, asset, tag1, client_address)
+);
+
+CREATE INDEX idx_feedback_activity_clients_asset ON feedback_activity_clients(asset, bucket_start);
+CREATE INDEX idx_feedback_activity_clients_collection ON feedback_activity_clients(collection, bucket_start);
+CREATE INDEX idx_feedback_activity_clients_tag1 ON feedback_activity_clients(tag1, bucket_start);
+
+-- =============================================
+-- AGENT_ANOMALIES (suspicious feedback patterns, maintained by the anomaly analyzer)
+-- =============================================
+CREATE TABLE agent_anomalies (
+  asset TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('client_concentration', 'client_cohort', 'revoke_churn', 'value_outlier')),
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  score DOUBLE PRECISION NOT NULL,
+  evidence JSONB NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (asset, kind)
+);
+
+CREATE INDEX idx_agent_anomalies_kind ON agent_anomalies(kind, updated_at DESC);
+CREATE INDEX idx_agent_anomalies_updated ON agent_anomalies(updated_at DESC);
+
+-- =============================================
+-- AGENT_SEARCH (full-text search documents, rebuilt by the search indexer from metadata)
+-- =============================================
+CREATE TABLE agent_search (
+  asset TEXT PRIMARY KEY REFERENCES agents(asset) ON DELETE CASCADE,
+  name TEXT,
+  description TEXT,
+  tools TEXT[] NOT NULL DEFAULT '{}',
+  skills TEXT[] NOT NULL DEFAULT '{}',  -- OASF and A2A skills
+  domains TEXT[] NOT NULL DEFAULT '{}',
+  metadata_text TEXT NOT NULL DEFAULT '',  -- on-chain metadata as "key value" lines
+  document TSVECTOR NOT NULL,  -- name (A), description (B), tools/skills/domains (C), metadata (D)
+  source_count INTEGER NOT NULL,
+  source_updated_at TIMESTAMPTZ,
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_agent_search_document ON agent_search USING GIN (document);
+CREATE INDEX idx_agent_search_skills ON agent_search USING GIN (skills);
+CREATE INDEX idx_agent_search_domains ON agent_search USING GIN (domains);
+
+-- =============================================
+-- FEEDBACK_DOCUMENTS (off-chain feedback/response files, fetched by the feedback document queue)
+-- =============================================
+CREATE TABLE feedback_documents (
+  id TEXT PRIMARY KEY,  -- feedbacks.id or feedback_responses.id
+  kind TEXT NOT NULL CHECK (kind IN ('feedback', 'response')),
+  asset TEXT NOT NULL,
+  uri TEXT NOT NULL,
+  status TEXT NOT NULL,  -- ok | timeout | error | oversize | invalid_json | blocked | cid_mismatch
+  error TEXT,
+  bytes INTEGER,
+  expected_hash TEXT,  -- feedbackFileHash / responseHash (hex), NULL when none was committed
+  content_hash TEXT,  -- sha-256 of the fetched bytes
+  hash_algorithm TEXT,  -- keccak256 | sha256 when expected_hash matched
+  hash_verified BOOLEAN,  -- NULL when there was no expected hash or nothing was fetched
+  cid_verified BOOLEAN,
+  content JSONB,  -- sanitized copy of the document
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_feedback_documents_asset ON feedback_documents(asset);
+CREATE INDEX idx_feedback_documents_unverified ON feedback_documents(asset) WHERE hash_verified = false;
+
+-- =============================================
+-- METADATA_JOBS (durable work of the metadata / collection / feedback document queues)
+-- Latest task per (queue, job_key); running rows are leased to one indexer worker
+-- =============================================
+CREATE TABLE metadata_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  queue TEXT NOT NULL CHECK (queue IN ('agent', 'collection', 'feedback_document')),
+  job_key TEXT NOT NULL,  -- agent asset, collection pointer or feedback/response id
+  payload JSONB NOT NULL,
+  state TEXT NOT NULL CHECK (state IN ('queued', 'running', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status TEXT,  -- DigestStatus of the last attempt, or stale
+  last_error TEXT,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (queue, job_key)
+);
+
+CREATE INDEX idx_metadata_jobs_due ON metadata_jobs(queue, run_after) WHERE state = 'queued';
+CREATE INDEX idx_metadata_jobs_leased ON metadata_jobs(queue, lease_expires_at) WHERE state = 'running';
+CREATE INDEX idx_metadata_jobs_state ON metadata_jobs(state, updated_at DESC);
+
+-- =============================================
+-- AGENT_URI_REFRESH (last fetch of each registration file, drives the refresh scheduler)
+-- =============================================
+CREATE TABLE agent_uri_refresh (
+  asset TEXT PRIMARY KEY REFERENCES agents(asset) ON DELETE CASCADE,
+  uri TEXT NOT NULL,  -- agent_uri the row describes
+  etag TEXT,
+  last_modified TEXT,  -- Last-Modified header, sent back verbatim as If-Modified-Since
+  content_hash TEXT,  -- sha-256 of the last good body
+  last_status TEXT NOT NULL,  -- DigestStatus of the last check
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_fetched_at TIMESTAMPTZ,  -- last check answered with the file (200 or 304)
+  last_changed_at TIMESTAMPTZ  -- first fetch of the current content_hash
+);
+
+CREATE INDEX idx_agent_uri_refresh_checked ON agent_uri_refresh(last_checked_at);
+
+-- =============================================
+-- REGISTRATION_FILE_VERSIONS (append-only history of digested registration files)
+-- =============================================
+CREATE TABLE registration_file_versions (
+  id BIGSERIAL PRIMARY KEY,
+  asset TEXT NOT NULL,  -- no FK to agents: history outlives reprojection and agent deletes
+  uri TEXT NOT NULL,
+  content_hash TEXT NOT NULL,  -- sha-256 of the fetched body
+  bytes INTEGER,
+  body BYTEA NOT NULL,  -- compressForStorage(fetched body, as served)
+  fields BYTEA NOT NULL,  -- compressForStorage(JSON of the digested fields), for diffs
+  block_slot BIGINT,  -- triggering event, NULL for refreshes
+  tx_signature TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_registration_file_versions_asset ON registration_file_versions(asset, id DESC);
+
+-- =============================================
+-- EVENT_LOG (append-only, one row per decoded program event)
+-- raw_data: base64 Anchor payload for replay without RPC
+-- =============================================
+CREATE TABLE event_log (
+  id BIGSERIAL PRIMARY KEY,
+  tx_signature TEXT NOT NULL,
+  event_ordinal INTEGER NOT NULL,
+  event_type TEXT NOT NULL,
+  asset TEXT,
+  block_slot BIGINT NOT NULL,
+  tx_index INTEGER,
+  block_time TIMESTAMPTZ NOT NULL,
+  data JSONB NOT NULL,
+  raw_data TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(tx_signature, event_ordinal)
+);
+
+CREATE INDEX idx_event_log_order ON event_log(block_slot, tx_index NULLS LAST, event_ordinal);
+CREATE INDEX idx_event_log_type ON event_log(event_type, block_slot);
+CREATE INDEX idx_event_log_asset ON event_log(asset, block_slot) WHERE asset IS NOT NULL;
+
+-- =============================================
+-- WEBHOOKS (subscriptions + outbox + delivery log)
+-- Private: holds signing secrets, no public read policy
+-- =============================================
+CREATE TABLE webhook_subscriptions (
+  id TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  asset TEXT,
+  collection TEXT,
+  client_address TEXT,
+  min_status TEXT NOT NULL DEFAULT 'PENDING' CHECK (min_status IN ('PENDING', 'FINALIZED')),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_subscriptions_active ON webhook_subscriptions(active) WHERE active = TRUE;
+
+CREATE TABLE webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  subscription_id TEXT NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  asset TEXT,
+  tx_signature TEXT NOT NULL,
+  slot BIGINT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'DELIVERED', 'FAILED', 'SKIPPED')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_status_code INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  UNIQUE(subscription_id, event_id)
+);
+
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);
+
+CREATE TABLE webhook_delivery_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  delivery_id TEXT NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL,
+  status_code INTEGER,
+  error TEXT,
+  duration_ms INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id);
+
 -- =============================================
 -- VIEWS (for API)
 -- =============================================
@@ -550,6 +839,20 @@ ALTER TABLE validations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE atom_config ENABLE ROW LEVEL SECURITY;
 ALTER TABLE indexer_state ENABLE ROW LEVEL SECURITY;
 ALTER TABLE agent_digest_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hash_chain_repairs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reputation_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feedback_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feedback_activity_clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_anomalies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_search ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feedback_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE metadata_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_uri_refresh ENABLE ROW LEVEL SECURITY;
+ALTER TABLE registration_file_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
 
 -- Public read access
 CREATE POLICY "Public read agents" ON agents FOR SELECT USING (true);
@@ -560,6 +863,16 @@ CREATE POLICY "Public read feedback_responses" ON feedback_responses FOR SELECT
 CREATE POLICY "Public read validations" ON validations FOR SELECT USING (true);
 CREATE POLICY "Public read atom_config" ON atom_config FOR SELECT USING (true);
 CREATE POLICY "Public read agent_digest_cache" ON agent_digest_cache FOR SELECT USING (true);
+CREATE POLICY "Public read hash_chain_repairs" ON hash_chain_repairs FOR SELECT USING (true);
+CREATE POLICY "Public read reputation_snapshots" ON reputation_snapshots FOR SELECT USING (true);
+CREATE POLICY "Public read feedback_activity" ON feedback_activity FOR SELECT USING (true);
+CREATE POLICY "Public read feedback_activity_clients" ON feedback_activity_clients FOR SELECT USING (true);
+CREATE POLICY "Public read agent_anomalies" ON agent_anomalies FOR SELECT USING (true);
+CREATE POLICY "Public read agent_search" ON agent_search FOR SELECT USING (true);
+CREATE POLICY "Public read feedback_documents" ON feedback_documents FOR SELECT USING (true);
+CREATE POLICY "Public read agent_uri_refresh" ON agent_uri_refresh FOR SELECT USING (true);
+CREATE POLICY "Public read registration_file_versions" ON registration_file_versions FOR SELECT USING (true);
+CREATE POLICY "Public read event_log" ON event_log FOR SELECT USING (true);
 
 -- Service role write access (indexer uses SUPABASE_DSN with service_role)
 -- No INSERT/UPDATE/DELETE policies = blocked for anon users
@@ -597,3 +910,8 @@ GRANT SELECT ON verification_stats TO authenticated;
 -- - Added agent_digest_cache table for hash-chain verification
 -- - Added source column to indexer_state
 -- - Added partial indexes for PENDING status queries
+
+-- Modified 2026-10-19:
+-- - Added webhook_subscriptions, webhook_deliveries (outbox) and webhook_delivery_attempts (delivery log)
+-- - Added event_log (append-only decoded events with raw Anchor payload)
+-- - Added hash_chain_repairs (verifier gap-fill repair audit)
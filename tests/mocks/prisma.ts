@@ -29,6 +29,12 @@ export function createMockPrismaClient(): PrismaClient {
       upsert: vi.fn(),
       delete: vi.fn(),
       deleteMany: vi.fn(),
+      groupBy: vi.fn().mockResolvedValue([]),
+    },
+    agentSearchDocument: {
+      findMany: vi.fn().mockResolvedValue([]),
+      upsert: vi.fn(),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
     },
     feedback: {
       findUnique: vi.fn(),
@@ -39,6 +45,7 @@ export function createMockPrismaClient(): PrismaClient {
       updateMany: vi.fn(),
       count: vi.fn().mockResolvedValue(0),
       aggregate: vi.fn().mockResolvedValue({ _avg: { score: null } }),
+      groupBy: vi.fn().mockResolvedValue([]),
     },
     feedbackResponse: {
       findUnique: vi.fn(),
@@ -66,7 +73,14 @@ export function createMockPrismaClient(): PrismaClient {
     },
     eventLog: {
       create: vi.fn(),
+      upsert: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
+    agentAnomaly: {
       findMany: vi.fn().mockResolvedValue([]),
+      upsert: vi.fn(),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
     },
     revocation: {
       findUnique: vi.fn(),
@@ -86,6 +100,10 @@ export function createMockPrismaClient(): PrismaClient {
       findUnique: vi.fn(),
       upsert: vi.fn(),
     },
+    reputationSnapshot: {
+      findMany: vi.fn().mockResolvedValue([]),
+      upsert: vi.fn(),
+    },
     hashChainCheckpoint: {
       findFirst: vi.fn(),
       findMany: vi.fn().mockResolvedValue([]),
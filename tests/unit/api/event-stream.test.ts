@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('../../../src/config.js', () => ({
+  config: {
+    restSseMaxClients: 2,
+  },
+}));
+
+vi.mock('../../../src/logger.js', () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(() => mockLogger),
+  };
+  return {
+    createChildLogger: vi.fn(() => mockLogger),
+    logger: mockLogger,
+  };
+});
+
+import {
+  createEventStreamHandler,
+  parseEventStreamFilter,
+  matchesCollection,
+} from '../../../src/api/event-stream.js';
+import { liveEvents, type LiveProgramEvent } from '../../../src/indexer/live-events.js';
+
+const ASSET = 'AToMufS4QD6hEXvcvBDg9m1AHeCLpmZQsyfYa5h9MwAF';
+const OTHER = 'So11111111111111111111111111111111111111112';
+const CLIENT = '11111111111111111111111111111111';
+
+function publish(type: string, asset: string, slot: number, txIndex?: number, eventOrdinal = 0) {
+  liveEvents.publishEvent(
+    { type, data: { asset, clientAddress: CLIENT, feedbackIndex: BigInt(slot) } },
+    { signature: `sig${slot}`, slot: BigInt(slot), blockTime: new Date('2026-01-01T00:00:00Z'), txIndex, eventOrdinal }
+  );
+}
+
+async function waitFor(condition: () => boolean) {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+/**
+ * Read SSE frames until `count` data frames (or a timeout) were received
+ */
+async function readFrames(res: globalThis.Response, count: number): Promise<string[]> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const frames: string[] = [];
+  const deadline = Date.now() + 2000;
+  while (frames.filter((f) => f.includes('data:')).length < count && Date.now() < deadline) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value);
+    let idx;
+    while ((idx = buffer.indexOf('\n\n')) >= 0) {
+      frames.push(buffer.slice(0, idx));
+      buffer = buffer.slice(idx + 2);
+    }
+  }
+  await reader.cancel();
+  return frames;
+}
+
+describe('Event stream filters', () => {
+  it('parses comma lists and PostgREST eq/in syntax', () => {
+    expect(parseEventStreamFilter({ type: 'in.(NewFeedback,ResponseAppended)', asset: `eq.${ASSET}` })).toEqual({
+      filter: { types: ['NewFeedback', 'ResponseAppended'], assets: [ASSET], collection: null },
+    });
+    expect(parseEventStreamFilter({ collection: 'c1:bafy' })).toEqual({
+      filter: { types: [], assets: [], collection: 'c1:bafy' },
+    });
+  });
+
+  it('rejects unknown event types, invalid assets and multiple collections', () => {
+    expect(parseEventStreamFilter({ type: 'Nope' })).toHaveProperty('error');
+    expect(parseEventStreamFilter({ asset: 'not-a-key' })).toHaveProperty('error');
+    expect(parseEventStreamFilter({ collection: 'a,b' })).toHaveProperty('error');
+  });
+
+  it('matches collections from event data or the agent row', () => {
+    const event = (type: string, data: Record<string, unknown>, asset = ASSET) =>
+      ({ type, asset, data } as unknown as LiveProgramEvent);
+
+    expect(matchesCollection(event('AgentRegistered', { collection: 'col' }), 'col', null)).toBe(true);
+    expect(matchesCollection(event('CollectionPointerSet', { col: 'c1:x' }), 'c1:x', null)).toBe(true);
+    expect(matchesCollection(event('RegistryInitialized', {}, 'col'), 'col', null)).toBe(true);
+    expect(matchesCollection(event('NewFeedback', {}), 'c1:x', { collection: 'col', collectionPointer: 'c1:x' })).toBe(true);
+    expect(matchesCollection(event('NewFeedback', {}), 'col', null)).toBe(false);
+  });
+});
+
+describe('GET /rest/v1/events/stream', () => {
+  let server: Server;
+  let baseUrl: string;
+  let prisma: { agent: { findUnique: ReturnType<typeof vi.fn> } };
+
+  beforeEach(async () => {
+    liveEvents.setHistorySize(10);
+    prisma = { agent: { findUnique: vi.fn().mockResolvedValue({ collection: 'col-a', collectionPointer: '' }) } };
+    const app = express();
+    app.get('/rest/v1/events/stream', createEventStreamHandler(prisma as any));
+    server = app.listen(0);
+    await new Promise((r) => server.once('listening', r));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rest/v1/events/stream`;
+  });
+
+  afterEach(async () => {
+    liveEvents.setHistorySize(0);
+    server.closeAllConnections();
+    await new Promise((r) => server.close(r));
+  });
+
+  it('streams matching events with position ids', async () => {
+    const res = await fetch(`${baseUrl}?type=NewFeedback&asset=${ASSET}`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    await waitFor(() => liveEvents.listenerCount('event') === 1);
+
+    publish('NewFeedback', OTHER, 100, 0);
+    publish('ResponseAppended', ASSET, 101, 0);
+    publish('NewFeedback', ASSET, 102, 3, 1);
+
+    const frames = await readFrames(res, 1);
+    const data = frames.filter((f) => f.includes('data:'));
+    expect(data).toHaveLength(1);
+    expect(data[0]).toContain('id: 102:3:1');
+    const payload = JSON.parse(data[0].split('data: ')[1]);
+    expect(payload).toEqual(expect.objectContaining({
+      id: '102:3:1',
+      type: 'NewFeedback',
+      asset: ASSET,
+      slot: '102',
+      tx_signature: 'sig102',
+    }));
+    await waitFor(() => liveEvents.listenerCount('event') === 0);
+    expect(liveEvents.listenerCount('event')).toBe(0);
+  });
+
+  it('replays retained events after Last-Event-ID before live ones', async () => {
+    publish('NewFeedback', ASSET, 200, 0);
+    publish('NewFeedback', ASSET, 201, 0);
+    publish('NewFeedback', ASSET, 201, 1);
+
+    const res = await fetch(baseUrl, { headers: { 'Last-Event-ID': '200:0:0' } });
+    await waitFor(() => liveEvents.listenerCount('event') === 1);
+    publish('NewFeedback', ASSET, 202, 0);
+
+    const frames = await readFrames(res, 3);
+    const ids = frames.filter((f) => f.startsWith('id: ')).map((f) => f.split('\n')[0].slice(4));
+    expect(ids).toEqual(['201:0:0', '201:1:0', '202:0:0']);
+    expect(frames.some((f) => f.startsWith('event: resync'))).toBe(false);
+  });
+
+  it('signals resync when history does not reach the resume position', async () => {
+    publish('NewFeedback', ASSET, 300, 0);
+
+    const res = await fetch(baseUrl, { headers: { 'Last-Event-ID': '10:0:0' } });
+    const frames = await readFrames(res, 2);
+
+    expect(frames.some((f) => f.startsWith('event: resync'))).toBe(true);
+    expect(frames.some((f) => f.startsWith('id: 300:0:0'))).toBe(true);
+  });
+
+  it('closes the stream when the client falls behind', async () => {
+    const res = await fetch(baseUrl);
+    await waitFor(() => liveEvents.listenerCount('event') === 1);
+
+    for (let i = 0; i < 150; i++) {
+      publish('NewFeedback', ASSET, 500 + i, 0);
+    }
+
+    // The server ends the response: read to completion
+    const body = await res.text();
+    const ids = body.split('\n\n').filter((f) => f.startsWith('id: ')).map((f) => f.split('\n')[0].slice(4));
+    expect(ids).toHaveLength(101);
+    expect(ids[100]).toBe('600:0:0');
+    expect(liveEvents.listenerCount('event')).toBe(0);
+  });
+
+  it('filters by collection via the agent row', async () => {
+    const res = await fetch(`${baseUrl}?collection=col-b`);
+    await waitFor(() => liveEvents.listenerCount('event') === 1);
+
+    prisma.agent.findUnique.mockImplementation(async ({ where }: { where: { id: string } }) =>
+      ({ collection: where.id === OTHER ? 'col-b' : 'col-a', collectionPointer: '' }));
+    publish('NewFeedback', ASSET, 400, 0);
+    publish('NewFeedback', OTHER, 401, 0);
+
+    const frames = await readFrames(res, 1);
+    const ids = frames.filter((f) => f.startsWith('id: ')).map((f) => f.split('\n')[0].slice(4));
+    expect(ids).toEqual(['401:0:0']);
+  });
+
+  it('rejects invalid filters and Last-Event-ID', async () => {
+    expect((await fetch(`${baseUrl}?type=Nope`)).status).toBe(400);
+    expect((await fetch(baseUrl, { headers: { 'Last-Event-ID': 'garbage' } })).status).toBe(400);
+  });
+
+  it('caps concurrent clients', async () => {
+    const first = await fetch(baseUrl);
+    const second = await fetch(baseUrl);
+    const third = await fetch(baseUrl);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(third.status).toBe(503);
+    await first.body?.cancel();
+    await second.body?.cancel();
+  });
+});
@@ -16,6 +16,10 @@ vi.mock('../../../src/logger.js', () => {
   };
 });
 
+vi.mock('../../../src/utils/compression.js', () => ({
+  decompressFromStorage: vi.fn(async (value: Buffer) => value.subarray(1)),
+}));
+
 import { analyzeQuery, calculateComplexity, countAliases, MAX_COMPLEXITY, MAX_FIRST_CAP, MAX_ALIASES } from '../../../src/api/graphql/plugins/complexity.js';
 import { analyzeDepth, calculateDepth, MAX_DEPTH } from '../../../src/api/graphql/plugins/depth-limit.js';
 import { buildWhereClause } from '../../../src/api/graphql/utils/filters.js';
@@ -27,6 +31,13 @@ import { feedbackResolvers } from '../../../src/api/graphql/resolvers/feedback.j
 import { responseResolvers } from '../../../src/api/graphql/resolvers/response.js';
 import { solanaResolvers } from '../../../src/api/graphql/resolvers/solana.js';
 import { validationResolvers } from '../../../src/api/graphql/resolvers/validation.js';
+import { eventLogResolvers } from '../../../src/api/graphql/resolvers/eventlog.js';
+import { registrationResolvers } from '../../../src/api/graphql/resolvers/registration.js';
+import { analyticsResolvers } from '../../../src/api/graphql/resolvers/analytics.js';
+import { searchResolvers } from '../../../src/api/graphql/resolvers/search.js';
+import { resetLeaderboardCacheForTests } from '../../../src/services/leaderboard.js';
+import { subscriptionResolvers, getActiveSubscriptionCount } from '../../../src/api/graphql/resolvers/subscription.js';
+import { liveEvents } from '../../../src/indexer/live-events.js';
 
 describe('GraphQL Complexity Analysis', () => {
   it('allows simple queries', () => {
@@ -342,6 +353,83 @@ describe('Feedback Field Resolvers', () => {
     } as any);
     expect(valueDecimals).toBe(18);
   });
+
+  it('loads feedback and response documents by row id', async () => {
+    const document = {
+      id: 'asset1:client1:0',
+      uri: 'ipfs://bafkreia',
+      status: 'ok',
+      content_hash: 'ab',
+      hash_verified: true,
+      content: { text: 'Great agent' },
+      fetched_at: '2026-10-19T00:00:00Z',
+    };
+    const load = vi.fn().mockResolvedValue(document);
+    const ctx = { loaders: { documentById: { load } } } as any;
+
+    const loaded = await feedbackResolvers.Feedback.document({ id: 'asset1:client1:0' } as any, {}, ctx);
+    await responseResolvers.FeedbackResponse.document({ id: 'asset1:client1:0:responder:sig' } as any, {}, ctx);
+
+    expect(load.mock.calls).toEqual([['asset1:client1:0'], ['asset1:client1:0:responder:sig']]);
+    const resolvers = feedbackResolvers.OffchainDocument;
+    expect(resolvers.status(loaded)).toBe('OK');
+    expect(resolvers.hashVerified(loaded)).toBe(true);
+    expect(resolvers.content(loaded)).toBe('{"text":"Great agent"}');
+    expect(resolvers.content({ ...loaded, content: null })).toBeNull();
+    expect(resolvers.fetchedAt(loaded)).toBe('1792368000');
+  });
+
+  it('exposes registration file fetch and change times', async () => {
+    const load = vi.fn()
+      .mockResolvedValueOnce({
+        asset: 'asset1',
+        last_fetched_at: '2026-10-19T00:00:00Z',
+        last_changed_at: '2026-10-18T00:00:00Z',
+      })
+      .mockResolvedValueOnce({ asset: 'asset1', last_fetched_at: '2026-10-19T00:00:00Z', last_changed_at: null })
+      .mockResolvedValueOnce(null);
+    const ctx = { loaders: { uriRefreshByAgent: { load } } } as any;
+    const resolvers = registrationResolvers.AgentRegistrationFile;
+
+    expect(await resolvers.lastFetchedAt({ _asset: 'asset1' }, {}, ctx)).toBe('1792368000');
+    expect(await resolvers.lastChangedAt({ _asset: 'asset1' }, {}, ctx)).toBeNull();
+    expect(await resolvers.lastFetchedAt({ _asset: 'asset2' }, {}, ctx)).toBeNull();
+    expect(load.mock.calls).toEqual([['asset1'], ['asset1'], ['asset2']]);
+  });
+
+  it('lists registration file versions and diffs two of them', async () => {
+    const stored = (fields: Record<string, unknown>) =>
+      Buffer.concat([Buffer.from([0x00]), Buffer.from(JSON.stringify(fields))]);
+    const query = vi.fn()
+      .mockResolvedValueOnce({
+        rows: [{
+          id: '2', asset: 'asset1', uri: 'ipfs://Qm2', content_hash: 'h2', bytes: 80,
+          fetched_at: '2026-10-19T00:00:00Z', block_slot: '500', tx_signature: 'sig2',
+        }],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: '1', asset: 'asset1', fields: stored({ '_uri:services': [{ name: 'mcp', endpoint: 'https://a' }] }) },
+          { id: '2', asset: 'asset1', fields: stored({ '_uri:services': [{ name: 'mcp', endpoint: 'https://b' }] }) },
+        ],
+      });
+    const ctx = { pool: { query } } as any;
+
+    const versions = await agentResolvers.Agent.registrationHistory({ asset: 'asset1' } as any, { first: 5 }, ctx);
+    expect(versions).toEqual([{
+      id: '2', uri: 'ipfs://Qm2', contentHash: 'h2', bytes: 80,
+      fetchedAt: '1792368000', slot: '500', txSignature: 'sig2',
+    }]);
+    expect(query.mock.calls[0][1]).toEqual(['asset1', 5, 0]);
+
+    const changes = await registrationResolvers.Query.registrationFileDiff({}, { from: '1', to: '2' }, ctx);
+    expect(changes).toEqual([
+      { field: 'services.mcp.endpoint', change: 'CHANGED', before: 'https://a', after: 'https://b' },
+    ]);
+    await expect(
+      registrationResolvers.Query.registrationFileDiff({}, { from: 'abc', to: '2' }, ctx)
+    ).rejects.toMatchObject({ extensions: { code: 'BAD_USER_INPUT' } });
+  });
 });
 
 describe('Query Resolver User Input Errors', () => {
@@ -866,3 +954,282 @@ describe('Collection And Tree Queries', () => {
     expect(prime).toHaveBeenCalledWith('Child111', expect.any(Object));
   });
 });
+
+describe('Event Log Query', () => {
+  it('filters by signature, type list, agent and slot range in chain order', async () => {
+    const query = vi.fn().mockResolvedValue({
+      rows: [{
+        id: '7',
+        tx_signature: 'sig1',
+        event_ordinal: 1,
+        event_type: 'NewFeedback',
+        asset: 'Asset111',
+        slot: '120',
+        tx_index: 3,
+        block_time: '1767225600',
+        data: { asset: 'Asset111', feedbackIndex: '2' },
+        raw_data: 'AAEC',
+      }],
+    });
+    const ctx = { pool: { query }, prisma: null, loaders: {}, networkMode: 'devnet' } as any;
+
+    const rows = await eventLogResolvers.Query.eventLog({}, {
+      first: 10,
+      where: {
+        txSignature: 'sig1',
+        eventType_in: ['NewFeedback', 'FeedbackRevoked'],
+        agent: 'sol:Asset111',
+        slot_gte: '100',
+        slot_lte: '200',
+      },
+    }, ctx);
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('event_type = ANY($2::text[])');
+    expect(sql).toContain('ORDER BY block_slot ASC, tx_index ASC NULLS LAST, event_ordinal ASC');
+    expect(params).toEqual(['sig1', ['NewFeedback', 'FeedbackRevoked'], 'Asset111', '100', '200', 10, 0]);
+    expect(rows).toEqual([{
+      id: '7',
+      txSignature: 'sig1',
+      eventOrdinal: 1,
+      eventType: 'NewFeedback',
+      asset: 'Asset111',
+      slot: '120',
+      txIndex: 3,
+      blockTime: '1767225600',
+      data: '{"asset":"Asset111","feedbackIndex":"2"}',
+      rawData: 'AAEC',
+    }]);
+  });
+
+  it('rejects invalid slot bounds and agent ids', async () => {
+    const query = vi.fn();
+    const ctx = { pool: { query }, prisma: null, loaders: {}, networkMode: 'devnet' } as any;
+
+    await expect(eventLogResolvers.Query.eventLog({}, { where: { slot_gte: '-1' } }, ctx))
+      .rejects.toThrow('slot_gte must be a non-negative integer');
+    await expect(eventLogResolvers.Query.eventLog({}, { where: { agent: 'Asset111' } }, ctx))
+      .rejects.toThrow('Invalid agent id');
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('Feedback Activity Query', () => {
+  it('aggregates hourly rollups into the requested buckets', async () => {
+    const query = vi.fn().mockResolvedValue({
+      rows: [{
+        timestamp: '1767225600',
+        feedback_count: '12',
+        unique_clients: '5',
+        average_value: '87.5',
+        revocation_count: '1',
+        response_count: '3',
+      }],
+    });
+    const ctx = { pool: { query }, prisma: null, loaders: {}, networkMode: 'devnet' } as any;
+
+    const rows = await analyticsResolvers.Query.feedbackActivity({}, {
+      agent: 'sol:Asset111',
+      tag1: 'uptime',
+      bucket: 'WEEK',
+      from: 1767225600n,
+      to: 1769644800n,
+    }, ctx);
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('FROM feedback_activity\n');
+    expect(sql).toContain('COUNT(DISTINCT client_address)');
+    expect(params).toEqual(['week', '2026-01-01T00:00:00.000Z', '2026-01-29T00:00:00.000Z', 'Asset111', 'uptime']);
+    expect(rows).toEqual([{
+      timestamp: '1767225600',
+      feedbackCount: '12',
+      uniqueClients: '5',
+      averageValue: '87.5',
+      revocationCount: '1',
+      responseCount: '3',
+    }]);
+  });
+
+  it('rejects invalid windows and agent ids', async () => {
+    const query = vi.fn();
+    const ctx = { pool: { query }, prisma: null, loaders: {}, networkMode: 'devnet' } as any;
+
+    await expect(analyticsResolvers.Query.feedbackActivity({}, { from: 200n, to: 100n }, ctx))
+      .rejects.toThrow('from must be before to');
+    await expect(analyticsResolvers.Query.feedbackActivity({}, { bucket: 'HOUR', from: 0n, to: 3600n * 2001n }, ctx))
+      .rejects.toThrow('more than 2000 buckets');
+    await expect(analyticsResolvers.Query.feedbackActivity({}, { agent: 'Asset111' }, ctx))
+      .rejects.toThrow('Invalid agent id');
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('Leaderboard Query', () => {
+  beforeEach(() => {
+    resetLeaderboardCacheForTests();
+  });
+
+  it('maps strategy and window enums and pages the ranking', async () => {
+    const row = (asset: string, qualityScore: number) => ({
+      asset,
+      owner: 'Owner111',
+      collection: 'Col111',
+      trust_tier: 1,
+      quality_score: qualityScore,
+      confidence: 10000,
+      sort_key: '0',
+      feedback_count: '2',
+      value_sum: 150,
+      weight_sum: 2,
+      weighted_value_sum: 150,
+    });
+    const query = vi.fn().mockResolvedValue({ rows: [row('Asset111', 4000), row('Asset222', 9000)] });
+    const load = vi.fn().mockResolvedValue({ asset: 'Asset222' });
+    const ctx = { pool: { query }, prisma: null, loaders: { agentById: { load } }, networkMode: 'devnet' } as any;
+
+    const entries = await analyticsResolvers.Query.leaderboard({}, {
+      strategy: 'CONFIDENCE',
+      window: 'LAST_7_DAYS',
+      tag: 'uptime',
+      first: 1,
+    }, ctx);
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('f.created_at >= $3');
+    expect(params.slice(3)).toEqual(['uptime']);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ rank: 1, asset: 'Asset222', score: 9000 });
+    expect(analyticsResolvers.LeaderboardEntry.feedbackCount(entries[0])).toBe('2');
+    expect(analyticsResolvers.LeaderboardEntry.averageValue(entries[0])).toBe('75');
+    await expect(analyticsResolvers.LeaderboardEntry.agent(entries[0], {}, ctx)).resolves.toEqual({ asset: 'Asset222' });
+    expect(load).toHaveBeenCalledWith('Asset222');
+  });
+});
+
+describe('Search Agents Query', () => {
+  it('clamps paging and resolves hit agents through the loader', async () => {
+    const query = vi.fn().mockResolvedValue({ rows: [] });
+    const load = vi.fn().mockResolvedValue({ asset: 'Asset111' });
+    const ctx = { pool: { query }, prisma: null, loaders: { agentById: { load } }, networkMode: 'devnet' } as any;
+
+    const result = await searchResolvers.Query.searchAgents({}, { query: 'weather', skill: 'forecasting', first: 500, skip: -1 }, ctx);
+
+    expect(query.mock.calls[0][1]).toEqual(['weather', 'forecasting', 100, 0]);
+    expect(result.total).toBe(0);
+    await expect(searchResolvers.AgentSearchHit.agent({ asset: 'Asset111' } as any, {}, ctx)).resolves.toEqual({ asset: 'Asset111' });
+  });
+
+  it('rejects blank and oversized queries', async () => {
+    const query = vi.fn();
+    const ctx = { pool: { query }, prisma: null, loaders: {}, networkMode: 'devnet' } as any;
+
+    await expect(searchResolvers.Query.searchAgents({}, { query: '  ' }, ctx)).rejects.toThrow('query must not be empty');
+    await expect(searchResolvers.Query.searchAgents({}, { query: 'x'.repeat(201) }, ctx)).rejects.toThrow('at most 200 characters');
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('Subscription Resolvers', () => {
+  const { Subscription, VerificationStatusChange } = subscriptionResolvers;
+  const ctx = { signature: 'sig1', slot: 10n, blockTime: new Date('2026-01-01T00:00:00Z') };
+
+  function subscriptionContext(rows: unknown[][]) {
+    const query = vi.fn();
+    for (const r of rows) query.mockResolvedValueOnce({ rows: r });
+    return { pool: { query }, prisma: null, loaders: {}, networkMode: 'devnet' } as any;
+  }
+
+  it('filters feedbackAdded by agent and client and loads the committed row', async () => {
+    const row = { id: '1', asset: 'Asset111', client_address: 'Client111', feedback_index: '2' };
+    const gqlCtx = subscriptionContext([[row]]);
+    const it = Subscription.feedbackAdded.subscribe({}, { agent: 'sol:Asset111', clientAddress: 'Client111' }, gqlCtx);
+    expect(getActiveSubscriptionCount()).toBe(1);
+
+    liveEvents.publishEvent({ type: 'NewFeedback', data: { asset: 'Other111', clientAddress: 'Client111', feedbackIndex: 1n } }, ctx);
+    liveEvents.publishEvent({ type: 'ResponseAppended', data: { asset: 'Asset111', client: 'Client111', feedbackIndex: 1n } }, ctx);
+    liveEvents.publishEvent({ type: 'NewFeedback', data: { asset: 'Asset111', clientAddress: 'Client111', feedbackIndex: 2n } }, ctx);
+
+    const { value } = await it.next();
+    expect(value).toBe(row);
+    expect(Subscription.feedbackAdded.resolve(value)).toBe(row);
+    expect(gqlCtx.pool.query).toHaveBeenCalledTimes(1);
+    expect(gqlCtx.pool.query.mock.calls[0][1]).toEqual(['Asset111', 'Client111', '2']);
+    expect(gqlCtx.loaders.agentById).toBeDefined();
+
+    await it.return?.();
+    expect(getActiveSubscriptionCount()).toBe(0);
+    expect(liveEvents.listenerCount('event')).toBe(0);
+  });
+
+  it('skips feedbackAdded events whose row is missing', async () => {
+    const row = { id: '2', asset: 'Asset111', client_address: 'Client111', feedback_index: '3' };
+    const gqlCtx = subscriptionContext([[], [row]]);
+    const it = Subscription.feedbackAdded.subscribe({}, { agent: 'sol:Asset111' }, gqlCtx);
+
+    liveEvents.publishEvent({ type: 'NewFeedback', data: { asset: 'Asset111', clientAddress: 'Client111', feedbackIndex: 2n } }, ctx);
+    liveEvents.publishEvent({ type: 'NewFeedback', data: { asset: 'Asset111', clientAddress: 'Client111', feedbackIndex: 3n } }, ctx);
+
+    const { value } = await it.next();
+    expect(value).toBe(row);
+    expect(gqlCtx.pool.query).toHaveBeenCalledTimes(2);
+    await it.return?.();
+  });
+
+  it('ends a pending subscription when the client disconnects', async () => {
+    const it = Subscription.feedbackAdded.subscribe({}, {}, subscriptionContext([]));
+    const pending = it.next();
+
+    await it.return?.();
+
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+    expect(getActiveSubscriptionCount()).toBe(0);
+  });
+
+  it('rejects invalid agent and feedback ids', () => {
+    expect(() => Subscription.agentUpdated.subscribe({}, { id: 'bad' }, subscriptionContext([]))).toThrow('Invalid agent id');
+    expect(() => Subscription.responseAppended.subscribe({}, { feedback: 'sol:x' }, subscriptionContext([]))).toThrow('Invalid feedback id');
+    expect(getActiveSubscriptionCount()).toBe(0);
+  });
+
+  it('filters responseAppended by feedback id', async () => {
+    const row = { id: '1', asset: 'Asset111', client_address: 'Client111', feedback_index: '3', responder: 'Resp111' };
+    const gqlCtx = subscriptionContext([[row]]);
+    const it = Subscription.responseAppended.subscribe({}, { feedback: 'sol:Asset111:Client111:3' }, gqlCtx);
+
+    liveEvents.publishEvent({ type: 'ResponseAppended', data: { asset: 'Asset111', client: 'Client111', feedbackIndex: 2n } }, ctx);
+    liveEvents.publishEvent({ type: 'ResponseAppended', data: { asset: 'Asset111', client: 'Client111', feedbackIndex: 3n, responder: 'Resp111' } }, ctx);
+
+    const { value } = await it.next();
+    expect(value).toBe(row);
+    expect(gqlCtx.pool.query.mock.calls[0][1]).toEqual(['Asset111', 'Client111', '3', 'Resp111', 'sig1']);
+    await it.return?.();
+  });
+
+  it('releases the subscription slot when the consumer falls behind', async () => {
+    const it = Subscription.verificationStatusChanged.subscribe({}, {});
+    const at = new Date('2026-01-01T00:00:00Z');
+
+    liveEvents.publishVerification('feedback', Array.from({ length: 101 }, (_, i) => String(i)), 'Asset111', 'FINALIZED', at);
+    for (let i = 0; i < 100; i++) await it.next();
+
+    await expect(it.next()).rejects.toThrow('fell more than 100 events behind');
+    expect(getActiveSubscriptionCount()).toBe(0);
+  });
+
+  it('filters verificationStatusChanged and maps enum fields', async () => {
+    const it = Subscription.verificationStatusChanged.subscribe({}, { agent: 'sol:Asset111', entity: 'FEEDBACK', status: 'FINALIZED' });
+    const at = new Date('2026-01-01T00:00:00Z');
+
+    liveEvents.publishVerification('feedback', ['1'], 'Asset111', 'ORPHANED', at);
+    liveEvents.publishVerification('agent', ['Asset111'], 'Asset111', 'FINALIZED', at);
+    liveEvents.publishVerification('feedback', ['2'], 'Asset111', 'FINALIZED', at);
+
+    const { value } = await it.next();
+    await it.return?.();
+
+    expect(value?.id).toBe('2');
+    expect(VerificationStatusChange.entity(value!)).toBe('FEEDBACK');
+    expect(VerificationStatusChange.entityId(value!)).toBe('2');
+    expect(VerificationStatusChange.changedAt(value!)).toBe('1767225600');
+  });
+});
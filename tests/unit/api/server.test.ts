@@ -67,3 +67,114 @@ describe('API Server (GraphQL-only)', () => {
     );
   });
 });
+
+describe('API Server health probes', () => {
+  let server: Server;
+  let baseUrl: string;
+  const pool = { query: vi.fn() };
+  const processor = { getIndexingHealth: vi.fn() };
+
+  const healthyIndexing = {
+    running: true,
+    activeMode: 'websocket',
+    indexedSlot: 1000,
+    observedSlot: 1000,
+    clusterSlot: 1010,
+    slotLag: 10,
+    rpcError: null,
+    verifierLastRunAt: new Date('2026-01-01T00:00:00Z'),
+    verifierLastRunDurationMs: 1200,
+  };
+
+  beforeAll(async () => {
+    const app = createApiServer({ pool: pool as any, prisma: null, processor: processor as any });
+
+    await new Promise<void>((resolve, reject) => {
+      server = app.listen(0, '127.0.0.1', () => {
+        const addr = server.address() as AddressInfo;
+        baseUrl = `http://127.0.0.1:${addr.port}`;
+        resolve();
+      });
+      server.on('error', reject);
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+    });
+  });
+
+  it('returns liveness without touching dependencies', async () => {
+    const res = await fetch(`${baseUrl}/health/live`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.status).toBe('ok');
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('reports ready when DB is reachable and lag is within threshold', async () => {
+    pool.query.mockResolvedValue({ rows: [{ '?column?': 1 }] });
+    processor.getIndexingHealth.mockResolvedValue(healthyIndexing);
+
+    const res = await fetch(`${baseUrl}/health/ready`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.status).toBe('ready');
+    expect(body.checks.database.status).toBe('ok');
+    expect(body.checks.indexer).toMatchObject({
+      status: 'ok',
+      mode: 'websocket',
+      indexedSlot: 1000,
+      clusterSlot: 1010,
+      slotLag: 10,
+    });
+    expect(body.checks.verifier.lastRunAt).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('returns 503 when indexing lag exceeds threshold', async () => {
+    pool.query.mockResolvedValue({ rows: [] });
+    processor.getIndexingHealth.mockResolvedValue({ ...healthyIndexing, clusterSlot: 100000, slotLag: 99000 });
+
+    const res = await fetch(`${baseUrl}/health/ready`);
+    expect(res.status).toBe(503);
+    const body = await res.json();
+    expect(body.status).toBe('not_ready');
+    expect(body.checks.indexer.status).toBe('lagging');
+  });
+
+  it('returns 503 when the database is unreachable', async () => {
+    pool.query.mockRejectedValue(new Error('connection refused'));
+    processor.getIndexingHealth.mockResolvedValue(healthyIndexing);
+
+    const res = await fetch(`${baseUrl}/health/ready`);
+    expect(res.status).toBe(503);
+    const body = await res.json();
+    expect(body.checks.database).toEqual({ status: 'error', error: 'connection refused' });
+  });
+
+  it('returns 503 when the processor is stopped', async () => {
+    pool.query.mockResolvedValue({ rows: [] });
+    processor.getIndexingHealth.mockResolvedValue({ ...healthyIndexing, running: false, activeMode: null });
+
+    const res = await fetch(`${baseUrl}/health/ready`);
+    expect(res.status).toBe(503);
+    const body = await res.json();
+    expect(body.checks.indexer.status).toBe('stopped');
+  });
+
+  it('stays ready with unknown lag when RPC is unreachable', async () => {
+    pool.query.mockResolvedValue({ rows: [] });
+    processor.getIndexingHealth.mockResolvedValue({
+      ...healthyIndexing,
+      clusterSlot: null,
+      slotLag: null,
+      rpcError: 'fetch failed',
+    });
+
+    const res = await fetch(`${baseUrl}/health/ready`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.checks.indexer.rpcError).toBe('fetch failed');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  CODEC_DAG_PB,
+  CODEC_RAW,
+  decodeDagPb,
+  decodeUnixFs,
+  formatCid,
+  parseCid,
+  verifyBlock,
+} from "../../src/utils/cid.js";
+
+// Empty UnixFS directory: PBNode { Data: UnixFS { Type: Directory } }
+const EMPTY_DIR_BLOCK = Uint8Array.from([0x0a, 0x02, 0x08, 0x01]);
+const EMPTY_DIR_V0 = "QmUNLLsPACCz1vLxQVkXqqLX5R1X345qqfHbsf67hvA3Nn";
+const EMPTY_DIR_V1 = "bafybeiczsscdsbs7ffqz55asqdf3smv6klcw3gofszvwlyarci47bgf354";
+const HELLO_WORLD_RAW = "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e";
+
+describe("CID Utilities", () => {
+  describe("parseCid / formatCid", () => {
+    it("should parse CIDv0 and CIDv1 forms of the same content", () => {
+      const v0 = parseCid(EMPTY_DIR_V0)!;
+      const v1 = parseCid(EMPTY_DIR_V1)!;
+      expect(v0).toMatchObject({ version: 0, codec: CODEC_DAG_PB, hashCode: 0x12 });
+      expect(v1).toMatchObject({ version: 1, codec: CODEC_DAG_PB, hashCode: 0x12 });
+      expect(Buffer.from(v0.digest)).toEqual(Buffer.from(v1.digest));
+    });
+
+    it("should round-trip through the canonical text form", () => {
+      expect(formatCid(parseCid(EMPTY_DIR_V0)!)).toBe(EMPTY_DIR_V0);
+      expect(formatCid(parseCid(EMPTY_DIR_V1)!)).toBe(EMPTY_DIR_V1);
+      expect(formatCid(parseCid(EMPTY_DIR_V1.toUpperCase())!)).toBe(EMPTY_DIR_V1);
+      expect(parseCid(HELLO_WORLD_RAW)).toMatchObject({ version: 1, codec: CODEC_RAW });
+    });
+
+    it("should return null for strings that are not CIDs", () => {
+      expect(parseCid("QmTest123abc")).toBeNull();
+      expect(parseCid("bafy!!")).toBeNull();
+      expect(parseCid("")).toBeNull();
+      expect(parseCid("arweave-tx-id-123")).toBeNull();
+    });
+  });
+
+  describe("verifyBlock", () => {
+    it("should accept only the bytes the CID was computed from", () => {
+      const cid = parseCid(HELLO_WORLD_RAW)!;
+      expect(verifyBlock(cid, Buffer.from("hello world"))).toBe(true);
+      expect(verifyBlock(cid, Buffer.from("hello world\n"))).toBe(false);
+      expect(verifyBlock(parseCid(EMPTY_DIR_V0)!, EMPTY_DIR_BLOCK)).toBe(true);
+    });
+
+    it("should return null for unsupported hash functions", () => {
+      const cid = { ...parseCid(HELLO_WORLD_RAW)!, hashCode: 0x1e }; // blake3
+      expect(verifyBlock(cid, Buffer.from("hello world"))).toBeNull();
+    });
+  });
+
+  describe("decodeDagPb / decodeUnixFs", () => {
+    it("should decode an empty directory node", () => {
+      const node = decodeDagPb(EMPTY_DIR_BLOCK);
+      expect(node.links).toEqual([]);
+      expect(decodeUnixFs(node.data!)).toEqual({ type: "directory", data: null });
+    });
+
+    it("should reject truncated blocks", () => {
+      expect(() => decodeDagPb(Uint8Array.from([0x12, 0x05, 0x0a]))).toThrow("Truncated");
+    });
+  });
+});
@@ -136,6 +136,87 @@ describe("Config", () => {
     });
   });
 
+  describe("RPC endpoints", () => {
+    it("should default to a single endpoint from RPC_URL/WS_URL", async () => {
+      delete process.env.RPC_ENDPOINTS;
+      delete process.env.WS_ENDPOINTS;
+      process.env.RPC_URL = "https://custom.rpc.com";
+      process.env.WS_URL = "wss://custom.ws.com";
+
+      const { config } = await import("../../src/config.js");
+
+      expect(config.rpcEndpoints).toEqual([
+        { name: "default", url: "https://custom.rpc.com", wsUrl: "wss://custom.ws.com", weight: 1 },
+      ]);
+    });
+
+    it("should parse named, weighted endpoints and pair WS URLs", async () => {
+      process.env.RPC_ENDPOINTS = "archive=https://archive.rpc.com|2, https://cheap.rpc.com";
+      process.env.WS_ENDPOINTS = "rpc2=wss://cheap.rpc.com";
+      process.env.RPC_ROUTES = "getSignaturesForAddress=archive,getSlot=archive+rpc2";
+
+      const { config, validateConfig } = await import("../../src/config.js");
+
+      expect(config.rpcEndpoints).toEqual([
+        { name: "archive", url: "https://archive.rpc.com", weight: 2 },
+        { name: "rpc2", url: "https://cheap.rpc.com", wsUrl: "wss://cheap.rpc.com", weight: 1 },
+      ]);
+      expect(config.rpcRoutes).toEqual({
+        getSignaturesForAddress: ["archive"],
+        getSlot: ["archive", "rpc2"],
+      });
+      expect(() => validateConfig()).not.toThrow();
+    });
+
+    it("should throw when RPC_ENDPOINTS has an invalid weight", async () => {
+      process.env.RPC_ENDPOINTS = "https://a.rpc.com|0";
+
+      await expect(import("../../src/config.js")).rejects.toThrow(
+        /Invalid RPC_ENDPOINTS entry/
+      );
+    });
+
+    it("should throw when RPC_ROUTES references an unknown endpoint", async () => {
+      process.env.RPC_ENDPOINTS = "archive=https://archive.rpc.com";
+      process.env.RPC_ROUTES = "getSlot=missing";
+
+      const { validateConfig } = await import("../../src/config.js");
+
+      expect(() => validateConfig()).toThrow(
+        "RPC_ROUTES getSlot references unknown endpoint(s): missing"
+      );
+    });
+  });
+
+  describe("Content gateways", () => {
+    it("should default to ipfs.io and arweave.net", async () => {
+      delete process.env.IPFS_GATEWAYS;
+      delete process.env.ARWEAVE_GATEWAYS;
+
+      const { config } = await import("../../src/config.js");
+
+      expect(config.ipfsGateways).toEqual([{ name: "ipfs.io", url: "https://ipfs.io" }]);
+      expect(config.arweaveGateways).toEqual([{ name: "arweave.net", url: "https://arweave.net" }]);
+    });
+
+    it("should parse named gateways with timeouts in order", async () => {
+      process.env.IPFS_GATEWAYS = "local=http://127.0.0.1:8080/|2000, https://dweb.link";
+
+      const { config } = await import("../../src/config.js");
+
+      expect(config.ipfsGateways).toEqual([
+        { name: "local", url: "http://127.0.0.1:8080", timeoutMs: 2000 },
+        { name: "dweb.link", url: "https://dweb.link" },
+      ]);
+    });
+
+    it("should throw on invalid gateway entries", async () => {
+      process.env.IPFS_GATEWAYS = "ipfs://QmGateway";
+
+      await expect(import("../../src/config.js")).rejects.toThrow(/Invalid IPFS_GATEWAYS entry/);
+    });
+  });
+
   describe("validateConfig", () => {
     it("should pass validation with valid config", async () => {
       process.env.DATABASE_URL = "file:./data/test.db";
@@ -251,6 +332,16 @@ describe("Config", () => {
       );
     });
 
+    it("should throw when VERIFY_REPAIR_BATCH_SIZE exceeds 100", async () => {
+      process.env.VERIFY_REPAIR_BATCH_SIZE = "500";
+
+      const { validateConfig } = await import("../../src/config.js");
+
+      expect(() => validateConfig()).toThrow(
+        "VERIFY_REPAIR_BATCH_SIZE must be between 1 and 100"
+      );
+    });
+
     it("should throw when VERIFY_RECOVERY_BATCH_SIZE is below 1", async () => {
       process.env.VERIFY_RECOVERY_BATCH_SIZE = "0";
 
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockConfig } = vi.hoisted(() => ({
+  mockConfig: { eventLogEnabled: true },
+}));
+
+vi.mock("../../../src/config.js", () => ({ config: mockConfig }));
+
+import { appendEventLogPrisma, appendEventLogPg, findLoggedEvents } from "../../../src/db/event-log.js";
+
+const ctx = {
+  signature: "sig1",
+  slot: 123n,
+  blockTime: new Date("2026-01-01T00:00:00Z"),
+  txIndex: 4,
+  eventOrdinal: 2,
+  rawEvent: "AAEC",
+};
+
+describe("Event log", () => {
+  beforeEach(() => {
+    mockConfig.eventLogEnabled = true;
+  });
+
+  it("upserts a JSON-safe row keyed by signature and ordinal", async () => {
+    const tx = { eventLog: { upsert: vi.fn().mockResolvedValue({}) } } as any;
+
+    await appendEventLogPrisma(tx, { type: "NewFeedback", data: { asset: "Asset111", feedbackIndex: 7n } }, ctx);
+
+    expect(tx.eventLog.upsert).toHaveBeenCalledWith({
+      where: { signature_eventOrdinal: { signature: "sig1", eventOrdinal: 2 } },
+      create: {
+        eventType: "NewFeedback",
+        signature: "sig1",
+        slot: 123n,
+        txIndex: 4,
+        eventOrdinal: 2,
+        asset: "Asset111",
+        blockTime: ctx.blockTime,
+        data: { asset: "Asset111", feedbackIndex: "7" },
+        rawData: "AAEC",
+        processed: true,
+      },
+      update: {},
+    });
+  });
+
+  it("uses the collection as asset for RegistryInitialized", async () => {
+    const tx = { eventLog: { upsert: vi.fn().mockResolvedValue({}) } } as any;
+
+    await appendEventLogPrisma(tx, { type: "RegistryInitialized", data: { collection: "Col111" } }, { ...ctx, eventOrdinal: undefined });
+
+    expect(tx.eventLog.upsert.mock.calls[0][0].create).toEqual(
+      expect.objectContaining({ asset: "Col111", eventOrdinal: 0 })
+    );
+  });
+
+  it("inserts with ON CONFLICT DO NOTHING in supabase mode", async () => {
+    const client = { query: vi.fn().mockResolvedValue({ rows: [] }) } as any;
+
+    await appendEventLogPg(client, { type: "NewFeedback", data: { asset: "Asset111" } }, ctx);
+
+    const [sql, params] = client.query.mock.calls[0];
+    expect(sql).toContain("ON CONFLICT (tx_signature, event_ordinal) DO NOTHING");
+    expect(params).toEqual([
+      "sig1", 2, "NewFeedback", "Asset111", "123", 4, "2026-01-01T00:00:00.000Z", '{"asset":"Asset111"}', "AAEC",
+    ]);
+  });
+
+  it("writes nothing when EVENT_LOG_ENABLED=false", async () => {
+    mockConfig.eventLogEnabled = false;
+    const tx = { eventLog: { upsert: vi.fn() } } as any;
+    const client = { query: vi.fn() } as any;
+
+    await appendEventLogPrisma(tx, { type: "NewFeedback", data: {} }, ctx);
+    await appendEventLogPg(client, { type: "NewFeedback", data: {} }, ctx);
+
+    expect(tx.eventLog.upsert).not.toHaveBeenCalled();
+    expect(client.query).not.toHaveBeenCalled();
+  });
+
+  it("returns signature:ordinal keys of logged events", async () => {
+    const prisma = {
+      eventLog: { findMany: vi.fn().mockResolvedValue([{ signature: "sig1", eventOrdinal: 0 }, { signature: "sig1", eventOrdinal: 2 }]) },
+    } as any;
+    const pool = { query: vi.fn().mockResolvedValue({ rows: [{ tx_signature: "sig2", event_ordinal: 1 }] }) } as any;
+
+    expect(await findLoggedEvents(prisma, null, ["sig1"])).toEqual(new Set(["sig1:0", "sig1:2"]));
+    expect(prisma.eventLog.findMany.mock.calls[0][0].where).toEqual(
+      { signature: { in: ["sig1"] }, processed: true, NOT: { eventType: "PROCESSING_FAILED" } }
+    );
+    expect(await findLoggedEvents(null, pool, ["sig2"])).toEqual(new Set(["sig2:1"]));
+    expect(pool.query.mock.calls[0][1]).toEqual([["sig2"]]);
+    expect(await findLoggedEvents(prisma, null, [])).toEqual(new Set());
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  activityHour,
+  normalizeFeedbackValue,
+  recordFeedbackActivity,
+  recordRevocationActivity,
+} from "../../../src/db/feedback-activity.js";
+
+describe("feedback activity rollups", () => {
+  it("normalizes raw values by value_decimals", () => {
+    expect(normalizeFeedbackValue(9977n, 2)).toBe("99.77");
+    expect(normalizeFeedbackValue(5n, 3)).toBe("0.005");
+    expect(normalizeFeedbackValue(-150n, 2)).toBe("-1.50");
+    expect(normalizeFeedbackValue(42n, 0)).toBe("42");
+  });
+
+  it("floors block times to the UTC hour", () => {
+    expect(activityHour(new Date("2026-01-01T13:59:59.999Z"))).toBe("2026-01-01T13:00:00.000Z");
+  });
+
+  it("bumps the hourly counters and client membership for a feedback", async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 1 }) } as any;
+
+    await recordFeedbackActivity(db, "Asset111", "Client111", null, 9977n, 2, new Date("2026-01-01T13:20:00Z"));
+
+    const [bumpSql, bumpParams] = db.query.mock.calls[0];
+    expect(bumpSql).toContain("INSERT INTO feedback_activity ");
+    expect(bumpSql).toContain("ON CONFLICT (bucket_start, asset, tag1) DO UPDATE");
+    expect(bumpParams).toEqual(["2026-01-01T13:00:00.000Z", "Asset111", "", 1, "99.77", 0, 0]);
+    const [clientSql, clientParams] = db.query.mock.calls[1];
+    expect(clientSql).toContain("INSERT INTO feedback_activity_clients");
+    expect(clientParams).toEqual(["2026-01-01T13:00:00.000Z", "Asset111", "", "Client111"]);
+  });
+
+  it("attributes revocations to the tag1 of their feedback", async () => {
+    const db = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ tag1: "uptime" }] })
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 }),
+    } as any;
+
+    await recordRevocationActivity(db, "Asset111", "Client111", 3n, new Date("2026-01-02T00:10:00Z"));
+
+    expect(db.query.mock.calls[0][1]).toEqual(["Asset111", "Client111", "3"]);
+    expect(db.query.mock.calls[1][1]).toEqual(["2026-01-02T00:00:00.000Z", "Asset111", "uptime", 0, "0", 1, 0]);
+  });
+});
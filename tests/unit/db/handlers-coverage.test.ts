@@ -273,6 +273,88 @@ describe("DB Handlers Coverage", () => {
 
       expect(mockDigestUri).not.toHaveBeenCalled();
     });
+
+    it("should keep a newer URI when a range backfill replays an older UriUpdated", async () => {
+      (prisma.eventLog.findFirst as any).mockResolvedValue({ id: "later-uri-update" });
+
+      const event: ProgramEvent = {
+        type: "UriUpdated",
+        data: { asset: TEST_ASSET, newUri: "https://example.com/old.json", updatedBy: TEST_OWNER },
+      };
+
+      await handleEventAtomic(prisma, event, { ...ctx, source: "backfill", txIndex: 4, eventOrdinal: 0 });
+
+      expect(prisma.eventLog.findFirst).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          asset: TEST_ASSET.toBase58(),
+          eventType: { in: ["UriUpdated"] },
+          processed: true,
+        }),
+        select: { id: true },
+      });
+      expect(prisma.agent.updateMany).not.toHaveBeenCalled();
+      expect(mockDigestUri).not.toHaveBeenCalled();
+    });
+
+    it("should keep newer ATOM metrics when a range backfill replays older feedback", async () => {
+      (prisma.eventLog.findFirst as any).mockResolvedValue({ id: "later-feedback" });
+      (prisma.agent.findUnique as any).mockResolvedValue({
+        trustTier: 3, qualityScore: 9000, confidence: 6000, riskScore: 5, diversityRatio: 400,
+      });
+      (prisma.feedback.aggregate as any).mockResolvedValue({ _count: { _all: 2 }, _avg: { score: 80 } });
+
+      const event: ProgramEvent = {
+        type: "NewFeedback",
+        data: {
+          asset: TEST_ASSET,
+          clientAddress: TEST_CLIENT,
+          feedbackIndex: 1n,
+          value: 9000n,
+          valueDecimals: 2,
+          score: 80,
+          tag1: "quality",
+          tag2: "",
+          endpoint: "",
+          feedbackUri: "",
+          feedbackFileHash: null,
+          sealHash: TEST_HASH,
+          slot: TEST_SLOT,
+          atomEnabled: true,
+          newFeedbackDigest: TEST_HASH,
+          newFeedbackCount: 1n,
+          newTrustTier: 1,
+          newQualityScore: 5000,
+          newConfidence: 1000,
+          newRiskScore: 40,
+          newDiversityRatio: 100,
+          isUniqueClient: true,
+        },
+      };
+
+      await handleEventAtomic(prisma, event, { ...ctx, source: "backfill" });
+
+      expect(prisma.agent.updateMany).toHaveBeenCalledWith({
+        where: { id: TEST_ASSET.toBase58() },
+        data: { feedbackCount: 2, rawAvgScore: 80 },
+      });
+      expect(prisma.reputationSnapshot.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ trustTier: 1, qualityScore: 5000, confidence: 1000 }),
+        })
+      );
+    });
+
+    it("should not look for later events outside range backfills", async () => {
+      const event: ProgramEvent = {
+        type: "UriUpdated",
+        data: { asset: TEST_ASSET, newUri: "https://example.com/new.json", updatedBy: TEST_OWNER },
+      };
+
+      await handleEventAtomic(prisma, event, ctx);
+
+      expect(prisma.eventLog.findFirst).not.toHaveBeenCalled();
+      expect(prisma.agent.updateMany).toHaveBeenCalled();
+    });
   });
 
   // ==========================================================================
@@ -253,12 +253,70 @@ describe("DB Handlers", () => {
               score: 85,
               value: "9500",
               valueDecimals: 2,
+              isUniqueClient: true,
               tag1: "quality",
               tag2: "speed",
             }),
           })
         );
       });
+
+      it("should snapshot the agent's ATOM metrics after the update", async () => {
+        const metrics = { trustTier: 2, qualityScore: 7100, confidence: 4200, riskScore: 12, diversityRatio: 180 };
+        (prisma.agent.findUnique as any).mockResolvedValue(metrics);
+
+        const event: ProgramEvent = {
+          type: "NewFeedback",
+          data: {
+            asset: TEST_ASSET,
+            clientAddress: TEST_CLIENT,
+            feedbackIndex: 3n,
+            value: 9500n,
+            valueDecimals: 2,
+            score: 85,
+            tag1: "quality",
+            tag2: "speed",
+            endpoint: "/api/chat",
+            feedbackUri: "ipfs://QmXXX",
+            feedbackFileHash: null,
+            sealHash: TEST_HASH,
+            slot: 123456n,
+            atomEnabled: true,
+            newFeedbackDigest: TEST_HASH,
+            newFeedbackCount: 4n,
+            newTrustTier: 2,
+            newQualityScore: 7100,
+            newConfidence: 4200,
+            newRiskScore: 12,
+            newDiversityRatio: 180,
+            isUniqueClient: true,
+          },
+        };
+
+        await handleEvent(prisma, event, ctx);
+
+        expect(prisma.reputationSnapshot.upsert).toHaveBeenCalledWith({
+          where: {
+            agentId_eventType_client_feedbackIndex: {
+              agentId: TEST_ASSET.toBase58(),
+              eventType: "feedback",
+              client: TEST_CLIENT.toBase58(),
+              feedbackIndex: 3n,
+            },
+          },
+          create: {
+            agentId: TEST_ASSET.toBase58(),
+            eventType: "feedback",
+            client: TEST_CLIENT.toBase58(),
+            feedbackIndex: 3n,
+            slot: TEST_SLOT,
+            txSignature: TEST_SIGNATURE,
+            blockTime: TEST_BLOCK_TIME,
+            ...metrics,
+          },
+          update: {},
+        });
+      });
     });
 
     describe("FeedbackRevoked", () => {
@@ -308,6 +366,8 @@ describe("DB Handlers", () => {
             }),
           })
         );
+        // No ATOM impact, no reputation snapshot
+        expect(prisma.reputationSnapshot.upsert).not.toHaveBeenCalled();
       });
 
       it("should store orphan revocation when feedback not found", async () => {
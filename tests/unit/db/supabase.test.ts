@@ -93,6 +93,7 @@ vi.mock("../../../src/logger.js", () => ({
 
 const mockMetadataQueue = {
   setPool: vi.fn(),
+  start: vi.fn(),
   add: vi.fn(),
   addBatch: vi.fn(),
 };
@@ -1139,6 +1140,17 @@ describe("supabase.ts", () => {
       expect(cursorCall![1]).toContain("poller");
     });
 
+    it("should not move the cursor for range backfills", async () => {
+      const event = {
+        type: "RegistryInitialized" as const,
+        data: { collection: TEST_COLLECTION, authority: TEST_OWNER },
+      };
+      await handleEventAtomic(event, { ...ctx, source: "backfill" as const });
+      const queries = mockClientInstance.query.mock.calls.map((c: any[]) => c[0]);
+      expect(queries.some((q: unknown) => typeof q === "string" && q.includes("indexer_state"))).toBe(false);
+      expect(queries[queries.length - 1]).toBe("COMMIT");
+    });
+
     describe("All event types via atomic handler", () => {
       it("AgentRegistered", async () => {
         const event = {
@@ -1174,7 +1186,8 @@ describe("supabase.ts", () => {
           await handleEventAtomic(event, ctx);
           expect(mockMetadataQueue.add).toHaveBeenCalledWith(
             TEST_ASSET.toBase58(),
-            "ipfs://QmTest"
+            "ipfs://QmTest",
+            { slot: ctx.slot, signature: ctx.signature }
           );
         } finally {
           (config as any).metadataIndexMode = "off";
@@ -1260,7 +1273,8 @@ describe("supabase.ts", () => {
           await handleEventAtomic(event, ctx);
           expect(mockMetadataQueue.add).toHaveBeenCalledWith(
             TEST_ASSET.toBase58(),
-            "ipfs://updated"
+            "ipfs://updated",
+            { slot: ctx.slot, signature: ctx.signature }
           );
         } finally {
           (config as any).metadataIndexMode = "off";
@@ -3133,4 +3147,121 @@ describe("supabase.ts", () => {
       expect(cursorCall![1][2]).toBe("poller");
     });
   });
+
+  // =========================================================================
+  // Range backfills replaying events older than the agent's state
+  // =========================================================================
+
+  describe("handleEventAtomic backfill ordering", () => {
+    function withLaterEvent() {
+      mockClientInstance.query.mockImplementation(async (sql: unknown) =>
+        typeof sql === "string" && sql.includes("FROM event_log")
+          ? { rows: [{ "?column?": 1 }], rowCount: 1 }
+          : { rows: [], rowCount: 1 }
+      );
+    }
+
+    function sqlCalls(): string[] {
+      return mockClientInstance.query.mock.calls
+        .map((c: any[]) => c[0])
+        .filter((q: unknown): q is string => typeof q === "string");
+    }
+
+    it("should keep a newer URI when an older UriUpdated is backfilled", async () => {
+      withLaterEvent();
+      const event = {
+        type: "UriUpdated" as const,
+        data: { asset: TEST_ASSET, newUri: "ipfs://QmOld", updatedBy: TEST_OWNER },
+      };
+      await handleEventAtomic(event, { ...ctx, source: "backfill" as const });
+
+      const lookup = mockClientInstance.query.mock.calls.find((c: any[]) =>
+        typeof c[0] === "string" && c[0].includes("FROM event_log")
+      );
+      expect(lookup![1].slice(0, 3)).toEqual([TEST_ASSET.toBase58(), ["UriUpdated"], ctx.slot.toString()]);
+      expect(sqlCalls().some((q) => q.includes("UPDATE agents SET agent_uri"))).toBe(false);
+      expect(sqlCalls()[sqlCalls().length - 1]).toBe("COMMIT");
+    });
+
+    it("should keep newer ATOM metrics when older feedback is backfilled", async () => {
+      withLaterEvent();
+      const event = {
+        type: "NewFeedback" as const,
+        data: {
+          asset: TEST_ASSET,
+          clientAddress: TEST_CLIENT,
+          feedbackIndex: 0n,
+          slot: 123456n,
+          value: 9500n,
+          valueDecimals: 2,
+          score: 85,
+          feedbackFileHash: null,
+          sealHash: TEST_HASH,
+          atomEnabled: true,
+          newTrustTier: 1,
+          newQualityScore: 8500,
+          newConfidence: 100,
+          newRiskScore: 0,
+          newDiversityRatio: 10000,
+          isUniqueClient: true,
+          newFeedbackDigest: TEST_HASH,
+          newFeedbackCount: 1n,
+          tag1: "quality",
+          tag2: "speed",
+          endpoint: "/api/chat",
+          feedbackUri: "ipfs://QmXXX",
+        },
+      };
+      await handleEventAtomic(event, { ...ctx, source: "backfill" as const });
+
+      expect(sqlCalls().some((q) => q.includes("trust_tier = $3"))).toBe(false);
+      const countUpdate = mockClientInstance.query.mock.calls.find((c: any[]) =>
+        typeof c[0] === "string" && c[0].includes("UPDATE agents SET") && c[0].includes("feedback_count")
+      );
+      expect(countUpdate![1]).toEqual([null, TEST_ASSET.toBase58()]);
+      const snapshot = mockClientInstance.query.mock.calls.find((c: any[]) =>
+        typeof c[0] === "string" && c[0].includes("reputation_snapshots")
+      );
+      expect(snapshot![1].slice(-5)).toEqual([1, 8500, 100, 0, 10000]);
+    });
+
+    it("should keep only the superseded agent columns when AgentRegistered is backfilled", async () => {
+      // Only a later UriUpdated exists: owner and atom_enabled still come from the event
+      mockClientInstance.query.mockImplementation(async (sql: unknown, params?: unknown[]) =>
+        typeof sql === "string" && sql.includes("FROM event_log") && (params?.[1] as string[]).includes("UriUpdated")
+          ? { rows: [{ "?column?": 1 }], rowCount: 1 }
+          : { rows: [], rowCount: 1 }
+      );
+      const event = {
+        type: "AgentRegistered" as const,
+        data: {
+          asset: TEST_ASSET,
+          collection: TEST_COLLECTION,
+          owner: TEST_OWNER,
+          atomEnabled: true,
+          agentUri: "ipfs://QmOld",
+        },
+      };
+      await handleEventAtomic(event, { ...ctx, source: "backfill" as const });
+
+      const upsert = mockClientInstance.query.mock.calls.find((c: any[]) =>
+        typeof c[0] === "string" && c[0].includes("INSERT INTO agents")
+      );
+      expect(upsert![0]).toContain("agent_uri = CASE WHEN $17::boolean THEN agents.agent_uri");
+      expect(upsert![0]).toContain("owner = CASE WHEN $18::boolean THEN agents.owner");
+      expect(upsert![1].slice(-4)).toEqual([true, false, false, true]);
+    });
+
+    it("should not look for later events outside range backfills", async () => {
+      withLaterEvent();
+      const event = {
+        type: "UriUpdated" as const,
+        data: { asset: TEST_ASSET, newUri: "ipfs://QmNew", updatedBy: TEST_OWNER },
+      };
+      await handleEventAtomic(event, { ...ctx, source: "poller" as const });
+
+      expect(sqlCalls().some((q) => q.includes("FROM event_log"))).toBe(false);
+      expect(sqlCalls().some((q) => q.includes("UPDATE agents SET agent_uri"))).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../../../src/config.js", () => ({
+  config: {
+    anomalyIntervalMs: 600000,
+    anomalyWindowMs: 86400000,
+  },
+}));
+
+vi.mock("../../../src/logger.js", () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(() => mockLogger),
+  };
+  return {
+    createChildLogger: vi.fn(() => mockLogger),
+    logger: mockLogger,
+  };
+});
+
+import { createMockPrismaClient } from "../../mocks/prisma.js";
+import {
+  AnomalyAnalyzer,
+  detectAnomalies,
+  type AnomalyFeedback,
+  type AnomalyInput,
+} from "../../../src/indexer/anomaly-analyzer.js";
+
+function feedback(client: string, index: number, value = "80", slot: bigint | null = 1000n + BigInt(index)): AnomalyFeedback {
+  return { client, feedbackIndex: BigInt(index), value, valueDecimals: 0, slot, isUniqueClient: null };
+}
+
+function input(overrides: Partial<AnomalyInput>): AnomalyInput {
+  return {
+    feedbacks: [],
+    revocations: [],
+    clientFirstSlots: new Map(),
+    riskScore: null,
+    diversityRatio: null,
+    ...overrides,
+  };
+}
+
+describe("detectAnomalies", () => {
+  it("flags many feedbacks from few clients", () => {
+    const feedbacks = Array.from({ length: 20 }, (_, i) => feedback(i % 2 ? "ClientA" : "ClientB", i));
+    feedbacks[0].isUniqueClient = true;
+    feedbacks[1].isUniqueClient = false;
+
+    const [flag] = detectAnomalies(input({ feedbacks, diversityRatio: 12, riskScore: 80 }));
+
+    expect(flag).toEqual({
+      kind: "client_concentration",
+      severity: "high",
+      score: 0.9,
+      evidence: expect.objectContaining({
+        feedbacks: 20,
+        clients: 2,
+        clientRatio: 0.1,
+        topClients: [{ client: "ClientB", count: 10 }, { client: "ClientA", count: 10 }],
+        uniqueClientShare: 0.5,
+        diversityRatio: 12,
+        riskScore: 80,
+      }),
+    });
+  });
+
+  it("flags a burst of first-time clients in a narrow slot range", () => {
+    const feedbacks = Array.from({ length: 6 }, (_, i) => feedback(`Fresh${i}`, i, "80", 5000n + BigInt(i * 20)));
+    feedbacks.push(feedback("Veteran", 6, "80", 5010n), feedback("Late", 7, "80", 9000n));
+    const clientFirstSlots = new Map<string, bigint>(feedbacks.map((f) => [f.client, f.slot!]));
+    clientFirstSlots.set("Veteran", 10n);
+
+    const flags = detectAnomalies(input({ feedbacks, clientFirstSlots }));
+
+    expect(flags).toEqual([{
+      kind: "client_cohort",
+      severity: "medium",
+      score: 0.75,
+      evidence: {
+        cohortSize: 6,
+        clients: 8,
+        slotStart: "5000",
+        slotEnd: "5100",
+        sampleClients: ["Fresh0", "Fresh1", "Fresh2", "Fresh3", "Fresh4", "Fresh5"],
+      },
+    }]);
+  });
+
+  it("flags revoke churn", () => {
+    const feedbacks = Array.from({ length: 10 }, (_, i) => feedback(`Client${i}`, i));
+    const revocations = Array.from({ length: 6 }, (_, i) => ({ client: `Client${i}`, feedbackIndex: BigInt(i) }));
+
+    const flags = detectAnomalies(input({ feedbacks, revocations }));
+
+    expect(flags).toEqual([expect.objectContaining({
+      kind: "revoke_churn",
+      severity: "high",
+      score: 0.6,
+      evidence: expect.objectContaining({ feedbacks: 10, revocations: 6 }),
+    })]);
+  });
+
+  it("flags values far from the median and ignores flat distributions", () => {
+    const values = ["78", "80", "82", "79", "81", "80", "83", "77", "80", "-100", "-100", "-100"];
+    const feedbacks = values.map((v, i) => feedback(`Client${i}`, i, v));
+
+    const flags = detectAnomalies(input({ feedbacks }));
+    expect(flags).toEqual([expect.objectContaining({
+      kind: "value_outlier",
+      severity: "medium",
+      score: 0.25,
+      evidence: expect.objectContaining({ median: 79.5, outlierCount: 3 }),
+    })]);
+
+    const flat = Array.from({ length: 12 }, (_, i) => feedback(`Client${i}`, i, i < 10 ? "80" : "0"));
+    expect(detectAnomalies(input({ feedbacks: flat }))).toEqual([]);
+  });
+
+  it("does not flag healthy agents", () => {
+    const feedbacks = Array.from({ length: 30 }, (_, i) => feedback(`Client${i}`, i, String(70 + (i % 10)), 1000n + BigInt(i * 1000)));
+    expect(detectAnomalies(input({ feedbacks }))).toEqual([]);
+  });
+});
+
+describe("AnomalyAnalyzer", () => {
+  it("upserts detected flags and clears the rest (Prisma)", async () => {
+    const prisma = createMockPrismaClient();
+    const revocations = Array.from({ length: 5 }, (_, i) => ({ agentId: "Agent1", client: `C${i}`, feedbackIndex: BigInt(i) }));
+    (prisma.feedback.findMany as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce([{ agentId: "Agent1" }])
+      .mockResolvedValueOnce([]);
+    (prisma.revocation.findMany as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce([{ agentId: "Agent1" }])
+      .mockResolvedValueOnce(revocations);
+    (prisma.agentAnomaly.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([{ agentId: "Agent2" }]);
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({ riskScore: 10, diversityRatio: 50 });
+
+    const analyzer = new AnomalyAnalyzer(prisma, null);
+    await analyzer.start();
+    const analyzed = await analyzer.analyze(new Date("2026-01-02T00:00:00Z"));
+    await analyzer.stop();
+
+    expect(analyzed).toBe(2);
+    expect(prisma.feedback.findMany).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      where: { createdAt: { gte: new Date("2026-01-01T00:00:00Z") }, status: { not: "ORPHANED" } },
+      distinct: ["agentId"],
+    }));
+    expect(prisma.agentAnomaly.upsert).toHaveBeenCalledTimes(1);
+    expect(prisma.agentAnomaly.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { agentId_kind: { agentId: "Agent1", kind: "revoke_churn" } },
+      update: expect.objectContaining({ severity: "high", score: 1 }),
+    }));
+    expect(prisma.agentAnomaly.deleteMany).toHaveBeenCalledWith({ where: { agentId: "Agent1", kind: { notIn: ["revoke_churn"] } } });
+    // Agent2 no longer shows any pattern
+    expect(prisma.agentAnomaly.deleteMany).toHaveBeenCalledWith({ where: { agentId: "Agent2", kind: { notIn: [] } } });
+  });
+
+  it("skips cycles when stopped", async () => {
+    const prisma = createMockPrismaClient();
+    expect(await new AnomalyAnalyzer(prisma, null).analyze()).toBe(0);
+    expect(prisma.feedback.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,375 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+import { createMockConnection, createMockSignatureInfo } from "../../mocks/solana.js";
+
+const { fetchTransactions, scanSignatureRange } = vi.hoisted(() => ({
+  fetchTransactions: vi.fn(),
+  scanSignatureRange: vi.fn(),
+}));
+
+vi.mock("../../../src/logger.js", () => ({
+  createChildLogger: vi.fn(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  })),
+}));
+vi.mock("../../../src/indexer/batch-processor.js", () => ({
+  BatchRpcFetcher: vi.fn().mockImplementation(function () {
+    return { fetchTransactions };
+  }),
+}));
+vi.mock("../../../src/indexer/signature-scan.js", () => ({
+  scanSignatureRange,
+  fetchTxIndexMap: vi.fn(async (_conn: unknown, _slot: number, sigs: Array<{ signature: string }>) =>
+    new Map(sigs.map((s, i) => [s.signature, i]))
+  ),
+}));
+vi.mock("../../../src/parser/decoder.js", () => ({
+  parseTransaction: vi.fn((tx: { events: unknown[] }) => ({ events: tx.events })),
+  toTypedEvent: vi.fn((event: { typed: unknown }) => event.typed),
+}));
+vi.mock("../../../src/utils/compression.js", () => ({
+  compressForStorage: vi.fn(async (data: Buffer) => data),
+}));
+// The real aggregate recompute runs against the mock Prisma client
+vi.mock("../../../src/db/handlers.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../src/db/handlers.js")>()),
+  reprojectEventTx: vi.fn(),
+}));
+vi.mock("../../../src/db/supabase.js", () => ({ reprojectEventTx: vi.fn(), syncAgentFeedbackStatsTx: vi.fn() }));
+vi.mock("../../../src/db/event-log.js", () => ({
+  appendEventLogPrisma: vi.fn(),
+  appendEventLogPg: vi.fn(),
+}));
+vi.mock("../../../src/utils/pda.js", () => ({
+  getAgentPda: vi.fn((asset: PublicKey) => [asset, 255]),
+  parseAssetPubkey: vi.fn((id: string) => new PublicKey(id)),
+}));
+vi.mock("../../../src/indexer/live-events.js", () => ({
+  liveEvents: { publishVerification: vi.fn() },
+}));
+
+import { reprojectEventTx } from "../../../src/db/handlers.js";
+import {
+  reprojectEventTx as reprojectEventSupabase,
+  syncAgentFeedbackStatsTx as syncAgentStatsSupabase,
+} from "../../../src/db/supabase.js";
+import { appendEventLogPrisma } from "../../../src/db/event-log.js";
+import { liveEvents } from "../../../src/indexer/live-events.js";
+import { ChainRepairer, type ChainEvent } from "../../../src/indexer/chain-repair.js";
+
+const AGENT = new PublicKey(new Uint8Array(32).fill(1));
+const OTHER_AGENT = new PublicKey(new Uint8Array(32).fill(2));
+const CLIENT = new PublicKey(new Uint8Array(32).fill(3));
+const AGENT_ID = AGENT.toBase58();
+
+function digest(n: number): Buffer {
+  return Buffer.alloc(32, n);
+}
+
+function feedbackEvent(index: number, opts: { asset?: PublicKey; digestByte?: number } = {}) {
+  return {
+    type: "NewFeedback",
+    data: {
+      asset: opts.asset ?? AGENT,
+      clientAddress: CLIENT,
+      feedbackIndex: BigInt(index),
+      value: 90n,
+      valueDecimals: 0,
+      score: 90,
+      tag1: "quality",
+      tag2: "",
+      endpoint: "",
+      feedbackUri: `ipfs://fb${index}`,
+      sealHash: new Uint8Array(32).fill(index),
+      newFeedbackDigest: new Uint8Array(digest(opts.digestByte ?? index + 1)),
+      newFeedbackCount: BigInt(index + 1),
+    },
+  };
+}
+
+function chainEvent(index: number, digestByte = index + 1): ChainEvent {
+  const event = feedbackEvent(index, { digestByte });
+  return {
+    count: BigInt(index + 1),
+    key: `${CLIENT.toBase58()}:${index}`,
+    digest: digest(digestByte),
+    event: event as any,
+    ctx: { signature: `sig${index}`, slot: BigInt(100 + index), blockTime: new Date(0), txIndex: 0, eventOrdinal: 0 },
+  };
+}
+
+function feedbackRow(index: number, opts: { digestByte?: number; slot?: number; status?: string; client?: string } = {}) {
+  return {
+    id: `fb-${index}-${opts.client ?? "c"}`,
+    client: opts.client ?? CLIENT.toBase58(),
+    feedbackIndex: BigInt(index),
+    runningDigest: digest(opts.digestByte ?? index + 1),
+    createdSlot: BigInt(opts.slot ?? 100 + index),
+    status: opts.status ?? "FINALIZED",
+  };
+}
+
+function createMockPrisma() {
+  const prisma: any = {
+    feedback: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn().mockResolvedValue(null),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      aggregate: vi.fn().mockResolvedValue({ _count: { _all: 0 }, _avg: { score: null } }),
+    },
+    feedbackResponse: { findMany: vi.fn().mockResolvedValue([]), findFirst: vi.fn().mockResolvedValue(null) },
+    agent: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+    revocation: { findMany: vi.fn().mockResolvedValue([]), findFirst: vi.fn().mockResolvedValue(null) },
+    agentDigestCache: { findMany: vi.fn().mockResolvedValue([]), updateMany: vi.fn() },
+    hashChainRepair: { create: vi.fn() },
+    $executeRaw: vi.fn(),
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: unknown) => Promise<void>) => fn(prisma));
+  return prisma;
+}
+
+describe("ChainRepairer", () => {
+  let connection: ReturnType<typeof createMockConnection>;
+  let prisma: ReturnType<typeof createMockPrisma>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    connection = createMockConnection();
+    prisma = createMockPrisma();
+  });
+
+  describe("fetchChainEvents", () => {
+    it("collects this agent's chain events ordered by chain position", async () => {
+      scanSignatureRange.mockResolvedValue([createMockSignatureInfo("s1", 10), createMockSignatureInfo("s2", 11)]);
+      fetchTransactions.mockResolvedValue(new Map([
+        ["s1", { events: [
+          { typed: feedbackEvent(1), raw: "r1" },
+          { typed: { type: "AgentRegistered", data: {} }, raw: "r-other" },
+        ] }],
+        ["s2", { events: [
+          { typed: feedbackEvent(0), raw: "r0" },
+          { typed: feedbackEvent(5, { asset: OTHER_AGENT }), raw: "r5" },
+        ] }],
+      ]));
+
+      const events = await new ChainRepairer(connection as any, prisma, null).fetchChainEvents(AGENT_ID, 10n);
+
+      expect(scanSignatureRange).toHaveBeenCalledWith(connection, AGENT, { fromSlot: 10 }, 1000);
+      expect(events.feedback.map((e) => [e.count, e.ctx.signature, e.ctx.eventOrdinal])).toEqual([
+        [1n, "s2", 0],
+        [2n, "s1", 0],
+      ]);
+      expect(events.feedback[0].ctx).toEqual(expect.objectContaining({ slot: 11n, rawEvent: "r0", source: "backfill" }));
+      expect(events.response).toEqual([]);
+      expect(events.revoke).toEqual([]);
+    });
+
+    it("scans the full history when no start slot is known", async () => {
+      scanSignatureRange.mockResolvedValue([]);
+      fetchTransactions.mockResolvedValue(new Map());
+
+      await new ChainRepairer(connection as any, prisma, null).fetchChainEvents(AGENT_ID, null);
+
+      expect(scanSignatureRange).toHaveBeenCalledWith(connection, AGENT, { fromSlot: 0 }, 1000);
+    });
+
+    it("fails rather than returning a partial history", async () => {
+      scanSignatureRange.mockResolvedValue([createMockSignatureInfo("s1", 10)]);
+      fetchTransactions.mockResolvedValue(new Map());
+      connection.getParsedTransaction.mockResolvedValue(null);
+
+      await expect(new ChainRepairer(connection as any, prisma, null).fetchChainEvents(AGENT_ID, 10n))
+        .rejects.toThrow("Transaction s1 not found");
+    });
+  });
+
+  describe("repairChain", () => {
+    const head = (count: number) => ({ digest: digest(count), count: BigInt(count) });
+
+    it("rewrites rows from the first divergent event and orphans unknown finalized rows", async () => {
+      prisma.feedback.findMany.mockResolvedValue([
+        feedbackRow(0),
+        feedbackRow(1, { digestByte: 0xee, status: "PENDING" }), // same key, wrong digest
+        feedbackRow(1, { client: "stranger", slot: 150, status: "PENDING" }), // not on-chain
+        feedbackRow(3, { slot: 300, status: "PENDING" }), // past head, not finalized yet
+      ]);
+      const events = [chainEvent(0), chainEvent(1), chainEvent(2)];
+
+      const result = await new ChainRepairer(connection as any, prisma, null)
+        .repairChain(AGENT_ID, "feedback", events, head(3), 200n, true);
+
+      expect(result).toEqual({ chain: "feedback", divergentCount: 2n, updated: 1, inserted: 1, orphaned: 1 });
+      expect(prisma.feedback.update).toHaveBeenCalledWith({
+        where: { id: "fb-1-c" },
+        data: expect.objectContaining({
+          runningDigest: Uint8Array.from(digest(2)),
+          createdTxSignature: "sig1",
+          createdSlot: 101n,
+          status: "PENDING",
+          verifiedAt: null,
+        }),
+      });
+      expect(reprojectEventTx).toHaveBeenCalledTimes(1);
+      expect(reprojectEventTx).toHaveBeenCalledWith(prisma, events[2].event, { ...events[2].ctx, source: "backfill" });
+      expect(appendEventLogPrisma).toHaveBeenCalledTimes(2);
+      expect(prisma.feedback.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["fb-1-stranger"] } },
+        data: { status: "ORPHANED", verifiedAt: expect.any(Date) },
+      });
+      expect(liveEvents.publishVerification).toHaveBeenCalledWith(
+        "feedback", ["fb-1-stranger"], AGENT_ID, "ORPHANED", expect.any(Date)
+      );
+    });
+
+    it("recomputes the agent's feedback aggregates without orphaned rows", async () => {
+      const stored = [
+        { ...feedbackRow(0), agentId: AGENT_ID, revoked: false, score: 80 },
+        { ...feedbackRow(1, { client: "stranger", slot: 150 }), agentId: AGENT_ID, revoked: false, score: 20 },
+      ];
+      prisma.feedback.findMany.mockResolvedValue(stored);
+      prisma.feedback.updateMany.mockImplementation(async ({ where, data }: any) => {
+        for (const row of stored) if (where.id.in.includes(row.id)) Object.assign(row, data);
+        return { count: where.id.in.length };
+      });
+      prisma.feedback.aggregate.mockImplementation(async ({ where }: any) => {
+        const live = stored.filter((r) =>
+          r.agentId === where.agentId && r.revoked === where.revoked && r.status !== where.status.not
+        );
+        const avg = live.length > 0 ? live.reduce((sum, r) => sum + r.score, 0) / live.length : null;
+        return { _count: { _all: live.length }, _avg: { score: avg } };
+      });
+
+      const result = await new ChainRepairer(connection as any, prisma, null)
+        .repairChain(AGENT_ID, "feedback", [chainEvent(0)], head(1), 200n, true);
+
+      expect(result.orphaned).toBe(1);
+      expect(prisma.agent.updateMany).toHaveBeenCalledWith({
+        where: { id: AGENT_ID },
+        data: { feedbackCount: 1, rawAvgScore: 80 },
+      });
+    });
+
+    it("leaves a consistent chain untouched", async () => {
+      prisma.feedback.findMany.mockResolvedValue([feedbackRow(0), feedbackRow(1)]);
+
+      const result = await new ChainRepairer(connection as any, prisma, null)
+        .repairChain(AGENT_ID, "feedback", [chainEvent(0), chainEvent(1)], head(2), 200n, true);
+
+      expect(result.divergentCount).toBeNull();
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("refuses to rewrite from an incomplete history", async () => {
+      const repairer = new ChainRepairer(connection as any, prisma, null);
+
+      await expect(repairer.repairChain(AGENT_ID, "feedback", [chainEvent(0), chainEvent(2)], head(3), 200n, true))
+        .rejects.toThrow("missing event #2");
+      await expect(repairer.repairChain(AGENT_ID, "feedback", [chainEvent(1)], head(2), 200n, true))
+        .rejects.toThrow("starts at #2");
+      await expect(repairer.repairChain(AGENT_ID, "feedback", [chainEvent(0)], head(2), 200n, false))
+        .rejects.toThrow("head is #2");
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("re-applies revocations through the handlers on the pg path", async () => {
+      const client = { query: vi.fn().mockResolvedValue({ rows: [] }), release: vi.fn() };
+      const pool = {
+        query: vi.fn().mockResolvedValue({ rows: [] }),
+        connect: vi.fn().mockResolvedValue(client),
+      };
+      const revoke: ChainEvent = {
+        ...chainEvent(0),
+        event: { type: "FeedbackRevoked", data: { asset: AGENT, clientAddress: CLIENT, feedbackIndex: 0n } } as any,
+      };
+
+      const result = await new ChainRepairer(connection as any, null, pool as any)
+        .repairChain(AGENT_ID, "revoke", [revoke], head(1), 200n, true);
+
+      expect(result.inserted).toBe(1);
+      expect(reprojectEventSupabase).toHaveBeenCalledWith(client, revoke.event, { ...revoke.ctx, source: "backfill" });
+      expect(syncAgentStatsSupabase).toHaveBeenCalledWith(client, AGENT_ID);
+      expect(client.query.mock.calls.map((c) => c[0])).toEqual(["BEGIN", "COMMIT"]);
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe("gap-fill queue", () => {
+    it("starts after the head row when it still matches on-chain", async () => {
+      prisma.feedback.findMany.mockResolvedValue([feedbackRow(1, { slot: 420 })]);
+
+      const slot = await new ChainRepairer(connection as any, prisma, null)
+        .findGapFillSlot(AGENT_ID, "feedback", { digest: digest(2), count: 2n });
+
+      expect(slot).toBe(420n);
+      expect(prisma.feedback.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the newest finalized row otherwise", async () => {
+      prisma.feedback.findMany.mockResolvedValue([feedbackRow(1, { digestByte: 0xee })]);
+      prisma.feedback.findFirst.mockResolvedValue({ createdSlot: 77n });
+
+      const slot = await new ChainRepairer(connection as any, prisma, null)
+        .findGapFillSlot(AGENT_ID, "feedback", { digest: digest(2), count: 2n });
+
+      expect(slot).toBe(77n);
+      expect(prisma.feedback.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { agentId: AGENT_ID, status: "FINALIZED" },
+      }));
+    });
+
+    it("keeps the lowest start slot when an agent is flagged twice (pg)", async () => {
+      const pool = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+
+      await new ChainRepairer(connection as any, null, pool as any).markGapFill(AGENT_ID, 42n);
+
+      const [sql, params] = pool.query.mock.calls[0];
+      expect(sql).toContain("LEAST(agent_digest_cache.gap_fill_from_slot, EXCLUDED.gap_fill_from_slot)");
+      expect(params).toEqual([AGENT_ID, "42"]);
+    });
+
+    it("records repair attempts in the audit table", async () => {
+      await new ChainRepairer(connection as any, prisma, null).recordRepair({
+        agentId: AGENT_ID,
+        chain: "feedback",
+        status: "REPAIRED",
+        fromSlot: null,
+        onChainCount: 3n,
+        divergentCount: 2n,
+        updated: 1,
+        inserted: 1,
+        orphaned: 0,
+      });
+
+      expect(prisma.hashChainRepair.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ agentId: AGENT_ID, chainType: "feedback", status: "REPAIRED", rowsInserted: 1, error: null }),
+      });
+    });
+  });
+
+  describe("verifyChain", () => {
+    it("accepts a chain matching the head with unfinalized rows past it", async () => {
+      prisma.feedback.findMany.mockResolvedValue([feedbackRow(0), feedbackRow(1), feedbackRow(2, { slot: 300 })]);
+
+      await expect(new ChainRepairer(connection as any, prisma, null)
+        .verifyChain(AGENT_ID, "feedback", { digest: digest(2), count: 2n }, 200n)).resolves.toBe(true);
+    });
+
+    it("rejects gaps, wrong head digests and finalized rows past the head", async () => {
+      const repairer = new ChainRepairer(connection as any, prisma, null);
+      const headDigest = { digest: digest(2), count: 2n };
+
+      prisma.feedback.findMany.mockResolvedValueOnce([feedbackRow(1)]);
+      await expect(repairer.verifyChain(AGENT_ID, "feedback", headDigest, 200n)).resolves.toBe(false);
+
+      prisma.feedback.findMany.mockResolvedValueOnce([feedbackRow(0), feedbackRow(1, { digestByte: 0xee })]);
+      await expect(repairer.verifyChain(AGENT_ID, "feedback", headDigest, 200n)).resolves.toBe(false);
+
+      prisma.feedback.findMany.mockResolvedValueOnce([feedbackRow(0), feedbackRow(1), feedbackRow(2, { slot: 150 })]);
+      await expect(repairer.verifyChain(AGENT_ID, "feedback", headDigest, 200n)).resolves.toBe(false);
+    });
+  });
+});
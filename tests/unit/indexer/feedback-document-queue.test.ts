@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHash } from "crypto";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+
+const { capturedTasks, mockPQueueInstance } = vi.hoisted(() => {
+  const capturedTasks: Array<() => Promise<void>> = [];
+  const mockPQueueInstance = {
+    size: 0,
+    pending: 0,
+    add: vi.fn((fn: () => Promise<void>) => {
+      capturedTasks.push(fn);
+      return Promise.resolve();
+    }),
+    onIdle: vi.fn().mockResolvedValue(undefined),
+  };
+  return { capturedTasks, mockPQueueInstance };
+});
+
+vi.mock("p-queue", () => {
+  class MockPQueue {
+    constructor() {
+      return mockPQueueInstance as any;
+    }
+  }
+  return { default: MockPQueue };
+});
+
+vi.mock("../../../src/config.js", () => ({
+  config: {
+    feedbackDocumentsEnabled: true,
+    metadataIndexMode: "normal",
+    metadataMaxBytes: 262144,
+    metadataTimeoutMs: 5000,
+    ipfsGateways: [{ name: "ipfs.io", url: "https://ipfs.io" }],
+    arweaveGateways: [{ name: "arweave.net", url: "https://arweave.net" }],
+    ipfsVerifyCid: true,
+  },
+}));
+
+vi.mock("../../../src/logger.js", () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    fatal: vi.fn(),
+    child: vi.fn(() => mockLogger),
+  };
+  return {
+    createChildLogger: vi.fn(() => mockLogger),
+    logger: mockLogger,
+  };
+});
+
+vi.mock("../../../src/indexer/uriDigest.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../src/indexer/uriDigest.js")>()),
+  fetchUriContent: vi.fn(),
+}));
+
+import {
+  digestFeedbackDocument,
+  feedbackDocumentQueue,
+  fileHashHex,
+  sanitizeDocument,
+} from "../../../src/indexer/feedback-document-queue.js";
+import { fetchUriContent } from "../../../src/indexer/uriDigest.js";
+import { config } from "../../../src/config.js";
+
+const FEEDBACK = Buffer.from(JSON.stringify({ text: "<b>Great</b> agent", rating: 5, proofOfPayment: { txHash: "abc" } }));
+const KECCAK = Buffer.from(keccak_256(FEEDBACK)).toString("hex");
+const SHA256 = createHash("sha256").update(FEEDBACK).digest("hex");
+
+const TASK = {
+  id: "asset1:client1:0",
+  kind: "feedback" as const,
+  asset: "asset1",
+  uri: "https://example.com/feedback.json",
+  expectedHash: KECCAK,
+};
+
+function createMockPool() {
+  return {
+    query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+  } as any;
+}
+
+async function runCapturedTasks() {
+  const tasks = [...capturedTasks];
+  capturedTasks.length = 0;
+  for (const fn of tasks) {
+    await fn();
+  }
+}
+
+describe("FeedbackDocumentQueue", () => {
+  let mockPool: ReturnType<typeof createMockPool>;
+
+  beforeEach(() => {
+    const q = feedbackDocumentQueue as any;
+    q.pending.clear();
+    q.stats = {
+      queued: 0, processed: 0, verified: 0, mismatched: 0, skippedDuplicate: 0,
+      deferred: 0, retried: 0, failed: 0, errors: 0,
+    };
+    capturedTasks.length = 0;
+    mockPQueueInstance.size = 0;
+    mockPQueueInstance.pending = 0;
+    mockPool = createMockPool();
+    feedbackDocumentQueue.setPool(mockPool);
+    (fetchUriContent as any).mockResolvedValue({ status: "ok", bytes: FEEDBACK.length, body: FEEDBACK });
+  });
+
+  describe("digestFeedbackDocument", () => {
+    it("verifies keccak-256 and sha-256 file hashes", () => {
+      const fetched = { status: "ok" as const, body: FEEDBACK };
+      expect(digestFeedbackDocument(fetched, KECCAK)).toMatchObject({
+        status: "ok", hashVerified: true, hashAlgorithm: "keccak256", contentHash: SHA256,
+      });
+      expect(digestFeedbackDocument(fetched, SHA256.toUpperCase())).toMatchObject({
+        hashVerified: true, hashAlgorithm: "sha256",
+      });
+    });
+
+    it("flags a mismatch but keeps the sanitized copy", () => {
+      const result = digestFeedbackDocument({ status: "ok", body: FEEDBACK }, "ff".repeat(32));
+      expect(result.hashVerified).toBe(false);
+      expect(result.hashAlgorithm).toBeUndefined();
+      expect(result.content).toEqual({ text: "Great agent", rating: 5, proofOfPayment: { txHash: "abc" } });
+    });
+
+    it("leaves hashVerified null without an on-chain hash or a body", () => {
+      expect(digestFeedbackDocument({ status: "ok", body: FEEDBACK }, null).hashVerified).toBeNull();
+      expect(digestFeedbackDocument({ status: "timeout" }, KECCAK)).toEqual({
+        status: "timeout", error: undefined, bytes: undefined, hashVerified: null,
+      });
+    });
+
+    it("still checks the hash of documents that are not JSON", () => {
+      const body = Buffer.from("plain text review");
+      const hash = Buffer.from(keccak_256(body)).toString("hex");
+      const result = digestFeedbackDocument({ status: "ok", body }, hash);
+      expect(result).toMatchObject({ status: "invalid_json", hashVerified: true });
+      expect(result.content).toBeUndefined();
+    });
+  });
+
+  describe("sanitizeDocument", () => {
+    it("bounds nesting and array sizes", () => {
+      let nested: unknown = "leaf";
+      for (let i = 0; i < 12; i++) nested = { next: nested };
+      const json = JSON.stringify(sanitizeDocument(nested));
+      expect(json).not.toContain("leaf");
+      expect((sanitizeDocument(Array.from({ length: 500 }, (_, i) => i)) as unknown[]).length).toBe(100);
+      expect(sanitizeDocument(JSON.parse('{"__proto__":{"polluted":true},"ok":1}'))).toEqual({ ok: 1 });
+    });
+  });
+
+  describe("fileHashHex", () => {
+    it("treats missing and all-zero hashes as absent", () => {
+      expect(fileHashHex(null)).toBeNull();
+      expect(fileHashHex(new Uint8Array(32))).toBeNull();
+      expect(fileHashHex(Uint8Array.from([0xab, 0x01]))).toBe("ab01");
+    });
+  });
+
+  describe("queue", () => {
+    it("fetches, verifies and stores the document", async () => {
+      feedbackDocumentQueue.add(TASK);
+      await runCapturedTasks();
+
+      expect(fetchUriContent).toHaveBeenCalledWith(TASK.uri);
+      const insert = mockPool.query.mock.calls.find(([sql]: [string]) => sql.includes("INSERT INTO feedback_documents"));
+      expect(insert[1]).toEqual([
+        TASK.id, "feedback", "asset1", TASK.uri, "ok", null, FEEDBACK.length,
+        KECCAK, SHA256, "keccak256", true, null,
+        JSON.stringify({ text: "Great agent", rating: 5, proofOfPayment: { txHash: "abc" } }),
+      ]);
+      expect(feedbackDocumentQueue.getStats()).toMatchObject({ processed: 1, verified: 1 });
+    });
+
+    it("skips documents already stored for the same URI", async () => {
+      mockPool.query.mockImplementation(async (sql: string) =>
+        sql.includes("FROM feedback_documents")
+          ? { rows: [{ uri: TASK.uri, status: "ok" }], rowCount: 1 }
+          : { rows: [], rowCount: 0 }
+      );
+      feedbackDocumentQueue.add(TASK);
+      await runCapturedTasks();
+
+      expect(fetchUriContent).not.toHaveBeenCalled();
+      expect(feedbackDocumentQueue.getStats().skippedDuplicate).toBe(1);
+    });
+
+    it("deduplicates pending tasks and honours the feature flag", () => {
+      feedbackDocumentQueue.add(TASK);
+      feedbackDocumentQueue.add(TASK);
+      (config as any).feedbackDocumentsEnabled = false;
+      feedbackDocumentQueue.add({ ...TASK, id: "asset1:client1:1" });
+      (config as any).feedbackDocumentsEnabled = true;
+
+      expect(feedbackDocumentQueue.getStats()).toMatchObject({ queued: 1, skippedDuplicate: 1, pendingCount: 1 });
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHash } from "crypto";
+
+vi.mock("../../../src/config.js", () => ({
+  config: {
+    metadataIndexMode: "normal",
+    metadataMaxBytes: 1024,
+    metadataTimeoutMs: 5000,
+    ipfsGateways: [
+      { name: "local", url: "http://127.0.0.1:8080" },
+      { name: "public", url: "https://ipfs.example", timeoutMs: 2000 },
+    ],
+    arweaveGateways: [{ name: "arweave.net", url: "https://arweave.net" }],
+    ipfsVerifyCid: true,
+  },
+}));
+
+vi.mock("../../../src/logger.js", () => ({
+  createChildLogger: vi.fn(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  })),
+}));
+
+import { formatCid, parseCid } from "../../../src/utils/cid.js";
+
+const RAW_BLOCK = "application/vnd.ipld.raw";
+
+function varint(value: number): number[] {
+  const out: number[] = [];
+  while (value >= 0x80) {
+    out.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  out.push(value);
+  return out;
+}
+
+function field(tag: number, bytes: Uint8Array | number[]): number[] {
+  return [tag, ...varint(bytes.length), ...bytes];
+}
+
+function cidFor(codec: number, block: Uint8Array): Uint8Array {
+  return Uint8Array.from([0x01, codec, 0x12, 0x20, ...createHash("sha256").update(block).digest()]);
+}
+
+function cidText(cidBytes: Uint8Array): string {
+  return formatCid(parseCid(`f${Buffer.from(cidBytes).toString("hex")}`)!);
+}
+
+/**
+ * dag-pb node: links first, then the UnixFS Data message (Type = 1 directory, 2 file)
+ */
+function dagPb(unixFsType: number, links: Array<{ cid: Uint8Array; name?: string }>): Uint8Array {
+  const bytes: number[] = [];
+  for (const link of links) {
+    const encoded = [...field(0x0a, link.cid), ...(link.name ? field(0x12, Buffer.from(link.name)) : [])];
+    bytes.push(...field(0x12, encoded));
+  }
+  bytes.push(...field(0x0a, [0x08, unixFsType]));
+  return Uint8Array.from(bytes);
+}
+
+const REGISTRATION = Buffer.from(JSON.stringify({ name: "Verified Agent", description: "Served from IPFS" }));
+const RAW_CID = cidFor(0x55, REGISTRATION);
+
+// agent.json split in two raw chunks, inside a directory
+const CHUNK_A = REGISTRATION.subarray(0, 20);
+const CHUNK_B = REGISTRATION.subarray(20);
+const FILE_NODE = dagPb(2, [{ cid: cidFor(0x55, CHUNK_A) }, { cid: cidFor(0x55, CHUNK_B) }]);
+const DIR_NODE = dagPb(1, [{ cid: cidFor(0x70, FILE_NODE), name: "agent.json" }]);
+
+const BLOCKS = new Map<string, Uint8Array>([
+  [cidText(RAW_CID), REGISTRATION],
+  [cidText(cidFor(0x55, CHUNK_A)), CHUNK_A],
+  [cidText(cidFor(0x55, CHUNK_B)), CHUNK_B],
+  [cidText(cidFor(0x70, FILE_NODE)), FILE_NODE],
+  [cidText(cidFor(0x70, DIR_NODE)), DIR_NODE],
+]);
+
+type Handler = (gateway: string, path: string) => Response | Promise<Response>;
+
+function serveBlocks(gateway: string, path: string): Response {
+  const match = path.match(/^\/ipfs\/([^?]+)\?format=raw$/);
+  const block = match ? BLOCKS.get(match[1]) : undefined;
+  return block
+    ? new Response(block, { headers: { "content-type": RAW_BLOCK } })
+    : new Response("not found", { status: 404 });
+}
+
+function mockFetch(handler: Handler) {
+  const fetchMock = vi.fn(async (url: string) => {
+    const parsed = new URL(url);
+    return handler(parsed.host, `${parsed.pathname}${parsed.search}`);
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+// Fresh module state (pool health) per test
+async function load() {
+  vi.resetModules();
+  const gateways = await import("../../../src/indexer/gateways.js");
+  const { digestCollectionPointerDoc } = await import("../../../src/indexer/collectionDigest.js");
+  return { ...gateways, digestCollectionPointerDoc };
+}
+
+describe("Gateways", () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe("fetchIpfsContent", () => {
+    it("fetches a raw CID as a block and verifies it", async () => {
+      const { fetchIpfsContent } = await load();
+      const fetchMock = mockFetch(serveBlocks);
+
+      const result = await fetchIpfsContent(cidText(RAW_CID));
+
+      expect(result).toMatchObject({ status: "ok", gateway: "local", cidVerified: true, bytes: REGISTRATION.length });
+      expect(result.body!.equals(REGISTRATION)).toBe(true);
+      expect(fetchMock).toHaveBeenCalledWith(
+        `http://127.0.0.1:8080/ipfs/${cidText(RAW_CID)}?format=raw`,
+        expect.objectContaining({ headers: expect.objectContaining({ Accept: RAW_BLOCK }) })
+      );
+    });
+
+    it("resolves a directory path and reassembles a chunked file", async () => {
+      const { fetchIpfsContent } = await load();
+      const fetchMock = mockFetch(serveBlocks);
+
+      const result = await fetchIpfsContent(`${cidText(cidFor(0x70, DIR_NODE))}/agent.json`);
+
+      expect(result).toMatchObject({ status: "ok", cidVerified: true });
+      expect(result.body!.equals(REGISTRATION)).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(4); // directory, file node, two chunks
+    });
+
+    it("rejects bytes that do not hash to the CID and fails over", async () => {
+      const { fetchIpfsContent, getGatewayPool } = await load();
+      const fetchMock = mockFetch((gateway, path) =>
+        gateway === "127.0.0.1:8080"
+          ? new Response(Buffer.from('{"name":"Tampered"}'), { headers: { "content-type": RAW_BLOCK } })
+          : serveBlocks(gateway, path)
+      );
+
+      const result = await fetchIpfsContent(cidText(RAW_CID));
+
+      expect(result).toMatchObject({ status: "ok", gateway: "public", cidVerified: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(getGatewayPool("ipfs").getStats()[0]).toMatchObject({ name: "local", consecutiveFailures: 1 });
+    });
+
+    it("reports cid_mismatch when no gateway serves matching bytes", async () => {
+      const { fetchIpfsContent } = await load();
+      mockFetch(() => new Response(Buffer.from("{}"), { headers: { "content-type": RAW_BLOCK } }));
+
+      const result = await fetchIpfsContent(cidText(RAW_CID));
+
+      expect(result.status).toBe("cid_mismatch");
+      expect(result.body).toBeUndefined();
+    });
+
+    it("fetches unparseable CIDs as plain paths, unverified", async () => {
+      const { fetchIpfsContent } = await load();
+      const fetchMock = mockFetch(() => new Response(REGISTRATION));
+
+      const result = await fetchIpfsContent("QmTest123/agent.json");
+
+      expect(result).toMatchObject({ status: "ok", cidVerified: false });
+      expect(fetchMock).toHaveBeenCalledWith("http://127.0.0.1:8080/ipfs/QmTest123/agent.json", expect.any(Object));
+    });
+
+    it("stops failing over when content is too large", async () => {
+      const { fetchIpfsContent } = await load();
+      const fetchMock = mockFetch(() => new Response(Buffer.alloc(2048, 0x20)));
+
+      const result = await fetchIpfsContent("QmTest123");
+
+      expect(result).toMatchObject({ status: "oversize", bytes: 2048 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports a missing CID", async () => {
+      const { fetchIpfsContent } = await load();
+      expect(await fetchIpfsContent("")).toEqual({ status: "error", error: "Missing CID" });
+    });
+  });
+
+  describe("GatewayPool", () => {
+    it("puts a gateway in cooldown after consecutive failures", async () => {
+      const { GatewayPool } = await load();
+      const pool = new GatewayPool("ipfs", [
+        { name: "local", url: "http://127.0.0.1:8080" },
+        { name: "public", url: "https://ipfs.example" },
+      ]);
+      const attempts: string[] = [];
+      const attempt = vi.fn(async (gateway: { name: string }) => {
+        attempts.push(gateway.name);
+        if (gateway.name === "local") throw new Error("ECONNREFUSED");
+        return { status: "ok" as const, body: Buffer.from("{}") };
+      });
+
+      for (let i = 0; i < 3; i++) {
+        expect(await pool.fetch(attempt)).toMatchObject({ status: "ok", gateway: "public" });
+      }
+      attempts.length = 0;
+      await pool.fetch(attempt);
+
+      expect(attempts).toEqual(["public"]);
+      expect(pool.getStats().map((s) => s.healthy)).toEqual([false, true]);
+    });
+
+    it("does not count not-found responses against a gateway", async () => {
+      const { fetchIpfsContent, getGatewayPool } = await load();
+      mockFetch(() => new Response("not found", { status: 404 }));
+
+      for (let i = 0; i < 3; i++) {
+        expect(await fetchIpfsContent("QmTest123")).toMatchObject({ status: "error", error: "HTTP 404" });
+      }
+
+      expect(getGatewayPool("ipfs").getStats().every((s) => s.healthy && s.consecutiveFailures === 0)).toBe(true);
+    });
+
+    it("requires at least one gateway", async () => {
+      const { GatewayPool } = await load();
+      expect(() => new GatewayPool("arweave", [])).toThrow("at least one gateway");
+    });
+  });
+
+  describe("digestCollectionPointerDoc", () => {
+    it("parses a verified collection document", async () => {
+      const { digestCollectionPointerDoc } = await load();
+      mockFetch(serveBlocks);
+
+      const result = await digestCollectionPointerDoc(`c1:${cidText(RAW_CID)}`);
+
+      expect(result).toMatchObject({
+        status: "ok",
+        cidVerified: true,
+        hash: createHash("sha256").update(REGISTRATION).digest("hex"),
+        fields: expect.objectContaining({ name: "Verified Agent", description: "Served from IPFS" }),
+      });
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+
+vi.mock("../../../src/logger.js", () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(() => mockLogger),
+  };
+  return {
+    createChildLogger: vi.fn(() => mockLogger),
+    logger: mockLogger,
+  };
+});
+
+import {
+  liveEvents,
+  formatLiveEventId,
+  parseLiveEventId,
+  compareLiveEventPosition,
+  LiveEventOverflowError,
+  type LiveProgramEvent,
+} from "../../../src/indexer/live-events.js";
+
+const ASSET = new PublicKey("AToMufS4QD6hEXvcvBDg9m1AHeCLpmZQsyfYa5h9MwAF");
+const CLIENT = new PublicKey("So11111111111111111111111111111111111111112");
+
+const ctx = {
+  signature: "sig123",
+  slot: 12345n,
+  blockTime: new Date("2026-01-01T00:00:00Z"),
+  txIndex: 1,
+};
+
+function feedback(index: number) {
+  return {
+    type: "NewFeedback",
+    data: { asset: ASSET, clientAddress: CLIENT, feedbackIndex: BigInt(index) },
+  };
+}
+
+describe("LiveEventBus", () => {
+  const iterators: AsyncIterableIterator<unknown>[] = [];
+
+  afterEach(async () => {
+    await Promise.all(iterators.splice(0).map((it) => it.return?.()));
+  });
+
+  it("should publish JSON-safe program events with extracted asset and client", () => {
+    const received: LiveProgramEvent[] = [];
+    const off = liveEvents.on("event", (e) => received.push(e));
+
+    liveEvents.publishEvent(feedback(3), ctx);
+    off();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toEqual({
+      type: "NewFeedback",
+      asset: ASSET.toBase58(),
+      client: CLIENT.toBase58(),
+      data: { asset: ASSET.toBase58(), clientAddress: CLIENT.toBase58(), feedbackIndex: "3" },
+      signature: "sig123",
+      slot: 12345n,
+      blockTime: ctx.blockTime,
+      txIndex: 1,
+      eventOrdinal: 0,
+    });
+    expect(liveEvents.listenerCount("event")).toBe(0);
+  });
+
+  it("should fan out verification events per id", () => {
+    const received: string[] = [];
+    const off = liveEvents.on("verification", (e) => received.push(`${e.entity}:${e.id}:${e.status}`));
+
+    liveEvents.publishVerification("feedback", ["1", "2"], ASSET.toBase58(), "FINALIZED", new Date());
+    off();
+
+    expect(received).toEqual(["feedback:1:FINALIZED", "feedback:2:FINALIZED"]);
+  });
+
+  it("should not throw into the publisher when a listener fails", () => {
+    const off = liveEvents.on("event", () => {
+      throw new Error("boom");
+    });
+
+    expect(() => liveEvents.publishEvent(feedback(1), ctx)).not.toThrow();
+    off();
+  });
+
+  it("should iterate matching events in order", async () => {
+    const it = liveEvents.iterate("event", (e) => e.data.feedbackIndex !== "2");
+    iterators.push(it);
+
+    liveEvents.publishEvent(feedback(1), ctx);
+    liveEvents.publishEvent(feedback(2), ctx);
+    const pending = it.next();
+    liveEvents.publishEvent(feedback(3), ctx);
+
+    expect((await pending).value?.data.feedbackIndex).toBe("1");
+    expect((await it.next()).value?.data.feedbackIndex).toBe("3");
+  });
+
+  it("should end with an overflow error when a consumer falls behind", async () => {
+    const it = liveEvents.iterate("event");
+    iterators.push(it);
+
+    for (let i = 0; i < 105; i++) {
+      liveEvents.publishEvent(feedback(i), ctx);
+    }
+    expect(liveEvents.listenerCount("event")).toBe(0);
+
+    for (let i = 0; i < 100; i++) {
+      expect((await it.next()).value?.data.feedbackIndex).toBe(String(i));
+    }
+    await expect(it.next()).rejects.toBeInstanceOf(LiveEventOverflowError);
+    expect((await it.next()).done).toBe(true);
+  });
+
+  it("should unsubscribe and resolve pending reads on return", async () => {
+    const it = liveEvents.iterate("verification");
+    expect(liveEvents.listenerCount("verification")).toBe(1);
+
+    const pending = it.next();
+    await it.return?.();
+
+    expect(await pending).toEqual({ value: undefined, done: true });
+    expect(liveEvents.listenerCount("verification")).toBe(0);
+    expect((await it.next()).done).toBe(true);
+  });
+});
+
+describe("Live event positions", () => {
+  it("should round-trip stream ids", () => {
+    const position = { slot: 123n, txIndex: 4, eventOrdinal: 2 };
+    expect(formatLiveEventId(position)).toBe("123:4:2");
+    expect(parseLiveEventId("123:4:2")).toEqual(position);
+    expect(parseLiveEventId("123::0")).toEqual({ slot: 123n, txIndex: null, eventOrdinal: 0 });
+    expect(parseLiveEventId("abc")).toBeNull();
+  });
+
+  it("should order by slot, tx index (unknown last) and ordinal", () => {
+    const sorted = [
+      { slot: 2n, txIndex: 0, eventOrdinal: 0 },
+      { slot: 1n, txIndex: null, eventOrdinal: 0 },
+      { slot: 1n, txIndex: 3, eventOrdinal: 1 },
+      { slot: 1n, txIndex: 3, eventOrdinal: 0 },
+    ].sort(compareLiveEventPosition).map(formatLiveEventId);
+
+    expect(sorted).toEqual(["1:3:0", "1:3:1", "1::0", "2:0:0"]);
+  });
+});
+
+describe("LiveEventBus history", () => {
+  afterEach(() => {
+    liveEvents.setHistorySize(0);
+  });
+
+  function publishAt(slot: number, txIndex: number) {
+    liveEvents.publishEvent(feedback(slot), { ...ctx, slot: BigInt(slot), txIndex, eventOrdinal: 0 });
+  }
+
+  it("should retain events without listeners and bound the history", () => {
+    liveEvents.setHistorySize(3);
+    for (let slot = 1; slot <= 5; slot++) {
+      publishAt(slot, 0);
+    }
+
+    const { events, complete } = liveEvents.eventsAfter({ slot: 3n, txIndex: 0, eventOrdinal: 0 });
+    expect(events.map((e) => e.slot)).toEqual([4n, 5n]);
+    expect(complete).toBe(true);
+  });
+
+  it("should report incomplete history when the position was evicted", () => {
+    liveEvents.setHistorySize(2);
+    for (let slot = 1; slot <= 4; slot++) {
+      publishAt(slot, 0);
+    }
+
+    const { events, complete } = liveEvents.eventsAfter({ slot: 1n, txIndex: 0, eventOrdinal: 0 });
+    expect(events.map((e) => e.slot)).toEqual([3n, 4n]);
+    expect(complete).toBe(false);
+  });
+
+  it("should return retained events in chain order", () => {
+    liveEvents.setHistorySize(5);
+    publishAt(10, 2);
+    publishAt(10, 1);
+    publishAt(9, 0);
+
+    const { events } = liveEvents.eventsAfter({ slot: 9n, txIndex: 0, eventOrdinal: 0 });
+    expect(events.map(formatLiveEventId)).toEqual(["10:1:0", "10:2:0"]);
+  });
+});
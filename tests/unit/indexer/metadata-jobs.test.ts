@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../../src/logger.js", () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(() => mockLogger),
+  };
+  return {
+    createChildLogger: vi.fn(() => mockLogger),
+    logger: mockLogger,
+  };
+});
+
+import {
+  HeldJobs,
+  MetadataJobClaimer,
+  MetadataJobStore,
+  nextJobState,
+  WORKER_ID,
+} from "../../../src/indexer/metadata-jobs.js";
+
+const JOB_ROW = {
+  id: "42",
+  queue: "agent",
+  job_key: "asset1",
+  payload: { uri: "https://example.com/agent.json" },
+  state: "running",
+  attempts: 2,
+  last_status: "timeout",
+  last_error: null,
+  run_after: "2026-10-19T00:00:00Z",
+  lease_owner: WORKER_ID,
+  lease_expires_at: "2026-10-19T00:02:00Z",
+  created_at: "2026-10-18T00:00:00Z",
+  updated_at: "2026-10-19T00:00:00Z",
+};
+
+function createMockPool() {
+  return {
+    query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+  } as any;
+}
+
+describe("nextJobState", () => {
+  it("finishes ok and stale outcomes", () => {
+    expect(nextJobState({ status: "ok" }, 1)).toEqual({ state: "done", delayMs: 0 });
+    expect(nextJobState({ status: "stale" }, 3)).toEqual({ state: "done", delayMs: 0 });
+  });
+
+  it("retries transient statuses with exponential backoff", () => {
+    expect(nextJobState({ status: "timeout" }, 1)).toEqual({ state: "queued", delayMs: 30_000 });
+    expect(nextJobState({ status: "timeout" }, 3)).toEqual({ state: "queued", delayMs: 120_000 });
+    expect(nextJobState({ status: "error" }, 2)).toEqual({ state: "queued", delayMs: 120_000 });
+    expect(nextJobState({ status: "cid_mismatch" }, 1)).toEqual({ state: "queued", delayMs: 600_000 });
+  });
+
+  it("fails once the attempt budget is spent", () => {
+    expect(nextJobState({ status: "timeout" }, 5).state).toBe("failed");
+    expect(nextJobState({ status: "cid_mismatch" }, 3).state).toBe("failed");
+  });
+
+  it("fails permanent statuses right away", () => {
+    expect(nextJobState({ status: "oversize" }, 1).state).toBe("failed");
+    expect(nextJobState({ status: "invalid_json" }, 1).state).toBe("failed");
+    expect(nextJobState({ status: "blocked" }, 1).state).toBe("failed");
+  });
+});
+
+describe("MetadataJobStore", () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let store: MetadataJobStore;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    store = new MetadataJobStore(pool);
+  });
+
+  it("leases jobs enqueued with an owner and queues the rest", async () => {
+    await store.enqueue("agent", "asset1", { uri: "u" }, WORKER_ID);
+    await store.enqueue("agent", "asset2", { uri: "u" }, null);
+
+    const [sql, leased] = pool.query.mock.calls[0];
+    expect(sql).toContain("ON CONFLICT (queue, job_key) DO UPDATE");
+    expect(leased.slice(0, 6)).toEqual(["agent", "asset1", '{"uri":"u"}', "running", 1, WORKER_ID]);
+    expect(pool.query.mock.calls[1][1].slice(3, 6)).toEqual(["queued", 0, null]);
+  });
+
+  it("claims due and expired jobs with SKIP LOCKED", async () => {
+    pool.query.mockResolvedValueOnce({ rows: [JOB_ROW], rowCount: 1 });
+
+    const jobs = await store.claim("agent", WORKER_ID, 10);
+
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain("FOR UPDATE SKIP LOCKED");
+    expect(sql).toContain("lease_expires_at < NOW()");
+    expect(params.slice(0, 3)).toEqual(["agent", WORKER_ID, 10]);
+    expect(jobs[0]).toMatchObject({
+      id: "42", queue: "agent", key: "asset1", attempts: 2, lastStatus: "timeout", leaseOwner: WORKER_ID,
+    });
+    expect(jobs[0].runAfter).toBeInstanceOf(Date);
+  });
+
+  it("records the outcome only on the leased row with the same payload", async () => {
+    const state = await store.finish("agent", "asset1", { uri: "u" }, WORKER_ID, 1, {
+      status: "timeout",
+      error: "x".repeat(1000),
+    });
+
+    expect(state).toBe("queued");
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain("payload = $3::jsonb AND lease_owner = $4 AND state = 'running'");
+    expect(params.slice(0, 6)).toEqual(["agent", "asset1", '{"uri":"u"}', WORKER_ID, "queued", "timeout"]);
+    expect(params[6]).toHaveLength(500);
+    expect(params[7]).toBe(30_000);
+  });
+
+  it("renews only the running leases of this owner on held keys", async () => {
+    pool.query.mockResolvedValueOnce({ rows: [], rowCount: 2 });
+
+    expect(await store.renew("agent", WORKER_ID, ["asset1", "asset2"])).toBe(2);
+    expect(await store.renew("agent", WORKER_ID, [])).toBe(0);
+
+    expect(pool.query).toHaveBeenCalledTimes(1);
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain("lease_owner = $2 AND state = 'running' AND job_key = ANY($3::text[])");
+    expect(params).toEqual(["agent", WORKER_ID, ["asset1", "asset2"], 120_000]);
+  });
+
+  it("only retries failed jobs", async () => {
+    pool.query.mockResolvedValueOnce({ rows: [], rowCount: 1 }).mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+    expect(await store.retry("42")).toBe(true);
+    expect(await store.retry("43")).toBe(false);
+    expect(pool.query.mock.calls[0][0]).toContain("state = 'failed'");
+  });
+});
+
+describe("MetadataJobClaimer", () => {
+  it("claims up to the free capacity and dispatches each job", async () => {
+    const pool = createMockPool();
+    pool.query.mockResolvedValueOnce({ rows: [JOB_ROW, { ...JOB_ROW, id: "43", job_key: "asset2" }], rowCount: 2 });
+    const dispatch = vi.fn();
+    const claimer = new MetadataJobClaimer("agent", new MetadataJobStore(pool), () => 4, dispatch, new HeldJobs());
+
+    expect(await claimer.claimOnce()).toBe(2);
+    expect(pool.query.mock.calls[0][1][2]).toBe(4);
+    expect(dispatch.mock.calls.map(([job]) => job.key)).toEqual(["asset1", "asset2"]);
+    expect(pool.query.mock.calls[1][0]).toContain("DELETE FROM metadata_jobs");
+  });
+
+  it("skips claiming when the in-memory queue is full", async () => {
+    const pool = createMockPool();
+    const claimer = new MetadataJobClaimer("agent", new MetadataJobStore(pool), () => 0, vi.fn(), new HeldJobs());
+
+    expect(await claimer.claimOnce()).toBe(0);
+    expect(pool.query.mock.calls.every(([sql]: [string]) => !sql.includes("UPDATE metadata_jobs"))).toBe(true);
+  });
+
+  it("renews the leases of held jobs until they are released", async () => {
+    const pool = createMockPool();
+    const held = new HeldJobs();
+    const claimer = new MetadataJobClaimer("agent", new MetadataJobStore(pool), () => 0, vi.fn(), held);
+
+    held.add("asset1");
+    held.add("asset1"); // newer task dispatched before the first one ended
+    held.add("asset2");
+    held.delete("asset1");
+    held.delete("asset2");
+    await claimer.renewOnce();
+
+    expect(pool.query.mock.calls[0][1][2]).toEqual(["asset1"]);
+  });
+
+  it("survives database errors", async () => {
+    const pool = createMockPool();
+    pool.query.mockRejectedValueOnce(new Error("connection reset"));
+    const claimer = new MetadataJobClaimer("collection", new MetadataJobStore(pool), () => 10, vi.fn(), new HeldJobs());
+
+    await expect(claimer.claimOnce()).resolves.toBe(0);
+  });
+});
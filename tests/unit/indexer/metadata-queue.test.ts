@@ -54,6 +54,7 @@ vi.mock("../../../src/indexer/uriDigest.js", () => ({
     },
     bytes: 100,
     hash: "abc123",
+    body: Buffer.from('{"name":"Test Agent"}'),
   }),
   serializeValue: vi.fn().mockReturnValue({
     value: "serialized",
@@ -94,6 +95,10 @@ function resetQueueState() {
     processed: 0,
     skippedStale: 0,
     skippedDuplicate: 0,
+    unchanged: 0,
+    deferred: 0,
+    retried: 0,
+    failed: 0,
     errors: 0,
   };
   capturedTasks.length = 0;
@@ -120,6 +125,7 @@ describe("MetadataQueue", () => {
       },
       bytes: 100,
       hash: "abc123",
+      body: Buffer.from('{"name":"Test Agent"}'),
     });
     (serializeValue as any).mockReturnValue({
       value: "serialized",
@@ -181,6 +187,36 @@ describe("MetadataQueue", () => {
       const stats = metadataQueue.getStats();
       expect(stats.queued).toBe(0);
     });
+
+    it("should persist overflow tasks as queued jobs", () => {
+      mockPQueueInstance.size = 5000;
+      metadataQueue.add("assetFull", "https://example.com/full.json");
+
+      const job = mockPool.query.mock.calls.find(([sql]: [string]) => sql.includes("INSERT INTO metadata_jobs"));
+      expect(job[1].slice(0, 6)).toEqual([
+        "agent", "assetFull", JSON.stringify({ uri: "https://example.com/full.json" }), "queued", 0, null,
+      ]);
+      expect(metadataQueue.getStats().deferred).toBe(1);
+    });
+
+    it("should record the outcome on the leased job", async () => {
+      (digestUri as any).mockResolvedValue({ status: "timeout", error: "Request timed out" });
+      mockPool.query.mockImplementation((sql: string) => {
+        if (sql.includes("SELECT agent_uri")) {
+          return { rows: [{ agent_uri: "https://example.com/agent.json" }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+      metadataQueue.add("asset1", "https://example.com/agent.json");
+      await runCapturedTasks();
+
+      const finish = mockPool.query.mock.calls.find(([sql]: [string]) => sql.includes("SET state = $5"));
+      expect(finish[1].slice(0, 7)).toEqual([
+        "agent", "asset1", JSON.stringify({ uri: "https://example.com/agent.json" }),
+        expect.any(String), "queued", "timeout", "Request timed out",
+      ]);
+      expect(metadataQueue.getStats().retried).toBe(1);
+    });
   });
 
   describe("addBatch", () => {
@@ -380,6 +416,125 @@ describe("MetadataQueue", () => {
     });
   });
 
+  describe("refresh", () => {
+    const URI = "https://example.com/agent.json";
+
+    function mockRefreshState(contentHash: string) {
+      mockPool.query.mockImplementation((sql: string) => {
+        if (sql.includes("SELECT agent_uri")) {
+          return { rows: [{ agent_uri: URI }] };
+        }
+        if (sql.includes("FROM agent_uri_refresh")) {
+          return { rows: [{ uri: URI, etag: '"v1"', last_modified: null, content_hash: contentHash }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+    }
+
+    function callsMatching(fragment: string) {
+      return mockPool.query.mock.calls.filter(([sql]: [string]) => sql.includes(fragment));
+    }
+
+    it("should keep metadata when the server answers 304", async () => {
+      mockRefreshState("abc123");
+      (digestUri as any).mockResolvedValueOnce({ status: "ok", notModified: true });
+
+      metadataQueue.add("asset1", URI, { refresh: true });
+      await runCapturedTasks();
+
+      expect(digestUri).toHaveBeenCalledWith(URI, { etag: '"v1"', lastModified: null });
+      expect(callsMatching("DELETE FROM metadata")).toHaveLength(0);
+      expect(callsMatching("INSERT INTO metadata (")).toHaveLength(0);
+      const [record] = callsMatching("INSERT INTO agent_uri_refresh");
+      expect(record[1]).toEqual(["asset1", URI, '"v1"', null, "abc123", "ok"]);
+      expect(metadataQueue.getStats().unchanged).toBe(1);
+    });
+
+    it("should keep metadata when the file hash did not change", async () => {
+      mockRefreshState("abc123");
+
+      metadataQueue.add("asset1", URI, { refresh: true });
+      await runCapturedTasks();
+
+      expect(callsMatching("DELETE FROM metadata")).toHaveLength(0);
+      expect(callsMatching("INSERT INTO metadata (")).toHaveLength(0);
+      expect(metadataQueue.getStats().unchanged).toBe(1);
+    });
+
+    it("should rewrite _uri metadata when the file changed", async () => {
+      mockRefreshState("old-hash");
+
+      metadataQueue.add("asset1", URI, { refresh: true });
+      await runCapturedTasks();
+
+      expect(callsMatching("DELETE FROM metadata")).toHaveLength(1);
+      expect(callsMatching("INSERT INTO metadata (").length).toBeGreaterThanOrEqual(3);
+      const [record] = callsMatching("INSERT INTO agent_uri_refresh");
+      expect(record[1]).toEqual(["asset1", URI, null, null, "abc123", "ok"]);
+    });
+
+    it("should keep metadata when the refresh fails", async () => {
+      mockRefreshState("abc123");
+      (digestUri as any).mockResolvedValueOnce({ status: "timeout" });
+
+      metadataQueue.add("asset1", URI, { refresh: true });
+      await runCapturedTasks();
+
+      expect(callsMatching("DELETE FROM metadata")).toHaveLength(0);
+      const [record] = callsMatching("INSERT INTO agent_uri_refresh");
+      expect(record[1][5]).toBe("timeout");
+      const [job] = callsMatching("INSERT INTO metadata_jobs");
+      expect(job[1][2]).toBe(JSON.stringify({ uri: URI, refresh: true }));
+    });
+  });
+
+  describe("registration versions", () => {
+    const URI = "https://example.com/agent.json";
+
+    function versionInserts() {
+      return mockPool.query.mock.calls.filter(([sql]: [string]) =>
+        sql.includes("INSERT INTO registration_file_versions")
+      );
+    }
+
+    beforeEach(() => {
+      mockPool.query.mockImplementation((sql: string) => {
+        if (sql.includes("SELECT agent_uri")) {
+          return { rows: [{ agent_uri: URI }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+    });
+
+    it("should record the version with the triggering slot and signature", async () => {
+      metadataQueue.add("asset1", URI, { slot: 12345n, signature: "sig1" });
+      await runCapturedTasks();
+
+      const [insert] = versionInserts();
+      expect(insert[1]).toEqual([
+        "asset1", URI, "abc123", 100, Buffer.from([0x00, 0x01]), Buffer.from([0x00, 0x01]), "12345", "sig1",
+      ]);
+      expect(compressForStorage).toHaveBeenCalledWith(Buffer.from('{"name":"Test Agent"}'));
+      expect(compressForStorage).toHaveBeenCalledWith(
+        Buffer.from(JSON.stringify({ "_uri:name": "Test Agent", "_uri:description": "A test agent" }))
+      );
+      const job = mockPool.query.mock.calls.find(([sql]: [string]) => sql.includes("INSERT INTO metadata_jobs"));
+      expect(job[1][2]).toBe(JSON.stringify({ uri: URI, slot: "12345", signature: "sig1" }));
+    });
+
+    it("should not record a version for failed digests or unchanged refreshes", async () => {
+      (digestUri as any).mockResolvedValueOnce({ status: "timeout" });
+      metadataQueue.add("asset1", URI);
+      await runCapturedTasks();
+
+      (digestUri as any).mockResolvedValueOnce({ status: "ok", notModified: true });
+      metadataQueue.add("asset1", URI, { refresh: true });
+      await runCapturedTasks();
+
+      expect(versionInserts()).toHaveLength(0);
+    });
+  });
+
   describe("storeMetadata", () => {
     it("should store standard fields without compression", async () => {
       mockPool.query.mockImplementation((sql: string) => {
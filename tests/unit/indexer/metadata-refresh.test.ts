@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../../src/config.js", () => ({
+  config: {
+    metadataRefreshCheckIntervalMs: 300000,
+    metadataRefreshIntervalMs: 86400000,
+    metadataRefreshBatchSize: 100,
+  },
+}));
+
+vi.mock("../../../src/logger.js", () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(() => mockLogger),
+  };
+  return {
+    createChildLogger: vi.fn(() => mockLogger),
+    logger: mockLogger,
+  };
+});
+
+vi.mock("../../../src/indexer/metadata-queue.js", () => ({
+  metadataQueue: { add: vi.fn() },
+}));
+
+import { MetadataRefreshScheduler } from "../../../src/indexer/metadata-refresh.js";
+import { metadataQueue } from "../../../src/indexer/metadata-queue.js";
+
+function createMockPool(rows: Array<{ asset: string; agent_uri: string }>) {
+  return {
+    query: vi.fn().mockResolvedValue({ rows, rowCount: rows.length }),
+  } as any;
+}
+
+describe("MetadataRefreshScheduler", () => {
+  beforeEach(() => {
+    (metadataQueue.add as any).mockClear();
+  });
+
+  it("queues refresh tasks for agents whose HTTP URI is due", async () => {
+    const pool = createMockPool([
+      { asset: "asset1", agent_uri: "https://example.com/a.json" },
+      { asset: "asset2", agent_uri: "https://example.com/b.json" },
+    ]);
+    const scheduler = new MetadataRefreshScheduler(pool, 300000, 3600000, 50);
+    await scheduler.start();
+
+    expect(await scheduler.refresh()).toBe(2);
+    await scheduler.stop();
+
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain("a.agent_uri NOT LIKE '%/ipfs/%'");
+    expect(sql).toContain("ORDER BY r.last_checked_at ASC NULLS FIRST");
+    expect(params).toEqual([3600000, 50, false]);
+    expect((metadataQueue.add as any).mock.calls).toEqual([
+      ["asset1", "https://example.com/a.json", { refresh: true }],
+      ["asset2", "https://example.com/b.json", { refresh: true }],
+    ]);
+    expect(scheduler.getStats().refreshesQueued).toBe(2);
+  });
+
+  it("includes http:// URIs only when insecure URIs are allowed", async () => {
+    const pool = createMockPool([]);
+    const scheduler = new MetadataRefreshScheduler(pool);
+    await scheduler.start();
+
+    process.env.ALLOW_INSECURE_URI = "true";
+    try {
+      await scheduler.refresh();
+    } finally {
+      delete process.env.ALLOW_INSECURE_URI;
+      await scheduler.stop();
+    }
+
+    expect(pool.query.mock.calls[0][1]).toEqual([86400000, 100, true]);
+  });
+
+  it("does nothing when stopped", async () => {
+    const pool = createMockPool([{ asset: "asset1", agent_uri: "https://example.com/a.json" }]);
+    const scheduler = new MetadataRefreshScheduler(pool);
+
+    expect(await scheduler.refresh()).toBe(0);
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(metadataQueue.add).not.toHaveBeenCalled();
+  });
+});
@@ -3,9 +3,8 @@
  *
  * Targets uncovered lines:
  * - Lines 77-87: logStatsIfNeeded (60s timer)
- * - Lines 114-195: backfill (Phase 1/2/3, scan errors, checkpoints)
- * - Lines 201-247: fetchSignatureWindow (retry logic)
- * - Lines 255-344: processSignatureBatch (batch RPC, slot grouping, tx_index resolution)
+ * - backfill (segment boundaries, scan errors, ordered commit of concurrent segments)
+ * - prepareSignatureBatch / commitPreparedBatch (batch RPC, slot grouping, tx_index resolution)
  * - Lines 386-409: stop (flush eventBuffer, log batch stats)
  * - Lines 444-464: saveState (supabase mode vs local)
  * - Lines 480-571: processNewTransactions with batch RPC, batch DB, batchFailed
@@ -50,7 +49,7 @@ vi.mock("../../../src/db/handlers.js", () => ({
   handleEventAtomic: vi.fn().mockResolvedValue(undefined),
 }));
 
-import { Poller } from "../../../src/indexer/poller.js";
+import { Poller, buildSlotSegments } from "../../../src/indexer/poller.js";
 import { loadIndexerState, saveIndexerState } from "../../../src/db/supabase.js";
 import { handleEventAtomic } from "../../../src/db/handlers.js";
 
@@ -68,6 +67,14 @@ async function safeStopPoller(poller: any): Promise<void> {
   poller.eventBuffer = null;
 }
 
+/**
+ * Prepare + commit a batch the way one backfill segment is processed
+ */
+async function processSignatureBatch(poller: any, signatures: unknown[], previousCount: number, totalEstimate: number): Promise<number> {
+  const prepared = await poller.prepareSignatureBatch(signatures);
+  return poller.commitPreparedBatch(prepared, previousCount, totalEstimate);
+}
+
 describe("Poller Coverage", () => {
   let poller: Poller;
   let mockConnection: ReturnType<typeof createMockConnection>;
@@ -318,53 +325,25 @@ describe("Poller Coverage", () => {
     }, 25000);
   });
 
-  describe("fetchSignatureWindow", () => {
-    it("should retry on error and return partial results after 3 failures", async () => {
-      poller = new Poller({
-        connection: mockConnection as any,
-        prisma: mockPrisma,
-        programId: TEST_PROGRAM_ID,
-        pollingInterval: 100,
-        batchSize: 2, // Match the batch size to the returned count to trigger pagination
-      });
-      (poller as any).isRunning = true;
-
-      // First call succeeds with full batch (triggers pagination), subsequent calls fail
-      let callNum = 0;
-      (mockConnection.getSignaturesForAddress as any).mockImplementation(() => {
-        callNum++;
-        if (callNum === 1) {
-          // Return exactly batchSize items to trigger pagination
-          return Promise.resolve([
-            createMockSignatureInfo("window-sig-1", 100),
-            createMockSignatureInfo("window-sig-2", 101),
-          ]);
-        }
-        return Promise.reject(new Error("Network timeout"));
-      });
-
-      const result = await (poller as any).fetchSignatureWindow("after-sig", "until-sig");
-
-      // Should have partial results (first batch succeeded, then errors + retries)
-      expect(result.length).toBe(2); // Got the 2 sigs from first batch
-      expect(callNum).toBeGreaterThan(1); // Retried
-    }, 10000);
-
-    it("should return empty array when no signatures found", async () => {
-      poller = new Poller({
-        connection: mockConnection as any,
-        prisma: mockPrisma,
-        programId: TEST_PROGRAM_ID,
-        pollingInterval: 100,
-        batchSize: 10,
-      });
-      (poller as any).isRunning = true;
-
-      (mockConnection.getSignaturesForAddress as any).mockResolvedValue([]);
+  describe("buildSlotSegments", () => {
+    it("should return a single unbounded segment without boundaries", () => {
+      expect(buildSlotSegments([])).toEqual([{ fromSlot: undefined, toSlot: undefined, before: undefined }]);
+    });
 
-      const result = await (poller as any).fetchSignatureWindow("after-sig", undefined);
+    it("should split history at boundary slots, oldest segment first", () => {
+      const segments = buildSlotSegments([
+        { signature: "b-300", slot: 300 },
+        { signature: "b-200-new", slot: 200 },
+        { signature: "b-200-old", slot: 200 },
+        { signature: "b-100", slot: 100 },
+      ]);
 
-      expect(result).toEqual([]);
+      expect(segments).toEqual([
+        { fromSlot: undefined, toSlot: 99, before: "b-100" },
+        { fromSlot: 100, toSlot: 199, before: "b-200-old" },
+        { fromSlot: 200, toSlot: 299, before: "b-300" },
+        { fromSlot: 300, toSlot: undefined, before: undefined },
+      ]);
     });
   });
 
@@ -393,7 +372,7 @@ describe("Poller Coverage", () => {
       const tx = createMockParsedTransaction(TEST_SIGNATURE, []);
       (mockConnection.getParsedTransaction as any).mockResolvedValue(tx);
 
-      await (poller as any).processSignatureBatch([sig1, sig2], 0, 2);
+      await processSignatureBatch(poller, [sig1, sig2], 0, 2);
 
       expect((mockConnection as any).getBlock).toHaveBeenCalledWith(200, {
         maxSupportedTransactionVersion: 0,
@@ -420,7 +399,7 @@ describe("Poller Coverage", () => {
       (mockConnection.getParsedTransaction as any).mockResolvedValue(tx);
 
       // Should not throw
-      const result = await (poller as any).processSignatureBatch([sig1, sig2], 0, 2);
+      const result = await processSignatureBatch(poller, [sig1, sig2], 0, 2);
 
       expect(typeof result).toBe("number");
     });
@@ -442,7 +421,7 @@ describe("Poller Coverage", () => {
       const tx = createMockParsedTransaction(TEST_SIGNATURE, []);
       (mockConnection.getParsedTransaction as any).mockResolvedValue(tx);
 
-      await (poller as any).processSignatureBatch([sig1], 0, 1);
+      await processSignatureBatch(poller, [sig1], 0, 1);
 
       expect((mockConnection as any).getBlock).not.toHaveBeenCalled();
     });
@@ -468,7 +447,7 @@ describe("Poller Coverage", () => {
         getStats: vi.fn().mockReturnValue({}),
       };
 
-      await (poller as any).processSignatureBatch([sig1], 0, 1);
+      await processSignatureBatch(poller, [sig1], 0, 1);
 
       // getParsedTransaction should NOT be called (used cache)
       // Actually, processSignatureBatch calls batchFetcher.fetchTransactions itself
@@ -808,12 +787,13 @@ describe("Poller Coverage", () => {
 
       await (poller as any).processTransaction(sig, 0);
 
-      expect(mockPrisma.eventLog.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
-          eventType: "AgentRegistered",
-          processed: true,
-        }),
-      });
+      // Event log entry is written by the handler transaction, with its raw payload
+      expect(handleEventAtomic).toHaveBeenCalledWith(
+        mockPrisma,
+        expect.objectContaining({ type: "AgentRegistered" }),
+        expect.objectContaining({ eventOrdinal: 0, rawEvent: expect.any(String) })
+      );
+      expect(mockPrisma.eventLog.create).not.toHaveBeenCalled();
     });
 
     it("should handle null transaction from RPC", async () => {
@@ -863,11 +843,11 @@ describe("Poller Coverage", () => {
 
       await (poller as any).processTransaction(sig, 0);
 
-      expect(mockPrisma.eventLog.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
-          blockTime: expect.any(Date),
-        }),
-      });
+      expect(handleEventAtomic).toHaveBeenCalledWith(
+        mockPrisma,
+        expect.anything(),
+        expect.objectContaining({ blockTime: expect.any(Date) })
+      );
     });
 
     it("should not create event log in supabase mode (null prisma)", async () => {
@@ -1196,195 +1176,77 @@ describe("Poller Coverage", () => {
     });
   });
 
-  describe("backfill - Phase 2 and Phase 3 processing", () => {
-    it("should process checkpoints in reverse order (oldest first) during Phase 2", async () => {
-      poller = new Poller({
-        connection: mockConnection as any,
-        prisma: mockPrisma,
-        programId: TEST_PROGRAM_ID,
-        pollingInterval: 5000,
-        batchSize: 2,
-      });
-      (poller as any).isRunning = true;
-
-      // Phase 1: return two full batches then an empty one
-      let callCount = 0;
-      (mockConnection.getSignaturesForAddress as any).mockImplementation((programId: any, opts: any) => {
-        callCount++;
-        // Phase 1 scan calls
-        if (callCount === 1) {
-          return Promise.resolve([
-            createMockSignatureInfo("phase1-sig-1", 200),
-            createMockSignatureInfo("phase1-sig-2", 199),
-          ]);
-        }
-        if (callCount === 2) {
-          return Promise.resolve([
-            createMockSignatureInfo("phase1-sig-3", 198),
-          ]);
-        }
-        // Phase 2 fetchSignatureWindow calls - return empty to skip processing
-        return Promise.resolve([]);
-      });
-
-      (mockConnection.getParsedTransaction as any).mockResolvedValue(
-        createMockParsedTransaction(TEST_SIGNATURE, [])
-      );
-
-      await (poller as any).backfill();
-
-      // Phase 1 collected 2 checkpoints, Phase 2 should iterate them in reverse
-      expect(callCount).toBeGreaterThanOrEqual(3);
-    });
-
-    it("should process Phase 3 newest transactions before first checkpoint", async () => {
-      poller = new Poller({
-        connection: mockConnection as any,
-        prisma: mockPrisma,
-        programId: TEST_PROGRAM_ID,
-        pollingInterval: 5000,
-        batchSize: 2,
-      });
-      (poller as any).isRunning = true;
-
-      let callCount = 0;
-      (mockConnection.getSignaturesForAddress as any).mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          // Phase 1: return full batch with 2 sigs
-          return Promise.resolve([
-            createMockSignatureInfo("checkpoint-1", 200),
-            createMockSignatureInfo("checkpoint-2", 100),
-          ]);
-        }
-        if (callCount === 2) {
-          // Phase 1 end
-          return Promise.resolve([]);
-        }
-        // Phase 2 + 3 window fetches
-        return Promise.resolve([]);
-      });
-
-      (mockConnection.getParsedTransaction as any).mockResolvedValue(
-        createMockParsedTransaction(TEST_SIGNATURE, [])
-      );
-
-      await (poller as any).backfill();
-
-      // Should have made calls for Phase 1, Phase 2 windows, and Phase 3
-      expect(callCount).toBeGreaterThanOrEqual(3);
-    });
-
-    it("should skip empty windows in Phase 2", async () => {
+  describe("backfill - segmented processing", () => {
+    function createBackfillPoller(backfillConcurrency = 4) {
       poller = new Poller({
         connection: mockConnection as any,
         prisma: mockPrisma,
         programId: TEST_PROGRAM_ID,
         pollingInterval: 5000,
         batchSize: 2,
+        backfillConcurrency,
       });
       (poller as any).isRunning = true;
-
-      let callCount = 0;
-      (mockConnection.getSignaturesForAddress as any).mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          return Promise.resolve([
-            createMockSignatureInfo("cp-a", 300),
-            createMockSignatureInfo("cp-b", 200),
-          ]);
-        }
-        // Everything else returns empty
-        return Promise.resolve([]);
-      });
-
+      (poller as any).batchFetcher = null;
+      return poller;
+    }
+
+    // History as a chain of pages keyed by the `before` cursor (batchSize 2)
+    const HISTORY: Record<string, Array<[string, number]>> = {
+      head: [["s-300", 300], ["s-200", 200]],
+      "s-200": [["s-150", 150], ["s-100", 100]],
+      "s-100": [["s-50", 50]],
+    };
+
+    function mockHistory(override: (before: string) => Promise<void> | void = () => {}) {
+      (mockConnection.getSignaturesForAddress as any).mockImplementation(async (_programId: any, opts: any) => {
+        const key = opts.before ?? "head";
+        await override(key);
+        return (HISTORY[key] ?? []).map(([sig, slot]) => createMockSignatureInfo(sig, slot));
+      });
+      (mockConnection.getParsedTransaction as any).mockResolvedValue(createMockParsedTransaction(TEST_SIGNATURE, []));
+    }
+
+    it("should commit segments oldest-first even when newer segments are ready first", async () => {
+      createBackfillPoller();
+      // The oldest segment is the slowest to fetch
+      mockHistory((key) => (key === "s-100" ? new Promise((r) => setTimeout(r, 50)) : undefined));
+
+      const saveState = vi.spyOn(poller as any, "saveState");
       await (poller as any).backfill();
 
-      // Phase 2 windows were empty (line 178 continue), no processSignatureBatch calls
-      expect(callCount).toBeGreaterThanOrEqual(2);
+      expect(saveState.mock.calls.map((c) => c[0])).toEqual(["s-50", "s-100", "s-150", "s-200", "s-300"]);
+      expect((poller as any).lastSignature).toBe("s-300");
     });
 
-    it("should process signatures in Phase 2 window and log checkpoint progress", async () => {
-      poller = new Poller({
-        connection: mockConnection as any,
-        prisma: mockPrisma,
-        programId: TEST_PROGRAM_ID,
-        pollingInterval: 5000,
-        batchSize: 2,
-      });
-      (poller as any).isRunning = true;
-
-      let callCount = 0;
-      (mockConnection.getSignaturesForAddress as any).mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          // Phase 1: two checkpoints
-          return Promise.resolve([
-            createMockSignatureInfo("cp-1", 300),
-            createMockSignatureInfo("cp-2", 200),
-          ]);
-        }
-        if (callCount === 2) {
-          // Phase 1 end
-          return Promise.resolve([]);
-        }
-        if (callCount === 3) {
-          // Phase 2: window from cp-2 (oldest) - return some sigs
-          return Promise.resolve([
-            createMockSignatureInfo("window-sig-1", 250),
-          ]);
-        }
-        // Rest empty
-        return Promise.resolve([]);
-      });
-
-      const tx = createMockParsedTransaction(TEST_SIGNATURE, []);
-      (mockConnection.getParsedTransaction as any).mockResolvedValue(tx);
+    it("should scan each segment from its upper boundary signature", async () => {
+      createBackfillPoller(1);
+      mockHistory();
 
       await (poller as any).backfill();
 
-      // Should have processed the window signature
-      expect(callCount).toBeGreaterThanOrEqual(4);
+      // 3 Phase 1 pages, then segments oldest-first (the newer ones page past their lower slot)
+      const befores = (mockConnection.getSignaturesForAddress as any).mock.calls.map((c: any[]) => c[1].before);
+      expect(befores).toEqual([undefined, "s-200", "s-100", "s-100", "s-200", "s-100", undefined, "s-200"]);
     });
 
-    it("should process Phase 3 newest sigs when they exist", async () => {
-      poller = new Poller({
-        connection: mockConnection as any,
-        prisma: mockPrisma,
-        programId: TEST_PROGRAM_ID,
-        pollingInterval: 5000,
-        batchSize: 3,
+    it("should stop without committing later segments when a segment cannot be fetched", async () => {
+      vi.useFakeTimers();
+      createBackfillPoller();
+      let oldestCalls = 0;
+      mockHistory((key) => {
+        // Phase 1 reads the page once; the oldest segment scan then keeps failing
+        if (key === "s-100" && ++oldestCalls > 1) throw new Error("RPC down");
       });
-      (poller as any).isRunning = true;
 
-      let callCount = 0;
-      (mockConnection.getSignaturesForAddress as any).mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          // Phase 1 scan
-          return Promise.resolve([
-            createMockSignatureInfo("cp-only", 500),
-          ]);
-        }
-        if (callCount === 2) {
-          // Phase 2 window fetch for cp-only (no untilSig)
-          return Promise.resolve([]);
-        }
-        if (callCount === 3) {
-          // Phase 3: newest sigs before first checkpoint
-          return Promise.resolve([
-            createMockSignatureInfo("newest-sig", 600),
-          ]);
-        }
-        return Promise.resolve([]);
-      });
-
-      const tx = createMockParsedTransaction(TEST_SIGNATURE, []);
-      (mockConnection.getParsedTransaction as any).mockResolvedValue(tx);
-
-      await (poller as any).backfill();
+      const saveState = vi.spyOn(poller as any, "saveState");
+      const done = (poller as any).backfill();
+      await vi.runAllTimersAsync();
+      await done;
+      vi.useRealTimers();
 
-      expect(callCount).toBeGreaterThanOrEqual(3);
+      expect(saveState).not.toHaveBeenCalled();
+      expect((poller as any).lastSignature).toBeNull();
     });
   });
 
@@ -1416,7 +1278,7 @@ describe("Poller Coverage", () => {
       const tx = createMockParsedTransaction(TEST_SIGNATURE, []);
       (mockConnection.getParsedTransaction as any).mockResolvedValue(tx);
 
-      const processed = await (poller as any).processSignatureBatch([sig1, sig2], 0, 2);
+      const processed = await processSignatureBatch(poller, [sig1, sig2], 0, 2);
 
       // Should still process with default order
       expect(typeof processed).toBe("number");
@@ -1440,7 +1302,7 @@ describe("Poller Coverage", () => {
       // Null out batchFetcher so it goes through processTransaction path
       (poller as any).batchFetcher = null;
 
-      const processed = await (poller as any).processSignatureBatch([sig], 0, 1);
+      const processed = await processSignatureBatch(poller, [sig], 0, 1);
 
       expect(processed).toBe(0);
       expect((poller as any).errorCount).toBe(1);
@@ -1467,7 +1329,7 @@ describe("Poller Coverage", () => {
       // Null out batchFetcher to use processTransaction path
       (poller as any).batchFetcher = null;
 
-      const processed = await (poller as any).processSignatureBatch(sigs, 0, 200);
+      const processed = await processSignatureBatch(poller, sigs, 0, 200);
 
       // All should be processed (no events to parse = no errors)
       expect(processed).toBe(100);
@@ -1498,7 +1360,7 @@ describe("Poller Coverage", () => {
 
       (poller as any).batchFetcher = null;
 
-      const processed = await (poller as any).processSignatureBatch(sigs, 0, 5);
+      const processed = await processSignatureBatch(poller, sigs, 0, 5);
 
       // Should have stopped early
       expect(processed).toBeLessThan(5);
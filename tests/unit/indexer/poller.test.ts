@@ -132,6 +132,29 @@ describe("Poller", () => {
       expect(mockConnection.getParsedTransaction).not.toHaveBeenCalled();
     });
 
+    it("should record the cluster slot as observed after an empty poll", async () => {
+      (mockPrisma.indexerState.findUnique as any).mockResolvedValue(null);
+      (mockConnection.getSignaturesForAddress as any).mockResolvedValue([]);
+      (mockConnection.getSlot as any).mockResolvedValue(777);
+
+      expect(poller.getLastObservedSlot()).toBeNull();
+      await poller.start();
+      await new Promise((r) => setTimeout(r, 150));
+
+      expect(poller.getLastObservedSlot()).toBe(777);
+    });
+
+    it("should not record an observed slot when listing signatures fails", async () => {
+      (mockPrisma.indexerState.findUnique as any).mockResolvedValue(null);
+      (mockConnection.getSignaturesForAddress as any).mockRejectedValue(new Error("RPC down"));
+      (mockConnection.getSlot as any).mockResolvedValue(777);
+
+      await poller.start();
+      await new Promise((r) => setTimeout(r, 150));
+
+      expect(poller.getLastObservedSlot()).toBeNull();
+    });
+
     it("should filter failed transactions", async () => {
       const failedSig = createMockSignatureInfo(TEST_SIGNATURE, Number(TEST_SLOT), {
         err: "Transaction failed",
@@ -324,13 +347,15 @@ describe("Poller", () => {
       await poller.start();
       await new Promise((r) => setTimeout(r, 200));
 
-      // Should have called handleEvent and created event log
-      expect(mockPrisma.eventLog.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
+      // Should have called handleEvent and appended to the event log in the same transaction
+      expect(mockPrisma.eventLog.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({
           eventType: "AgentRegistered",
+          eventOrdinal: 0,
+          rawData: expect.any(String),
           processed: true,
         }),
-      });
+      }));
 
       // Should have called agent.upsert from the handler
       expect(mockPrisma.agent.upsert).toHaveBeenCalled();
@@ -377,7 +402,9 @@ describe("Poller", () => {
       await new Promise((r) => setTimeout(r, 200));
 
       // Event should still be processed with fallback date
-      expect(mockPrisma.eventLog.create).toHaveBeenCalled();
+      expect(mockPrisma.eventLog.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ blockTime: expect.any(Date) }),
+      }));
     });
 
     it("should skip events that cannot be typed", async () => {
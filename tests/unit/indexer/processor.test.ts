@@ -11,12 +11,16 @@ const {
   mockPollerInstance: {
     start: vi.fn(),
     stop: vi.fn(),
+    getStats: vi.fn(),
+    getBatchStats: vi.fn(),
+    getLastObservedSlot: vi.fn(),
   },
   mockWsIndexerInstance: {
     start: vi.fn(),
     stop: vi.fn(),
     isActive: vi.fn(),
     isRecovering: vi.fn(),
+    getLastObservedSlot: vi.fn(),
   },
   mockTestWebSocketConnection: vi.fn(),
   mockVerifierInstance: {
@@ -74,6 +78,18 @@ vi.mock("../../../src/indexer/verifier.js", () => ({
   }),
 }));
 
+vi.mock("../../../src/indexer/search-indexer.js", () => ({
+  SearchIndexer: vi.fn(function MockSearchIndexer() {
+    return { start: vi.fn(), stop: vi.fn(), getStats: vi.fn() };
+  }),
+}));
+
+vi.mock("../../../src/indexer/metadata-refresh.js", () => ({
+  MetadataRefreshScheduler: vi.fn(function MockMetadataRefreshScheduler() {
+    return { start: vi.fn(), stop: vi.fn(), getStats: vi.fn() };
+  }),
+}));
+
 vi.mock("../../../src/logger.js", () => ({
   createChildLogger: vi.fn(() => ({
     info: vi.fn(),
@@ -87,6 +103,9 @@ vi.mock("../../../src/config.js", () => ({
   config: {
     rpcUrl: "http://localhost:8899",
     wsUrl: "ws://localhost:8900",
+    rpcEndpoints: [{ name: "default", url: "http://localhost:8899", wsUrl: "ws://localhost:8900", weight: 1 }],
+    rpcRoutes: {},
+    rpcHealthCheckIntervalMs: 30000,
     programId: "11111111111111111111111111111111",
     indexerMode: "auto",
     pollingInterval: 5000,
@@ -108,6 +127,7 @@ import { Poller } from "../../../src/indexer/poller.js";
 import { WebSocketIndexer, testWebSocketConnection } from "../../../src/indexer/websocket.js";
 import { config } from "../../../src/config.js";
 import { DataVerifier } from "../../../src/indexer/verifier.js";
+import { metrics } from "../../../src/metrics.js";
 
 describe("Processor", () => {
   let mockPrisma: ReturnType<typeof createMockPrismaClient>;
@@ -123,6 +143,8 @@ describe("Processor", () => {
     mockWsIndexerInstance.stop.mockResolvedValue(undefined);
     mockWsIndexerInstance.isActive.mockReturnValue(true);
     mockWsIndexerInstance.isRecovering.mockReturnValue(false);
+    mockPollerInstance.getLastObservedSlot.mockReturnValue(null);
+    mockWsIndexerInstance.getLastObservedSlot.mockReturnValue(null);
     mockTestWebSocketConnection.mockResolvedValue(true);
     mockVerifierInstance.start.mockResolvedValue(undefined);
     mockVerifierInstance.stop.mockResolvedValue(undefined);
@@ -239,7 +261,7 @@ describe("Processor", () => {
 
       const status = processor.getStatus();
       expect(status.running).toBe(true);
-      expect(testWebSocketConnection).toHaveBeenCalled();
+      expect(testWebSocketConnection).toHaveBeenCalledWith("http://localhost:8899", "ws://localhost:8900");
       expect(WebSocketIndexer).toHaveBeenCalled();
       // In auto mode with WS available, both are started
       expect(Poller).toHaveBeenCalled();
@@ -568,4 +590,128 @@ describe("Processor", () => {
       (config as any).verificationEnabled = false;
     });
   });
+
+  describe("getIndexingHealth", () => {
+    it("should report websocket mode and slot lag", async () => {
+      (mockPrisma.indexerState.findUnique as any).mockResolvedValue({ lastSlot: 12000n });
+
+      const processor = new Processor(mockPrisma, null, { mode: "websocket" });
+      await processor.start();
+
+      const health = await processor.getIndexingHealth();
+      expect(health).toMatchObject({
+        running: true,
+        activeMode: "websocket",
+        indexedSlot: 12000,
+        observedSlot: 12000,
+        clusterSlot: 12345,
+        slotLag: 345,
+        rpcError: null,
+        verifierLastRunAt: null,
+      });
+
+      await processor.stop();
+    });
+
+    it("should report polling fallback when WebSocket is inactive", async () => {
+      mockWsIndexerInstance.isActive.mockReturnValue(false);
+      (mockPrisma.indexerState.findUnique as any).mockResolvedValue(null);
+
+      const processor = new Processor(mockPrisma, null, { mode: "auto" });
+      await processor.start();
+
+      const health = await processor.getIndexingHealth();
+      expect(health.activeMode).toBe("polling");
+      expect(health.indexedSlot).toBeNull();
+      expect(health.slotLag).toBeNull();
+
+      await processor.stop();
+    });
+
+    it("should measure lag from the idle heartbeat when the program has no activity", async () => {
+      // Cursor stuck at the last program transaction, but the WebSocket caught up to 12340
+      (mockPrisma.indexerState.findUnique as any).mockResolvedValue({ lastSlot: 2000n });
+      mockWsIndexerInstance.getLastObservedSlot.mockReturnValue(12340);
+
+      const processor = new Processor(mockPrisma, null, { mode: "websocket" });
+      await processor.start();
+
+      const health = await processor.getIndexingHealth();
+      expect(health).toMatchObject({
+        indexedSlot: 2000,
+        observedSlot: 12340,
+        clusterSlot: 12345,
+        slotLag: 5,
+      });
+
+      await processor.stop();
+    });
+  });
+
+  describe("metrics collector", () => {
+    it("should sample poller, buffer and slot lag on scrape", async () => {
+      metrics.reset();
+      mockPollerInstance.getStats.mockReturnValue({ processedCount: 12, errorCount: 1 });
+      mockPollerInstance.getBatchStats.mockReturnValue({ bufferSize: 4, deadLetterSize: 2 });
+      (mockPrisma.indexerState.findUnique as any).mockResolvedValue({ lastSlot: 12300n });
+
+      const processor = new Processor(mockPrisma, null, { mode: "polling" });
+      await processor.start();
+
+      const output = await metrics.render();
+      expect(output).toContain('indexer_transactions_processed_total{source="poller"} 12');
+      expect(output).toContain('indexer_transaction_errors_total{source="poller"} 1');
+      expect(output).toContain("indexer_event_buffer_size 4");
+      expect(output).toContain("indexer_dead_letter_queue_size 2");
+      expect(output).toContain("indexer_cluster_slot 12345");
+      expect(output).toContain("indexer_last_indexed_slot 12300");
+      expect(output).toContain("indexer_slot_lag 45");
+
+      await processor.stop();
+    });
+
+    it("should unregister collector on stop", async () => {
+      metrics.reset();
+      mockPollerInstance.getStats.mockReturnValue({ processedCount: 5, errorCount: 0 });
+      mockPollerInstance.getBatchStats.mockReturnValue(null);
+
+      const processor = new Processor(mockPrisma, null, { mode: "polling" });
+      await processor.start();
+      await processor.stop();
+
+      const output = await metrics.render();
+      expect(output).not.toContain('indexer_transactions_processed_total{source="poller"}');
+    });
+
+    it("should export verifier FINALIZED/ORPHANED transitions", async () => {
+      (config as any).verificationEnabled = true;
+      metrics.reset();
+      mockPollerInstance.getStats.mockReturnValue({ processedCount: 0, errorCount: 0 });
+      mockPollerInstance.getBatchStats.mockReturnValue(null);
+      mockVerifierInstance.getStats.mockReturnValue({
+        agentsVerified: 3, agentsOrphaned: 1,
+        feedbacksVerified: 10, feedbacksOrphaned: 2,
+        responsesVerified: 0, responsesOrphaned: 0,
+        revocationsVerified: 0, revocationsOrphaned: 0,
+        validationsVerified: 0, validationsOrphaned: 0,
+        metadataVerified: 0, metadataOrphaned: 0,
+        registriesVerified: 0, registriesOrphaned: 0,
+        hashChainMismatches: 4, skippedRpcErrors: 0, orphansRecovered: 1,
+        lastRunAt: new Date(1700000000000), lastRunDurationMs: 1500,
+      });
+
+      const processor = new Processor(mockPrisma, null, { mode: "polling" });
+      await processor.start();
+
+      const output = await metrics.render();
+      expect(output).toContain('indexer_verifier_transitions_total{entity="agent",status="FINALIZED"} 3');
+      expect(output).toContain('indexer_verifier_transitions_total{entity="feedback",status="ORPHANED"} 2');
+      expect(output).toContain("indexer_verifier_hash_chain_mismatches_total 4");
+      expect(output).toContain("indexer_verifier_last_run_timestamp_seconds 1700000000");
+      expect(output).toContain("indexer_verifier_last_run_duration_seconds 1.5");
+
+      await processor.stop();
+      (config as any).verificationEnabled = false;
+    });
+  });
 });
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  createMockConnection,
+  createMockSignatureInfo,
+  TEST_PROGRAM_ID,
+} from "../../mocks/solana.js";
+
+const { fetchTransactions } = vi.hoisted(() => ({ fetchTransactions: vi.fn() }));
+
+vi.mock("../../../src/indexer/batch-processor.js", () => ({
+  BatchRpcFetcher: vi.fn().mockImplementation(function () {
+    return { fetchTransactions };
+  }),
+}));
+vi.mock("../../../src/indexer/signature-scan.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../src/indexer/signature-scan.js")>()),
+  fetchTxIndexMap: vi.fn(async (_conn: unknown, _slot: number, sigs: Array<{ signature: string }>) =>
+    new Map(sigs.map((s, i) => [s.signature, sigs.length - 1 - i]))
+  ),
+}));
+vi.mock("../../../src/db/handlers.js", () => ({ handleEventAtomic: vi.fn() }));
+vi.mock("../../../src/db/event-log.js", () => ({ findLoggedEvents: vi.fn() }));
+vi.mock("../../../src/parser/decoder.js", () => ({
+  parseTransaction: vi.fn((tx: { events: unknown[] }) => ({ events: tx.events })),
+  toTypedEvent: vi.fn((event: { name: string; raw: string }) =>
+    event.name === "Unknown" ? null : { type: event.name, data: {} }
+  ),
+}));
+
+import { handleEventAtomic } from "../../../src/db/handlers.js";
+import { findLoggedEvents } from "../../../src/db/event-log.js";
+import { RangeBackfill } from "../../../src/indexer/range-backfill.js";
+
+function tx(...names: string[]) {
+  return { events: names.map((name, i) => ({ name, raw: `${name}-${i}` })) };
+}
+
+describe("RangeBackfill", () => {
+  let connection: ReturnType<typeof createMockConnection>;
+
+  function createBackfill(opts: { reprocess?: boolean; batchSize?: number } = {}) {
+    return new RangeBackfill({
+      connection: connection as any,
+      prisma: null,
+      pool: null,
+      programId: TEST_PROGRAM_ID,
+      batchSize: opts.batchSize ?? 3,
+      reprocess: opts.reprocess,
+    });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    connection = createMockConnection();
+    vi.mocked(findLoggedEvents).mockResolvedValue(new Set());
+    fetchTransactions.mockImplementation(async (sigs: string[]) => new Map(sigs.map((s) => [s, tx("AgentRegistered")])));
+  });
+
+  it("keeps successful signatures inside the slot range and processes them oldest first", async () => {
+    connection.getSignaturesForAddress
+      .mockResolvedValueOnce([
+        createMockSignatureInfo("s6", 60),
+        createMockSignatureInfo("s5", 50),
+        createMockSignatureInfo("s4", 40, { InstructionError: [0, "Custom"] }),
+      ])
+      .mockResolvedValueOnce([
+        createMockSignatureInfo("s3", 30),
+        createMockSignatureInfo("s2", 20),
+        createMockSignatureInfo("s1", 10),
+      ]);
+
+    const result = await createBackfill().run({ fromSlot: 20, toSlot: 50 });
+
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(2);
+    expect(connection.getSignaturesForAddress.mock.calls[1][1]).toEqual({ limit: 3, before: "s4", until: undefined });
+    expect(vi.mocked(handleEventAtomic).mock.calls.map((c) => c[2].signature)).toEqual(["s2", "s3", "s5"]);
+    expect(result).toEqual(expect.objectContaining({ scanned: 3, processed: 3, events: 3, skipped: 0, failed: [] }));
+  });
+
+  it("tags events as backfill so the live cursor is left alone", async () => {
+    connection.getSignaturesForAddress.mockResolvedValueOnce([createMockSignatureInfo("s1", 10)]);
+    fetchTransactions.mockResolvedValue(new Map([["s1", tx("Unknown", "NewFeedback")]]));
+
+    await createBackfill().run({ before: "newer", until: "older" });
+
+    expect(connection.getSignaturesForAddress.mock.calls[0][1]).toEqual({ limit: 3, before: "newer", until: "older" });
+    expect(handleEventAtomic).toHaveBeenCalledWith(null, { type: "NewFeedback", data: {} }, expect.objectContaining({
+      signature: "s1",
+      slot: 10n,
+      txIndex: 0,
+      eventOrdinal: 1,
+      rawEvent: "NewFeedback-1",
+      source: "backfill",
+    }));
+  });
+
+  it("orders transactions within a slot by tx index", async () => {
+    connection.getSignaturesForAddress.mockResolvedValueOnce([
+      createMockSignatureInfo("b", 10),
+      createMockSignatureInfo("a", 10),
+    ]);
+
+    await createBackfill().run({ fromSlot: 0 });
+
+    // Mocked tx index map reverses the (oldest-first) scan order
+    expect(vi.mocked(handleEventAtomic).mock.calls.map((c) => [c[2].signature, c[2].txIndex])).toEqual([["b", 0], ["a", 1]]);
+  });
+
+  it("skips events already in the event log unless reprocessing", async () => {
+    connection.getSignaturesForAddress.mockResolvedValue([createMockSignatureInfo("s1", 10)]);
+    fetchTransactions.mockResolvedValue(new Map([["s1", tx("AgentRegistered", "UriUpdated")]]));
+    vi.mocked(findLoggedEvents).mockResolvedValue(new Set(["s1:0"]));
+
+    const result = await createBackfill().run({ fromSlot: 0 });
+
+    expect(findLoggedEvents).toHaveBeenCalledWith(null, null, ["s1"]);
+    expect(vi.mocked(handleEventAtomic).mock.calls.map((c) => c[2].eventOrdinal)).toEqual([1]);
+    expect(result).toEqual(expect.objectContaining({ events: 1, skipped: 1 }));
+
+    vi.mocked(handleEventAtomic).mockClear();
+    vi.mocked(findLoggedEvents).mockClear();
+    await createBackfill({ reprocess: true }).run({ fromSlot: 0 });
+
+    expect(findLoggedEvents).not.toHaveBeenCalled();
+    expect(handleEventAtomic).toHaveBeenCalledTimes(2);
+  });
+
+  it("records failed signatures and keeps going", async () => {
+    connection.getSignaturesForAddress.mockResolvedValueOnce([
+      createMockSignatureInfo("s3", 30),
+      createMockSignatureInfo("s2", 20),
+      createMockSignatureInfo("s1", 10),
+    ]);
+    fetchTransactions.mockResolvedValue(new Map([["s1", tx("AgentRegistered")], ["s3", tx("AgentRegistered")]]));
+    vi.mocked(handleEventAtomic).mockRejectedValueOnce(new Error("db down"));
+
+    const result = await createBackfill({ batchSize: 10 }).run({ toSlot: 30 });
+
+    expect(connection.getParsedTransaction).toHaveBeenCalledWith("s2", { maxSupportedTransactionVersion: 0 });
+    expect(result.failed).toEqual(["s1", "s2"]);
+    expect(result).toEqual(expect.objectContaining({ scanned: 3, processed: 1, events: 1 }));
+  });
+
+  it("rejects unbounded or inverted ranges", async () => {
+    await expect(createBackfill().run({})).rejects.toThrow("at least one of");
+    await expect(createBackfill().run({ fromSlot: 10, toSlot: 5 })).rejects.toThrow("fromSlot must not be greater than toSlot");
+    expect(connection.getSignaturesForAddress).not.toHaveBeenCalled();
+  });
+
+  it("aborts instead of backfilling a partial scan", async () => {
+    vi.useFakeTimers();
+    connection.getSignaturesForAddress.mockRejectedValue(new Error("429"));
+
+    const run = createBackfill().run({ fromSlot: 0 });
+    const assertion = expect(run).rejects.toThrow("429");
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(3);
+    expect(handleEventAtomic).not.toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+});
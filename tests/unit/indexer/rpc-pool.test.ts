@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const { connections } = vi.hoisted(() => ({
+  connections: new Map<string, Record<string, ReturnType<typeof vi.fn>>>(),
+}));
+
+vi.mock("@solana/web3.js", () => {
+  class MockConnection {
+    rpcEndpoint: string;
+    getSlot = vi.fn().mockResolvedValue(100);
+    getSignaturesForAddress = vi.fn().mockResolvedValue([]);
+    getMultipleAccountsInfo = vi.fn().mockResolvedValue([]);
+    onLogs = vi.fn();
+    removeOnLogsListener = vi.fn().mockResolvedValue(undefined);
+
+    constructor(url: string) {
+      this.rpcEndpoint = url;
+      let nextId = 0;
+      this.onLogs.mockImplementation(() => nextId++);
+      connections.set(url, this as unknown as Record<string, ReturnType<typeof vi.fn>>);
+    }
+  }
+  class SolanaJSONRPCError extends Error {
+    code: unknown;
+    constructor({ code, message }: { code: unknown; message: string }) {
+      super(message);
+      this.code = code;
+    }
+  }
+  return { Connection: MockConnection, SolanaJSONRPCError };
+});
+
+vi.mock("../../../src/logger.js", () => ({
+  createChildLogger: vi.fn(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  })),
+}));
+
+import { SolanaJSONRPCError } from "@solana/web3.js";
+import { RpcPool } from "../../../src/indexer/rpc-pool.js";
+import { metrics } from "../../../src/metrics.js";
+
+const ENDPOINTS = [
+  { name: "archive", url: "https://archive.example", weight: 1 },
+  { name: "cheap", url: "https://cheap.example", weight: 3 },
+];
+
+function conn(url: string) {
+  return connections.get(url)!;
+}
+
+describe("RpcPool", () => {
+  beforeEach(() => {
+    connections.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("requires at least one endpoint", () => {
+    expect(() => new RpcPool([])).toThrow("at least one endpoint");
+  });
+
+  it("rejects routes to unknown endpoints", () => {
+    expect(() => new RpcPool(ENDPOINTS, { routes: { getSlot: ["missing"] } })).toThrow("unknown endpoint");
+  });
+
+  it("reads plain properties from the first endpoint", () => {
+    const pool = new RpcPool(ENDPOINTS);
+    expect(pool.connection.rpcEndpoint).toBe("https://archive.example");
+  });
+
+  it("picks endpoints by weighted random draw", async () => {
+    // Total weight 4: draws below 0.25 land on archive, the rest on cheap
+    const random = vi.fn().mockReturnValueOnce(0.1).mockReturnValueOnce(0).mockReturnValueOnce(0.5);
+    const pool = new RpcPool(ENDPOINTS, { random });
+
+    await pool.connection.getSlot();
+    await pool.connection.getSlot();
+
+    expect(conn("https://archive.example").getSlot).toHaveBeenCalledTimes(1);
+    expect(conn("https://cheap.example").getSlot).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails over to the next endpoint on error", async () => {
+    const pool = new RpcPool(ENDPOINTS, { random: () => 0 });
+    conn("https://archive.example").getSlot.mockRejectedValueOnce(new Error("503"));
+
+    await expect(pool.connection.getSlot()).resolves.toBe(100);
+
+    expect(conn("https://archive.example").getSlot).toHaveBeenCalledTimes(1);
+    expect(conn("https://cheap.example").getSlot).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws the last error when every endpoint fails", async () => {
+    const pool = new RpcPool(ENDPOINTS, { random: () => 0 });
+    conn("https://archive.example").getSlot.mockRejectedValueOnce(new Error("503"));
+    conn("https://cheap.example").getSlot.mockRejectedValueOnce(new Error("429"));
+
+    await expect(pool.connection.getSlot()).rejects.toThrow("429");
+  });
+
+  it("rethrows JSON-RPC application errors without failing over", async () => {
+    const pool = new RpcPool(ENDPOINTS, { random: () => 0 });
+    const archive = conn("https://archive.example");
+    const skipped = new SolanaJSONRPCError({ code: -32007, message: "Slot 42 was skipped" });
+    archive.getSlot.mockRejectedValue(skipped);
+
+    for (let i = 0; i < 3; i++) {
+      await expect(pool.connection.getSlot()).rejects.toBe(skipped);
+    }
+
+    expect(conn("https://cheap.example").getSlot).not.toHaveBeenCalled();
+    expect(pool.getStats().find((s) => s.name === "archive")).toMatchObject({ healthy: true, errorRate: 0 });
+  });
+
+  it("still fails over on other JSON-RPC errors", async () => {
+    const pool = new RpcPool(ENDPOINTS, { random: () => 0 });
+    conn("https://archive.example").getSlot.mockRejectedValueOnce(
+      new SolanaJSONRPCError({ code: -32005, message: "Node is behind" })
+    );
+
+    await expect(pool.connection.getSlot()).resolves.toBe(100);
+    expect(conn("https://cheap.example").getSlot).toHaveBeenCalledTimes(1);
+  });
+
+  it("routes methods to their configured endpoints only", async () => {
+    const pool = new RpcPool(ENDPOINTS, {
+      routes: { getSignaturesForAddress: ["archive"], getMultipleAccountsInfo: ["cheap"] },
+      random: () => 0,
+    });
+    conn("https://archive.example").getSignaturesForAddress.mockRejectedValueOnce(new Error("503"));
+
+    await expect(pool.connection.getSignaturesForAddress({} as any)).rejects.toThrow("503");
+    await pool.connection.getMultipleAccountsInfo([]);
+
+    expect(conn("https://cheap.example").getSignaturesForAddress).not.toHaveBeenCalled();
+    expect(conn("https://cheap.example").getMultipleAccountsInfo).toHaveBeenCalledTimes(1);
+    expect(conn("https://archive.example").getMultipleAccountsInfo).not.toHaveBeenCalled();
+  });
+
+  it("puts an endpoint in cooldown after repeated failures and recovers it", async () => {
+    vi.useFakeTimers();
+    const pool = new RpcPool(ENDPOINTS, { random: () => 0 });
+    const archive = conn("https://archive.example");
+    archive.getSlot.mockRejectedValue(new Error("503"));
+
+    for (let i = 0; i < 3; i++) {
+      await pool.connection.getSlot();
+    }
+    expect(pool.getStats().find((s) => s.name === "archive")?.healthy).toBe(false);
+
+    // Cooling endpoints are skipped while a healthy one answers
+    await pool.connection.getSlot();
+    expect(archive.getSlot).toHaveBeenCalledTimes(3);
+
+    archive.getSlot.mockResolvedValue(100);
+    vi.advanceTimersByTime(5000);
+    await pool.connection.getSlot();
+
+    expect(archive.getSlot).toHaveBeenCalledTimes(4);
+    expect(pool.getStats().find((s) => s.name === "archive")?.healthy).toBe(true);
+  });
+
+  it("still tries cooling endpoints as a last resort", async () => {
+    const pool = new RpcPool([ENDPOINTS[0]], { random: () => 0 });
+    const archive = conn("https://archive.example");
+    archive.getSlot.mockRejectedValue(new Error("503"));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(pool.connection.getSlot()).rejects.toThrow("503");
+    }
+    archive.getSlot.mockResolvedValue(100);
+
+    await expect(pool.connection.getSlot()).resolves.toBe(100);
+  });
+
+  it("hands out stable subscription ids and removes them on the owning endpoint", async () => {
+    const pool = new RpcPool(ENDPOINTS, { random: () => 0 });
+    const callback = vi.fn();
+
+    const id = pool.connection.onLogs({} as any, callback);
+    expect(conn("https://archive.example").onLogs).toHaveBeenCalledWith({}, callback);
+    expect(pool.getStats().find((s) => s.name === "archive")?.subscriptions).toBe(1);
+
+    await pool.connection.removeOnLogsListener(id);
+
+    expect(conn("https://archive.example").removeOnLogsListener).toHaveBeenCalledWith(0);
+    expect(pool.getStats().every((s) => s.subscriptions === 0)).toBe(true);
+  });
+
+  it("moves subscriptions off an endpoint whose circuit opens", async () => {
+    const pool = new RpcPool(ENDPOINTS, { random: () => 0 });
+    const archive = conn("https://archive.example");
+    const cheap = conn("https://cheap.example");
+    const callback = vi.fn();
+
+    const id = pool.connection.onLogs({} as any, callback);
+    archive.getSlot.mockRejectedValue(new Error("503"));
+    for (let i = 0; i < 3; i++) {
+      await pool.connection.getSlot();
+    }
+
+    expect(cheap.onLogs).toHaveBeenCalledWith({}, callback);
+    expect(archive.removeOnLogsListener).toHaveBeenCalledWith(0);
+    expect(pool.subscriptionEndpoint().name).toBe("cheap");
+
+    await pool.connection.removeOnLogsListener(id);
+    expect(cheap.removeOnLogsListener).toHaveBeenCalledWith(0);
+  });
+
+  it("registers endpoint health with metrics while started", async () => {
+    const pool = new RpcPool(ENDPOINTS);
+    pool.start();
+    expect(await metrics.render()).toContain('indexer_rpc_endpoint_up{endpoint="cheap"} 1');
+    pool.stop();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../../../src/config.js", () => ({
+  config: {
+    searchIndexIntervalMs: 60000,
+    searchIndexBatchSize: 200,
+  },
+}));
+
+vi.mock("../../../src/logger.js", () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(() => mockLogger),
+  };
+  return {
+    createChildLogger: vi.fn(() => mockLogger),
+    logger: mockLogger,
+  };
+});
+
+vi.mock("../../../src/utils/compression.js", () => ({
+  decompressFromStorage: vi.fn(async (data: Buffer) => data.subarray(1)),
+}));
+
+import { createMockPrismaClient } from "../../mocks/prisma.js";
+import { SearchIndexer, buildSearchDocument } from "../../../src/indexer/search-indexer.js";
+
+function stored(value: string): Buffer {
+  return Buffer.concat([Buffer.from([0x00]), Buffer.from(value)]);
+}
+
+const services = JSON.stringify([
+  { name: "mcp", endpoint: "https://mcp.example", mcpTools: ["get_forecast", "get_alerts"], skills: ["forecasting"] },
+  { name: "a2a", endpoint: "https://a2a.example", a2aSkills: ["weather/summary"], domains: ["weather"] },
+  { name: "web", endpoint: "https://example.com", skills: ["forecasting"] },
+]);
+
+describe("buildSearchDocument", () => {
+  it("collects registration fields, service lists and on-chain values", () => {
+    const doc = buildSearchDocument([
+      { key: "_uri:name", value: "Weather Bot" },
+      { key: "_uri:description", value: "Forecasts for any city" },
+      { key: "_uri:services", value: services },
+      { key: "_uri:domains", value: '["climate","weather"]' },
+      { key: "_uri:_status", value: '{"status":"ok"}' },
+      { key: "category", value: "forecasting\nand alerts" },
+      { key: "avatar", value: "��binary" },
+    ]);
+
+    expect(doc).toEqual({
+      name: "Weather Bot",
+      description: "Forecasts for any city",
+      tools: ["get_forecast", "get_alerts"],
+      skills: ["forecasting", "weather/summary"],
+      domains: ["weather", "climate"],
+      metadataText: "category forecasting and alerts",
+    });
+  });
+
+  it("tolerates missing and malformed fields", () => {
+    expect(buildSearchDocument([
+      { key: "_uri:services", value: "{not json" },
+      { key: "_uri:skills", value: '{"a":1}' },
+    ])).toEqual({ name: null, description: null, tools: [], skills: [], domains: [], metadataText: "" });
+  });
+});
+
+describe("SearchIndexer", () => {
+  it("rebuilds stale documents and removes orphaned ones (Prisma)", async () => {
+    const prisma = createMockPrismaClient();
+    const updatedAt = new Date("2026-01-01T00:00:00Z");
+    (prisma.agentMetadata.groupBy as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { agentId: "Fresh", _count: { _all: 2 }, _max: { updatedAt } },
+      { agentId: "Changed", _count: { _all: 1 }, _max: { updatedAt } },
+      { agentId: "Unchanged", _count: { _all: 1 }, _max: { updatedAt } },
+    ]);
+    (prisma.agentSearchDocument.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { agentId: "Changed", sourceCount: 1, sourceUpdatedAt: new Date("2025-12-31T00:00:00Z") },
+      { agentId: "Unchanged", sourceCount: 1, sourceUpdatedAt: updatedAt },
+      { agentId: "Gone", sourceCount: 3, sourceUpdatedAt: null },
+    ]);
+    (prisma.agentMetadata.findMany as ReturnType<typeof vi.fn>).mockImplementation(async ({ where }) =>
+      where.agentId === "Gone"
+        ? []
+        : [{ key: "_uri:name", value: stored(`${where.agentId} Bot`) }, { key: "tier", value: stored("gold") }]
+    );
+
+    const indexer = new SearchIndexer(prisma, null);
+    await indexer.start();
+    const count = await indexer.index();
+    await indexer.stop();
+
+    expect(count).toBe(3);
+    expect(prisma.agentSearchDocument.upsert).toHaveBeenCalledTimes(2);
+    expect(prisma.agentSearchDocument.upsert).toHaveBeenCalledWith({
+      where: { agentId: "Fresh" },
+      create: expect.objectContaining({ agentId: "Fresh", name: "Fresh Bot", metadataText: "tier gold", skills: "[]", sourceCount: 2, sourceUpdatedAt: updatedAt }),
+      update: expect.objectContaining({ name: "Fresh Bot", sourceCount: 2 }),
+    });
+    expect(prisma.agentSearchDocument.deleteMany).toHaveBeenCalledWith({ where: { agentId: "Gone" } });
+    expect(indexer.getStats()).toMatchObject({ documentsIndexed: 2, documentsRemoved: 1 });
+  });
+
+  it("writes a weighted tsvector document (pg)", async () => {
+    const query = vi.fn().mockImplementation(async (sql: string) => {
+      if (sql.includes("LEFT JOIN LATERAL")) {
+        return { rows: [{ asset: "Asset111", source_count: 2, source_updated_at: "2026-01-01 00:00:00.123456+00" }] };
+      }
+      if (sql.startsWith("SELECT key, value FROM metadata")) {
+        return { rows: [{ key: "_uri:services", value: stored(services) }, { key: "_uri:name", value: stored("Weather Bot") }] };
+      }
+      return { rows: [] };
+    });
+
+    const indexer = new SearchIndexer(null, { query } as any, 60000, 50);
+    await indexer.start();
+    await indexer.index();
+    await indexer.stop();
+
+    expect(query.mock.calls[0][1]).toEqual([50]);
+    const [sql, params] = query.mock.calls[2];
+    expect(sql).toContain("setweight(to_tsvector('simple', COALESCE($2::text, '')), 'A')");
+    expect(sql).toContain("ON CONFLICT (asset) DO UPDATE");
+    expect(params).toEqual([
+      "Asset111",
+      "Weather Bot",
+      null,
+      ["get_forecast", "get_alerts"],
+      ["forecasting", "weather/summary"],
+      ["weather"],
+      "",
+      2,
+      "2026-01-01 00:00:00.123456+00",
+    ]);
+  });
+
+  it("skips cycles when stopped", async () => {
+    const prisma = createMockPrismaClient();
+    expect(await new SearchIndexer(prisma, null).index()).toBe(0);
+    expect(prisma.agentMetadata.groupBy).not.toHaveBeenCalled();
+  });
+});
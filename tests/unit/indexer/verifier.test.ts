@@ -11,9 +11,31 @@ vi.mock("../../../src/config.js", () => ({
     verifyMaxRetries: 3,
     verifyRecoveryCycles: 10,
     verifyRecoveryBatchSize: 50,
+    verifyRepairEnabled: true,
+    verifyRepairBatchSize: 10,
   },
 }));
 
+const { repairer } = vi.hoisted(() => ({
+  repairer: {
+    findGapFillSlot: vi.fn(),
+    markGapFill: vi.fn(),
+    listGapFills: vi.fn(),
+    clearGapFill: vi.fn(),
+    recordRepair: vi.fn(),
+    fetchChainEvents: vi.fn(),
+    repairChain: vi.fn(),
+    verifyChain: vi.fn(),
+  },
+}));
+
+vi.mock("../../../src/indexer/chain-repair.js", () => ({
+  CHAIN_TYPES: ["feedback", "response", "revoke"],
+  ChainRepairer: vi.fn().mockImplementation(function () {
+    return repairer;
+  }),
+}));
+
 vi.mock("../../../src/logger.js", () => {
   const mockLogger = {
     info: vi.fn(),
@@ -172,6 +194,14 @@ describe("DataVerifier", () => {
     mockConnection = createMockConnection();
     mockPrisma = createMockPrisma();
     mockPool = createMockPool();
+    repairer.findGapFillSlot.mockReset().mockResolvedValue(null);
+    repairer.markGapFill.mockReset().mockResolvedValue(undefined);
+    repairer.listGapFills.mockReset().mockResolvedValue([]);
+    repairer.clearGapFill.mockReset().mockResolvedValue(undefined);
+    repairer.recordRepair.mockReset().mockResolvedValue(undefined);
+    repairer.fetchChainEvents.mockReset().mockResolvedValue({ feedback: [], response: [], revoke: [] });
+    repairer.repairChain.mockReset();
+    repairer.verifyChain.mockReset().mockResolvedValue(true);
     // Patch sleep to resolve instantly under fake timers
     (DataVerifier.prototype as any).sleep = () => Promise.resolve();
   });
@@ -2589,4 +2619,131 @@ describe("DataVerifier", () => {
       expect(result).toBeNull();
     });
   });
+
+  describe("hash-chain repair", () => {
+    const agentId = AGENT_KEY.toBase58();
+
+    function mockOnChainFeedbackHead() {
+      mockConnection.getAccountInfo.mockResolvedValue({
+        data: buildAgentAccountData({
+          feedbackDigest: new Uint8Array(32).fill(0xaa),
+          feedbackCount: 2n,
+        }),
+      });
+    }
+
+    it("queues a gap fill from the last good slot on digest mismatch", async () => {
+      mockPrisma.feedback.findMany
+        .mockResolvedValueOnce([{ id: "f1", agentId }])
+        .mockResolvedValue([]);
+      mockConnection.getMultipleAccountsInfo.mockResolvedValue([{ data: Buffer.alloc(10) }]);
+      mockOnChainFeedbackHead();
+      mockPrisma.feedback.findFirst.mockResolvedValue({
+        runningDigest: Buffer.from(new Uint8Array(32).fill(0xbb)),
+      });
+      mockPrisma.feedback.count.mockResolvedValue(2);
+      repairer.findGapFillSlot.mockResolvedValue(500n);
+
+      const verifier = new DataVerifier(mockConnection, mockPrisma, null);
+      await verifier.start();
+
+      expect(repairer.findGapFillSlot).toHaveBeenCalledWith(agentId, "feedback", {
+        digest: Buffer.from(new Uint8Array(32).fill(0xaa)),
+        count: 2n,
+      });
+      expect(repairer.markGapFill).toHaveBeenCalledWith(agentId, 500n);
+      await verifier.stop();
+    });
+
+    it("repairs flagged chains, re-verifies and records the outcome", async () => {
+      mockOnChainFeedbackHead();
+      repairer.listGapFills.mockResolvedValue([{ agentId, fromSlot: 500n }]);
+      // Feedback chain broken before the repair, consistent after it
+      repairer.verifyChain.mockImplementation(async (_agent: string, chain: string) => chain !== "feedback");
+      repairer.repairChain.mockImplementation(async () => {
+        repairer.verifyChain.mockResolvedValue(true);
+        return { chain: "feedback", divergentCount: 2n, updated: 1, inserted: 0, orphaned: 1 };
+      });
+
+      const verifier = new DataVerifier(mockConnection, mockPrisma, null);
+      await verifier.start();
+
+      expect(repairer.clearGapFill).toHaveBeenCalledWith(agentId);
+      expect(repairer.fetchChainEvents).toHaveBeenCalledWith(agentId, 500n);
+      expect(repairer.repairChain).toHaveBeenCalledTimes(1);
+      expect(repairer.repairChain).toHaveBeenCalledWith(
+        agentId, "feedback", [], expect.objectContaining({ count: 2n }), 100000n, false
+      );
+      expect(repairer.recordRepair).toHaveBeenCalledWith(expect.objectContaining({
+        agentId,
+        chain: "feedback",
+        status: "REPAIRED",
+        fromSlot: 500n,
+        onChainCount: 2n,
+        divergentCount: 2n,
+        updated: 1,
+        orphaned: 1,
+      }));
+      expect(repairer.markGapFill).not.toHaveBeenCalled();
+      expect(verifier.getStats().hashChainRepaired).toBe(1);
+      await verifier.stop();
+    });
+
+    it("re-flags unresolved chains for a full-history repair", async () => {
+      mockOnChainFeedbackHead();
+      repairer.listGapFills.mockResolvedValue([{ agentId, fromSlot: 500n }]);
+      repairer.verifyChain.mockImplementation(async (_agent: string, chain: string) => chain !== "feedback");
+      repairer.repairChain.mockResolvedValue({ chain: "feedback", divergentCount: null, updated: 0, inserted: 0, orphaned: 0 });
+
+      const verifier = new DataVerifier(mockConnection, mockPrisma, null);
+      await verifier.start();
+
+      expect(repairer.recordRepair).toHaveBeenCalledWith(expect.objectContaining({ status: "UNRESOLVED" }));
+      expect(repairer.markGapFill).toHaveBeenCalledWith(agentId, null);
+      expect(verifier.getStats().hashChainRepairUnresolved).toBe(1);
+      await verifier.stop();
+    });
+
+    it("records a failure and keeps the start slot when history cannot be fetched", async () => {
+      mockOnChainFeedbackHead();
+      repairer.listGapFills.mockResolvedValue([{ agentId, fromSlot: 500n }]);
+      repairer.verifyChain.mockImplementation(async (_agent: string, chain: string) => chain !== "feedback");
+      repairer.fetchChainEvents.mockRejectedValue(new Error("429"));
+
+      const verifier = new DataVerifier(mockConnection, mockPrisma, null);
+      await verifier.start();
+
+      expect(repairer.repairChain).not.toHaveBeenCalled();
+      expect(repairer.recordRepair).toHaveBeenCalledWith(expect.objectContaining({
+        status: "FAILED",
+        error: "History fetch failed: 429",
+      }));
+      expect(repairer.markGapFill).toHaveBeenCalledWith(agentId, 500n);
+      expect(verifier.getStats().hashChainRepairFailed).toBe(1);
+      await verifier.stop();
+    });
+
+    it("re-flags the agent when on-chain digests are unavailable", async () => {
+      repairer.listGapFills.mockResolvedValue([{ agentId, fromSlot: null }]);
+
+      const verifier = new DataVerifier(mockConnection, mockPrisma, null);
+      await verifier.start();
+
+      expect(repairer.verifyChain).not.toHaveBeenCalled();
+      expect(repairer.markGapFill).toHaveBeenCalledWith(agentId, null);
+      await verifier.stop();
+    });
+
+    it("does nothing when repair is disabled", async () => {
+      const { config } = await import("../../../src/config.js");
+      (config as any).verifyRepairEnabled = false;
+
+      const verifier = new DataVerifier(mockConnection, mockPrisma, null);
+      await verifier.start();
+
+      expect(repairer.listGapFills).not.toHaveBeenCalled();
+      (config as any).verifyRepairEnabled = true;
+      await verifier.stop();
+    });
+  });
 });
@@ -395,7 +395,7 @@ describe("WebSocketIndexer Coverage", () => {
       });
     });
 
-    it("should handle prisma eventLog.create failure gracefully", async () => {
+    it("should leave processed events to the handler event log", async () => {
       createIndexer();
       await wsIndexer.start();
 
@@ -408,7 +408,7 @@ describe("WebSocketIndexer Coverage", () => {
       };
       const logs = createEventLogs("AgentRegistered", eventData);
 
-      // handleEventAtomic succeeds but eventLog.create fails
+      // handleEventAtomic succeeds; processed events are logged by the handler, not here
       vi.mocked(handleEventAtomic).mockResolvedValue(undefined);
       (mockPrisma.eventLog.create as any).mockRejectedValue(
         new Error("Prisma write failed")
@@ -421,8 +421,7 @@ describe("WebSocketIndexer Coverage", () => {
 
       await new Promise((r) => setTimeout(r, 100));
 
-      // Should still advance cursor despite eventLog failure
-      // (eventLog failure is caught and logged)
+      expect(mockPrisma.eventLog.create).not.toHaveBeenCalled();
       expect(mockPrisma.indexerState.upsert).toHaveBeenCalled();
     });
 
@@ -651,10 +650,10 @@ describe("WebSocketIndexer Coverage", () => {
       };
       const logs = createEventLogs("AgentRegistered", eventData);
 
-      vi.mocked(handleEventAtomic).mockResolvedValue(undefined);
+      vi.mocked(handleEventAtomic).mockRejectedValue(new Error("Handler error"));
 
-      // handleLogs should not crash even when eventLog.create fails
-      // (the prisma error is caught internally at line 339-344)
+      // handleLogs should not crash even when logging the failure fails
+      // (the prisma error is caught internally)
       await (wsIndexer as any).handleLogs(
         { signature: TEST_SIGNATURE, err: null, logs },
         { slot: Number(TEST_SLOT) }
@@ -229,13 +229,14 @@ describe("WebSocketIndexer", () => {
       // Wait for queue to process
       await new Promise((r) => setTimeout(r, 50));
 
-      // Should have processed the event
-      expect(mockPrisma.eventLog.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
+      // Should have processed the event and appended it to the event log
+      expect(mockPrisma.eventLog.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({
           eventType: "AgentRegistered",
           processed: true,
         }),
-      });
+      }));
+      expect(mockPrisma.eventLog.create).not.toHaveBeenCalled();
 
       // Should have updated indexer state
       expect(mockPrisma.indexerState.upsert).toHaveBeenCalled();
@@ -380,7 +381,7 @@ describe("WebSocketIndexer", () => {
       await new Promise((r) => setTimeout(r, 50));
 
       // Should have created at least one event log (Anchor parser behavior varies)
-      expect(mockPrisma.eventLog.create).toHaveBeenCalled();
+      expect(mockPrisma.eventLog.upsert).toHaveBeenCalled();
     });
   });
 
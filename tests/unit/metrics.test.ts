@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from "vitest";
+import { MetricsRegistry, metrics, eventsProcessedTotal } from "../../src/metrics.js";
+
+describe("MetricsRegistry", () => {
+  it("should render counters with HELP/TYPE headers and sorted labels", async () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("test_events_total", "Test events");
+
+    counter.inc({ type: "NewFeedback" });
+    counter.inc({ type: "NewFeedback" }, 2);
+    counter.inc({ type: "AgentRegistered", b: "x" });
+
+    const output = await registry.render();
+    expect(output).toContain("# HELP test_events_total Test events");
+    expect(output).toContain("# TYPE test_events_total counter");
+    expect(output).toContain('test_events_total{type="NewFeedback"} 3');
+    expect(output).toContain('test_events_total{b="x",type="AgentRegistered"} 1');
+    expect(output.endsWith("\n")).toBe(true);
+  });
+
+  it("should ignore negative counter increments", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("test_total", "Test");
+
+    counter.inc({}, 5);
+    counter.inc({}, -3);
+
+    expect(counter.get()).toBe(5);
+  });
+
+  it("should render unlabeled gauges and support removal", async () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge("test_slot", "Test slot");
+
+    gauge.set({}, 42);
+    expect(await registry.render()).toContain("test_slot 42");
+
+    gauge.remove();
+    expect(await registry.render()).not.toContain("test_slot 42");
+  });
+
+  it("should escape label values", async () => {
+    const registry = new MetricsRegistry();
+    registry.gauge("test_gauge", "Test").set({ reason: 'a"b\\c\nd' }, 1);
+
+    expect(await registry.render()).toContain('test_gauge{reason="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it("should render cumulative histogram buckets", async () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram("test_duration_seconds", "Test duration", [1, 0.1]);
+
+    histogram.observe(0.05, { outcome: "ok" });
+    histogram.observe(0.5, { outcome: "ok" });
+    histogram.observe(3, { outcome: "ok" });
+
+    const output = await registry.render();
+    expect(output).toContain("# TYPE test_duration_seconds histogram");
+    expect(output).toContain('test_duration_seconds_bucket{le="0.1",outcome="ok"} 1');
+    expect(output).toContain('test_duration_seconds_bucket{le="1",outcome="ok"} 2');
+    expect(output).toContain('test_duration_seconds_bucket{le="+Inf",outcome="ok"} 3');
+    expect(output).toContain('test_duration_seconds_sum{outcome="ok"} 3.55');
+    expect(output).toContain('test_duration_seconds_count{outcome="ok"} 3');
+  });
+
+  it("should reject duplicate metric names", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("dup_total", "Dup");
+
+    expect(() => registry.gauge("dup_total", "Dup")).toThrow("already registered");
+  });
+
+  it("should run collectors before rendering", async () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge("test_lag", "Test lag");
+    registry.registerCollector("lag", async () => {
+      gauge.set({}, 7);
+    });
+
+    expect(await registry.render()).toContain("test_lag 7");
+  });
+
+  it("should replace collectors registered under the same name", async () => {
+    const registry = new MetricsRegistry();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    registry.registerCollector("processor", first);
+    registry.registerCollector("processor", second);
+    await registry.collect();
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    registry.unregisterCollector("processor");
+    await registry.collect();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep rendering when a collector fails", async () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge("test_ok", "Test ok");
+    registry.registerCollector("broken", () => {
+      throw new Error("rpc down");
+    });
+    registry.registerCollector("working", () => {
+      gauge.set({}, 1);
+    });
+
+    expect(await registry.render()).toContain("test_ok 1");
+  });
+
+  it("should clear recorded values on reset", async () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("test_reset_total", "Test");
+    counter.inc();
+
+    registry.reset();
+
+    expect(counter.get()).toBe(0);
+    expect(await registry.render()).not.toContain("test_reset_total 1");
+  });
+});
+
+describe("default registry", () => {
+  it("should expose indexer metrics", async () => {
+    metrics.reset();
+    eventsProcessedTotal.inc({ type: "NewFeedback" });
+
+    const output = await metrics.render();
+    expect(output).toContain('indexer_events_processed_total{type="NewFeedback"} 1');
+    expect(output).toContain("# TYPE indexer_slot_lag gauge");
+    expect(output).toContain("# TYPE indexer_event_buffer_flush_duration_seconds histogram");
+    expect(output).toContain("# TYPE indexer_verifier_transitions_total counter");
+  });
+});
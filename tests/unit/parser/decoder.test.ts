@@ -4,6 +4,7 @@ import {
   parseTransactionLogs,
   parseTransaction,
   toTypedEvent,
+  decodeRawEvent,
   idl,
   eventParser,
   IDL_VERSION,
@@ -176,6 +177,52 @@ describe("Parser Decoder", () => {
     });
   });
 
+  describe("raw event payload", () => {
+    it("should keep the logged Anchor payload and decode it back", () => {
+      const eventData = {
+        asset: TEST_ASSET,
+        collection: TEST_COLLECTION,
+        owner: TEST_OWNER,
+        atomEnabled: true,
+        agentUri: "ipfs://QmTest",
+      };
+      const logs = createEventLogs("AgentRegistered", eventData);
+      const logged = logs.find((l) => l.startsWith("Program data: "))!.slice("Program data: ".length);
+
+      const [parsed] = parseTransactionLogs(logs);
+      expect(parsed.raw).toBe(logged);
+
+      const decoded = decodeRawEvent(parsed.raw!);
+      expect(decoded).toEqual(toTypedEvent(parsed));
+      expect(decoded!.type).toBe("AgentRegistered");
+    });
+
+    it("should store the logged bytes even when they carry data the IDL does not know", () => {
+      const logs = createEventLogs("AgentRegistered", {
+        asset: TEST_ASSET,
+        collection: TEST_COLLECTION,
+        owner: TEST_OWNER,
+        atomEnabled: true,
+        agentUri: "ipfs://QmTest",
+      });
+      const index = logs.findIndex((l) => l.startsWith("Program data: "));
+      const extended = Buffer.concat([
+        Buffer.from(logs[index].slice("Program data: ".length), "base64"),
+        Buffer.from([1, 2, 3]),
+      ]).toString("base64");
+      logs[index] = `Program data: ${extended}`;
+
+      const [parsed] = parseTransactionLogs(logs);
+      expect(parsed.name).toBe("AgentRegistered");
+      expect(parsed.raw).toBe(extended);
+    });
+
+    it("should return null for undecodable payloads", () => {
+      expect(decodeRawEvent("")).toBeNull();
+      expect(decodeRawEvent(Buffer.from("not an event").toString("base64"))).toBeNull();
+    });
+  });
+
   describe("parseTransaction", () => {
     it("should return null for transaction without logs", () => {
       const tx = {
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+import { createMockPrismaClient } from "../../mocks/prisma.js";
+import { AgentSearch, ensureLocalSearchIndex, ftsMatchExpression, searchTerms } from "../../../src/services/agent-search.js";
+
+const page = { limit: 20, offset: 0 };
+
+describe("searchTerms / ftsMatchExpression", () => {
+  it("splits on whitespace and quotes every term for FTS5", () => {
+    const terms = searchTerms('  weather  "bot" NEAR(x) ');
+    expect(terms).toEqual(["weather", '"bot"', "NEAR(x)"]);
+    expect(ftsMatchExpression(terms)).toBe('"weather" """bot""" "NEAR(x)"');
+  });
+});
+
+describe("AgentSearch", () => {
+  it("returns nothing for a blank query", async () => {
+    const query = vi.fn();
+    const result = await new AgentSearch(null, { query } as any).search({ query: "   ", ...page });
+    expect(result).toEqual({ hits: [], total: 0, facets: { skills: [], domains: [], collections: [] } });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("ranks tsvector matches and counts facets over all matches (pg)", async () => {
+    const query = vi.fn().mockImplementation(async (sql: string) => {
+      if (sql.includes("ts_headline")) {
+        return {
+          rows: [{
+            asset: "Asset111",
+            owner: "Owner111",
+            collection: "Col111",
+            name: "Weather Bot",
+            score: "0.4",
+            name_highlight: "<mark>Weather</mark> Bot",
+            description_snippet: "",
+          }],
+        };
+      }
+      return {
+        rows: [
+          { facet: "skill", value: "forecasting", count: "1" },
+          { facet: "skill", value: "alerts", count: "3" },
+          { facet: "domain", value: "weather", count: "3" },
+          { facet: "collection", value: "Col111", count: "3" },
+          { facet: "total", value: null, count: "3" },
+        ],
+      };
+    });
+
+    const result = await new AgentSearch(null, { query } as any).search({
+      query: "weather bot",
+      skill: "forecasting",
+      collection: "Col111",
+      limit: 10,
+      offset: 5,
+    });
+
+    const [hitsSql, hitsParams] = query.mock.calls[0];
+    expect(hitsSql).toContain("s.document @@ plainto_tsquery('simple', $1)");
+    expect(hitsSql).toContain("$2 = ANY(s.skills)");
+    expect(hitsSql).toContain("a.collection = $3");
+    expect(hitsSql).toContain("LIMIT $4::int OFFSET $5::int");
+    expect(hitsParams).toEqual(["weather bot", "forecasting", "Col111", 10, 5]);
+    expect(query.mock.calls[1][1]).toEqual(["weather bot", "forecasting", "Col111"]);
+    expect(result).toEqual({
+      hits: [{
+        asset: "Asset111",
+        owner: "Owner111",
+        collection: "Col111",
+        name: "Weather Bot",
+        score: 0.4,
+        nameHighlight: "<mark>Weather</mark> Bot",
+        descriptionSnippet: null,
+      }],
+      total: 3,
+      facets: {
+        skills: [{ value: "alerts", count: 3 }, { value: "forecasting", count: 1 }],
+        domains: [{ value: "weather", count: 3 }],
+        collections: [{ value: "Col111", count: 3 }],
+      },
+    });
+  });
+
+  it("queries the FTS5 table and counts facets from JSON lists in SQL (Prisma)", async () => {
+    const prisma = createMockPrismaClient();
+    const $queryRaw = vi.fn()
+      .mockResolvedValueOnce([{
+        asset: "AgentA",
+        owner: "OwnerA",
+        collection: "Col111",
+        name: "Weather Bot",
+        score: 1.5,
+        name_highlight: "<mark>Weather</mark> Bot",
+        description_snippet: "Forecasts <mark>weather</mark>",
+      }])
+      .mockResolvedValueOnce([
+        { facet: "skill", value: "alerts", count: 1n },
+        { facet: "skill", value: "forecasting", count: 2n },
+        { facet: "domain", value: "weather", count: 1n },
+        { facet: "collection", value: "Col111", count: 1n },
+        { facet: "collection", value: "Col222", count: 1n },
+        { facet: "total", value: null, count: 2n },
+      ]);
+    (prisma as any).$queryRaw = $queryRaw;
+
+    const result = await new AgentSearch(prisma, null).search({ query: "weather", domain: "weather", ...page });
+
+    const [strings, ...values] = $queryRaw.mock.calls[0];
+    const sql = Prisma.sql(strings, ...values);
+    expect(sql.sql).toContain("agent_search_fts MATCH ?");
+    expect(sql.sql).toContain('json_each(d."domains")');
+    expect(sql.values).toEqual(expect.arrayContaining(['"weather"', "weather", 20, 0]));
+    const [facetStrings, ...facetValues] = $queryRaw.mock.calls[1];
+    const facetSql = Prisma.sql(facetStrings, ...facetValues);
+    expect(facetSql.sql).toContain("json_each(CASE WHEN json_valid(matches.skills)");
+    expect(facetSql.sql).toContain("GROUP BY j.value");
+    expect(facetSql.sql).toContain("SELECT 'total', NULL, COUNT(*) FROM matches");
+    expect(facetSql.sql).not.toContain("LIMIT");
+    expect(result.total).toBe(2);
+    expect(result.hits[0]).toMatchObject({ asset: "AgentA", score: 1.5, descriptionSnippet: "Forecasts <mark>weather</mark>" });
+    expect(result.facets).toEqual({
+      skills: [{ value: "forecasting", count: 2 }, { value: "alerts", count: 1 }],
+      domains: [{ value: "weather", count: 1 }],
+      collections: [{ value: "Col111", count: 1 }, { value: "Col222", count: 1 }],
+    });
+  });
+});
+
+describe("ensureLocalSearchIndex", () => {
+  function prismaWithFts(exists: boolean) {
+    const prisma = createMockPrismaClient() as any;
+    prisma.$queryRaw = vi.fn().mockResolvedValue(exists ? [{ name: "agent_search_fts" }] : []);
+    prisma.$executeRawUnsafe = vi.fn().mockResolvedValue(0);
+    return prisma;
+  }
+
+  it("creates the FTS5 table and triggers idempotently, then rebuilds a new index", async () => {
+    const prisma = prismaWithFts(false);
+
+    expect(await ensureLocalSearchIndex(prisma)).toBe(true);
+
+    const statements: string[] = prisma.$executeRawUnsafe.mock.calls.map((c: any[]) => c[0]);
+    expect(statements[0]).toContain('CREATE VIRTUAL TABLE IF NOT EXISTS "agent_search_fts" USING fts5');
+    expect(statements.filter((s) => s.startsWith("CREATE TRIGGER IF NOT EXISTS"))).toHaveLength(3);
+    expect(statements[statements.length - 1]).toContain("VALUES ('rebuild')");
+  });
+
+  it("leaves an existing index alone", async () => {
+    const prisma = prismaWithFts(true);
+
+    expect(await ensureLocalSearchIndex(prisma)).toBe(false);
+
+    const statements: string[] = prisma.$executeRawUnsafe.mock.calls.map((c: any[]) => c[0]);
+    expect(statements.some((s) => s.includes("rebuild"))).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+import { createMockPrismaClient } from "../../mocks/prisma.js";
+import { TEST_CLIENT } from "../../mocks/solana.js";
+import { ClientProfiles } from "../../../src/services/client-profile.js";
+
+const CLIENT_ID = TEST_CLIENT.toBase58();
+const ms = (iso: string) => BigInt(new Date(iso).getTime());
+
+describe("ClientProfiles", () => {
+  it("aggregates feedbacks and revocations of a client in SQL (Prisma)", async () => {
+    const prisma = createMockPrismaClient() as any;
+    prisma.$queryRaw = vi.fn()
+      .mockResolvedValueOnce([{
+        feedback_count: 3n,
+        agents_rated: 2n,
+        unique_events: 1n,
+        flagged: 2n,
+        first_at: ms("2026-01-02T00:00:00Z"),
+        last_at: ms("2026-01-04T00:00:00Z"),
+        revocation_count: 1n,
+        revoked_first_at: ms("2026-01-06T00:00:00Z"),
+        revoked_last_at: ms("2026-01-06T00:00:00Z"),
+      }])
+      .mockResolvedValueOnce([
+        { value: "9000", value_decimals: 2, feedback_count: 1n },
+        { value: "70", value_decimals: 0, feedback_count: 1n },
+        { value: "50", value_decimals: 0, feedback_count: 1n },
+      ]);
+
+    const profile = await new ClientProfiles(prisma, null).get(CLIENT_ID);
+
+    expect(prisma.feedback.findMany).not.toHaveBeenCalled();
+    const [strings, ...values] = prisma.$queryRaw.mock.calls[0];
+    const sql = Prisma.sql(strings, ...values);
+    expect(sql.sql).toContain('COUNT(DISTINCT "agentId") AS agents_rated');
+    expect(sql.sql).toContain('FROM "Revocation"');
+    expect(sql.sql).toContain(`"status" != 'ORPHANED'`);
+    expect(sql.values).toEqual([CLIENT_ID, CLIENT_ID]);
+    const [valueStrings, ...valueValues] = prisma.$queryRaw.mock.calls[1];
+    expect(Prisma.sql(valueStrings, ...valueValues).sql).toContain('GROUP BY "value", "valueDecimals"');
+    expect(profile).toEqual({
+      address: CLIENT_ID,
+      feedbackCount: 3,
+      agentsRated: 2,
+      revocationCount: 1,
+      averageValue: "70",
+      firstActivity: new Date("2026-01-02T00:00:00Z"),
+      lastActivity: new Date("2026-01-06T00:00:00Z"),
+      uniqueClientEvents: 1,
+      uniqueClientShare: 0.5,
+    });
+  });
+
+  it("returns null for an address without feedback", async () => {
+    const prisma = createMockPrismaClient() as any;
+    prisma.$queryRaw = vi.fn().mockResolvedValue([{
+      feedback_count: 0n, agents_rated: 0n, unique_events: 0n, flagged: 0n, first_at: null, last_at: null,
+      revocation_count: 0n, revoked_first_at: null, revoked_last_at: null,
+    }]);
+
+    expect(await new ClientProfiles(prisma, null).get(CLIENT_ID)).toBeNull();
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it("aggregates in SQL on the pg path", async () => {
+    const query = vi.fn().mockResolvedValue({
+      rows: [{
+        feedback_count: "4",
+        agents_rated: "3",
+        average_value: "82.25",
+        unique_events: "1",
+        flagged: "0",
+        revocation_count: "2",
+        first_activity: "2026-01-01T00:00:00Z",
+        last_activity: "2026-02-01T00:00:00Z",
+      }],
+    });
+
+    const profile = await new ClientProfiles(null, { query } as any).get(CLIENT_ID);
+
+    expect(query.mock.calls[0][0]).toContain("COUNT(*) FILTER (WHERE is_unique_client)");
+    expect(query.mock.calls[0][1]).toEqual([CLIENT_ID]);
+    expect(profile).toEqual(expect.objectContaining({
+      feedbackCount: 4,
+      agentsRated: 3,
+      revocationCount: 2,
+      averageValue: "82.25",
+      lastActivity: new Date("2026-02-01T00:00:00Z"),
+      uniqueClientShare: null,
+    }));
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockPrismaClient } from "../../mocks/prisma.js";
+import { TEST_ASSET, TEST_CLIENT, TEST_OWNER } from "../../mocks/solana.js";
+import { DivergenceLocator } from "../../../src/services/divergence-locator.js";
+import { nextChainDigest } from "../../../src/services/replay-verifier.js";
+
+const AGENT_ID = TEST_ASSET.toBase58();
+const CLIENT_ID = TEST_CLIENT.toBase58();
+const OWNER_ID = TEST_OWNER.toBase58();
+
+function makeSealHash(index: number): Buffer {
+  const buf = Buffer.alloc(32);
+  buf.writeUInt32LE(index);
+  return buf;
+}
+
+function makeFeedbackRows(count: number) {
+  const rows = [];
+  let digest = Buffer.alloc(32);
+  for (let i = 0; i < count; i++) {
+    const row = {
+      id: `fb-${i}`,
+      agentId: AGENT_ID,
+      client: CLIENT_ID,
+      feedbackIndex: BigInt(i),
+      feedbackHash: new Uint8Array(makeSealHash(i)),
+      createdSlot: 100n + BigInt(i),
+      createdTxSignature: `sig-${i}`,
+      status: "FINALIZED",
+      runningDigest: null as Uint8Array | null,
+    };
+    digest = nextChainDigest("feedback", digest, {
+      asset: row.agentId,
+      client: row.client,
+      feedbackIndex: row.feedbackIndex,
+      slot: row.createdSlot,
+      feedbackHash: row.feedbackHash,
+    });
+    row.runningDigest = new Uint8Array(digest);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Digests a replay of the current rows would store as checkpoints */
+function replayCheckpoints(rows: ReturnType<typeof makeFeedbackRows>, every: number) {
+  const checkpoints = [];
+  let digest = Buffer.alloc(32);
+  rows.forEach((row, i) => {
+    digest = nextChainDigest("feedback", digest, {
+      asset: row.agentId,
+      client: row.client,
+      feedbackIndex: row.feedbackIndex,
+      slot: row.createdSlot,
+      feedbackHash: row.feedbackHash,
+    });
+    if ((i + 1) % every === 0) {
+      checkpoints.push({ agentId: AGENT_ID, chainType: "feedback", eventCount: BigInt(i + 1), digest: digest.toString("hex") });
+    }
+  });
+  return checkpoints;
+}
+
+describe("DivergenceLocator", () => {
+  let prisma: ReturnType<typeof createMockPrismaClient>;
+  let rows: ReturnType<typeof makeFeedbackRows>;
+
+  function serveRows() {
+    (prisma.feedback.count as ReturnType<typeof vi.fn>).mockImplementation(async () => rows.length);
+    (prisma.feedback.findMany as ReturnType<typeof vi.fn>).mockImplementation(
+      async (args: { skip: number; take: number }) => rows.slice(args.skip, args.skip + args.take)
+    );
+  }
+
+  beforeEach(() => {
+    prisma = createMockPrismaClient();
+    rows = makeFeedbackRows(8);
+    serveRows();
+  });
+
+  it("reports a consistent chain as valid, replaying only past the last checkpoint", async () => {
+    (prisma.hashChainCheckpoint.findMany as ReturnType<typeof vi.fn>).mockResolvedValue(replayCheckpoints(rows, 2));
+
+    const result = await new DivergenceLocator(prisma, null).locate(AGENT_ID, "feedback");
+
+    expect(result).toEqual(expect.objectContaining({ count: 8, valid: true, searchedFrom: 8, divergence: null }));
+    expect(prisma.hashChainCheckpoint.findMany).toHaveBeenCalledWith({
+      where: { agentId: AGENT_ID, chainType: "feedback" },
+      orderBy: { eventCount: "asc" },
+    });
+  });
+
+  it("binary-searches checkpoints and returns the first divergent row", async () => {
+    // Row #5 was rewritten after its digest was stored
+    rows[4].createdSlot = 999n;
+    (prisma.hashChainCheckpoint.findMany as ReturnType<typeof vi.fn>).mockResolvedValue(replayCheckpoints(rows, 2));
+
+    const result = await new DivergenceLocator(prisma, null).locate(AGENT_ID, "feedback");
+
+    expect(result.valid).toBe(false);
+    expect(result.searchedFrom).toBe(4);
+    expect(result.checkpointsProbed).toBe(2);
+    expect(result.divergence).toEqual({
+      eventIndex: 5,
+      txSignature: "sig-4",
+      expectedDigest: expect.stringMatching(/^[0-9a-f]{64}$/),
+      actualDigest: Buffer.from(rows[4].runningDigest!).toString("hex"),
+      row: { id: "fb-4", client: CLIENT_ID, feedbackIndex: "4", responder: null, slot: "999", status: "FINALIZED" },
+    });
+    expect(result.divergence!.expectedDigest).not.toBe(result.divergence!.actualDigest);
+  });
+
+  it("replays from the genesis when no checkpoint is intact", async () => {
+    rows[0].feedbackHash = new Uint8Array(32).fill(0xff);
+    (prisma.hashChainCheckpoint.findMany as ReturnType<typeof vi.fn>).mockResolvedValue(replayCheckpoints(rows, 4));
+
+    const result = await new DivergenceLocator(prisma, null).locate(AGENT_ID, "feedback");
+
+    expect(result.searchedFrom).toBe(0);
+    expect(result.divergence?.eventIndex).toBe(1);
+  });
+
+  it("does not flag rows without a stored running digest", async () => {
+    rows[2].runningDigest = null;
+    rows[2].createdSlot = 999n;
+    rows.splice(3);
+
+    const result = await new DivergenceLocator(prisma, null).locate(AGENT_ID, "feedback");
+
+    expect(result.valid).toBe(true);
+  });
+
+  it("replays the response chain from the genesis on the pg path", async () => {
+    const responseHash = makeSealHash(7);
+    const feedbackHash = makeSealHash(0);
+    const stored = nextChainDigest("response", Buffer.alloc(32), {
+      asset: AGENT_ID,
+      client: CLIENT_ID,
+      feedbackIndex: 0n,
+      slot: 300n,
+      feedbackHash,
+      responder: OWNER_ID,
+      responseHash,
+    });
+    const query = vi.fn()
+      .mockResolvedValueOnce({ rows: [{ cnt: "2" }] })
+      .mockResolvedValueOnce({
+        rows: [0, 1].map((i) => ({
+          id: `resp-${i}`,
+          client_address: CLIENT_ID,
+          feedback_index: "0",
+          responder: OWNER_ID,
+          response_hash: responseHash.toString("hex"),
+          feedback_hash: feedbackHash.toString("hex"),
+          slot: "300",
+          tx_signature: `rsig-${i}`,
+          running_digest: i === 0 ? stored : Buffer.alloc(32, 1),
+          status: "PENDING",
+        })),
+      });
+
+    const result = await new DivergenceLocator(null, { query } as any).locate(AGENT_ID, "response");
+
+    expect(query.mock.calls[1][0]).toContain("ORDER BY fr.response_count ASC");
+    expect(query.mock.calls[1][1]).toEqual([AGENT_ID, 0, 1000]);
+    expect(result.checkpointsProbed).toBe(0);
+    expect(result.divergence).toEqual(expect.objectContaining({
+      eventIndex: 2,
+      txSignature: "rsig-1",
+      actualDigest: Buffer.alloc(32, 1).toString("hex"),
+      row: expect.objectContaining({ id: "resp-1", responder: OWNER_ID }),
+    }));
+  });
+});
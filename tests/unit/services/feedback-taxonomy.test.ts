@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+import { createMockPrismaClient } from "../../mocks/prisma.js";
+import { TEST_ASSET } from "../../mocks/solana.js";
+import { FeedbackTaxonomy, clampTaxonomyLimit, MAX_TAXONOMY_LIMIT } from "../../../src/services/feedback-taxonomy.js";
+
+const AGENT_ID = TEST_ASSET.toBase58();
+
+const ms = (iso: string) => BigInt(new Date(iso).getTime());
+
+describe("FeedbackTaxonomy", () => {
+  it("groups tags in SQL and sums distinct values exactly (Prisma)", async () => {
+    const prisma = createMockPrismaClient() as any;
+    prisma.$queryRaw = vi.fn()
+      .mockResolvedValueOnce([
+        { name: "latency", feedback_count: 2n, agent_count: 2n, first_seen: ms("2026-01-02T00:00:00Z"), last_seen: ms("2026-01-05T00:00:00Z") },
+        { name: "uptime", feedback_count: 2n, agent_count: 1n, first_seen: ms("2026-01-01T00:00:00Z"), last_seen: ms("2026-01-02T00:00:00Z") },
+      ])
+      .mockResolvedValueOnce([
+        { name: "latency", value: "9950", value_decimals: 2, feedback_count: 1n },
+        { name: "latency", value: "125", value_decimals: 3, feedback_count: 1n },
+        { name: "uptime", value: "9950", value_decimals: 2, feedback_count: 1n },
+        { name: "uptime", value: "98", value_decimals: 0, feedback_count: 1n },
+      ]);
+
+    const tags = await new FeedbackTaxonomy(prisma, null).tags({ collection: "Col111", limit: 10 });
+
+    expect(prisma.feedback.findMany).not.toHaveBeenCalled();
+    const [strings, ...values] = prisma.$queryRaw.mock.calls[0];
+    const sql = Prisma.sql(strings, ...values);
+    expect(sql.sql).toContain('f."tag1" AS name');
+    expect(sql.sql).toContain("UNION");
+    expect(sql.sql).toContain("COUNT(DISTINCT agent_id) AS agent_count");
+    expect(sql.sql).toContain('a."collection" = ?');
+    expect(sql.values).toEqual(["Col111", "Col111", 10]);
+    const [valueStrings, ...valueValues] = prisma.$queryRaw.mock.calls[1];
+    expect(Prisma.sql(valueStrings, ...valueValues).values).toEqual(["Col111", "Col111", "latency", "uptime"]);
+    expect(tags).toEqual([
+      {
+        name: "latency",
+        feedbackCount: 2,
+        agentCount: 2,
+        averageValue: "49.8125",
+        firstSeen: new Date("2026-01-02T00:00:00Z"),
+        lastSeen: new Date("2026-01-05T00:00:00Z"),
+      },
+      {
+        name: "uptime",
+        feedbackCount: 2,
+        agentCount: 1,
+        averageValue: "98.75",
+        firstSeen: new Date("2026-01-01T00:00:00Z"),
+        lastSeen: new Date("2026-01-02T00:00:00Z"),
+      },
+    ]);
+  });
+
+  it("skips the value query when nothing matches (Prisma)", async () => {
+    const prisma = createMockPrismaClient() as any;
+    prisma.$queryRaw = vi.fn().mockResolvedValue([]);
+
+    const endpoints = await new FeedbackTaxonomy(prisma, null).endpoints({ agentId: AGENT_ID });
+
+    expect(endpoints).toEqual([]);
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    const [strings, ...values] = prisma.$queryRaw.mock.calls[0];
+    const sql = Prisma.sql(strings, ...values);
+    expect(sql.sql).toContain('f."endpoint" AS name');
+    expect(sql.sql).not.toContain("UNION");
+    expect(sql.values).toEqual([AGENT_ID, 50]);
+  });
+
+  it("aggregates in SQL on the pg path", async () => {
+    const query = vi.fn().mockResolvedValue({
+      rows: [{
+        name: "uptime",
+        feedback_count: "7",
+        agent_count: "3",
+        average_value: "91.5",
+        first_seen: "2026-01-01T00:00:00Z",
+        last_seen: "2026-01-09T00:00:00Z",
+      }],
+    });
+
+    const tags = await new FeedbackTaxonomy(null, { query } as any).tags({ agentId: AGENT_ID, collection: "Col111", limit: 10 });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain("f.tag1 AS name");
+    expect(sql).toContain("UNION");
+    expect(sql).toContain("JOIN agents a ON a.asset = f.asset");
+    expect(params).toEqual([AGENT_ID, "Col111", 10]);
+    expect(tags).toEqual([{
+      name: "uptime",
+      feedbackCount: 7,
+      agentCount: 3,
+      averageValue: "91.5",
+      firstSeen: new Date("2026-01-01T00:00:00Z"),
+      lastSeen: new Date("2026-01-09T00:00:00Z"),
+    }]);
+  });
+
+  it("clamps limits", () => {
+    expect(clampTaxonomyLimit()).toBe(50);
+    expect(clampTaxonomyLimit(0)).toBe(50);
+    expect(clampTaxonomyLimit(10_000)).toBe(MAX_TAXONOMY_LIMIT);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+import { createMockPrismaClient } from "../../mocks/prisma.js";
+import {
+  LeaderboardService,
+  rankAgents,
+  atomSortKey,
+  recencyWeight,
+  resetLeaderboardCacheForTests,
+  type AgentAggregate,
+} from "../../../src/services/leaderboard.js";
+
+function aggregate(asset: string, overrides: Partial<AgentAggregate> = {}): AgentAggregate {
+  return {
+    asset,
+    owner: `owner-${asset}`,
+    collection: "Col111",
+    trustTier: 0,
+    qualityScore: 0,
+    confidence: 0,
+    sortKey: 0,
+    feedbackCount: 1,
+    valueSum: 50,
+    weightSum: 1,
+    weightedValueSum: 50,
+    ...overrides,
+  };
+}
+
+describe("rankAgents", () => {
+  it("ranks by ATOM sort key", () => {
+    const ranked = rankAgents([
+      aggregate("A", { sortKey: atomSortKey(2, 5000, 9000) }),
+      aggregate("B", { sortKey: atomSortKey(3, 1000, 1000) }),
+    ], "atom");
+
+    expect(ranked.map((e) => [e.rank, e.asset])).toEqual([[1, "B"], [2, "A"]]);
+  });
+
+  it("shrinks small samples toward the scope mean (bayesian)", () => {
+    // Scope mean = (100 + 3400 + 2400) / 81
+    const ranked = rankAgents([
+      aggregate("Lucky", { feedbackCount: 1, valueSum: 100 }),
+      aggregate("Steady", { feedbackCount: 40, valueSum: 3400 }),
+      aggregate("Weak", { feedbackCount: 40, valueSum: 2400 }),
+    ], "bayesian");
+
+    expect(ranked.map((e) => e.asset)).toEqual(["Steady", "Lucky", "Weak"]);
+    expect(ranked[1].score).toBeCloseTo((10 * 5900 / 81 + 100) / 11, 6);
+    expect(ranked[0].averageValue).toBe(85);
+  });
+
+  it("lets old feedback decay toward the scope mean (recent)", () => {
+    const old = recencyWeight(90 * 86_400_000);
+    const aggregates = [
+      aggregate("Old", { feedbackCount: 20, valueSum: 1900, weightSum: 20 * old, weightedValueSum: 1900 * old }),
+      aggregate("Fresh", { feedbackCount: 20, valueSum: 1800, weightSum: 20, weightedValueSum: 1800 }),
+      aggregate("Low", { feedbackCount: 20, valueSum: 800, weightSum: 20, weightedValueSum: 800 }),
+    ];
+
+    expect(rankAgents(aggregates, "recent").map((e) => e.asset)).toEqual(["Fresh", "Old", "Low"]);
+    expect(rankAgents(aggregates, "bayesian").map((e) => e.asset)).toEqual(["Old", "Fresh", "Low"]);
+  });
+
+  it("scales quality by confidence and breaks ties on feedback count", () => {
+    const ranked = rankAgents([
+      aggregate("A", { qualityScore: 9000, confidence: 1000, feedbackCount: 3 }),
+      aggregate("B", { qualityScore: 6000, confidence: 5000, feedbackCount: 3 }),
+      aggregate("C", { qualityScore: 3000, confidence: 10000, feedbackCount: 9 }),
+    ], "confidence");
+
+    expect(ranked.map((e) => [e.asset, e.score])).toEqual([["C", 3000], ["B", 3000], ["A", 900]]);
+  });
+});
+
+describe("LeaderboardService", () => {
+  beforeEach(() => {
+    resetLeaderboardCacheForTests();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const agentA = { asset: "AgentA", owner: "OwnerA", collection: "Col111", trust_tier: 2, quality_score: 8000, confidence: 5000 };
+  const agentB = { asset: "AgentB", owner: "OwnerB", collection: "Col111", trust_tier: 1, quality_score: 9000, confidence: 9000 };
+
+  it("aggregates scoped feedbacks per agent in SQL and caches the ranking (Prisma)", async () => {
+    const prisma = createMockPrismaClient() as any;
+    prisma.$queryRaw = vi.fn().mockResolvedValue([
+      { ...agentA, value_decimals: 2, feedback_count: 1n, value_sum: 9000, mean_age_ms: 86_400_000 },
+      { ...agentA, value_decimals: 0, feedback_count: 1n, value_sum: 70, mean_age_ms: 172_800_000 },
+      { ...agentB, value_decimals: 0, feedback_count: 1n, value_sum: 60, mean_age_ms: 259_200_000 },
+    ]);
+    const service = new LeaderboardService(prisma, null);
+    const scope = { strategy: "atom" as const, window: "7d" as const, tag: "uptime", collection: "Col111" };
+
+    const { entries, total } = await service.page(scope, 1, 0);
+    await service.page(scope, 1, 1);
+
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(prisma.feedback.findMany).not.toHaveBeenCalled();
+    const [strings, ...values] = prisma.$queryRaw.mock.calls[0];
+    const sql = Prisma.sql(strings, ...values);
+    expect(sql.sql).toContain("COUNT(*) AS feedback_count");
+    expect(sql.sql).toContain('(f."tag1" = ? OR f."tag2" = ?)');
+    expect(sql.sql).toContain('a."collection" = ?');
+    expect(sql.values).toEqual(expect.arrayContaining([
+      new Date("2026-02-22T00:00:00Z").getTime(),
+      "uptime",
+      "Col111",
+    ]));
+    expect(total).toBe(2);
+    expect(entries).toEqual([{
+      rank: 1,
+      asset: "AgentA",
+      owner: "OwnerA",
+      collection: "Col111",
+      score: atomSortKey(2, 8000, 5000),
+      feedbackCount: 2,
+      averageValue: 80,
+    }]);
+  });
+
+  it("weights each day bucket by its mean age (Prisma)", async () => {
+    const prisma = createMockPrismaClient() as any;
+    prisma.$queryRaw = vi.fn().mockResolvedValue([
+      { ...agentA, value_decimals: 0, feedback_count: 2n, value_sum: 180, mean_age_ms: 0 },
+      { ...agentA, value_decimals: 0, feedback_count: 1n, value_sum: 60, mean_age_ms: 7 * 86_400_000 },
+    ]);
+
+    const [entry] = await new LeaderboardService(prisma, null).ranking({ strategy: "recent", window: "all" });
+
+    // Scope mean 80; weights 1, 1 and 0.5
+    expect(entry.score).toBeCloseTo((10 * 80 + 180 + 30) / (10 + 2.5), 9);
+    expect(entry.averageValue).toBe(80);
+  });
+
+  it("aggregates in SQL on the pg path", async () => {
+    const query = vi.fn().mockResolvedValue({
+      rows: [{
+        asset: "AgentA",
+        owner: "OwnerA",
+        collection: "Col111",
+        trust_tier: 2,
+        quality_score: 8000,
+        confidence: 5000,
+        sort_key: "2080040000000000",
+        feedback_count: "4",
+        value_sum: 320,
+        weight_sum: 3.5,
+        weighted_value_sum: 280,
+      }],
+    });
+
+    const { entries } = await new LeaderboardService(null, { query } as any).page(
+      { strategy: "bayesian", window: "30d", collection: "Col111" },
+      10
+    );
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain("JOIN agents a ON a.asset = f.asset");
+    expect(sql).toContain("f.created_at >= $3");
+    expect(sql).toContain("a.collection = $4");
+    expect(params).toEqual(["2026-03-01T00:00:00.000Z", 604800, "2026-01-30T00:00:00.000Z", "Col111"]);
+    expect(entries).toEqual([expect.objectContaining({ asset: "AgentA", score: 80, feedbackCount: 4, averageValue: 80 })]);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+
+vi.mock("8004-solana", () => ({
+  PROGRAM_ID: new PublicKey("8oo4J9tBB3Hna1jRQ3rWvJjojqM5DYTDJo5cejUuJy3C"),
+  ATOM_ENGINE_PROGRAM_ID: new PublicKey("AToMufS4QD6hEXvcvBDg9m1AHeCLpmZQsyfYa5h9MwAF"),
+  MPL_CORE_PROGRAM_ID: new PublicKey("CoREENxT6tW1HoK8ypY1SxRMZTcVPm7R94rH4PZNhX7d"),
+}));
+
+const { parseAgentDigests } = vi.hoisted(() => ({ parseAgentDigests: vi.fn() }));
+
+vi.mock("../../../src/indexer/verifier.js", () => ({ parseAgentDigests }));
+
+import { createMockPrismaClient } from "../../mocks/prisma.js";
+import { TEST_ASSET, TEST_CLIENT, TEST_OWNER } from "../../mocks/solana.js";
+import { ProofBundleExporter } from "../../../src/services/proof-bundle.js";
+import { verifyProofBundle, type ProofBundle } from "../../../src/services/proof-verifier.js";
+import { nextChainDigest } from "../../../src/services/replay-verifier.js";
+import { getAgentPda } from "../../../src/utils/pda.js";
+
+const AGENT_ID = TEST_ASSET.toBase58();
+const CLIENT_ID = TEST_CLIENT.toBase58();
+const OWNER_ID = TEST_OWNER.toBase58();
+const ZERO = Buffer.alloc(32);
+
+function makeSealHash(index: number): Buffer {
+  const buf = Buffer.alloc(32);
+  buf.writeUInt32LE(index);
+  buf[31] = 0x5e;
+  return buf;
+}
+
+function makeFeedbackRows(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `fb-${i}`,
+    agentId: AGENT_ID,
+    client: CLIENT_ID,
+    feedbackIndex: BigInt(i),
+    feedbackHash: new Uint8Array(makeSealHash(i)),
+    createdSlot: 100n + BigInt(i),
+    createdTxSignature: `sig-${i}`,
+    status: "FINALIZED",
+    runningDigest: null,
+  }));
+}
+
+function feedbackDigest(rows: ReturnType<typeof makeFeedbackRows>): Buffer {
+  return rows.reduce<Buffer>((digest, row) => nextChainDigest("feedback", digest, {
+    asset: row.agentId,
+    client: row.client,
+    feedbackIndex: row.feedbackIndex,
+    slot: row.createdSlot,
+    feedbackHash: row.feedbackHash,
+  }), ZERO);
+}
+
+describe("ProofBundleExporter", () => {
+  let prisma: ReturnType<typeof createMockPrismaClient>;
+  let connection: { getAccountInfoAndContext: ReturnType<typeof vi.fn> };
+  let feedbacks: ReturnType<typeof makeFeedbackRows>;
+  let responses: any[];
+  let responseDigest: Buffer;
+
+  beforeEach(() => {
+    prisma = createMockPrismaClient();
+    feedbacks = makeFeedbackRows(5);
+    responses = [{
+      id: "resp-0",
+      responder: OWNER_ID,
+      responseHash: new Uint8Array(32).fill(7),
+      slot: 200n,
+      txSignature: "rsig-0",
+      status: "FINALIZED",
+      runningDigest: null,
+      feedback: { agentId: AGENT_ID, client: CLIENT_ID, feedbackIndex: 1n, feedbackHash: feedbacks[1].feedbackHash },
+    }];
+    responseDigest = nextChainDigest("response", ZERO, {
+      asset: AGENT_ID,
+      client: CLIENT_ID,
+      feedbackIndex: 1n,
+      slot: 200n,
+      feedbackHash: feedbacks[1].feedbackHash,
+      responder: OWNER_ID,
+      responseHash: responses[0].responseHash,
+    });
+
+    (prisma.feedback.findMany as ReturnType<typeof vi.fn>).mockImplementation(
+      async (args: { skip: number; take: number }) => feedbacks.slice(args.skip, args.skip + args.take)
+    );
+    (prisma.feedbackResponse.findMany as ReturnType<typeof vi.fn>).mockImplementation(
+      async (args: { skip: number; take: number }) => responses.slice(args.skip, args.skip + args.take)
+    );
+    (prisma.revocation.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (prisma.hashChainCheckpoint.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+    connection = {
+      getAccountInfoAndContext: vi.fn().mockResolvedValue({ context: { slot: 4242 }, value: { data: Buffer.alloc(0) } }),
+    };
+    // One feedback past the finalized count is still pending
+    parseAgentDigests.mockReturnValue({
+      feedbackDigest: new Uint8Array(feedbackDigest(feedbacks.slice(0, 4))),
+      feedbackCount: 4n,
+      responseDigest: new Uint8Array(responseDigest),
+      responseCount: 1n,
+      revokeDigest: new Uint8Array(32),
+      revokeCount: 0n,
+    });
+  });
+
+  async function exportBundle(): Promise<ProofBundle> {
+    const bundle = await new ProofBundleExporter(prisma, connection as any).export(AGENT_ID);
+    return bundle!;
+  }
+
+  it("exports leaves up to the finalized on-chain count at the anchor slot", async () => {
+    const bundle = await exportBundle();
+
+    expect(connection.getAccountInfoAndContext).toHaveBeenCalledWith(getAgentPda(TEST_ASSET)[0], { commitment: "finalized" });
+    expect(bundle).toEqual(expect.objectContaining({
+      format: "8004-hash-chain-proof",
+      version: 1,
+      asset: AGENT_ID,
+      agentAccount: getAgentPda(TEST_ASSET)[0].toBase58(),
+      anchor: { slot: "4242", commitment: "finalized" },
+    }));
+    expect(bundle.chains.feedback.leaves).toHaveLength(4);
+    expect(bundle.chains.feedback.leaves[3]).toEqual(expect.objectContaining({
+      position: 4,
+      client: CLIENT_ID,
+      feedbackIndex: "3",
+      sealHash: makeSealHash(3).toString("hex"),
+      slot: "103",
+      txSignature: "sig-3",
+    }));
+    expect(bundle.chains.response.leaves[0]).toEqual(expect.objectContaining({
+      responder: OWNER_ID,
+      responseHash: "07".repeat(32),
+    }));
+    expect(bundle.chains.revoke).toEqual({ onChain: { digest: "00".repeat(32), count: "0" }, checkpoints: [], leaves: [] });
+  });
+
+  it("returns null when the agent account is missing", async () => {
+    connection.getAccountInfoAndContext.mockResolvedValue({ context: { slot: 1 }, value: null });
+
+    expect(await new ProofBundleExporter(prisma, connection as any).export(AGENT_ID)).toBeNull();
+  });
+
+  it("produces bundles the offline verifier accepts", async () => {
+    const bundle = JSON.parse(JSON.stringify(await exportBundle()));
+
+    const result = verifyProofBundle(bundle);
+
+    expect(result.valid).toBe(true);
+    expect(result.chains.feedback).toEqual({ valid: true, count: 4, digest: bundle.chains.feedback.onChain.digest, errors: [] });
+  });
+});
+
+describe("verifyProofBundle", () => {
+  let bundle: ProofBundle;
+
+  beforeEach(async () => {
+    const prisma = createMockPrismaClient();
+    const feedbacks = makeFeedbackRows(4);
+    (prisma.feedback.findMany as ReturnType<typeof vi.fn>).mockImplementation(
+      async (args: { skip: number; take: number }) => feedbacks.slice(args.skip, args.skip + args.take)
+    );
+    (prisma.feedbackResponse.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (prisma.revocation.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (prisma.hashChainCheckpoint.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    parseAgentDigests.mockReturnValue({
+      feedbackDigest: new Uint8Array(feedbackDigest(feedbacks)),
+      feedbackCount: 4n,
+      responseDigest: new Uint8Array(32),
+      responseCount: 0n,
+      revokeDigest: new Uint8Array(32),
+      revokeCount: 0n,
+    });
+    const connection = {
+      getAccountInfoAndContext: vi.fn().mockResolvedValue({ context: { slot: 9 }, value: { data: Buffer.alloc(0) } }),
+    };
+    bundle = (await new ProofBundleExporter(prisma, connection as any).export(AGENT_ID))!;
+  });
+
+  it("rejects unknown formats and versions", () => {
+    expect(() => verifyProofBundle({ ...bundle, format: "other" } as any)).toThrow("Not a 8004-hash-chain-proof bundle");
+    expect(() => verifyProofBundle({ ...bundle, version: 2 } as any)).toThrow("Unsupported proof bundle version: 2");
+  });
+
+  it("detects a leaf whose fields were altered", () => {
+    bundle.chains.feedback.leaves[1].slot = "999";
+
+    const result = verifyProofBundle(bundle);
+
+    expect(result.valid).toBe(false);
+    expect(result.chains.feedback.errors).toContain("leaf 2: leaf hash does not match its fields");
+    expect(result.chains.feedback.errors).toContain("final digest does not match the on-chain digest");
+  });
+
+  it("detects omitted leaves and reordered positions", () => {
+    bundle.chains.feedback.leaves.pop();
+    expect(verifyProofBundle(bundle).chains.feedback.errors).toContain("leaf count 3 does not match on-chain count 4");
+
+    bundle.chains.feedback.leaves[1].position = 3;
+    expect(verifyProofBundle(bundle).chains.feedback.errors).toContain("leaf 2: position 3 out of order");
+  });
+
+  it("checks checkpoints against the recomputed chain", () => {
+    const atTwo = bundle.chains.feedback.leaves[1].runningDigest;
+    bundle.chains.feedback.checkpoints = [{ eventCount: 2, digest: atTwo }, { eventCount: 3, digest: atTwo }];
+
+    expect(verifyProofBundle(bundle).chains.feedback.errors).toEqual(["checkpoint 3: digest mismatch"]);
+  });
+
+  it("rejects an agent account that is not the asset's PDA", () => {
+    bundle.agentAccount = OWNER_ID;
+
+    const result = verifyProofBundle(bundle);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["agentAccount is not the agent PDA of asset under programId"]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../../../src/utils/compression.js", () => ({
+  decompressFromStorage: vi.fn(async (value: Buffer) => value.subarray(1)),
+}));
+
+import {
+  RegistrationHistory,
+  diffRegistrationFields,
+  flattenRegistrationFields,
+} from "../../../src/services/registration-history.js";
+
+const MCP_V1 = { name: "mcp", type: "mcp", endpoint: "https://v1.example.com/mcp", tools: ["search"] };
+const MCP_V2 = { ...MCP_V1, endpoint: "https://v2.example.com/mcp" };
+
+function stored(fields: Record<string, unknown>): Buffer {
+  return Buffer.concat([Buffer.from([0x00]), Buffer.from(JSON.stringify(fields))]);
+}
+
+function createMockPool(rows: unknown[]) {
+  return { query: vi.fn().mockResolvedValue({ rows, rowCount: rows.length }) } as any;
+}
+
+describe("flattenRegistrationFields", () => {
+  it("drops the _uri: prefix and keys services by name", () => {
+    const flat = flattenRegistrationFields({
+      "_uri:name": "Agent",
+      "_uri:active": true,
+      "_uri:services": [MCP_V1, { name: "mcp", endpoint: "https://backup.example.com" }],
+    });
+
+    expect(Object.fromEntries(flat)).toEqual({
+      name: "Agent",
+      active: "true",
+      "services.mcp.type": "mcp",
+      "services.mcp.endpoint": "https://v1.example.com/mcp",
+      "services.mcp.tools": '["search"]',
+      "services.mcp#2.endpoint": "https://backup.example.com",
+    });
+  });
+});
+
+describe("diffRegistrationFields", () => {
+  it("reports added, removed and changed fields sorted by field", () => {
+    const changes = diffRegistrationFields(
+      { "_uri:name": "Agent", "_uri:image": "https://img", "_uri:services": [MCP_V1] },
+      { "_uri:name": "Agent", "_uri:skills": ["nlp"], "_uri:services": [MCP_V2] }
+    );
+
+    expect(changes).toEqual([
+      { field: "image", change: "removed", before: "https://img", after: null },
+      {
+        field: "services.mcp.endpoint",
+        change: "changed",
+        before: "https://v1.example.com/mcp",
+        after: "https://v2.example.com/mcp",
+      },
+      { field: "skills", change: "added", before: null, after: '["nlp"]' },
+    ]);
+  });
+
+  it("returns no changes for identical fields", () => {
+    const fields = { "_uri:name": "Agent", "_uri:services": [MCP_V1] };
+    expect(diffRegistrationFields(fields, { ...fields })).toEqual([]);
+  });
+});
+
+describe("RegistrationHistory", () => {
+  it("maps version rows", async () => {
+    const pool = createMockPool([{
+      id: "7", asset: "asset1", uri: "ipfs://Qm", content_hash: "abc", bytes: 120,
+      fetched_at: "2026-10-01T00:00:00Z", block_slot: "12345", tx_signature: "sig1",
+    }]);
+
+    const versions = await new RegistrationHistory(pool).list("asset1", 20, 0);
+
+    expect(pool.query.mock.calls[0][1]).toEqual(["asset1", 20, 0]);
+    expect(versions).toEqual([{
+      id: "7", asset: "asset1", uri: "ipfs://Qm", contentHash: "abc", bytes: 120,
+      fetchedAt: new Date("2026-10-01T00:00:00Z"), slot: 12345n, txSignature: "sig1",
+    }]);
+  });
+
+  it("diffs a version against the previous one", async () => {
+    const pool = createMockPool([{
+      fields: stored({ "_uri:services": [MCP_V2] }),
+      previous_fields: stored({ "_uri:services": [MCP_V1] }),
+    }]);
+
+    const changes = await new RegistrationHistory(pool).changes("7");
+
+    expect(changes).toEqual([expect.objectContaining({ field: "services.mcp.endpoint", change: "changed" })]);
+  });
+
+  it("treats every field of the first version as added", async () => {
+    const pool = createMockPool([{ fields: stored({ "_uri:name": "Agent" }), previous_fields: null }]);
+
+    expect(await new RegistrationHistory(pool).changes("1")).toEqual([
+      { field: "name", change: "added", before: null, after: "Agent" },
+    ]);
+  });
+
+  it("only diffs versions of the same agent", async () => {
+    const pool = createMockPool([
+      { id: "1", asset: "asset1", fields: stored({ "_uri:name": "Old" }) },
+      { id: "2", asset: "asset1", fields: stored({ "_uri:name": "New" }) },
+      { id: "3", asset: "asset2", fields: stored({ "_uri:name": "Other" }) },
+    ]);
+    const history = new RegistrationHistory(pool);
+
+    expect(await history.diff("1", "2")).toEqual([
+      { field: "name", change: "changed", before: "Old", after: "New" },
+    ]);
+    expect(await history.diff("1", "3")).toBeNull();
+    expect(await history.diff("1", "9")).toBeNull();
+  });
+});
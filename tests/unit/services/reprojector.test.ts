@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { readFileSync } from "fs";
+
+vi.mock("../../../src/db/handlers.js", () => ({ reprojectEventTx: vi.fn() }));
+vi.mock("../../../src/db/supabase.js", () => ({ reprojectEventTx: vi.fn() }));
+vi.mock("../../../src/parser/decoder.js", () => ({
+  decodeRawEvent: vi.fn((raw: string) => (raw === "bad" ? null : { type: "AgentRegistered", data: { raw } })),
+}));
+
+import { reprojectEventTx as reprojectLocal } from "../../../src/db/handlers.js";
+import { reprojectEventTx as reprojectSupabase } from "../../../src/db/supabase.js";
+import { Reprojector, SUPABASE_CLEARED_TABLES, diffSnapshots } from "../../../src/services/reprojector.js";
+
+const BLOCK_TIME = new Date("2026-01-01T00:00:00Z");
+
+function createSupabaseFixture(opts: { missingRaw?: string; events?: Array<Record<string, unknown>>; agentsAfter?: unknown[] } = {}) {
+  const events = opts.events ?? [
+    { tx_signature: "sig1", slot: "10", tx_index: 0, event_ordinal: 0, block_time: BLOCK_TIME, raw_data: "a" },
+    { tx_signature: "sig2", slot: "11", tx_index: null, event_ordinal: 1, block_time: BLOCK_TIME, raw_data: "b" },
+  ];
+  let fetched = false;
+  let agentsDeleted = false;
+  const client = {
+    query: vi.fn(async (sql: string) => {
+      if (sql.startsWith("FETCH")) {
+        const rows = fetched ? [] : events;
+        fetched = true;
+        return { rows };
+      }
+      if (sql.includes("to_regclass")) return { rows: [{ exists: true }] };
+      if (sql.includes("FROM agent_global_id_seq")) return { rows: [{ last_value: "5", is_called: true }] };
+      if (sql === "DELETE FROM agents") agentsDeleted = true;
+      if (sql.startsWith('SELECT * FROM "agents"')) {
+        return { rows: agentsDeleted ? (opts.agentsAfter ?? []) : [{ asset: "A1", owner: "O1", status: "FINALIZED" }] };
+      }
+      return { rows: [] };
+    }),
+    release: vi.fn(),
+  };
+  const pool = {
+    query: vi.fn().mockResolvedValue({ rows: [{ total: String(events.length), missing_raw: opts.missingRaw ?? "0" }] }),
+    connect: vi.fn().mockResolvedValue(client),
+  };
+  const statements = () => client.query.mock.calls.map((c) => c[0] as string);
+  return { pool, client, statements };
+}
+
+describe("Reprojector", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("diffSnapshots", () => {
+    it("counts added, removed and changed rows", () => {
+      const before = new Map([["a", "1"], ["b", "2"], ["c", "3"]]);
+      const after = new Map([["a", "1"], ["b", "x"], ["d", "4"]]);
+
+      expect(diffSnapshots("agents", before, after)).toEqual({
+        table: "agents",
+        before: 3,
+        after: 3,
+        added: 1,
+        removed: 1,
+        changed: 1,
+        samples: { added: ["d"], removed: ["c"], changed: ["b"] },
+      });
+    });
+  });
+
+  describe("supabase mode", () => {
+    it("clears projections and replays events in log order inside one transaction", async () => {
+      const { pool, client, statements } = createSupabaseFixture();
+      const progress = vi.fn();
+
+      const result = await new Reprojector(null, pool as any).run({ onProgress: progress });
+
+      expect(result).toEqual(expect.objectContaining({ dryRun: false, events: 2, skipped: 0, diff: null }));
+      const sql = statements();
+      expect(sql[0]).toBe("BEGIN");
+      expect(sql.some((s) => s.startsWith("TRUNCATE"))).toBe(false);
+      const deletes = sql.filter((s) => s.startsWith("DELETE FROM"));
+      expect(deletes).toEqual(SUPABASE_CLEARED_TABLES.map((table) => `DELETE FROM ${table}`));
+      expect(deletes.indexOf("DELETE FROM agent_search")).toBeLessThan(deletes.indexOf("DELETE FROM agents"));
+      expect(deletes).not.toContainEqual("DELETE FROM registration_file_versions");
+      expect(sql).toContainEqual("SELECT setval('agent_global_id_seq', 1, false)");
+      expect(sql).toContainEqual(expect.stringContaining("ORDER BY block_slot ASC, tx_index ASC NULLS LAST, event_ordinal ASC, id ASC"));
+      expect(sql).toContainEqual(expect.stringContaining("INSERT INTO metadata SELECT * FROM _reproject_uri_metadata"));
+      expect(sql).toContainEqual(expect.stringContaining("INSERT INTO agent_uri_refresh SELECT * FROM _reproject_agent_uri_refresh"));
+      expect(sql[sql.length - 1]).toBe("COMMIT");
+
+      expect(reprojectSupabase).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(reprojectSupabase).mock.calls[0]).toEqual([
+        client,
+        { type: "AgentRegistered", data: { raw: "a" } },
+        { signature: "sig1", slot: 10n, blockTime: BLOCK_TIME, txIndex: 0, eventOrdinal: 0, rawEvent: "a" },
+      ]);
+      expect(vi.mocked(reprojectSupabase).mock.calls[1][2]).toEqual(expect.objectContaining({ signature: "sig2", txIndex: undefined, eventOrdinal: 1 }));
+      expect(progress).toHaveBeenCalledWith({ processed: 2, total: 2, slot: 11n });
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it("diffs and rolls back in dry-run mode, restoring the global id sequence", async () => {
+      const { pool, client, statements } = createSupabaseFixture({
+        agentsAfter: [{ asset: "A1", owner: "O2", status: "PENDING" }, { asset: "A2", owner: "O1", status: "PENDING" }],
+      });
+
+      const result = await new Reprojector(null, pool as any).run({ dryRun: true });
+
+      const sql = statements();
+      expect(sql.some((s) => s.startsWith("TRUNCATE"))).toBe(false);
+      expect(sql).toContainEqual("DELETE FROM agents");
+      expect(sql).toContainEqual("ROLLBACK");
+      expect(sql).not.toContainEqual("COMMIT");
+      expect(client.query).toHaveBeenLastCalledWith("SELECT setval('agent_global_id_seq', $1::bigint, $2)", ["5", true]);
+
+      const agents = result.diff!.find((d) => d.table === "agents");
+      expect(agents).toEqual(expect.objectContaining({ before: 1, after: 2, added: 1, removed: 0, changed: 1 }));
+      expect(agents!.samples).toEqual({ added: ["A2"], removed: [], changed: ["A1"] });
+    });
+
+    it("clears every table that references agents", () => {
+      const schema = readFileSync(new URL("../../../supabase/schema.sql", import.meta.url), "utf-8");
+      const dependents = [...schema.matchAll(/CREATE TABLE (\w+) \(([^;]*?)\n\);/g)]
+        .filter(([, , body]) => /REFERENCES agents\(asset\)/.test(body))
+        .map(([, table]) => table);
+
+      expect(dependents.length).toBeGreaterThan(0);
+      for (const table of dependents) {
+        expect(SUPABASE_CLEARED_TABLES, `${table} references agents`).toContain(table);
+        expect(SUPABASE_CLEARED_TABLES.indexOf(table)).toBeLessThan(SUPABASE_CLEARED_TABLES.indexOf("agents"));
+      }
+    });
+
+    it("ignores verifier status when diffing", async () => {
+      const { pool } = createSupabaseFixture({ agentsAfter: [{ asset: "A1", owner: "O1", status: "PENDING" }] });
+
+      const result = await new Reprojector(null, pool as any).run({ dryRun: true });
+
+      expect(result.diff!.find((d) => d.table === "agents")).toEqual(
+        expect.objectContaining({ added: 0, removed: 0, changed: 0 })
+      );
+    });
+
+    it("refuses to run when logged events have no raw payload", async () => {
+      const { pool } = createSupabaseFixture({ missingRaw: "3" });
+
+      await expect(new Reprojector(null, pool as any).run()).rejects.toThrow("3 event log entries have no raw payload");
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it("rolls back on undecodable events unless allowIncomplete", async () => {
+      const events = [{ tx_signature: "sig1", slot: "10", tx_index: 0, event_ordinal: 0, block_time: BLOCK_TIME, raw_data: "bad" }];
+      const strict = createSupabaseFixture({ events });
+
+      await expect(new Reprojector(null, strict.pool as any).run()).rejects.toThrow("Undecodable event log entry sig1#0");
+      expect(strict.statements()).toContainEqual("ROLLBACK");
+
+      const lenient = createSupabaseFixture({ events });
+      const result = await new Reprojector(null, lenient.pool as any).run({ allowIncomplete: true });
+      expect(result).toEqual(expect.objectContaining({ events: 0, skipped: 1 }));
+      expect(lenient.statements()).toContainEqual("COMMIT");
+    });
+  });
+
+  describe("local mode", () => {
+    function createPrismaFixture() {
+      const rows = [
+        { signature: "sig1", slot: 10n, txIndex: 1, eventOrdinal: 0, blockTime: BLOCK_TIME, rawData: "a" },
+        { signature: "sig1", slot: 10n, txIndex: 1, eventOrdinal: null, blockTime: BLOCK_TIME, rawData: "b" },
+      ];
+      const tx = {
+        eventLog: {
+          findMany: vi.fn(async ({ skip }: { skip: number }) => (skip === 0 ? rows : [])),
+        },
+        $executeRawUnsafe: vi.fn().mockResolvedValue(0),
+        $queryRawUnsafe: vi.fn().mockResolvedValue([]),
+      };
+      const prisma = {
+        eventLog: { count: vi.fn().mockResolvedValueOnce(2).mockResolvedValueOnce(0) },
+        $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(tx)),
+      };
+      return { prisma, tx };
+    }
+
+    it("clears local tables and replays through the Prisma transaction", async () => {
+      const { prisma, tx } = createPrismaFixture();
+
+      const result = await new Reprojector(prisma as any, null).run();
+
+      expect(result).toEqual(expect.objectContaining({ events: 2, diff: null }));
+      const sql = tx.$executeRawUnsafe.mock.calls.map((c) => c[0] as string);
+      expect(sql).toContainEqual('DELETE FROM "Agent"');
+      expect(sql).toContainEqual('DELETE FROM "AgentDigestCache"');
+      expect(sql.indexOf('DELETE FROM "Feedback"')).toBeLessThan(sql.indexOf('DELETE FROM "Agent"'));
+      expect(tx.eventLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { processed: true, NOT: { eventType: "PROCESSING_FAILED" }, rawData: { not: null } },
+        orderBy: [{ slot: "asc" }, { txIndex: { sort: "asc", nulls: "last" } }, { eventOrdinal: "asc" }, { id: "asc" }],
+      }));
+      expect(reprojectLocal).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(reprojectLocal).mock.calls[1][2]).toEqual(expect.objectContaining({ signature: "sig1", eventOrdinal: 0, rawEvent: "b" }));
+    });
+
+    it("returns the diff without committing in dry-run mode", async () => {
+      const { prisma, tx } = createPrismaFixture();
+      tx.$queryRawUnsafe.mockImplementation(async (sql: string) =>
+        sql.startsWith('SELECT * FROM "Agent"') && tx.$executeRawUnsafe.mock.calls.length === 0
+          ? [{ id: "A1", owner: "O1" }]
+          : []
+      );
+
+      const result = await new Reprojector(prisma as any, null).run({ dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.diff!.find((d) => d.table === "Agent")).toEqual(expect.objectContaining({ before: 1, after: 0, removed: 1 }));
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createMockPrismaClient } from "../../mocks/prisma.js";
+import { TEST_ASSET } from "../../mocks/solana.js";
+import {
+  ReputationHistory,
+  resolveHistoryWindow,
+  MAX_HISTORY_BUCKETS,
+} from "../../../src/services/reputation-history.js";
+
+const AGENT_ID = TEST_ASSET.toBase58();
+
+function snapshot(id: number, blockTime: string, trustTier: number, qualityScore: number) {
+  return {
+    id,
+    agentId: AGENT_ID,
+    eventType: "feedback",
+    client: "client",
+    feedbackIndex: BigInt(id),
+    slot: 1000n + BigInt(id),
+    txSignature: `sig-${id}`,
+    blockTime: new Date(blockTime),
+    trustTier,
+    qualityScore,
+    confidence: 100 * id,
+    riskScore: 5,
+    diversityRatio: 200,
+  };
+}
+
+describe("resolveHistoryWindow", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("defaults to the last 30 days daily and 7 days hourly", () => {
+    expect(resolveHistoryWindow("day")).toEqual({
+      from: new Date("2026-01-30T00:00:00Z"),
+      to: new Date("2026-03-01T00:00:00Z"),
+      bucket: "day",
+    });
+    expect(resolveHistoryWindow("hour")?.from).toEqual(new Date("2026-02-22T00:00:00Z"));
+  });
+
+  it("rejects empty, inverted and oversized windows", () => {
+    expect(resolveHistoryWindow("day", 100, 100)).toBeNull();
+    expect(resolveHistoryWindow("day", 200, 100)).toBeNull();
+    expect(resolveHistoryWindow("hour", 0, (MAX_HISTORY_BUCKETS + 1) * 3600)).toBeNull();
+    expect(resolveHistoryWindow("hour", 0, MAX_HISTORY_BUCKETS * 3600)).not.toBeNull();
+  });
+});
+
+describe("ReputationHistory", () => {
+  const window = {
+    from: new Date("2026-01-01T00:00:00Z"),
+    to: new Date("2026-01-03T00:00:00Z"),
+    bucket: "day" as const,
+  };
+
+  it("keeps the last snapshot of each bucket with its event count (Prisma)", async () => {
+    const prisma = createMockPrismaClient();
+    (prisma.reputationSnapshot.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      snapshot(1, "2026-01-01T03:00:00Z", 0, 5000),
+      snapshot(2, "2026-01-01T21:00:00Z", 1, 6000),
+      snapshot(3, "2026-01-02T08:00:00Z", 2, 7000),
+    ]);
+
+    const points = await new ReputationHistory(prisma, null).query(AGENT_ID, window);
+
+    expect(prisma.reputationSnapshot.findMany).toHaveBeenCalledWith({
+      where: { agentId: AGENT_ID, blockTime: { gte: window.from, lt: window.to } },
+      orderBy: [{ slot: "asc" }, { id: "asc" }],
+    });
+    expect(points).toEqual([
+      {
+        bucketStart: new Date("2026-01-01T00:00:00Z"),
+        trustTier: 1,
+        qualityScore: 6000,
+        confidence: 200,
+        riskScore: 5,
+        diversityRatio: 200,
+        events: 2,
+        slot: 1002n,
+        feedbackIndex: 2n,
+      },
+      expect.objectContaining({ bucketStart: new Date("2026-01-02T00:00:00Z"), trustTier: 2, events: 1 }),
+    ]);
+  });
+
+  it("buckets by hour", async () => {
+    const prisma = createMockPrismaClient();
+    (prisma.reputationSnapshot.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      snapshot(1, "2026-01-01T03:10:00Z", 0, 5000),
+      snapshot(2, "2026-01-01T03:50:00Z", 1, 6000),
+      snapshot(3, "2026-01-01T04:05:00Z", 2, 7000),
+    ]);
+
+    const points = await new ReputationHistory(prisma, null).query(AGENT_ID, { ...window, bucket: "hour" });
+
+    expect(points.map((p) => [p.bucketStart.toISOString(), p.events])).toEqual([
+      ["2026-01-01T03:00:00.000Z", 2],
+      ["2026-01-01T04:00:00.000Z", 1],
+    ]);
+  });
+
+  it("buckets in SQL on the pg path", async () => {
+    const query = vi.fn().mockResolvedValue({
+      rows: [{
+        bucket: "1767225600",
+        trust_tier: 3,
+        quality_score: 8000,
+        confidence: 9000,
+        risk_score: 2,
+        diversity_ratio: 250,
+        block_slot: "4242",
+        feedback_index: "9",
+        events: "4",
+      }],
+    });
+
+    const points = await new ReputationHistory(null, { query } as any).query(AGENT_ID, window);
+
+    expect(query.mock.calls[0][0]).toContain("DISTINCT ON (bucket)");
+    expect(query.mock.calls[0][1]).toEqual([AGENT_ID, "2026-01-01T00:00:00.000Z", "2026-01-03T00:00:00.000Z", 86400]);
+    expect(points).toEqual([{
+      bucketStart: new Date("2026-01-01T00:00:00Z"),
+      trustTier: 3,
+      qualityScore: 8000,
+      confidence: 9000,
+      riskScore: 2,
+      diversityRatio: 250,
+      events: 4,
+      slot: 4242n,
+      feedbackIndex: 9n,
+    }]);
+  });
+});
@@ -17,6 +17,9 @@ vi.mock("../../src/config.js", () => ({
     metadataMaxBytes: 262144,
     metadataMaxValueBytes: 10000,
     metadataTimeoutMs: 5000,
+    ipfsGateways: [{ name: "ipfs.io", url: "https://ipfs.io" }],
+    arweaveGateways: [{ name: "arweave.net", url: "https://arweave.net" }],
+    ipfsVerifyCid: true,
   },
 }));
 
@@ -1302,4 +1305,45 @@ describe("URI Digest Coverage", () => {
       expect(result.truncatedKeys).toBe(false);
     });
   });
+
+  // =========================================================================
+  // Conditional requests (ETag / Last-Modified)
+  // =========================================================================
+  describe("conditional requests", () => {
+    const LAST_MODIFIED = "Sun, 18 Oct 2026 12:00:00 GMT";
+
+    it("should return the validators of a fetched file", async () => {
+      global.fetch = vi.fn().mockResolvedValue(
+        mockFetchOk({ name: "Test" }, { etag: '"v1"', "last-modified": LAST_MODIFIED })
+      );
+      const result = await digestUri("https://example.com/agent.json");
+      expect(result).toMatchObject({ status: "ok", etag: '"v1"', lastModified: LAST_MODIFIED });
+      expect(result.fields!["_uri:name"]).toBe("Test");
+    });
+
+    it("should send the validators and report 304 as not modified", async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 304,
+        headers: new Headers({ etag: '"v1"' }),
+      } as unknown as Response);
+      const result = await digestUri("https://example.com/agent.json", { etag: '"v1"', lastModified: LAST_MODIFIED });
+
+      const headers = (global.fetch as any).mock.calls[0][1].headers;
+      expect(headers["If-None-Match"]).toBe('"v1"');
+      expect(headers["If-Modified-Since"]).toBe(LAST_MODIFIED);
+      expect(result).toEqual({ status: "ok", notModified: true, etag: '"v1"' });
+    });
+
+    it("should not treat 304 as not modified without validators", async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 304,
+        headers: new Headers(),
+      } as unknown as Response);
+      const result = await digestUri("https://example.com/agent.json");
+      expect(result.status).toBe("error");
+      expect(result.notModified).toBeUndefined();
+    });
+  });
 });
@@ -12,6 +12,9 @@ vi.mock("../../src/config.js", () => ({
     metadataIndexMode: "normal",
     metadataMaxBytes: 262144, // 256KB
     metadataTimeoutMs: 5000,
+    ipfsGateways: [{ name: "ipfs.io", url: "https://ipfs.io" }],
+    arweaveGateways: [{ name: "arweave.net", url: "https://arweave.net" }],
+    ipfsVerifyCid: true,
   },
 }));
 
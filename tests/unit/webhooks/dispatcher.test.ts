@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../../../src/config.js", () => ({
+  config: {
+    webhookDispatchIntervalMs: 1000,
+    webhookBatchSize: 10,
+    webhookMaxAttempts: 3,
+    webhookTimeoutMs: 1000,
+    webhookFinalityTimeoutMs: 60000,
+  },
+}));
+
+vi.mock("../../../src/logger.js", () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(() => mockLogger),
+  };
+  return {
+    createChildLogger: vi.fn(() => mockLogger),
+    logger: mockLogger,
+  };
+});
+
+import { WebhookDispatcher, computeBackoffMs } from "../../../src/webhooks/dispatcher.js";
+import { signWebhookPayload } from "../../../src/webhooks/outbox.js";
+import type { DueWebhookDelivery } from "../../../src/webhooks/store.js";
+
+function createMockStore() {
+  return {
+    refreshCache: vi.fn().mockResolvedValue(1),
+    claimDue: vi.fn().mockResolvedValue([]),
+    getEntityStatus: vi.fn().mockResolvedValue("PENDING"),
+    recordAttempt: vi.fn().mockResolvedValue(undefined),
+    markDelivered: vi.fn().mockResolvedValue(undefined),
+    markRetry: vi.fn().mockResolvedValue(undefined),
+    markFailed: vi.fn().mockResolvedValue(undefined),
+    markSkipped: vi.fn().mockResolvedValue(undefined),
+    defer: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+function delivery(overrides: Partial<DueWebhookDelivery> = {}): DueWebhookDelivery {
+  const payload = JSON.stringify({ id: "evt-1", type: "NewFeedback", asset: "asset1", data: {} });
+  return {
+    id: "del-1",
+    subscriptionId: "sub-1",
+    eventId: "evt-1",
+    eventType: "NewFeedback",
+    asset: "asset1",
+    txSignature: "sig1",
+    slot: "100",
+    payload,
+    status: "PENDING",
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lastStatusCode: null,
+    lastError: null,
+    createdAt: new Date(),
+    deliveredAt: null,
+    url: "https://example.com/hook",
+    secret: "secret-secret-secret",
+    minStatus: "PENDING",
+    ...overrides,
+  };
+}
+
+describe("WebhookDispatcher", () => {
+  let store: ReturnType<typeof createMockStore>;
+  let dispatcher: WebhookDispatcher;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    store = createMockStore();
+    fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    dispatcher = new WebhookDispatcher(null, null, 1000, store as any);
+    await dispatcher.start();
+  });
+
+  afterEach(async () => {
+    await dispatcher.stop();
+    vi.unstubAllGlobals();
+  });
+
+  it("should load subscriptions on start", () => {
+    expect(store.refreshCache).toHaveBeenCalled();
+  });
+
+  it("should POST signed payloads and mark them delivered", async () => {
+    const d = delivery();
+    store.claimDue.mockResolvedValue([d]);
+
+    const handled = await dispatcher.dispatch();
+
+    expect(handled).toBe(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://example.com/hook");
+    expect(init.method).toBe("POST");
+    expect(init.body).toBe(d.payload);
+    expect(init.headers["X-Webhook-Id"]).toBe("evt-1");
+    expect(init.headers["X-Webhook-Event"]).toBe("NewFeedback");
+    const timestamp = Number(init.headers["X-Webhook-Timestamp"]);
+    expect(init.headers["X-Webhook-Signature"]).toBe(signWebhookPayload(d.secret, timestamp, d.payload));
+
+    expect(store.recordAttempt).toHaveBeenCalledWith("del-1", 1, 200, null, expect.any(Number));
+    expect(store.markDelivered).toHaveBeenCalledWith("del-1", { attempts: 1, statusCode: 200, error: null });
+    expect(dispatcher.getStats().delivered).toBe(1);
+  });
+
+  it("should schedule a retry with backoff on non-2xx responses", async () => {
+    store.claimDue.mockResolvedValue([delivery()]);
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+    const before = Date.now();
+    await dispatcher.dispatch();
+
+    expect(store.markRetry).toHaveBeenCalledTimes(1);
+    const [id, outcome, nextAttemptAt] = store.markRetry.mock.calls[0];
+    expect(id).toBe("del-1");
+    expect(outcome).toEqual({ attempts: 1, statusCode: 503, error: "HTTP 503" });
+    expect(nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + computeBackoffMs(1));
+    expect(store.markDelivered).not.toHaveBeenCalled();
+  });
+
+  it("should mark deliveries failed after the last attempt", async () => {
+    store.claimDue.mockResolvedValue([delivery({ attempts: 2 })]);
+    fetchMock.mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+    await dispatcher.dispatch();
+
+    expect(store.markFailed).toHaveBeenCalledWith("del-1", {
+      attempts: 3,
+      statusCode: null,
+      error: "connect ECONNREFUSED",
+    });
+    expect(store.recordAttempt).toHaveBeenCalledWith("del-1", 3, null, "connect ECONNREFUSED", expect.any(Number));
+  });
+
+  it("should skip deliveries for orphaned events", async () => {
+    store.claimDue.mockResolvedValue([delivery()]);
+    store.getEntityStatus.mockResolvedValue("ORPHANED");
+
+    await dispatcher.dispatch();
+
+    expect(store.markSkipped).toHaveBeenCalledWith("del-1", expect.stringContaining("orphaned"));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should defer FINALIZED subscriptions until the record is finalized", async () => {
+    store.claimDue.mockResolvedValue([delivery({ minStatus: "FINALIZED" })]);
+    store.getEntityStatus.mockResolvedValue("PENDING");
+
+    await dispatcher.dispatch();
+
+    expect(store.defer).toHaveBeenCalledWith("del-1", expect.any(Date));
+    expect(store.recordAttempt).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    store.getEntityStatus.mockResolvedValue("FINALIZED");
+    await dispatcher.dispatch();
+    expect(store.markDelivered).toHaveBeenCalled();
+  });
+
+  it("should skip FINALIZED deliveries that exceed the finality timeout", async () => {
+    store.claimDue.mockResolvedValue([
+      delivery({ minStatus: "FINALIZED", createdAt: new Date(Date.now() - 120000) }),
+    ]);
+    store.getEntityStatus.mockResolvedValue(null);
+
+    await dispatcher.dispatch();
+
+    expect(store.markSkipped).toHaveBeenCalledWith("del-1", expect.stringContaining("Not finalized"));
+    expect(store.defer).not.toHaveBeenCalled();
+  });
+
+  it("should not dispatch after stop", async () => {
+    await dispatcher.stop();
+    store.claimDue.mockResolvedValue([delivery()]);
+
+    expect(await dispatcher.dispatch()).toBe(0);
+    expect(store.claimDue).not.toHaveBeenCalled();
+  });
+});
+
+describe("computeBackoffMs", () => {
+  it("should grow exponentially and cap at one hour", () => {
+    expect(computeBackoffMs(1)).toBe(10000);
+    expect(computeBackoffMs(2)).toBe(20000);
+    expect(computeBackoffMs(4)).toBe(80000);
+    expect(computeBackoffMs(20)).toBe(3600000);
+  });
+});
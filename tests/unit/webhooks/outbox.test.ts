@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHmac } from "crypto";
+import { PublicKey } from "@solana/web3.js";
+
+vi.mock("../../../src/logger.js", () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(() => mockLogger),
+  };
+  return {
+    createChildLogger: vi.fn(() => mockLogger),
+    logger: mockLogger,
+  };
+});
+
+import {
+  toJsonSafe,
+  buildWebhookPayload,
+  signWebhookPayload,
+  webhookSubscriptions,
+  matchSubscriptions,
+  enqueueWebhookDeliveriesPrisma,
+  enqueueWebhookDeliveriesPg,
+  WebhookSubscription,
+} from "../../../src/webhooks/outbox.js";
+
+const ASSET = new PublicKey("AToMufS4QD6hEXvcvBDg9m1AHeCLpmZQsyfYa5h9MwAF");
+const CLIENT = new PublicKey("So11111111111111111111111111111111111111112");
+const OTHER = new PublicKey("11111111111111111111111111111111");
+
+const ctx = {
+  signature: "sig123",
+  slot: 12345n,
+  blockTime: new Date("2026-01-01T00:00:00Z"),
+  txIndex: 2,
+};
+
+const feedbackEvent = {
+  type: "NewFeedback",
+  data: {
+    asset: ASSET,
+    clientAddress: CLIENT,
+    feedbackIndex: 7n,
+    sealHash: new Uint8Array([0xde, 0xad]),
+    score: 80,
+  },
+};
+
+function subscription(overrides: Partial<WebhookSubscription> = {}): WebhookSubscription {
+  return {
+    id: "sub-1",
+    url: "https://example.com/hook",
+    secret: "secret-secret-secret",
+    eventTypes: [],
+    asset: null,
+    collection: null,
+    client: null,
+    minStatus: "PENDING",
+    active: true,
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("Webhook outbox", () => {
+  beforeEach(() => {
+    webhookSubscriptions.set([]);
+  });
+
+  describe("toJsonSafe", () => {
+    it("should convert pubkeys, bigints, bytes and dates", () => {
+      expect(toJsonSafe({
+        key: ASSET,
+        n: 5n,
+        bytes: new Uint8Array([1, 255]),
+        at: new Date("2026-01-01T00:00:00Z"),
+        list: [1n, null],
+      })).toEqual({
+        key: ASSET.toBase58(),
+        n: "5",
+        bytes: "01ff",
+        at: "2026-01-01T00:00:00.000Z",
+        list: ["1", null],
+      });
+    });
+  });
+
+  describe("buildWebhookPayload", () => {
+    it("should extract asset and client and serialize data", () => {
+      const payload = buildWebhookPayload(feedbackEvent, ctx);
+
+      expect(payload.type).toBe("NewFeedback");
+      expect(payload.asset).toBe(ASSET.toBase58());
+      expect(payload.client).toBe(CLIENT.toBase58());
+      expect(payload.slot).toBe("12345");
+      expect(payload.txIndex).toBe(2);
+      expect(payload.blockTime).toBe("2026-01-01T00:00:00.000Z");
+      expect(payload.data.feedbackIndex).toBe("7");
+      expect(payload.data.sealHash).toBe("dead");
+      expect(payload.id).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it("should produce a stable id for the same event", () => {
+      const first = buildWebhookPayload(feedbackEvent, ctx);
+      const second = buildWebhookPayload(feedbackEvent, ctx);
+      const otherTx = buildWebhookPayload(feedbackEvent, { ...ctx, signature: "sig456" });
+
+      expect(second.id).toBe(first.id);
+      expect(otherTx.id).not.toBe(first.id);
+    });
+
+    it("should use the collection as asset for RegistryInitialized", () => {
+      const payload = buildWebhookPayload(
+        { type: "RegistryInitialized", data: { collection: ASSET, authority: OTHER } },
+        ctx
+      );
+      expect(payload.asset).toBe(ASSET.toBase58());
+      expect(payload.client).toBeNull();
+    });
+  });
+
+  describe("signWebhookPayload", () => {
+    it("should sign timestamp and body with HMAC-SHA256", () => {
+      const expected = createHmac("sha256", "s3cret").update("1700000000.{\"a\":1}").digest("hex");
+      expect(signWebhookPayload("s3cret", 1700000000, "{\"a\":1}")).toBe(`sha256=${expected}`);
+    });
+  });
+
+  describe("matchSubscriptions", () => {
+    it("should filter by event type, asset and client", async () => {
+      webhookSubscriptions.set([
+        subscription({ id: "all" }),
+        subscription({ id: "type", eventTypes: ["NewFeedback"] }),
+        subscription({ id: "wrong-type", eventTypes: ["AgentRegistered"] }),
+        subscription({ id: "asset", asset: ASSET.toBase58() }),
+        subscription({ id: "wrong-asset", asset: OTHER.toBase58() }),
+        subscription({ id: "client", client: CLIENT.toBase58() }),
+        subscription({ id: "inactive", active: false }),
+      ]);
+      const loadAgent = vi.fn();
+
+      const matched = await matchSubscriptions(buildWebhookPayload(feedbackEvent, ctx), loadAgent);
+
+      expect(matched.map((s) => s.id)).toEqual(["all", "type", "asset", "client"]);
+      expect(loadAgent).not.toHaveBeenCalled();
+    });
+
+    it("should match collection filters against the agent collection or pointer", async () => {
+      webhookSubscriptions.set([
+        subscription({ id: "col", collection: "col-a" }),
+        subscription({ id: "pointer", collection: "c1:pointer" }),
+        subscription({ id: "other", collection: "col-b" }),
+      ]);
+      const loadAgent = vi.fn().mockResolvedValue({ collection: "col-a", collectionPointer: "c1:pointer" });
+
+      const matched = await matchSubscriptions(buildWebhookPayload(feedbackEvent, ctx), loadAgent);
+
+      expect(matched.map((s) => s.id)).toEqual(["col", "pointer"]);
+      expect(loadAgent).toHaveBeenCalledWith(ASSET.toBase58());
+    });
+
+    it("should match CollectionPointerSet on the new pointer", async () => {
+      webhookSubscriptions.set([subscription({ id: "pointer", collection: "c1:new" })]);
+      const loadAgent = vi.fn().mockResolvedValue(null);
+
+      const matched = await matchSubscriptions(
+        buildWebhookPayload({ type: "CollectionPointerSet", data: { asset: ASSET, setBy: OTHER, col: "c1:new" } }, ctx),
+        loadAgent
+      );
+
+      expect(matched.map((s) => s.id)).toEqual(["pointer"]);
+    });
+  });
+
+  describe("enqueueWebhookDeliveriesPrisma", () => {
+    it("should be a no-op without subscriptions", async () => {
+      const tx = { webhookDelivery: { upsert: vi.fn() }, agent: { findUnique: vi.fn() } };
+
+      const count = await enqueueWebhookDeliveriesPrisma(tx as any, feedbackEvent, ctx);
+
+      expect(count).toBe(0);
+      expect(tx.webhookDelivery.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should upsert one delivery per matching subscription", async () => {
+      webhookSubscriptions.set([subscription({ id: "a" }), subscription({ id: "b", eventTypes: ["UriUpdated"] })]);
+      const tx = { webhookDelivery: { upsert: vi.fn().mockResolvedValue({}) }, agent: { findUnique: vi.fn() } };
+
+      const count = await enqueueWebhookDeliveriesPrisma(tx as any, feedbackEvent, ctx);
+
+      expect(count).toBe(1);
+      const args = tx.webhookDelivery.upsert.mock.calls[0][0];
+      const payload = buildWebhookPayload(feedbackEvent, ctx);
+      expect(args.where).toEqual({ subscriptionId_eventId: { subscriptionId: "a", eventId: payload.id } });
+      expect(args.create.slot).toBe(12345n);
+      expect(JSON.parse(args.create.payload)).toEqual(payload);
+      expect(args.update).toEqual({});
+    });
+  });
+
+  describe("enqueueWebhookDeliveriesPg", () => {
+    it("should insert with ON CONFLICT DO NOTHING", async () => {
+      webhookSubscriptions.set([subscription({ id: "a", collection: "col-a" })]);
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [{ collection: "col-a", canonical_col: "" }] })
+          .mockResolvedValueOnce({ rowCount: 1 }),
+      };
+
+      const count = await enqueueWebhookDeliveriesPg(client as any, feedbackEvent, ctx);
+
+      expect(count).toBe(1);
+      expect(client.query.mock.calls[0][0]).toContain("FROM agents");
+      const [sql, params] = client.query.mock.calls[1];
+      expect(sql).toContain("ON CONFLICT (subscription_id, event_id) DO NOTHING");
+      expect(params[1]).toBe("a");
+      expect(params[6]).toBe("12345");
+    });
+
+    it("should skip when the agent is not in the filtered collection", async () => {
+      webhookSubscriptions.set([subscription({ id: "a", collection: "col-a" })]);
+      const client = { query: vi.fn().mockResolvedValue({ rows: [{ collection: "col-b", canonical_col: "" }] }) };
+
+      const count = await enqueueWebhookDeliveriesPg(client as any, feedbackEvent, ctx);
+
+      expect(count).toBe(0);
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+  });
+});